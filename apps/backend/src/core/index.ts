@@ -4,4 +4,20 @@
  * Central exports for core infrastructure components.
  */
 
-export { redis, isRedisReady, disconnectRedis, connectRedis } from './redis.js';
+export {
+  redis,
+  isRedisReady,
+  disconnectRedis,
+  connectRedis,
+  acquireLock,
+  releaseLock,
+} from './redis.js';
+export {
+  JobScheduler,
+  dailyAt,
+  everyMinutes,
+  redisJobLock,
+  type ScheduledJob,
+  type JobLock,
+  type JobRunOutcome,
+} from './scheduler.js';
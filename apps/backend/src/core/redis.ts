@@ -5,12 +5,14 @@
  * - Rate limiting
  * - Session storage
  * - Caching
+ * - Distributed locks (scheduled jobs)
  *
  * Configuration via environment variables:
  * - REDIS_HOST (default: localhost)
  * - REDIS_PORT (default: 6379)
  */
 
+import { randomUUID } from 'crypto';
 import Redis from 'ioredis';
 
 /**
@@ -84,3 +86,39 @@ export async function connectRedis(): Promise<void> {
     await redis.connect();
   }
 }
+
+/**
+ * Release script: only delete the lock if it still holds our token,
+ * so an instance never releases a lock that expired and was taken by another
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Acquire a distributed lock (SET NX with expiry)
+ *
+ * Used to ensure only one backend replica runs a job at a time.
+ *
+ * @param key - Lock key (e.g., 'lock:job:nightly-assignment-generation')
+ * @param ttlSeconds - Lock expiry, so a crashed holder cannot block others forever
+ * @returns Lock token if acquired, null if another holder has the lock
+ */
+export async function acquireLock(key: string, ttlSeconds: number): Promise<string | null> {
+  const token = randomUUID();
+  const result = await redis.set(key, token, 'EX', ttlSeconds, 'NX');
+  return result === 'OK' ? token : null;
+}
+
+/**
+ * Release a lock acquired with acquireLock
+ *
+ * @returns true if the lock was released, false if it was no longer ours
+ */
+export async function releaseLock(key: string, token: string): Promise<boolean> {
+  const result = await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+  return result === 1;
+}
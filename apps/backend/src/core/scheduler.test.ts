@@ -0,0 +1,228 @@
+/**
+ * JobScheduler Unit Tests
+ *
+ * Tests scheduling helpers and lock handling with an in-memory lock.
+ * No Redis or database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobScheduler, dailyAt, everyMinutes, type JobLock } from './scheduler.js';
+
+const silentLogger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+function createMemoryLock() {
+  const held = new Map<string, string>();
+  let counter = 0;
+  const lock: JobLock = {
+    acquire: async (key) => {
+      if (held.has(key)) return null;
+      const token = `token-${++counter}`;
+      held.set(key, token);
+      return token;
+    },
+    release: async (key, token) => {
+      if (held.get(key) === token) held.delete(key);
+    },
+  };
+  return { lock, held };
+}
+
+describe('JobScheduler', () => {
+  describe('dailyAt', () => {
+    it('should return today when the time has not passed yet', () => {
+      const next = dailyAt(2, 30)(new Date('2026-01-05T01:00:00Z'));
+      assert.equal(next.toISOString(), '2026-01-05T02:30:00.000Z');
+    });
+
+    it('should return tomorrow when the time has passed', () => {
+      const next = dailyAt(2)(new Date('2026-01-05T02:00:00Z'));
+      assert.equal(next.toISOString(), '2026-01-06T02:00:00.000Z');
+    });
+
+    it('should roll over month and year boundaries', () => {
+      const next = dailyAt(0)(new Date('2026-12-31T23:00:00Z'));
+      assert.equal(next.toISOString(), '2027-01-01T00:00:00.000Z');
+    });
+
+    it('should reject invalid hours and minutes', () => {
+      assert.throws(() => dailyAt(24));
+      assert.throws(() => dailyAt(2, 60));
+    });
+  });
+
+  describe('everyMinutes', () => {
+    it('should add the interval', () => {
+      const next = everyMinutes(15)(new Date('2026-01-05T01:00:00Z'));
+      assert.equal(next.toISOString(), '2026-01-05T01:15:00.000Z');
+    });
+
+    it('should reject non-positive intervals', () => {
+      assert.throws(() => everyMinutes(0));
+    });
+  });
+
+  describe('runNow', () => {
+    let memory: ReturnType<typeof createMemoryLock>;
+    let scheduler: JobScheduler;
+
+    beforeEach(() => {
+      memory = createMemoryLock();
+      scheduler = new JobScheduler({ logger: silentLogger, lock: memory.lock });
+    });
+
+    it('should run the job and release the lock', async () => {
+      const run = mock.fn(async () => {});
+      scheduler.register({ name: 'test-job', nextRunAt: everyMinutes(60), run });
+
+      const outcome = await scheduler.runNow('test-job');
+
+      assert.equal(outcome, 'completed');
+      assert.equal(run.mock.callCount(), 1);
+      assert.equal(memory.held.size, 0);
+    });
+
+    it('should skip the job when another instance holds the lock', async () => {
+      const run = mock.fn(async () => {});
+      scheduler.register({ name: 'test-job', nextRunAt: everyMinutes(60), run });
+      memory.held.set('lock:job:test-job', 'other-instance');
+
+      const outcome = await scheduler.runNow('test-job');
+
+      assert.equal(outcome, 'locked');
+      assert.equal(run.mock.callCount(), 0);
+      assert.equal(memory.held.get('lock:job:test-job'), 'other-instance');
+    });
+
+    it('should report failures without throwing and release the lock', async () => {
+      scheduler.register({
+        name: 'failing-job',
+        nextRunAt: everyMinutes(60),
+        run: async () => {
+          throw new Error('boom');
+        },
+      });
+
+      const outcome = await scheduler.runNow('failing-job');
+
+      assert.equal(outcome, 'failed');
+      assert.equal(memory.held.size, 0);
+    });
+
+    it('should run unlocked when locking is unavailable', async () => {
+      const run = mock.fn(async () => {});
+      const unavailableLock: JobLock = {
+        acquire: async () => undefined,
+        release: mock.fn(async () => {}),
+      };
+      const unlocked = new JobScheduler({ logger: silentLogger, lock: unavailableLock });
+      unlocked.register({ name: 'test-job', nextRunAt: everyMinutes(60), run });
+
+      const outcome = await unlocked.runNow('test-job');
+
+      assert.equal(outcome, 'completed');
+      assert.equal(run.mock.callCount(), 1);
+    });
+
+    it('should reject unknown and duplicate jobs', async () => {
+      scheduler.register({ name: 'test-job', nextRunAt: everyMinutes(60), run: async () => {} });
+
+      await assert.rejects(() => scheduler.runNow('missing-job'));
+      assert.throws(() =>
+        scheduler.register({ name: 'test-job', nextRunAt: everyMinutes(60), run: async () => {} }),
+      );
+    });
+  });
+
+  describe('start/stop', () => {
+    it('should run scheduled jobs when their time comes', async () => {
+      const { lock } = createMemoryLock();
+      let now = new Date('2026-01-05T01:59:59.990Z');
+      const scheduler = new JobScheduler({ logger: silentLogger, lock, now: () => now });
+
+      let resolveRun: () => void;
+      const ran = new Promise<void>((resolve) => {
+        resolveRun = resolve;
+      });
+
+      scheduler.register({
+        name: 'nightly',
+        nextRunAt: dailyAt(2),
+        run: async () => {
+          now = new Date('2026-01-05T02:00:01Z');
+          resolveRun();
+        },
+      });
+
+      scheduler.start();
+      await ran;
+      scheduler.stop();
+
+      assert.deepEqual(scheduler.getJobNames(), ['nightly']);
+    });
+
+    it('should keep the lock of a scheduled slot until it expires', async () => {
+      const memory = createMemoryLock();
+      let now = new Date('2026-01-05T01:59:59.990Z');
+      const scheduler = new JobScheduler({
+        logger: silentLogger,
+        lock: memory.lock,
+        now: () => now,
+      });
+
+      const run = mock.fn(async () => {
+        now = new Date('2026-01-05T02:00:01Z');
+      });
+      scheduler.register({ name: 'nightly', nextRunAt: dailyAt(2), run });
+
+      scheduler.start();
+      // Scheduler timers are unref'd; this one keeps the test alive until the run
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      scheduler.stop();
+
+      assert.equal(run.mock.callCount(), 1);
+      assert.deepEqual([...memory.held.keys()], ['lock:job:nightly:2026-01-05T02:00:00.000Z']);
+    });
+
+    it('should not let a manual run overlap a scheduled run', async () => {
+      let now = new Date('2026-01-05T01:59:59.990Z');
+      const memory = createMemoryLock();
+      const scheduler = new JobScheduler({
+        logger: silentLogger,
+        lock: memory.lock,
+        now: () => now,
+      });
+
+      let resolveStarted: () => void;
+      const started = new Promise<void>((resolve) => {
+        resolveStarted = resolve;
+      });
+      let finish: () => void;
+      const finished = new Promise<void>((resolve) => {
+        finish = resolve;
+      });
+      const run = mock.fn(async () => {
+        now = new Date('2026-01-05T02:00:01Z');
+        resolveStarted();
+        await finished;
+      });
+      scheduler.register({ name: 'nightly', nextRunAt: dailyAt(2), run });
+
+      scheduler.start();
+      // Scheduler timers are unref'd; this one keeps the test alive until the run
+      const keepAlive = setTimeout(() => {}, 1000);
+      await started;
+      const outcome = await scheduler.runNow('nightly');
+      finish!();
+      scheduler.stop();
+      clearTimeout(keepAlive);
+
+      assert.equal(outcome, 'locked');
+      assert.equal(run.mock.callCount(), 1);
+    });
+  });
+});
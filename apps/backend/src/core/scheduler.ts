@@ -0,0 +1,286 @@
+/**
+ * Job Scheduler
+ *
+ * In-process scheduler for recurring background jobs (e.g., nightly
+ * assignment generation).
+ *
+ * Each job run is guarded by a Redis lock so that only one backend replica
+ * executes it when several instances are deployed, and manual and scheduled
+ * runs of a job never overlap. Scheduled runs also lock their slot (job name
+ * + scheduled time) and keep that lock until it expires, so a replica whose
+ * timer fires late can't run the same slot again. When Redis is
+ * unavailable the job runs without a lock, so jobs MUST be idempotent.
+ */
+
+import { isRedisReady, acquireLock, releaseLock } from './redis.js';
+
+/**
+ * A recurring background job
+ */
+export interface ScheduledJob {
+  /** Unique job name (also used for the lock key) */
+  name: string;
+  /** Returns the next time the job should run, strictly after `from` */
+  nextRunAt: (from: Date) => Date;
+  /**
+   * Lock expiry in seconds - should exceed the expected job duration and the
+   * clock drift between replicas (default: 600)
+   */
+  lockTtlSeconds?: number;
+  /** Job body */
+  run: () => Promise<void>;
+}
+
+/**
+ * Distributed lock used to coordinate job runs across instances
+ */
+export interface JobLock {
+  /** Returns a token if acquired, null if held elsewhere, undefined if locking is unavailable */
+  acquire: (key: string, ttlSeconds: number) => Promise<string | null | undefined>;
+  release: (key: string, token: string) => Promise<void>;
+}
+
+/**
+ * Minimal logger interface (compatible with Fastify's logger)
+ */
+export interface SchedulerLogger {
+  info: (obj: object, msg?: string) => void;
+  warn: (obj: object, msg?: string) => void;
+  error: (obj: object, msg?: string) => void;
+}
+
+export interface JobSchedulerOptions {
+  logger?: SchedulerLogger;
+  lock?: JobLock;
+  now?: () => Date;
+}
+
+/**
+ * Outcome of a single job execution attempt
+ */
+export type JobRunOutcome = 'completed' | 'failed' | 'locked';
+
+const DEFAULT_LOCK_TTL_SECONDS = 600;
+const LOCK_KEY_PREFIX = 'lock:job:';
+
+/**
+ * Redis-backed lock. Returns undefined from acquire() when Redis is not
+ * connected, so the scheduler falls back to running unlocked.
+ */
+export const redisJobLock: JobLock = {
+  acquire: async (key, ttlSeconds) => {
+    if (!isRedisReady()) {
+      return undefined;
+    }
+    return acquireLock(key, ttlSeconds);
+  },
+  release: async (key, token) => {
+    if (isRedisReady()) {
+      await releaseLock(key, token);
+    }
+  },
+};
+
+const consoleLogger: SchedulerLogger = {
+  info: (obj, msg) => console.log(msg, obj),
+  warn: (obj, msg) => console.warn(msg, obj),
+  error: (obj, msg) => console.error(msg, obj),
+};
+
+/**
+ * Schedule: every day at a fixed UTC time
+ *
+ * @param hour - Hour of day (0-23, UTC)
+ * @param minute - Minute of hour (0-59)
+ */
+export function dailyAt(hour: number, minute = 0): (from: Date) => Date {
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    throw new Error('hour must be an integer between 0 and 23');
+  }
+  if (!Number.isInteger(minute) || minute < 0 || minute > 59) {
+    throw new Error('minute must be an integer between 0 and 59');
+  }
+
+  return (from: Date) => {
+    const next = new Date(
+      Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate(), hour, minute),
+    );
+    if (next.getTime() <= from.getTime()) {
+      next.setUTCDate(next.getUTCDate() + 1);
+    }
+    return next;
+  };
+}
+
+/**
+ * Schedule: fixed interval
+ *
+ * @param minutes - Interval in minutes (must be positive)
+ */
+export function everyMinutes(minutes: number): (from: Date) => Date {
+  if (!(minutes > 0)) {
+    throw new Error('minutes must be positive');
+  }
+  return (from: Date) => new Date(from.getTime() + minutes * 60_000);
+}
+
+export class JobScheduler {
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly logger: SchedulerLogger;
+  private readonly lock: JobLock;
+  private readonly now: () => Date;
+  private running = false;
+
+  constructor(options: JobSchedulerOptions = {}) {
+    this.logger = options.logger ?? consoleLogger;
+    this.lock = options.lock ?? redisJobLock;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Register a job. If the scheduler is already started, the job is scheduled immediately.
+   */
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job already registered: ${job.name}`);
+    }
+    this.jobs.set(job.name, job);
+    if (this.running) {
+      this.scheduleNext(job);
+    }
+  }
+
+  /**
+   * Start scheduling all registered jobs
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    for (const job of this.jobs.values()) {
+      this.scheduleNext(job);
+    }
+  }
+
+  /**
+   * Stop all timers. Jobs already executing are allowed to finish.
+   */
+  stop(): void {
+    this.running = false;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Names of registered jobs
+   */
+  getJobNames(): string[] {
+    return [...this.jobs.keys()];
+  }
+
+  /**
+   * Execute a job immediately (still guarded by the distributed lock)
+   *
+   * Never throws - job failures are logged and reported as 'failed'.
+   */
+  async runNow(name: string): Promise<JobRunOutcome> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    return this.execute(job);
+  }
+
+  /**
+   * Run a job under its lock
+   *
+   * Every run, manual or scheduled, holds the job's lock while it runs, so
+   * runs of the same job never overlap.
+   *
+   * @param slot - Scheduled time of the run; its slot lock is taken first and
+   *   left to expire instead of being released, so other replicas skip the slot
+   */
+  private async execute(job: ScheduledJob, slot?: Date): Promise<JobRunOutcome> {
+    if (slot) {
+      const slotToken = await this.acquireLock(
+        job,
+        `${LOCK_KEY_PREFIX}${job.name}:${slot.toISOString()}`,
+      );
+      if (slotToken === null) {
+        this.logger.info({ job: job.name }, 'Scheduler: slot already run by another instance');
+        return 'locked';
+      }
+    }
+
+    const lockKey = `${LOCK_KEY_PREFIX}${job.name}`;
+    const token = await this.acquireLock(job, lockKey);
+
+    if (token === null) {
+      this.logger.info({ job: job.name }, 'Scheduler: job is running on another instance');
+      return 'locked';
+    }
+
+    if (token === undefined) {
+      this.logger.warn({ job: job.name }, 'Scheduler: lock unavailable, running job unlocked');
+    }
+
+    const startedAt = Date.now();
+    try {
+      await job.run();
+      this.logger.info(
+        { job: job.name, durationMs: Date.now() - startedAt },
+        'Scheduler: job completed',
+      );
+      return 'completed';
+    } catch (err) {
+      this.logger.error({ err, job: job.name }, 'Scheduler: job failed');
+      return 'failed';
+    } finally {
+      if (token) {
+        try {
+          await this.lock.release(lockKey, token);
+        } catch (err) {
+          this.logger.warn({ err, job: job.name }, 'Scheduler: failed to release lock');
+        }
+      }
+    }
+  }
+
+  /**
+   * @returns A token, null when the lock is held elsewhere, undefined when locking is unavailable
+   */
+  private async acquireLock(job: ScheduledJob, key: string): Promise<string | null | undefined> {
+    try {
+      return await this.lock.acquire(key, job.lockTtlSeconds ?? DEFAULT_LOCK_TTL_SECONDS);
+    } catch (err) {
+      this.logger.warn({ err, job: job.name }, 'Scheduler: failed to acquire lock');
+      return undefined;
+    }
+  }
+
+  private scheduleNext(job: ScheduledJob): void {
+    const now = this.now();
+    const nextRun = job.nextRunAt(now);
+    const delay = Math.max(0, nextRun.getTime() - now.getTime());
+
+    const timer = setTimeout(async () => {
+      this.timers.delete(job.name);
+      await this.execute(job, nextRun);
+      if (this.running) {
+        this.scheduleNext(job);
+      }
+    }, delay);
+
+    // Don't keep the process alive just for scheduled jobs
+    timer.unref();
+    this.timers.set(job.name, timer);
+
+    this.logger.info(
+      { job: job.name, nextRunAt: nextRun.toISOString() },
+      'Scheduler: job scheduled',
+    );
+  }
+}
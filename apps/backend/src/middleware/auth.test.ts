@@ -1,10 +1,15 @@
-import { test, describe } from 'node:test';
+import { test, describe, before, after } from 'node:test';
 import assert from 'node:assert';
+import { randomUUID } from 'node:crypto';
 import jwt from 'jsonwebtoken';
+import pg from 'pg';
 import { authenticateUser } from './auth.ts';
 
 /**
  * Authentication Middleware Unit Tests
+ *
+ * Tokens with a session are checked against user_sessions, so the session
+ * tests need the test database.
  */
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
@@ -38,8 +43,8 @@ function createMockReply() {
   } as any;
 }
 
-function generateValidToken(userId: string, email: string): string {
-  return jwt.sign({ userId, email, type: 'access' }, JWT_SECRET, { expiresIn: '1h' });
+function generateValidToken(userId: string, email: string, sessionId?: string): string {
+  return jwt.sign({ userId, email, sessionId, type: 'access' }, JWT_SECRET, { expiresIn: '1h' });
 }
 
 function generateRefreshToken(userId: string): string {
@@ -120,12 +125,57 @@ describe('authenticateUser Middleware', () => {
     });
   });
 
-  describe('Successful Authentication', () => {
+  describe('Session Validation', () => {
+    let pool: pg.Pool;
+    let userId: string;
+    const email = `auth-middleware-${Date.now()}@example.com`;
+
+    before(async () => {
+      pool = new pg.Pool({
+        host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+        port: parseInt(process.env.TEST_DB_PORT || '55432'),
+        database: process.env.TEST_DB_NAME || 'st44_test',
+        user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+        password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+      });
+
+      userId = (
+        await pool.query('INSERT INTO users (email, password_hash) VALUES ($1, $2) RETURNING id', [
+          email,
+          'hashedpassword',
+        ])
+      ).rows[0].id;
+    });
+
+    after(async () => {
+      // Sessions go with the user
+      await pool.query('DELETE FROM users WHERE id = $1', [userId]);
+      await pool.end();
+    });
+
+    async function createSession(
+      options: { expiresIn?: string; revoked?: boolean } = {},
+    ): Promise<string> {
+      const { expiresIn = '7 days', revoked = false } = options;
+      const sessionId = randomUUID();
+      await pool.query(
+        `INSERT INTO user_sessions (id, user_id, token_hash, expires_at, revoked_at, revoked_reason)
+         VALUES ($1, $2, $3, NOW() + $4::interval, $5, $6)`,
+        [
+          sessionId,
+          userId,
+          'a'.repeat(64),
+          expiresIn,
+          revoked ? new Date() : null,
+          revoked ? 'revoked' : null,
+        ],
+      );
+      return sessionId;
+    }
+
     test('should authenticate valid access token', async () => {
-      const userId = 'user-123';
-      const email = 'test@example.com';
-      const validToken = generateValidToken(userId, email);
-      const request = createMockRequest(`Bearer ${validToken}`);
+      const sessionId = await createSession();
+      const request = createMockRequest(`Bearer ${generateValidToken(userId, email, sessionId)}`);
       const reply = createMockReply();
 
       await authenticateUser(request, reply);
@@ -134,19 +184,65 @@ describe('authenticateUser Middleware', () => {
       assert.ok(request.user);
       assert.strictEqual(request.user.userId, userId);
       assert.strictEqual(request.user.email, email);
+      assert.strictEqual(request.user.sessionId, sessionId);
     });
 
-    test('should handle UUID user IDs', async () => {
-      const userId = '550e8400-e29b-41d4-a716-446655440000';
-      const email = 'uuid@example.com';
+    test('should attach when the access token expires', async () => {
+      const sessionId = await createSession();
+      const token = generateValidToken(userId, email, sessionId);
+      const request = createMockRequest(`Bearer ${token}`);
+      const reply = createMockReply();
+
+      await authenticateUser(request, reply);
+
+      assert.strictEqual(reply.wasSent(), false);
+      assert.strictEqual(request.user?.expiresAt, (jwt.decode(token) as jwt.JwtPayload).exp);
+    });
+
+    test('should return 401 for access token without a session', async () => {
       const validToken = generateValidToken(userId, email);
       const request = createMockRequest(`Bearer ${validToken}`);
       const reply = createMockReply();
 
       await authenticateUser(request, reply);
 
-      assert.strictEqual(reply.wasSent(), false);
-      assert.strictEqual(request.user?.userId, userId);
+      assert.strictEqual(reply.getStatus(), 401);
+      assert.strictEqual(reply.getBody().message, 'Session expired or revoked');
+      assert.strictEqual(request.user, undefined);
+    });
+
+    test('should return 401 for a revoked session', async () => {
+      const sessionId = await createSession({ revoked: true });
+      const request = createMockRequest(`Bearer ${generateValidToken(userId, email, sessionId)}`);
+      const reply = createMockReply();
+
+      await authenticateUser(request, reply);
+
+      assert.strictEqual(reply.getStatus(), 401);
+      assert.strictEqual(reply.getBody().message, 'Session expired or revoked');
+      assert.strictEqual(request.user, undefined);
+    });
+
+    test('should return 401 for an expired session', async () => {
+      const sessionId = await createSession({ expiresIn: '-1 minute' });
+      const request = createMockRequest(`Bearer ${generateValidToken(userId, email, sessionId)}`);
+      const reply = createMockReply();
+
+      await authenticateUser(request, reply);
+
+      assert.strictEqual(reply.getStatus(), 401);
+      assert.strictEqual(reply.getBody().message, 'Session expired or revoked');
+    });
+
+    test("should return 401 for another user's session", async () => {
+      const sessionId = await createSession();
+      const token = generateValidToken(randomUUID(), 'someone-else@example.com', sessionId);
+      const request = createMockRequest(`Bearer ${token}`);
+      const reply = createMockReply();
+
+      await authenticateUser(request, reply);
+
+      assert.strictEqual(reply.getStatus(), 401);
     });
   });
 });
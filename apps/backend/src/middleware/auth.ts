@@ -1,5 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import jwt from 'jsonwebtoken';
+import { pool } from '../database.js';
+import { UserSessionRepository } from '../repositories/user-session.repository.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
 
@@ -10,6 +12,9 @@ declare module 'fastify' {
       userId: string;
       email: string;
       role?: string;
+      sessionId?: string;
+      /** When the access token expires (seconds since the epoch) */
+      expiresAt?: number;
     };
   }
 }
@@ -18,6 +23,7 @@ interface AccessTokenPayload {
   userId: string;
   email: string;
   role?: string;
+  sessionId?: string;
   type: string;
   iat: number;
   exp: number;
@@ -51,11 +57,25 @@ export async function authenticateUser(request: FastifyRequest, reply: FastifyRe
       });
     }
 
+    // A signed-out session stops working right away, not when its access token expires
+    const sessionActive =
+      !!decoded.sessionId &&
+      (await new UserSessionRepository(pool).isActive(decoded.sessionId, decoded.userId));
+    if (!sessionActive) {
+      return reply.code(401).send({
+        statusCode: 401,
+        error: 'Unauthorized',
+        message: 'Session expired or revoked',
+      });
+    }
+
     // Attach user info to request
     request.user = {
       userId: decoded.userId,
       email: decoded.email,
       role: decoded.role,
+      sessionId: decoded.sessionId,
+      expiresAt: decoded.exp,
     };
 
     // Middleware successful - continue to route handler
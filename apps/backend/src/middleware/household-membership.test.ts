@@ -15,10 +15,12 @@ describe('Household Membership Middleware', () => {
   let adminToken: string;
   let parentToken: string;
   let outsiderToken: string;
+  let caregiverToken: string;
   let householdId: string;
   let adminUserId: number;
   let parentUserId: number;
   let outsiderUserId: number;
+  let caregiverUserId: string;
 
   before(async () => {
     app = await build();
@@ -69,15 +71,29 @@ describe('Household Membership Middleware', () => {
       `INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, 'parent')`,
       [householdId, parentUserId],
     );
+
+    // Add caregiver
+    const caregiverData = await registerAndLogin(
+      app,
+      `mw-test-caregiver-${Date.now()}@example.com`,
+      testPassword,
+    );
+    caregiverToken = caregiverData.accessToken;
+    caregiverUserId = caregiverData.userId;
+    await pool.query(
+      `INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, 'caregiver')`,
+      [householdId, caregiverUserId],
+    );
   });
 
   after(async () => {
     await pool.query('DELETE FROM household_members WHERE household_id = $1', [householdId]);
     await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
-    await pool.query('DELETE FROM users WHERE id IN ($1, $2, $3)', [
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2, $3, $4)', [
       adminUserId,
       parentUserId,
       outsiderUserId,
+      caregiverUserId,
     ]);
     await pool.end();
     await app.close();
@@ -129,7 +145,7 @@ describe('Household Membership Middleware', () => {
     });
   });
 
-  describe('requireHouseholdAdmin', () => {
+  describe('requireHouseholdPermission', () => {
     test('should allow admin to update household', async () => {
       const response = await app.inject({
         method: 'PUT',
@@ -149,6 +165,24 @@ describe('Household Membership Middleware', () => {
       });
       assert.strictEqual(response.statusCode, 403);
     });
+
+    test('should let caregiver view tasks but not create them', async () => {
+      const listResponse = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/tasks`,
+        headers: { Authorization: `Bearer ${caregiverToken}` },
+      });
+      assert.strictEqual(listResponse.statusCode, 200);
+
+      const createResponse = await app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/tasks`,
+        headers: { Authorization: `Bearer ${caregiverToken}` },
+        payload: { name: 'Caregiver task', points: 5, ruleType: 'daily' },
+      });
+      assert.strictEqual(createResponse.statusCode, 403);
+      assert.match(JSON.parse(createResponse.body).message, /caregiver/);
+    });
   });
 
   describe('Middleware Chaining', () => {
@@ -1,5 +1,8 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { pool } from '../database.js';
+import { HouseholdScope } from './household-scope.js';
+import { hasPermission, type HouseholdPermission } from '../services/authorization.service.js';
+import type { HouseholdRole } from '../types/database.js';
 
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -12,7 +15,7 @@ function isValidUuid(value: string): boolean {
 declare module 'fastify' {
   interface FastifyRequest {
     household?: {
-      role: 'admin' | 'parent' | 'child';
+      role: HouseholdRole;
       householdId: string;
     };
   }
@@ -28,7 +31,8 @@ interface HouseholdRouteParams {
 /**
  * Validates that authenticated user is a member of the household
  * specified in route params (:id or :householdId).
- * Attaches household role to request context for downstream use.
+ * Attaches household role to request context for downstream use and opens
+ * the request's row-level security scope (see household-scope.ts).
  */
 export async function validateHouseholdMembership(
   request: FastifyRequest<HouseholdRouteParams>,
@@ -83,6 +87,11 @@ export async function validateHouseholdMembership(
       householdId,
     };
 
+    // Queries on getHouseholdClient(request) only see this household's rows
+    if (!request.householdScope) {
+      request.householdScope = await HouseholdScope.open(pool, householdId);
+    }
+
     // Middleware successful - continue to route handler
   } catch (error) {
     request.log.error(error, 'Failed to validate household membership');
@@ -95,63 +104,35 @@ export async function validateHouseholdMembership(
 }
 
 /**
- * Requires user to have admin role in the household.
+ * Requires the user's household role to grant a permission (see
+ * ROLE_PERMISSIONS in authorization.service.ts).
  * Must be used AFTER validateHouseholdMembership middleware.
  */
-export async function requireHouseholdAdmin(request: FastifyRequest, reply: FastifyReply) {
-  const role = request.household?.role;
-
-  if (!role) {
-    request.log.error('requireHouseholdAdmin called without household context');
-    return reply.status(500).send({
-      statusCode: 500,
-      error: 'Internal Server Error',
-      message: 'Household context missing',
-    });
-  }
-
-  if (role !== 'admin') {
-    request.log.warn(
-      { userId: request.user?.userId, role },
-      'User attempted admin-only action without admin role',
-    );
-    return reply.status(403).send({
-      statusCode: 403,
-      error: 'Forbidden',
-      message: 'Admin role required for this action',
-    });
-  }
-
-  // Middleware successful - continue to route handler
-}
-
-/**
- * Requires user to have parent or admin role in the household.
- * Must be used AFTER validateHouseholdMembership middleware.
- */
-export async function requireHouseholdParent(request: FastifyRequest, reply: FastifyReply) {
-  const role = request.household?.role;
-
-  if (!role) {
-    request.log.error('requireHouseholdParent called without household context');
-    return reply.status(500).send({
-      statusCode: 500,
-      error: 'Internal Server Error',
-      message: 'Household context missing',
-    });
-  }
+export function requireHouseholdPermission(permission: HouseholdPermission) {
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    const role = request.household?.role;
+
+    if (!role) {
+      request.log.error({ permission }, 'Permission check called without household context');
+      return reply.status(500).send({
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: 'Household context missing',
+      });
+    }
 
-  if (role !== 'admin' && role !== 'parent') {
-    request.log.warn(
-      { userId: request.user?.userId, role },
-      'User attempted parent-level action without sufficient role',
-    );
-    return reply.status(403).send({
-      statusCode: 403,
-      error: 'Forbidden',
-      message: 'Parent or admin role required for this action',
-    });
-  }
+    if (!hasPermission(role, permission)) {
+      request.log.warn(
+        { userId: request.user?.userId, role, permission },
+        'User attempted action their household role does not allow',
+      );
+      return reply.status(403).send({
+        statusCode: 403,
+        error: 'Forbidden',
+        message: `Your role (${role}) does not allow this action`,
+      });
+    }
 
-  // Middleware successful - continue to route handler
+    // Middleware successful - continue to route handler
+  };
 }
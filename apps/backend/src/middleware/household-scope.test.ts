@@ -0,0 +1,243 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+import { HouseholdScope } from './household-scope.ts';
+
+/**
+ * Household Scope (Row-Level Security) Integration Tests
+ *
+ * Every tenant table is queried without a household filter inside a scope
+ * to prove isolation comes from the policies and not from the WHERE clauses.
+ */
+
+describe('Household Scope', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let tokenA: string;
+  let tokenB: string;
+  let userIdA: string;
+  let userIdB: string;
+  let householdA: string;
+  let householdB: string;
+  let childA: string;
+  let childB: string;
+  let taskB: string;
+  let rewardB: string;
+
+  async function seedHousehold(token: string, name: string) {
+    const householdResponse = await app.inject({
+      method: 'POST',
+      url: '/api/households',
+      headers: { Authorization: `Bearer ${token}` },
+      payload: { name },
+    });
+    const householdId = JSON.parse(householdResponse.body).id as string;
+
+    const childResult = await pool.query(
+      'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+      [householdId, `${name} Child`, 2015],
+    );
+    const taskResult = await pool.query(
+      `INSERT INTO tasks (household_id, name, points, rule_type)
+       VALUES ($1, $2, $3, 'daily') RETURNING id`,
+      [householdId, `${name} Task`, 10],
+    );
+    const rewardResult = await pool.query(
+      'INSERT INTO rewards (household_id, name, points_cost) VALUES ($1, $2, $3) RETURNING id',
+      [householdId, `${name} Reward`, 50],
+    );
+    await pool.query(
+      `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+       VALUES ($1, $2, $3, CURRENT_DATE, 'pending')`,
+      [householdId, taskResult.rows[0].id, childResult.rows[0].id],
+    );
+
+    return {
+      householdId,
+      childId: childResult.rows[0].id as string,
+      taskId: taskResult.rows[0].id as string,
+      rewardId: rewardResult.rows[0].id as string,
+    };
+  }
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const emailA = `rls-test-a-${Date.now()}@example.com`;
+    const emailB = `rls-test-b-${Date.now()}@example.com`;
+    const testPassword = 'TestPass123!';
+
+    tokenA = (await registerAndLogin(app, emailA, testPassword)).accessToken;
+    tokenB = (await registerAndLogin(app, emailB, testPassword)).accessToken;
+
+    userIdA = (await pool.query('SELECT id FROM users WHERE email = $1', [emailA])).rows[0].id;
+    userIdB = (await pool.query('SELECT id FROM users WHERE email = $1', [emailB])).rows[0].id;
+
+    const seedA = await seedHousehold(tokenA, `RLS Household A ${Date.now()}`);
+    const seedB = await seedHousehold(tokenB, `RLS Household B ${Date.now()}`);
+
+    householdA = seedA.householdId;
+    householdB = seedB.householdId;
+    childA = seedA.childId;
+    childB = seedB.childId;
+    taskB = seedB.taskId;
+    rewardB = seedB.rewardId;
+  });
+
+  after(async () => {
+    for (const householdId of [householdA, householdB]) {
+      await pool.query('DELETE FROM task_assignments WHERE household_id = $1', [householdId]);
+      await pool.query('DELETE FROM rewards WHERE household_id = $1', [householdId]);
+      await pool.query('DELETE FROM tasks WHERE household_id = $1', [householdId]);
+      await pool.query('DELETE FROM children WHERE household_id = $1', [householdId]);
+      await pool.query('DELETE FROM household_members WHERE household_id = $1', [householdId]);
+      await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    }
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [userIdA, userIdB]);
+    await pool.end();
+    await app.close();
+  });
+
+  describe('queries inside a scope', () => {
+    let scope: HouseholdScope;
+
+    before(async () => {
+      scope = await HouseholdScope.open(pool, householdA);
+    });
+
+    after(async () => {
+      await scope.rollback();
+    });
+
+    for (const table of [
+      'households',
+      'household_members',
+      'children',
+      'tasks',
+      'task_assignments',
+      'rewards',
+    ]) {
+      test(`should only see the current household in ${table}`, async () => {
+        const column = table === 'households' ? 'id' : 'household_id';
+        const result = await scope.client.query(`SELECT DISTINCT ${column} AS id FROM ${table}`);
+
+        assert.deepStrictEqual(
+          result.rows.map((row) => row.id),
+          [householdA],
+        );
+      });
+    }
+
+    test('should not find rows of another household by id', async () => {
+      const child = await scope.client.query('SELECT id FROM children WHERE id = $1', [childB]);
+      const task = await scope.client.query('SELECT id FROM tasks WHERE id = $1', [taskB]);
+
+      assert.strictEqual(child.rows.length, 0);
+      assert.strictEqual(task.rows.length, 0);
+    });
+
+    test('should not update rows of another household', async () => {
+      const result = await scope.client.query(
+        "UPDATE rewards SET name = 'Hijacked' WHERE id = $1",
+        [rewardB],
+      );
+
+      assert.strictEqual(result.rowCount, 0);
+    });
+
+    test('should hide point balances of another household', async () => {
+      const result = await scope.client.query('SELECT child_id FROM child_points_balance');
+
+      assert.ok(result.rows.every((row) => row.child_id === childA));
+    });
+
+    test('should reject inserts into another household', async () => {
+      const inner = await HouseholdScope.open(pool, householdA);
+
+      await assert.rejects(
+        inner.client.query(
+          'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3)',
+          [householdB, 'Intruder', 2016],
+        ),
+        /row-level security/,
+      );
+
+      await inner.rollback();
+    });
+
+    test('should discard writes on rollback', async () => {
+      const inner = await HouseholdScope.open(pool, householdA);
+      await inner.client.query(
+        'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3)',
+        [householdA, 'Rolled Back', 2016],
+      );
+      await inner.rollback();
+
+      const result = await pool.query(
+        "SELECT id FROM children WHERE household_id = $1 AND name = 'Rolled Back'",
+        [householdA],
+      );
+      assert.strictEqual(result.rows.length, 0);
+      assert.strictEqual(inner.isOpen, false);
+    });
+  });
+
+  describe('household routes', () => {
+    test('should not return another household', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdB}`,
+        headers: { Authorization: `Bearer ${tokenA}` },
+      });
+
+      assert.strictEqual(response.statusCode, 403);
+    });
+
+    test("should not return another household's child through a path mix-up", async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdA}/children/${childB}`,
+        headers: { Authorization: `Bearer ${tokenA}` },
+      });
+
+      assert.strictEqual(response.statusCode, 404);
+    });
+
+    test('should commit successful writes', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/households/${householdA}`,
+        headers: { Authorization: `Bearer ${tokenA}` },
+        payload: { name: 'RLS Household A (renamed)' },
+      });
+
+      assert.strictEqual(response.statusCode, 200);
+      const result = await pool.query('SELECT name FROM households WHERE id = $1', [householdA]);
+      assert.strictEqual(result.rows[0].name, 'RLS Household A (renamed)');
+    });
+
+    test('should release the connection of every request', async () => {
+      for (let i = 0; i < 20; i++) {
+        const response = await app.inject({
+          method: 'GET',
+          url: `/api/households/${householdB}/children`,
+          headers: { Authorization: `Bearer ${tokenB}` },
+        });
+        assert.strictEqual(response.statusCode, 200);
+        assert.ok(JSON.parse(response.body).children.every((c: { id: string }) => c.id === childB));
+      }
+    });
+  });
+});
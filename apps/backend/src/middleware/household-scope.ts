@@ -0,0 +1,171 @@
+/**
+ * Household Scope Middleware
+ *
+ * Runs each household-scoped request in its own database transaction where
+ * PostgreSQL row-level security applies:
+ * - SET LOCAL ROLE switches to a non-superuser role (superusers and table
+ *   owners bypass RLS policies)
+ * - app.current_household_id is set to the household from the route, which
+ *   every tenant policy compares against
+ *
+ * validateHouseholdMembership opens the scope once membership is confirmed.
+ * Handlers run their queries on getHouseholdClient(request); the transaction
+ * is committed when a successful response is sent and rolled back otherwise.
+ */
+
+import pg from 'pg';
+import type { Pool, PoolClient } from 'pg';
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { InternalError } from '../errors/index.js';
+
+/**
+ * Database role used inside household scopes (created by migration 056)
+ */
+export const HOUSEHOLD_DB_ROLE = process.env.DB_RLS_ROLE || 'st44_app';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    householdScope?: HouseholdScope;
+  }
+}
+
+/**
+ * A transaction bound to one household
+ */
+export class HouseholdScope {
+  private finished = false;
+  private afterCommitCallbacks: Array<() => unknown> = [];
+
+  private constructor(
+    readonly client: PoolClient,
+    readonly householdId: string,
+  ) {}
+
+  /**
+   * Check out a client and start a household-scoped transaction
+   */
+  static async open(
+    pool: Pool,
+    householdId: string,
+    role: string = HOUSEHOLD_DB_ROLE,
+  ): Promise<HouseholdScope> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(`SET LOCAL ROLE ${pg.escapeIdentifier(role)}`);
+      await client.query("SELECT set_config('app.current_household_id', $1, true)", [householdId]);
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      client.release();
+      throw error;
+    }
+
+    return new HouseholdScope(client, householdId);
+  }
+
+  get isOpen(): boolean {
+    return !this.finished;
+  }
+
+  /**
+   * Run a callback after a successful commit, e.g. to send notifications
+   * that must not read uncommitted state. Dropped on rollback.
+   */
+  afterCommit(callback: () => unknown): void {
+    this.afterCommitCallbacks.push(callback);
+  }
+
+  async commit(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    try {
+      await this.client.query('COMMIT');
+    } catch (error) {
+      this.client.release(error as Error);
+      throw error;
+    }
+    this.client.release();
+
+    for (const callback of this.afterCommitCallbacks) {
+      Promise.resolve()
+        .then(callback)
+        .catch((error) => console.error('Household scope afterCommit callback failed:', error));
+    }
+  }
+
+  async rollback(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    try {
+      await this.client.query('ROLLBACK');
+      this.client.release();
+    } catch (error) {
+      // Destroy the connection rather than return it in an unknown state
+      this.client.release(error as Error);
+    }
+  }
+}
+
+/**
+ * Get the RLS-scoped client of the current request
+ *
+ * Must be used in handlers behind validateHouseholdMembership.
+ */
+export function getHouseholdClient(request: FastifyRequest): PoolClient {
+  const scope = request.householdScope;
+
+  if (!scope?.isOpen) {
+    throw new InternalError('Household database scope missing');
+  }
+
+  return scope.client;
+}
+
+/**
+ * Run a callback once the request's household transaction has committed
+ *
+ * Runs right away when the request has no open scope.
+ */
+export function runAfterCommit(request: FastifyRequest, callback: () => unknown): void {
+  const scope = request.householdScope;
+
+  if (scope?.isOpen) {
+    scope.afterCommit(callback);
+    return;
+  }
+
+  Promise.resolve()
+    .then(callback)
+    .catch((error) => request.log.error(error, 'After commit callback failed'));
+}
+
+/**
+ * Commit or roll back the household scope when the response is sent
+ *
+ * Added to the root instance so the hooks see every route.
+ */
+export function registerHouseholdScopeHooks(fastify: FastifyInstance): void {
+  fastify.addHook('onSend', async (request: FastifyRequest, reply: FastifyReply, payload) => {
+    const scope = request.householdScope;
+
+    if (scope?.isOpen) {
+      if (reply.statusCode < 400) {
+        await scope.commit();
+      } else {
+        await scope.rollback();
+      }
+    }
+
+    return payload;
+  });
+
+  // Requests that never reach onSend (aborted, timed out) must still release
+  const releaseScope = async (request: FastifyRequest) => {
+    await request.householdScope?.rollback();
+  };
+  fastify.addHook('onResponse', releaseScope);
+  fastify.addHook('onRequestAbort', releaseScope);
+}
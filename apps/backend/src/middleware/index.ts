@@ -14,3 +14,10 @@ export {
   rateLimiters,
   type RateLimitOptions,
 } from './rate-limit.js';
+export {
+  HouseholdScope,
+  HOUSEHOLD_DB_ROLE,
+  getHouseholdClient,
+  runAfterCommit,
+  registerHouseholdScopeHooks,
+} from './household-scope.js';
@@ -2,11 +2,13 @@
  * Invitation Authorization Middleware
  *
  * Validates that users have appropriate permissions to send invitations.
- * Only household admins and parents can invite users.
+ * Only roles with the members.invite permission (admins, parents) can invite users.
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { db } from '../database.js';
+import { hasPermission } from '../services/authorization.service.js';
+import type { HouseholdRole } from '../types/database.js';
 
 interface HouseholdIdParams {
   Params: {
@@ -19,7 +21,7 @@ interface HouseholdIdParams {
  *
  * Checks:
  * 1. User is a member of the household
- * 2. User has admin or parent role
+ * 2. User's role has the members.invite permission
  *
  * @returns 403 Forbidden if user cannot invite
  */
@@ -53,8 +55,8 @@ export async function validateCanInvite(
       return;
     }
 
-    const { role } = result.rows[0] as { role: string };
-    if (role !== 'admin' && role !== 'parent') {
+    const { role } = result.rows[0] as { role: HouseholdRole };
+    if (!hasPermission(role, 'members.invite')) {
       reply.status(403).send({
         error: 'Forbidden',
         message: 'Only admins and parents can invite users',
@@ -4,14 +4,21 @@
  * Generates or forwards a unique request ID for distributed tracing.
  * The request ID is:
  * - Forwarded from X-Request-ID header if provided (for distributed systems)
- * - Generated using UUID v4 if not provided
+ * - Generated using UUID v4 if not provided, or if the header is too long or
+ *   contains other than letters, digits and `._:-` (it is stored in audit events)
  * - Added to request context for logging
  * - Returned in X-Request-ID response header
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply, HookHandlerDoneFunction } from 'fastify';
+import fp from 'fastify-plugin';
 import { randomUUID } from 'crypto';
 
+/**
+ * Request IDs accepted from clients; audit_events.request_id is VARCHAR(128)
+ */
+const FORWARDED_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
 // Extend FastifyRequest to include requestId
 declare module 'fastify' {
   interface FastifyRequest {
@@ -23,31 +30,39 @@ declare module 'fastify' {
 /**
  * Request ID Plugin
  *
- * Adds request ID tracking to all requests.
+ * Adds request ID tracking to all requests. Not encapsulated, so the hook
+ * also runs for routes registered outside the plugin (e.g. audit events read
+ * request.requestId).
  * Use with: fastify.register(requestIdPlugin)
  */
-export async function requestIdPlugin(fastify: FastifyInstance): Promise<void> {
-  // Add hook to assign request ID before any processing
-  fastify.addHook(
-    'onRequest',
-    (request: FastifyRequest, reply: FastifyReply, done: HookHandlerDoneFunction) => {
-      // Get request ID from header or generate new one
-      const existingId = request.headers['x-request-id'];
-      const requestId = typeof existingId === 'string' ? existingId : randomUUID();
-
-      // Attach to request object
-      request.requestId = requestId;
-
-      // Record start time for performance tracking
-      request.startTime = Date.now();
-
-      // Add to response headers
-      reply.header('X-Request-ID', requestId);
-
-      done();
-    },
-  );
-}
+export const requestIdPlugin = fp(
+  async function requestIdPlugin(fastify: FastifyInstance): Promise<void> {
+    // Add hook to assign request ID before any processing
+    fastify.addHook(
+      'onRequest',
+      (request: FastifyRequest, reply: FastifyReply, done: HookHandlerDoneFunction) => {
+        // Get request ID from header or generate new one
+        const existingId = request.headers['x-request-id'];
+        const requestId =
+          typeof existingId === 'string' && FORWARDED_REQUEST_ID.test(existingId)
+            ? existingId
+            : randomUUID();
+
+        // Attach to request object
+        request.requestId = requestId;
+
+        // Record start time for performance tracking
+        request.startTime = Date.now();
+
+        // Add to response headers
+        reply.header('X-Request-ID', requestId);
+
+        done();
+      },
+    );
+  },
+  { name: 'request-id' },
+);
 
 /**
  * Generate a new request ID
@@ -0,0 +1,140 @@
+/**
+ * AchievementRepository Unit Tests
+ *
+ * Tests the AchievementRepository using mocked database connections.
+ * No actual database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AchievementRepository } from './achievement.repository.js';
+
+// Mock Pool implementation
+function createMockPool() {
+  const queryMock = mock.fn();
+  return {
+    query: queryMock,
+    connect: mock.fn(),
+    end: mock.fn(),
+  };
+}
+
+const householdId = '123e4567-e89b-12d3-a456-426614174000';
+const childId = '223e4567-e89b-12d3-a456-426614174000';
+const achievementId = '323e4567-e89b-12d3-a456-426614174000';
+const taskId = '423e4567-e89b-12d3-a456-426614174000';
+
+const achievementRow = {
+  id: achievementId,
+  household_id: householdId,
+  code: null,
+  name: 'Dog walker',
+  description: 'Walk the dog 20 times',
+  icon: '🐕',
+  type: 'task_completions',
+  threshold: 20,
+  task_id: taskId,
+  sort_order: 0,
+  created_by: null,
+  created_at: new Date('2026-10-18T10:00:00Z'),
+};
+
+describe('AchievementRepository', () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let repository: AchievementRepository;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    repository = new AchievementRepository(pool as never);
+  });
+
+  describe('create', () => {
+    it('should insert the achievement and map the row', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [achievementRow], rowCount: 1 }));
+
+      const achievement = await repository.create({
+        householdId,
+        name: 'Dog walker',
+        description: 'Walk the dog 20 times',
+        icon: '🐕',
+        type: 'task_completions',
+        threshold: 20,
+        taskId,
+      });
+
+      assert.equal(achievement.taskId, taskId);
+      assert.equal(achievement.code, null);
+      assert.equal(achievement.createdAt, '2026-10-18T10:00:00.000Z');
+      assert.deepEqual(pool.query.mock.calls[0].arguments[1], [
+        householdId,
+        'Dog walker',
+        'Walk the dog 20 times',
+        '🐕',
+        'task_completions',
+        20,
+        taskId,
+        null,
+      ]);
+    });
+  });
+
+  describe('recordUnlocks', () => {
+    it('should not query without achievements to unlock', async () => {
+      assert.deepEqual(
+        await repository.recordUnlocks({ householdId, childId, achievementIds: [] }),
+        [],
+      );
+      assert.equal(pool.query.mock.callCount(), 0);
+    });
+
+    it('should return only the achievements unlocked now', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [{ achievement_id: achievementId }],
+        rowCount: 1,
+      }));
+
+      const unlocked = await repository.recordUnlocks({
+        householdId,
+        childId,
+        achievementIds: [achievementId, '523e4567-e89b-12d3-a456-426614174000'],
+      });
+
+      assert.deepEqual(unlocked, [achievementId]);
+      assert.match(
+        pool.query.mock.calls[0].arguments[0],
+        /ON CONFLICT \(child_id, achievement_id\) DO NOTHING/,
+      );
+    });
+  });
+
+  describe('findUnseenUnlocks', () => {
+    it('should mark the unlocks as seen when asked to', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [{ ...achievementRow, unlocked_at: new Date('2026-10-18T12:00:00Z') }],
+        rowCount: 1,
+      }));
+
+      const unlocks = await repository.findUnseenUnlocks(childId, true);
+
+      assert.equal(unlocks.length, 1);
+      assert.equal(unlocks[0].unlockedAt, '2026-10-18T12:00:00.000Z');
+      assert.match(pool.query.mock.calls[0].arguments[0], /SET seen_at = NOW\(\)/);
+    });
+
+    it('should leave the unlocks unseen otherwise', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      await repository.findUnseenUnlocks(childId, false);
+
+      assert.doesNotMatch(pool.query.mock.calls[0].arguments[0], /seen_at = NOW\(\)/);
+    });
+  });
+
+  describe('delete', () => {
+    it('should return false for an achievement of another household', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      assert.equal(await repository.delete(achievementId, householdId), false);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import type { Pool, PoolClient } from 'pg';
+import type {
+  AchievementRow,
+  AchievementType,
+  AchievementUnlockWithAchievementRow,
+} from '../types/database.js';
+
+/**
+ * AchievementRepository - Data access layer for achievements and
+ * achievement_unlocks tables
+ *
+ * Built-in achievements are rows without a household; their text is
+ * translated by services/achievement.service.ts.
+ */
+
+export interface AchievementDefinition {
+  id: string;
+  householdId: string | null;
+  code: string | null;
+  name: string | null;
+  description: string | null;
+  icon: string;
+  type: AchievementType;
+  threshold: number;
+  taskId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface UnlockedAchievement {
+  achievement: AchievementDefinition;
+  unlockedAt: string;
+}
+
+export interface CreateAchievementDto {
+  householdId: string;
+  name: string;
+  description?: string | null;
+  icon: string;
+  type: AchievementType;
+  threshold: number;
+  taskId?: string | null;
+  createdBy?: string | null;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+const ACHIEVEMENT_COLUMNS = `id, household_id, code, name, description, icon, type, threshold,
+  task_id, sort_order, created_by, created_at`;
+
+/**
+ * Built-in achievements first in their set order, then the household's by name
+ */
+const ACHIEVEMENT_ORDER = 'household_id NULLS FIRST, sort_order ASC, name ASC, created_at ASC';
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to AchievementDefinition domain object
+ */
+function mapRowToAchievement(row: AchievementRow): AchievementDefinition {
+  return {
+    id: row.id,
+    householdId: row.household_id,
+    code: row.code,
+    name: row.name,
+    description: row.description,
+    icon: row.icon,
+    type: row.type,
+    threshold: row.threshold,
+    taskId: row.task_id,
+    createdBy: row.created_by,
+    createdAt: toDateTimeString(row.created_at),
+  };
+}
+
+function mapRowToUnlock(row: AchievementUnlockWithAchievementRow): UnlockedAchievement {
+  return {
+    achievement: mapRowToAchievement(row),
+    unlockedAt: toDateTimeString(row.unlocked_at),
+  };
+}
+
+export class AchievementRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): AchievementRepository {
+    return new AchievementRepository(client);
+  }
+
+  /**
+   * Built-in achievements followed by the household's own
+   */
+  async findAvailable(householdId: string): Promise<AchievementDefinition[]> {
+    const result = await this.db.query<AchievementRow>(
+      `SELECT ${ACHIEVEMENT_COLUMNS}
+       FROM achievements
+       WHERE household_id IS NULL OR household_id = $1
+       ORDER BY ${ACHIEVEMENT_ORDER}`,
+      [householdId],
+    );
+
+    return result.rows.map(mapRowToAchievement);
+  }
+
+  /**
+   * Find an achievement of a household (built-ins are not returned)
+   */
+  async findById(
+    achievementId: string,
+    householdId: string,
+  ): Promise<AchievementDefinition | null> {
+    const result = await this.db.query<AchievementRow>(
+      `SELECT ${ACHIEVEMENT_COLUMNS} FROM achievements WHERE id = $1 AND household_id = $2`,
+      [achievementId, householdId],
+    );
+
+    if (result.rows.length === 0) return null;
+    return mapRowToAchievement(result.rows[0]);
+  }
+
+  /**
+   * Create a household achievement
+   */
+  async create(data: CreateAchievementDto): Promise<AchievementDefinition> {
+    const result = await this.db.query<AchievementRow>(
+      `INSERT INTO achievements
+         (household_id, name, description, icon, type, threshold, task_id, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${ACHIEVEMENT_COLUMNS}`,
+      [
+        data.householdId,
+        data.name,
+        data.description ?? null,
+        data.icon,
+        data.type,
+        data.threshold,
+        data.taskId ?? null,
+        data.createdBy ?? null,
+      ],
+    );
+
+    return mapRowToAchievement(result.rows[0]);
+  }
+
+  /**
+   * Delete a household achievement along with its unlocks
+   *
+   * @returns true if the achievement existed
+   */
+  async delete(achievementId: string, householdId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM achievements WHERE id = $1 AND household_id = $2',
+      [achievementId, householdId],
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * A child's unlocked achievements, in the order they were unlocked
+   */
+  async findUnlocks(childId: string): Promise<UnlockedAchievement[]> {
+    const result = await this.db.query<AchievementUnlockWithAchievementRow>(
+      `SELECT a.id, a.household_id, a.code, a.name, a.description, a.icon, a.type, a.threshold,
+              a.task_id, a.sort_order, a.created_by, a.created_at, u.unlocked_at
+       FROM achievement_unlocks u
+       JOIN achievements a ON a.id = u.achievement_id
+       WHERE u.child_id = $1
+       ORDER BY u.unlocked_at ASC, a.sort_order ASC`,
+      [childId],
+    );
+
+    return result.rows.map(mapRowToUnlock);
+  }
+
+  /**
+   * Record unlocks for a child; achievements it already unlocked are skipped
+   *
+   * @returns ids of the achievements that were unlocked now
+   */
+  async recordUnlocks(data: {
+    householdId: string;
+    childId: string;
+    achievementIds: string[];
+    taskCompletionId?: string | null;
+  }): Promise<string[]> {
+    if (data.achievementIds.length === 0) return [];
+
+    const result = await this.db.query<{ achievement_id: string }>(
+      `INSERT INTO achievement_unlocks (household_id, child_id, achievement_id, task_completion_id)
+       SELECT $1, $2, achievement_id, $4
+       FROM unnest($3::uuid[]) AS achievement_id
+       ON CONFLICT (child_id, achievement_id) DO NOTHING
+       RETURNING achievement_id`,
+      [data.householdId, data.childId, data.achievementIds, data.taskCompletionId ?? null],
+    );
+
+    return result.rows.map((row) => row.achievement_id);
+  }
+
+  /**
+   * Unlocks the child has not been shown yet, oldest first
+   *
+   * @param markSeen - mark them as shown, so the next call leaves them out
+   */
+  async findUnseenUnlocks(childId: string, markSeen: boolean): Promise<UnlockedAchievement[]> {
+    const unseen = markSeen
+      ? `UPDATE achievement_unlocks SET seen_at = NOW()
+         WHERE child_id = $1 AND seen_at IS NULL
+         RETURNING achievement_id, unlocked_at`
+      : `SELECT achievement_id, unlocked_at FROM achievement_unlocks
+         WHERE child_id = $1 AND seen_at IS NULL`;
+
+    const result = await this.db.query<AchievementUnlockWithAchievementRow>(
+      `WITH unseen AS (${unseen})
+       SELECT a.id, a.household_id, a.code, a.name, a.description, a.icon, a.type, a.threshold,
+              a.task_id, a.sort_order, a.created_by, a.created_at, unseen.unlocked_at
+       FROM unseen
+       JOIN achievements a ON a.id = unseen.achievement_id
+       ORDER BY unseen.unlocked_at ASC, a.sort_order ASC`,
+      [childId],
+    );
+
+    return result.rows.map(mapRowToUnlock);
+  }
+}
+
+/**
+ * Factory function for creating AchievementRepository instances
+ */
+export function createAchievementRepository(db: Pool | PoolClient): AchievementRepository {
+  return new AchievementRepository(db);
+}
@@ -0,0 +1,89 @@
+/**
+ * AssignmentCommentRepository Unit Tests
+ *
+ * Tests the AssignmentCommentRepository using mocked database connections.
+ * No actual database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssignmentCommentRepository } from './assignment-comment.repository.js';
+
+// Mock Pool implementation
+function createMockPool() {
+  const queryMock = mock.fn();
+  return {
+    query: queryMock,
+    connect: mock.fn(),
+    end: mock.fn(),
+  };
+}
+
+const householdId = '123e4567-e89b-12d3-a456-426614174000';
+const assignmentId = '223e4567-e89b-12d3-a456-426614174000';
+const userId = '323e4567-e89b-12d3-a456-426614174000';
+
+const commentRow = {
+  id: '423e4567-e89b-12d3-a456-426614174000',
+  household_id: householdId,
+  task_assignment_id: assignmentId,
+  author_user_id: userId,
+  author_role: 'parent',
+  body: 'Use the blue bucket',
+  created_at: new Date('2026-10-18T10:00:00Z'),
+  author_name: 'Kari',
+};
+
+describe('AssignmentCommentRepository', () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let repository: AssignmentCommentRepository;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    repository = new AssignmentCommentRepository(pool as never);
+  });
+
+  describe('create', () => {
+    it('should insert the comment and map the row', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [commentRow], rowCount: 1 }));
+
+      const comment = await repository.create({
+        householdId,
+        assignmentId,
+        authorUserId: userId,
+        authorRole: 'parent',
+        body: 'Use the blue bucket',
+      });
+
+      assert.deepEqual(comment, {
+        id: commentRow.id,
+        assignmentId,
+        authorUserId: userId,
+        authorRole: 'parent',
+        authorName: 'Kari',
+        body: 'Use the blue bucket',
+        createdAt: '2026-10-18T10:00:00.000Z',
+      });
+      assert.deepEqual(pool.query.mock.calls[0].arguments[1], [
+        householdId,
+        assignmentId,
+        userId,
+        'parent',
+        'Use the blue bucket',
+      ]);
+    });
+  });
+
+  describe('findByAssignment', () => {
+    it('should return the thread oldest first', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [commentRow], rowCount: 1 }));
+
+      const comments = await repository.findByAssignment(assignmentId);
+
+      assert.equal(comments.length, 1);
+      const sql = pool.query.mock.calls[0].arguments[0] as string;
+      assert.match(sql, /ORDER BY ac\.created_at ASC/);
+      assert.ok(!sql.includes('email'));
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import type { Pool, PoolClient } from 'pg';
+import type { AssignmentCommentWithAuthorRow, HouseholdRole } from '../types/database.js';
+
+/**
+ * AssignmentCommentRepository - Data access layer for assignment_comments table
+ *
+ * Comment threads on task assignments. Authors are named by their child
+ * profile or first name, never by email, since children read the threads.
+ */
+
+export interface AssignmentComment {
+  id: string;
+  assignmentId: string;
+  authorUserId: string | null;
+  authorRole: HouseholdRole;
+  authorName: string | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface CreateAssignmentCommentDto {
+  householdId: string;
+  assignmentId: string;
+  authorUserId?: string | null;
+  authorRole: HouseholdRole;
+  body: string;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+const COMMENT_COLUMNS = `ac.id, ac.household_id, ac.task_assignment_id, ac.author_user_id,
+  ac.author_role, ac.body, ac.created_at,
+  COALESCE(c.name, u.first_name, u.name) AS author_name`;
+
+const AUTHOR_JOINS = `LEFT JOIN users u ON u.id = ac.author_user_id
+  LEFT JOIN children c ON c.user_id = ac.author_user_id AND c.household_id = ac.household_id`;
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to AssignmentComment domain object
+ */
+function mapRowToComment(row: AssignmentCommentWithAuthorRow): AssignmentComment {
+  return {
+    id: row.id,
+    assignmentId: row.task_assignment_id,
+    authorUserId: row.author_user_id,
+    authorRole: row.author_role,
+    authorName: row.author_name,
+    body: row.body,
+    createdAt: toDateTimeString(row.created_at),
+  };
+}
+
+export class AssignmentCommentRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): AssignmentCommentRepository {
+    return new AssignmentCommentRepository(client);
+  }
+
+  /**
+   * Add a comment to an assignment
+   */
+  async create(data: CreateAssignmentCommentDto): Promise<AssignmentComment> {
+    const result = await this.db.query<AssignmentCommentWithAuthorRow>(
+      `WITH ac AS (
+         INSERT INTO assignment_comments
+           (household_id, task_assignment_id, author_user_id, author_role, body)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *
+       )
+       SELECT ${COMMENT_COLUMNS}
+       FROM ac
+       ${AUTHOR_JOINS}`,
+      [data.householdId, data.assignmentId, data.authorUserId ?? null, data.authorRole, data.body],
+    );
+
+    return mapRowToComment(result.rows[0]);
+  }
+
+  /**
+   * The thread of an assignment, oldest first
+   */
+  async findByAssignment(assignmentId: string): Promise<AssignmentComment[]> {
+    const result = await this.db.query<AssignmentCommentWithAuthorRow>(
+      `SELECT ${COMMENT_COLUMNS}
+       FROM assignment_comments ac
+       ${AUTHOR_JOINS}
+       WHERE ac.task_assignment_id = $1
+       ORDER BY ac.created_at ASC, ac.id ASC`,
+      [assignmentId],
+    );
+
+    return result.rows.map(mapRowToComment);
+  }
+}
+
+/**
+ * Factory function for creating AssignmentCommentRepository instances
+ */
+export function createAssignmentCommentRepository(
+  db: Pool | PoolClient,
+): AssignmentCommentRepository {
+  return new AssignmentCommentRepository(db);
+}
@@ -0,0 +1,122 @@
+/**
+ * AssignmentGenerationRunRepository Unit Tests
+ *
+ * Tests the AssignmentGenerationRunRepository using mocked database connections.
+ * No actual database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AssignmentGenerationRunRepository,
+  type CreateGenerationRunDto,
+} from './assignment-generation-run.repository.js';
+
+// Mock Pool implementation
+function createMockPool() {
+  const queryMock = mock.fn();
+  return {
+    query: queryMock,
+    connect: mock.fn(),
+    end: mock.fn(),
+  };
+}
+
+const householdId = '123e4567-e89b-12d3-a456-426614174000';
+
+// Sample run row data
+const sampleRunRow = {
+  id: 'run-123',
+  household_id: householdId,
+  trigger: 'scheduled' as const,
+  start_date: '2026-01-05',
+  days: 7,
+  created: 12,
+  skipped: 3,
+  errors: ['Task Dishes (task-1): repeat_days is required for repeating tasks'],
+  started_at: new Date('2026-01-05T02:00:00Z'),
+  finished_at: new Date('2026-01-05T02:00:01Z'),
+};
+
+describe('AssignmentGenerationRunRepository', () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let repository: AssignmentGenerationRunRepository;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    repository = new AssignmentGenerationRunRepository(pool as never);
+  });
+
+  describe('create', () => {
+    it('should insert a run and map the returned row', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [sampleRunRow],
+        rowCount: 1,
+      }));
+
+      const data: CreateGenerationRunDto = {
+        householdId,
+        trigger: 'scheduled',
+        startDate: '2026-01-05',
+        days: 7,
+        created: 12,
+        skipped: 3,
+        errors: sampleRunRow.errors,
+        startedAt: sampleRunRow.started_at,
+        finishedAt: sampleRunRow.finished_at,
+      };
+
+      const result = await repository.create(data);
+
+      assert.equal(result.id, 'run-123');
+      assert.equal(result.householdId, householdId);
+      assert.equal(result.trigger, 'scheduled');
+      assert.equal(result.created, 12);
+      assert.equal(result.skipped, 3);
+      assert.deepEqual(result.errors, sampleRunRow.errors);
+      assert.equal(result.startedAt, '2026-01-05T02:00:00.000Z');
+      assert.equal(result.finishedAt, '2026-01-05T02:00:01.000Z');
+
+      const call = pool.query.mock.calls[0];
+      assert.ok(call.arguments[0].includes('INSERT INTO assignment_generation_runs'));
+      const params = call.arguments[1] as unknown[];
+      assert.equal(params[6], JSON.stringify(sampleRunRow.errors));
+    });
+  });
+
+  describe('findByHousehold', () => {
+    it('should return runs for the household', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [sampleRunRow, { ...sampleRunRow, id: 'run-122', finished_at: null }],
+        rowCount: 2,
+      }));
+
+      const result = await repository.findByHousehold(householdId);
+
+      assert.equal(result.length, 2);
+      assert.equal(result[1].finishedAt, null);
+
+      const params = pool.query.mock.calls[0].arguments[1] as unknown[];
+      assert.deepEqual(params, [householdId, 20]);
+    });
+
+    it('should pass a custom limit', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      await repository.findByHousehold(householdId, 5);
+
+      const params = pool.query.mock.calls[0].arguments[1] as unknown[];
+      assert.equal(params[1], 5);
+    });
+  });
+
+  describe('deleteOlderThan', () => {
+    it('should return the number of deleted runs', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 4 }));
+
+      const result = await repository.deleteOlderThan(new Date('2025-10-01T00:00:00Z'));
+
+      assert.equal(result, 4);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import type { Pool, PoolClient } from 'pg';
+import type { AssignmentGenerationRunRow, AssignmentGenerationTrigger } from '../types/database.js';
+
+/**
+ * AssignmentGenerationRunRepository - Data access layer for assignment_generation_runs table
+ *
+ * Records the AssignmentGenerationResult of every scheduled or manual
+ * generation run so admins can see what was created, skipped or errored.
+ */
+
+export interface AssignmentGenerationRun {
+  id: string;
+  householdId: string;
+  trigger: AssignmentGenerationTrigger;
+  startDate: string;
+  days: number;
+  created: number;
+  skipped: number;
+  errors: string[];
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface CreateGenerationRunDto {
+  householdId: string;
+  trigger: AssignmentGenerationTrigger;
+  startDate: string;
+  days: number;
+  created: number;
+  skipped: number;
+  errors: string[];
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+const RUN_COLUMNS = `id, household_id, trigger, start_date::text as start_date, days,
+  created, skipped, errors, started_at, finished_at`;
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to AssignmentGenerationRun domain object
+ */
+function mapRowToRun(row: AssignmentGenerationRunRow): AssignmentGenerationRun {
+  return {
+    id: row.id,
+    householdId: row.household_id,
+    trigger: row.trigger,
+    startDate: row.start_date,
+    days: row.days,
+    created: row.created,
+    skipped: row.skipped,
+    errors: Array.isArray(row.errors) ? row.errors : [],
+    startedAt: toDateTimeString(row.started_at),
+    finishedAt: row.finished_at ? toDateTimeString(row.finished_at) : null,
+  };
+}
+
+export class AssignmentGenerationRunRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): AssignmentGenerationRunRepository {
+    return new AssignmentGenerationRunRepository(client);
+  }
+
+  /**
+   * Record a finished generation run
+   */
+  async create(data: CreateGenerationRunDto): Promise<AssignmentGenerationRun> {
+    const result = await this.db.query<AssignmentGenerationRunRow>(
+      `INSERT INTO assignment_generation_runs
+        (household_id, trigger, start_date, days, created, skipped, errors, started_at, finished_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING ${RUN_COLUMNS}`,
+      [
+        data.householdId,
+        data.trigger,
+        data.startDate,
+        data.days,
+        data.created,
+        data.skipped,
+        JSON.stringify(data.errors),
+        data.startedAt,
+        data.finishedAt,
+      ],
+    );
+
+    return mapRowToRun(result.rows[0]);
+  }
+
+  /**
+   * List the most recent runs for a household (newest first)
+   */
+  async findByHousehold(householdId: string, limit = 20): Promise<AssignmentGenerationRun[]> {
+    const result = await this.db.query<AssignmentGenerationRunRow>(
+      `SELECT ${RUN_COLUMNS}
+       FROM assignment_generation_runs
+       WHERE household_id = $1
+       ORDER BY started_at DESC
+       LIMIT $2`,
+      [householdId, limit],
+    );
+
+    return result.rows.map(mapRowToRun);
+  }
+
+  /**
+   * Delete runs older than the given date (housekeeping)
+   *
+   * @returns Number of deleted rows
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const result = await this.db.query(
+      'DELETE FROM assignment_generation_runs WHERE started_at < $1',
+      [cutoff],
+    );
+
+    return result.rowCount ?? 0;
+  }
+}
+
+/**
+ * Factory function for creating AssignmentGenerationRunRepository instances
+ */
+export function createAssignmentGenerationRunRepository(
+  db: Pool | PoolClient,
+): AssignmentGenerationRunRepository {
+  return new AssignmentGenerationRunRepository(db);
+}
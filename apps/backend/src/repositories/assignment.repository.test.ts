@@ -193,6 +193,19 @@ describe('AssignmentRepository', () => {
       assert.ok(query.includes('ta.date <= $3'));
       assert.deepEqual(params, ['child-123', '2024-01-01', '2024-01-31']);
     });
+
+    it('should not join rejected completions', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [],
+        rowCount: 0,
+      }));
+
+      await repository.findByChild('child-123', '2024-01-01', '2024-01-31');
+
+      // A rejected and a redone completion would list the assignment twice
+      const [query] = pool.query.mock.calls[0].arguments;
+      assert.ok(query.includes("tc.approval_status != 'rejected'"));
+    });
   });
 
   describe('findByHousehold', () => {
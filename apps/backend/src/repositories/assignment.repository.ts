@@ -140,7 +140,8 @@ export class AssignmentRepository {
       FROM task_assignments ta
       JOIN tasks t ON ta.task_id = t.id
       LEFT JOIN children c ON ta.child_id = c.id
-      LEFT JOIN task_completions tc ON ta.id = tc.task_assignment_id
+      LEFT JOIN task_completions tc
+        ON ta.id = tc.task_assignment_id AND tc.approval_status != 'rejected'
       WHERE ta.id = $1`,
       [assignmentId],
     );
@@ -194,7 +195,8 @@ export class AssignmentRepository {
       FROM task_assignments ta
       JOIN tasks t ON ta.task_id = t.id
       LEFT JOIN children c ON ta.child_id = c.id
-      LEFT JOIN task_completions tc ON ta.id = tc.task_assignment_id
+      LEFT JOIN task_completions tc
+        ON ta.id = tc.task_assignment_id AND tc.approval_status != 'rejected'
       WHERE ta.child_id = $1 AND ta.date >= $2 AND ta.date <= $3
       ORDER BY ta.date ASC, t.name ASC`,
       [childId, startDate, endDate],
@@ -234,7 +236,8 @@ export class AssignmentRepository {
       FROM task_assignments ta
       JOIN tasks t ON ta.task_id = t.id
       LEFT JOIN children c ON ta.child_id = c.id
-      LEFT JOIN task_completions tc ON ta.id = tc.task_assignment_id
+      LEFT JOIN task_completions tc
+        ON ta.id = tc.task_assignment_id AND tc.approval_status != 'rejected'
       WHERE ta.household_id = $1 AND ta.date >= $2 AND ta.date <= $3
     `;
 
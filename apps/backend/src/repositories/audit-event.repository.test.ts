@@ -0,0 +1,141 @@
+/**
+ * AuditEventRepository Unit Tests
+ *
+ * Tests the AuditEventRepository using mocked database connections.
+ * No actual database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuditEventRepository } from './audit-event.repository.js';
+
+// Mock Pool implementation
+function createMockPool() {
+  const queryMock = mock.fn();
+  return {
+    query: queryMock,
+    connect: mock.fn(),
+    end: mock.fn(),
+  };
+}
+
+const householdId = '123e4567-e89b-12d3-a456-426614174000';
+const userId = '223e4567-e89b-12d3-a456-426614174000';
+const assignmentId = '323e4567-e89b-12d3-a456-426614174000';
+
+describe('AuditEventRepository', () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let repository: AuditEventRepository;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    repository = new AuditEventRepository(pool as never);
+  });
+
+  describe('create', () => {
+    it('should store before and after as JSON', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 1 }));
+
+      await repository.create({
+        householdId,
+        actorUserId: userId,
+        action: 'assignment.reassigned',
+        entityType: 'assignment',
+        entityId: assignmentId,
+        before: { childId: 'a' },
+        after: { childId: 'b' },
+        requestId: 'req-1',
+      });
+
+      assert.deepEqual(pool.query.mock.calls[0].arguments[1], [
+        householdId,
+        userId,
+        'assignment.reassigned',
+        'assignment',
+        assignmentId,
+        '{"childId":"a"}',
+        '{"childId":"b"}',
+        'req-1',
+      ]);
+    });
+
+    it('should store missing states as null', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 1 }));
+
+      await repository.create({
+        householdId,
+        actorUserId: null,
+        action: 'task.created',
+        entityType: 'task',
+      });
+
+      const params = pool.query.mock.calls[0].arguments[1];
+      assert.deepEqual(params.slice(4), [null, null, null, null]);
+    });
+  });
+
+  describe('findByHousehold', () => {
+    it('should filter, page and map events', async () => {
+      pool.query.mock.mockImplementation(async (sql: string) => {
+        if (sql.includes('COUNT(*)')) {
+          return { rows: [{ count: '41' }], rowCount: 1 };
+        }
+        return {
+          rows: [
+            {
+              id: assignmentId,
+              household_id: householdId,
+              actor_user_id: userId,
+              actor_name: 'Kari',
+              action: 'points.adjusted',
+              entity_type: 'points',
+              entity_id: null,
+              before: null,
+              after: { amount: -5 },
+              request_id: 'req-2',
+              created_at: new Date('2026-10-18T09:00:00Z'),
+            },
+          ],
+          rowCount: 1,
+        };
+      });
+
+      const result = await repository.findByHousehold(householdId, {
+        entityType: 'points',
+        from: '2026-10-01T00:00:00.000Z',
+        limit: 20,
+        offset: 40,
+      });
+
+      assert.equal(result.total, 41);
+      assert.deepEqual(result.events[0], {
+        id: assignmentId,
+        householdId,
+        actorUserId: userId,
+        actorName: 'Kari',
+        action: 'points.adjusted',
+        entityType: 'points',
+        entityId: null,
+        before: null,
+        after: { amount: -5 },
+        requestId: 'req-2',
+        createdAt: '2026-10-18T09:00:00.000Z',
+      });
+
+      const [sql, params] = pool.query.mock.calls[1].arguments;
+      assert.match(sql, /ae\.entity_type = \$2 AND ae\.created_at >= \$3/);
+      assert.match(sql, /ORDER BY ae\.created_at DESC/);
+      assert.deepEqual(params, [householdId, 'points', '2026-10-01T00:00:00.000Z', 20, 40]);
+    });
+
+    it('should sort oldest first on request', async () => {
+      pool.query.mock.mockImplementation(async (sql: string) =>
+        sql.includes('COUNT(*)') ? { rows: [{ count: '0' }], rowCount: 1 } : { rows: [] },
+      );
+
+      await repository.findByHousehold(householdId, { limit: 20, offset: 0, sortOrder: 'asc' });
+
+      assert.match(pool.query.mock.calls[1].arguments[0], /ORDER BY ae\.created_at ASC/);
+    });
+  });
+});
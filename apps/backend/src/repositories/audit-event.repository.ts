@@ -0,0 +1,176 @@
+import type { Pool, PoolClient } from 'pg';
+import type { AuditAction, AuditEntityType } from '@st44/types';
+import type { AuditEventRow, AuditEventWithActorRow } from '../types/database.js';
+
+/**
+ * AuditEventRepository - Data access layer for audit_events table
+ *
+ * audit_events is append-only: one row per change made in a household, with
+ * who made it, the entity before and after, and the id of the request.
+ */
+
+export interface AuditEvent {
+  id: string;
+  householdId: string;
+  actorUserId: string | null;
+  actorName: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  requestId: string | null;
+  createdAt: string;
+}
+
+export interface CreateAuditEventDto {
+  householdId: string;
+  actorUserId: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: object | null;
+  after?: object | null;
+  requestId?: string | null;
+}
+
+export interface AuditEventFilters {
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorUserId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditEventListOptions extends AuditEventFilters {
+  limit: number;
+  offset: number;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface AuditEventListResult {
+  events: AuditEvent[];
+  total: number;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to AuditEvent domain object
+ */
+function mapRowToAuditEvent(row: AuditEventWithActorRow): AuditEvent {
+  return {
+    id: row.id,
+    householdId: row.household_id,
+    actorUserId: row.actor_user_id,
+    actorName: row.actor_name,
+    action: row.action as AuditAction,
+    entityType: row.entity_type as AuditEntityType,
+    entityId: row.entity_id,
+    before: row.before,
+    after: row.after,
+    requestId: row.request_id,
+    createdAt: toDateTimeString(row.created_at),
+  };
+}
+
+export class AuditEventRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): AuditEventRepository {
+    return new AuditEventRepository(client);
+  }
+
+  /**
+   * Append an event
+   */
+  async create(data: CreateAuditEventDto): Promise<void> {
+    await this.db.query<AuditEventRow>(
+      `INSERT INTO audit_events
+         (household_id, actor_user_id, action, entity_type, entity_id, before, after, request_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        data.householdId,
+        data.actorUserId,
+        data.action,
+        data.entityType,
+        data.entityId ?? null,
+        data.before ? JSON.stringify(data.before) : null,
+        data.after ? JSON.stringify(data.after) : null,
+        data.requestId ?? null,
+      ],
+    );
+  }
+
+  /**
+   * List a household's events, newest first unless sortOrder is asc
+   */
+  async findByHousehold(
+    householdId: string,
+    options: AuditEventListOptions,
+  ): Promise<AuditEventListResult> {
+    const conditions = ['ae.household_id = $1'];
+    const params: unknown[] = [householdId];
+
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (options.action) addCondition('ae.action = ?', options.action);
+    if (options.entityType) addCondition('ae.entity_type = ?', options.entityType);
+    if (options.entityId) addCondition('ae.entity_id = ?', options.entityId);
+    if (options.actorUserId) addCondition('ae.actor_user_id = ?', options.actorUserId);
+    if (options.from) addCondition('ae.created_at >= ?', options.from);
+    if (options.to) addCondition('ae.created_at <= ?', options.to);
+
+    const where = conditions.join(' AND ');
+
+    const countResult = await this.db.query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM audit_events ae WHERE ${where}`,
+      params,
+    );
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const order = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+    const eventsResult = await this.db.query<AuditEventWithActorRow>(
+      `SELECT ae.id, ae.household_id, ae.actor_user_id, ae.action, ae.entity_type, ae.entity_id,
+              ae.before, ae.after, ae.request_id, ae.created_at,
+              COALESCE(u.name, u.email) AS actor_name
+       FROM audit_events ae
+       LEFT JOIN users u ON ae.actor_user_id = u.id
+       WHERE ${where}
+       ORDER BY ae.created_at ${order}, ae.id ${order}
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit, options.offset],
+    );
+
+    return {
+      events: eventsResult.rows.map(mapRowToAuditEvent),
+      total,
+    };
+  }
+}
+
+/**
+ * Factory function for creating AuditEventRepository instances
+ */
+export function createAuditEventRepository(db: Pool | PoolClient): AuditEventRepository {
+  return new AuditEventRepository(db);
+}
@@ -0,0 +1,158 @@
+import type { Pool, PoolClient } from 'pg';
+import type { CalendarFeedRow } from '../types/database.js';
+
+/**
+ * CalendarFeedRepository - Data access layer for calendar_feeds table
+ *
+ * A feed is an .ics subscription URL for a household or one of its children.
+ * Token lookups come from calendar apps without a household context, so they
+ * must run on the pool rather than a household-scoped client.
+ */
+
+export interface CalendarFeed {
+  id: string;
+  householdId: string;
+  childId: string | null;
+  childName: string | null;
+  token: string;
+  createdBy: string | null;
+  createdAt: string;
+  lastAccessedAt: string | null;
+  revokedAt: string | null;
+}
+
+export interface CreateCalendarFeedDto {
+  householdId: string;
+  childId?: string | null;
+  token: string;
+  createdBy?: string | null;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+type CalendarFeedWithChildRow = CalendarFeedRow & { child_name: string | null };
+
+const FEED_COLUMNS = `f.id, f.household_id, f.child_id, f.token, f.created_by, f.created_at,
+  f.last_accessed_at, f.revoked_at, c.name as child_name`;
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to CalendarFeed domain object
+ */
+function mapRowToFeed(row: CalendarFeedWithChildRow): CalendarFeed {
+  return {
+    id: row.id,
+    householdId: row.household_id,
+    childId: row.child_id,
+    childName: row.child_name,
+    token: row.token,
+    createdBy: row.created_by,
+    createdAt: toDateTimeString(row.created_at),
+    lastAccessedAt: row.last_accessed_at ? toDateTimeString(row.last_accessed_at) : null,
+    revokedAt: row.revoked_at ? toDateTimeString(row.revoked_at) : null,
+  };
+}
+
+export class CalendarFeedRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): CalendarFeedRepository {
+    return new CalendarFeedRepository(client);
+  }
+
+  /**
+   * Create a feed
+   */
+  async create(data: CreateCalendarFeedDto): Promise<CalendarFeed> {
+    const result = await this.db.query<CalendarFeedWithChildRow>(
+      `WITH f AS (
+         INSERT INTO calendar_feeds (household_id, child_id, token, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *
+       )
+       SELECT ${FEED_COLUMNS}
+       FROM f
+       LEFT JOIN children c ON f.child_id = c.id`,
+      [data.householdId, data.childId ?? null, data.token, data.createdBy ?? null],
+    );
+
+    return mapRowToFeed(result.rows[0]);
+  }
+
+  /**
+   * Find the active (not revoked) feeds of a household, oldest first
+   */
+  async findActiveByHousehold(householdId: string): Promise<CalendarFeed[]> {
+    const result = await this.db.query<CalendarFeedWithChildRow>(
+      `SELECT ${FEED_COLUMNS}
+       FROM calendar_feeds f
+       LEFT JOIN children c ON f.child_id = c.id
+       WHERE f.household_id = $1 AND f.revoked_at IS NULL
+       ORDER BY f.created_at ASC`,
+      [householdId],
+    );
+
+    return result.rows.map(mapRowToFeed);
+  }
+
+  /**
+   * Find an active feed by its secret token
+   */
+  async findActiveByToken(token: string): Promise<CalendarFeed | null> {
+    const result = await this.db.query<CalendarFeedWithChildRow>(
+      `SELECT ${FEED_COLUMNS}
+       FROM calendar_feeds f
+       LEFT JOIN children c ON f.child_id = c.id
+       WHERE f.token = $1 AND f.revoked_at IS NULL`,
+      [token],
+    );
+
+    if (result.rows.length === 0) return null;
+    return mapRowToFeed(result.rows[0]);
+  }
+
+  /**
+   * Revoke a feed; its URL stops working immediately
+   *
+   * @returns true if an active feed was revoked
+   */
+  async revoke(feedId: string, householdId: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE calendar_feeds SET revoked_at = NOW()
+       WHERE id = $1 AND household_id = $2 AND revoked_at IS NULL`,
+      [feedId, householdId],
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Record that a calendar app fetched the feed
+   */
+  async markAccessed(feedId: string): Promise<void> {
+    await this.db.query('UPDATE calendar_feeds SET last_accessed_at = NOW() WHERE id = $1', [
+      feedId,
+    ]);
+  }
+}
+
+/**
+ * Factory function for creating CalendarFeedRepository instances
+ */
+export function createCalendarFeedRepository(db: Pool | PoolClient): CalendarFeedRepository {
+  return new CalendarFeedRepository(db);
+}
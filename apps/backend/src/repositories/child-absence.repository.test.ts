@@ -0,0 +1,95 @@
+/**
+ * ChildAbsenceRepository Unit Tests
+ *
+ * Tests the ChildAbsenceRepository using mocked database connections.
+ * No actual database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildAbsenceRepository } from './child-absence.repository.js';
+
+// Mock Pool implementation
+function createMockPool() {
+  const queryMock = mock.fn();
+  return {
+    query: queryMock,
+    connect: mock.fn(),
+    end: mock.fn(),
+  };
+}
+
+const householdId = '123e4567-e89b-12d3-a456-426614174000';
+const childId = '223e4567-e89b-12d3-a456-426614174000';
+const absenceId = '323e4567-e89b-12d3-a456-426614174000';
+
+const absenceRow = {
+  id: absenceId,
+  household_id: householdId,
+  child_id: childId,
+  start_date: '2026-10-23',
+  end_date: '2026-10-25',
+  repeat_every_weeks: 2,
+  repeat_until: null,
+  reason: 'Weekend at dad',
+  created_by: null,
+  created_at: new Date('2026-10-18T10:00:00Z'),
+  updated_at: new Date('2026-10-18T10:00:00Z'),
+};
+
+describe('ChildAbsenceRepository', () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let repository: ChildAbsenceRepository;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    repository = new ChildAbsenceRepository(pool as never);
+  });
+
+  describe('create', () => {
+    it('should insert the absence and map the row', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [absenceRow], rowCount: 1 }));
+
+      const absence = await repository.create({
+        householdId,
+        childId,
+        startDate: '2026-10-23',
+        endDate: '2026-10-25',
+        repeatEveryWeeks: 2,
+        reason: 'Weekend at dad',
+      });
+
+      assert.equal(absence.repeatEveryWeeks, 2);
+      assert.equal(absence.createdAt, '2026-10-18T10:00:00.000Z');
+      assert.deepEqual(pool.query.mock.calls[0].arguments[1], [
+        householdId,
+        childId,
+        '2026-10-23',
+        '2026-10-25',
+        2,
+        null,
+        'Weekend at dad',
+        null,
+      ]);
+    });
+  });
+
+  describe('findByChild', () => {
+    it('should leave the end of the range open when no date is given', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [absenceRow], rowCount: 1 }));
+
+      const absences = await repository.findByChild(childId, '2026-10-18');
+
+      assert.equal(absences.length, 1);
+      assert.deepEqual(pool.query.mock.calls[0].arguments[1], [childId, '2026-10-18', null]);
+    });
+  });
+
+  describe('delete', () => {
+    it('should return false for an unknown absence', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      assert.equal(await repository.delete(absenceId, childId), false);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import type { Pool, PoolClient } from 'pg';
+import type { ChildAbsenceRow } from '../types/database.js';
+
+/**
+ * ChildAbsenceRepository - Data access layer for child_absences table
+ *
+ * Away periods of a child, optionally repeating every N weeks. Assignment
+ * generation reads them to skip absent children.
+ */
+
+export interface ChildAbsence {
+  id: string;
+  householdId: string;
+  childId: string;
+  startDate: string;
+  endDate: string;
+  repeatEveryWeeks: number | null;
+  repeatUntil: string | null;
+  reason: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChildAbsenceDto {
+  startDate: string;
+  endDate: string;
+  repeatEveryWeeks?: number | null;
+  repeatUntil?: string | null;
+  reason?: string | null;
+}
+
+export interface CreateChildAbsenceDto extends ChildAbsenceDto {
+  householdId: string;
+  childId: string;
+  createdBy?: string | null;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+const ABSENCE_COLUMNS = `id, household_id, child_id, start_date::text as start_date,
+  end_date::text as end_date, repeat_every_weeks, repeat_until::text as repeat_until, reason,
+  created_by, created_at, updated_at`;
+
+// Last day the absence can cover; open-ended repeats never end
+const LAST_ABSENT_DAY = `CASE
+  WHEN repeat_every_weeks IS NULL THEN end_date
+  ELSE COALESCE(repeat_until + (end_date - start_date), 'infinity'::date)
+END`;
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to ChildAbsence domain object
+ */
+function mapRowToAbsence(row: ChildAbsenceRow): ChildAbsence {
+  return {
+    id: row.id,
+    householdId: row.household_id,
+    childId: row.child_id,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    repeatEveryWeeks: row.repeat_every_weeks,
+    repeatUntil: row.repeat_until,
+    reason: row.reason,
+    createdBy: row.created_by,
+    createdAt: toDateTimeString(row.created_at),
+    updatedAt: toDateTimeString(row.updated_at),
+  };
+}
+
+export class ChildAbsenceRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): ChildAbsenceRepository {
+    return new ChildAbsenceRepository(client);
+  }
+
+  /**
+   * Create an absence
+   */
+  async create(data: CreateChildAbsenceDto): Promise<ChildAbsence> {
+    const result = await this.db.query<ChildAbsenceRow>(
+      `INSERT INTO child_absences
+         (household_id, child_id, start_date, end_date, repeat_every_weeks, repeat_until, reason,
+          created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${ABSENCE_COLUMNS}`,
+      [
+        data.householdId,
+        data.childId,
+        data.startDate,
+        data.endDate,
+        data.repeatEveryWeeks ?? null,
+        data.repeatUntil ?? null,
+        data.reason ?? null,
+        data.createdBy ?? null,
+      ],
+    );
+
+    return mapRowToAbsence(result.rows[0]);
+  }
+
+  /**
+   * Find an absence of a child
+   */
+  async findById(absenceId: string, childId: string): Promise<ChildAbsence | null> {
+    const result = await this.db.query<ChildAbsenceRow>(
+      `SELECT ${ABSENCE_COLUMNS} FROM child_absences WHERE id = $1 AND child_id = $2`,
+      [absenceId, childId],
+    );
+
+    if (result.rows.length === 0) return null;
+    return mapRowToAbsence(result.rows[0]);
+  }
+
+  /**
+   * Find the absences of a child that overlap from..to, by start date
+   * Without `to`, every absence that still covers a day on or after `from`
+   */
+  async findByChild(childId: string, from: string, to?: string): Promise<ChildAbsence[]> {
+    const result = await this.db.query<ChildAbsenceRow>(
+      `SELECT ${ABSENCE_COLUMNS}
+       FROM child_absences
+       WHERE child_id = $1
+         AND ${LAST_ABSENT_DAY} >= $2::date
+         AND ($3::date IS NULL OR start_date <= $3::date)
+       ORDER BY start_date ASC, created_at ASC`,
+      [childId, from, to ?? null],
+    );
+
+    return result.rows.map(mapRowToAbsence);
+  }
+
+  /**
+   * Find the absences of all children of a household that overlap from..to
+   */
+  async findByHousehold(householdId: string, from: string, to: string): Promise<ChildAbsence[]> {
+    const result = await this.db.query<ChildAbsenceRow>(
+      `SELECT ${ABSENCE_COLUMNS}
+       FROM child_absences
+       WHERE household_id = $1
+         AND ${LAST_ABSENT_DAY} >= $2::date
+         AND start_date <= $3::date
+       ORDER BY start_date ASC`,
+      [householdId, from, to],
+    );
+
+    return result.rows.map(mapRowToAbsence);
+  }
+
+  /**
+   * Replace the period of an absence
+   */
+  async update(
+    absenceId: string,
+    childId: string,
+    data: ChildAbsenceDto,
+  ): Promise<ChildAbsence | null> {
+    const result = await this.db.query<ChildAbsenceRow>(
+      `UPDATE child_absences
+       SET start_date = $3, end_date = $4, repeat_every_weeks = $5, repeat_until = $6,
+           reason = $7, updated_at = NOW()
+       WHERE id = $1 AND child_id = $2
+       RETURNING ${ABSENCE_COLUMNS}`,
+      [
+        absenceId,
+        childId,
+        data.startDate,
+        data.endDate,
+        data.repeatEveryWeeks ?? null,
+        data.repeatUntil ?? null,
+        data.reason ?? null,
+      ],
+    );
+
+    if (result.rows.length === 0) return null;
+    return mapRowToAbsence(result.rows[0]);
+  }
+
+  /**
+   * Delete an absence
+   *
+   * @returns true if the absence existed
+   */
+  async delete(absenceId: string, childId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM child_absences WHERE id = $1 AND child_id = $2',
+      [absenceId, childId],
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+/**
+ * Factory function for creating ChildAbsenceRepository instances
+ */
+export function createChildAbsenceRepository(db: Pool | PoolClient): ChildAbsenceRepository {
+  return new ChildAbsenceRepository(db);
+}
@@ -23,6 +23,10 @@ function createMockPool() {
 const sampleHouseholdRow = {
   id: '123e4567-e89b-12d3-a456-426614174000',
   name: 'Test Household',
+  timezone: 'Europe/Oslo',
+  requires_approval: false,
+  late_completion_policy: 'full',
+  late_points_percent: 50,
   created_at: new Date('2024-01-01T00:00:00Z'),
   updated_at: new Date('2024-01-01T00:00:00Z'),
 };
@@ -58,6 +62,7 @@ describe('HouseholdRepository', () => {
       assert.ok(result);
       assert.equal(result.id, sampleHouseholdRow.id);
       assert.equal(result.name, sampleHouseholdRow.name);
+      assert.equal(result.timezone, 'Europe/Oslo');
       assert.equal(typeof result.createdAt, 'string');
       assert.equal(typeof result.updatedAt, 'string');
     });
@@ -148,24 +153,95 @@ describe('HouseholdRepository', () => {
         rowCount: 1,
       }));
 
-      const result = await repository.update(sampleHouseholdRow.id, 'Updated Name');
+      const result = await repository.update(sampleHouseholdRow.id, { name: 'Updated Name' });
 
       assert.ok(result);
       assert.equal(result.name, 'Updated Name');
     });
 
+    it('should leave name untouched when only the timezone changes', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [{ ...sampleHouseholdRow, timezone: 'America/New_York' }],
+        rowCount: 1,
+      }));
+
+      const result = await repository.update(sampleHouseholdRow.id, {
+        timezone: 'America/New_York',
+      });
+
+      assert.ok(result);
+      assert.equal(result.timezone, 'America/New_York');
+      const params = pool.query.mock.calls[0].arguments[1] as unknown[];
+      assert.deepEqual(params, [null, 'America/New_York', null, null, null, sampleHouseholdRow.id]);
+    });
+
+    it('should update the approval setting', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [{ ...sampleHouseholdRow, requires_approval: true }],
+        rowCount: 1,
+      }));
+
+      const result = await repository.update(sampleHouseholdRow.id, { requiresApproval: true });
+
+      assert.ok(result);
+      assert.equal(result.requiresApproval, true);
+      const params = pool.query.mock.calls[0].arguments[1] as unknown[];
+      assert.deepEqual(params, [null, null, true, null, null, sampleHouseholdRow.id]);
+    });
+
+    it('should update the late completion policy', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [
+          { ...sampleHouseholdRow, late_completion_policy: 'reduced', late_points_percent: 25 },
+        ],
+        rowCount: 1,
+      }));
+
+      const result = await repository.update(sampleHouseholdRow.id, {
+        lateCompletionPolicy: 'reduced',
+        latePointsPercent: 25,
+      });
+
+      assert.ok(result);
+      assert.equal(result.lateCompletionPolicy, 'reduced');
+      assert.equal(result.latePointsPercent, 25);
+      const params = pool.query.mock.calls[0].arguments[1] as unknown[];
+      assert.deepEqual(params, [null, null, null, 'reduced', 25, sampleHouseholdRow.id]);
+    });
+
     it('should return null when household not found', async () => {
       pool.query.mock.mockImplementation(async () => ({
         rows: [],
         rowCount: 0,
       }));
 
-      const result = await repository.update('non-existent', 'New Name');
+      const result = await repository.update('non-existent', { name: 'New Name' });
 
       assert.equal(result, null);
     });
   });
 
+  describe('getTimezone', () => {
+    it('should return the household timezone', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [{ timezone: 'Europe/Oslo' }],
+        rowCount: 1,
+      }));
+
+      const result = await repository.getTimezone(sampleHouseholdRow.id);
+
+      assert.equal(result, 'Europe/Oslo');
+    });
+
+    it('should fall back to UTC when household not found', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      const result = await repository.getTimezone('non-existent');
+
+      assert.equal(result, 'UTC');
+    });
+  });
+
   describe('delete', () => {
     it('should return true when household is deleted', async () => {
       pool.query.mock.mockImplementation(async () => ({
@@ -1,5 +1,11 @@
 import type { Pool, PoolClient } from 'pg';
-import type { HouseholdRow, HouseholdMemberRow, HouseholdRole } from '../types/database.js';
+import type {
+  HouseholdRow,
+  HouseholdMemberRow,
+  HouseholdRole,
+  LateCompletionPolicy,
+} from '../types/database.js';
+import { DEFAULT_TIMEZONE } from '../utils/timezone.js';
 
 /**
  * HouseholdRepository - Data access layer for households and household_members tables
@@ -11,6 +17,10 @@ import type { HouseholdRow, HouseholdMemberRow, HouseholdRole } from '../types/d
 export interface Household {
   id: string;
   name: string;
+  timezone: string;
+  requiresApproval: boolean;
+  lateCompletionPolicy: LateCompletionPolicy;
+  latePointsPercent: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -39,6 +49,15 @@ export interface HouseholdListItem extends Household {
 
 export interface CreateHouseholdDto {
   name: string;
+  timezone?: string;
+}
+
+export interface UpdateHouseholdDto {
+  name?: string;
+  timezone?: string;
+  requiresApproval?: boolean;
+  lateCompletionPolicy?: LateCompletionPolicy;
+  latePointsPercent?: number;
 }
 
 /**
@@ -62,6 +81,10 @@ function mapRowToHousehold(row: HouseholdRow): Household {
   return {
     id: row.id,
     name: row.name,
+    timezone: row.timezone ?? DEFAULT_TIMEZONE,
+    requiresApproval: row.requires_approval === true,
+    lateCompletionPolicy: row.late_completion_policy ?? 'full',
+    latePointsPercent: row.late_points_percent ?? 50,
     createdAt: toDateTimeString(row.created_at),
     updatedAt: toDateTimeString(row.updated_at),
   };
@@ -82,7 +105,9 @@ export class HouseholdRepository {
    */
   async findById(householdId: string): Promise<Household | null> {
     const result = await this.db.query<HouseholdRow>(
-      'SELECT id, name, created_at, updated_at FROM households WHERE id = $1',
+      `SELECT id, name, timezone, requires_approval, late_completion_policy, late_points_percent,
+              created_at, updated_at
+       FROM households WHERE id = $1`,
       [householdId],
     );
 
@@ -98,7 +123,8 @@ export class HouseholdRepository {
       HouseholdRow & { member_count: string; children_count: string }
     >(
       `SELECT
-        h.id, h.name, h.created_at, h.updated_at,
+        h.id, h.name, h.timezone, h.requires_approval, h.late_completion_policy,
+        h.late_points_percent, h.created_at, h.updated_at,
         (SELECT COUNT(*) FROM household_members WHERE household_id = h.id) as member_count,
         (SELECT COUNT(*) FROM children WHERE household_id = h.id) as children_count
       FROM households h
@@ -121,8 +147,10 @@ export class HouseholdRepository {
    */
   async create(data: CreateHouseholdDto): Promise<Household> {
     const result = await this.db.query<HouseholdRow>(
-      'INSERT INTO households (name) VALUES ($1) RETURNING id, name, created_at, updated_at',
-      [data.name.trim()],
+      `INSERT INTO households (name, timezone) VALUES ($1, $2)
+       RETURNING id, name, timezone, requires_approval, late_completion_policy, late_points_percent,
+                 created_at, updated_at`,
+      [data.name.trim(), data.timezone ?? DEFAULT_TIMEZONE],
     );
 
     return mapRowToHousehold(result.rows[0]);
@@ -131,16 +159,56 @@ export class HouseholdRepository {
   /**
    * Update a household
    */
-  async update(householdId: string, name: string): Promise<Household | null> {
+  async update(householdId: string, data: UpdateHouseholdDto): Promise<Household | null> {
     const result = await this.db.query<HouseholdRow>(
-      'UPDATE households SET name = $1, updated_at = NOW() WHERE id = $2 RETURNING id, name, created_at, updated_at',
-      [name.trim(), householdId],
+      `UPDATE households
+       SET name = COALESCE($1, name),
+           timezone = COALESCE($2, timezone),
+           requires_approval = COALESCE($3, requires_approval),
+           late_completion_policy = COALESCE($4, late_completion_policy),
+           late_points_percent = COALESCE($5, late_points_percent),
+           updated_at = NOW()
+       WHERE id = $6
+       RETURNING id, name, timezone, requires_approval, late_completion_policy, late_points_percent,
+                 created_at, updated_at`,
+      [
+        data.name?.trim() ?? null,
+        data.timezone ?? null,
+        data.requiresApproval ?? null,
+        data.lateCompletionPolicy ?? null,
+        data.latePointsPercent ?? null,
+        householdId,
+      ],
     );
 
     if (result.rows.length === 0) return null;
     return mapRowToHousehold(result.rows[0]);
   }
 
+  /**
+   * Get the IANA timezone of a household (falls back to UTC)
+   */
+  async getTimezone(householdId: string): Promise<string> {
+    const result = await this.db.query<{ timezone: string }>(
+      'SELECT timezone FROM households WHERE id = $1',
+      [householdId],
+    );
+
+    return result.rows[0]?.timezone ?? DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Get the late completion policy of a household (falls back to 'full')
+   */
+  async getLateCompletionPolicy(householdId: string): Promise<LateCompletionPolicy> {
+    const result = await this.db.query<{ late_completion_policy: LateCompletionPolicy }>(
+      'SELECT late_completion_policy FROM households WHERE id = $1',
+      [householdId],
+    );
+
+    return result.rows[0]?.late_completion_policy ?? 'full';
+  }
+
   /**
    * Delete a household
    */
@@ -165,7 +233,8 @@ export class HouseholdRepository {
       }
     >(
       `SELECT
-        h.id, h.name, h.created_at, h.updated_at,
+        h.id, h.name, h.timezone, h.requires_approval, h.late_completion_policy,
+        h.late_points_percent, h.created_at, h.updated_at,
         hm.role, hm.joined_at,
         (SELECT COUNT(*) FROM household_members WHERE household_id = h.id) as member_count,
         (SELECT COUNT(*) FROM children WHERE household_id = h.id) as children_count
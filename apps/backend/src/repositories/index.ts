@@ -66,3 +66,106 @@ export {
   type UpdateUserDto,
   type PasswordResetToken,
 } from './user.repository.js';
+
+// Assignment Generation Run Repository
+export {
+  AssignmentGenerationRunRepository,
+  createAssignmentGenerationRunRepository,
+  type AssignmentGenerationRun,
+  type CreateGenerationRunDto,
+} from './assignment-generation-run.repository.js';
+
+// Push Subscription Repository
+export {
+  PushSubscriptionRepository,
+  createPushSubscriptionRepository,
+  type PushSubscription,
+  type UpsertPushSubscriptionDto,
+} from './push-subscription.repository.js';
+
+// User Session Repository
+export {
+  UserSessionRepository,
+  createUserSessionRepository,
+  type UserSession,
+  type CreateUserSessionDto,
+  type SessionRevokedReason,
+} from './user-session.repository.js';
+
+// Points Transaction Repository
+export {
+  PointsTransactionRepository,
+  createPointsTransactionRepository,
+  type PointsTransaction,
+  type PointsTransactionWithDetails,
+  type RecordPointsTransactionDto,
+  type PointsHistoryOptions,
+  type PointsHistoryResult,
+} from './points-transaction.repository.js';
+
+// Calendar Feed Repository
+export {
+  CalendarFeedRepository,
+  createCalendarFeedRepository,
+  type CalendarFeed,
+  type CreateCalendarFeedDto,
+} from './calendar-feed.repository.js';
+
+// Task Rotation Repository
+export {
+  TaskRotationRepository,
+  createTaskRotationRepository,
+} from './task-rotation.repository.js';
+
+// Child Absence Repository
+export {
+  ChildAbsenceRepository,
+  createChildAbsenceRepository,
+  type ChildAbsence,
+  type ChildAbsenceDto,
+  type CreateChildAbsenceDto,
+} from './child-absence.repository.js';
+
+// Audit Event Repository
+export {
+  AuditEventRepository,
+  createAuditEventRepository,
+  type AuditEvent,
+  type CreateAuditEventDto,
+  type AuditEventFilters,
+  type AuditEventListOptions,
+  type AuditEventListResult,
+} from './audit-event.repository.js';
+
+// Task Template Repository
+export {
+  TaskTemplateRepository,
+  createTaskTemplateRepository,
+  type HouseholdTaskTemplate,
+  type CreateTaskTemplateDto,
+} from './task-template.repository.js';
+
+// Assignment Comment Repository
+export {
+  AssignmentCommentRepository,
+  createAssignmentCommentRepository,
+  type AssignmentComment,
+  type CreateAssignmentCommentDto,
+} from './assignment-comment.repository.js';
+
+// Achievement Repository
+export {
+  AchievementRepository,
+  createAchievementRepository,
+  type AchievementDefinition,
+  type UnlockedAchievement,
+  type CreateAchievementDto,
+} from './achievement.repository.js';
+
+// Savings Goal Repository
+export {
+  SavingsGoalRepository,
+  createSavingsGoalRepository,
+  type SavingsGoalRecord,
+  type CreateSavingsGoalDto,
+} from './savings-goal.repository.js';
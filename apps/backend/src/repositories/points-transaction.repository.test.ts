@@ -0,0 +1,131 @@
+/**
+ * PointsTransactionRepository Unit Tests
+ *
+ * Tests the PointsTransactionRepository using mocked database connections.
+ * No actual database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PointsTransactionRepository } from './points-transaction.repository.js';
+
+// Mock Pool implementation
+function createMockPool() {
+  const queryMock = mock.fn();
+  return {
+    query: queryMock,
+    connect: mock.fn(),
+    end: mock.fn(),
+  };
+}
+
+// Sample data
+const sampleChildId = '223e4567-e89b-12d3-a456-426614174000';
+const sampleHouseholdId = '323e4567-e89b-12d3-a456-426614174000';
+const sampleUserId = '423e4567-e89b-12d3-a456-426614174000';
+
+const sampleTransactionRow = {
+  id: 'transaction-123',
+  household_id: sampleHouseholdId,
+  child_id: sampleChildId,
+  type: 'adjustment' as const,
+  amount: -5,
+  balance_after: 15,
+  reason: 'Left bike in the rain',
+  task_completion_id: null,
+  reward_redemption_id: null,
+  created_by: sampleUserId,
+  created_at: new Date('2024-01-01T00:00:00Z'),
+};
+
+describe('PointsTransactionRepository', () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let repository: PointsTransactionRepository;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    repository = new PointsTransactionRepository(pool as never);
+  });
+
+  describe('getBalance', () => {
+    it('should sum the ledger without locking by default', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [{ balance: 42 }], rowCount: 1 }));
+
+      const balance = await repository.getBalance(sampleChildId);
+
+      assert.equal(balance, 42);
+      assert.equal(pool.query.mock.callCount(), 1);
+    });
+
+    it('should lock the child before reading when asked to', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [{ balance: 0 }], rowCount: 1 }));
+
+      await repository.getBalance(sampleChildId, { lock: true });
+
+      assert.equal(pool.query.mock.callCount(), 2);
+      const lockSql = pool.query.mock.calls[0].arguments[0] as string;
+      assert.ok(lockSql.includes('FOR NO KEY UPDATE'));
+    });
+  });
+
+  describe('record', () => {
+    it('should lock the child and insert with the running balance', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [sampleTransactionRow],
+        rowCount: 1,
+      }));
+
+      const result = await repository.record({
+        householdId: sampleHouseholdId,
+        childId: sampleChildId,
+        type: 'adjustment',
+        amount: -5,
+        reason: 'Left bike in the rain',
+        createdBy: sampleUserId,
+      });
+
+      assert.equal(pool.query.mock.callCount(), 2);
+      const insertSql = pool.query.mock.calls[1].arguments[0] as string;
+      const insertParams = pool.query.mock.calls[1].arguments[1] as unknown[];
+      assert.ok(insertSql.includes('COALESCE(SUM(amount), 0) + $4::int'));
+      assert.deepEqual(insertParams, [
+        sampleHouseholdId,
+        sampleChildId,
+        'adjustment',
+        -5,
+        'Left bike in the rain',
+        null,
+        null,
+        sampleUserId,
+      ]);
+
+      assert.equal(result.balanceAfter, 15);
+      assert.equal(result.createdBy, sampleUserId);
+      assert.equal(result.createdAt, '2024-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('findByChild', () => {
+    it('should return entries with names and the total count', async () => {
+      pool.query.mock.mockImplementation(async (sql: string) => {
+        if (sql.includes('COUNT(*)')) {
+          return { rows: [{ count: '3' }], rowCount: 1 };
+        }
+        return {
+          rows: [{ ...sampleTransactionRow, task_name: null, reward_name: 'Movie night' }],
+          rowCount: 1,
+        };
+      });
+
+      const result = await repository.findByChild(sampleChildId, { limit: 1, offset: 2 });
+
+      assert.equal(result.total, 3);
+      assert.equal(result.transactions.length, 1);
+      assert.equal(result.transactions[0].rewardName, 'Movie night');
+      assert.equal(result.transactions[0].taskName, null);
+
+      const listParams = pool.query.mock.calls[1].arguments[1] as unknown[];
+      assert.deepEqual(listParams, [sampleChildId, 1, 2]);
+    });
+  });
+});
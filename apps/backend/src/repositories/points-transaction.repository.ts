@@ -0,0 +1,229 @@
+import type { Pool, PoolClient } from 'pg';
+import type {
+  PointsTransactionRow,
+  PointsTransactionType,
+  PointsTransactionWithDetailsRow,
+} from '../types/database.js';
+
+/**
+ * PointsTransactionRepository - Data access layer for the points ledger
+ *
+ * points_transactions is append-only: every credit or debit of a child's
+ * points is a new row carrying the running balance after it. Entries for one
+ * child are serialized by locking the child row, so record() and
+ * getBalance({ lock: true }) must run inside a transaction.
+ */
+
+export interface PointsTransaction {
+  id: string;
+  householdId: string;
+  childId: string;
+  type: PointsTransactionType;
+  amount: number;
+  balanceAfter: number;
+  reason: string | null;
+  taskCompletionId: string | null;
+  rewardRedemptionId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface PointsTransactionWithDetails extends PointsTransaction {
+  taskName: string | null;
+  rewardName: string | null;
+}
+
+export interface RecordPointsTransactionDto {
+  householdId: string;
+  childId: string;
+  type: PointsTransactionType;
+  amount: number;
+  reason?: string | null;
+  taskCompletionId?: string | null;
+  rewardRedemptionId?: string | null;
+  createdBy?: string | null;
+}
+
+export interface PointsHistoryOptions {
+  limit: number;
+  offset: number;
+}
+
+export interface PointsHistoryResult {
+  transactions: PointsTransactionWithDetails[];
+  total: number;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+const TRANSACTION_COLUMNS = `id, household_id, child_id, type, amount, balance_after, reason,
+  task_completion_id, reward_redemption_id, created_by, created_at`;
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to PointsTransaction domain object
+ */
+function mapRowToTransaction(row: PointsTransactionRow): PointsTransaction {
+  return {
+    id: row.id,
+    householdId: row.household_id,
+    childId: row.child_id,
+    type: row.type,
+    amount: row.amount,
+    balanceAfter: row.balance_after,
+    reason: row.reason,
+    taskCompletionId: row.task_completion_id,
+    rewardRedemptionId: row.reward_redemption_id,
+    createdBy: row.created_by,
+    createdAt: toDateTimeString(row.created_at),
+  };
+}
+
+export class PointsTransactionRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): PointsTransactionRepository {
+    return new PointsTransactionRepository(client);
+  }
+
+  /**
+   * Get a child's current balance
+   *
+   * With lock, no other entry can be recorded for the child until the
+   * transaction ends, so the balance can be checked before spending it.
+   */
+  async getBalance(childId: string, options: { lock?: boolean } = {}): Promise<number> {
+    if (options.lock) {
+      await this.lockChild(childId);
+    }
+
+    const result = await this.db.query<{ balance: number }>(
+      'SELECT COALESCE(SUM(amount), 0)::int AS balance FROM points_transactions WHERE child_id = $1',
+      [childId],
+    );
+
+    return result.rows[0]?.balance ?? 0;
+  }
+
+  /**
+   * Append an entry to a child's ledger
+   */
+  async record(data: RecordPointsTransactionDto): Promise<PointsTransaction> {
+    await this.lockChild(data.childId);
+
+    const result = await this.db.query<PointsTransactionRow>(
+      `INSERT INTO points_transactions
+         (household_id, child_id, type, amount, balance_after, reason,
+          task_completion_id, reward_redemption_id, created_by)
+       SELECT $1, $2, $3, $4::int, COALESCE(SUM(amount), 0) + $4::int, $5, $6, $7, $8
+       FROM points_transactions
+       WHERE child_id = $2
+       RETURNING ${TRANSACTION_COLUMNS}`,
+      [
+        data.householdId,
+        data.childId,
+        data.type,
+        data.amount,
+        data.reason ?? null,
+        data.taskCompletionId ?? null,
+        data.rewardRedemptionId ?? null,
+        data.createdBy ?? null,
+      ],
+    );
+
+    return mapRowToTransaction(result.rows[0]);
+  }
+
+  /**
+   * Credit the points of an approved task completion
+   *
+   * Tasks worth 0 points leave no entry.
+   */
+  async recordCompletion(data: {
+    householdId: string;
+    childId: string;
+    taskCompletionId: string;
+    points: number;
+    createdBy?: string | null;
+  }): Promise<PointsTransaction | null> {
+    if (data.points <= 0) {
+      return null;
+    }
+
+    return this.record({
+      householdId: data.householdId,
+      childId: data.childId,
+      type: 'task_completion',
+      amount: data.points,
+      taskCompletionId: data.taskCompletionId,
+      createdBy: data.createdBy,
+    });
+  }
+
+  /**
+   * List a child's ledger entries, newest first
+   */
+  async findByChild(childId: string, options: PointsHistoryOptions): Promise<PointsHistoryResult> {
+    // Get total count
+    const countResult = await this.db.query<{ count: string }>(
+      'SELECT COUNT(*) as count FROM points_transactions WHERE child_id = $1',
+      [childId],
+    );
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const entriesResult = await this.db.query<PointsTransactionWithDetailsRow>(
+      `SELECT pt.id, pt.household_id, pt.child_id, pt.type, pt.amount, pt.balance_after,
+              pt.reason, pt.task_completion_id, pt.reward_redemption_id, pt.created_by,
+              pt.created_at, t.name AS task_name, r.name AS reward_name
+       FROM points_transactions pt
+       LEFT JOIN task_completions tc ON pt.task_completion_id = tc.id
+       LEFT JOIN task_assignments ta ON tc.task_assignment_id = ta.id
+       LEFT JOIN tasks t ON ta.task_id = t.id
+       LEFT JOIN reward_redemptions rr ON pt.reward_redemption_id = rr.id
+       LEFT JOIN rewards r ON rr.reward_id = r.id
+       WHERE pt.child_id = $1
+       ORDER BY pt.created_at DESC, pt.id DESC
+       LIMIT $2 OFFSET $3`,
+      [childId, options.limit, options.offset],
+    );
+
+    return {
+      transactions: entriesResult.rows.map((row) => ({
+        ...mapRowToTransaction(row),
+        taskName: row.task_name,
+        rewardName: row.reward_name,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Serialize ledger writes for one child (does not block reads or FK checks)
+   */
+  private async lockChild(childId: string): Promise<void> {
+    await this.db.query('SELECT id FROM children WHERE id = $1 FOR NO KEY UPDATE', [childId]);
+  }
+}
+
+/**
+ * Factory function for creating PointsTransactionRepository instances
+ */
+export function createPointsTransactionRepository(
+  db: Pool | PoolClient,
+): PointsTransactionRepository {
+  return new PointsTransactionRepository(db);
+}
@@ -0,0 +1,147 @@
+import type { Pool, PoolClient } from 'pg';
+import type { PushSubscriptionRow } from '../types/database.js';
+
+/**
+ * PushSubscriptionRepository - Data access layer for push_subscriptions table
+ *
+ * Stores the Web Push subscriptions of each user's browsers/devices. The
+ * endpoint is unique, so a browser re-subscribing (or a device changing
+ * owner) replaces the existing row.
+ */
+
+export interface PushSubscription {
+  id: string;
+  userId: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface UpsertPushSubscriptionDto {
+  userId: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent?: string | null;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+const SUBSCRIPTION_COLUMNS =
+  'id, user_id, endpoint, p256dh, auth, user_agent, created_at, last_used_at';
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to PushSubscription domain object
+ */
+function mapRowToSubscription(row: PushSubscriptionRow): PushSubscription {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    endpoint: row.endpoint,
+    p256dh: row.p256dh,
+    auth: row.auth,
+    userAgent: row.user_agent,
+    createdAt: toDateTimeString(row.created_at),
+    lastUsedAt: row.last_used_at ? toDateTimeString(row.last_used_at) : null,
+  };
+}
+
+export class PushSubscriptionRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): PushSubscriptionRepository {
+    return new PushSubscriptionRepository(client);
+  }
+
+  /**
+   * Save a subscription, replacing any existing one with the same endpoint
+   */
+  async upsert(data: UpsertPushSubscriptionDto): Promise<PushSubscription> {
+    const result = await this.db.query<PushSubscriptionRow>(
+      `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (endpoint) DO UPDATE
+         SET user_id = EXCLUDED.user_id,
+             p256dh = EXCLUDED.p256dh,
+             auth = EXCLUDED.auth,
+             user_agent = EXCLUDED.user_agent
+       RETURNING ${SUBSCRIPTION_COLUMNS}`,
+      [data.userId, data.endpoint, data.p256dh, data.auth, data.userAgent ?? null],
+    );
+
+    return mapRowToSubscription(result.rows[0]);
+  }
+
+  /**
+   * Find all subscriptions for the given users
+   */
+  async findByUserIds(userIds: string[]): Promise<PushSubscription[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.db.query<PushSubscriptionRow>(
+      `SELECT ${SUBSCRIPTION_COLUMNS}
+       FROM push_subscriptions
+       WHERE user_id = ANY($1::uuid[])`,
+      [userIds],
+    );
+
+    return result.rows.map(mapRowToSubscription);
+  }
+
+  /**
+   * Delete a user's subscription by endpoint
+   *
+   * @returns true if a subscription was deleted
+   */
+  async deleteForUser(userId: string, endpoint: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM push_subscriptions WHERE user_id = $1 AND endpoint = $2',
+      [userId, endpoint],
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Delete a subscription the push service reported as gone (404/410)
+   */
+  async deleteById(id: string): Promise<void> {
+    await this.db.query('DELETE FROM push_subscriptions WHERE id = $1', [id]);
+  }
+
+  /**
+   * Record a successful delivery
+   */
+  async markUsed(id: string): Promise<void> {
+    await this.db.query('UPDATE push_subscriptions SET last_used_at = NOW() WHERE id = $1', [id]);
+  }
+}
+
+/**
+ * Factory function for creating PushSubscriptionRepository instances
+ */
+export function createPushSubscriptionRepository(
+  db: Pool | PoolClient,
+): PushSubscriptionRepository {
+  return new PushSubscriptionRepository(db);
+}
@@ -0,0 +1,115 @@
+/**
+ * SavingsGoalRepository Unit Tests
+ *
+ * Tests the SavingsGoalRepository using mocked database connections.
+ * No actual database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { SavingsGoalRepository } from './savings-goal.repository.js';
+
+// Mock Pool implementation
+function createMockPool() {
+  const queryMock = mock.fn();
+  return {
+    query: queryMock,
+    connect: mock.fn(),
+    end: mock.fn(),
+  };
+}
+
+const householdId = '123e4567-e89b-12d3-a456-426614174000';
+const childId = '223e4567-e89b-12d3-a456-426614174000';
+const rewardId = '323e4567-e89b-12d3-a456-426614174000';
+const goalId = '423e4567-e89b-12d3-a456-426614174000';
+const otherGoalId = '523e4567-e89b-12d3-a456-426614174000';
+
+const goalRow = {
+  id: goalId,
+  household_id: householdId,
+  child_id: childId,
+  reward_id: rewardId,
+  earmarked_points: 50,
+  affordable_notified_at: null,
+  created_at: new Date('2026-10-18T10:00:00Z'),
+  updated_at: new Date('2026-10-18T10:00:00Z'),
+  reward_name: 'Bike',
+  points_cost: 500,
+};
+
+describe('SavingsGoalRepository', () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let repository: SavingsGoalRepository;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    repository = new SavingsGoalRepository(pool as never);
+  });
+
+  describe('create', () => {
+    it('should insert the goal and map it with its reward', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [goalRow], rowCount: 1 }));
+
+      const goal = await repository.create({ householdId, childId, rewardId, earmarkedPoints: 50 });
+
+      assert.equal(goal?.rewardName, 'Bike');
+      assert.equal(goal?.pointsCost, 500);
+      assert.equal(goal?.createdAt, '2026-10-18T10:00:00.000Z');
+      assert.deepEqual(pool.query.mock.calls[0].arguments[1], [householdId, childId, rewardId, 50]);
+    });
+
+    it('should return null when the child already saves for the reward', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      assert.equal(await repository.create({ householdId, childId, rewardId }), null);
+      assert.match(
+        pool.query.mock.calls[0].arguments[0],
+        /ON CONFLICT \(child_id, reward_id\) DO NOTHING/,
+      );
+      assert.equal(pool.query.mock.calls[0].arguments[1][3], 0);
+    });
+  });
+
+  describe('findByChild', () => {
+    it('should leave out goals of inactive rewards', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [goalRow], rowCount: 1 }));
+
+      const goals = await repository.findByChild(childId);
+
+      assert.equal(goals.length, 1);
+      assert.match(pool.query.mock.calls[0].arguments[0], /r\.active = true/);
+    });
+  });
+
+  describe('markAffordable', () => {
+    it('should only return the goals not notified before', async () => {
+      pool.query.mock.mockImplementation(async (sql: string) =>
+        /SET affordable_notified_at = NOW\(\)/.test(sql)
+          ? { rows: [{ id: goalId }], rowCount: 1 }
+          : { rows: [], rowCount: 0 },
+      );
+
+      const notified = await repository.markAffordable(childId, [goalId, otherGoalId]);
+
+      assert.deepEqual(notified, [goalId]);
+      assert.equal(pool.query.mock.callCount(), 2);
+    });
+
+    it('should only reset goals when none are within reach', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 1 }));
+
+      assert.deepEqual(await repository.markAffordable(childId, []), []);
+      assert.equal(pool.query.mock.callCount(), 1);
+      assert.match(pool.query.mock.calls[0].arguments[0], /SET affordable_notified_at = NULL/);
+    });
+  });
+
+  describe('delete', () => {
+    it('should return false for a goal of another child', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      assert.equal(await repository.delete(goalId, childId), false);
+    });
+  });
+});
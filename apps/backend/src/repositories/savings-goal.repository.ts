@@ -0,0 +1,210 @@
+import type { Pool, PoolClient } from 'pg';
+import type { SavingsGoalRow, SavingsGoalWithRewardRow } from '../types/database.js';
+
+/**
+ * SavingsGoalRepository - Data access layer for savings_goals table
+ *
+ * Goals of rewards that are no longer active are left out everywhere, so
+ * their earmarked points are free again until the reward comes back.
+ */
+
+export interface SavingsGoalRecord {
+  id: string;
+  householdId: string;
+  childId: string;
+  rewardId: string;
+  rewardName: string;
+  pointsCost: number;
+  earmarkedPoints: number;
+  affordableNotifiedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateSavingsGoalDto {
+  householdId: string;
+  childId: string;
+  rewardId: string;
+  earmarkedPoints?: number;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+const GOAL_COLUMNS = `sg.id, sg.household_id, sg.child_id, sg.reward_id, sg.earmarked_points,
+  sg.affordable_notified_at, sg.created_at, sg.updated_at, r.name AS reward_name, r.points_cost`;
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to SavingsGoalRecord domain object
+ */
+function mapRowToGoal(row: SavingsGoalWithRewardRow): SavingsGoalRecord {
+  return {
+    id: row.id,
+    householdId: row.household_id,
+    childId: row.child_id,
+    rewardId: row.reward_id,
+    rewardName: row.reward_name,
+    pointsCost: row.points_cost,
+    earmarkedPoints: row.earmarked_points,
+    affordableNotifiedAt: row.affordable_notified_at
+      ? toDateTimeString(row.affordable_notified_at)
+      : null,
+    createdAt: toDateTimeString(row.created_at),
+  };
+}
+
+export class SavingsGoalRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): SavingsGoalRepository {
+    return new SavingsGoalRepository(client);
+  }
+
+  /**
+   * A child's goals, oldest first
+   */
+  async findByChild(childId: string): Promise<SavingsGoalRecord[]> {
+    const result = await this.db.query<SavingsGoalWithRewardRow>(
+      `SELECT ${GOAL_COLUMNS}
+       FROM savings_goals sg
+       JOIN rewards r ON r.id = sg.reward_id AND r.active = true
+       WHERE sg.child_id = $1
+       ORDER BY sg.created_at ASC, sg.id ASC`,
+      [childId],
+    );
+
+    return result.rows.map(mapRowToGoal);
+  }
+
+  /**
+   * Find one of a child's goals
+   */
+  async findById(goalId: string, childId: string): Promise<SavingsGoalRecord | null> {
+    const result = await this.db.query<SavingsGoalWithRewardRow>(
+      `SELECT ${GOAL_COLUMNS}
+       FROM savings_goals sg
+       JOIN rewards r ON r.id = sg.reward_id AND r.active = true
+       WHERE sg.id = $1 AND sg.child_id = $2`,
+      [goalId, childId],
+    );
+
+    return result.rows[0] ? mapRowToGoal(result.rows[0]) : null;
+  }
+
+  /**
+   * Pin a reward as a goal
+   *
+   * @returns the goal, or null if the child already saves for the reward
+   */
+  async create(data: CreateSavingsGoalDto): Promise<SavingsGoalRecord | null> {
+    const result = await this.db.query<SavingsGoalWithRewardRow>(
+      `WITH inserted AS (
+         INSERT INTO savings_goals (household_id, child_id, reward_id, earmarked_points)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (child_id, reward_id) DO NOTHING
+         RETURNING *
+       )
+       SELECT ${GOAL_COLUMNS}
+       FROM inserted sg
+       JOIN rewards r ON r.id = sg.reward_id`,
+      [data.householdId, data.childId, data.rewardId, data.earmarkedPoints ?? 0],
+    );
+
+    return result.rows[0] ? mapRowToGoal(result.rows[0]) : null;
+  }
+
+  /**
+   * Change the points earmarked for a goal
+   */
+  async updateEarmark(
+    goalId: string,
+    childId: string,
+    earmarkedPoints: number,
+  ): Promise<SavingsGoalRecord | null> {
+    const result = await this.db.query<SavingsGoalWithRewardRow>(
+      `WITH updated AS (
+         UPDATE savings_goals
+         SET earmarked_points = $3
+         WHERE id = $1 AND child_id = $2
+         RETURNING *
+       )
+       SELECT ${GOAL_COLUMNS}
+       FROM updated sg
+       JOIN rewards r ON r.id = sg.reward_id`,
+      [goalId, childId, earmarkedPoints],
+    );
+
+    return result.rows[0] ? mapRowToGoal(result.rows[0]) : null;
+  }
+
+  /**
+   * Remove one of a child's goals, releasing its earmarked points
+   */
+  async delete(goalId: string, childId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM savings_goals WHERE id = $1 AND child_id = $2',
+      [goalId, childId],
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Remove the goal a child reached by redeeming its reward
+   */
+  async deleteForReward(childId: string, rewardId: string): Promise<void> {
+    await this.db.query('DELETE FROM savings_goals WHERE child_id = $1 AND reward_id = $2', [
+      childId,
+      rewardId,
+    ]);
+  }
+
+  /**
+   * Record that the parents were told about the goals now within reach, and
+   * forget it for the goals that dropped out of reach
+   *
+   * @returns the goals not notified before, which are the ones to tell about
+   */
+  async markAffordable(childId: string, affordableGoalIds: string[]): Promise<string[]> {
+    await this.db.query(
+      `UPDATE savings_goals
+       SET affordable_notified_at = NULL
+       WHERE child_id = $1 AND affordable_notified_at IS NOT NULL AND NOT (id = ANY($2::uuid[]))`,
+      [childId, affordableGoalIds],
+    );
+
+    if (affordableGoalIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.db.query<Pick<SavingsGoalRow, 'id'>>(
+      `UPDATE savings_goals
+       SET affordable_notified_at = NOW()
+       WHERE child_id = $1 AND id = ANY($2::uuid[]) AND affordable_notified_at IS NULL
+       RETURNING id`,
+      [childId, affordableGoalIds],
+    );
+
+    return result.rows.map((row) => row.id);
+  }
+}
+
+/**
+ * Factory function for creating SavingsGoalRepository instances
+ */
+export function createSavingsGoalRepository(db: Pool | PoolClient): SavingsGoalRepository {
+  return new SavingsGoalRepository(db);
+}
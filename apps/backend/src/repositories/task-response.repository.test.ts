@@ -233,6 +233,44 @@ describe('TaskResponseRepository', () => {
       assert.ok(result[0].daysUntilDeadline !== null);
       assert.ok(result[0].daysUntilDeadline >= 0);
     });
+
+    it('should count deadline days on the household calendar', async () => {
+      mock.timers.enable({ apis: ['Date'], now: new Date('2026-01-14T12:00:00Z') });
+
+      // 23:30 UTC on Jan 15 is already 00:30 on Jan 16 in Oslo
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [
+          {
+            id: sampleTaskId,
+            household_id: sampleHouseholdId,
+            name: 'Late evening task',
+            description: null,
+            points: 10,
+            deadline: new Date('2026-01-15T23:30:00Z'),
+            candidate_count: '1',
+            decline_count: '0',
+          },
+        ],
+        rowCount: 1,
+      }));
+
+      try {
+        const utcResult = await repository.getAvailableTasksForChild(
+          sampleChildId,
+          sampleHouseholdId,
+        );
+        const osloResult = await repository.getAvailableTasksForChild(
+          sampleChildId,
+          sampleHouseholdId,
+          'Europe/Oslo',
+        );
+
+        assert.equal(utcResult[0].daysUntilDeadline, 1);
+        assert.equal(osloResult[0].daysUntilDeadline, 2);
+      } finally {
+        mock.timers.reset();
+      }
+    });
   });
 
   describe('getFailedTasks', () => {
@@ -1,5 +1,11 @@
 import type { Pool, PoolClient } from 'pg';
 import type { TaskCandidateRow, TaskResponseRow, TaskResponseType } from '../types/database.js';
+import {
+  DEFAULT_TIMEZONE,
+  daysBetween,
+  getLocalToday,
+  toLocalDateString,
+} from '../utils/timezone.js';
 
 /**
  * TaskResponseRepository - Data access layer for task_candidates and task_responses tables
@@ -209,8 +215,15 @@ export class TaskResponseRepository {
    * - Child is a candidate
    * - Task has not been accepted by anyone
    * - Child has not declined (or has undone their decline)
+   *
+   * daysUntilDeadline counts calendar days in the household's timezone
+   * (0 = due today, 1 = due tomorrow, negative = overdue).
    */
-  async getAvailableTasksForChild(childId: string, householdId: string): Promise<AvailableTask[]> {
+  async getAvailableTasksForChild(
+    childId: string,
+    householdId: string,
+    timeZone: string = DEFAULT_TIMEZONE,
+  ): Promise<AvailableTask[]> {
     const result = await this.db.query<{
       id: string;
       household_id: string;
@@ -239,7 +252,7 @@ export class TaskResponseRepository {
          AND tc.child_id = $2
          AND NOT EXISTS (
            SELECT 1 FROM task_assignments ta
-           WHERE ta.task_id = t.id AND ta.status IN ('pending', 'completed')
+           WHERE ta.task_id = t.id AND ta.status IN ('pending', 'pending_review', 'completed', 'overdue')
          )
          AND NOT EXISTS (
            SELECT 1 FROM task_responses tr2
@@ -250,15 +263,15 @@ export class TaskResponseRepository {
       [householdId, childId],
     );
 
+    const today = getLocalToday(timeZone);
+
     return result.rows.map((row) => {
       const deadline = row.deadline;
       const hasDeadline = deadline !== null;
       let daysUntilDeadline: number | null = null;
 
       if (hasDeadline && deadline) {
-        const now = new Date();
-        const diffMs = deadline.getTime() - now.getTime();
-        daysUntilDeadline = Math.ceil(diffMs / (1000 * 60 * 60 * 24));
+        daysUntilDeadline = daysBetween(today, toLocalDateString(deadline, timeZone));
       }
 
       return {
@@ -305,7 +318,7 @@ export class TaskResponseRepository {
          AND t.active = true
          AND NOT EXISTS (
            SELECT 1 FROM task_assignments ta
-           WHERE ta.task_id = t.id AND ta.status IN ('pending', 'completed')
+           WHERE ta.task_id = t.id AND ta.status IN ('pending', 'pending_review', 'completed', 'overdue')
          )
        GROUP BY t.id, t.name, t.description, t.points, t.deadline
        HAVING COUNT(DISTINCT tc.child_id) = COUNT(DISTINCT CASE WHEN tr.response = 'declined' THEN tr.child_id END)
@@ -356,7 +369,7 @@ export class TaskResponseRepository {
          AND t.deadline < CURRENT_TIMESTAMP
          AND NOT EXISTS (
            SELECT 1 FROM task_assignments ta
-           WHERE ta.task_id = t.id AND ta.status IN ('pending', 'completed')
+           WHERE ta.task_id = t.id AND ta.status IN ('pending', 'pending_review', 'completed', 'overdue')
          )
        GROUP BY t.id, t.name, t.description, t.points, t.deadline
        ORDER BY t.deadline DESC`,
@@ -381,7 +394,7 @@ export class TaskResponseRepository {
     const result = await this.db.query<{ exists: boolean }>(
       `SELECT EXISTS (
          SELECT 1 FROM task_assignments
-         WHERE task_id = $1 AND status IN ('pending', 'completed')
+         WHERE task_id = $1 AND status IN ('pending', 'pending_review', 'completed', 'overdue')
        ) as exists`,
       [taskId],
     );
@@ -0,0 +1,79 @@
+/**
+ * TaskRotationRepository Unit Tests
+ *
+ * Tests the TaskRotationRepository using mocked database connections.
+ * No actual database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskRotationRepository } from './task-rotation.repository.js';
+
+// Mock Pool implementation
+function createMockPool() {
+  const queryMock = mock.fn();
+  return {
+    query: queryMock,
+    connect: mock.fn(),
+    end: mock.fn(),
+  };
+}
+
+const householdId = '123e4567-e89b-12d3-a456-426614174000';
+const taskId = '223e4567-e89b-12d3-a456-426614174000';
+const childId = '323e4567-e89b-12d3-a456-426614174000';
+
+describe('TaskRotationRepository', () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let repository: TaskRotationRepository;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    repository = new TaskRotationRepository(pool as never);
+  });
+
+  describe('findCursor', () => {
+    it('should map the stored cursor', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [
+          {
+            task_id: taskId,
+            household_id: householdId,
+            child_id: childId,
+            position: 2,
+            last_date: '2026-10-25',
+            updated_at: new Date('2026-10-18T02:00:00Z'),
+          },
+        ],
+        rowCount: 1,
+      }));
+
+      const cursor = await repository.findCursor(taskId);
+
+      assert.deepEqual(cursor, { childId, position: 2, lastDate: '2026-10-25' });
+      assert.deepEqual(pool.query.mock.calls[0].arguments[1], [taskId]);
+    });
+
+    it('should return null before the first rotation', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      assert.equal(await repository.findCursor(taskId), null);
+    });
+  });
+
+  describe('saveCursor', () => {
+    it('should upsert the cursor by task', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 1 }));
+
+      await repository.saveCursor(taskId, householdId, {
+        childId: null,
+        position: 1,
+        lastDate: '2026-10-25',
+      });
+
+      const [sql, params] = pool.query.mock.calls[0].arguments as [string, unknown[]];
+      assert.ok(sql.includes('ON CONFLICT (task_id) DO UPDATE'));
+      assert.deepEqual(params, [taskId, householdId, null, 1, '2026-10-25']);
+    });
+  });
+});
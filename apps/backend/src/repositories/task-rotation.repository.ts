@@ -0,0 +1,78 @@
+import type { Pool, PoolClient } from 'pg';
+import type { TaskRotationCursorRow } from '../types/database.js';
+import type { RotationCursor } from '../utils/rotation.js';
+
+/**
+ * TaskRotationRepository - Data access layer for task_rotation_cursors table
+ *
+ * Stores where a round-robin task's rotation stopped, so the next generation
+ * run (and the rotation preview) continues with the right child.
+ */
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+const CURSOR_COLUMNS = `task_id, household_id, child_id, position, last_date::text as last_date,
+  updated_at`;
+
+/**
+ * Map database row to RotationCursor
+ */
+function mapRowToCursor(row: TaskRotationCursorRow): RotationCursor {
+  return {
+    childId: row.child_id,
+    position: row.position,
+    lastDate: row.last_date,
+  };
+}
+
+export class TaskRotationRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): TaskRotationRepository {
+    return new TaskRotationRepository(client);
+  }
+
+  /**
+   * Find the cursor of a task
+   *
+   * @returns null if the task has not been rotated yet
+   */
+  async findCursor(taskId: string): Promise<RotationCursor | null> {
+    const result = await this.db.query<TaskRotationCursorRow>(
+      `SELECT ${CURSOR_COLUMNS} FROM task_rotation_cursors WHERE task_id = $1`,
+      [taskId],
+    );
+
+    if (result.rows.length === 0) return null;
+    return mapRowToCursor(result.rows[0]);
+  }
+
+  /**
+   * Create or move the cursor of a task
+   */
+  async saveCursor(taskId: string, householdId: string, cursor: RotationCursor): Promise<void> {
+    await this.db.query(
+      `INSERT INTO task_rotation_cursors (task_id, household_id, child_id, position, last_date)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (task_id) DO UPDATE SET
+         child_id = EXCLUDED.child_id,
+         position = EXCLUDED.position,
+         last_date = EXCLUDED.last_date,
+         updated_at = NOW()`,
+      [taskId, householdId, cursor.childId, cursor.position, cursor.lastDate],
+    );
+  }
+}
+
+/**
+ * Factory function for creating TaskRotationRepository instances
+ */
+export function createTaskRotationRepository(db: Pool | PoolClient): TaskRotationRepository {
+  return new TaskRotationRepository(db);
+}
@@ -0,0 +1,92 @@
+/**
+ * TaskTemplateRepository Unit Tests
+ *
+ * Tests the TaskTemplateRepository using mocked database connections.
+ * No actual database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskTemplateRepository } from './task-template.repository.js';
+
+// Mock Pool implementation
+function createMockPool() {
+  const queryMock = mock.fn();
+  return {
+    query: queryMock,
+    connect: mock.fn(),
+    end: mock.fn(),
+  };
+}
+
+const householdId = '123e4567-e89b-12d3-a456-426614174000';
+const templateId = '323e4567-e89b-12d3-a456-426614174000';
+
+const templateRow = {
+  id: templateId,
+  household_id: householdId,
+  name: 'Feed the rabbit',
+  description: null,
+  points: 5,
+  rule_type: 'weekly_rotation',
+  rule_config: { rotationType: 'round_robin', rotationPeriod: 'daily' },
+  min_age: 6,
+  max_age: null,
+  created_by: null,
+  created_at: new Date('2026-10-18T10:00:00Z'),
+};
+
+describe('TaskTemplateRepository', () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let repository: TaskTemplateRepository;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    repository = new TaskTemplateRepository(pool as never);
+  });
+
+  describe('create', () => {
+    it('should insert the template and map the row', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [templateRow], rowCount: 1 }));
+
+      const template = await repository.create({
+        householdId,
+        name: 'Feed the rabbit',
+        points: 5,
+        ruleType: 'weekly_rotation',
+        ruleConfig: { rotationType: 'round_robin', rotationPeriod: 'daily' },
+        minAge: 6,
+      });
+
+      assert.equal(template.minAge, 6);
+      assert.equal(template.createdAt, '2026-10-18T10:00:00.000Z');
+      assert.deepEqual(pool.query.mock.calls[0].arguments[1], [
+        householdId,
+        'Feed the rabbit',
+        null,
+        5,
+        'weekly_rotation',
+        '{"rotationType":"round_robin","rotationPeriod":"daily"}',
+        6,
+        null,
+        null,
+      ]);
+    });
+  });
+
+  describe('findById', () => {
+    it('should return null for a template of another household', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      assert.equal(await repository.findById(templateId, householdId), null);
+    });
+  });
+
+  describe('delete', () => {
+    it('should return true when the template existed', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 1 }));
+
+      assert.equal(await repository.delete(templateId, householdId), true);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import type { Pool, PoolClient } from 'pg';
+import type { TaskRuleType, TaskRuleConfig } from '@st44/types';
+import type { TaskTemplateRow } from '../types/database.js';
+
+/**
+ * TaskTemplateRepository - Data access layer for task_templates table
+ *
+ * Templates a household saved from its own tasks. The built-in catalogue is
+ * not stored; see services/task-template.service.ts.
+ */
+
+export interface HouseholdTaskTemplate {
+  id: string;
+  householdId: string;
+  name: string;
+  description: string | null;
+  points: number;
+  ruleType: TaskRuleType;
+  ruleConfig: TaskRuleConfig;
+  minAge: number | null;
+  maxAge: number | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface CreateTaskTemplateDto {
+  householdId: string;
+  name: string;
+  description?: string | null;
+  points: number;
+  ruleType: TaskRuleType;
+  ruleConfig?: TaskRuleConfig;
+  minAge?: number | null;
+  maxAge?: number | null;
+  createdBy?: string | null;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+const TEMPLATE_COLUMNS = `id, household_id, name, description, points, rule_type, rule_config,
+  min_age, max_age, created_by, created_at`;
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to HouseholdTaskTemplate domain object
+ */
+function mapRowToTemplate(row: TaskTemplateRow): HouseholdTaskTemplate {
+  return {
+    id: row.id,
+    householdId: row.household_id,
+    name: row.name,
+    description: row.description,
+    points: row.points,
+    ruleType: row.rule_type,
+    ruleConfig: row.rule_config as TaskRuleConfig,
+    minAge: row.min_age,
+    maxAge: row.max_age,
+    createdBy: row.created_by,
+    createdAt: toDateTimeString(row.created_at),
+  };
+}
+
+export class TaskTemplateRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): TaskTemplateRepository {
+    return new TaskTemplateRepository(client);
+  }
+
+  /**
+   * Save a template
+   */
+  async create(data: CreateTaskTemplateDto): Promise<HouseholdTaskTemplate> {
+    const result = await this.db.query<TaskTemplateRow>(
+      `INSERT INTO task_templates
+         (household_id, name, description, points, rule_type, rule_config, min_age, max_age,
+          created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING ${TEMPLATE_COLUMNS}`,
+      [
+        data.householdId,
+        data.name,
+        data.description ?? null,
+        data.points,
+        data.ruleType,
+        data.ruleConfig ? JSON.stringify(data.ruleConfig) : null,
+        data.minAge ?? null,
+        data.maxAge ?? null,
+        data.createdBy ?? null,
+      ],
+    );
+
+    return mapRowToTemplate(result.rows[0]);
+  }
+
+  /**
+   * Find a template of a household
+   */
+  async findById(templateId: string, householdId: string): Promise<HouseholdTaskTemplate | null> {
+    const result = await this.db.query<TaskTemplateRow>(
+      `SELECT ${TEMPLATE_COLUMNS} FROM task_templates WHERE id = $1 AND household_id = $2`,
+      [templateId, householdId],
+    );
+
+    if (result.rows.length === 0) return null;
+    return mapRowToTemplate(result.rows[0]);
+  }
+
+  /**
+   * All templates of a household, by name
+   */
+  async findByHousehold(householdId: string): Promise<HouseholdTaskTemplate[]> {
+    const result = await this.db.query<TaskTemplateRow>(
+      `SELECT ${TEMPLATE_COLUMNS}
+       FROM task_templates
+       WHERE household_id = $1
+       ORDER BY name ASC, created_at ASC`,
+      [householdId],
+    );
+
+    return result.rows.map(mapRowToTemplate);
+  }
+
+  /**
+   * Delete a template
+   *
+   * @returns true if the template existed
+   */
+  async delete(templateId: string, householdId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM task_templates WHERE id = $1 AND household_id = $2',
+      [templateId, householdId],
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+/**
+ * Factory function for creating TaskTemplateRepository instances
+ */
+export function createTaskTemplateRepository(db: Pool | PoolClient): TaskTemplateRepository {
+  return new TaskTemplateRepository(db);
+}
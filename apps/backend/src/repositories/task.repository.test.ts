@@ -155,6 +155,46 @@ describe('TaskRepository', () => {
     });
   });
 
+  describe('findSingleTaskDeadlines', () => {
+    it('should compare deadlines on the household calendar', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      await repository.findSingleTaskDeadlines(
+        sampleTaskRow.household_id,
+        '2026-10-11',
+        '2026-11-17',
+        'Europe/Oslo',
+      );
+
+      const call = pool.query.mock.calls[0];
+      assert.ok(call.arguments[0].includes('AT TIME ZONE $4'));
+      assert.ok(!call.arguments[0].includes('task_candidates'));
+      assert.deepEqual(call.arguments[1], [
+        sampleTaskRow.household_id,
+        '2026-10-11',
+        '2026-11-17',
+        'Europe/Oslo',
+      ]);
+    });
+
+    it("should limit to a child's candidate tasks when given a child", async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      await repository.findSingleTaskDeadlines(
+        sampleTaskRow.household_id,
+        '2026-10-11',
+        '2026-11-17',
+        'UTC',
+        'child-1',
+      );
+
+      const call = pool.query.mock.calls[0];
+      assert.ok(call.arguments[0].includes('task_candidates'));
+      assert.ok(call.arguments[0].includes("response = 'declined'"));
+      assert.equal(call.arguments[1][4], 'child-1');
+    });
+  });
+
   describe('create', () => {
     it('should create a new task with default values', async () => {
       pool.query.mock.mockImplementation(async () => ({
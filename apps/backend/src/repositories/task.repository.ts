@@ -8,7 +8,13 @@ import type { TaskRow, TaskRuleConfig } from '../types/database.js';
  * Services should use this repository instead of direct database access.
  */
 
-export type TaskRuleType = 'weekly_rotation' | 'repeating' | 'daily' | 'single';
+export type TaskRuleType =
+  | 'weekly_rotation'
+  | 'repeating'
+  | 'daily'
+  | 'single'
+  | 'interval'
+  | 'monthly';
 
 export interface Task {
   id: string;
@@ -91,13 +97,32 @@ function parseRuleConfig(value: unknown): TaskRuleConfig | null {
 
   // Handle both camelCase and snake_case
   const rotationType = obj.rotationType ?? obj.rotation_type;
+  const rotationPeriod = obj.rotationPeriod ?? obj.rotation_period;
   const repeatDays = obj.repeatDays ?? obj.repeat_days;
   const assignedChildren = obj.assignedChildren ?? obj.assigned_children;
-
-  if (rotationType === 'odd_even_week' || rotationType === 'alternating') {
+  const interval = obj.interval;
+  const intervalUnit = obj.intervalUnit ?? obj.interval_unit;
+  const startDate = obj.startDate ?? obj.start_date;
+  const dayOfMonth = obj.dayOfMonth ?? obj.day_of_month;
+  const weekOfMonth = obj.weekOfMonth ?? obj.week_of_month;
+  const dayOfWeek = obj.dayOfWeek ?? obj.day_of_week;
+
+  if (
+    rotationType === 'odd_even_week' ||
+    rotationType === 'alternating' ||
+    rotationType === 'round_robin'
+  ) {
     result.rotation_type = rotationType;
   }
 
+  if (
+    rotationPeriod === 'daily' ||
+    rotationPeriod === 'weekly' ||
+    rotationPeriod === 'occurrence'
+  ) {
+    result.rotation_period = rotationPeriod;
+  }
+
   if (Array.isArray(repeatDays)) {
     result.repeat_days = repeatDays as number[];
   }
@@ -106,6 +131,30 @@ function parseRuleConfig(value: unknown): TaskRuleConfig | null {
     result.assigned_children = assignedChildren as string[];
   }
 
+  if (typeof interval === 'number') {
+    result.interval = interval;
+  }
+
+  if (intervalUnit === 'days' || intervalUnit === 'weeks') {
+    result.interval_unit = intervalUnit;
+  }
+
+  if (typeof startDate === 'string') {
+    result.start_date = startDate;
+  }
+
+  if (typeof dayOfMonth === 'number') {
+    result.day_of_month = dayOfMonth;
+  }
+
+  if (typeof weekOfMonth === 'number') {
+    result.week_of_month = weekOfMonth;
+  }
+
+  if (typeof dayOfWeek === 'number') {
+    result.day_of_week = dayOfWeek;
+  }
+
   return Object.keys(result).length > 0 ? result : null;
 }
 
@@ -194,6 +243,47 @@ export class TaskRepository {
     return result.rows.map(mapRowToTask);
   }
 
+  /**
+   * Find active single tasks whose deadline falls on a household-local date
+   * between startDate and endDate (inclusive). With a childId, only tasks the
+   * child is a candidate for and has not declined.
+   */
+  async findSingleTaskDeadlines(
+    householdId: string,
+    startDate: string,
+    endDate: string,
+    timeZone: string,
+    childId?: string,
+  ): Promise<Task[]> {
+    let query = `
+      SELECT t.id, t.household_id, t.name, t.description, t.points, t.rule_type, t.rule_config,
+             t.deadline, t.active, t.created_at, t.updated_at
+      FROM tasks t
+      WHERE t.household_id = $1
+        AND t.rule_type = 'single'
+        AND t.active = true
+        AND t.deadline IS NOT NULL
+        AND (t.deadline AT TIME ZONE $4)::date BETWEEN $2::date AND $3::date
+    `;
+    const params: string[] = [householdId, startDate, endDate, timeZone];
+
+    if (childId) {
+      query += `
+        AND EXISTS (SELECT 1 FROM task_candidates tc WHERE tc.task_id = t.id AND tc.child_id = $5)
+        AND NOT EXISTS (
+          SELECT 1 FROM task_responses tr
+          WHERE tr.task_id = t.id AND tr.child_id = $5 AND tr.response = 'declined'
+        )
+      `;
+      params.push(childId);
+    }
+
+    query += ' ORDER BY t.deadline ASC, t.name ASC';
+
+    const result = await this.db.query<TaskRow>(query, params);
+    return result.rows.map(mapRowToTask);
+  }
+
   /**
    * Create a new task
    */
@@ -0,0 +1,123 @@
+/**
+ * UserSessionRepository Unit Tests
+ *
+ * Tests the UserSessionRepository using mocked database connections.
+ * No actual database is required to run these tests.
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { UserSessionRepository } from './user-session.repository.js';
+
+// Mock Pool implementation
+function createMockPool() {
+  const queryMock = mock.fn();
+  return {
+    query: queryMock,
+    connect: mock.fn(),
+    end: mock.fn(),
+  };
+}
+
+const userId = '123e4567-e89b-12d3-a456-426614174000';
+const sessionId = '223e4567-e89b-12d3-a456-426614174000';
+
+describe('UserSessionRepository', () => {
+  let pool: ReturnType<typeof createMockPool>;
+  let repository: UserSessionRepository;
+
+  beforeEach(() => {
+    pool = createMockPool();
+    repository = new UserSessionRepository(pool as never);
+  });
+
+  describe('findById', () => {
+    it('should map the stored session', async () => {
+      pool.query.mock.mockImplementation(async () => ({
+        rows: [
+          {
+            id: sessionId,
+            user_id: userId,
+            token_hash: 'a'.repeat(64),
+            user_agent: 'Mozilla/5.0',
+            ip_address: '127.0.0.1',
+            created_at: new Date('2026-10-18T08:00:00Z'),
+            last_used_at: new Date('2026-10-18T09:00:00Z'),
+            expires_at: new Date('2026-10-25T09:00:00Z'),
+            revoked_at: null,
+            revoked_reason: null,
+          },
+        ],
+        rowCount: 1,
+      }));
+
+      const session = await repository.findById(sessionId);
+
+      assert.deepEqual(session, {
+        id: sessionId,
+        userId,
+        tokenHash: 'a'.repeat(64),
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '127.0.0.1',
+        createdAt: '2026-10-18T08:00:00.000Z',
+        lastUsedAt: '2026-10-18T09:00:00.000Z',
+        expiresAt: '2026-10-25T09:00:00.000Z',
+        revokedAt: null,
+        revokedReason: null,
+      });
+    });
+
+    it('should return null for an unknown session', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      assert.equal(await repository.findById(sessionId), null);
+    });
+  });
+
+  describe('isActive', () => {
+    it('should only accept an active session of the user', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [{}], rowCount: 1 }));
+
+      assert.equal(await repository.isActive(sessionId, userId), true);
+      const [sql, params] = pool.query.mock.calls[0].arguments;
+      assert.match(sql, /user_id = \$2 AND revoked_at IS NULL AND expires_at > NOW\(\)/);
+      assert.deepEqual(params, [sessionId, userId]);
+    });
+
+    it('should reject a revoked or unknown session', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      assert.equal(await repository.isActive(sessionId, userId), false);
+    });
+  });
+
+  describe('rotate', () => {
+    it('should only replace the token it was given', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+      const expiresAt = new Date('2026-10-25T09:00:00Z');
+
+      const rotated = await repository.rotate(sessionId, 'old', 'new', expiresAt);
+
+      assert.equal(rotated, false);
+      const [sql, params] = pool.query.mock.calls[0].arguments;
+      assert.match(sql, /token_hash = \$2 AND revoked_at IS NULL/);
+      assert.deepEqual(params, [sessionId, 'old', 'new', expiresAt]);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should scope revocation to the user when given', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 1 }));
+
+      assert.equal(await repository.revoke(sessionId, 'revoked', userId), true);
+      assert.deepEqual(pool.query.mock.calls[0].arguments[1], [sessionId, 'revoked', userId]);
+    });
+
+    it('should report an already revoked session', async () => {
+      pool.query.mock.mockImplementation(async () => ({ rows: [], rowCount: 0 }));
+
+      assert.equal(await repository.revoke(sessionId, 'logout'), false);
+      assert.deepEqual(pool.query.mock.calls[0].arguments[1], [sessionId, 'logout', null]);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import type { Pool, PoolClient } from 'pg';
+import type { UserSessionRow } from '../types/database.js';
+
+/**
+ * UserSessionRepository - Data access layer for user_sessions table
+ *
+ * One row per sign-in. The row keeps the hash of the refresh token issued
+ * last, so a refresh can be rotated atomically and an older token of the
+ * same session recognised as reused.
+ */
+
+export type SessionRevokedReason = 'logout' | 'revoked' | 'reuse';
+
+export interface UserSession {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  revokedReason: SessionRevokedReason | null;
+}
+
+export interface CreateUserSessionDto {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+/**
+ * Database executor type - supports both Pool and PoolClient
+ */
+type DbExecutor = Pool | PoolClient;
+
+const SESSION_COLUMNS = `id, user_id, token_hash, user_agent, ip_address, created_at,
+  last_used_at, expires_at, revoked_at, revoked_reason`;
+
+/**
+ * Convert date to ISO string
+ */
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Map database row to UserSession domain object
+ */
+function mapRowToSession(row: UserSessionRow): UserSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    tokenHash: row.token_hash,
+    userAgent: row.user_agent,
+    ipAddress: row.ip_address,
+    createdAt: toDateTimeString(row.created_at),
+    lastUsedAt: toDateTimeString(row.last_used_at),
+    expiresAt: toDateTimeString(row.expires_at),
+    revokedAt: row.revoked_at ? toDateTimeString(row.revoked_at) : null,
+    revokedReason: row.revoked_reason,
+  };
+}
+
+export class UserSessionRepository {
+  constructor(private db: DbExecutor) {}
+
+  /**
+   * Create a new instance with a different executor (for transactions)
+   */
+  withClient(client: PoolClient): UserSessionRepository {
+    return new UserSessionRepository(client);
+  }
+
+  /**
+   * Create a session (the id is chosen by the caller, as it is part of the token)
+   */
+  async create(data: CreateUserSessionDto): Promise<UserSession> {
+    const result = await this.db.query<UserSessionRow>(
+      `INSERT INTO user_sessions (id, user_id, token_hash, user_agent, ip_address, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${SESSION_COLUMNS}`,
+      [
+        data.id,
+        data.userId,
+        data.tokenHash,
+        data.userAgent ?? null,
+        data.ipAddress ?? null,
+        data.expiresAt,
+      ],
+    );
+
+    return mapRowToSession(result.rows[0]);
+  }
+
+  /**
+   * Find a session by ID, whether active or not
+   */
+  async findById(sessionId: string): Promise<UserSession | null> {
+    const result = await this.db.query<UserSessionRow>(
+      `SELECT ${SESSION_COLUMNS} FROM user_sessions WHERE id = $1`,
+      [sessionId],
+    );
+
+    if (result.rows.length === 0) return null;
+    return mapRowToSession(result.rows[0]);
+  }
+
+  /**
+   * Whether a session of the user is neither revoked nor expired
+   */
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const result = await this.db.query(
+      `SELECT 1 FROM user_sessions
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL AND expires_at > NOW()`,
+      [sessionId, userId],
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Find a user's sessions that are neither revoked nor expired, most recently used first
+   */
+  async findActiveByUser(userId: string): Promise<UserSession[]> {
+    const result = await this.db.query<UserSessionRow>(
+      `SELECT ${SESSION_COLUMNS}
+       FROM user_sessions
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_used_at DESC`,
+      [userId],
+    );
+
+    return result.rows.map(mapRowToSession);
+  }
+
+  /**
+   * Replace the current token of an active session
+   * Only succeeds while currentHash is still the latest token, so two
+   * refreshes with the same token cannot both rotate it.
+   *
+   * @returns true if the session was rotated
+   */
+  async rotate(
+    sessionId: string,
+    currentHash: string,
+    nextHash: string,
+    expiresAt: Date,
+  ): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE user_sessions
+       SET token_hash = $3, expires_at = $4, last_used_at = NOW()
+       WHERE id = $1 AND token_hash = $2 AND revoked_at IS NULL AND expires_at > NOW()`,
+      [sessionId, currentHash, nextHash, expiresAt],
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Revoke a session, optionally only if it belongs to the given user
+   *
+   * @returns true if an active session was revoked
+   */
+  async revoke(sessionId: string, reason: SessionRevokedReason, userId?: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE user_sessions
+       SET revoked_at = NOW(), revoked_reason = $2
+       WHERE id = $1 AND revoked_at IS NULL AND ($3::uuid IS NULL OR user_id = $3::uuid)`,
+      [sessionId, reason, userId ?? null],
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+/**
+ * Factory function for creating UserSessionRepository instances
+ */
+export function createUserSessionRepository(db: Pool | PoolClient): UserSessionRepository {
+  return new UserSessionRepository(db);
+}
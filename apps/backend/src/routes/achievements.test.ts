@@ -0,0 +1,257 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Achievements API Tests
+ *
+ * Unlocks are recorded when a completion is credited and handed out once
+ * through GET /api/stats/achievements/new.
+ */
+
+describe('Achievements API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let adminToken: string;
+  let adminUserId: string;
+  let childToken: string;
+  let childUserId: string;
+  let householdId: string;
+  let childId: string;
+  let dogTaskId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const timestamp = Date.now();
+    const adminData = await registerAndLogin(
+      app,
+      `test-achievements-admin-${timestamp}@example.com`,
+      'TestPass123!',
+    );
+    adminToken = adminData.accessToken;
+    adminUserId = adminData.userId;
+
+    const childData = await registerAndLogin(
+      app,
+      `test-achievements-child-${timestamp}@example.com`,
+      'ChildPass123!',
+    );
+    childToken = childData.accessToken;
+    childUserId = childData.userId;
+
+    householdId = (
+      await pool.query('INSERT INTO households (name) VALUES ($1) RETURNING id', [
+        `Test Achievements Household ${timestamp}`,
+      ])
+    ).rows[0].id;
+
+    await pool.query(
+      `INSERT INTO household_members (household_id, user_id, role)
+       VALUES ($1, $2, 'admin'), ($1, $3, 'child')`,
+      [householdId, adminUserId, childUserId],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year, user_id) VALUES ($1, $2, $3, $4) RETURNING id',
+        [householdId, 'Emma', 2015, childUserId],
+      )
+    ).rows[0].id;
+
+    dogTaskId = (
+      await pool.query(
+        `INSERT INTO tasks (household_id, name, points, rule_type)
+         VALUES ($1, 'Walk the dog', 10, 'daily') RETURNING id`,
+        [householdId],
+      )
+    ).rows[0].id;
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [adminUserId, childUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function completeDogWalk(daysAgo: number) {
+    const assignmentId = (
+      await pool.query(
+        `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+         VALUES ($1, $2, $3, CURRENT_DATE - $4::int, 'pending') RETURNING id`,
+        [householdId, dogTaskId, childId, daysAgo],
+      )
+    ).rows[0].id;
+
+    return app.inject({
+      method: 'POST',
+      url: `/api/assignments/${assignmentId}/complete`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+  }
+
+  async function getNewUnlocks(token: string, query = '') {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/stats/achievements/new?householdId=${householdId}${query}`,
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    assert.strictEqual(response.statusCode, 200);
+    return JSON.parse(response.body).unlocks as { id: string; unlockedAt: string }[];
+  }
+
+  test('should list the built-in achievements in the requested language', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/achievements`,
+      headers: { Authorization: `Bearer ${adminToken}`, 'Accept-Language': 'en' },
+    });
+
+    assert.strictEqual(response.statusCode, 200);
+    const { achievements } = JSON.parse(response.body);
+    const firstTask = achievements.find((a: { id: string }) => a.id === 'first_task');
+    assert.strictEqual(firstTask.source, 'builtin');
+    assert.strictEqual(firstTask.name, 'First Steps');
+  });
+
+  test('should create a household achievement for a task', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/achievements`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      payload: {
+        name: 'Dog walker',
+        description: 'Walk the dog 2 times',
+        type: 'task_completions',
+        threshold: 2,
+        taskId: dogTaskId,
+      },
+    });
+
+    assert.strictEqual(response.statusCode, 201);
+    const achievement = JSON.parse(response.body);
+    assert.strictEqual(achievement.source, 'household');
+    assert.strictEqual(achievement.taskId, dogTaskId);
+  });
+
+  test('should not let children create achievements', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/achievements`,
+      headers: { Authorization: `Bearer ${childToken}` },
+      payload: { name: 'Free pass', type: 'tasks_completed', threshold: 1 },
+    });
+
+    assert.strictEqual(response.statusCode, 403);
+  });
+
+  test('should return 404 for a task of another household', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/achievements`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      payload: {
+        name: 'Cat sitter',
+        type: 'task_completions',
+        threshold: 5,
+        taskId: '00000000-0000-0000-0000-000000000000',
+      },
+    });
+
+    assert.strictEqual(response.statusCode, 404);
+  });
+
+  test('should record the unlock when a completion reaches the threshold', async () => {
+    assert.strictEqual((await completeDogWalk(0)).statusCode, 200);
+
+    const unlocks = await pool.query(
+      `SELECT a.code, u.task_completion_id
+       FROM achievement_unlocks u JOIN achievements a ON a.id = u.achievement_id
+       WHERE u.child_id = $1`,
+      [childId],
+    );
+    assert.deepStrictEqual(
+      unlocks.rows.map((row) => row.code),
+      ['first_task'],
+    );
+    assert.ok(unlocks.rows[0].task_completion_id);
+  });
+
+  test('should not mark new unlocks as seen when a parent checks', async () => {
+    const unlocks = await getNewUnlocks(adminToken, `&userId=${childId}`);
+    assert.deepStrictEqual(
+      unlocks.map((unlock) => unlock.id),
+      ['first_task'],
+    );
+  });
+
+  test('should hand out new unlocks once to the child', async () => {
+    const first = await getNewUnlocks(childToken);
+    assert.deepStrictEqual(
+      first.map((unlock) => unlock.id),
+      ['first_task'],
+    );
+    assert.ok(first[0].unlockedAt);
+
+    assert.deepStrictEqual(await getNewUnlocks(childToken), []);
+  });
+
+  test('should unlock a household achievement for its task', async () => {
+    assert.strictEqual((await completeDogWalk(1)).statusCode, 200);
+
+    const unlocks = (await getNewUnlocks(childToken)) as { source: string; name: string }[];
+    assert.strictEqual(unlocks.length, 1);
+    assert.strictEqual(unlocks[0].source, 'household');
+    assert.strictEqual(unlocks[0].name, 'Dog walker');
+  });
+
+  test('should list unlocked achievements with their unlock time', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/stats/achievements?householdId=${householdId}`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 200);
+    const body = JSON.parse(response.body);
+    const firstTask = body.unlocked.find((a: { id: string }) => a.id === 'first_task');
+    assert.ok(firstTask.unlockedAt);
+    assert.ok(body.locked.some((a: { id: string }) => a.id === 'task_master_10'));
+    const progress = body.progress.find(
+      (p: { achievementId: string }) => p.achievementId === 'task_master_10',
+    );
+    assert.deepStrictEqual(progress, { achievementId: 'task_master_10', current: 2, required: 10 });
+  });
+
+  test('should delete a household achievement', async () => {
+    const achievementId = (
+      await pool.query(`SELECT id FROM achievements WHERE household_id = $1`, [householdId])
+    ).rows[0].id;
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/households/${householdId}/achievements/${achievementId}`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 204);
+    const remaining = await pool.query(
+      'SELECT 1 FROM achievement_unlocks WHERE achievement_id = $1',
+      [achievementId],
+    );
+    assert.strictEqual(remaining.rows.length, 0);
+  });
+});
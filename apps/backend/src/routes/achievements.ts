@@ -0,0 +1,260 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  AchievementSchema,
+  AchievementListResponseSchema,
+  CreateAchievementRequestSchema,
+  type AchievementListResponse,
+  type CreateAchievementRequest,
+} from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { normalizeLanguage } from '../core/i18n.js';
+import { authenticateUser } from '../middleware/auth.js';
+import {
+  validateHouseholdMembership,
+  requireHouseholdPermission,
+} from '../middleware/household-membership.js';
+import { getHouseholdClient } from '../middleware/household-scope.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { listAchievements, createHouseholdAchievement } from '../services/achievement.service.js';
+import { AchievementRepository } from '../repositories/achievement.repository.js';
+import { validateRequest, validateParams, handleZodError } from '../utils/index.js';
+import { householdIdParamSchema, uuidSchema } from '../schemas/validation.js';
+import { stripResponseValidation } from '../schemas/common.js';
+
+/**
+ * Achievements
+ *
+ * The built-in achievements plus the ones the household created, such as
+ * "walk the dog 20 times". A child's unlocks and progress are served by
+ * GET /api/stats/achievements.
+ */
+
+interface HouseholdParams {
+  householdId: string;
+}
+
+interface AchievementParams extends HouseholdParams {
+  achievementId: string;
+}
+
+const householdAchievementParamsSchema = z.object({
+  householdId: uuidSchema,
+  achievementId: uuidSchema,
+});
+
+/**
+ * GET /api/households/:householdId/achievements
+ * Built-in achievements in the caller's language, then the household's own
+ */
+async function getAchievements(
+  request: FastifyRequest<{ Params: HouseholdParams }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId } = validateParams(householdIdParamSchema, request);
+    const language = normalizeLanguage(request.headers['accept-language']);
+
+    const achievements = await listAchievements(getHouseholdClient(request), householdId, language);
+
+    const response: AchievementListResponse = { achievements };
+    return reply.send(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to list achievements');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve achievements',
+    });
+  }
+}
+
+/**
+ * POST /api/households/:householdId/achievements
+ * Create a household achievement
+ */
+async function createAchievement(
+  request: FastifyRequest<{ Params: HouseholdParams; Body: CreateAchievementRequest }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId } = validateParams(householdIdParamSchema, request);
+    const data = validateRequest(CreateAchievementRequestSchema, request.body);
+
+    const achievement = await createHouseholdAchievement(
+      getHouseholdClient(request),
+      householdId,
+      data,
+      request.user?.userId,
+    );
+
+    if (!achievement) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Task not found',
+      });
+    }
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'achievement.created',
+      entityId: achievement.id,
+      after: achievement,
+    });
+
+    return reply.status(201).send(achievement);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to create achievement');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to create achievement',
+    });
+  }
+}
+
+/**
+ * DELETE /api/households/:householdId/achievements/:achievementId
+ * Delete a household achievement; children's unlocks of it go with it
+ */
+async function deleteAchievement(
+  request: FastifyRequest<{ Params: AchievementParams }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId, achievementId } = validateParams(
+      householdAchievementParamsSchema,
+      request,
+    );
+    const achievements = new AchievementRepository(getHouseholdClient(request));
+
+    const achievement = await achievements.findById(achievementId, householdId);
+    if (!achievement) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Achievement not found',
+      });
+    }
+
+    await achievements.delete(achievementId, householdId);
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'achievement.deleted',
+      entityId: achievementId,
+      before: {
+        name: achievement.name,
+        type: achievement.type,
+        threshold: achievement.threshold,
+      },
+    });
+
+    return reply.status(204).send();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to delete achievement');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to delete achievement',
+    });
+  }
+}
+
+/**
+ * Register achievement routes
+ */
+export default async function achievementRoutes(server: FastifyInstance) {
+  const HouseholdParamsSchema = z.object({
+    householdId: z.string().uuid(),
+  });
+
+  const AchievementParamsSchema = z.object({
+    householdId: z.string().uuid(),
+    achievementId: z.string().uuid(),
+  });
+
+  server.get('/api/households/:householdId/achievements', {
+    schema: stripResponseValidation({
+      summary: 'List achievements',
+      description:
+        'Built-in achievements (localized via Accept-Language) followed by the achievements created by the household',
+      tags: ['stats'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(HouseholdParamsSchema),
+      response: {
+        200: zodToOpenAPI(AchievementListResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [authenticateUser, validateHouseholdMembership],
+    handler: getAchievements,
+  });
+
+  server.post('/api/households/:householdId/achievements', {
+    schema: stripResponseValidation({
+      summary: 'Create achievement',
+      description:
+        'Create a household achievement, unlocked once a child reaches its threshold; task_completions achievements count one task',
+      tags: ['stats'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(HouseholdParamsSchema),
+      body: zodToOpenAPI(CreateAchievementRequestSchema),
+      response: {
+        201: zodToOpenAPI(AchievementSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('rewards.manage'),
+    ],
+    handler: createAchievement,
+  });
+
+  server.delete('/api/households/:householdId/achievements/:achievementId', {
+    schema: stripResponseValidation({
+      summary: 'Delete achievement',
+      description: 'Delete an achievement created by the household, along with its unlocks',
+      tags: ['stats'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(AchievementParamsSchema),
+      response: {
+        204: {
+          type: 'object',
+          properties: {},
+          required: [],
+          description: 'Achievement deleted',
+        },
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('rewards.manage'),
+    ],
+    handler: deleteAchievement,
+  });
+}
@@ -401,5 +401,42 @@ describe('Analytics API', () => {
       );
       assert.strictEqual(childProgress.totalPointsEarned, sumDailyPoints);
     });
+
+    test('should leave days the child was away out of streaks and rates', async () => {
+      const getAnalytics = async () => {
+        const response = await app.inject({
+          method: 'GET',
+          url: `/api/households/${householdId}/analytics?period=all`,
+          headers: { Authorization: `Bearer ${parentToken}` },
+        });
+        assert.strictEqual(response.statusCode, 200);
+        return JSON.parse(response.body);
+      };
+
+      const before = await getAnalytics();
+      const streakBefore = before.streaks.find((s: { childId: string }) => s.childId === childId);
+
+      // Day 3 has the missed task that breaks the streak
+      const missedDay = new Date();
+      missedDay.setDate(missedDay.getDate() - 3);
+      const absence = await pool.query(
+        `INSERT INTO child_absences (household_id, child_id, start_date, end_date)
+         VALUES ($1, $2, $3, $3) RETURNING id`,
+        [householdId, childId, missedDay.toISOString().split('T')[0]],
+      );
+
+      try {
+        const after = await getAnalytics();
+        const streakAfter = after.streaks.find((s: { childId: string }) => s.childId === childId);
+
+        assert.ok(streakAfter.currentStreak > streakBefore.currentStreak);
+        assert.strictEqual(
+          after.periodComparison.current.totalTasks,
+          before.periodComparison.current.totalTasks - 1,
+        );
+      } finally {
+        await pool.query('DELETE FROM child_absences WHERE id = $1', [absence.rows[0].id]);
+      }
+    });
   });
 });
@@ -13,10 +13,15 @@ import {
   type PeriodComparison,
 } from '@st44/types';
 import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import type { Pool, PoolClient } from 'pg';
 import { db } from '../database.js';
 import { authenticateUser } from '../middleware/auth.js';
 import { validateHouseholdMembership } from '../middleware/household-membership.js';
+import { getHouseholdClient } from '../middleware/household-scope.js';
 import { stripResponseValidation } from '../schemas/common.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import { getLocalToday, getWeekStart, getMonthStart, addDays } from '../utils/index.js';
+import type { LateCompletionPolicy } from '../types/database.js';
 
 interface GetAnalyticsRequest {
   Params: {
@@ -35,78 +40,77 @@ interface GetChildAnalyticsRequest {
 
 /**
  * Calculate date range based on period
+ *
+ * @param today - Household's local calendar date (YYYY-MM-DD)
  */
-function getDateRange(period: AnalyticsPeriod): {
+function getDateRange(
+  period: AnalyticsPeriod,
+  today: string,
+): {
   startDate: string;
   endDate: string;
   previousStartDate: string;
   previousEndDate: string;
 } {
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-
-  let startDate: Date;
-  let previousStartDate: Date;
-  let daysDiff: number;
+  let startDate: string;
+  let previousStartDate: string;
 
   if (period === 'week') {
-    // Current week (Monday to Sunday)
-    const dayOfWeek = today.getDay();
-    const mondayOffset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-    startDate = new Date(today);
-    startDate.setDate(today.getDate() + mondayOffset);
-
-    // Previous week
-    previousStartDate = new Date(startDate);
-    previousStartDate.setDate(startDate.getDate() - 7);
-    daysDiff = 7;
+    // Current week (Monday to Sunday) and the previous week
+    startDate = getWeekStart(today);
+    previousStartDate = addDays(startDate, -7);
   } else if (period === 'month') {
-    // Current month
-    startDate = new Date(today.getFullYear(), today.getMonth(), 1);
-
-    // Previous month
-    previousStartDate = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-    daysDiff = 30; // Approximate
+    // Current month and the previous month
+    startDate = getMonthStart(today);
+    previousStartDate = getMonthStart(today, -1);
   } else {
     // All time - last 90 days
-    startDate = new Date(today);
-    startDate.setDate(today.getDate() - 90);
-
-    previousStartDate = new Date(startDate);
-    previousStartDate.setDate(startDate.getDate() - 90);
-    daysDiff = 90;
+    startDate = addDays(today, -90);
+    previousStartDate = addDays(startDate, -90);
   }
 
-  const endDate = new Date(today);
-  endDate.setDate(endDate.getDate() + 1); // Include today
-
-  const previousEndDate = new Date(startDate);
-
   return {
-    startDate: startDate.toISOString().split('T')[0],
-    endDate: endDate.toISOString().split('T')[0],
-    previousStartDate: previousStartDate.toISOString().split('T')[0],
-    previousEndDate: previousEndDate.toISOString().split('T')[0],
+    startDate,
+    endDate: addDays(today, 1), // Include today
+    previousStartDate,
+    previousEndDate: startDate,
   };
 }
 
+/**
+ * SQL condition for an assignment that counts as completed in completion rates
+ * Late completions only count when the household awards them full points;
+ * otherwise they stay missed, like the overdue assignments they were.
+ */
+function completedCondition(policy: LateCompletionPolicy): string {
+  return policy === 'full'
+    ? "status = 'completed'"
+    : "(status = 'completed' AND NOT completed_late)";
+}
+
 /**
  * Calculate current streak for a child
- * A streak is consecutive days with 100% task completion
+ * A streak is consecutive local days with 100% task completion.
+ * Future days are ignored and an unfinished today does not break the streak.
+ * Days the child was away are skipped, so an absence does not break it either.
  */
 async function calculateStreak(
+  executor: Pool | PoolClient,
   childId: string,
   householdId: string,
+  today: string,
+  policy: LateCompletionPolicy,
 ): Promise<{ currentStreak: number; longestStreak: number; lastCompletionDate: string | null }> {
   // Get all dates with task assignments and their completion status
-  const result = await db.query(
+  const result = await executor.query(
     `WITH daily_completion AS (
       SELECT
-        date,
+        date::text as date,
         COUNT(*) as total_tasks,
-        SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed_tasks
+        SUM(CASE WHEN ${completedCondition(policy)} THEN 1 ELSE 0 END) as completed_tasks
       FROM task_assignments
-      WHERE child_id = $1 AND household_id = $2
+      WHERE child_id = $1 AND household_id = $2 AND date <= $3::date
+        AND NOT child_absent_on(child_id, date)
       GROUP BY date
       ORDER BY date DESC
     ),
@@ -122,7 +126,7 @@ async function calculateStreak(
     FROM completion_status
     ORDER BY date DESC
     LIMIT 365`,
-    [childId, householdId],
+    [childId, householdId, today],
   );
 
   let currentStreak = 0;
@@ -134,6 +138,10 @@ async function calculateStreak(
   for (const row of result.rows) {
     const completedAll = row.completed_all === 1;
 
+    if (row.date === today && !completedAll) {
+      continue;
+    }
+
     if (completedAll) {
       tempStreak++;
       if (checkingCurrent) {
@@ -160,36 +168,43 @@ async function getHouseholdAnalytics(
   request: FastifyRequest<GetAnalyticsRequest>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
   const period = (request.query.period || 'week') as AnalyticsPeriod;
 
   try {
-    const { startDate, endDate, previousStartDate, previousEndDate } = getDateRange(period);
+    const households = new HouseholdRepository(client);
+    const today = getLocalToday(await households.getTimezone(householdId));
+    const policy = await households.getLateCompletionPolicy(householdId);
+    const completedSql = completedCondition(policy);
+    const { startDate, endDate, previousStartDate, previousEndDate } = getDateRange(period, today);
 
     // 1. Period Comparison (current vs previous)
-    const currentPeriodResult = await db.query(
+    const currentPeriodResult = await client.query(
       `SELECT
         COUNT(*) as total_tasks,
-        SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed_tasks,
-        SUM(CASE WHEN status = 'completed' THEN t.points ELSE 0 END) as total_points
+        SUM(CASE WHEN ${completedSql} THEN 1 ELSE 0 END) as completed_tasks,
+        SUM(CASE WHEN ${completedSql} THEN t.points ELSE 0 END) as total_points
       FROM task_assignments ta
       JOIN tasks t ON ta.task_id = t.id
       WHERE ta.household_id = $1
         AND ta.date >= $2::date
-        AND ta.date < $3::date`,
+        AND ta.date < $3::date
+        AND NOT child_absent_on(ta.child_id, ta.date)`,
       [householdId, startDate, endDate],
     );
 
-    const previousPeriodResult = await db.query(
+    const previousPeriodResult = await client.query(
       `SELECT
         COUNT(*) as total_tasks,
-        SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed_tasks,
-        SUM(CASE WHEN status = 'completed' THEN t.points ELSE 0 END) as total_points
+        SUM(CASE WHEN ${completedSql} THEN 1 ELSE 0 END) as completed_tasks,
+        SUM(CASE WHEN ${completedSql} THEN t.points ELSE 0 END) as total_points
       FROM task_assignments ta
       JOIN tasks t ON ta.task_id = t.id
       WHERE ta.household_id = $1
         AND ta.date >= $2::date
-        AND ta.date < $3::date`,
+        AND ta.date < $3::date
+        AND NOT child_absent_on(ta.child_id, ta.date)`,
       [householdId, previousStartDate, previousEndDate],
     );
 
@@ -228,7 +243,7 @@ async function getHouseholdAnalytics(
     };
 
     // 2. Children Progress History
-    const childrenResult = await db.query(
+    const childrenResult = await client.query(
       'SELECT id, name FROM children WHERE household_id = $1 ORDER BY name',
       [householdId],
     );
@@ -236,18 +251,19 @@ async function getHouseholdAnalytics(
     const childrenProgress: ChildProgressHistory[] = [];
 
     for (const child of childrenResult.rows) {
-      const dailyDataResult = await db.query(
+      const dailyDataResult = await client.query(
         `SELECT
           ta.date,
           COUNT(*) as total_tasks,
-          SUM(CASE WHEN ta.status = 'completed' THEN 1 ELSE 0 END) as completed_tasks,
-          SUM(CASE WHEN ta.status = 'completed' THEN t.points ELSE 0 END) as points_earned
+          SUM(CASE WHEN ${completedSql} THEN 1 ELSE 0 END) as completed_tasks,
+          SUM(CASE WHEN ${completedSql} THEN t.points ELSE 0 END) as points_earned
         FROM task_assignments ta
         JOIN tasks t ON ta.task_id = t.id
         WHERE ta.child_id = $1
           AND ta.household_id = $2
           AND ta.date >= $3::date
           AND ta.date < $4::date
+          AND NOT child_absent_on(ta.child_id, ta.date)
         GROUP BY ta.date
         ORDER BY ta.date`,
         [child.id, householdId, startDate, endDate],
@@ -285,7 +301,7 @@ async function getHouseholdAnalytics(
     // 3. Streaks for each child
     const streaks: ChildStreak[] = [];
     for (const child of childrenResult.rows) {
-      const streakData = await calculateStreak(child.id, householdId);
+      const streakData = await calculateStreak(client, child.id, householdId, today, policy);
       streaks.push({
         childId: child.id,
         childName: child.name,
@@ -294,17 +310,18 @@ async function getHouseholdAnalytics(
     }
 
     // 4. Task Popularity
-    const taskPopularityResult = await db.query(
+    const taskPopularityResult = await client.query(
       `SELECT
         t.id as task_id,
         t.name as task_name,
         COUNT(ta.id) as total_assignments,
-        SUM(CASE WHEN ta.status = 'completed' THEN 1 ELSE 0 END) as completed_count,
+        SUM(CASE WHEN ${completedSql} THEN 1 ELSE 0 END) as completed_count,
         AVG(t.points) as average_points
       FROM tasks t
       LEFT JOIN task_assignments ta ON t.id = ta.task_id
         AND ta.date >= $2::date
         AND ta.date < $3::date
+        AND NOT child_absent_on(ta.child_id, ta.date)
       WHERE t.household_id = $1 AND t.active = true
       GROUP BY t.id, t.name
       HAVING COUNT(ta.id) > 0
@@ -364,7 +381,6 @@ async function getChildAnalytics(
 
   try {
     const period = (request.query.period || 'week') as AnalyticsPeriod;
-    const { startDate, endDate } = getDateRange(period);
 
     // Get child profile
     const childResult = await db.query(
@@ -384,22 +400,29 @@ async function getChildAnalytics(
     const householdId = child.household_id;
     const childName = child.name;
 
+    const households = new HouseholdRepository(db);
+    const today = getLocalToday(await households.getTimezone(householdId));
+    const policy = await households.getLateCompletionPolicy(householdId);
+    const completedSql = completedCondition(policy);
+    const { startDate, endDate } = getDateRange(period, today);
+
     // Calculate streaks
-    const streakData = await calculateStreak(childId, householdId);
+    const streakData = await calculateStreak(db, childId, householdId, today, policy);
 
     // Get week progress
-    const weekRange = getDateRange('week');
+    const weekRange = getDateRange('week', today);
     const weekProgressResult = await db.query(
       `SELECT
         COUNT(*) as total_tasks,
-        SUM(CASE WHEN ta.status = 'completed' THEN 1 ELSE 0 END) as completed_tasks,
-        SUM(CASE WHEN ta.status = 'completed' THEN t.points ELSE 0 END) as points_earned
+        SUM(CASE WHEN ${completedSql} THEN 1 ELSE 0 END) as completed_tasks,
+        SUM(CASE WHEN ${completedSql} THEN t.points ELSE 0 END) as points_earned
       FROM task_assignments ta
       JOIN tasks t ON ta.task_id = t.id
       WHERE ta.child_id = $1
         AND ta.household_id = $2
         AND ta.date >= $3::date
-        AND ta.date < $4::date`,
+        AND ta.date < $4::date
+        AND NOT child_absent_on(ta.child_id, ta.date)`,
       [childId, householdId, weekRange.startDate, weekRange.endDate],
     );
 
@@ -409,18 +432,19 @@ async function getChildAnalytics(
     const weekPoints = parseInt(weekStats.points_earned || '0', 10);
 
     // Get month progress
-    const monthRange = getDateRange('month');
+    const monthRange = getDateRange('month', today);
     const monthProgressResult = await db.query(
       `SELECT
         COUNT(*) as total_tasks,
-        SUM(CASE WHEN ta.status = 'completed' THEN 1 ELSE 0 END) as completed_tasks,
-        SUM(CASE WHEN ta.status = 'completed' THEN t.points ELSE 0 END) as points_earned
+        SUM(CASE WHEN ${completedSql} THEN 1 ELSE 0 END) as completed_tasks,
+        SUM(CASE WHEN ${completedSql} THEN t.points ELSE 0 END) as points_earned
       FROM task_assignments ta
       JOIN tasks t ON ta.task_id = t.id
       WHERE ta.child_id = $1
         AND ta.household_id = $2
         AND ta.date >= $3::date
-        AND ta.date < $4::date`,
+        AND ta.date < $4::date
+        AND NOT child_absent_on(ta.child_id, ta.date)`,
       [childId, householdId, monthRange.startDate, monthRange.endDate],
     );
 
@@ -434,14 +458,15 @@ async function getChildAnalytics(
       `SELECT
         ta.date,
         COUNT(*) as total_tasks,
-        SUM(CASE WHEN ta.status = 'completed' THEN 1 ELSE 0 END) as completed_tasks,
-        SUM(CASE WHEN ta.status = 'completed' THEN t.points ELSE 0 END) as points_earned
+        SUM(CASE WHEN ${completedSql} THEN 1 ELSE 0 END) as completed_tasks,
+        SUM(CASE WHEN ${completedSql} THEN t.points ELSE 0 END) as points_earned
       FROM task_assignments ta
       JOIN tasks t ON ta.task_id = t.id
       WHERE ta.child_id = $1
         AND ta.household_id = $2
         AND ta.date >= $3::date
         AND ta.date < $4::date
+        AND NOT child_absent_on(ta.child_id, ta.date)
       GROUP BY ta.date
       ORDER BY ta.date`,
       [childId, householdId, startDate, endDate],
@@ -0,0 +1,217 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Assignment Checklist API Tests
+ *
+ * Tasks carry an ordered checklist; each assignment keeps its own ticked
+ * items, which decide the points of tasks that award partial points.
+ */
+
+describe('Assignment Checklists API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let parentToken: string;
+  let parentUserId: string;
+  let childToken: string;
+  let childUserId: string;
+  let otherChildToken: string;
+  let otherChildUserId: string;
+  let householdId: string;
+  let childId: string;
+  let taskId: string;
+  let assignmentId: string;
+  let itemIds: string[];
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const timestamp = Date.now();
+    const parentData = await registerAndLogin(
+      app,
+      `test-checklists-parent-${timestamp}@example.com`,
+      'TestPass123!',
+    );
+    parentToken = parentData.accessToken;
+    parentUserId = parentData.userId;
+
+    const childData = await registerAndLogin(
+      app,
+      `test-checklists-child-${timestamp}@example.com`,
+      'ChildPass123!',
+    );
+    childToken = childData.accessToken;
+    childUserId = childData.userId;
+
+    const otherChildData = await registerAndLogin(
+      app,
+      `test-checklists-other-child-${timestamp}@example.com`,
+      'ChildPass123!',
+    );
+    otherChildToken = otherChildData.accessToken;
+    otherChildUserId = otherChildData.userId;
+
+    householdId = (
+      await pool.query('INSERT INTO households (name) VALUES ($1) RETURNING id', [
+        `Test Checklists Household ${timestamp}`,
+      ])
+    ).rows[0].id;
+
+    await pool.query(
+      `INSERT INTO household_members (household_id, user_id, role)
+       VALUES ($1, $2, 'parent'), ($1, $3, 'child'), ($1, $4, 'child')`,
+      [householdId, parentUserId, childUserId, otherChildUserId],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year, user_id) VALUES ($1, $2, $3, $4) RETURNING id',
+        [householdId, 'Emma', 2017, childUserId],
+      )
+    ).rows[0].id;
+    await pool.query(
+      'INSERT INTO children (household_id, name, birth_year, user_id) VALUES ($1, $2, $3, $4)',
+      [householdId, 'Noah', 2015, otherChildUserId],
+    );
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2, $3)', [
+      parentUserId,
+      childUserId,
+      otherChildUserId,
+    ]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function tick(token: string, itemId: string, checked = true) {
+    return app.inject({
+      method: 'PATCH',
+      url: `/api/assignments/${assignmentId}/checklist`,
+      headers: { Authorization: `Bearer ${token}` },
+      payload: { itemId, checked },
+    });
+  }
+
+  test('should store a checklist with ids on the task', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/tasks`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+      payload: {
+        name: 'Tidy the kitchen',
+        points: 30,
+        ruleType: 'daily',
+        partialPoints: true,
+        checklist: [
+          { label: 'Empty the dishwasher' },
+          { label: 'Wipe the table' },
+          { label: 'Sweep the floor' },
+        ],
+      },
+    });
+
+    assert.strictEqual(response.statusCode, 201);
+    const task = JSON.parse(response.body);
+    assert.strictEqual(task.partialPoints, true);
+    assert.deepStrictEqual(
+      task.checklist.map((item: { label: string }) => item.label),
+      ['Empty the dishwasher', 'Wipe the table', 'Sweep the floor'],
+    );
+    taskId = task.id;
+    itemIds = task.checklist.map((item: { id: string }) => item.id);
+
+    assignmentId = (
+      await pool.query(
+        `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+         VALUES ($1, $2, $3, '2026-10-18', 'pending') RETURNING id`,
+        [householdId, taskId, childId],
+      )
+    ).rows[0].id;
+  });
+
+  test('should let the assigned child tick items', async () => {
+    await tick(childToken, itemIds[0]);
+    const response = await tick(childToken, itemIds[0]);
+
+    assert.strictEqual(response.statusCode, 200);
+    const body = JSON.parse(response.body);
+    assert.strictEqual(body.checkedCount, 1);
+    assert.strictEqual(body.totalCount, 3);
+    assert.deepStrictEqual(
+      body.checklist.map((item: { checked: boolean }) => item.checked),
+      [true, false, false],
+    );
+  });
+
+  test('should let an item be unticked', async () => {
+    await tick(childToken, itemIds[1]);
+    const response = await tick(childToken, itemIds[1], false);
+
+    assert.strictEqual(response.statusCode, 200);
+    assert.strictEqual(JSON.parse(response.body).checkedCount, 1);
+  });
+
+  test('should keep other children out', async () => {
+    const response = await tick(otherChildToken, itemIds[1]);
+
+    assert.strictEqual(response.statusCode, 403);
+  });
+
+  test('should reject items that are not on the task', async () => {
+    const response = await tick(parentToken, 'not-an-item');
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+
+  test('should show the checklist in the child task list', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/children/${childId}/tasks?date=2026-10-18`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 200);
+    const [assignment] = JSON.parse(response.body).assignments;
+    assert.deepStrictEqual(
+      assignment.checklist.map((item: { id: string; checked: boolean }) => [item.id, item.checked]),
+      [
+        [itemIds[0], true],
+        [itemIds[1], false],
+        [itemIds[2], false],
+      ],
+    );
+  });
+
+  test('should award points for the ticked share of the checklist', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/assignments/${assignmentId}/complete`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 200);
+    assert.strictEqual(JSON.parse(response.body).completion.pointsEarned, 10);
+  });
+
+  test('should not change the checklist of a completed assignment', async () => {
+    const response = await tick(childToken, itemIds[2]);
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+});
@@ -0,0 +1,207 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Assignment Comments API Tests
+ *
+ * Parents and the assigned child share a comment thread per assignment;
+ * notes given when completing an assignment end up in the same thread.
+ */
+
+describe('Assignment Comments API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let parentToken: string;
+  let parentUserId: string;
+  let childToken: string;
+  let childUserId: string;
+  let otherChildToken: string;
+  let otherChildUserId: string;
+  let householdId: string;
+  let assignmentId: string;
+  let otherAssignmentId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const timestamp = Date.now();
+    const parentData = await registerAndLogin(
+      app,
+      `test-comments-parent-${timestamp}@example.com`,
+      'TestPass123!',
+    );
+    parentToken = parentData.accessToken;
+    parentUserId = parentData.userId;
+    await pool.query('UPDATE users SET first_name = $1 WHERE id = $2', ['Kari', parentUserId]);
+
+    const childData = await registerAndLogin(
+      app,
+      `test-comments-child-${timestamp}@example.com`,
+      'ChildPass123!',
+    );
+    childToken = childData.accessToken;
+    childUserId = childData.userId;
+
+    const otherChildData = await registerAndLogin(
+      app,
+      `test-comments-other-child-${timestamp}@example.com`,
+      'ChildPass123!',
+    );
+    otherChildToken = otherChildData.accessToken;
+    otherChildUserId = otherChildData.userId;
+
+    householdId = (
+      await pool.query('INSERT INTO households (name) VALUES ($1) RETURNING id', [
+        `Test Comments Household ${timestamp}`,
+      ])
+    ).rows[0].id;
+
+    await pool.query(
+      `INSERT INTO household_members (household_id, user_id, role)
+       VALUES ($1, $2, 'parent'), ($1, $3, 'child'), ($1, $4, 'child')`,
+      [householdId, parentUserId, childUserId, otherChildUserId],
+    );
+
+    const childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year, user_id) VALUES ($1, $2, $3, $4) RETURNING id',
+        [householdId, 'Emma', 2015, childUserId],
+      )
+    ).rows[0].id;
+    const otherChildId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year, user_id) VALUES ($1, $2, $3, $4) RETURNING id',
+        [householdId, 'Noah', 2017, otherChildUserId],
+      )
+    ).rows[0].id;
+
+    const taskId = (
+      await pool.query(
+        `INSERT INTO tasks (household_id, name, points, rule_type)
+         VALUES ($1, 'Wash the car', 20, 'daily') RETURNING id`,
+        [householdId],
+      )
+    ).rows[0].id;
+
+    const assignments = await pool.query(
+      `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+       VALUES ($1, $2, $3, '2026-10-18', 'pending'), ($1, $2, $4, '2026-10-18', 'pending')
+       RETURNING id, child_id`,
+      [householdId, taskId, childId, otherChildId],
+    );
+    assignmentId = assignments.rows.find((r) => r.child_id === childId).id;
+    otherAssignmentId = assignments.rows.find((r) => r.child_id === otherChildId).id;
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2, $3)', [
+      parentUserId,
+      childUserId,
+      otherChildUserId,
+    ]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function postComment(token: string, id: string, body: string) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/assignments/${id}/comments`,
+      headers: { Authorization: `Bearer ${token}` },
+      payload: { body },
+    });
+  }
+
+  async function listComments(token: string, id: string) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/assignments/${id}/comments`,
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  test('should let a parent leave instructions', async () => {
+    const response = await postComment(parentToken, assignmentId, '  Use the blue bucket  ');
+
+    assert.strictEqual(response.statusCode, 201);
+    const comment = JSON.parse(response.body);
+    assert.strictEqual(comment.body, 'Use the blue bucket');
+    assert.strictEqual(comment.authorRole, 'parent');
+    assert.strictEqual(comment.authorName, 'Kari');
+  });
+
+  test('should let the assigned child read and answer the thread', async () => {
+    const answer = await postComment(childToken, assignmentId, 'OK!');
+    assert.strictEqual(answer.statusCode, 201);
+    assert.strictEqual(JSON.parse(answer.body).authorName, 'Emma');
+
+    const response = await listComments(childToken, assignmentId);
+
+    assert.strictEqual(response.statusCode, 200);
+    const { comments } = JSON.parse(response.body);
+    assert.deepStrictEqual(
+      comments.map((c: { body: string }) => c.body),
+      ['Use the blue bucket', 'OK!'],
+    );
+    assert.ok(!response.body.includes('@example.com'));
+  });
+
+  test('should keep other children out of the thread', async () => {
+    const list = await listComments(otherChildToken, assignmentId);
+    const post = await postComment(otherChildToken, assignmentId, 'Hi');
+
+    assert.strictEqual(list.statusCode, 403);
+    assert.strictEqual(post.statusCode, 403);
+  });
+
+  test('should reject a comment with nothing visible in it', async () => {
+    const response = await postComment(parentToken, assignmentId, '\u200b\u200b');
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+
+  test('should store the completion note as a comment', async () => {
+    const completed = await app.inject({
+      method: 'PUT',
+      url: `/api/assignments/${otherAssignmentId}/complete`,
+      headers: { Authorization: `Bearer ${otherChildToken}` },
+      payload: { note: 'The car was very dirty' },
+    });
+    assert.strictEqual(completed.statusCode, 200);
+
+    const { comments } = JSON.parse((await listComments(parentToken, otherAssignmentId)).body);
+    assert.strictEqual(comments.length, 1);
+    assert.strictEqual(comments[0].body, 'The car was very dirty');
+    assert.strictEqual(comments[0].authorRole, 'child');
+  });
+
+  test('should count comments in the household assignment list', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/assignments?date=2026-10-18&days=1`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 200);
+    const { assignments } = JSON.parse(response.body);
+    const counts = Object.fromEntries(
+      assignments.map((a: { id: string; commentCount: number }) => [a.id, a.commentCount]),
+    );
+    assert.strictEqual(counts[assignmentId], 2);
+    assert.strictEqual(counts[otherAssignmentId], 1);
+  });
+});
@@ -0,0 +1,194 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  AssignmentCommentListResponseSchema,
+  AssignmentCommentSchema,
+  CreateAssignmentCommentRequestSchema,
+  type AssignmentCommentListResponse,
+} from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { db, pool } from '../database.js';
+import { authenticateUser } from '../middleware/auth.js';
+import { validateRequest, normalizeCommentBody, withTransaction } from '../utils/index.js';
+import { stripResponseValidation } from '../schemas/common.js';
+import { AssignmentCommentRepository } from '../repositories/assignment-comment.repository.js';
+import { hasPermission } from '../services/authorization.service.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import type { HouseholdRole } from '../types/database.js';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from '../errors/index.js';
+
+/**
+ * Assignment comment threads
+ *
+ * Parents leave instructions ("use the blue bucket") and children answer or
+ * explain. Children only see the threads of their own assignments.
+ */
+
+const AssignmentParamsSchema = z.object({
+  assignmentId: z.string().uuid(),
+});
+
+interface CommentAccess {
+  householdId: string;
+  userId: string;
+  role: HouseholdRole;
+}
+
+/**
+ * Check the user may read and write the thread of an assignment
+ */
+async function getCommentAccess(
+  request: FastifyRequest,
+  assignmentId: string,
+): Promise<CommentAccess> {
+  const userId = request.user?.userId;
+  if (!userId) {
+    throw new AuthenticationError('Authentication required');
+  }
+
+  const result = await db.query<{
+    household_id: string;
+    child_id: string | null;
+    role: HouseholdRole | null;
+    own_child_id: string | null;
+  }>(
+    `SELECT ta.household_id, ta.child_id, hm.role, c.id AS own_child_id
+     FROM task_assignments ta
+     LEFT JOIN household_members hm ON hm.household_id = ta.household_id AND hm.user_id = $2
+     LEFT JOIN children c ON c.household_id = ta.household_id AND c.user_id = $2
+     WHERE ta.id = $1`,
+    [assignmentId, userId],
+  );
+
+  const assignment = result.rows[0];
+  if (!assignment) {
+    throw new NotFoundError('Assignment not found', 'Assignment', assignmentId);
+  }
+  if (!assignment.role) {
+    throw new AuthorizationError('You are not a member of this household');
+  }
+  // SECURITY: Children only take part in the threads of their own assignments
+  if (
+    !hasPermission(assignment.role, 'assignments.complete_any') &&
+    (!assignment.child_id || assignment.child_id !== assignment.own_child_id)
+  ) {
+    throw new AuthorizationError('You can only comment on your own tasks');
+  }
+
+  return { householdId: assignment.household_id, userId, role: assignment.role };
+}
+
+/**
+ * GET /api/assignments/:assignmentId/comments - The thread, oldest first
+ */
+async function listComments(
+  request: FastifyRequest<{ Params: { assignmentId: string } }>,
+  reply: FastifyReply,
+) {
+  const { assignmentId } = validateRequest(AssignmentParamsSchema, request.params);
+  await getCommentAccess(request, assignmentId);
+
+  const response: AssignmentCommentListResponse = {
+    comments: await new AssignmentCommentRepository(db).findByAssignment(assignmentId),
+  };
+  return reply.send(response);
+}
+
+/**
+ * POST /api/assignments/:assignmentId/comments - Add to the thread
+ */
+async function createComment(
+  request: FastifyRequest<{ Params: { assignmentId: string } }>,
+  reply: FastifyReply,
+) {
+  const { assignmentId } = validateRequest(AssignmentParamsSchema, request.params);
+  const data = validateRequest(CreateAssignmentCommentRequestSchema, request.body);
+  const access = await getCommentAccess(request, assignmentId);
+
+  const body = normalizeCommentBody(data.body);
+  if (!body) {
+    throw new ValidationError('Comment cannot be empty', [
+      { path: 'body', message: 'Comment cannot be empty' },
+    ]);
+  }
+
+  const comment = await withTransaction(pool, async (client) => {
+    const created = await new AssignmentCommentRepository(client).create({
+      householdId: access.householdId,
+      assignmentId,
+      authorUserId: access.userId,
+      authorRole: access.role,
+      body,
+    });
+
+    await recordAuditEvent(
+      request,
+      {
+        householdId: access.householdId,
+        action: 'assignment.commented',
+        entityId: assignmentId,
+        after: { commentId: created.id, body },
+      },
+      client,
+    );
+
+    return created;
+  });
+
+  return reply.status(201).send(comment);
+}
+
+// OpenAPI schemas
+const listCommentsSchema = stripResponseValidation({
+  summary: 'List assignment comments',
+  description: 'Comment thread of an assignment, oldest first',
+  tags: ['assignments'],
+  security: [{ bearerAuth: [] }],
+  params: zodToOpenAPI(AssignmentParamsSchema),
+  response: {
+    200: zodToOpenAPI(AssignmentCommentListResponseSchema),
+    ...CommonErrors.BadRequest,
+    ...CommonErrors.Unauthorized,
+    ...CommonErrors.Forbidden,
+    ...CommonErrors.NotFound,
+    ...CommonErrors.InternalServerError,
+  },
+});
+
+const createCommentSchema = stripResponseValidation({
+  summary: 'Comment on an assignment',
+  description:
+    'Add a plain-text comment to the thread of an assignment. Children can only comment on their own assignments.',
+  tags: ['assignments'],
+  security: [{ bearerAuth: [] }],
+  params: zodToOpenAPI(AssignmentParamsSchema),
+  body: zodToOpenAPI(CreateAssignmentCommentRequestSchema),
+  response: {
+    201: zodToOpenAPI(AssignmentCommentSchema),
+    ...CommonErrors.BadRequest,
+    ...CommonErrors.Unauthorized,
+    ...CommonErrors.Forbidden,
+    ...CommonErrors.NotFound,
+    ...CommonErrors.InternalServerError,
+  },
+});
+
+export default async function assignmentCommentRoutes(fastify: FastifyInstance): Promise<void> {
+  // GET /api/assignments/:assignmentId/comments - Thread of an assignment
+  fastify.get('/api/assignments/:assignmentId/comments', {
+    preHandler: [authenticateUser],
+    schema: listCommentsSchema,
+    handler: listComments,
+  });
+
+  // POST /api/assignments/:assignmentId/comments - Add a comment
+  fastify.post('/api/assignments/:assignmentId/comments', {
+    preHandler: [authenticateUser],
+    schema: createCommentSchema,
+    handler: createComment,
+  });
+}
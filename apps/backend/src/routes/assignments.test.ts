@@ -4,6 +4,8 @@ import { build } from '../server.js';
 import type { FastifyInstance } from 'fastify';
 import pg from 'pg';
 import { registerAndLogin } from '../test-helpers/auth.js';
+import { setPhotoStorage } from '../services/photo-storage.service.js';
+import { purgeExpiredPhotos } from '../services/photo-purge-job.js';
 
 /**
  * Assignment API Integration Tests
@@ -350,6 +352,56 @@ describe('Assignments API', () => {
     });
   });
 
+  describe('GET /api/households/:householdId/assignments/generation-runs', () => {
+    // Earlier generation tests leave runs behind
+    beforeEach(async () => {
+      await pool.query('DELETE FROM assignment_generation_runs WHERE household_id = $1', [
+        householdId,
+      ]);
+    });
+
+    afterEach(async () => {
+      await pool.query('DELETE FROM assignment_generation_runs WHERE household_id = $1', [
+        householdId,
+      ]);
+    });
+
+    test('manual generation is recorded as a run', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/api/admin/tasks/generate-assignments',
+        headers: { Authorization: `Bearer ${adminToken}` },
+        payload: { householdId, startDate: '2025-03-01', days: 3 },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/assignments/generation-runs`,
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 200);
+
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.runs.length, 1);
+      assert.strictEqual(body.runs[0].trigger, 'manual');
+      assert.strictEqual(body.runs[0].startDate, '2025-03-01');
+      assert.strictEqual(body.runs[0].days, 3);
+      assert.strictEqual(body.runs[0].created, 3);
+      assert.deepStrictEqual(body.runs[0].errors, []);
+    });
+
+    test('non-member cannot list runs', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/assignments/generation-runs`,
+        headers: { Authorization: `Bearer ${outsiderToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 403);
+    });
+  });
+
   // ==================== Test Suite 8: GET /api/households/:householdId/assignments ====================
 
   describe('GET /api/households/:householdId/assignments', () => {
@@ -1132,6 +1184,39 @@ describe('Assignments API', () => {
       assert.strictEqual(completionDbResult.rows[0].points_earned, 10);
     });
 
+    test('caregiver can complete for a child but not reassign', async () => {
+      const caregiver = await registerAndLogin(
+        app,
+        `test-assignments-caregiver-${Date.now()}@example.com`,
+        'TestPass123!',
+      );
+      await pool.query(
+        `INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, 'caregiver')`,
+        [householdId, caregiver.userId],
+      );
+
+      const reassignResponse = await app.inject({
+        method: 'PUT',
+        url: `/api/assignments/${assignmentId}/reassign`,
+        headers: { Authorization: `Bearer ${caregiver.accessToken}` },
+        payload: { childId: childIds[1] },
+      });
+      assert.strictEqual(reassignResponse.statusCode, 403);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/assignments/${assignmentId}/complete`,
+        headers: { Authorization: `Bearer ${caregiver.accessToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 200);
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.taskAssignment.status, 'completed');
+      assert.strictEqual(body.completion.approvalStatus, 'approved');
+
+      await pool.query('DELETE FROM household_members WHERE user_id = $1', [caregiver.userId]);
+    });
+
     test('idempotent - returns existing completion if already completed', async () => {
       // First completion
       const response1 = await app.inject({
@@ -1304,6 +1389,147 @@ describe('Assignments API', () => {
       assert.ok(typeof body.completion.pointsEarned === 'number');
       assert.ok(body.completion.completedAt);
     });
+    describe('photo proof', () => {
+      const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46]);
+      let photos: Map<string, Buffer>;
+
+      before(async () => {
+        photos = new Map();
+        setPhotoStorage({
+          putObject: async (key, body) => {
+            photos.set(key, body);
+          },
+          getObject: async (key) => photos.get(key) ?? null,
+          deleteObject: async (key) => {
+            photos.delete(key);
+          },
+        });
+        await pool.query('UPDATE tasks SET requires_photo = true WHERE id = $1', [taskId]);
+      });
+
+      after(async () => {
+        setPhotoStorage(undefined);
+        await pool.query('UPDATE tasks SET requires_photo = false WHERE id = $1', [taskId]);
+      });
+
+      function completeWithPhoto(token: string, body: Buffer, contentType = 'image/jpeg') {
+        return app.inject({
+          method: 'POST',
+          url: `/api/assignments/${assignmentId}/complete`,
+          headers: { Authorization: `Bearer ${token}`, 'Content-Type': contentType },
+          payload: body,
+        });
+      }
+
+      test('child must send a photo', async () => {
+        const response = await app.inject({
+          method: 'POST',
+          url: `/api/assignments/${assignmentId}/complete`,
+          headers: { Authorization: `Bearer ${childToken}` },
+        });
+
+        assert.strictEqual(response.statusCode, 400);
+        assert.ok(JSON.parse(response.body).error.includes('photo is required'));
+      });
+
+      test('parents must send a photo too', async () => {
+        const response = await app.inject({
+          method: 'POST',
+          url: `/api/assignments/${assignmentId}/complete`,
+          headers: { Authorization: `Bearer ${parentToken}` },
+        });
+
+        assert.strictEqual(response.statusCode, 400);
+        assert.ok(JSON.parse(response.body).error.includes('photo is required'));
+      });
+
+      test('stores the photo and shows it to parents', async () => {
+        const response = await completeWithPhoto(childToken, JPEG);
+
+        assert.strictEqual(response.statusCode, 200);
+        const body = JSON.parse(response.body);
+        assert.strictEqual(body.completion.hasPhoto, true);
+        assert.deepStrictEqual(photos.get(`${householdId}/${body.completion.id}.jpg`), JPEG);
+
+        const photo = await app.inject({
+          method: 'GET',
+          url: `/api/households/${householdId}/assignments/${assignmentId}/photo`,
+          headers: { Authorization: `Bearer ${parentToken}` },
+        });
+        assert.strictEqual(photo.statusCode, 200);
+        assert.strictEqual(photo.headers['content-type'], 'image/jpeg');
+        assert.deepStrictEqual(photo.rawPayload, JPEG);
+      });
+
+      test('rejects files that are not the image they claim to be', async () => {
+        const response = await completeWithPhoto(childToken, Buffer.from('<svg/>'), 'image/png');
+
+        assert.strictEqual(response.statusCode, 400);
+      });
+
+      test('rejects unsupported image types', async () => {
+        const response = await completeWithPhoto(childToken, Buffer.from('GIF89a'), 'image/gif');
+
+        assert.strictEqual(response.statusCode, 415);
+      });
+
+      test('hides photos from outsiders', async () => {
+        await completeWithPhoto(childToken, JPEG);
+
+        const response = await app.inject({
+          method: 'GET',
+          url: `/api/households/${householdId}/assignments/${assignmentId}/photo`,
+          headers: { Authorization: `Bearer ${outsiderToken}` },
+        });
+
+        assert.strictEqual(response.statusCode, 403);
+      });
+
+      test('purges photos after the retention period', async () => {
+        await completeWithPhoto(childToken, JPEG);
+
+        const inAYear = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+        const storage = {
+          putObject: async () => {},
+          getObject: async () => null,
+          deleteObject: async (key: string) => {
+            photos.delete(key);
+          },
+        };
+        const summary = await purgeExpiredPhotos(30, storage, inAYear);
+        assert.ok(summary.purged >= 1);
+        assert.strictEqual(photos.size, 0);
+
+        const response = await app.inject({
+          method: 'GET',
+          url: `/api/households/${householdId}/assignments/${assignmentId}/photo`,
+          headers: { Authorization: `Bearer ${parentToken}` },
+        });
+        assert.strictEqual(response.statusCode, 410);
+      });
+
+      test('purges photos of deleted completions', async () => {
+        const response = await completeWithPhoto(childToken, JPEG);
+        const key = `${householdId}/${JSON.parse(response.body).completion.id}.jpg`;
+        assert.ok(photos.has(key));
+
+        await pool.query('DELETE FROM task_assignments WHERE id = $1', [assignmentId]);
+
+        const inTwoHours = new Date(Date.now() + 2 * 60 * 60 * 1000);
+        const storage = {
+          putObject: async () => {},
+          getObject: async () => null,
+          deleteObject: async (deleted: string) => {
+            photos.delete(deleted);
+          },
+        };
+        await purgeExpiredPhotos(30, storage, inTwoHours);
+
+        assert.strictEqual(photos.has(key), false);
+        const listed = await pool.query('SELECT 1 FROM photo_objects WHERE key = $1', [key]);
+        assert.strictEqual(listed.rows.length, 0);
+      });
+    });
   });
 
   // ==================== Test Suite 10: PUT /api/assignments/:assignmentId/reassign ====================
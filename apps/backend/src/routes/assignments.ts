@@ -1,19 +1,58 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
+import {
+  CompleteAssignmentRequestSchema,
+  CompletionPhotoContentTypeSchema,
+  UpdateAssignmentChecklistRequestSchema,
+} from '@st44/types';
 import { authenticateUser } from '../middleware/auth.js';
-import { validateHouseholdMembership } from '../middleware/household-membership.js';
+import {
+  validateHouseholdMembership,
+  requireHouseholdPermission,
+} from '../middleware/household-membership.js';
 import { pool } from '../database.js';
-import { generateAssignments } from '../services/assignment-generator.js';
-import { withTransaction, validateBody, validateParams, validateQuery } from '../utils/index.js';
+import { getHouseholdClient, runAfterCommit } from '../middleware/household-scope.js';
+import { generateAndRecordAssignments } from '../services/assignment-generation-job.js';
+import { AssignmentGenerationRunRepository } from '../repositories/assignment-generation-run.repository.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import { PointsTransactionRepository } from '../repositories/points-transaction.repository.js';
+import { AssignmentCommentRepository } from '../repositories/assignment-comment.repository.js';
+import { hasPermission } from '../services/authorization.service.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { unlockAchievements } from '../services/achievement.service.js';
+import { publishHouseholdEvent } from '../services/household-events.service.js';
+import { notifySavingsGoalsAffordable } from '../services/notification.service.js';
+import { getPhotoStorage, getPhotoStorageConfig } from '../services/photo-storage.service.js';
+import {
+  withTransaction,
+  validateBody,
+  validateParams,
+  validateQuery,
+  getLocalToday,
+  addDays,
+  detectImageType,
+  buildPhotoKey,
+  normalizeCommentBody,
+  parseChecklist,
+  parseCheckedItems,
+  buildAssignmentChecklist,
+  calculateChecklistPoints,
+  isLateCompletionAllowed,
+  calculateLatePoints,
+} from '../utils/index.js';
+import type { LateCompletionPolicy } from '../types/database.js';
 import {
   getChildTasksSchema,
   getHouseholdAssignmentsSchema,
   completeAssignmentSchema,
   postCompleteAssignmentSchema,
+  updateAssignmentChecklistSchema,
+  getCompletionPhotoSchema,
   reassignTaskSchema,
   generateAssignmentsSchema,
   generateHouseholdAssignmentsSchema,
   createManualAssignmentSchema,
+  listGenerationRunsSchema,
 } from '../schemas/assignments.js';
 import {
   uuidSchema,
@@ -39,11 +78,46 @@ class TransactionValidationError extends Error {
   }
 }
 
+/**
+ * Task and household settings that decide what completing an assignment is worth
+ */
+interface CompletionPointsSource {
+  status: string;
+  points: number;
+  checklist: unknown;
+  partial_points: boolean;
+  late_completion_policy: LateCompletionPolicy;
+  late_points_percent: number;
+}
+
+/**
+ * Points earned for completing an assignment: the checklist share of the
+ * task's points, reduced by the household's policy when it is overdue
+ */
+function calculateCompletionPoints(assignment: CompletionPointsSource, checkedItems: unknown) {
+  const points = calculateChecklistPoints(
+    assignment.points,
+    parseChecklist(assignment.checklist),
+    parseCheckedItems(checkedItems),
+    assignment.partial_points,
+  );
+
+  return assignment.status === 'overdue'
+    ? calculateLatePoints(points, assignment.late_completion_policy, assignment.late_points_percent)
+    : points;
+}
+
 // Schema for assignment ID param
 const assignmentIdParamSchema = z.object({
   assignmentId: uuidSchema,
 });
 
+// Schema for household + assignment ID params
+const householdAssignmentParamSchema = z.object({
+  householdId: uuidSchema,
+  assignmentId: uuidSchema,
+});
+
 // Schema for child ID param
 const childIdParamSchema = z.object({
   childId: uuidSchema,
@@ -52,7 +126,7 @@ const childIdParamSchema = z.object({
 // Schema for child tasks query
 const childTasksQuerySchema = z.object({
   date: dateSchema.optional(),
-  status: z.enum(['pending', 'completed', 'overdue']).optional(),
+  status: z.enum(['pending', 'pending_review', 'completed', 'overdue']).optional(),
 });
 
 // Schema for household assignments query
@@ -60,7 +134,7 @@ const householdAssignmentsQuerySchema = z.object({
   date: dateSchema.optional(),
   days: z.coerce.number().int().positive().max(30).optional(),
   childId: uuidSchema.optional(),
-  status: z.enum(['pending', 'completed', 'overdue']).optional(),
+  status: z.enum(['pending', 'pending_review', 'completed', 'overdue']).optional(),
 });
 
 // Schema for generate household assignments body
@@ -69,6 +143,11 @@ const generateHouseholdAssignmentsBodySchema = z.object({
   taskId: uuidSchema.optional(),
 });
 
+// Schema for generation runs query
+const generationRunsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).optional(),
+});
+
 // Type interfaces (validation is done via Zod schemas)
 interface GenerateAssignmentsBody {
   householdId: string;
@@ -88,6 +167,13 @@ interface Assignment {
 }
 
 export default async function assignmentRoutes(fastify: FastifyInstance) {
+  // Photo proof is uploaded as the raw image body; other types get 415, larger bodies 413
+  fastify.addContentTypeParser(
+    CompletionPhotoContentTypeSchema.options,
+    { parseAs: 'buffer', bodyLimit: getPhotoStorageConfig().maxBytes },
+    (_request, body, done) => done(null, body),
+  );
+
   /**
    * POST /api/admin/tasks/generate-assignments
    * Manually trigger assignment generation for a household
@@ -120,16 +206,30 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
 
         const role = membershipResult.rows[0].role;
 
-        // Must be admin or parent role
-        if (role !== 'admin' && role !== 'parent') {
+        if (!hasPermission(role, 'assignments.manage')) {
           return reply.code(403).send({
-            error: 'Admin or parent role required for this action',
+            error: 'Your role does not allow generating assignments',
           });
         }
 
         // Call assignment generator service
         const startDateObj = new Date(startDate);
-        const result = await generateAssignments(householdId, startDateObj, days);
+        const result = await generateAndRecordAssignments(
+          householdId,
+          startDateObj,
+          days,
+          'manual',
+        );
+
+        await recordAuditEvent(
+          request,
+          {
+            householdId,
+            action: 'assignment.generated',
+            after: { startDate, days, created: result.created, skipped: result.skipped },
+          },
+          pool,
+        );
 
         return reply.code(200).send({
           success: true,
@@ -169,18 +269,21 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
     },
     async (request, reply) => {
       try {
+        const client = getHouseholdClient(request);
+
         // Validate params with Zod schema
         const { householdId } = validateParams(householdIdParamSchema, request);
 
         // Validate body with Zod schema (optional fields)
         const { date, taskId } = validateBody(generateHouseholdAssignmentsBodySchema, request);
 
-        // Default date to today if not provided
-        const targetDate = date || new Date().toISOString().split('T')[0];
+        // Default date to the household's local today if not provided
+        const targetDate =
+          date || getLocalToday(await new HouseholdRepository(client).getTimezone(householdId));
 
         // Authorization already handled by validateHouseholdMembership middleware
         // Additional check: Must be admin or parent role
-        const membershipResult = await pool.query(
+        const membershipResult = await client.query(
           'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
           [householdId, request.user?.userId],
         );
@@ -193,19 +296,35 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
 
         const role = membershipResult.rows[0].role;
 
-        // Must be admin or parent role
-        if (role !== 'admin' && role !== 'parent') {
+        if (!hasPermission(role, 'assignments.manage')) {
           return reply.code(403).send({
-            error: 'Admin or parent role required for this action',
+            error: 'Your role does not allow generating assignments',
           });
         }
 
         // Call assignment generator service
         const startDateObj = new Date(targetDate);
-        const result = await generateAssignments(householdId, startDateObj, 1);
+        const result = await generateAndRecordAssignments(
+          householdId,
+          startDateObj,
+          1,
+          'manual',
+          client,
+        );
+
+        await recordAuditEvent(request, {
+          householdId,
+          action: 'assignment.generated',
+          after: {
+            startDate: targetDate,
+            days: 1,
+            created: result.created,
+            skipped: result.skipped,
+          },
+        });
 
         // Fetch generated assignments to return in response
-        const assignmentsResult = await pool.query<{
+        const assignmentsResult = await client.query<{
           id: string;
           task_id: string;
           child_id: string | null;
@@ -248,6 +367,48 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
     },
   );
 
+  /**
+   * GET /api/households/:householdId/assignments/generation-runs
+   * List recent assignment generation runs (scheduled and manual) for a household
+   */
+  fastify.get<{
+    Params: { householdId: string };
+    Querystring: { limit?: string };
+  }>(
+    '/api/households/:householdId/assignments/generation-runs',
+    {
+      schema: listGenerationRunsSchema,
+      preHandler: [
+        authenticateUser,
+        validateHouseholdMembership,
+        requireHouseholdPermission('assignments.manage'),
+      ],
+    },
+    async (request, reply) => {
+      try {
+        const { householdId } = validateParams(householdIdParamSchema, request);
+        const { limit } = validateQuery(generationRunsQuerySchema, request);
+
+        const runs = await new AssignmentGenerationRunRepository(
+          getHouseholdClient(request),
+        ).findByHousehold(householdId, limit ?? 20);
+
+        return reply.code(200).send({ runs });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return reply.code(400).send({
+            error: 'Validation failed',
+            details: error.issues.map((e) => ({ path: e.path.join('.'), message: e.message })),
+          });
+        }
+        fastify.log.error(error, 'Failed to fetch generation runs');
+        return reply.code(500).send({
+          error: 'Failed to fetch generation runs',
+        });
+      }
+    },
+  );
+
   /**
    * POST /api/assignments/manual
    * Manually create a task assignment for a specific task, child, and date
@@ -285,7 +446,7 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Authorization: Check if user is member of task's household with parent/admin role
+        // Authorization: Check if user is member of task's household and may manage assignments
         const membershipResult = await pool.query(
           'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
           [task.household_id, request.user?.userId],
@@ -299,10 +460,9 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
 
         const role = membershipResult.rows[0].role;
 
-        // Must be admin or parent role
-        if (role !== 'admin' && role !== 'parent') {
+        if (!hasPermission(role, 'assignments.manage')) {
           return reply.code(403).send({
-            error: 'Admin or parent role required for manual assignment',
+            error: 'Your role does not allow manual assignment',
           });
         }
 
@@ -321,23 +481,52 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
         }
 
         // Create the assignment (ON CONFLICT handles idempotency)
-        const insertResult = await pool.query<{
-          id: string;
-          task_id: string;
-          child_id: string | null;
-          date: string;
-          status: string;
-          created_at: string;
-        }>(
-          `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
-           VALUES ($1, $2, $3, $4, 'pending')
-           ON CONFLICT (task_id, child_id, date) WHERE child_id IS NOT NULL DO NOTHING
-           RETURNING id, task_id, child_id, date::text as date, status, created_at::text as created_at`,
-          [task.household_id, taskId, childId || null, date],
-        );
+        const created = await withTransaction(pool, async (client) => {
+          const insertResult = await client.query<{
+            id: string;
+            task_id: string;
+            child_id: string | null;
+            date: string;
+            status: string;
+            created_at: string;
+          }>(
+            `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+             VALUES ($1, $2, $3, $4, 'pending')
+             ON CONFLICT (task_id, child_id, date) WHERE child_id IS NOT NULL DO NOTHING
+             RETURNING id, task_id, child_id, date::text as date, status, created_at::text as created_at`,
+            [task.household_id, taskId, childId || null, date],
+          );
+
+          if (insertResult.rows.length === 0) {
+            return null;
+          }
+
+          const row = insertResult.rows[0];
+          const assignment = {
+            id: row.id,
+            taskId: row.task_id,
+            childId: row.child_id,
+            date: row.date,
+            status: row.status,
+            createdAt: row.created_at,
+          };
+
+          await recordAuditEvent(
+            request,
+            {
+              householdId: task.household_id,
+              action: 'assignment.created',
+              entityId: assignment.id,
+              after: assignment,
+            },
+            client,
+          );
+
+          return assignment;
+        });
 
         // Handle duplicate (conflict)
-        if (insertResult.rows.length === 0) {
+        if (!created) {
           // Check for household-wide conflict if childId is null
           if (!childId) {
             const conflictCheck = await pool.query(
@@ -357,18 +546,20 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
           });
         }
 
-        const assignment = insertResult.rows[0];
+        runAfterCommit(request, () =>
+          publishHouseholdEvent({
+            type: 'assignment.created',
+            householdId: task.household_id,
+            data: {
+              assignmentId: created.id,
+              taskId: created.taskId,
+              childId: created.childId,
+              date: created.date,
+            },
+          }),
+        );
 
-        return reply.code(201).send({
-          assignment: {
-            id: assignment.id,
-            taskId: assignment.task_id,
-            childId: assignment.child_id,
-            date: assignment.date,
-            status: assignment.status,
-            createdAt: assignment.created_at,
-          },
-        });
+        return reply.code(201).send({ assignment: created });
       } catch (error) {
         if (error instanceof z.ZodError) {
           return reply.code(400).send({
@@ -431,10 +622,9 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Default date to today if not provided
+        // Default date to the household's local today if not provided
         if (!date) {
-          const today = new Date();
-          date = today.toISOString().split('T')[0]; // YYYY-MM-DD
+          date = getLocalToday(await new HouseholdRepository(pool).getTimezone(childHouseholdId));
         }
 
         // Build query with optional status filter
@@ -447,10 +637,15 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
             t.rule_type,
             ta.date::text as date,
             ta.status,
-            tc.completed_at::text as completed_at
+            tc.completed_at::text as completed_at,
+            (SELECT COUNT(*)::int FROM assignment_comments ac
+             WHERE ac.task_assignment_id = ta.id) as comment_count,
+            t.checklist,
+            ta.checked_items
           FROM task_assignments ta
           JOIN tasks t ON ta.task_id = t.id
-          LEFT JOIN task_completions tc ON ta.id = tc.task_assignment_id
+          LEFT JOIN task_completions tc
+            ON ta.id = tc.task_assignment_id AND tc.approval_status != 'rejected'
           WHERE ta.child_id = $1 AND ta.date = $2
         `;
 
@@ -476,6 +671,11 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
           date: row.date,
           status: row.status,
           completedAt: row.completed_at || null,
+          commentCount: row.comment_count,
+          checklist: buildAssignmentChecklist(
+            parseChecklist(row.checklist),
+            parseCheckedItems(row.checked_items),
+          ),
         }));
 
         return reply.code(200).send({
@@ -512,25 +712,23 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
     },
     async (request, reply) => {
       try {
+        const client = getHouseholdClient(request);
+
         // Validate params and query with Zod schemas
         const { householdId } = validateParams(householdIdParamSchema, request);
         const queryData = validateQuery(householdAssignmentsQuerySchema, request);
         let { date, days, childId, status } = queryData;
 
-        // Default date to today
+        // Default date to the household's local today
         if (!date) {
-          const today = new Date();
-          date = today.toISOString().split('T')[0]; // YYYY-MM-DD
+          date = getLocalToday(await new HouseholdRepository(client).getTimezone(householdId));
         }
 
         // Default to 7 days if not provided
         const daysNum = days ?? 7;
 
         // Calculate end date
-        const startDate = new Date(date);
-        const endDate = new Date(startDate);
-        endDate.setDate(endDate.getDate() + daysNum - 1);
-        const endDateStr = endDate.toISOString().split('T')[0];
+        const endDateStr = addDays(date, daysNum - 1);
 
         // Build dynamic query with optional filters
         let query = `
@@ -545,11 +743,16 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
             ta.date::text as date,
             ta.status,
             tc.completed_at::text as completed_at,
-            ta.created_at::text as created_at
+            ta.created_at::text as created_at,
+            (SELECT COUNT(*)::int FROM assignment_comments ac
+             WHERE ac.task_assignment_id = ta.id) as comment_count,
+            t.checklist,
+            ta.checked_items
           FROM task_assignments ta
           JOIN tasks t ON ta.task_id = t.id
           LEFT JOIN children c ON ta.child_id = c.id
-          LEFT JOIN task_completions tc ON ta.id = tc.task_assignment_id
+          LEFT JOIN task_completions tc
+            ON ta.id = tc.task_assignment_id AND tc.approval_status != 'rejected'
           WHERE t.household_id = $1
         `;
 
@@ -577,7 +780,7 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
 
         query += ' ORDER BY ta.date ASC, c.name ASC, t.name ASC';
 
-        const result = await pool.query(query, queryParams);
+        const result = await client.query(query, queryParams);
 
         // Transform to expected response format (camelCase to match @st44/types Assignment schema)
         const assignments = result.rows.map((row) => ({
@@ -592,6 +795,11 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
           status: row.status,
           completedAt: row.completed_at || null,
           createdAt: row.created_at,
+          commentCount: row.comment_count,
+          checklist: buildAssignmentChecklist(
+            parseChecklist(row.checklist),
+            parseCheckedItems(row.checked_items),
+          ),
         }));
 
         return reply.code(200).send({
@@ -630,10 +838,17 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
       try {
         // Validate params with Zod schema
         const { assignmentId } = validateParams(assignmentIdParamSchema, request);
+        const { note } = CompleteAssignmentRequestSchema.parse(request.body ?? {});
+        const noteBody = note ? normalizeCommentBody(note) : '';
         // Fetch assignment with household_id for authorization
         const assignmentResult = await pool.query(
-          `SELECT ta.id, ta.household_id, ta.child_id, ta.status, ta.task_id
+          `SELECT ta.id, ta.household_id, ta.child_id, ta.status, ta.task_id, t.points,
+                  (t.requires_approval OR h.requires_approval) as requires_approval,
+                  t.requires_photo, t.checklist, t.partial_points,
+                  h.late_completion_policy, h.late_points_percent
            FROM task_assignments ta
+           JOIN tasks t ON ta.task_id = t.id
+           JOIN households h ON ta.household_id = h.id
            WHERE ta.id = $1`,
           [assignmentId],
         );
@@ -653,14 +868,29 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Check if status is pending
-        if (assignment.status !== 'pending') {
+        if (assignment.status === 'pending_review') {
+          return reply.code(400).send({
+            error: 'Assignment is already awaiting approval',
+          });
+        }
+
+        if (
+          assignment.status === 'overdue' &&
+          !isLateCompletionAllowed(assignment.late_completion_policy)
+        ) {
+          return reply.code(400).send({
+            error: 'Overdue assignments can no longer be completed',
+          });
+        }
+
+        // Check if status is pending (or overdue, see the late completion policy)
+        if (assignment.status !== 'pending' && assignment.status !== 'overdue') {
           return reply.code(400).send({
             error: 'Only pending assignments can be completed',
           });
         }
 
-        // Authorization: Check if user is parent in household OR the assigned child
+        // Authorization: Check if user may complete any assignment OR is the assigned child
         const membershipResult = await pool.query(
           'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
           [assignment.household_id, request.user?.userId],
@@ -673,11 +903,11 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
         }
 
         const userRole = membershipResult.rows[0].role;
-        const isParent = userRole === 'admin' || userRole === 'parent';
+        const canCompleteAny = hasPermission(userRole, 'assignments.complete_any');
 
-        // For child role, verify they are the assigned child
+        // Otherwise, verify they are the assigned child
         // SECURITY: Child can only complete tasks assigned to their child profile
-        if (!isParent && userRole === 'child') {
+        if (!canCompleteAny) {
           if (!assignment.child_id) {
             return reply.code(403).send({
               error: 'Only parents can complete household-wide tasks',
@@ -706,28 +936,156 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
           }
         }
 
-        // Mark assignment as complete
-        const updateResult = await pool.query(
-          `UPDATE task_assignments
-           SET status = 'completed'
-           WHERE id = $1 AND status = 'pending'
-           RETURNING id, status, child_id, task_id`,
-          [assignmentId],
-        );
-
-        if (updateResult.rows.length === 0) {
-          // This shouldn't happen if we checked status above, but handle it
+        // Photo proof can only be uploaded through POST /complete
+        if (assignment.requires_photo) {
           return reply.code(400).send({
-            error: 'Failed to complete assignment - status may have changed',
+            error: 'A photo is required to complete this task',
           });
         }
 
-        const completedAssignment = updateResult.rows[0];
+        // Completions wait for a parent when the task or household requires approval,
+        // whoever completes them; the role only decides whose assignments one may complete
+        if (assignment.requires_approval) {
+          const reviewAssignment = await withTransaction(pool, async (client) => {
+            const updateResult = await client.query(
+              `UPDATE task_assignments
+               SET status = 'pending_review', completed_late = (status = 'overdue')
+               WHERE id = $1 AND status = $2
+               RETURNING id, status, child_id, task_id, checked_items`,
+              [assignmentId, assignment.status],
+            );
+
+            if (updateResult.rows.length === 0) {
+              throw new TransactionValidationError(
+                400,
+                'Failed to complete assignment - status may have changed',
+              );
+            }
+
+            // Record the completion now so approving it credits the points
+            await client.query(
+              `INSERT INTO task_completions
+                 (household_id, task_assignment_id, child_id, completed_at, points_earned, approval_status)
+               VALUES ($1, $2, $3, NOW(), $4, 'pending_review')`,
+              [
+                assignment.household_id,
+                assignmentId,
+                assignment.child_id,
+                calculateCompletionPoints(assignment, updateResult.rows[0].checked_items),
+              ],
+            );
+
+            await recordAuditEvent(
+              request,
+              {
+                householdId: assignment.household_id,
+                action: 'assignment.completed',
+                entityId: assignmentId,
+                before: { status: assignment.status },
+                after: { status: 'pending_review' },
+              },
+              client,
+            );
+
+            if (noteBody) {
+              await new AssignmentCommentRepository(client).create({
+                householdId: assignment.household_id,
+                assignmentId,
+                authorUserId: request.user?.userId,
+                authorRole: userRole,
+                body: noteBody,
+              });
+            }
+
+            return updateResult.rows[0];
+          });
+
+          const completedAt = new Date().toISOString();
+          runAfterCommit(request, () =>
+            publishHouseholdEvent({
+              type: 'assignment.completed',
+              householdId: assignment.household_id,
+              data: {
+                assignmentId,
+                taskId: reviewAssignment.task_id,
+                childId: reviewAssignment.child_id,
+                status: reviewAssignment.status,
+                completedAt,
+              },
+            }),
+          );
+
+          return reply.code(200).send({
+            id: reviewAssignment.id,
+            status: reviewAssignment.status,
+            completedAt,
+            childId: reviewAssignment.child_id,
+            taskId: reviewAssignment.task_id,
+          });
+        }
+
+        // Mark assignment as complete
+        const completedAssignment = await withTransaction(pool, async (client) => {
+          const updateResult = await client.query(
+            `UPDATE task_assignments
+             SET status = 'completed', completed_late = (status = 'overdue')
+             WHERE id = $1 AND status = $2
+             RETURNING id, status, child_id, task_id`,
+            [assignmentId, assignment.status],
+          );
+
+          if (updateResult.rows.length === 0) {
+            // This shouldn't happen if we checked status above, but handle it
+            throw new TransactionValidationError(
+              400,
+              'Failed to complete assignment - status may have changed',
+            );
+          }
+
+          await recordAuditEvent(
+            request,
+            {
+              householdId: assignment.household_id,
+              action: 'assignment.completed',
+              entityId: assignmentId,
+              before: { status: assignment.status },
+              after: { status: 'completed' },
+            },
+            client,
+          );
+
+          if (noteBody) {
+            await new AssignmentCommentRepository(client).create({
+              householdId: assignment.household_id,
+              assignmentId,
+              authorUserId: request.user?.userId,
+              authorRole: userRole,
+              body: noteBody,
+            });
+          }
+
+          return updateResult.rows[0];
+        });
+
+        const completedAt = new Date().toISOString();
+        runAfterCommit(request, () =>
+          publishHouseholdEvent({
+            type: 'assignment.completed',
+            householdId: assignment.household_id,
+            data: {
+              assignmentId,
+              taskId: completedAssignment.task_id,
+              childId: completedAssignment.child_id,
+              status: completedAssignment.status,
+              completedAt,
+            },
+          }),
+        );
 
         return reply.code(200).send({
           id: completedAssignment.id,
           status: completedAssignment.status,
-          completedAt: new Date().toISOString(),
+          completedAt,
           childId: completedAssignment.child_id,
           taskId: completedAssignment.task_id,
         });
@@ -738,6 +1096,11 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
             details: error.issues.map((e) => ({ path: e.path.join('.'), message: e.message })),
           });
         }
+        if (error instanceof TransactionValidationError) {
+          return reply.code(error.statusCode).send({
+            error: error.message,
+          });
+        }
         fastify.log.error(error, 'Failed to complete assignment');
         return reply.code(500).send({
           error: 'Failed to complete assignment',
@@ -764,9 +1127,13 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
         const { assignmentId } = validateParams(assignmentIdParamSchema, request);
         // Fetch assignment with task details for points and authorization
         const assignmentResult = await pool.query(
-          `SELECT ta.id, ta.household_id, ta.child_id, ta.status, ta.task_id, t.points
+          `SELECT ta.id, ta.household_id, ta.child_id, ta.status, ta.task_id, t.points,
+                  (t.requires_approval OR h.requires_approval) as requires_approval,
+                  t.requires_photo, t.checklist, t.partial_points,
+                  h.late_completion_policy, h.late_points_percent
            FROM task_assignments ta
            JOIN tasks t ON ta.task_id = t.id
+           JOIN households h ON ta.household_id = h.id
            WHERE ta.id = $1`,
           [assignmentId],
         );
@@ -779,12 +1146,15 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
 
         const assignment = assignmentResult.rows[0];
 
-        // Check if already completed (idempotent - return existing completion)
-        if (assignment.status === 'completed') {
+        // Check if already completed or awaiting approval (idempotent - return existing completion)
+        if (assignment.status === 'completed' || assignment.status === 'pending_review') {
           const existingCompletion = await pool.query(
-            `SELECT id, points_earned, completed_at
+            `SELECT id, points_earned, completed_at, approval_status,
+                    photo_key IS NOT NULL as has_photo
              FROM task_completions
-             WHERE task_assignment_id = $1`,
+             WHERE task_assignment_id = $1 AND approval_status != 'rejected'
+             ORDER BY completed_at DESC
+             LIMIT 1`,
             [assignmentId],
           );
 
@@ -793,20 +1163,31 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
             return reply.code(200).send({
               taskAssignment: {
                 id: assignment.id,
-                status: 'completed',
+                status: assignment.status,
                 completedAt: completion.completed_at,
               },
               completion: {
                 id: completion.id,
                 pointsEarned: completion.points_earned,
                 completedAt: completion.completed_at,
+                approvalStatus: completion.approval_status,
+                hasPhoto: completion.has_photo,
               },
             });
           }
         }
 
-        // Check if status is pending
-        if (assignment.status !== 'pending') {
+        if (
+          assignment.status === 'overdue' &&
+          !isLateCompletionAllowed(assignment.late_completion_policy)
+        ) {
+          return reply.code(400).send({
+            error: 'Overdue assignments can no longer be completed',
+          });
+        }
+
+        // Check if status is pending (or overdue, see the late completion policy)
+        if (assignment.status !== 'pending' && assignment.status !== 'overdue') {
           return reply.code(400).send({
             error: 'Only pending assignments can be completed',
           });
@@ -825,9 +1206,10 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
         }
 
         const userRole = membershipResult.rows[0].role;
+        const canCompleteAny = hasPermission(userRole, 'assignments.complete_any');
 
-        // If user is a child, verify they own this assignment
-        if (userRole === 'child') {
+        // Otherwise (children), verify they own this assignment
+        if (!canCompleteAny) {
           if (!assignment.child_id) {
             return reply.code(403).send({
               error: 'Only parents can complete household-wide tasks',
@@ -856,15 +1238,37 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
           }
         }
 
+        // Photo proof arrives as the raw body (see the content type parser above)
+        const photo = Buffer.isBuffer(request.body) ? request.body : null;
+        const photoType = photo ? detectImageType(photo) : null;
+
+        if (photo && !photoType) {
+          return reply.code(400).send({
+            error: 'The photo must be a JPEG, PNG or WebP image',
+          });
+        }
+
+        if (!photo && assignment.requires_photo) {
+          return reply.code(400).send({
+            error: 'A photo is required to complete this task',
+          });
+        }
+
+        // Completions wait for a parent when the task or household requires approval,
+        // whoever completes them; the role only decides whose assignments one may complete
+        const needsApproval = assignment.requires_approval === true;
+        const nextStatus = needsApproval ? 'pending_review' : 'completed';
+        const approvalStatus = needsApproval ? 'pending_review' : 'approved';
+
         // Use transaction to ensure atomicity
         const result = await withTransaction(pool, async (client) => {
           // Update assignment status
           const updateResult = await client.query(
             `UPDATE task_assignments
-             SET status = 'completed'
-             WHERE id = $1 AND status = 'pending'
-             RETURNING id, status, child_id, task_id`,
-            [assignmentId],
+             SET status = $2, completed_late = (status = 'overdue')
+             WHERE id = $1 AND status = $3
+             RETURNING id, status, child_id, task_id, checked_items`,
+            [assignmentId, nextStatus, assignment.status],
           );
 
           if (updateResult.rows.length === 0) {
@@ -876,37 +1280,111 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
 
           const completedAssignment = updateResult.rows[0];
           const completedAt = new Date();
+          // Ticked checklist items are read with the status change, so they can't change in between
+          const pointsEarned = calculateCompletionPoints(
+            assignment,
+            completedAssignment.checked_items,
+          );
 
-          // Insert task completion record with points
+          // Insert task completion record with points (only counted once approved)
           const completionResult = await client.query(
-            `INSERT INTO task_completions (household_id, task_assignment_id, child_id, completed_at, points_earned)
-             VALUES ($1, $2, $3, $4, $5)
-             RETURNING id, points_earned, completed_at`,
+            `INSERT INTO task_completions
+               (household_id, task_assignment_id, child_id, completed_at, points_earned, approval_status)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING id, points_earned, completed_at, approval_status`,
             [
               assignment.household_id,
               assignmentId,
               completedAssignment.child_id,
               completedAt,
-              assignment.points,
+              pointsEarned,
+              approvalStatus,
             ],
           );
 
           const completion = completionResult.rows[0];
 
+          // Stored last, so a failed upload rolls the completion back
+          if (photo && photoType) {
+            const photoKey = buildPhotoKey(assignment.household_id, completion.id, photoType);
+            // Listed outside the transaction first, so the purge job also finds
+            // the object if the completion is rolled back or deleted later
+            await pool.query('INSERT INTO photo_objects (key) VALUES ($1) ON CONFLICT DO NOTHING', [
+              photoKey,
+            ]);
+            await getPhotoStorage().putObject(photoKey, photo, photoType);
+            await client.query(
+              `UPDATE task_completions SET photo_key = $1, photo_content_type = $2 WHERE id = $3`,
+              [photoKey, photoType, completion.id],
+            );
+          }
+
+          // Approved right away: credit the points now (otherwise when a parent approves)
+          if (completion.approval_status === 'approved') {
+            await new PointsTransactionRepository(client).recordCompletion({
+              householdId: assignment.household_id,
+              childId: completedAssignment.child_id,
+              taskCompletionId: completion.id,
+              points: completion.points_earned,
+              createdBy: request.user?.userId,
+            });
+            await unlockAchievements(client, {
+              householdId: assignment.household_id,
+              childId: completedAssignment.child_id,
+              taskCompletionId: completion.id,
+            });
+          }
+
+          await recordAuditEvent(
+            request,
+            {
+              householdId: assignment.household_id,
+              action: 'assignment.completed',
+              entityId: assignmentId,
+              before: { status: assignment.status },
+              after: {
+                status: nextStatus,
+                pointsEarned: completion.points_earned,
+                hasPhoto: photo !== null,
+              },
+            },
+            client,
+          );
+
           return {
             taskAssignment: {
               id: completedAssignment.id,
-              status: 'completed' as const,
+              status: nextStatus,
               completedAt: completion.completed_at,
             },
             completion: {
               id: completion.id,
               pointsEarned: completion.points_earned,
               completedAt: completion.completed_at,
+              approvalStatus: completion.approval_status,
+              hasPhoto: photo !== null,
             },
           };
         });
 
+        runAfterCommit(request, () =>
+          publishHouseholdEvent({
+            type: 'assignment.completed',
+            householdId: assignment.household_id,
+            data: {
+              assignmentId,
+              taskId: assignment.task_id,
+              childId: assignment.child_id,
+              status: nextStatus,
+              completedAt: new Date(result.taskAssignment.completedAt).toISOString(),
+            },
+          }),
+        );
+        const childId = assignment.child_id;
+        if (childId && result.completion.approvalStatus === 'approved') {
+          runAfterCommit(request, () => notifySavingsGoalsAffordable(childId));
+        }
+
         return reply.code(200).send(result);
       } catch (error) {
         if (error instanceof z.ZodError) {
@@ -928,6 +1406,235 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
     },
   );
 
+  /**
+   * PATCH /api/assignments/:assignmentId/checklist
+   * Tick or untick one checklist item of a pending (or still completable overdue) assignment
+   */
+  fastify.patch<{
+    Params: { assignmentId: string };
+    Body: { itemId: string; checked: boolean };
+  }>(
+    '/api/assignments/:assignmentId/checklist',
+    {
+      schema: updateAssignmentChecklistSchema,
+      preHandler: [authenticateUser],
+    },
+    async (request, reply) => {
+      try {
+        const { assignmentId } = validateParams(assignmentIdParamSchema, request);
+        const { itemId, checked } = validateBody(UpdateAssignmentChecklistRequestSchema, request);
+
+        const assignmentResult = await pool.query(
+          `SELECT ta.id, ta.household_id, ta.child_id, ta.status, t.checklist,
+                  h.late_completion_policy
+           FROM task_assignments ta
+           JOIN tasks t ON ta.task_id = t.id
+           JOIN households h ON ta.household_id = h.id
+           WHERE ta.id = $1`,
+          [assignmentId],
+        );
+
+        if (assignmentResult.rows.length === 0) {
+          return reply.code(404).send({
+            error: 'Assignment not found',
+          });
+        }
+
+        const assignment = assignmentResult.rows[0];
+
+        // Authorization: the same people who may complete the assignment
+        const membershipResult = await pool.query(
+          'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
+          [assignment.household_id, request.user?.userId],
+        );
+
+        if (membershipResult.rows.length === 0) {
+          return reply.code(403).send({
+            error: 'You are not authorized to update this assignment',
+          });
+        }
+
+        if (!hasPermission(membershipResult.rows[0].role, 'assignments.complete_any')) {
+          const childResult = await pool.query(
+            'SELECT id FROM children WHERE user_id = $1 AND household_id = $2',
+            [request.user?.userId, assignment.household_id],
+          );
+
+          // SECURITY: Children can only tick items on their own assignments
+          if (!assignment.child_id || childResult.rows[0]?.id !== assignment.child_id) {
+            return reply.code(403).send({
+              error: 'You can only update tasks assigned to you',
+            });
+          }
+        }
+
+        // Overdue assignments stay open while the household allows late completions
+        const isOpen =
+          assignment.status === 'pending' ||
+          (assignment.status === 'overdue' &&
+            isLateCompletionAllowed(assignment.late_completion_policy));
+        if (!isOpen) {
+          return reply.code(400).send({
+            error: 'Only pending assignments can be updated',
+          });
+        }
+
+        const checklist = parseChecklist(assignment.checklist);
+        if (!checklist.some((item) => item.id === itemId)) {
+          return reply.code(400).send({
+            error: 'Checklist item not found on this task',
+          });
+        }
+
+        // Add or remove the id in one statement so concurrent ticks don't overwrite each other
+        const updateResult = await withTransaction(pool, async (client) => {
+          const updated = await client.query(
+            `UPDATE task_assignments
+             SET checked_items = CASE
+               WHEN NOT $3::boolean THEN checked_items - $2::text
+               WHEN checked_items ? $2::text THEN checked_items
+               ELSE checked_items || jsonb_build_array($2::text)
+             END
+             WHERE id = $1 AND status = $4
+             RETURNING checked_items`,
+            [assignmentId, itemId, checked, assignment.status],
+          );
+
+          if (updated.rows.length > 0) {
+            await recordAuditEvent(
+              request,
+              {
+                householdId: assignment.household_id,
+                action: 'assignment.checklist_updated',
+                entityId: assignmentId,
+                after: { itemId, checked },
+              },
+              client,
+            );
+          }
+
+          return updated;
+        });
+
+        if (updateResult.rows.length === 0) {
+          return reply.code(400).send({
+            error: 'Only pending assignments can be updated',
+          });
+        }
+
+        const items = buildAssignmentChecklist(
+          checklist,
+          parseCheckedItems(updateResult.rows[0].checked_items),
+        );
+
+        return reply.code(200).send({
+          assignmentId,
+          checklist: items,
+          checkedCount: items.filter((item) => item.checked).length,
+          totalCount: items.length,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return reply.code(400).send({
+            error: 'Validation failed',
+            details: error.issues.map((e) => ({ path: e.path.join('.'), message: e.message })),
+          });
+        }
+        fastify.log.error(error, 'Failed to update assignment checklist');
+        return reply.code(500).send({
+          error: 'Failed to update checklist',
+        });
+      }
+    },
+  );
+
+  /**
+   * GET /api/households/:householdId/assignments/:assignmentId/photo
+   * Photo proof of the latest completion of an assignment
+   */
+  fastify.get<{
+    Params: { householdId: string; assignmentId: string };
+  }>(
+    '/api/households/:householdId/assignments/:assignmentId/photo',
+    {
+      schema: getCompletionPhotoSchema,
+      preHandler: [authenticateUser, validateHouseholdMembership],
+    },
+    async (request, reply) => {
+      try {
+        const client = getHouseholdClient(request);
+        const { householdId, assignmentId } = validateParams(
+          householdAssignmentParamSchema,
+          request,
+        );
+
+        const result = await client.query<{
+          child_id: string;
+          child_user_id: string | null;
+          photo_key: string | null;
+          photo_content_type: string | null;
+        }>(
+          `SELECT tc.child_id, c.user_id as child_user_id, tc.photo_key, tc.photo_content_type
+           FROM task_completions tc
+           JOIN task_assignments ta ON tc.task_assignment_id = ta.id
+           JOIN children c ON tc.child_id = c.id
+           WHERE ta.id = $1 AND ta.household_id = $2
+             AND (tc.photo_key IS NOT NULL OR tc.photo_purged_at IS NOT NULL)
+           ORDER BY tc.completed_at DESC
+           LIMIT 1`,
+          [assignmentId, householdId],
+        );
+
+        if (result.rows.length === 0) {
+          return reply.code(404).send({
+            error: 'Photo not found',
+          });
+        }
+
+        const completion = result.rows[0];
+
+        // SECURITY: Children may only see the photos they took themselves
+        const role = request.household?.role;
+        const canSeeAny = role !== undefined && hasPermission(role, 'assignments.complete_any');
+        if (!canSeeAny && completion.child_user_id !== request.user?.userId) {
+          return reply.code(403).send({
+            error: 'You can only view photos of your own tasks',
+          });
+        }
+
+        if (!completion.photo_key) {
+          return reply.code(410).send({
+            error: 'Photo was removed after the retention period',
+          });
+        }
+
+        const photo = await getPhotoStorage().getObject(completion.photo_key);
+        if (!photo) {
+          return reply.code(404).send({
+            error: 'Photo not found',
+          });
+        }
+
+        return reply
+          .code(200)
+          .header('Content-Type', completion.photo_content_type ?? 'application/octet-stream')
+          .header('Cache-Control', 'private, max-age=3600')
+          .send(photo);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return reply.code(400).send({
+            error: 'Validation failed',
+            details: error.issues.map((e) => ({ path: e.path.join('.'), message: e.message })),
+          });
+        }
+        fastify.log.error(error, 'Failed to fetch completion photo');
+        return reply.code(500).send({
+          error: 'Failed to fetch photo',
+        });
+      }
+    },
+  );
+
   /**
    * PUT /api/assignments/:assignmentId/reassign
    * Reassign task to a different child
@@ -976,7 +1683,7 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Authorization: Must be parent (admin or parent role)
+        // Authorization: Must be allowed to manage assignments
         const membershipResult = await pool.query(
           'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
           [assignment.household_id, request.user?.userId],
@@ -989,9 +1696,8 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
         }
 
         const userRole = membershipResult.rows[0].role;
-        const isParent = userRole === 'admin' || userRole === 'parent';
 
-        if (!isParent) {
+        if (!hasPermission(userRole, 'assignments.manage')) {
           return reply.code(403).send({
             error: 'Only parents can reassign tasks',
           });
@@ -1012,23 +1718,53 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
         const newChild = childResult.rows[0];
 
         // Reassign to new child
-        const updateResult = await pool.query(
-          `UPDATE task_assignments
-           SET child_id = $2
-           WHERE id = $1 AND status = 'pending'
-           RETURNING id, child_id`,
-          [assignmentId, childId],
-        );
+        const reassigned = await withTransaction(pool, async (client) => {
+          const updateResult = await client.query(
+            `UPDATE task_assignments
+             SET child_id = $2
+             WHERE id = $1 AND status = 'pending'
+             RETURNING id, child_id`,
+            [assignmentId, childId],
+          );
 
-        if (updateResult.rows.length === 0) {
-          return reply.code(400).send({
-            error: 'Failed to reassign - assignment may have been completed',
-          });
-        }
+          if (updateResult.rows.length === 0) {
+            throw new TransactionValidationError(
+              400,
+              'Failed to reassign - assignment may have been completed',
+            );
+          }
+
+          await recordAuditEvent(
+            request,
+            {
+              householdId: assignment.household_id,
+              action: 'assignment.reassigned',
+              entityId: assignmentId,
+              before: { childId: assignment.child_id },
+              after: { childId, childName: newChild.name },
+            },
+            client,
+          );
+
+          return updateResult.rows[0];
+        });
+
+        runAfterCommit(request, () =>
+          publishHouseholdEvent({
+            type: 'assignment.reassigned',
+            householdId: assignment.household_id,
+            data: {
+              assignmentId,
+              previousChildId: assignment.child_id,
+              childId,
+              childName: newChild.name,
+            },
+          }),
+        );
 
         return reply.code(200).send({
-          id: updateResult.rows[0].id,
-          childId: updateResult.rows[0].child_id,
+          id: reassigned.id,
+          childId: reassigned.child_id,
           childName: newChild.name,
         });
       } catch (error) {
@@ -1038,6 +1774,11 @@ export default async function assignmentRoutes(fastify: FastifyInstance) {
             details: error.issues.map((e) => ({ path: e.path.join('.'), message: e.message })),
           });
         }
+        if (error instanceof TransactionValidationError) {
+          return reply.code(error.statusCode).send({
+            error: error.message,
+          });
+        }
         fastify.log.error(error, 'Failed to reassign assignment');
         return reply.code(500).send({
           error: 'Failed to reassign assignment',
@@ -0,0 +1,230 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { randomUUID } from 'crypto';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Audit Log API Tests
+ *
+ * Changes made through the API are logged with their actor and request id;
+ * only admins can read the log.
+ */
+
+describe('Audit Log API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let adminToken: string;
+  let parentToken: string;
+  let adminUserId: string;
+  let parentUserId: string;
+  let householdId: string;
+  let childId: string;
+  let siblingId: string;
+  let taskId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const testPassword = 'TestPass123!';
+    const adminData = await registerAndLogin(
+      app,
+      `test-audit-admin-${Date.now()}@example.com`,
+      testPassword,
+    );
+    const parentData = await registerAndLogin(
+      app,
+      `test-audit-parent-${Date.now()}@example.com`,
+      testPassword,
+    );
+    adminToken = adminData.accessToken;
+    parentToken = parentData.accessToken;
+    adminUserId = adminData.userId;
+    parentUserId = parentData.userId;
+
+    householdId = (
+      await pool.query('INSERT INTO households (name) VALUES ($1) RETURNING id', [
+        `Test Audit Household ${Date.now()}`,
+      ])
+    ).rows[0].id;
+
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3), ($1, $4, $5)',
+      [householdId, adminUserId, 'admin', parentUserId, 'parent'],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+        [householdId, 'Emma', 2015],
+      )
+    ).rows[0].id;
+    siblingId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+        [householdId, 'Noah', 2017],
+      )
+    ).rows[0].id;
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [adminUserId, parentUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function listAudit(query = '', token = adminToken) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/audit${query}`,
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  test('should log a task change with before and after', async () => {
+    const createResponse = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/tasks`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+      payload: {
+        name: 'Feed the cat',
+        points: 5,
+        ruleType: 'daily',
+        ruleConfig: { assignedChildren: [childId] },
+      },
+    });
+    assert.strictEqual(createResponse.statusCode, 201);
+    taskId = JSON.parse(createResponse.body).id;
+
+    const updateResponse = await app.inject({
+      method: 'PUT',
+      url: `/api/households/${householdId}/tasks/${taskId}`,
+      headers: { Authorization: `Bearer ${parentToken}`, 'X-Request-ID': 'audit-test-update' },
+      payload: { points: 10 },
+    });
+    assert.strictEqual(updateResponse.statusCode, 200);
+
+    const response = await listAudit(`?entityId=${taskId}`);
+
+    assert.strictEqual(response.statusCode, 200);
+    const { events } = JSON.parse(response.body);
+    assert.deepStrictEqual(
+      events.map((e: { action: string }) => e.action),
+      ['task.updated', 'task.created'],
+    );
+    assert.strictEqual(events[0].actorUserId, parentUserId);
+    assert.strictEqual(events[0].requestId, 'audit-test-update');
+    assert.strictEqual(events[0].before.points, 5);
+    assert.strictEqual(events[0].after.points, 10);
+    assert.strictEqual(events[1].before, null);
+  });
+
+  test('should log who reassigned an assignment', async () => {
+    const assignmentId = (
+      await pool.query(
+        `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+         VALUES ($1, $2, $3, '2030-01-07', 'pending') RETURNING id`,
+        [householdId, taskId, childId],
+      )
+    ).rows[0].id;
+
+    const reassignResponse = await app.inject({
+      method: 'PUT',
+      url: `/api/assignments/${assignmentId}/reassign`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+      payload: { childId: siblingId },
+    });
+    assert.strictEqual(reassignResponse.statusCode, 200);
+
+    const response = await listAudit('?action=assignment.reassigned');
+    const { events } = JSON.parse(response.body);
+
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].entityType, 'assignment');
+    assert.strictEqual(events[0].entityId, assignmentId);
+    assert.deepStrictEqual(events[0].before, { childId });
+    assert.strictEqual(events[0].after.childId, siblingId);
+    assert.ok(events[0].actorName);
+  });
+
+  test('should not log a change that failed', async () => {
+    const missingTaskId = randomUUID();
+    const response = await app.inject({
+      method: 'PUT',
+      url: `/api/households/${householdId}/tasks/${missingTaskId}`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+      payload: { points: 10 },
+    });
+    assert.strictEqual(response.statusCode, 404);
+
+    const { events } = JSON.parse((await listAudit(`?entityId=${missingTaskId}`)).body);
+    assert.strictEqual(events.length, 0);
+  });
+
+  test('should paginate', async () => {
+    const response = await listAudit('?pageSize=1&page=2');
+
+    assert.strictEqual(response.statusCode, 200);
+    const { events, pagination } = JSON.parse(response.body);
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(pagination.page, 2);
+    assert.strictEqual(pagination.total, 3);
+    assert.strictEqual(pagination.hasPreviousPage, true);
+  });
+
+  test('should log assignment generation', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/assignments/generate`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+      payload: { date: '2030-01-08', taskId },
+    });
+    assert.strictEqual(response.statusCode, 200);
+
+    const { events } = JSON.parse((await listAudit('?action=assignment.generated')).body);
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].actorUserId, parentUserId);
+    assert.strictEqual(events[0].entityId, null);
+    assert.strictEqual(events[0].after.startDate, '2030-01-08');
+    assert.strictEqual(events[0].after.created, JSON.parse(response.body).generated);
+  });
+
+  test('should replace request ids that cannot be stored', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: `/api/households/${householdId}/tasks/${taskId}`,
+      headers: { Authorization: `Bearer ${parentToken}`, 'X-Request-ID': 'x'.repeat(200) },
+      payload: { points: 15 },
+    });
+    assert.strictEqual(response.statusCode, 200);
+    assert.match(String(response.headers['x-request-id']), /^[0-9a-f-]{36}$/);
+
+    const { events } = JSON.parse((await listAudit(`?entityId=${taskId}`)).body);
+    assert.strictEqual(events[0].after.points, 15);
+    assert.strictEqual(events[0].requestId, response.headers['x-request-id']);
+  });
+
+  test('should reject an unknown action filter', async () => {
+    const response = await listAudit('?action=task.exploded');
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+
+  test('should only be readable by admins', async () => {
+    const response = await listAudit('', parentToken);
+
+    assert.strictEqual(response.statusCode, 403);
+  });
+});
@@ -0,0 +1,99 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  AuditEventListResponseSchema,
+  ListAuditEventsQuerySchema,
+  calculatePaginationMeta,
+  calculateOffset,
+  type AuditEventListResponse,
+} from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { authenticateUser } from '../middleware/auth.js';
+import {
+  validateHouseholdMembership,
+  requireHouseholdPermission,
+} from '../middleware/household-membership.js';
+import { getHouseholdClient } from '../middleware/household-scope.js';
+import { validateRequest, validateParams, handleZodError } from '../utils/index.js';
+import { householdIdParamSchema } from '../schemas/validation.js';
+import { stripResponseValidation } from '../schemas/common.js';
+import { AuditEventRepository } from '../repositories/audit-event.repository.js';
+
+/**
+ * Household audit log
+ *
+ * Routes append an event for every change they make (see audit.service.ts);
+ * admins read them back here to find out who did what.
+ */
+
+/**
+ * GET /api/households/:householdId/audit
+ * Newest first; filter by action, entity, actor and time range
+ */
+async function listAuditEvents(
+  request: FastifyRequest<{ Params: { householdId: string }; Querystring: Record<string, string> }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId } = validateParams(householdIdParamSchema, request);
+    const { page, pageSize, sortOrder, ...filters } = validateRequest(
+      ListAuditEventsQuerySchema,
+      request.query ?? {},
+    );
+
+    const { events, total } = await new AuditEventRepository(
+      getHouseholdClient(request),
+    ).findByHousehold(householdId, {
+      ...filters,
+      sortOrder,
+      limit: pageSize,
+      offset: calculateOffset(page, pageSize),
+    });
+
+    const response: AuditEventListResponse = {
+      events,
+      pagination: calculatePaginationMeta(page, pageSize, total),
+    };
+    return reply.send(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to list audit events');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve audit events',
+    });
+  }
+}
+
+/**
+ * Register audit log routes
+ */
+export default async function auditRoutes(server: FastifyInstance) {
+  const ParamsSchema = z.object({ householdId: z.string().uuid() });
+
+  server.get('/api/households/:householdId/audit', {
+    schema: stripResponseValidation({
+      summary: 'List audit events',
+      description: 'Who changed what in the household, newest first (admins only)',
+      tags: ['households'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(ParamsSchema),
+      querystring: zodToOpenAPI(ListAuditEventsQuerySchema),
+      response: {
+        200: zodToOpenAPI(AuditEventListResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('audit.view'),
+    ],
+    handler: listAuditEvents,
+  });
+}
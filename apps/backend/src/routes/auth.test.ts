@@ -227,6 +227,40 @@ describe('Authentication API', () => {
       assert.strictEqual(response.statusCode, 200);
       const body = JSON.parse(response.body);
       assert.ok(body.accessToken);
+      assert.ok(body.refreshToken);
+      assert.notStrictEqual(body.refreshToken, refreshToken);
+    });
+
+    test('should revoke the session when a rotated refresh token is reused', async () => {
+      const loginResponse = await app.inject({
+        method: 'POST',
+        url: '/api/auth/login',
+        payload: { email: testEmail, password: testPassword },
+      });
+      const firstToken = JSON.parse(loginResponse.body).refreshToken;
+
+      const rotated = await app.inject({
+        method: 'POST',
+        url: '/api/auth/refresh',
+        payload: { refreshToken: firstToken },
+      });
+      assert.strictEqual(rotated.statusCode, 200);
+      const secondToken = JSON.parse(rotated.body).refreshToken;
+
+      const reused = await app.inject({
+        method: 'POST',
+        url: '/api/auth/refresh',
+        payload: { refreshToken: firstToken },
+      });
+      assert.strictEqual(reused.statusCode, 401);
+
+      // The whole session is gone, including the token issued last
+      const afterReuse = await app.inject({
+        method: 'POST',
+        url: '/api/auth/refresh',
+        payload: { refreshToken: secondToken },
+      });
+      assert.strictEqual(afterReuse.statusCode, 401);
     });
 
     test('should reject invalid refresh token', async () => {
@@ -270,6 +304,7 @@ describe('Authentication API', () => {
 
   describe('POST /api/auth/logout', () => {
     let accessToken: string;
+    let refreshToken: string;
 
     before(async () => {
       const response = await app.inject({
@@ -282,6 +317,7 @@ describe('Authentication API', () => {
       });
       const body = JSON.parse(response.body);
       accessToken = body.accessToken;
+      refreshToken = body.refreshToken;
     });
 
     test('should logout authenticated user', async () => {
@@ -297,6 +333,20 @@ describe('Authentication API', () => {
       const body = JSON.parse(response.body);
       assert.strictEqual(body.success, true);
       assert.strictEqual(body.message, 'Logged out successfully');
+
+      const refreshResponse = await app.inject({
+        method: 'POST',
+        url: '/api/auth/refresh',
+        payload: { refreshToken },
+      });
+      assert.strictEqual(refreshResponse.statusCode, 401);
+
+      const afterLogout = await app.inject({
+        method: 'POST',
+        url: '/api/auth/logout',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      assert.strictEqual(afterLogout.statusCode, 401);
     });
 
     test('should reject unauthenticated logout', async () => {
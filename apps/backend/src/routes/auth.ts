@@ -21,6 +21,8 @@ import {
   resetPasswordSchema,
 } from '../schemas/auth.js';
 import { getEmailService } from '../services/email.service.js';
+import { startSession, refreshSession, getSessionClientInfo } from '../services/session.service.js';
+import { UserSessionRepository } from '../repositories/user-session.repository.js';
 import {
   generateAccessToken as generateAccessTokenUtil,
   generateRefreshToken as generateRefreshTokenUtil,
@@ -41,21 +43,21 @@ function validatePasswordStrength(password: string): boolean {
   return password.length >= 8 && hasUpperCase && hasLowerCase && hasNumber;
 }
 
-// Local JWT token generation functions that include role and name (not in utils/jwt.ts)
+// Local JWT token generation function that includes role, name and session (not in utils/jwt.ts)
+// Refresh tokens are issued by the session service
 function generateAccessToken(
   userId: string,
   email: string,
   role?: string,
   firstName?: string | null,
   lastName?: string | null,
+  sessionId?: string,
 ): string {
-  return jwt.sign({ userId, email, role, firstName, lastName, type: 'access' }, JWT_SECRET, {
-    expiresIn: '1h',
-  });
-}
-
-function generateRefreshToken(userId: string): string {
-  return jwt.sign({ userId, type: 'refresh' }, JWT_SECRET, { expiresIn: '7d' });
+  return jwt.sign(
+    { userId, email, role, firstName, lastName, sessionId, type: 'access' },
+    JWT_SECRET,
+    { expiresIn: '1h' },
+  );
 }
 
 // Request/Response Types
@@ -105,13 +107,7 @@ interface RefreshRequest {
 
 interface RefreshResponse {
   accessToken: string;
-}
-
-interface RefreshTokenPayload {
-  userId: string;
-  type: string;
-  iat: number;
-  exp: number;
+  refreshToken: string;
 }
 
 interface GoogleAuthBody {
@@ -304,16 +300,21 @@ export default async function authRoutes(fastify: FastifyInstance) {
           householdId = householdResult.rows[0].household_id;
         }
 
-        // Generate tokens with role and name
+        // Start a session and generate tokens with role and name
         fastify.log.debug({ executionId }, '[LOGIN] Before token generation');
+        const { sessionId, refreshToken } = await startSession(
+          pool,
+          user.id,
+          getSessionClientInfo(request),
+        );
         const accessToken = generateAccessToken(
           user.id,
           user.email,
           role,
           user.first_name,
           user.last_name,
+          sessionId,
         );
-        const refreshToken = generateRefreshToken(user.id);
         fastify.log.debug({ executionId }, '[LOGIN] After token generation');
 
         fastify.log.info({ userId: user.id, email, role, householdId }, 'Successful login');
@@ -350,23 +351,30 @@ export default async function authRoutes(fastify: FastifyInstance) {
       const { refreshToken } = request.body;
 
       try {
-        // Verify token signature and expiry
-        const decoded = jwt.verify(refreshToken, JWT_SECRET) as RefreshTokenPayload;
+        // Rotate the token; only the latest token of an active session is accepted
+        const session = await refreshSession(pool, refreshToken);
 
-        // Verify it's a refresh token (not access token)
-        if (decoded.type !== 'refresh') {
-          fastify.log.warn('Attempted to use non-refresh token for refresh');
+        if (session.status === 'reused') {
+          fastify.log.warn(
+            { userId: session.userId, sessionId: session.sessionId },
+            'Refresh token reused - session revoked',
+          );
+          return reply.code(401).send({ error: 'Invalid or expired refresh token' });
+        }
+
+        if (session.status === 'invalid') {
+          fastify.log.warn('Invalid or expired refresh token');
           return reply.code(401).send({ error: 'Invalid or expired refresh token' });
         }
 
         // Get user data from database
         const result = await pool.query(
           'SELECT email, first_name, last_name FROM users WHERE id = $1',
-          [decoded.userId],
+          [session.userId],
         );
 
         if (result.rows.length === 0) {
-          fastify.log.warn({ userId: decoded.userId }, 'User not found for refresh token');
+          fastify.log.warn({ userId: session.userId }, 'User not found for refresh token');
           return reply.code(401).send({ error: 'Invalid or expired refresh token' });
         }
 
@@ -375,41 +383,25 @@ export default async function authRoutes(fastify: FastifyInstance) {
         // Query household_members to get user's role
         const householdResult = await pool.query(
           'SELECT role FROM household_members WHERE user_id = $1 LIMIT 1',
-          [decoded.userId],
+          [session.userId],
         );
 
         const role = householdResult.rows.length > 0 ? householdResult.rows[0].role : undefined;
 
         // Generate new access token with role and name
         const accessToken = generateAccessToken(
-          decoded.userId,
+          session.userId,
           user.email,
           role,
           user.first_name,
           user.last_name,
+          session.sessionId,
         );
 
-        fastify.log.info({ userId: decoded.userId }, 'Token refreshed successfully');
+        fastify.log.info({ userId: session.userId }, 'Token refreshed successfully');
 
-        return reply.code(200).send({ accessToken });
+        return reply.code(200).send({ accessToken, refreshToken: session.refreshToken });
       } catch (error: unknown) {
-        // Handle JWT-specific errors
-        if (error instanceof jwt.TokenExpiredError) {
-          fastify.log.warn('Expired refresh token used');
-          if (!reply.sent) {
-            return reply.code(401).send({ error: 'Invalid or expired refresh token' });
-          }
-          return; // Reply already sent by global error handler
-        }
-
-        if (error instanceof jwt.JsonWebTokenError) {
-          fastify.log.warn({ error: (error as Error).message }, 'Invalid refresh token');
-          if (!reply.sent) {
-            return reply.code(401).send({ error: 'Invalid or expired refresh token' });
-          }
-          return; // Reply already sent by global error handler
-        }
-
         // Log error but don't expose internal details
         fastify.log.error(error, 'Token refresh error');
         if (!reply.sent) {
@@ -427,9 +419,24 @@ export default async function authRoutes(fastify: FastifyInstance) {
       preHandler: [authenticateUser],
     },
     async (request, reply) => {
-      // In basic implementation, logout is client-side (delete tokens)
-      // Future enhancement: Add token to blacklist in database
-      fastify.log.info({ userId: request.user?.userId }, 'User logged out');
+      const userId = request.user?.userId;
+      const sessionId = request.user?.sessionId;
+
+      try {
+        // Revoke the session so its refresh token stops working; the access
+        // token itself expires within the hour
+        if (userId && sessionId) {
+          await new UserSessionRepository(pool).revoke(sessionId, 'logout', userId);
+        }
+      } catch (error: unknown) {
+        fastify.log.error(error, 'Logout error');
+        if (!reply.sent) {
+          return reply.code(500).send({ error: 'Logout failed' });
+        }
+        return; // Reply already sent by global error handler
+      }
+
+      fastify.log.info({ userId, sessionId }, 'User logged out');
       return reply.code(200).send({ success: true, message: 'Logged out successfully' });
     },
   );
@@ -599,9 +606,20 @@ export default async function authRoutes(fastify: FastifyInstance) {
           householdId = householdResult.rows[0].household_id;
         }
 
-        // Generate JWT tokens with role and name
-        const accessToken = generateAccessToken(userId, userEmail, role, firstName, lastName);
-        const refreshToken = generateRefreshToken(userId);
+        // Start a session and generate JWT tokens with role and name
+        const { sessionId, refreshToken } = await startSession(
+          pool,
+          userId,
+          getSessionClientInfo(request),
+        );
+        const accessToken = generateAccessToken(
+          userId,
+          userEmail,
+          role,
+          firstName,
+          lastName,
+          sessionId,
+        );
 
         return reply.code(200).send({
           accessToken,
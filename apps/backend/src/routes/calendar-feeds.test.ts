@@ -0,0 +1,213 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Calendar Feed API Tests
+ *
+ * Parents manage secret-token .ics URLs; calendar apps fetch them without a JWT.
+ */
+
+describe('Calendar Feed API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let parentToken: string;
+  let childToken: string;
+  let parentUserId: string;
+  let childUserId: string;
+  let householdId: string;
+  let childId: string;
+  let siblingId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const parentEmail = `test-calendar-parent-${Date.now()}@example.com`;
+    const childEmail = `test-calendar-child-${Date.now()}@example.com`;
+    const testPassword = 'TestPass123!';
+
+    parentToken = (await registerAndLogin(app, parentEmail, testPassword)).accessToken;
+    childToken = (await registerAndLogin(app, childEmail, testPassword)).accessToken;
+
+    parentUserId = (await pool.query('SELECT id FROM users WHERE email = $1', [parentEmail]))
+      .rows[0].id;
+    childUserId = (await pool.query('SELECT id FROM users WHERE email = $1', [childEmail])).rows[0]
+      .id;
+
+    const householdResult = await pool.query(
+      'INSERT INTO households (name) VALUES ($1) RETURNING id',
+      [`Test Calendar Household ${Date.now()}`],
+    );
+    householdId = householdResult.rows[0].id;
+
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, parentUserId, 'admin'],
+    );
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, childUserId, 'child'],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, user_id, name, birth_year) VALUES ($1, $2, $3, $4) RETURNING id',
+        [householdId, childUserId, 'Emma', 2015],
+      )
+    ).rows[0].id;
+    siblingId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+        [householdId, 'Noah', 2017],
+      )
+    ).rows[0].id;
+
+    const taskId = (
+      await pool.query(
+        `INSERT INTO tasks (household_id, name, points, rule_type)
+         VALUES ($1, 'Feed the cat', 10, 'daily') RETURNING id`,
+        [householdId],
+      )
+    ).rows[0].id;
+
+    await pool.query(
+      `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+       VALUES ($1, $2, $3, CURRENT_DATE + 1, 'pending'), ($1, $2, $4, CURRENT_DATE + 2, 'pending')`,
+      [householdId, taskId, childId, siblingId],
+    );
+
+    const singleTaskId = (
+      await pool.query(
+        `INSERT INTO tasks (household_id, name, points, rule_type, deadline)
+         VALUES ($1, 'Wash the car', 50, 'single', NOW() + INTERVAL '3 days') RETURNING id`,
+        [householdId],
+      )
+    ).rows[0].id;
+    await pool.query(
+      'INSERT INTO task_candidates (task_id, child_id, household_id) VALUES ($1, $2, $3)',
+      [singleTaskId, childId, householdId],
+    );
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM calendar_feeds WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM task_candidates WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM task_assignments WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM tasks WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM children WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM household_members WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [parentUserId, childUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function createFeed(token: string, payload: object = {}) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/calendar-feeds`,
+      headers: { Authorization: `Bearer ${token}` },
+      payload,
+    });
+  }
+
+  async function fetchFeed(url: string) {
+    return app.inject({
+      method: 'GET',
+      url: new URL(url).pathname,
+      headers: { 'Accept-Language': 'en' },
+    });
+  }
+
+  test('should serve a household feed without a JWT', async () => {
+    const created = await createFeed(parentToken);
+    assert.strictEqual(created.statusCode, 201);
+    const feed = JSON.parse(created.body);
+    assert.strictEqual(feed.childId, null);
+    assert.match(feed.url, /\/api\/calendar\/[A-Za-z0-9_-]+\.ics$/);
+
+    const response = await fetchFeed(feed.url);
+
+    assert.strictEqual(response.statusCode, 200);
+    assert.match(response.headers['content-type'] as string, /^text\/calendar/);
+    assert.ok(response.body.includes('SUMMARY:Feed the cat (Emma)'));
+    assert.ok(response.body.includes('SUMMARY:Feed the cat (Noah)'));
+    assert.ok(response.body.includes('SUMMARY:Deadline: Wash the car'));
+  });
+
+  test("should only show a child's own assignments in a child feed", async () => {
+    const created = await createFeed(parentToken, { childId });
+    assert.strictEqual(created.statusCode, 201);
+    const feed = JSON.parse(created.body);
+    assert.strictEqual(feed.childName, 'Emma');
+
+    const body = (await fetchFeed(feed.url)).body;
+
+    assert.ok(body.includes('X-WR-CALNAME:Emma – tasks'));
+    assert.ok(body.includes('SUMMARY:Feed the cat\r\n'));
+    assert.strictEqual(body.match(/BEGIN:VEVENT/g)?.length, 2);
+  });
+
+  test('should not list deadlines a child was not offered', async () => {
+    const created = await createFeed(parentToken, { childId: siblingId });
+    const body = (await fetchFeed(JSON.parse(created.body).url)).body;
+
+    assert.ok(!body.includes('Wash the car'));
+  });
+
+  test('should stop serving a revoked feed', async () => {
+    const feed = JSON.parse((await createFeed(parentToken)).body);
+
+    const revoke = await app.inject({
+      method: 'DELETE',
+      url: `/api/households/${householdId}/calendar-feeds/${feed.id}`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+    });
+    assert.strictEqual(revoke.statusCode, 204);
+
+    assert.strictEqual((await fetchFeed(feed.url)).statusCode, 404);
+
+    const list = await app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/calendar-feeds`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+    });
+    const ids = JSON.parse(list.body).feeds.map((f: { id: string }) => f.id);
+    assert.ok(!ids.includes(feed.id));
+  });
+
+  test('should reject unknown tokens', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/calendar/AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA.ics',
+    });
+
+    assert.strictEqual(response.statusCode, 404);
+  });
+
+  test('should not let a child create feeds', async () => {
+    const response = await createFeed(childToken);
+
+    assert.strictEqual(response.statusCode, 403);
+  });
+
+  test('should reject a child from another household', async () => {
+    const response = await createFeed(parentToken, {
+      childId: '00000000-0000-4000-8000-000000000000',
+    });
+
+    assert.strictEqual(response.statusCode, 404);
+  });
+});
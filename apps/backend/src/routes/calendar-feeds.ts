@@ -0,0 +1,360 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  CalendarFeedSchema,
+  CalendarFeedListResponseSchema,
+  CreateCalendarFeedRequestSchema,
+  type CalendarFeed as CalendarFeedResponse,
+  type CalendarFeedListResponse,
+  type CreateCalendarFeedRequest,
+} from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { db } from '../database.js';
+import { normalizeLanguage } from '../core/i18n.js';
+import { authenticateUser } from '../middleware/auth.js';
+import {
+  validateHouseholdMembership,
+  requireHouseholdPermission,
+} from '../middleware/household-membership.js';
+import { getHouseholdClient } from '../middleware/household-scope.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { createIpRateLimiter } from '../middleware/rate-limit.js';
+import { validateRequest, validateParams, handleZodError } from '../utils/index.js';
+import { householdIdParamSchema, uuidSchema } from '../schemas/validation.js';
+import { stripResponseValidation } from '../schemas/common.js';
+import { ChildRepository } from '../repositories/child.repository.js';
+import {
+  CalendarFeedRepository,
+  type CalendarFeed,
+} from '../repositories/calendar-feed.repository.js';
+import {
+  buildFeedCalendar,
+  generateFeedToken,
+  getFeedUrl,
+} from '../services/calendar-feed.service.js';
+
+/**
+ * Calendar feeds
+ *
+ * Parents create read-only .ics subscription URLs for the household or a
+ * single child. The secret token in the URL replaces the JWT calendar apps
+ * cannot send; revoking a feed invalidates its URL.
+ */
+
+// Calendar apps poll hourly, so this only stops token guessing
+const calendarFeedRateLimiter = createIpRateLimiter('ratelimit:calendar-feed:', 120, 3600);
+
+interface HouseholdParams {
+  householdId: string;
+}
+
+interface FeedParams extends HouseholdParams {
+  feedId: string;
+}
+
+interface TokenParams {
+  token: string;
+}
+
+const householdFeedParamsSchema = z.object({
+  householdId: uuidSchema,
+  feedId: uuidSchema,
+});
+
+const feedTokenParamsSchema = z.object({
+  token: z
+    .string()
+    .min(20)
+    .max(255)
+    .regex(/^[A-Za-z0-9_-]+$/),
+});
+
+function toFeedResponse(feed: CalendarFeed): CalendarFeedResponse {
+  return {
+    id: feed.id,
+    householdId: feed.householdId,
+    childId: feed.childId,
+    childName: feed.childName,
+    url: getFeedUrl(feed.token),
+    createdAt: feed.createdAt,
+    lastAccessedAt: feed.lastAccessedAt,
+  };
+}
+
+/**
+ * GET /api/households/:householdId/calendar-feeds
+ * Active feeds of the household
+ */
+async function listCalendarFeeds(
+  request: FastifyRequest<{ Params: HouseholdParams }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId } = validateParams(householdIdParamSchema, request);
+    const client = getHouseholdClient(request);
+
+    const feeds = await new CalendarFeedRepository(client).findActiveByHousehold(householdId);
+
+    const response: CalendarFeedListResponse = { feeds: feeds.map(toFeedResponse) };
+    return reply.send(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to list calendar feeds');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve calendar feeds',
+    });
+  }
+}
+
+/**
+ * POST /api/households/:householdId/calendar-feeds
+ * Create a feed for the household, or for one child when childId is given
+ */
+async function createCalendarFeed(
+  request: FastifyRequest<{ Params: HouseholdParams; Body: CreateCalendarFeedRequest }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId } = validateParams(householdIdParamSchema, request);
+    const { childId } = validateRequest(CreateCalendarFeedRequestSchema, request.body ?? {});
+    const client = getHouseholdClient(request);
+
+    if (childId) {
+      const child = await new ChildRepository(client).findByIdAndHousehold(childId, householdId);
+      if (!child) {
+        return reply.status(404).send({
+          statusCode: 404,
+          error: 'Not Found',
+          message: 'Child not found',
+        });
+      }
+    }
+
+    const feed = await new CalendarFeedRepository(client).create({
+      householdId,
+      childId,
+      token: generateFeedToken(),
+      createdBy: request.user?.userId,
+    });
+
+    // The feed URL is a secret, so only who the feed is for goes in the log
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'calendar_feed.created',
+      entityId: feed.id,
+      after: { childId: feed.childId, childName: feed.childName },
+    });
+
+    return reply.status(201).send(toFeedResponse(feed));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to create calendar feed');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to create calendar feed',
+    });
+  }
+}
+
+/**
+ * DELETE /api/households/:householdId/calendar-feeds/:feedId
+ * Revoke a feed; calendar apps subscribed to it stop receiving updates
+ */
+async function revokeCalendarFeed(
+  request: FastifyRequest<{ Params: FeedParams }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId, feedId } = validateParams(householdFeedParamsSchema, request);
+    const client = getHouseholdClient(request);
+
+    const revoked = await new CalendarFeedRepository(client).revoke(feedId, householdId);
+
+    if (!revoked) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Calendar feed not found',
+      });
+    }
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'calendar_feed.revoked',
+      entityId: feedId,
+    });
+
+    return reply.status(204).send();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to revoke calendar feed');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to revoke calendar feed',
+    });
+  }
+}
+
+/**
+ * GET /api/calendar/:token.ics
+ * The feed itself; authenticated only by its token
+ */
+async function getCalendarFeed(
+  request: FastifyRequest<{ Params: TokenParams }>,
+  reply: FastifyReply,
+) {
+  const parsed = feedTokenParamsSchema.safeParse(request.params);
+  const notFound = {
+    statusCode: 404,
+    error: 'Not Found',
+    message: 'Calendar feed not found',
+  };
+
+  if (!parsed.success) {
+    return reply.status(404).send(notFound);
+  }
+
+  try {
+    // No household context yet: the token lookup decides which household is shown
+    const feeds = new CalendarFeedRepository(db);
+    const feed = await feeds.findActiveByToken(parsed.data.token);
+
+    if (!feed) {
+      return reply.status(404).send(notFound);
+    }
+
+    const language = normalizeLanguage(request.headers['accept-language']);
+    const calendar = await buildFeedCalendar(db, feed, language);
+
+    if (calendar === null) {
+      return reply.status(404).send(notFound);
+    }
+
+    await feeds.markAccessed(feed.id);
+
+    return reply
+      .header('Content-Type', 'text/calendar; charset=utf-8')
+      .header('Content-Disposition', 'inline; filename="assignments.ics"')
+      .header('Cache-Control', 'private, max-age=300')
+      .send(calendar);
+  } catch (error) {
+    request.log.error(error, 'Failed to build calendar feed');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to build calendar feed',
+    });
+  }
+}
+
+/**
+ * Register calendar feed routes
+ */
+export default async function calendarFeedRoutes(server: FastifyInstance) {
+  const HouseholdParamsSchema = z.object({
+    householdId: z.string().uuid(),
+  });
+
+  const FeedParamsSchema = z.object({
+    householdId: z.string().uuid(),
+    feedId: z.string().uuid(),
+  });
+
+  server.get('/api/households/:householdId/calendar-feeds', {
+    schema: stripResponseValidation({
+      summary: 'List calendar feeds',
+      description: 'List the active iCalendar subscription URLs of a household (parents only)',
+      tags: ['households'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(HouseholdParamsSchema),
+      response: {
+        200: zodToOpenAPI(CalendarFeedListResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('calendar_feeds.manage'),
+    ],
+    handler: listCalendarFeeds,
+  });
+
+  server.post('/api/households/:householdId/calendar-feeds', {
+    schema: stripResponseValidation({
+      summary: 'Create calendar feed',
+      description:
+        'Create an iCalendar subscription URL for the household or one child (parents only)',
+      tags: ['households'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(HouseholdParamsSchema),
+      body: zodToOpenAPI(CreateCalendarFeedRequestSchema),
+      response: {
+        201: zodToOpenAPI(CalendarFeedSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('calendar_feeds.manage'),
+    ],
+    handler: createCalendarFeed,
+  });
+
+  server.delete('/api/households/:householdId/calendar-feeds/:feedId', {
+    schema: stripResponseValidation({
+      summary: 'Revoke calendar feed',
+      description: 'Revoke an iCalendar subscription URL (parents only)',
+      tags: ['households'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(FeedParamsSchema),
+      response: {
+        204: {
+          type: 'object',
+          properties: {},
+          required: [],
+          description: 'Feed revoked',
+        },
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('calendar_feeds.manage'),
+    ],
+    handler: revokeCalendarFeed,
+  });
+
+  server.get('/api/calendar/:token.ics', {
+    schema: {
+      summary: 'Get calendar feed',
+      description:
+        'iCalendar (.ics) feed of assignments and single-task deadlines; the token in the URL is the credential',
+      tags: ['households'],
+    },
+    preHandler: [calendarFeedRateLimiter],
+    handler: getCalendarFeed,
+  });
+}
@@ -0,0 +1,206 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Child Absence API Tests
+ *
+ * Parents record away periods; children can only read their own.
+ */
+
+describe('Child Absence API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let parentToken: string;
+  let childToken: string;
+  let parentUserId: string;
+  let childUserId: string;
+  let householdId: string;
+  let childId: string;
+  let siblingId: string;
+  let absenceId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const parentEmail = `test-absences-parent-${Date.now()}@example.com`;
+    const childEmail = `test-absences-child-${Date.now()}@example.com`;
+    const testPassword = 'TestPass123!';
+
+    parentToken = (await registerAndLogin(app, parentEmail, testPassword)).accessToken;
+    childToken = (await registerAndLogin(app, childEmail, testPassword)).accessToken;
+
+    parentUserId = (await pool.query('SELECT id FROM users WHERE email = $1', [parentEmail]))
+      .rows[0].id;
+    childUserId = (await pool.query('SELECT id FROM users WHERE email = $1', [childEmail])).rows[0]
+      .id;
+
+    const householdResult = await pool.query(
+      'INSERT INTO households (name) VALUES ($1) RETURNING id',
+      [`Test Absences Household ${Date.now()}`],
+    );
+    householdId = householdResult.rows[0].id;
+
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, parentUserId, 'admin'],
+    );
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, childUserId, 'child'],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, user_id, name, birth_year) VALUES ($1, $2, $3, $4) RETURNING id',
+        [householdId, childUserId, 'Emma', 2015],
+      )
+    ).rows[0].id;
+    siblingId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+        [householdId, 'Noah', 2017],
+      )
+    ).rows[0].id;
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM child_absences WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM children WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM household_members WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [parentUserId, childUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  function absencesUrl(forChildId = childId) {
+    return `/api/households/${householdId}/children/${forChildId}/absences`;
+  }
+
+  test('should create a repeating absence', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: absencesUrl(),
+      headers: { Authorization: `Bearer ${parentToken}` },
+      payload: {
+        startDate: '2030-01-04',
+        endDate: '2030-01-06',
+        repeatEveryWeeks: 2,
+        reason: 'Weekend at dad',
+      },
+    });
+
+    assert.strictEqual(response.statusCode, 201);
+    const body = JSON.parse(response.body);
+    assert.strictEqual(body.childId, childId);
+    assert.strictEqual(body.startDate, '2030-01-04');
+    assert.strictEqual(body.repeatEveryWeeks, 2);
+    assert.strictEqual(body.repeatUntil, null);
+    absenceId = body.id;
+  });
+
+  test('should reject an end date before the start date', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: absencesUrl(),
+      headers: { Authorization: `Bearer ${parentToken}` },
+      payload: { startDate: '2030-01-06', endDate: '2030-01-04' },
+    });
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+
+  test('should not let a child create an absence', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: absencesUrl(),
+      headers: { Authorization: `Bearer ${childToken}` },
+      payload: { startDate: '2030-02-01', endDate: '2030-02-01' },
+    });
+
+    assert.strictEqual(response.statusCode, 403);
+  });
+
+  test("should let a child list their own absences but not a sibling's", async () => {
+    const own = await app.inject({
+      method: 'GET',
+      url: absencesUrl(),
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+    const sibling = await app.inject({
+      method: 'GET',
+      url: absencesUrl(siblingId),
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+
+    assert.strictEqual(own.statusCode, 200);
+    assert.deepStrictEqual(
+      JSON.parse(own.body).absences.map((a: { id: string }) => a.id),
+      [absenceId],
+    );
+    assert.strictEqual(sibling.statusCode, 404);
+  });
+
+  test('should find a repeating absence in a later range', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `${absencesUrl()}?from=2030-06-01&to=2030-06-30`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 200);
+    assert.strictEqual(JSON.parse(response.body).absences.length, 1);
+  });
+
+  test('should update part of an absence and check the result', async () => {
+    const updated = await app.inject({
+      method: 'PUT',
+      url: `${absencesUrl()}/${absenceId}`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+      payload: { repeatUntil: '2030-03-01' },
+    });
+
+    assert.strictEqual(updated.statusCode, 200);
+    assert.strictEqual(JSON.parse(updated.body).repeatUntil, '2030-03-01');
+    assert.strictEqual(JSON.parse(updated.body).reason, 'Weekend at dad');
+
+    // A weekly repeat cannot cover a three-day range plus the rest of the week
+    const invalid = await app.inject({
+      method: 'PUT',
+      url: `${absencesUrl()}/${absenceId}`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+      payload: { endDate: '2030-01-10', repeatEveryWeeks: 1 },
+    });
+
+    assert.strictEqual(invalid.statusCode, 400);
+  });
+
+  test('should delete an absence', async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `${absencesUrl()}/${absenceId}`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+    });
+    const again = await app.inject({
+      method: 'DELETE',
+      url: `${absencesUrl()}/${absenceId}`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 204);
+    assert.strictEqual(again.statusCode, 404);
+  });
+});
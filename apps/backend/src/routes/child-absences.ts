@@ -0,0 +1,367 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  ChildAbsenceSchema,
+  ChildAbsenceListResponseSchema,
+  CreateChildAbsenceRequestSchema,
+  UpdateChildAbsenceRequestSchema,
+  ListChildAbsencesQuerySchema,
+  type ChildAbsenceListResponse,
+  type CreateChildAbsenceRequest,
+  type UpdateChildAbsenceRequest,
+} from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { authenticateUser } from '../middleware/auth.js';
+import {
+  validateHouseholdMembership,
+  requireHouseholdPermission,
+} from '../middleware/household-membership.js';
+import { getHouseholdClient } from '../middleware/household-scope.js';
+import { validateRequest, validateParams, handleZodError, getLocalToday } from '../utils/index.js';
+import { householdChildParamsSchema, uuidSchema } from '../schemas/validation.js';
+import { stripResponseValidation } from '../schemas/common.js';
+import { ChildRepository } from '../repositories/child.repository.js';
+import { ChildAbsenceRepository } from '../repositories/child-absence.repository.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+
+/**
+ * Child absences
+ *
+ * Parents record when a child is away (at the other parent's, at camp), once
+ * or repeating every N weeks. Assignment generation skips absent children and
+ * hands rotation turns to the next child; analytics leave absent days out.
+ */
+
+interface ChildParams {
+  householdId: string;
+  childId: string;
+}
+
+interface AbsenceParams extends ChildParams {
+  absenceId: string;
+}
+
+const householdChildAbsenceParamsSchema = z.object({
+  householdId: uuidSchema,
+  childId: uuidSchema,
+  absenceId: uuidSchema,
+});
+
+const childNotFound = {
+  statusCode: 404,
+  error: 'Not Found',
+  message: 'Child not found',
+};
+
+const absenceNotFound = {
+  statusCode: 404,
+  error: 'Not Found',
+  message: 'Absence not found',
+};
+
+/**
+ * GET /api/households/:householdId/children/:childId/absences
+ * Absences overlapping from..to; by default those that have not ended yet.
+ * Children can only see their own.
+ */
+async function listChildAbsences(
+  request: FastifyRequest<{ Params: ChildParams; Querystring: Record<string, string> }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId, childId } = validateParams(householdChildParamsSchema, request);
+    const { from, to } = validateRequest(ListChildAbsencesQuerySchema, request.query ?? {});
+    const client = getHouseholdClient(request);
+
+    const child = await new ChildRepository(client).findByIdAndHousehold(childId, householdId);
+    const isOwnProfile = child?.userId === request.user?.userId;
+
+    if (!child || (request.household?.role === 'child' && !isOwnProfile)) {
+      return reply.status(404).send(childNotFound);
+    }
+
+    const start =
+      from ?? getLocalToday(await new HouseholdRepository(client).getTimezone(householdId));
+    const absences = await new ChildAbsenceRepository(client).findByChild(childId, start, to);
+
+    const response: ChildAbsenceListResponse = { absences };
+    return reply.send(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to list child absences');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve absences',
+    });
+  }
+}
+
+/**
+ * POST /api/households/:householdId/children/:childId/absences
+ * Applies to assignments generated from now on
+ */
+async function createChildAbsence(
+  request: FastifyRequest<{ Params: ChildParams; Body: CreateChildAbsenceRequest }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId, childId } = validateParams(householdChildParamsSchema, request);
+    const data = validateRequest(CreateChildAbsenceRequestSchema, request.body);
+    const client = getHouseholdClient(request);
+
+    const child = await new ChildRepository(client).findByIdAndHousehold(childId, householdId);
+    if (!child) {
+      return reply.status(404).send(childNotFound);
+    }
+
+    const absence = await new ChildAbsenceRepository(client).create({
+      ...data,
+      householdId,
+      childId,
+      createdBy: request.user?.userId,
+    });
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'absence.created',
+      entityId: absence.id,
+      after: absence,
+    });
+
+    return reply.status(201).send(absence);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to create child absence');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to create absence',
+    });
+  }
+}
+
+/**
+ * PUT /api/households/:householdId/children/:childId/absences/:absenceId
+ * Fields left out keep their value
+ */
+async function updateChildAbsence(
+  request: FastifyRequest<{ Params: AbsenceParams; Body: UpdateChildAbsenceRequest }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId, childId, absenceId } = validateParams(
+      householdChildAbsenceParamsSchema,
+      request,
+    );
+    const changes = validateRequest(UpdateChildAbsenceRequestSchema, request.body ?? {});
+    const client = getHouseholdClient(request);
+
+    const child = await new ChildRepository(client).findByIdAndHousehold(childId, householdId);
+    if (!child) {
+      return reply.status(404).send(childNotFound);
+    }
+
+    const absences = new ChildAbsenceRepository(client);
+    const existing = await absences.findById(absenceId, childId);
+    if (!existing) {
+      return reply.status(404).send(absenceNotFound);
+    }
+
+    // Check the merged period like a new absence
+    const data = validateRequest(CreateChildAbsenceRequestSchema, {
+      startDate: existing.startDate,
+      endDate: existing.endDate,
+      repeatEveryWeeks: existing.repeatEveryWeeks,
+      repeatUntil: existing.repeatUntil,
+      reason: existing.reason,
+      ...changes,
+    });
+
+    const absence = await absences.update(absenceId, childId, data);
+    if (!absence) {
+      return reply.status(404).send(absenceNotFound);
+    }
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'absence.updated',
+      entityId: absenceId,
+      before: existing,
+      after: absence,
+    });
+
+    return reply.send(absence);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to update child absence');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to update absence',
+    });
+  }
+}
+
+/**
+ * DELETE /api/households/:householdId/children/:childId/absences/:absenceId
+ */
+async function deleteChildAbsence(
+  request: FastifyRequest<{ Params: AbsenceParams }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId, childId, absenceId } = validateParams(
+      householdChildAbsenceParamsSchema,
+      request,
+    );
+    const absences = new ChildAbsenceRepository(getHouseholdClient(request));
+
+    const existing = await absences.findById(absenceId, childId);
+    if (!existing || !(await absences.delete(absenceId, childId))) {
+      return reply.status(404).send(absenceNotFound);
+    }
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'absence.deleted',
+      entityId: absenceId,
+      before: existing,
+    });
+
+    return reply.status(204).send();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to delete child absence');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to delete absence',
+    });
+  }
+}
+
+/**
+ * Register child absence routes
+ */
+export default async function childAbsenceRoutes(server: FastifyInstance) {
+  const ChildParamsSchema = z.object({
+    householdId: z.string().uuid(),
+    childId: z.string().uuid(),
+  });
+
+  const AbsenceParamsSchema = z.object({
+    householdId: z.string().uuid(),
+    childId: z.string().uuid(),
+    absenceId: z.string().uuid(),
+  });
+
+  server.get('/api/households/:householdId/children/:childId/absences', {
+    schema: stripResponseValidation({
+      summary: 'List child absences',
+      description:
+        'List the away periods of a child overlapping from..to (default: those not ended yet)',
+      tags: ['children'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(ChildParamsSchema),
+      querystring: zodToOpenAPI(ListChildAbsencesQuerySchema),
+      response: {
+        200: zodToOpenAPI(ChildAbsenceListResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [authenticateUser, validateHouseholdMembership],
+    handler: listChildAbsences,
+  });
+
+  server.post('/api/households/:householdId/children/:childId/absences', {
+    schema: stripResponseValidation({
+      summary: 'Create child absence',
+      description: 'Record that a child is away, once or repeating every N weeks (parents only)',
+      tags: ['children'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(ChildParamsSchema),
+      body: zodToOpenAPI(CreateChildAbsenceRequestSchema),
+      response: {
+        201: zodToOpenAPI(ChildAbsenceSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('children.manage'),
+    ],
+    handler: createChildAbsence,
+  });
+
+  server.put('/api/households/:householdId/children/:childId/absences/:absenceId', {
+    schema: stripResponseValidation({
+      summary: 'Update child absence',
+      description: 'Change the period or reason of an absence (parents only)',
+      tags: ['children'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(AbsenceParamsSchema),
+      body: zodToOpenAPI(UpdateChildAbsenceRequestSchema),
+      response: {
+        200: zodToOpenAPI(ChildAbsenceSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('children.manage'),
+    ],
+    handler: updateChildAbsence,
+  });
+
+  server.delete('/api/households/:householdId/children/:childId/absences/:absenceId', {
+    schema: stripResponseValidation({
+      summary: 'Delete child absence',
+      description: 'Remove an absence (parents only)',
+      tags: ['children'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(AbsenceParamsSchema),
+      response: {
+        204: {
+          type: 'object',
+          properties: {},
+          required: [],
+          description: 'Absence deleted',
+        },
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('children.manage'),
+    ],
+    handler: deleteChildAbsence,
+  });
+}
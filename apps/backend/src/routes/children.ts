@@ -1,24 +1,36 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { db, pool } from '../database.js';
+import { db } from '../database.js';
 import { authenticateUser } from '../middleware/auth.js';
 import {
   validateHouseholdMembership,
-  requireHouseholdParent,
-  requireHouseholdAdmin,
+  requireHouseholdPermission,
 } from '../middleware/household-membership.js';
+import { getHouseholdClient } from '../middleware/household-scope.js';
 import {
   ChildSchema,
   CreateChildRequestSchema,
   UpdateChildRequestSchema,
   CreateChildUserAccountRequestSchema,
+  TaskSuggestionsQuerySchema,
+  TaskSuggestionsResponseSchema,
+  AssignmentChecklistItemSchema,
 } from '@st44/types';
 import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
 import {
   handleZodError,
   validateRequest,
   validateParams,
-  withTransaction,
+  withSavepoint,
+  getLocalToday,
+  validateQuery,
+  parseChecklist,
+  parseCheckedItems,
+  buildAssignmentChecklist,
 } from '../utils/index.js';
+import { normalizeLanguage } from '../core/i18n.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { suggestTaskTemplates } from '../services/task-template.service.js';
 import { householdChildParamsSchema } from '../schemas/validation.js';
 import { stripResponseValidation } from '../schemas/common.js';
 import bcrypt from 'bcrypt';
@@ -74,10 +86,11 @@ async function listChildren(
   request: FastifyRequest<{ Params: HouseholdParams }>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
 
   try {
-    const result = await db.query(
+    const result = await client.query(
       `SELECT id, household_id, user_id, name, birth_year, created_at, updated_at
        FROM children
        WHERE household_id = $1
@@ -112,29 +125,38 @@ async function listChildren(
  * Requires parent or admin role
  */
 async function createChild(request: FastifyRequest<CreateChildRequest>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
 
   try {
     const validatedData = validateRequest(CreateChildRequestSchema, request.body);
 
-    const result = await db.query(
+    const result = await client.query(
       `INSERT INTO children (household_id, name, birth_year)
        VALUES ($1, $2, $3)
        RETURNING id, household_id, name, birth_year, created_at`,
       [householdId, validatedData.name, validatedData.birthYear],
     );
 
-    const child = result.rows[0];
-
-    return reply.status(201).send({
-      id: child.id,
-      householdId: child.household_id,
-      name: child.name,
-      birthYear: child.birth_year,
+    const row = result.rows[0];
+    const child = {
+      id: row.id,
+      householdId: row.household_id,
+      name: row.name,
+      birthYear: row.birth_year,
       avatarUrl: null,
-      createdAt: child.created_at,
-      updatedAt: child.created_at,
+      createdAt: row.created_at,
+      updatedAt: row.created_at,
+    };
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'child.created',
+      entityId: child.id,
+      after: child,
     });
+
+    return reply.status(201).send(child);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return handleZodError(error, reply);
@@ -153,14 +175,20 @@ async function createChild(request: FastifyRequest<CreateChildRequest>, reply: F
  * Requires parent or admin role
  */
 async function updateChild(request: FastifyRequest<UpdateChildRequest>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   const { householdId, childId: id } = request.params;
 
   try {
     const validatedData = validateRequest(UpdateChildRequestSchema, request.body);
 
+    const previous = await client.query(
+      `SELECT name, birth_year FROM children WHERE id = $1 AND household_id = $2 FOR UPDATE`,
+      [id, householdId],
+    );
+
     // Use COALESCE to preserve existing values when fields are not provided
     // This prevents data corruption from partial updates
-    const result = await db.query(
+    const result = await client.query(
       `UPDATE children
        SET
          name = COALESCE($1, name),
@@ -181,6 +209,14 @@ async function updateChild(request: FastifyRequest<UpdateChildRequest>, reply: F
 
     const child = result.rows[0];
 
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'child.updated',
+      entityId: id,
+      before: { name: previous.rows[0].name, birthYear: previous.rows[0].birth_year },
+      after: { name: child.name, birthYear: child.birth_year },
+    });
+
     return reply.send({
       id: child.id,
       householdId: child.household_id,
@@ -209,10 +245,11 @@ async function updateChild(request: FastifyRequest<UpdateChildRequest>, reply: F
  * Returns child details including userId
  */
 async function getChild(request: FastifyRequest<{ Params: ChildParams }>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   const { householdId, childId } = request.params;
 
   try {
-    const result = await db.query(
+    const result = await client.query(
       `SELECT id, household_id, user_id, name, birth_year, created_at, updated_at
        FROM children
        WHERE id = $1 AND household_id = $2`,
@@ -254,14 +291,15 @@ async function getChild(request: FastifyRequest<{ Params: ChildParams }>, reply:
  * Requires admin role
  */
 async function deleteChild(request: FastifyRequest<DeleteChildRequest>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   try {
     // Validate params with Zod schema
     const { householdId, childId } = validateParams(householdChildParamsSchema, request);
 
-    const result = await db.query(
+    const result = await client.query(
       `DELETE FROM children
        WHERE id = $1 AND household_id = $2
-       RETURNING id`,
+       RETURNING id, user_id, name, birth_year`,
       [childId, householdId],
     );
 
@@ -273,6 +311,14 @@ async function deleteChild(request: FastifyRequest<DeleteChildRequest>, reply: F
       });
     }
 
+    const deleted = result.rows[0];
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'child.deleted',
+      entityId: childId,
+      before: { name: deleted.name, birthYear: deleted.birth_year, userId: deleted.user_id },
+    });
+
     return reply.status(204).send();
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -304,6 +350,7 @@ async function createChildUserAccount(
   request: FastifyRequest<CreateChildUserAccountRequest>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId, childId } = request.params;
   const { email, password } = request.body;
 
@@ -317,7 +364,7 @@ async function createChildUserAccount(
   }
 
   try {
-    const userId = await withTransaction(pool, async (client) => {
+    const userId = await withSavepoint(client, async () => {
       // 1. Check child exists and doesn't already have a user account
       const childResult = await client.query(
         `SELECT id, user_id, household_id, name
@@ -375,6 +422,13 @@ async function createChildUserAccount(
       return newUserId;
     });
 
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'child.account_created',
+      entityId: childId,
+      after: { userId, email },
+    });
+
     request.log.info({ childId, userId, email }, 'Child user account created successfully');
 
     return reply.status(201).send({
@@ -399,6 +453,49 @@ async function createChildUserAccount(
   }
 }
 
+/**
+ * GET /api/households/:householdId/children/:childId/task-suggestions
+ * Task templates ranked for the child by age, current chores and history
+ */
+async function getTaskSuggestions(
+  request: FastifyRequest<{ Params: ChildParams; Querystring: { limit?: string } }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId, childId } = validateParams(householdChildParamsSchema, request);
+    const { limit } = validateQuery(TaskSuggestionsQuerySchema, request);
+    const language = normalizeLanguage(request.headers['accept-language']);
+
+    const suggestions = await suggestTaskTemplates(
+      getHouseholdClient(request),
+      householdId,
+      childId,
+      language,
+      limit,
+    );
+
+    if (!suggestions) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Child not found in this household',
+      });
+    }
+
+    return reply.send(suggestions);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to suggest tasks');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to suggest tasks',
+    });
+  }
+}
+
 interface MyTasksQuerystring {
   householdId?: string;
   date?: string;
@@ -423,7 +520,6 @@ async function getMyTasks(
   }
 
   const { householdId: householdIdParam, date } = request.query;
-  const taskDate = date || new Date().toISOString().split('T')[0];
 
   try {
     // Step 1: Find child profile linked to authenticated user
@@ -484,6 +580,10 @@ async function getMyTasks(
     const childId = child.id;
     const childName = child.name;
 
+    // Default to the household's local today
+    const taskDate =
+      date || getLocalToday(await new HouseholdRepository(db).getTimezone(child.household_id));
+
     // Step 3: Query task assignments for this child and date
     // SECURITY: WHERE clause ensures only tasks for authenticated child are returned
     const tasksResult = await db.query(
@@ -492,12 +592,23 @@ async function getMyTasks(
         t.name as task_name,
         t.description as task_description,
         t.points,
+        t.requires_photo,
         ta.date,
         ta.status,
-        tc.completed_at
+        tc.completed_at,
+        (SELECT rc.review_comment
+         FROM task_completions rc
+         WHERE rc.task_assignment_id = ta.id AND rc.approval_status = 'rejected'
+         ORDER BY rc.reviewed_at DESC
+         LIMIT 1) as review_comment,
+        (SELECT COUNT(*)::int FROM assignment_comments ac
+         WHERE ac.task_assignment_id = ta.id) as comment_count,
+        t.checklist,
+        ta.checked_items
        FROM task_assignments ta
        JOIN tasks t ON ta.task_id = t.id
-       LEFT JOIN task_completions tc ON ta.id = tc.task_assignment_id
+       LEFT JOIN task_completions tc
+         ON ta.id = tc.task_assignment_id AND tc.approval_status != 'rejected'
        WHERE ta.child_id = $1
          AND ta.household_id = $2
          AND ta.date = $3
@@ -513,6 +624,15 @@ async function getMyTasks(
       date: row.date,
       status: row.status,
       completedAt: row.completed_at ? row.completed_at.toISOString() : null,
+      // Rejected completions reopen the assignment as pending (or overdue, when late)
+      reviewComment:
+        row.status === 'pending' || row.status === 'overdue' ? row.review_comment : null,
+      requiresPhoto: row.requires_photo === true,
+      commentCount: row.comment_count,
+      checklist: buildAssignmentChecklist(
+        parseChecklist(row.checklist),
+        parseCheckedItems(row.checked_items),
+      ),
     }));
 
     // Step 4: Calculate points
@@ -558,7 +678,7 @@ export default async function childrenRoutes(server: FastifyInstance) {
       .string()
       .regex(/^\d{4}-\d{2}-\d{2}$/)
       .optional(),
-    status: z.enum(['pending', 'completed']).optional(),
+    status: z.enum(['pending', 'pending_review', 'completed']).optional(),
   });
 
   // Schema for child's task assignment response
@@ -568,8 +688,12 @@ export default async function childrenRoutes(server: FastifyInstance) {
     taskDescription: z.string().nullable(),
     points: z.number(),
     date: z.string(),
-    status: z.enum(['pending', 'completed', 'overdue']),
+    status: z.enum(['pending', 'pending_review', 'completed', 'overdue']),
     completedAt: z.string().nullable(),
+    reviewComment: z.string().nullable(),
+    requiresPhoto: z.boolean(),
+    commentCount: z.number().int().nonnegative(),
+    checklist: z.array(AssignmentChecklistItemSchema),
   });
 
   const MyTasksResponseSchema = z.object({
@@ -662,6 +786,33 @@ export default async function childrenRoutes(server: FastifyInstance) {
     handler: getChild,
   });
 
+  // Suggest tasks for a child (parent/admin access)
+  server.get('/api/households/:householdId/children/:childId/task-suggestions', {
+    schema: stripResponseValidation({
+      summary: 'Suggest tasks for a child',
+      description:
+        "Task templates ranked by the child's age, leaving out chores the child already has and favouring ones they have completed before",
+      tags: ['children'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(ChildParamsSchema),
+      querystring: zodToOpenAPI(TaskSuggestionsQuerySchema),
+      response: {
+        200: zodToOpenAPI(TaskSuggestionsResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('tasks.manage'),
+    ],
+    handler: getTaskSuggestions,
+  });
+
   // Create child (parent/admin access)
   server.post('/api/households/:householdId/children', {
     schema: stripResponseValidation({
@@ -680,7 +831,11 @@ export default async function childrenRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('children.manage'),
+    ],
     handler: createChild,
   });
 
@@ -706,7 +861,11 @@ export default async function childrenRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('children.manage'),
+    ],
     handler: updateChild,
   });
 
@@ -739,7 +898,11 @@ export default async function childrenRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('children.manage'),
+    ],
     handler: createChildUserAccount,
   });
 
@@ -771,7 +934,11 @@ export default async function childrenRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdAdmin],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('children.delete'),
+    ],
     handler: deleteChild,
   });
 }
@@ -0,0 +1,275 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { randomUUID } from 'crypto';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Household Export/Import API Tests
+ *
+ * An exported archive imports into a new household with fresh ids, the same
+ * history and points balances; records that don't fit are reported.
+ */
+
+describe('Household Export/Import API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let adminToken: string;
+  let parentToken: string;
+  let adminUserId: string;
+  let parentUserId: string;
+  let adminEmail: string;
+  let householdId: string;
+  let childId: string;
+  let taskId: string;
+  const importedHouseholdIds: string[] = [];
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const testPassword = 'TestPass123!';
+    adminEmail = `test-archive-admin-${Date.now()}@example.com`;
+    const adminData = await registerAndLogin(app, adminEmail, testPassword);
+    const parentData = await registerAndLogin(
+      app,
+      `test-archive-parent-${Date.now()}@example.com`,
+      testPassword,
+    );
+    adminToken = adminData.accessToken;
+    parentToken = parentData.accessToken;
+    adminUserId = adminData.userId;
+    parentUserId = parentData.userId;
+
+    householdId = (
+      await pool.query('INSERT INTO households (name, timezone) VALUES ($1, $2) RETURNING id', [
+        `Test Archive Household ${Date.now()}`,
+        'Europe/Oslo',
+      ])
+    ).rows[0].id;
+
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3), ($1, $4, $5)',
+      [householdId, adminUserId, 'admin', parentUserId, 'parent'],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+        [householdId, 'Emma', 2015],
+      )
+    ).rows[0].id;
+
+    taskId = (
+      await pool.query(
+        `INSERT INTO tasks (household_id, name, points, rule_type, rule_config)
+         VALUES ($1, 'Feed the cat', 5, 'weekly_rotation', $2) RETURNING id`,
+        [householdId, JSON.stringify({ rotationType: 'round_robin', assignedChildren: [childId] })],
+      )
+    ).rows[0].id;
+
+    const assignmentId = (
+      await pool.query(
+        `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+         VALUES ($1, $2, $3, '2030-01-07', 'completed') RETURNING id`,
+        [householdId, taskId, childId],
+      )
+    ).rows[0].id;
+    const completionId = (
+      await pool.query(
+        `INSERT INTO task_completions (household_id, task_assignment_id, child_id, points_earned,
+                                       approval_status, reviewed_by, reviewed_at)
+         VALUES ($1, $2, $3, 5, 'approved', $4, NOW()) RETURNING id`,
+        [householdId, assignmentId, childId, adminUserId],
+      )
+    ).rows[0].id;
+    await pool.query(
+      `INSERT INTO points_transactions (household_id, child_id, type, amount, balance_after,
+                                        task_completion_id)
+       VALUES ($1, $2, 'task_completion', 5, 5, $3)`,
+      [householdId, childId, completionId],
+    );
+
+    const rewardId = (
+      await pool.query(
+        `INSERT INTO rewards (household_id, name, points_cost) VALUES ($1, 'Ice cream', 3)
+         RETURNING id`,
+        [householdId],
+      )
+    ).rows[0].id;
+    const redemptionId = (
+      await pool.query(
+        `INSERT INTO reward_redemptions (household_id, reward_id, child_id, points_spent, status)
+         VALUES ($1, $2, $3, 3, 'approved') RETURNING id`,
+        [householdId, rewardId, childId],
+      )
+    ).rows[0].id;
+    await pool.query(
+      `INSERT INTO points_transactions (household_id, child_id, type, amount, balance_after,
+                                        reward_redemption_id)
+       VALUES ($1, $2, 'redemption', -3, 2, $3)`,
+      [householdId, childId, redemptionId],
+    );
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM households WHERE id = ANY($1::uuid[])', [
+      [householdId, ...importedHouseholdIds],
+    ]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [adminUserId, parentUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function exportArchive(token = adminToken) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/export`,
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  async function importArchive(archive: unknown, token = adminToken) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/households/import',
+      headers: { Authorization: `Bearer ${token}` },
+      payload: archive as object,
+    });
+    if (response.statusCode === 201) {
+      importedHouseholdIds.push(JSON.parse(response.body).household.id);
+    }
+    return response;
+  }
+
+  test('should export the household as a versioned archive', async () => {
+    const response = await exportArchive();
+
+    assert.strictEqual(response.statusCode, 200);
+    assert.match(String(response.headers['content-disposition']), /attachment/);
+
+    const archive = JSON.parse(response.body);
+    assert.strictEqual(archive.version, 1);
+    assert.strictEqual(archive.household.timezone, 'Europe/Oslo');
+    assert.strictEqual(archive.members.length, 2);
+    assert.strictEqual(archive.children[0].id, childId);
+    assert.deepStrictEqual(archive.tasks[0].ruleConfig.assignedChildren, [childId]);
+    assert.strictEqual(archive.assignments[0].date, '2030-01-07');
+    assert.strictEqual(archive.completions[0].reviewedBy, adminEmail);
+    assert.strictEqual(archive.redemptions.length, 1);
+    assert.strictEqual(archive.pointsTransactions.length, 2);
+  });
+
+  test('should only let admins export', async () => {
+    const response = await exportArchive(parentToken);
+
+    assert.strictEqual(response.statusCode, 403);
+  });
+
+  test('should import into a new household with remapped ids', async () => {
+    const archive = JSON.parse((await exportArchive()).body);
+
+    const response = await importArchive(archive, parentToken);
+
+    assert.strictEqual(response.statusCode, 201);
+    const body = JSON.parse(response.body);
+    const newHouseholdId = body.household.id;
+    assert.notStrictEqual(newHouseholdId, householdId);
+    assert.deepStrictEqual(body.imported, {
+      children: 1,
+      tasks: 1,
+      assignments: 1,
+      completions: 1,
+      rewards: 1,
+      redemptions: 1,
+      pointsTransactions: 2,
+    });
+
+    // The other member has to be invited again
+    assert.deepStrictEqual(
+      body.conflicts.map((c: { section: string; id: string }) => [c.section, c.id]),
+      [['members', adminEmail]],
+    );
+
+    const role = await pool.query(
+      'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
+      [newHouseholdId, parentUserId],
+    );
+    assert.strictEqual(role.rows[0].role, 'admin');
+
+    const child = await pool.query(
+      `SELECT c.id, cpb.points_balance FROM children c
+       JOIN child_points_balance cpb ON cpb.child_id = c.id
+       WHERE c.household_id = $1`,
+      [newHouseholdId],
+    );
+    assert.notStrictEqual(child.rows[0].id, childId);
+    assert.strictEqual(Number(child.rows[0].points_balance), 2);
+
+    const task = await pool.query('SELECT rule_config FROM tasks WHERE household_id = $1', [
+      newHouseholdId,
+    ]);
+    assert.deepStrictEqual(task.rows[0].rule_config.assignedChildren, [child.rows[0].id]);
+  });
+
+  test('should report records that refer to missing data', async () => {
+    const archive = JSON.parse((await exportArchive()).body);
+    const orphanId = randomUUID();
+    archive.assignments.push({
+      ...archive.assignments[0],
+      id: orphanId,
+      taskId: randomUUID(),
+    });
+
+    const response = await importArchive(archive);
+
+    assert.strictEqual(response.statusCode, 201);
+    const body = JSON.parse(response.body);
+    assert.strictEqual(body.imported.assignments, 1);
+    assert.ok(
+      body.conflicts.some(
+        (c: { section: string; id: string }) => c.section === 'assignments' && c.id === orphanId,
+      ),
+    );
+  });
+
+  test('should log the import in the new household', async () => {
+    const archive = JSON.parse((await exportArchive()).body);
+    const { household } = JSON.parse((await importArchive(archive)).body);
+
+    const events = await pool.query(
+      'SELECT action, actor_user_id FROM audit_events WHERE household_id = $1',
+      [household.id],
+    );
+    assert.deepStrictEqual(events.rows, [
+      { action: 'household.imported', actor_user_id: adminUserId },
+    ]);
+  });
+
+  test('should reject an archive of another version', async () => {
+    const archive = JSON.parse((await exportArchive()).body);
+
+    const response = await importArchive({ ...archive, version: 2 });
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+
+  test('should reject an archive with an invalid rule config', async () => {
+    const archive = JSON.parse((await exportArchive()).body);
+    archive.tasks[0].ruleConfig = { assignedChildren: ['emma'] };
+
+    const response = await importArchive(archive);
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+});
@@ -0,0 +1,169 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { HouseholdArchiveSchema, ImportHouseholdResponseSchema } from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { pool } from '../database.js';
+import { authenticateUser } from '../middleware/auth.js';
+import {
+  validateHouseholdMembership,
+  requireHouseholdPermission,
+} from '../middleware/household-membership.js';
+import { getHouseholdClient } from '../middleware/household-scope.js';
+import { validateRequest, handleZodError, withTransaction } from '../utils/index.js';
+import { stripResponseValidation } from '../schemas/common.js';
+import {
+  exportHouseholdArchive,
+  importHouseholdArchive,
+} from '../services/household-archive.service.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+
+/**
+ * Household export and import
+ *
+ * The export is a versioned JSON archive of the household; posting it back
+ * to the import endpoint recreates it as a new household.
+ */
+
+/**
+ * Largest archive accepted by the import endpoint
+ */
+const IMPORT_BODY_LIMIT = 10 * 1024 * 1024;
+
+/**
+ * GET /api/households/:householdId/export
+ * Download the household as a JSON archive (admins only)
+ */
+async function exportHousehold(
+  request: FastifyRequest<{ Params: { householdId: string } }>,
+  reply: FastifyReply,
+) {
+  const { householdId } = request.params;
+
+  try {
+    const archive = await exportHouseholdArchive(getHouseholdClient(request), householdId);
+
+    if (!archive) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Household not found',
+      });
+    }
+
+    const date = archive.exportedAt.slice(0, 10);
+    return reply
+      .header('Content-Disposition', `attachment; filename="household-${date}.json"`)
+      .send(archive);
+  } catch (error) {
+    request.log.error(error, 'Failed to export household');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to export household',
+    });
+  }
+}
+
+/**
+ * POST /api/households/import
+ * Create a new household from an archive, with the caller as admin
+ */
+async function importHousehold(request: FastifyRequest, reply: FastifyReply) {
+  const userId = request.user?.userId;
+
+  if (!userId) {
+    return reply.status(401).send({
+      statusCode: 401,
+      error: 'Unauthorized',
+      message: 'Authentication required',
+    });
+  }
+
+  try {
+    const archive = validateRequest(HouseholdArchiveSchema, request.body);
+
+    const result = await withTransaction(pool, async (client) => {
+      const imported = await importHouseholdArchive(client, archive, userId);
+
+      await recordAuditEvent(
+        request,
+        {
+          householdId: imported.household.id,
+          action: 'household.imported',
+          entityId: imported.household.id,
+          after: {
+            name: imported.household.name,
+            exportedAt: archive.exportedAt,
+            ...imported.imported,
+            conflicts: imported.conflicts.length,
+          },
+        },
+        client,
+      );
+
+      return imported;
+    });
+
+    return reply.status(201).send(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to import household');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to import household',
+    });
+  }
+}
+
+/**
+ * Register household export/import routes
+ */
+export default async function householdArchiveRoutes(server: FastifyInstance) {
+  const ParamsSchema = z.object({ householdId: z.string().uuid() });
+
+  server.get('/api/households/:householdId/export', {
+    schema: stripResponseValidation({
+      summary: 'Export household',
+      description:
+        'Versioned JSON archive of members, children, tasks, assignments, completions, rewards, redemptions and points. Admin only.',
+      tags: ['households'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(ParamsSchema),
+      response: {
+        200: zodToOpenAPI(HouseholdArchiveSchema),
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('household.manage'),
+    ],
+    handler: exportHousehold,
+  });
+
+  server.post('/api/households/import', {
+    bodyLimit: IMPORT_BODY_LIMIT,
+    schema: stripResponseValidation({
+      summary: 'Import household',
+      description:
+        'Recreate an exported archive as a new household with fresh ids; the caller becomes its admin. Records that cannot be imported are reported as conflicts.',
+      tags: ['households'],
+      security: [{ bearerAuth: [] }],
+      body: zodToOpenAPI(HouseholdArchiveSchema),
+      response: {
+        201: zodToOpenAPI(ImportHouseholdResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [authenticateUser],
+    handler: importHousehold,
+  });
+}
@@ -0,0 +1,314 @@
+import { test, describe, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import jwt from 'jsonwebtoken';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Household Events API Tests
+ *
+ * The stream never ends by itself, so these tests listen on a real port and
+ * read the response as it arrives.
+ */
+
+interface StreamedEvent {
+  type: string;
+  data: Record<string, unknown>;
+}
+
+interface EventStream {
+  statusCode: number;
+  /** Resolves with the next event of the given type */
+  next(type: string): Promise<StreamedEvent>;
+  /** Resolves when the server ends the stream */
+  ended: Promise<void>;
+  close(): void;
+}
+
+describe('Household Events API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let baseUrl: string;
+  let adminToken: string;
+  let adminUserId: string;
+  let childToken: string;
+  let childUserId: string;
+  let outsiderToken: string;
+  let outsiderUserId: string;
+  let householdId: string;
+  let childId: string;
+  let taskId: string;
+
+  before(async () => {
+    app = await build();
+    await app.listen({ port: 0, host: '127.0.0.1' });
+    baseUrl = `http://127.0.0.1:${(app.server.address() as AddressInfo).port}`;
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const timestamp = Date.now();
+    const adminData = await registerAndLogin(
+      app,
+      `test-events-admin-${timestamp}@example.com`,
+      'TestPass123!',
+    );
+    adminToken = adminData.accessToken;
+    adminUserId = adminData.userId;
+
+    const childData = await registerAndLogin(
+      app,
+      `test-events-child-${timestamp}@example.com`,
+      'ChildPass123!',
+    );
+    childToken = childData.accessToken;
+    childUserId = childData.userId;
+
+    const outsiderData = await registerAndLogin(
+      app,
+      `test-events-outsider-${timestamp}@example.com`,
+      'OutsiderPass123!',
+    );
+    outsiderToken = outsiderData.accessToken;
+    outsiderUserId = outsiderData.userId;
+
+    householdId = (
+      await pool.query('INSERT INTO households (name) VALUES ($1) RETURNING id', [
+        `Test Events Household ${timestamp}`,
+      ])
+    ).rows[0].id;
+
+    await pool.query(
+      `INSERT INTO household_members (household_id, user_id, role)
+       VALUES ($1, $2, 'admin'), ($1, $3, 'child')`,
+      [householdId, adminUserId, childUserId],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year, user_id) VALUES ($1, $2, $3, $4) RETURNING id',
+        [householdId, 'Emma', 2015, childUserId],
+      )
+    ).rows[0].id;
+
+    taskId = (
+      await pool.query(
+        `INSERT INTO tasks (household_id, name, points, rule_type)
+         VALUES ($1, 'Feed the cat', 5, 'daily') RETURNING id`,
+        [householdId],
+      )
+    ).rows[0].id;
+  });
+
+  // Each test assigns the same task for today
+  beforeEach(async () => {
+    await pool.query('DELETE FROM task_assignments WHERE household_id = $1', [householdId]);
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2, $3)', [
+      adminUserId,
+      childUserId,
+      outsiderUserId,
+    ]);
+    await pool.end();
+    await app.close();
+  });
+
+  function openStream(token: string): Promise<EventStream> {
+    return new Promise((resolve, reject) => {
+      const request = http.get(
+        `${baseUrl}/api/households/${householdId}/events`,
+        { headers: { Authorization: `Bearer ${token}` } },
+        (response) => {
+          let buffer = '';
+          const received: StreamedEvent[] = [];
+          const waiting: Array<{ type: string; resolve: (event: StreamedEvent) => void }> = [];
+
+          const flush = () => {
+            for (const waiter of [...waiting]) {
+              const index = received.findIndex((event) => event.type === waiter.type);
+              if (index !== -1) {
+                waiting.splice(waiting.indexOf(waiter), 1);
+                waiter.resolve(received.splice(index, 1)[0]);
+              }
+            }
+          };
+
+          const ended = new Promise<void>((resolveEnd) => response.on('end', resolveEnd));
+
+          response.setEncoding('utf8');
+          response.on('data', (chunk: string) => {
+            buffer += chunk;
+            let end: number;
+            while ((end = buffer.indexOf('\n\n')) !== -1) {
+              const message = buffer.slice(0, end);
+              buffer = buffer.slice(end + 2);
+              const type = /^event: (.+)$/m.exec(message)?.[1];
+              const data = /^data: (.+)$/m.exec(message)?.[1];
+              if (type && data) {
+                received.push({ type, data: JSON.parse(data).data });
+              }
+            }
+            flush();
+          });
+
+          resolve({
+            statusCode: response.statusCode ?? 0,
+            next: (type) =>
+              new Promise((resolveEvent) => {
+                waiting.push({ type, resolve: resolveEvent });
+                flush();
+              }),
+            ended,
+            close: () => request.destroy(),
+          });
+        },
+      );
+      request.on('error', (error) => {
+        if ((error as NodeJS.ErrnoException).code !== 'ECONNRESET') reject(error);
+      });
+    });
+  }
+
+  async function createAssignment(assigneeId = childId): Promise<string> {
+    return (
+      await pool.query(
+        `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+         VALUES ($1, $2, $3, CURRENT_DATE, 'pending') RETURNING id`,
+        [householdId, taskId, assigneeId],
+      )
+    ).rows[0].id;
+  }
+
+  test('should require authentication', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/events`,
+    });
+
+    assert.strictEqual(response.statusCode, 401);
+  });
+
+  test('should reject users outside the household', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/events`,
+      headers: { Authorization: `Bearer ${outsiderToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 403);
+  });
+
+  test('should push a completion to the other members', async () => {
+    const stream = await openStream(adminToken);
+    try {
+      assert.strictEqual(stream.statusCode, 200);
+      const assignmentId = await createAssignment();
+
+      const completion = await app.inject({
+        method: 'POST',
+        url: `/api/assignments/${assignmentId}/complete`,
+        headers: { Authorization: `Bearer ${childToken}` },
+      });
+      assert.strictEqual(completion.statusCode, 200);
+
+      const event = await stream.next('assignment.completed');
+      assert.strictEqual(event.data.assignmentId, assignmentId);
+      assert.strictEqual(event.data.childId, childId);
+      assert.strictEqual(event.data.status, 'completed');
+    } finally {
+      stream.close();
+    }
+  });
+
+  test("should not send children another child's events", async () => {
+    const siblingId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+        [householdId, 'Noah', 2013],
+      )
+    ).rows[0].id;
+    const stream = await openStream(childToken);
+    try {
+      const siblingAssignmentId = await createAssignment(siblingId);
+      const ownAssignmentId = await createAssignment();
+
+      for (const assignmentId of [siblingAssignmentId, ownAssignmentId]) {
+        const completion = await app.inject({
+          method: 'POST',
+          url: `/api/assignments/${assignmentId}/complete`,
+          headers: { Authorization: `Bearer ${adminToken}` },
+        });
+        assert.strictEqual(completion.statusCode, 200);
+      }
+
+      const event = await stream.next('assignment.completed');
+      assert.strictEqual(event.data.assignmentId, ownAssignmentId);
+    } finally {
+      stream.close();
+    }
+  });
+
+  test('should end the stream when the access token expires', async () => {
+    const { iat: _iat, exp: _exp, ...payload } = jwt.decode(childToken) as jwt.JwtPayload;
+    const shortLivedToken = jwt.sign(
+      payload,
+      process.env.JWT_SECRET || 'dev-secret-change-in-production',
+      { expiresIn: '1s' },
+    );
+
+    const stream = await openStream(shortLivedToken);
+    try {
+      assert.strictEqual(stream.statusCode, 200);
+      await stream.ended;
+    } finally {
+      stream.close();
+    }
+  });
+
+  test('should push a redemption status change', async () => {
+    const stream = await openStream(childToken);
+    try {
+      const rewardId = (
+        await pool.query(
+          `INSERT INTO rewards (household_id, name, points_cost) VALUES ($1, 'Movie night', 5)
+           RETURNING id`,
+          [householdId],
+        )
+      ).rows[0].id;
+
+      const redeemed = await app.inject({
+        method: 'POST',
+        url: `/api/children/me/rewards/${rewardId}/redeem`,
+        headers: { Authorization: `Bearer ${childToken}` },
+      });
+      assert.strictEqual(redeemed.statusCode, 201);
+      const redemptionId = JSON.parse(redeemed.body).redemption.id;
+      assert.strictEqual((await stream.next('redemption.status_changed')).data.status, 'pending');
+
+      const approved = await app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/redemptions/${redemptionId}/approve`,
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      assert.strictEqual(approved.statusCode, 200);
+
+      const event = await stream.next('redemption.status_changed');
+      assert.strictEqual(event.data.redemptionId, redemptionId);
+      assert.strictEqual(event.data.status, 'approved');
+    } finally {
+      stream.close();
+    }
+  });
+});
@@ -0,0 +1,174 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { pool } from '../database.js';
+import { authenticateUser } from '../middleware/auth.js';
+import { validateHouseholdMembership } from '../middleware/household-membership.js';
+import {
+  canViewHouseholdEvent,
+  getHouseholdEventBus,
+  toServerSentEvent,
+  type HouseholdEventViewer,
+} from '../services/household-events.service.js';
+import { ChildRepository } from '../repositories/child.repository.js';
+import { UserSessionRepository } from '../repositories/user-session.repository.js';
+import { validateParams, handleZodError } from '../utils/index.js';
+import { householdIdParamSchema } from '../schemas/validation.js';
+import { stripResponseValidation } from '../schemas/common.js';
+
+/**
+ * Household Events
+ *
+ * A Server-Sent Events stream of the changes made in a household, so open
+ * dashboards update without reloading. Authenticated with the usual Bearer
+ * token; clients read the stream with fetch (EventSource cannot send it).
+ *
+ * Each member only receives the events their role may see. A stream ends
+ * when its access token expires, and once its session is revoked, the
+ * member leaves the household or their role changes; clients reconnect
+ * with a fresh token and are checked again.
+ */
+
+interface HouseholdParams {
+  householdId: string;
+}
+
+/**
+ * Comment lines keep proxies from closing an idle stream
+ */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+/**
+ * How long browsers wait before reconnecting a dropped stream
+ */
+const RECONNECT_DELAY_MS = 5_000;
+
+/**
+ * How often an open stream re-checks the session and membership
+ */
+const ACCESS_CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Whether the session is still active and the member still has the role
+ * the stream was opened with
+ */
+async function hasStreamAccess(
+  userId: string,
+  sessionId: string,
+  householdId: string,
+  role: HouseholdEventViewer['role'],
+): Promise<boolean> {
+  const [membership, sessionActive] = await Promise.all([
+    pool.query<{ role: string }>(
+      'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
+      [householdId, userId],
+    ),
+    new UserSessionRepository(pool).isActive(sessionId, userId),
+  ]);
+  return sessionActive && membership.rows[0]?.role === role;
+}
+
+/**
+ * GET /api/households/:householdId/events
+ * Stream the household's events until the client disconnects
+ */
+async function streamHouseholdEvents(
+  request: FastifyRequest<{ Params: HouseholdParams }>,
+  reply: FastifyReply,
+  openStreams: Set<() => void>,
+) {
+  let householdId: string;
+  try {
+    ({ householdId } = validateParams(householdIdParamSchema, request));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    throw error;
+  }
+
+  const { userId, sessionId, expiresAt } = request.user!;
+  const role = request.household!.role;
+  const child =
+    role === 'child'
+      ? await new ChildRepository(pool).findByUserIdAndHousehold(userId, householdId)
+      : null;
+  const viewer: HouseholdEventViewer = { role, childId: child?.id ?? null };
+
+  // Membership is checked; don't hold a database connection for the whole stream
+  await request.householdScope?.commit();
+
+  reply.hijack();
+  // Headers set by hooks (CORS, request id) are not sent for a hijacked reply
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) reply.raw.setHeader(name, value);
+  }
+  reply.raw.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  reply.raw.write(`retry: ${RECONNECT_DELAY_MS}\n: connected\n\n`);
+
+  const unsubscribe = getHouseholdEventBus().subscribe(householdId, (event) => {
+    if (canViewHouseholdEvent(event, viewer)) {
+      reply.raw.write(toServerSentEvent(event));
+    }
+  });
+  const heartbeat = setInterval(() => reply.raw.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+  const expiry = setTimeout(() => close(), Math.max(0, (expiresAt ?? 0) * 1000 - Date.now()));
+  const accessCheck = setInterval(() => {
+    hasStreamAccess(userId, sessionId!, householdId, role)
+      .then((allowed) => {
+        if (!allowed) close();
+      })
+      .catch((error) => request.log.error(error, 'Failed to re-check household events access'));
+  }, ACCESS_CHECK_INTERVAL_MS);
+
+  const close = () => {
+    if (!openStreams.delete(close)) return;
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    clearInterval(accessCheck);
+    unsubscribe();
+    reply.raw.end();
+  };
+  openStreams.add(close);
+  // The response closes when the client goes away
+  reply.raw.on('close', close);
+}
+
+/**
+ * Register household event routes
+ */
+export default async function householdEventRoutes(server: FastifyInstance) {
+  const HouseholdParamsSchema = z.object({
+    householdId: z.string().uuid(),
+  });
+
+  // Streams never finish by themselves, so end them before the server closes
+  const openStreams = new Set<() => void>();
+  server.addHook('preClose', async () => {
+    for (const close of openStreams) {
+      close();
+    }
+  });
+
+  server.get<{ Params: HouseholdParams }>('/api/households/:householdId/events', {
+    schema: stripResponseValidation({
+      summary: 'Stream household events',
+      description:
+        'Server-Sent Events stream of assignment, single task and redemption changes in the household',
+      tags: ['households'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(HouseholdParamsSchema),
+      response: {
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+      },
+    }),
+    preHandler: [authenticateUser, validateHouseholdMembership],
+    handler: (request, reply) => streamHouseholdEvents(request, reply, openStreams),
+  });
+}
@@ -242,6 +242,49 @@ describe('Household API', () => {
       });
       assert.strictEqual(response.statusCode, 403);
     });
+
+    test('should update timezone without changing name', async () => {
+      const before = await app.inject({
+        method: 'GET',
+        url: `/api/households/${adminHouseholdId}`,
+        headers: { Authorization: `Bearer ${user1Token}` },
+      });
+      const originalName = JSON.parse(before.body).name;
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/households/${adminHouseholdId}`,
+        headers: { Authorization: `Bearer ${user1Token}` },
+        payload: { timezone: 'Europe/Oslo' },
+      });
+
+      assert.strictEqual(response.statusCode, 200);
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.timezone, 'Europe/Oslo');
+      assert.strictEqual(body.name, originalName);
+    });
+
+    test('should reject invalid timezone', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/households/${adminHouseholdId}`,
+        headers: { Authorization: `Bearer ${user1Token}` },
+        payload: { timezone: 'Not/AZone' },
+      });
+      assert.strictEqual(response.statusCode, 400);
+    });
+
+    test('should turn on approval for the whole household', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/households/${adminHouseholdId}`,
+        headers: { Authorization: `Bearer ${user1Token}` },
+        payload: { requiresApproval: true },
+      });
+
+      assert.strictEqual(response.statusCode, 200);
+      assert.strictEqual(JSON.parse(response.body).requiresApproval, true);
+    });
   });
 
   describe('GET /api/households/:id/members', () => {
@@ -10,10 +10,21 @@ import { db, pool } from '../database.js';
 import { authenticateUser } from '../middleware/auth.js';
 import {
   validateHouseholdMembership,
-  requireHouseholdAdmin,
+  requireHouseholdPermission,
 } from '../middleware/household-membership.js';
-import { validateRequest, handleZodError, withTransaction } from '../utils/index.js';
+import { getHouseholdClient } from '../middleware/household-scope.js';
+import {
+  validateRequest,
+  handleZodError,
+  withTransaction,
+  DEFAULT_TIMEZONE,
+  getLocalToday,
+  getWeekStart,
+  addDays,
+} from '../utils/index.js';
 import { stripResponseValidation } from '../schemas/common.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import { recordAuditEvent } from '../services/audit.service.js';
 
 function toDateTimeString(value: unknown): string {
   if (value instanceof Date) return value.toISOString();
@@ -24,6 +35,7 @@ function toDateTimeString(value: unknown): string {
 interface CreateHouseholdRequest {
   Body: {
     name: string;
+    timezone?: string;
   };
 }
 
@@ -38,7 +50,9 @@ interface UpdateHouseholdRequest {
     householdId: string;
   };
   Body: {
-    name: string;
+    name?: string;
+    timezone?: string;
+    requiresApproval?: boolean;
   };
 }
 
@@ -63,13 +77,13 @@ async function createHousehold(
   try {
     // Validate request body with Zod schema
     const validatedData = validateRequest(CreateHouseholdRequestSchema, request.body);
-    const { name } = validatedData;
+    const { name, timezone } = validatedData;
 
     const household = await withTransaction(pool, async (client) => {
       // Insert household
       const householdResult = await client.query(
-        'INSERT INTO households (name) VALUES ($1) RETURNING id, name, created_at, updated_at',
-        [name.trim()],
+        'INSERT INTO households (name, timezone) VALUES ($1, $2) RETURNING id, name, timezone, created_at, updated_at',
+        [name.trim(), timezone ?? DEFAULT_TIMEZONE],
       );
 
       const newHousehold = householdResult.rows[0];
@@ -86,6 +100,7 @@ async function createHousehold(
     return reply.status(201).send({
       id: household.id,
       name: household.name,
+      timezone: household.timezone,
       role: 'admin',
       createdAt: household.created_at,
       updatedAt: household.updated_at,
@@ -124,6 +139,10 @@ async function listHouseholds(request: FastifyRequest, reply: FastifyReply) {
       `SELECT
         h.id,
         h.name,
+        h.timezone,
+        h.requires_approval,
+        h.late_completion_policy,
+        h.late_points_percent,
         h.created_at,
         h.updated_at,
         hm.role,
@@ -141,6 +160,10 @@ async function listHouseholds(request: FastifyRequest, reply: FastifyReply) {
     const households = result.rows.map((row) => ({
       id: row.id,
       name: row.name,
+      timezone: row.timezone,
+      requiresApproval: row.requires_approval,
+      lateCompletionPolicy: row.late_completion_policy,
+      latePointsPercent: row.late_points_percent,
       role: row.role,
       memberCount: parseInt(row.member_count, 10),
       childrenCount: parseInt(row.children_count, 10),
@@ -166,6 +189,7 @@ async function listHouseholds(request: FastifyRequest, reply: FastifyReply) {
  * Returns household details if user is a member
  */
 async function getHousehold(request: FastifyRequest<GetHouseholdRequest>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   const { householdId: id } = request.params;
   const role = request.household?.role;
 
@@ -178,10 +202,14 @@ async function getHousehold(request: FastifyRequest<GetHouseholdRequest>, reply:
 
   try {
     // Get household details
-    const householdResult = await db.query(
+    const householdResult = await client.query(
       `SELECT 
         h.id, 
         h.name, 
+        h.timezone,
+        h.requires_approval,
+        h.late_completion_policy,
+        h.late_points_percent,
         h.created_at, 
         h.updated_at,
         (SELECT COUNT(*) FROM household_members WHERE household_id = h.id) as member_count,
@@ -203,6 +231,10 @@ async function getHousehold(request: FastifyRequest<GetHouseholdRequest>, reply:
     return reply.send({
       id: household.id,
       name: household.name,
+      timezone: household.timezone,
+      requiresApproval: household.requires_approval,
+      lateCompletionPolicy: household.late_completion_policy,
+      latePointsPercent: household.late_points_percent,
       role,
       memberCount: parseInt(household.member_count, 10),
       childrenCount: parseInt(household.children_count, 10),
@@ -221,23 +253,47 @@ async function getHousehold(request: FastifyRequest<GetHouseholdRequest>, reply:
 
 /**
  * PUT /api/households/:id - Update household
- * Updates household name (admin only)
+ * Updates household name, timezone, approval and/or late completion settings (admin only)
  */
 async function updateHousehold(
   request: FastifyRequest<UpdateHouseholdRequest>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId: id } = request.params;
 
   try {
     // Validate request body with Zod schema
     const validatedData = validateRequest(UpdateHouseholdRequestSchema, request.body);
-    const { name } = validatedData;
+    const { name, timezone, requiresApproval, lateCompletionPolicy, latePointsPercent } =
+      validatedData;
+
+    const previous = await client.query(
+      `SELECT name, timezone, requires_approval, late_completion_policy, late_points_percent
+       FROM households WHERE id = $1 FOR UPDATE`,
+      [id],
+    );
 
     // Update household (middleware already validated admin role)
-    const result = await db.query(
-      'UPDATE households SET name = $1, updated_at = NOW() WHERE id = $2 RETURNING id, name, created_at, updated_at',
-      [name.trim(), id],
+    const result = await client.query(
+      `UPDATE households
+       SET name = COALESCE($1, name),
+           timezone = COALESCE($2, timezone),
+           requires_approval = COALESCE($3, requires_approval),
+           late_completion_policy = COALESCE($4, late_completion_policy),
+           late_points_percent = COALESCE($5, late_points_percent),
+           updated_at = NOW()
+       WHERE id = $6
+       RETURNING id, name, timezone, requires_approval, late_completion_policy,
+                 late_points_percent, created_at, updated_at`,
+      [
+        name?.trim() ?? null,
+        timezone ?? null,
+        requiresApproval ?? null,
+        lateCompletionPolicy ?? null,
+        latePointsPercent ?? null,
+        id,
+      ],
     );
 
     if (result.rows.length === 0) {
@@ -250,9 +306,33 @@ async function updateHousehold(
 
     const household = result.rows[0];
 
+    await recordAuditEvent(request, {
+      householdId: id,
+      action: 'household.updated',
+      entityId: id,
+      before: {
+        name: previous.rows[0].name,
+        timezone: previous.rows[0].timezone,
+        requiresApproval: previous.rows[0].requires_approval,
+        lateCompletionPolicy: previous.rows[0].late_completion_policy,
+        latePointsPercent: previous.rows[0].late_points_percent,
+      },
+      after: {
+        name: household.name,
+        timezone: household.timezone,
+        requiresApproval: household.requires_approval,
+        lateCompletionPolicy: household.late_completion_policy,
+        latePointsPercent: household.late_points_percent,
+      },
+    });
+
     return reply.send({
       id: household.id,
       name: household.name,
+      timezone: household.timezone,
+      requiresApproval: household.requires_approval,
+      lateCompletionPolicy: household.late_completion_policy,
+      latePointsPercent: household.late_points_percent,
       createdAt: toDateTimeString(household.created_at),
       updatedAt: toDateTimeString(household.updated_at),
     });
@@ -279,12 +359,13 @@ async function getHouseholdDashboard(
   request: FastifyRequest<GetHouseholdRequest>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId: id } = request.params;
 
   try {
     // Get household info
-    const householdResult = await db.query(
-      'SELECT id, name, created_at, updated_at FROM households WHERE id = $1',
+    const householdResult = await client.query(
+      'SELECT id, name, timezone, created_at, updated_at FROM households WHERE id = $1',
       [id],
     );
 
@@ -297,19 +378,24 @@ async function getHouseholdDashboard(
 
     const household = householdResult.rows[0];
 
+    // "Today" and the week are the household's local calendar days
+    const today = getLocalToday(household.timezone);
+    const weekStart = getWeekStart(today);
+    const weekEnd = addDays(weekStart, 7);
+
     // Get week summary from task_assignments
     // Week starts on Monday, ends on Sunday
-    const weekSummaryResult = await db.query(
+    const weekSummaryResult = await client.query(
       `SELECT 
         COUNT(*) as total,
         SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
-        SUM(CASE WHEN status = 'pending' AND date >= CURRENT_DATE THEN 1 ELSE 0 END) as pending,
-        SUM(CASE WHEN status = 'pending' AND date < CURRENT_DATE THEN 1 ELSE 0 END) as overdue
+        SUM(CASE WHEN status = 'pending' AND date >= $2::date THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN status = 'overdue' OR (status = 'pending' AND date < $2::date) THEN 1 ELSE 0 END) as overdue
       FROM task_assignments
       WHERE household_id = $1 
-        AND date >= date_trunc('week', CURRENT_DATE)
-        AND date < date_trunc('week', CURRENT_DATE) + INTERVAL '7 days'`,
-      [id],
+        AND date >= $3::date
+        AND date < $4::date`,
+      [id, today, weekStart, weekEnd],
     );
 
     const weekStats = weekSummaryResult.rows[0];
@@ -320,7 +406,7 @@ async function getHouseholdDashboard(
     const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
 
     // Get per-child statistics
-    const childrenResult = await db.query(
+    const childrenResult = await client.query(
       `SELECT 
         c.id, 
         c.name,
@@ -328,12 +414,12 @@ async function getHouseholdDashboard(
         SUM(CASE WHEN ta.status = 'completed' THEN 1 ELSE 0 END) as tasks_completed
       FROM children c
       LEFT JOIN task_assignments ta ON ta.child_id = c.id 
-        AND ta.date >= date_trunc('week', CURRENT_DATE)
-        AND ta.date < date_trunc('week', CURRENT_DATE) + INTERVAL '7 days'
+        AND ta.date >= $2::date
+        AND ta.date < $3::date
       WHERE c.household_id = $1
       GROUP BY c.id, c.name
       ORDER BY c.name`,
-      [id],
+      [id, weekStart, weekEnd],
     );
 
     const children = childrenResult.rows.map((row) => {
@@ -352,6 +438,7 @@ async function getHouseholdDashboard(
       household: {
         id: household.id,
         name: household.name,
+        timezone: household.timezone,
         createdAt: toDateTimeString(household.created_at),
         updatedAt: toDateTimeString(household.updated_at),
       },
@@ -378,6 +465,7 @@ async function getHouseholdDashboard(
  * Removes user from household membership
  */
 async function leaveHousehold(request: FastifyRequest<GetHouseholdRequest>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
   const userId = request.user?.userId;
 
@@ -391,7 +479,7 @@ async function leaveHousehold(request: FastifyRequest<GetHouseholdRequest>, repl
 
   try {
     // Check if user is the only admin
-    const adminCountResult = await db.query(
+    const adminCountResult = await client.query(
       `SELECT COUNT(*) as admin_count FROM household_members
        WHERE household_id = $1 AND role = 'admin'`,
       [householdId],
@@ -410,11 +498,18 @@ async function leaveHousehold(request: FastifyRequest<GetHouseholdRequest>, repl
     }
 
     // Remove user from household
-    await db.query('DELETE FROM household_members WHERE household_id = $1 AND user_id = $2', [
+    await client.query('DELETE FROM household_members WHERE household_id = $1 AND user_id = $2', [
       householdId,
       userId,
     ]);
 
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'member.left',
+      entityId: userId,
+      before: { userId, role: userRole },
+    });
+
     return reply.status(204).send();
   } catch (error) {
     request.log.error(error, 'Failed to leave household');
@@ -431,11 +526,12 @@ async function leaveHousehold(request: FastifyRequest<GetHouseholdRequest>, repl
  * Permanently removes household and all related data (admin only)
  */
 async function deleteHousehold(request: FastifyRequest<GetHouseholdRequest>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
 
   try {
     // Delete household - CASCADE will remove all related data
-    const result = await db.query('DELETE FROM households WHERE id = $1 RETURNING id', [
+    const result = await client.query('DELETE FROM households WHERE id = $1 RETURNING id', [
       householdId,
     ]);
 
@@ -466,12 +562,14 @@ async function getHouseholdMembers(
   request: FastifyRequest<GetHouseholdRequest>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId: id } = request.params;
-  const today = new Date().toISOString().split('T')[0];
 
   try {
+    const today = getLocalToday(await new HouseholdRepository(client).getTimezone(id));
+
     // Get all household members with their user info
-    const membersResult = await db.query(
+    const membersResult = await client.query(
       `SELECT
         u.id as user_id,
         u.email,
@@ -487,7 +585,7 @@ async function getHouseholdMembers(
 
     // Get children stats: tasks for today and points balance
     // This links household members (via user_id) to children profiles
-    const childrenStatsResult = await db.query(
+    const childrenStatsResult = await client.query(
       `SELECT
         c.user_id,
         c.id as child_id,
@@ -693,7 +791,11 @@ export default async function householdRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdAdmin],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('household.manage'),
+    ],
     handler: updateHousehold,
   });
 
@@ -715,7 +817,7 @@ export default async function householdRoutes(server: FastifyInstance) {
               userId: { type: 'string', format: 'uuid' },
               email: { type: 'string', format: 'email' },
               displayName: { type: ['string', 'null'] },
-              role: { type: 'string', enum: ['admin', 'parent', 'child'] },
+              role: { type: 'string', enum: ['admin', 'parent', 'caregiver', 'child'] },
               joinedAt: { type: 'string', format: 'date-time' },
               tasksCompleted: { type: 'integer', description: 'Tasks completed today' },
               totalTasks: { type: 'integer', description: 'Total tasks assigned today' },
@@ -819,7 +921,11 @@ export default async function householdRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdAdmin],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('household.manage'),
+    ],
     handler: deleteHousehold,
   });
 }
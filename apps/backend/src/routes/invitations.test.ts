@@ -663,6 +663,153 @@ describe('Invitation API', () => {
     });
   });
 
+  describe('Invite links', () => {
+    async function createLink(payload: Record<string, unknown>) {
+      return app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/invitations`,
+        headers: { Authorization: `Bearer ${user1Token}` },
+        payload,
+      });
+    }
+
+    async function acceptAs(token: string, accessToken: string) {
+      return app.inject({
+        method: 'POST',
+        url: `/api/invitations/${token}/accept`,
+        headers: { Authorization: `Bearer ${accessToken}` },
+        payload: {},
+      });
+    }
+
+    test('should create a link without email and show its token to the household', async () => {
+      const response = await createLink({ role: 'parent', maxUses: 2, expiresInDays: 3 });
+
+      assert.strictEqual(response.statusCode, 201);
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.email, null);
+      assert.strictEqual(body.maxUses, 2);
+      assert.strictEqual(body.useCount, 0);
+
+      const listResponse = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/invitations`,
+        headers: { Authorization: `Bearer ${user1Token}` },
+      });
+      const link = JSON.parse(listResponse.body).invitations.find((i: any) => i.id === body.id);
+      assert.strictEqual(link.token, body.token);
+
+      await pool.query('DELETE FROM invitations WHERE id = $1', [body.id]);
+    });
+
+    test('should not show link tokens to members who cannot invite', async () => {
+      const link = JSON.parse((await createLink({ role: 'caregiver' })).body);
+      await pool.query(
+        `INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, 'child')`,
+        [householdId, user3Id],
+      );
+
+      const listResponse = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/invitations`,
+        headers: { Authorization: `Bearer ${user3Token}` },
+      });
+
+      assert.strictEqual(listResponse.statusCode, 200);
+      const listed = JSON.parse(listResponse.body).invitations.find((i: any) => i.id === link.id);
+      assert.strictEqual(listed.token, undefined);
+
+      await pool.query('DELETE FROM household_members WHERE household_id = $1 AND user_id = $2', [
+        householdId,
+        user3Id,
+      ]);
+      await pool.query('DELETE FROM invitations WHERE id = $1', [link.id]);
+    });
+
+    test('should reject invalid link options', async () => {
+      assert.strictEqual((await createLink({ role: 'parent', maxUses: 0 })).statusCode, 400);
+      assert.strictEqual((await createLink({ role: 'parent', expiresInDays: 31 })).statusCode, 400);
+      assert.strictEqual((await createLink({ role: 'child' })).statusCode, 400);
+      assert.strictEqual((await createLink({ role: 'admin' })).statusCode, 400);
+    });
+
+    test('should accept a link up to its number of uses', async () => {
+      const link = JSON.parse((await createLink({ role: 'parent', maxUses: 2 })).body);
+      const users = await Promise.all(
+        ['link-first', 'link-second', 'link-third'].map((prefix) =>
+          registerAndLogin(app, generateTestEmail(prefix), 'TestPass123!'),
+        ),
+      );
+      const userIds = users.map((user) => user.userId);
+
+      assert.strictEqual((await acceptAs(link.token, users[0].accessToken)).statusCode, 200);
+      assert.strictEqual((await acceptAs(link.token, users[1].accessToken)).statusCode, 200);
+      assert.strictEqual((await acceptAs(link.token, users[2].accessToken)).statusCode, 400);
+
+      const stored = await pool.query('SELECT status, use_count FROM invitations WHERE id = $1', [
+        link.id,
+      ]);
+      assert.strictEqual(stored.rows[0].status, 'accepted');
+      assert.strictEqual(stored.rows[0].use_count, 2);
+
+      await pool.query('DELETE FROM household_members WHERE user_id = ANY($1)', [userIds]);
+      await pool.query('DELETE FROM invitations WHERE id = $1', [link.id]);
+      await pool.query('DELETE FROM users WHERE id = ANY($1)', [userIds]);
+    });
+
+    test('should attach the accepting user to the child profile', async () => {
+      const childResponse = await app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/children`,
+        headers: { Authorization: `Bearer ${user1Token}` },
+        payload: { name: 'Link Child', birthYear: 2014 },
+      });
+      const childId = JSON.parse(childResponse.body).id;
+
+      const response = await createLink({ role: 'child', childId, maxUses: 5 });
+      assert.strictEqual(response.statusCode, 201);
+      const link = JSON.parse(response.body);
+      // Child invitations are always single-use
+      assert.strictEqual(link.maxUses, 1);
+
+      // Only one pending invitation per child
+      assert.strictEqual((await createLink({ role: 'child', childId })).statusCode, 409);
+
+      const childUser = await registerAndLogin(
+        app,
+        generateTestEmail('link-child'),
+        'TestPass123!',
+      );
+      const acceptResponse = await acceptAs(link.token, childUser.accessToken);
+
+      assert.strictEqual(acceptResponse.statusCode, 200);
+      assert.strictEqual(JSON.parse(acceptResponse.body).household.role, 'child');
+      const child = await pool.query('SELECT user_id FROM children WHERE id = $1', [childId]);
+      assert.strictEqual(child.rows[0].user_id, childUser.userId);
+
+      await pool.query('DELETE FROM invitations WHERE id = $1', [link.id]);
+      await pool.query('DELETE FROM children WHERE id = $1', [childId]);
+      await pool.query('DELETE FROM household_members WHERE user_id = $1', [childUser.userId]);
+      await pool.query('DELETE FROM users WHERE id = $1', [childUser.userId]);
+    });
+
+    test('should stop accepting a revoked link', async () => {
+      const link = JSON.parse((await createLink({ role: 'parent', maxUses: null })).body);
+
+      const revokeResponse = await app.inject({
+        method: 'DELETE',
+        url: `/api/households/${householdId}/invitations/${link.id}`,
+        headers: { Authorization: `Bearer ${user1Token}` },
+      });
+      assert.strictEqual(revokeResponse.statusCode, 204);
+
+      const response = await acceptAs(link.token, user3Token);
+      assert.strictEqual(response.statusCode, 400);
+
+      await pool.query('DELETE FROM invitations WHERE id = $1', [link.id]);
+    });
+  });
+
   describe('Security Tests', () => {
     test('should not leak invitation tokens in list response for sent invitations', async () => {
       // Create invitation
@@ -4,8 +4,12 @@ import { db, pool } from '../database.js';
 import { authenticateUser } from '../middleware/auth.js';
 import { validateHouseholdMembership } from '../middleware/household-membership.js';
 import { validateCanInvite } from '../middleware/invitation-auth.js';
+import { getHouseholdClient } from '../middleware/household-scope.js';
 import { getEmailService } from '../services/email.service.js';
+import { hasPermission } from '../services/authorization.service.js';
 import { withTransaction } from '../utils/index.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import type { InvitationRole } from '../types/database.js';
 
 /**
  * Custom error for transaction validation failures
@@ -27,8 +31,11 @@ interface CreateInvitationRequest {
     householdId: string;
   };
   Body: {
-    email: string;
-    role?: 'admin' | 'parent';
+    email?: string | null;
+    role?: InvitationRole;
+    childId?: string;
+    maxUses?: number | null;
+    expiresInDays?: number;
   };
 }
 
@@ -66,6 +73,12 @@ interface CleanupInvitationsRequest {
   };
 }
 
+const INVITATION_ROLES = ['admin', 'parent', 'caregiver', 'child'];
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 30;
+const MAX_LINK_USES = 100;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
  * Generate secure random token for invitation
  */
@@ -73,15 +86,32 @@ function generateInvitationToken(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
+function isWholeNumberBetween(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
 /**
  * POST /api/households/:householdId/invitations - Send invitation
+ *
+ * With an email, the invitation is mailed and only that address can accept it.
+ * Without one, it is a shareable link anyone holding the token can accept, up
+ * to maxUses times (null = unlimited), for any role but admin. A child
+ * invitation names the child profile the accepting user is attached to, and
+ * is always single-use.
  */
 async function createInvitation(
   request: FastifyRequest<CreateInvitationRequest>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
-  const { email, role = 'parent' } = request.body;
+  const {
+    email,
+    role = 'parent',
+    childId,
+    maxUses = null,
+    expiresInDays = DEFAULT_EXPIRY_DAYS,
+  } = request.body ?? {};
   const userId = request.user?.userId;
 
   if (!userId) {
@@ -91,9 +121,11 @@ async function createInvitation(
     });
   }
 
+  const isLink = email === undefined || email === null;
+
   // Validate email format
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!email || !emailRegex.test(email)) {
+  if (!isLink && (typeof email !== 'string' || !emailRegex.test(email))) {
     return reply.status(400).send({
       error: 'Bad Request',
       message: 'Valid email address is required',
@@ -101,45 +133,115 @@ async function createInvitation(
   }
 
   // Validate role
-  if (role !== 'admin' && role !== 'parent') {
+  if (!INVITATION_ROLES.includes(role)) {
+    return reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Role must be "admin", "parent", "caregiver" or "child"',
+    });
+  }
+
+  // Whoever holds a link joins with its role, so admins are only invited by email
+  if (isLink && role === 'admin') {
+    return reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Invite links cannot grant the admin role; invite admins by email',
+    });
+  }
+
+  if (role === 'child' ? !childId || !UUID_REGEX.test(childId) : childId !== undefined) {
+    return reply.status(400).send({
+      error: 'Bad Request',
+      message: 'childId is required for the child role, and only allowed for it',
+    });
+  }
+
+  if (maxUses !== null && !isWholeNumberBetween(maxUses, 1, MAX_LINK_USES)) {
     return reply.status(400).send({
       error: 'Bad Request',
-      message: 'Role must be "admin" or "parent"',
+      message: `maxUses must be between 1 and ${MAX_LINK_USES}`,
     });
   }
 
+  if (!isWholeNumberBetween(expiresInDays, 1, MAX_EXPIRY_DAYS)) {
+    return reply.status(400).send({
+      error: 'Bad Request',
+      message: `expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}`,
+    });
+  }
+
+  // Email invitations and child invitations can only be accepted once
+  const uses = isLink && role !== 'child' ? maxUses : 1;
+  const invitedEmail = isLink ? null : email.toLowerCase();
+
   try {
-    // Check if user is already a household member
-    const memberCheck = await db.query(
-      `SELECT hm.id FROM household_members hm
-       JOIN users u ON hm.user_id = u.id
-       WHERE hm.household_id = $1 AND u.email = $2`,
-      [householdId, email.toLowerCase()],
-    );
+    if (invitedEmail) {
+      // Check if user is already a household member
+      const memberCheck = await client.query(
+        `SELECT hm.id FROM household_members hm
+         JOIN users u ON hm.user_id = u.id
+         WHERE hm.household_id = $1 AND u.email = $2`,
+        [householdId, invitedEmail],
+      );
 
-    if (memberCheck.rows.length > 0) {
-      return reply.status(409).send({
-        error: 'Conflict',
-        message: 'User is already a household member',
-      });
+      if (memberCheck.rows.length > 0) {
+        return reply.status(409).send({
+          error: 'Conflict',
+          message: 'User is already a household member',
+        });
+      }
+
+      // Check for pending invitation
+      const invitationCheck = await client.query(
+        `SELECT id FROM invitations
+         WHERE household_id = $1 AND invited_email = $2 AND status = 'pending' AND expires_at > NOW()`,
+        [householdId, invitedEmail],
+      );
+
+      if (invitationCheck.rows.length > 0) {
+        return reply.status(409).send({
+          error: 'Conflict',
+          message: 'Pending invitation already exists for this email',
+        });
+      }
     }
 
-    // Check for pending invitation
-    const invitationCheck = await db.query(
-      `SELECT id FROM invitations
-       WHERE household_id = $1 AND invited_email = $2 AND status = 'pending' AND expires_at > NOW()`,
-      [householdId, email.toLowerCase()],
-    );
+    if (childId) {
+      // The child profile must exist here and not have an account yet
+      const childCheck = await client.query(
+        `SELECT user_id FROM children WHERE id = $1 AND household_id = $2`,
+        [childId, householdId],
+      );
 
-    if (invitationCheck.rows.length > 0) {
-      return reply.status(409).send({
-        error: 'Conflict',
-        message: 'Pending invitation already exists for this email',
-      });
+      if (childCheck.rows.length === 0) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Child not found in this household',
+        });
+      }
+
+      if (childCheck.rows[0].user_id) {
+        return reply.status(409).send({
+          error: 'Conflict',
+          message: 'Child already has a user account',
+        });
+      }
+
+      const childInvitationCheck = await client.query(
+        `SELECT id FROM invitations
+         WHERE child_id = $1 AND status = 'pending' AND expires_at > NOW()`,
+        [childId],
+      );
+
+      if (childInvitationCheck.rows.length > 0) {
+        return reply.status(409).send({
+          error: 'Conflict',
+          message: 'Pending invitation already exists for this child',
+        });
+      }
     }
 
     // Get household name and inviter email for email template
-    const householdResult = await db.query(
+    const householdResult = await client.query(
       `SELECT h.name, u.email as inviter_email
        FROM households h
        JOIN users u ON u.id = $1
@@ -160,46 +262,64 @@ async function createInvitation(
     // Generate unique token
     const token = generateInvitationToken();
 
-    // Calculate expiration date (7 days from now)
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
-
     // Insert invitation
-    const result = await db.query(
-      `INSERT INTO invitations (household_id, invited_by, invited_email, token, role, status, expires_at)
-       VALUES ($1, $2, $3, $4, $5, 'pending', NOW() + INTERVAL '7 days')
-       RETURNING id, invited_email, token, role, status, expires_at, created_at`,
-      [householdId, userId, email.toLowerCase(), token, role],
+    const result = await client.query(
+      `INSERT INTO invitations
+         (household_id, invited_by, invited_email, token, role, status, expires_at, child_id,
+          max_uses)
+       VALUES ($1, $2, $3, $4, $5, 'pending', NOW() + make_interval(days => $6), $7, $8)
+       RETURNING id, invited_email, token, role, status, expires_at, created_at, child_id,
+                 max_uses, use_count`,
+      [householdId, userId, invitedEmail, token, role, expiresInDays, childId ?? null, uses],
     );
 
     const invitation = result.rows[0];
 
-    // Send invitation email (non-blocking - log errors but don't fail the request)
-    const emailService = getEmailService(request.log);
-    emailService
-      .sendInvitationEmailSafe(email, {
-        householdName,
-        inviterEmail,
-        token,
+    // Leave the token out: it is what lets someone join
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'invitation.created',
+      entityId: invitation.id,
+      after: {
+        email: invitation.invited_email,
+        role: invitation.role,
+        childId: invitation.child_id,
+        maxUses: invitation.max_uses,
         expiresAt: invitation.expires_at,
-      })
-      .then((success) => {
-        if (success) {
-          request.log.info({ email, householdId }, 'Invitation email sent successfully');
-        } else {
-          request.log.warn(
-            { email, householdId },
-            'Failed to send invitation email - invitation created but email not delivered',
+      },
+    });
+
+    // Send invitation email (non-blocking - log errors but don't fail the request)
+    if (invitedEmail) {
+      const emailService = getEmailService(request.log);
+      emailService
+        .sendInvitationEmailSafe(invitedEmail, {
+          householdName,
+          inviterEmail,
+          token,
+          expiresAt: invitation.expires_at,
+        })
+        .then((success) => {
+          if (success) {
+            request.log.info(
+              { email: invitedEmail, householdId },
+              'Invitation email sent successfully',
+            );
+          } else {
+            request.log.warn(
+              { email: invitedEmail, householdId },
+              'Failed to send invitation email - invitation created but email not delivered',
+            );
+          }
+        })
+        .catch((error) => {
+          // This should never happen with sendInvitationEmailSafe, but handle it just in case
+          request.log.error(
+            { error, email: invitedEmail, householdId },
+            'Unexpected error sending invitation email',
           );
-        }
-      })
-      .catch((error) => {
-        // This should never happen with sendInvitationEmailSafe, but handle it just in case
-        request.log.error(
-          { error, email, householdId },
-          'Unexpected error sending invitation email',
-        );
-      });
+        });
+    }
 
     return reply.status(201).send({
       id: invitation.id,
@@ -207,6 +327,9 @@ async function createInvitation(
       token: invitation.token,
       role: invitation.role,
       status: invitation.status,
+      childId: invitation.child_id,
+      maxUses: invitation.max_uses,
+      useCount: invitation.use_count,
       expiresAt: invitation.expires_at,
       createdAt: invitation.created_at,
     });
@@ -226,15 +349,22 @@ async function listSentInvitations(
   request: FastifyRequest<ListSentInvitationsRequest>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
   const { status } = request.query;
+  // A link token lets anyone join with the link's role, so only members who
+  // may invite get to copy it
+  const role = request.household?.role;
+  const canShareLinks = !!role && hasPermission(role, 'members.invite');
 
   try {
     let query = `
       SELECT i.id, i.invited_email, i.role, i.status, i.expires_at, i.accepted_at, i.created_at,
+             i.token, i.child_id, i.max_uses, i.use_count, c.name as child_name,
              u.email as inviter_email
       FROM invitations i
       JOIN users u ON i.invited_by = u.id
+      LEFT JOIN children c ON c.id = i.child_id
       WHERE i.household_id = $1
     `;
     const params: string[] = [householdId];
@@ -246,7 +376,7 @@ async function listSentInvitations(
 
     query += ` ORDER BY i.created_at DESC`;
 
-    const result = await db.query(query, params);
+    const result = await client.query(query, params);
 
     return reply.status(200).send({
       invitations: result.rows.map((row) => ({
@@ -255,9 +385,16 @@ async function listSentInvitations(
         inviterEmail: row.inviter_email,
         role: row.role,
         status: row.status,
+        childId: row.child_id,
+        childName: row.child_name,
+        maxUses: row.max_uses,
+        useCount: row.use_count,
         expiresAt: row.expires_at,
         acceptedAt: row.accepted_at,
         createdAt: row.created_at,
+        // Links are shared by the household, so they can be copied again;
+        // email invitation tokens stay with the recipient
+        ...(canShareLinks && row.invited_email === null && { token: row.token }),
       })),
     });
   } catch (error) {
@@ -276,6 +413,7 @@ async function cancelInvitation(
   request: FastifyRequest<CancelInvitationRequest>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId, id } = request.params;
   const userId = request.user?.userId;
 
@@ -288,7 +426,7 @@ async function cancelInvitation(
 
   try {
     // Check if invitation exists and is pending
-    const invitationCheck = await db.query(
+    const invitationCheck = await client.query(
       `SELECT i.id, i.invited_by, hm.role
        FROM invitations i
        LEFT JOIN household_members hm ON hm.household_id = i.household_id AND hm.user_id = $1
@@ -314,7 +452,7 @@ async function cancelInvitation(
     }
 
     // Update invitation status to cancelled
-    const result = await db.query(
+    const result = await client.query(
       `UPDATE invitations
        SET status = 'cancelled', updated_at = NOW()
        WHERE id = $1 AND status = 'pending'
@@ -329,6 +467,14 @@ async function cancelInvitation(
       });
     }
 
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'invitation.cancelled',
+      entityId: id,
+      before: { status: 'pending' },
+      after: { status: 'cancelled' },
+    });
+
     return reply.status(204).send();
   } catch (error) {
     request.log.error(error, 'Failed to cancel invitation');
@@ -406,13 +552,14 @@ async function acceptInvitation(
 
   try {
     const result = await withTransaction(pool, async (client) => {
-      // Find invitation by token
+      // Find invitation by token (locked, so concurrent uses of a link are counted correctly)
       const invitationResult = await client.query(
         `SELECT i.id, i.household_id, i.invited_email, i.role, i.status, i.expires_at,
-                h.name as household_name
+                i.child_id, i.max_uses, i.use_count, h.name as household_name
          FROM invitations i
          JOIN households h ON i.household_id = h.id
-         WHERE i.token = $1`,
+         WHERE i.token = $1
+         FOR UPDATE OF i`,
         [token],
       );
 
@@ -422,8 +569,11 @@ async function acceptInvitation(
 
       const invitation = invitationResult.rows[0];
 
-      // Validate invitation email matches user
-      if (invitation.invited_email !== userEmail.toLowerCase()) {
+      // Validate invitation email matches user (links can be accepted by anyone)
+      if (
+        invitation.invited_email !== null &&
+        invitation.invited_email !== userEmail.toLowerCase()
+      ) {
         throw new TransactionValidationError(
           403,
           'Forbidden',
@@ -467,18 +617,56 @@ async function acceptInvitation(
         [invitation.household_id, userId, invitation.role],
       );
 
-      // Update invitation status
+      // Attach the user to the child profile (after the membership, which the trigger requires)
+      if (invitation.child_id) {
+        const childResult = await client.query(
+          `UPDATE children SET user_id = $1, updated_at = NOW()
+           WHERE id = $2 AND user_id IS NULL
+           RETURNING id`,
+          [userId, invitation.child_id],
+        );
+
+        if (childResult.rows.length === 0) {
+          throw new TransactionValidationError(
+            409,
+            'Conflict',
+            'This child profile already has an account',
+          );
+        }
+      }
+
+      // Count the use; the invitation is accepted once no uses are left
       await client.query(
         `UPDATE invitations
-         SET status = 'accepted', accepted_at = NOW(), updated_at = NOW()
+         SET use_count = use_count + 1,
+             status = CASE WHEN max_uses IS NOT NULL AND use_count + 1 >= max_uses
+                           THEN 'accepted' ELSE status END,
+             accepted_at = NOW(), updated_at = NOW()
          WHERE id = $1`,
         [invitation.id],
       );
 
+      await recordAuditEvent(
+        request,
+        {
+          householdId: invitation.household_id,
+          action: 'member.joined',
+          entityId: userId,
+          after: {
+            userId,
+            role: invitation.role,
+            childId: invitation.child_id,
+            invitationId: invitation.id,
+          },
+        },
+        client,
+      );
+
       return {
         id: invitation.household_id,
         name: invitation.household_name,
         role: invitation.role,
+        childId: invitation.child_id,
       };
     });
 
@@ -551,6 +739,7 @@ async function cleanupInvitations(
   request: FastifyRequest<CleanupInvitationsRequest>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
   const userId = request.user?.userId;
 
@@ -563,7 +752,7 @@ async function cleanupInvitations(
 
   try {
     // Check user's role in household (must be admin)
-    const memberCheck = await db.query(
+    const memberCheck = await client.query(
       `SELECT role FROM household_members
        WHERE household_id = $1 AND user_id = $2`,
       [householdId, userId],
@@ -576,7 +765,7 @@ async function cleanupInvitations(
       });
     }
 
-    if (memberCheck.rows[0].role !== 'admin') {
+    if (!hasPermission(memberCheck.rows[0].role, 'household.manage')) {
       return reply.status(403).send({
         error: 'Forbidden',
         message: 'Only admins can clean up invitations',
@@ -584,7 +773,7 @@ async function cleanupInvitations(
     }
 
     // Delete cancelled and expired invitations
-    const result = await db.query(
+    const result = await client.query(
       `DELETE FROM invitations
        WHERE household_id = $1
          AND (status IN ('cancelled', 'declined') OR (status = 'pending' AND expires_at < NOW()))
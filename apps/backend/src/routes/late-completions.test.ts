@@ -0,0 +1,249 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+import { markOverdueAssignments } from '../services/overdue-assignment-job.ts';
+
+/**
+ * Late Completion API Tests
+ *
+ * The overdue sweep moves past pending assignments to 'overdue'; the
+ * household's late completion policy decides whether they can still be
+ * completed and what that is worth.
+ */
+
+describe('Late Completions API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let adminToken: string;
+  let adminUserId: string;
+  let childToken: string;
+  let childUserId: string;
+  let householdId: string;
+  let childId: string;
+  let singleTaskId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const timestamp = Date.now();
+    const adminData = await registerAndLogin(
+      app,
+      `test-late-admin-${timestamp}@example.com`,
+      'TestPass123!',
+    );
+    adminToken = adminData.accessToken;
+    adminUserId = adminData.userId;
+
+    const childData = await registerAndLogin(
+      app,
+      `test-late-child-${timestamp}@example.com`,
+      'ChildPass123!',
+    );
+    childToken = childData.accessToken;
+    childUserId = childData.userId;
+
+    householdId = (
+      await pool.query('INSERT INTO households (name) VALUES ($1) RETURNING id', [
+        `Test Late Household ${timestamp}`,
+      ])
+    ).rows[0].id;
+
+    await pool.query(
+      `INSERT INTO household_members (household_id, user_id, role)
+       VALUES ($1, $2, 'admin'), ($1, $3, 'child')`,
+      [householdId, adminUserId, childUserId],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year, user_id) VALUES ($1, $2, $3, $4) RETURNING id',
+        [householdId, 'Emma', 2017, childUserId],
+      )
+    ).rows[0].id;
+
+    singleTaskId = (
+      await pool.query(
+        `INSERT INTO tasks (household_id, name, points, rule_type)
+         VALUES ($1, 'Wash the car', 50, 'single') RETURNING id`,
+        [householdId],
+      )
+    ).rows[0].id;
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [adminUserId, childUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  // Each assignment gets its own 10-point task, so dates never collide
+  async function createAssignment(daysAgo: number, task?: string): Promise<string> {
+    const assignedTaskId =
+      task ??
+      (
+        await pool.query(
+          `INSERT INTO tasks (household_id, name, points, rule_type)
+           VALUES ($1, 'Feed the cat', 10, 'daily') RETURNING id`,
+          [householdId],
+        )
+      ).rows[0].id;
+    const result = await pool.query(
+      `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+       VALUES ($1, $2, $3, CURRENT_DATE - $4::int, 'pending') RETURNING id`,
+      [householdId, assignedTaskId, childId, daysAgo],
+    );
+    return result.rows[0].id;
+  }
+
+  async function setPolicy(lateCompletionPolicy: string, latePointsPercent?: number) {
+    return app.inject({
+      method: 'PUT',
+      url: `/api/households/${householdId}`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      payload: { lateCompletionPolicy, latePointsPercent },
+    });
+  }
+
+  async function complete(assignmentId: string) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/assignments/${assignmentId}/complete`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+  }
+
+  async function getAssignment(assignmentId: string) {
+    const result = await pool.query(
+      'SELECT status, completed_late FROM task_assignments WHERE id = $1',
+      [assignmentId],
+    );
+    return result.rows[0];
+  }
+
+  test('should default to full points for late completions', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 200);
+    const household = JSON.parse(response.body);
+    assert.strictEqual(household.lateCompletionPolicy, 'full');
+    assert.strictEqual(household.latePointsPercent, 50);
+  });
+
+  test('should mark past pending assignments as overdue', async () => {
+    const yesterday = await createAssignment(1);
+    const today = await createAssignment(0);
+    const acceptedSingle = await createAssignment(3, singleTaskId);
+
+    await markOverdueAssignments();
+
+    assert.strictEqual((await getAssignment(yesterday)).status, 'overdue');
+    assert.strictEqual((await getAssignment(today)).status, 'pending');
+    // Single tasks without a deadline never become overdue
+    assert.strictEqual((await getAssignment(acceptedSingle)).status, 'pending');
+  });
+
+  test('should award full points for a late completion by default', async () => {
+    const assignmentId = await createAssignment(2);
+    await markOverdueAssignments();
+
+    const response = await complete(assignmentId);
+
+    assert.strictEqual(response.statusCode, 200);
+    assert.strictEqual(JSON.parse(response.body).completion.pointsEarned, 10);
+    const assignment = await getAssignment(assignmentId);
+    assert.strictEqual(assignment.status, 'completed');
+    assert.strictEqual(assignment.completed_late, true);
+  });
+
+  test('should reduce the points under the reduced policy', async () => {
+    assert.strictEqual((await setPolicy('reduced', 30)).statusCode, 200);
+    const assignmentId = await createAssignment(3);
+    await markOverdueAssignments();
+
+    const response = await complete(assignmentId);
+
+    assert.strictEqual(response.statusCode, 200);
+    assert.strictEqual(JSON.parse(response.body).completion.pointsEarned, 3);
+  });
+
+  test('should not reduce the points of assignments completed in time', async () => {
+    const assignmentId = await createAssignment(0);
+
+    const response = await complete(assignmentId);
+
+    assert.strictEqual(response.statusCode, 200);
+    assert.strictEqual(JSON.parse(response.body).completion.pointsEarned, 10);
+    assert.strictEqual((await getAssignment(assignmentId)).completed_late, false);
+  });
+
+  test('should refuse late completions under the locked policy', async () => {
+    assert.strictEqual((await setPolicy('locked')).statusCode, 200);
+    const assignmentId = await createAssignment(4);
+    await markOverdueAssignments();
+
+    const postResponse = await complete(assignmentId);
+    assert.strictEqual(postResponse.statusCode, 400);
+
+    const putResponse = await app.inject({
+      method: 'PUT',
+      url: `/api/assignments/${assignmentId}/complete`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+    });
+    assert.strictEqual(putResponse.statusCode, 400);
+    assert.strictEqual((await getAssignment(assignmentId)).status, 'overdue');
+  });
+
+  test('should reject an invalid policy', async () => {
+    const response = await setPolicy('never');
+    assert.strictEqual(response.statusCode, 400);
+  });
+
+  test('should leave late completions out of completion rates unless they earn full points', async () => {
+    await pool.query('DELETE FROM task_assignments WHERE household_id = $1', [householdId]);
+    await setPolicy('reduced', 50);
+    const inTime = await createAssignment(0);
+    const late = await createAssignment(0);
+    await complete(inTime);
+    await pool.query(
+      `UPDATE task_assignments SET status = 'completed', completed_late = TRUE WHERE id = $1`,
+      [late],
+    );
+
+    const getRate = async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/analytics?period=week`,
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      assert.strictEqual(response.statusCode, 200);
+      return JSON.parse(response.body).periodComparison.current;
+    };
+
+    const reduced = await getRate();
+    assert.strictEqual(reduced.totalTasks, 2);
+    assert.strictEqual(reduced.completedTasks, 1);
+    assert.strictEqual(reduced.completionRate, 50);
+
+    await setPolicy('full');
+    const full = await getRate();
+    assert.strictEqual(full.completedTasks, 2);
+    assert.strictEqual(full.completionRate, 100);
+  });
+});
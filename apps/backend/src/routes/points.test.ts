@@ -0,0 +1,244 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Points Ledger API Tests
+ *
+ * Earning, spending, refunds and manual adjustments all end up as
+ * points_transactions entries with a running balance.
+ */
+
+describe('Points Ledger API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let parentToken: string;
+  let childToken: string;
+  let parentUserId: string;
+  let childUserId: string;
+  let householdId: string;
+  let childId: string;
+  let siblingId: string;
+  let taskId: string;
+  let rewardId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const parentEmail = `test-points-parent-${Date.now()}@example.com`;
+    const childEmail = `test-points-child-${Date.now()}@example.com`;
+    const testPassword = 'TestPass123!';
+
+    parentToken = (await registerAndLogin(app, parentEmail, testPassword)).accessToken;
+    childToken = (await registerAndLogin(app, childEmail, testPassword)).accessToken;
+
+    parentUserId = (await pool.query('SELECT id FROM users WHERE email = $1', [parentEmail]))
+      .rows[0].id;
+    childUserId = (await pool.query('SELECT id FROM users WHERE email = $1', [childEmail])).rows[0]
+      .id;
+
+    const householdResult = await pool.query(
+      'INSERT INTO households (name) VALUES ($1) RETURNING id',
+      [`Test Points Household ${Date.now()}`],
+    );
+    householdId = householdResult.rows[0].id;
+
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, parentUserId, 'admin'],
+    );
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, childUserId, 'child'],
+    );
+
+    const childResult = await pool.query(
+      'INSERT INTO children (household_id, user_id, name, birth_year) VALUES ($1, $2, $3, $4) RETURNING id',
+      [householdId, childUserId, 'Test Points Child', 2015],
+    );
+    childId = childResult.rows[0].id;
+
+    const siblingResult = await pool.query(
+      'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+      [householdId, 'Test Points Sibling', 2017],
+    );
+    siblingId = siblingResult.rows[0].id;
+
+    const taskResult = await pool.query(
+      `INSERT INTO tasks (household_id, name, points, rule_type)
+       VALUES ($1, $2, $3, 'daily') RETURNING id`,
+      [householdId, 'Empty the dishwasher', 30],
+    );
+    taskId = taskResult.rows[0].id;
+
+    const rewardResult = await pool.query(
+      'INSERT INTO rewards (household_id, name, points_cost) VALUES ($1, $2, $3) RETURNING id',
+      [householdId, 'Ice cream', 20],
+    );
+    rewardId = rewardResult.rows[0].id;
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM points_transactions WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM reward_redemptions WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM rewards WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM task_completions WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM task_assignments WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM tasks WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM children WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM household_members WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [parentUserId, childUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function getHistory(token: string, forChildId = childId) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/children/${forChildId}/points/history`,
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  async function adjust(token: string, payload: object) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/children/${childId}/points/adjustments`,
+      headers: { Authorization: `Bearer ${token}` },
+      payload,
+    });
+  }
+
+  test('should credit a completed assignment', async () => {
+    const assignmentResult = await pool.query(
+      `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+       VALUES ($1, $2, $3, CURRENT_DATE, 'pending') RETURNING id`,
+      [householdId, taskId, childId],
+    );
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/assignments/${assignmentResult.rows[0].id}/complete`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+    assert.strictEqual(response.statusCode, 200);
+
+    const history = JSON.parse((await getHistory(parentToken)).body);
+    assert.strictEqual(history.balance, 30);
+    assert.strictEqual(history.transactions[0].type, 'task_completion');
+    assert.strictEqual(history.transactions[0].amount, 30);
+    assert.strictEqual(history.transactions[0].balanceAfter, 30);
+    assert.strictEqual(history.transactions[0].taskName, 'Empty the dishwasher');
+  });
+
+  test('should debit a redemption and refund it when rejected', async () => {
+    const redeemResponse = await app.inject({
+      method: 'POST',
+      url: `/api/children/me/rewards/${rewardId}/redeem`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+    assert.strictEqual(redeemResponse.statusCode, 201);
+    const { redemption, newBalance } = JSON.parse(redeemResponse.body);
+    assert.strictEqual(newBalance, 10);
+
+    const rejectResponse = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/redemptions/${redemption.id}/reject`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+    });
+    assert.strictEqual(rejectResponse.statusCode, 200);
+
+    const history = JSON.parse((await getHistory(parentToken)).body);
+    assert.strictEqual(history.balance, 30);
+    assert.deepStrictEqual(
+      history.transactions.slice(0, 2).map((t: { type: string; amount: number }) => t.type),
+      ['refund', 'redemption'],
+    );
+    assert.strictEqual(history.transactions[1].rewardName, 'Ice cream');
+
+    const reopenResponse = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/redemptions/${redemption.id}/approve`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+    });
+    assert.strictEqual(reopenResponse.statusCode, 400);
+  });
+
+  test('should let a parent add a bonus and a penalty with a reason', async () => {
+    const bonus = await adjust(parentToken, {
+      type: 'bonus',
+      amount: 15,
+      reason: 'Helped a neighbour',
+    });
+    assert.strictEqual(bonus.statusCode, 201);
+    assert.strictEqual(JSON.parse(bonus.body).balance, 45);
+
+    const penalty = await adjust(parentToken, { amount: -5, reason: 'Left the bike outside' });
+    assert.strictEqual(penalty.statusCode, 201);
+    const body = JSON.parse(penalty.body);
+    assert.strictEqual(body.transaction.type, 'adjustment');
+    assert.strictEqual(body.transaction.createdBy, parentUserId);
+    assert.strictEqual(body.balance, 40);
+
+    const view = await pool.query(
+      'SELECT points_balance FROM child_points_balance WHERE child_id = $1',
+      [childId],
+    );
+    assert.strictEqual(parseInt(view.rows[0].points_balance, 10), 40);
+  });
+
+  test('should require a reason', async () => {
+    const response = await adjust(parentToken, { amount: 10, reason: '  ' });
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+
+  test('should not let the balance go negative', async () => {
+    const response = await adjust(parentToken, { amount: -1000, reason: 'Too much' });
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+
+  test('should not let a child adjust points', async () => {
+    const response = await adjust(childToken, { type: 'bonus', amount: 100, reason: 'Because' });
+
+    assert.strictEqual(response.statusCode, 403);
+  });
+
+  test("should let a child see their own history but not a sibling's", async () => {
+    const own = await getHistory(childToken);
+    const sibling = await getHistory(childToken, siblingId);
+
+    assert.strictEqual(own.statusCode, 200);
+    assert.strictEqual(JSON.parse(own.body).total, 5);
+    assert.strictEqual(sibling.statusCode, 404);
+  });
+
+  test('should page the history', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/children/${childId}/points/history?limit=2&offset=3`,
+      headers: { Authorization: `Bearer ${parentToken}` },
+    });
+
+    const body = JSON.parse(response.body);
+    assert.strictEqual(body.total, 5);
+    assert.deepStrictEqual(
+      body.transactions.map((t: { type: string }) => t.type),
+      ['redemption', 'task_completion'],
+    );
+  });
+});
@@ -0,0 +1,221 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  PointsHistoryQuerySchema,
+  PointsHistoryResponseSchema,
+  CreatePointsAdjustmentRequestSchema,
+  PointsAdjustmentResponseSchema,
+  type PointsHistoryResponse,
+  type PointsAdjustmentResponse,
+  type CreatePointsAdjustmentRequest,
+} from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { authenticateUser } from '../middleware/auth.js';
+import {
+  validateHouseholdMembership,
+  requireHouseholdPermission,
+} from '../middleware/household-membership.js';
+import { getHouseholdClient, runAfterCommit } from '../middleware/household-scope.js';
+import { validateRequest, validateParams, handleZodError } from '../utils/index.js';
+import { householdChildParamsSchema } from '../schemas/validation.js';
+import { stripResponseValidation } from '../schemas/common.js';
+import { ChildRepository } from '../repositories/child.repository.js';
+import { PointsTransactionRepository } from '../repositories/points-transaction.repository.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { notifySavingsGoalsAffordable } from '../services/notification.service.js';
+
+/**
+ * Points ledger
+ *
+ * Every change to a child's points is an entry in points_transactions:
+ * approved completions, redemptions and their refunds are written by the
+ * assignment, review and reward routes; parents add manual adjustments and
+ * bonuses here.
+ */
+
+interface ChildPointsParams {
+  householdId: string;
+  childId: string;
+}
+
+/**
+ * GET /api/households/:householdId/children/:childId/points/history
+ * Newest first; children can only see their own history
+ */
+async function getPointsHistory(
+  request: FastifyRequest<{ Params: ChildPointsParams; Querystring: Record<string, string> }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId, childId } = validateParams(householdChildParamsSchema, request);
+    const { limit, offset } = validateRequest(PointsHistoryQuerySchema, request.query ?? {});
+    const client = getHouseholdClient(request);
+
+    const child = await new ChildRepository(client).findByIdAndHousehold(childId, householdId);
+    const isOwnProfile = child?.userId === request.user?.userId;
+
+    if (!child || (request.household?.role === 'child' && !isOwnProfile)) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Child not found',
+      });
+    }
+
+    const points = new PointsTransactionRepository(client);
+    const history = await points.findByChild(childId, { limit, offset });
+    const balance = await points.getBalance(childId);
+
+    const response: PointsHistoryResponse = {
+      balance,
+      transactions: history.transactions,
+      total: history.total,
+    };
+
+    return reply.send(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to get points history');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve points history',
+    });
+  }
+}
+
+/**
+ * POST /api/households/:householdId/children/:childId/points/adjustments
+ * Manual adjustment (either direction) or bonus; a reason is required
+ */
+async function createPointsAdjustment(
+  request: FastifyRequest<{ Params: ChildPointsParams; Body: CreatePointsAdjustmentRequest }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId, childId } = validateParams(householdChildParamsSchema, request);
+    const { type, amount, reason } = validateRequest(
+      CreatePointsAdjustmentRequestSchema,
+      request.body,
+    );
+    const client = getHouseholdClient(request);
+
+    const child = await new ChildRepository(client).findByIdAndHousehold(childId, householdId);
+
+    if (!child) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Child not found',
+      });
+    }
+
+    // Lock the balance so a concurrent redemption cannot overdraw it
+    const points = new PointsTransactionRepository(client);
+    const balance = await points.getBalance(childId, { lock: true });
+
+    if (balance + amount < 0) {
+      return reply.status(400).send({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: 'Adjustment would make the balance negative',
+      });
+    }
+
+    const transaction = await points.record({
+      householdId,
+      childId,
+      type,
+      amount,
+      reason,
+      createdBy: request.user?.userId,
+    });
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'points.adjusted',
+      entityId: transaction.id,
+      before: { childId, balance },
+      after: { childId, balance: transaction.balanceAfter, type, amount, reason },
+    });
+
+    if (amount > 0) {
+      runAfterCommit(request, () => notifySavingsGoalsAffordable(childId));
+    }
+
+    const response: PointsAdjustmentResponse = {
+      transaction,
+      balance: transaction.balanceAfter,
+    };
+
+    return reply.status(201).send(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to create points adjustment');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to create points adjustment',
+    });
+  }
+}
+
+/**
+ * Register points ledger routes
+ */
+export default async function pointsRoutes(server: FastifyInstance) {
+  const ChildPointsParamsSchema = z.object({
+    householdId: z.string().uuid(),
+    childId: z.string().uuid(),
+  });
+
+  server.get('/api/households/:householdId/children/:childId/points/history', {
+    schema: stripResponseValidation({
+      summary: 'Get points history',
+      description: "List a child's points ledger entries with the running balance, newest first",
+      tags: ['children'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(ChildPointsParamsSchema),
+      querystring: zodToOpenAPI(PointsHistoryQuerySchema),
+      response: {
+        200: zodToOpenAPI(PointsHistoryResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [authenticateUser, validateHouseholdMembership],
+    handler: getPointsHistory,
+  });
+
+  server.post('/api/households/:householdId/children/:childId/points/adjustments', {
+    schema: stripResponseValidation({
+      summary: 'Adjust points',
+      description:
+        "Add a manual adjustment or bonus with a reason to a child's points (parents only)",
+      tags: ['children'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(ChildPointsParamsSchema),
+      body: zodToOpenAPI(CreatePointsAdjustmentRequestSchema),
+      response: {
+        201: zodToOpenAPI(PointsAdjustmentResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('points.manage'),
+    ],
+    handler: createPointsAdjustment,
+  });
+}
@@ -0,0 +1,307 @@
+import { test, describe, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+import { setPushSender, type PushPayload, type PushSender } from '../services/push.service.ts';
+import { notifySingleTaskAvailable } from '../services/notification.service.ts';
+import { sendAssignmentReminders } from '../services/assignment-reminder-job.ts';
+
+/**
+ * Push Notification API Tests
+ *
+ * Deliveries go to a recording sender instead of a real push service;
+ * see services/push.service.test.ts for the encrypted transport.
+ */
+
+describe('Push Notification API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let parentToken: string;
+  let childToken: string;
+  let parentUserId: string;
+  let childUserId: string;
+  let householdId: string;
+  let childId: string;
+  const delivered: { endpoint: string; payload: PushPayload }[] = [];
+  let nextStatusCode = 201;
+
+  const recordingSender: PushSender = {
+    send: async (subscription, payload) => {
+      delivered.push({ endpoint: subscription.endpoint, payload });
+      return { statusCode: nextStatusCode };
+    },
+  };
+
+  const subscription = {
+    endpoint: 'https://push.example.com/send/child-device',
+    expirationTime: null,
+    keys: {
+      p256dh:
+        'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM',
+      auth: 'tBHItJI5svbpez7KI4CCXg',
+    },
+  };
+
+  before(async () => {
+    setPushSender(recordingSender);
+
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const parentEmail = `test-push-parent-${Date.now()}@example.com`;
+    const childEmail = `test-push-child-${Date.now()}@example.com`;
+    const testPassword = 'TestPass123!';
+
+    const parentData = await registerAndLogin(app, parentEmail, testPassword);
+    const childData = await registerAndLogin(app, childEmail, testPassword);
+
+    parentToken = parentData.accessToken;
+    childToken = childData.accessToken;
+
+    const parentResult = await pool.query('SELECT id FROM users WHERE email = $1', [parentEmail]);
+    const childResult = await pool.query('SELECT id FROM users WHERE email = $1', [childEmail]);
+
+    parentUserId = parentResult.rows[0].id;
+    childUserId = childResult.rows[0].id;
+
+    const householdResult = await pool.query(
+      'INSERT INTO households (name) VALUES ($1) RETURNING id',
+      [`Test Push Household ${Date.now()}`],
+    );
+    householdId = householdResult.rows[0].id;
+
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, parentUserId, 'admin'],
+    );
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, childUserId, 'child'],
+    );
+
+    const childProfileResult = await pool.query(
+      'INSERT INTO children (household_id, user_id, name, birth_year) VALUES ($1, $2, $3, $4) RETURNING id',
+      [householdId, childUserId, 'Test Push Child', 2015],
+    );
+    childId = childProfileResult.rows[0].id;
+  });
+
+  beforeEach(async () => {
+    delivered.length = 0;
+    nextStatusCode = 201;
+    await pool.query('DELETE FROM push_subscriptions WHERE user_id IN ($1, $2)', [
+      parentUserId,
+      childUserId,
+    ]);
+  });
+
+  after(async () => {
+    setPushSender(undefined);
+    await pool.query('DELETE FROM push_subscriptions WHERE user_id IN ($1, $2)', [
+      parentUserId,
+      childUserId,
+    ]);
+    await pool.query('DELETE FROM reward_redemptions WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM rewards WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM task_assignments WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM task_candidates WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM tasks WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM children WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM household_members WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [parentUserId, childUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function subscribeChild(payload: object = subscription) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/users/me/push-subscriptions',
+      headers: { Authorization: `Bearer ${childToken}` },
+      payload,
+    });
+  }
+
+  describe('GET /api/push/vapid-public-key', () => {
+    test('should be available without authentication', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/push/vapid-public-key' });
+
+      assert.strictEqual(response.statusCode, 200);
+      assert.ok('publicKey' in JSON.parse(response.body));
+    });
+  });
+
+  describe('POST /api/users/me/push-subscriptions', () => {
+    test('should store the subscription for the current user', async () => {
+      const response = await subscribeChild();
+
+      assert.strictEqual(response.statusCode, 201);
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.endpoint, subscription.endpoint);
+
+      const stored = await pool.query('SELECT user_id FROM push_subscriptions WHERE id = $1', [
+        body.id,
+      ]);
+      assert.strictEqual(stored.rows[0].user_id, childUserId);
+    });
+
+    test('should replace an existing subscription with the same endpoint', async () => {
+      await subscribeChild();
+      const response = await subscribeChild({
+        ...subscription,
+        keys: { ...subscription.keys, auth: 'bmV3LWF1dGgtc2VjcmV0' },
+      });
+
+      assert.strictEqual(response.statusCode, 201);
+      const stored = await pool.query('SELECT auth FROM push_subscriptions WHERE endpoint = $1', [
+        subscription.endpoint,
+      ]);
+      assert.strictEqual(stored.rows.length, 1);
+      assert.strictEqual(stored.rows[0].auth, 'bmV3LWF1dGgtc2VjcmV0');
+    });
+
+    test('should reject an invalid endpoint', async () => {
+      const response = await subscribeChild({ ...subscription, endpoint: 'not-a-url' });
+
+      assert.strictEqual(response.statusCode, 400);
+    });
+
+    test('should reject endpoints that are not public https URLs', async () => {
+      for (const endpoint of [
+        'http://push.example.com/send/child-device',
+        'https://127.0.0.1/send/child-device',
+        'https://169.254.169.254/latest/meta-data',
+      ]) {
+        const response = await subscribeChild({ ...subscription, endpoint });
+
+        assert.strictEqual(response.statusCode, 400, endpoint);
+      }
+    });
+
+    test('should require authentication', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/users/me/push-subscriptions',
+        payload: subscription,
+      });
+
+      assert.strictEqual(response.statusCode, 401);
+    });
+  });
+
+  describe('DELETE /api/users/me/push-subscriptions', () => {
+    test('should remove the subscription', async () => {
+      await subscribeChild();
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/users/me/push-subscriptions?endpoint=${encodeURIComponent(subscription.endpoint)}`,
+        headers: { Authorization: `Bearer ${childToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 204);
+    });
+
+    test("should not remove another user's subscription", async () => {
+      await subscribeChild();
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/users/me/push-subscriptions?endpoint=${encodeURIComponent(subscription.endpoint)}`,
+        headers: { Authorization: `Bearer ${parentToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 404);
+    });
+  });
+
+  describe('notifications', () => {
+    test('should notify the child when a redemption is approved', async () => {
+      await subscribeChild();
+      const rewardResult = await pool.query(
+        'INSERT INTO rewards (household_id, name, points_cost) VALUES ($1, $2, $3) RETURNING id',
+        [householdId, 'Movie night', 50],
+      );
+      const redemptionResult = await pool.query(
+        `INSERT INTO reward_redemptions (household_id, reward_id, child_id, points_spent)
+         VALUES ($1, $2, $3, $4) RETURNING id`,
+        [householdId, rewardResult.rows[0].id, childId, 50],
+      );
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/redemptions/${redemptionResult.rows[0].id}/approve`,
+        headers: { Authorization: `Bearer ${parentToken}` },
+      });
+      assert.strictEqual(response.statusCode, 200);
+
+      // The route does not wait for delivery
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      assert.strictEqual(delivered.length, 1);
+      assert.strictEqual(delivered[0].payload.type, 'redemption_status');
+      assert.ok(delivered[0].payload.body.includes('Movie night'));
+    });
+
+    test('should notify candidates of a new single task', async () => {
+      await subscribeChild();
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, points, rule_type)
+         VALUES ($1, $2, $3, 'single') RETURNING id`,
+        [householdId, 'Wash the car', 30],
+      );
+      await pool.query(
+        'INSERT INTO task_candidates (task_id, child_id, household_id) VALUES ($1, $2, $3)',
+        [taskResult.rows[0].id, childId, householdId],
+      );
+
+      const summary = await notifySingleTaskAvailable(taskResult.rows[0].id);
+
+      assert.strictEqual(summary.sent, 1);
+      assert.strictEqual(delivered[0].payload.type, 'single_task_available');
+      assert.strictEqual(delivered[0].payload.url, '/my-tasks');
+    });
+
+    test('should remind once about pending assignments and drop gone subscriptions', async () => {
+      await subscribeChild();
+      await pool.query("UPDATE households SET timezone = 'UTC' WHERE id = $1", [householdId]);
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, points, rule_type)
+         VALUES ($1, $2, $3, 'daily') RETURNING id`,
+        [householdId, 'Feed the cat', 10],
+      );
+      await pool.query(
+        `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+         VALUES ($1, $2, $3, $4, 'pending')`,
+        [householdId, taskResult.rows[0].id, childId, '2026-03-10'],
+      );
+      nextStatusCode = 410;
+
+      const before = await sendAssignmentReminders(17, new Date('2026-03-10T16:00:00Z'));
+      const first = await sendAssignmentReminders(17, new Date('2026-03-10T17:30:00Z'));
+      const second = await sendAssignmentReminders(17, new Date('2026-03-10T18:00:00Z'));
+
+      assert.strictEqual(before.assignments, 0);
+      assert.strictEqual(first.assignments, 1);
+      assert.strictEqual(second.assignments, 0);
+      assert.strictEqual(delivered.length, 1);
+      assert.ok(delivered[0].payload.body.includes('Feed the cat'));
+
+      const remaining = await pool.query('SELECT id FROM push_subscriptions WHERE user_id = $1', [
+        childUserId,
+      ]);
+      assert.strictEqual(remaining.rows.length, 0);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  CreatePushSubscriptionRequestSchema,
+  DeletePushSubscriptionRequestSchema,
+  PushSubscriptionSchema,
+  VapidPublicKeyResponseSchema,
+  type CreatePushSubscriptionRequest,
+  type DeletePushSubscriptionRequest,
+} from '@st44/types';
+import { zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { db } from '../database.js';
+import { authenticateUser } from '../middleware/auth.js';
+import { validateRequest } from '../utils/validation.js';
+import { stripResponseValidation } from '../schemas/common.js';
+import { PushSubscriptionRepository } from '../repositories/push-subscription.repository.js';
+import { getPushConfig } from '../services/push.service.js';
+import { getPushEndpointError } from '../utils/push-endpoint.js';
+import {
+  AuthenticationError,
+  NotFoundError,
+  InternalError,
+  ValidationError,
+} from '../errors/index.js';
+
+/**
+ * GET /api/push/vapid-public-key - Get the VAPID application server key
+ * publicKey is null when push notifications are not configured
+ */
+async function getVapidPublicKey(_request: FastifyRequest, reply: FastifyReply) {
+  return reply.send({ publicKey: getPushConfig()?.publicKey ?? null });
+}
+
+/**
+ * POST /api/users/me/push-subscriptions - Register this browser for push
+ * Re-subscribing with the same endpoint replaces the stored keys.
+ * Only public https endpoints (or configured PUSH_ALLOWED_HOSTS) are accepted.
+ */
+async function createPushSubscription(
+  request: FastifyRequest<{ Body: CreatePushSubscriptionRequest }>,
+  reply: FastifyReply,
+) {
+  const userId = request.user?.userId;
+
+  if (!userId) {
+    throw new AuthenticationError('Authentication required');
+  }
+
+  const { endpoint, keys } = validateRequest(CreatePushSubscriptionRequestSchema, request.body);
+
+  const endpointError = getPushEndpointError(endpoint, getPushConfig()?.allowedHosts);
+  if (endpointError) {
+    throw new ValidationError(endpointError, [{ path: 'endpoint', message: endpointError }]);
+  }
+
+  try {
+    const userAgent = request.headers['user-agent']?.slice(0, 500) ?? null;
+    const subscription = await new PushSubscriptionRepository(db).upsert({
+      userId,
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      userAgent,
+    });
+
+    return reply.status(201).send({
+      id: subscription.id,
+      endpoint: subscription.endpoint,
+      createdAt: subscription.createdAt,
+    });
+  } catch (error) {
+    throw InternalError.wrap(error, 'Failed to save push subscription');
+  }
+}
+
+/**
+ * DELETE /api/users/me/push-subscriptions?endpoint=... - Unregister a browser
+ */
+async function deletePushSubscription(
+  request: FastifyRequest<{ Querystring: DeletePushSubscriptionRequest }>,
+  reply: FastifyReply,
+) {
+  const userId = request.user?.userId;
+
+  if (!userId) {
+    throw new AuthenticationError('Authentication required');
+  }
+
+  const { endpoint } = validateRequest(DeletePushSubscriptionRequestSchema, request.query);
+
+  let deleted: boolean;
+  try {
+    deleted = await new PushSubscriptionRepository(db).deleteForUser(userId, endpoint);
+  } catch (error) {
+    throw InternalError.wrap(error, 'Failed to delete push subscription');
+  }
+
+  if (!deleted) {
+    throw new NotFoundError('Push subscription not found', 'PushSubscription');
+  }
+
+  return reply.status(204).send();
+}
+
+// OpenAPI schemas
+const getVapidPublicKeySchema = stripResponseValidation({
+  summary: 'Get VAPID public key',
+  description: 'Get the application server key browsers need to subscribe to push notifications',
+  tags: ['push'],
+  response: {
+    200: zodToOpenAPI(VapidPublicKeyResponseSchema),
+  },
+});
+
+const createPushSubscriptionSchema = stripResponseValidation({
+  summary: 'Subscribe to push notifications',
+  description: 'Store the PushSubscription of the current browser for the authenticated user',
+  tags: ['push'],
+  security: [{ bearerAuth: [] }],
+  body: zodToOpenAPI(CreatePushSubscriptionRequestSchema),
+  response: {
+    201: zodToOpenAPI(PushSubscriptionSchema),
+    ...CommonErrors.BadRequest,
+    ...CommonErrors.Unauthorized,
+    ...CommonErrors.InternalServerError,
+  },
+});
+
+const deletePushSubscriptionSchema = stripResponseValidation({
+  summary: 'Unsubscribe from push notifications',
+  description: 'Remove the PushSubscription with the given endpoint',
+  tags: ['push'],
+  security: [{ bearerAuth: [] }],
+  querystring: zodToOpenAPI(DeletePushSubscriptionRequestSchema),
+  response: {
+    204: {
+      type: 'object',
+      properties: {},
+      required: [],
+      description: 'Subscription removed',
+    },
+    ...CommonErrors.BadRequest,
+    ...CommonErrors.Unauthorized,
+    ...CommonErrors.NotFound,
+    ...CommonErrors.InternalServerError,
+  },
+});
+
+export default async function pushSubscriptionRoutes(fastify: FastifyInstance): Promise<void> {
+  // GET /api/push/vapid-public-key - Public VAPID key
+  fastify.get('/api/push/vapid-public-key', {
+    schema: getVapidPublicKeySchema,
+    handler: getVapidPublicKey,
+  });
+
+  // POST /api/users/me/push-subscriptions - Subscribe current browser
+  fastify.post('/api/users/me/push-subscriptions', {
+    preHandler: [authenticateUser],
+    schema: createPushSubscriptionSchema,
+    handler: createPushSubscription,
+  });
+
+  // DELETE /api/users/me/push-subscriptions - Unsubscribe a browser
+  fastify.delete('/api/users/me/push-subscriptions', {
+    preHandler: [authenticateUser],
+    schema: deletePushSubscriptionSchema,
+    handler: deletePushSubscription,
+  });
+}
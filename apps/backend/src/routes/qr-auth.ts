@@ -19,6 +19,8 @@ import {
   validateQrToken,
   getQrToken,
 } from '../services/qr-token.service.js';
+import { startSession, getSessionClientInfo } from '../services/session.service.js';
+import { hasPermission } from '../services/authorization.service.js';
 
 // JWT Configuration
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
@@ -68,21 +70,17 @@ function generateAccessToken(
   role?: string,
   firstName?: string | null,
   lastName?: string | null,
+  sessionId?: string,
 ): string {
-  return jwt.sign({ userId, email, role, firstName, lastName, type: 'access' }, JWT_SECRET, {
-    expiresIn: '1h',
-  });
-}
-
-/**
- * Generate JWT refresh token
- */
-function generateRefreshToken(userId: string): string {
-  return jwt.sign({ userId, type: 'refresh' }, JWT_SECRET, { expiresIn: '7d' });
+  return jwt.sign(
+    { userId, email, role, firstName, lastName, sessionId, type: 'access' },
+    JWT_SECRET,
+    { expiresIn: '1h' },
+  );
 }
 
 /**
- * Check if user is a parent or admin in the household
+ * Check if user may manage children (and so their QR logins) in the household
  */
 async function isParentOrAdmin(
   userId: string,
@@ -101,7 +99,7 @@ async function isParentOrAdmin(
 
   const role = result.rows[0].role;
   return {
-    isParent: role === 'admin' || role === 'parent',
+    isParent: hasPermission(role, 'children.manage'),
     role,
   };
 }
@@ -231,15 +229,20 @@ export default async function qrAuthRoutes(fastify: FastifyInstance) {
           return reply.code(401).send({ error: 'Invalid QR token' });
         }
 
-        // Generate JWT tokens (same as regular login)
+        // Start a session and generate JWT tokens (same as regular login)
+        const { sessionId, refreshToken } = await startSession(
+          pool,
+          userData.userId,
+          getSessionClientInfo(request),
+        );
         const accessToken = generateAccessToken(
           userData.userId,
           userData.email,
           userData.role,
           userData.firstName,
           userData.lastName,
+          sessionId,
         );
-        const refreshToken = generateRefreshToken(userData.userId);
 
         fastify.log.info(
           {
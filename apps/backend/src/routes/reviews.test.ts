@@ -0,0 +1,261 @@
+import { test, describe, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Completion Approval API Tests
+ */
+
+describe('Completion Approval API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let parentToken: string;
+  let childToken: string;
+  let parentUserId: string;
+  let childUserId: string;
+  let householdId: string;
+  let childId: string;
+  let taskId: string;
+  let assignmentId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const parentEmail = `test-reviews-parent-${Date.now()}@example.com`;
+    const childEmail = `test-reviews-child-${Date.now()}@example.com`;
+    const testPassword = 'TestPass123!';
+
+    const parentData = await registerAndLogin(app, parentEmail, testPassword);
+    const childData = await registerAndLogin(app, childEmail, testPassword);
+
+    parentToken = parentData.accessToken;
+    childToken = childData.accessToken;
+
+    const parentResult = await pool.query('SELECT id FROM users WHERE email = $1', [parentEmail]);
+    const childResult = await pool.query('SELECT id FROM users WHERE email = $1', [childEmail]);
+
+    parentUserId = parentResult.rows[0].id;
+    childUserId = childResult.rows[0].id;
+
+    const householdResult = await pool.query(
+      'INSERT INTO households (name) VALUES ($1) RETURNING id',
+      [`Test Reviews Household ${Date.now()}`],
+    );
+    householdId = householdResult.rows[0].id;
+
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, parentUserId, 'admin'],
+    );
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, childUserId, 'child'],
+    );
+
+    const childProfileResult = await pool.query(
+      'INSERT INTO children (household_id, user_id, name, birth_year) VALUES ($1, $2, $3, $4) RETURNING id',
+      [householdId, childUserId, 'Test Reviews Child', 2015],
+    );
+    childId = childProfileResult.rows[0].id;
+
+    const taskResult = await pool.query(
+      `INSERT INTO tasks (household_id, name, points, rule_type, requires_approval)
+       VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+      [householdId, 'Clean room', 20, 'daily', true],
+    );
+    taskId = taskResult.rows[0].id;
+  });
+
+  beforeEach(async () => {
+    await pool.query('DELETE FROM points_transactions WHERE child_id = $1', [childId]);
+    await pool.query('DELETE FROM task_completions WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM task_assignments WHERE household_id = $1', [householdId]);
+
+    const assignmentResult = await pool.query(
+      `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+       VALUES ($1, $2, $3, CURRENT_DATE, 'pending') RETURNING id`,
+      [householdId, taskId, childId],
+    );
+    assignmentId = assignmentResult.rows[0].id;
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM points_transactions WHERE child_id = $1', [childId]);
+    await pool.query('DELETE FROM task_completions WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM task_assignments WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM tasks WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM children WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM household_members WHERE household_id = $1', [householdId]);
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [parentUserId, childUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function completeAsChild() {
+    return app.inject({
+      method: 'POST',
+      url: `/api/assignments/${assignmentId}/complete`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+  }
+
+  async function getBalance(): Promise<number> {
+    const result = await pool.query(
+      'SELECT points_balance FROM child_points_balance WHERE child_id = $1',
+      [childId],
+    );
+    return parseInt(result.rows[0]?.points_balance || '0', 10);
+  }
+
+  describe('POST /api/assignments/:assignmentId/complete', () => {
+    test('should hold a child completion for review without crediting points', async () => {
+      const response = await completeAsChild();
+
+      assert.strictEqual(response.statusCode, 200);
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.taskAssignment.status, 'pending_review');
+      assert.strictEqual(body.completion.approvalStatus, 'pending_review');
+      assert.strictEqual(await getBalance(), 0);
+    });
+
+    test('should be idempotent while awaiting review', async () => {
+      const first = JSON.parse((await completeAsChild()).body);
+      const second = await completeAsChild();
+
+      assert.strictEqual(second.statusCode, 200);
+      assert.strictEqual(JSON.parse(second.body).completion.id, first.completion.id);
+    });
+
+    test('should hold completions made by a parent for review too', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/assignments/${assignmentId}/complete`,
+        headers: { Authorization: `Bearer ${parentToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 200);
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.taskAssignment.status, 'pending_review');
+      assert.strictEqual(body.completion.approvalStatus, 'pending_review');
+      assert.strictEqual(await getBalance(), 0);
+    });
+  });
+
+  describe('GET /api/households/:householdId/reviews', () => {
+    test('should list completions awaiting approval', async () => {
+      await completeAsChild();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/reviews`,
+        headers: { Authorization: `Bearer ${parentToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 200);
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.reviews.length, 1);
+      assert.strictEqual(body.reviews[0].assignmentId, assignmentId);
+      assert.strictEqual(body.reviews[0].childName, 'Test Reviews Child');
+      assert.strictEqual(body.reviews[0].points, 20);
+    });
+
+    test('should not be available to children', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/reviews`,
+        headers: { Authorization: `Bearer ${childToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 403);
+    });
+  });
+
+  describe('POST /api/households/:householdId/reviews/:assignmentId/approve', () => {
+    test('should complete the assignment and credit points', async () => {
+      await completeAsChild();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/reviews/${assignmentId}/approve`,
+        headers: { Authorization: `Bearer ${parentToken}` },
+        payload: {},
+      });
+
+      assert.strictEqual(response.statusCode, 200);
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.assignmentStatus, 'completed');
+      assert.strictEqual(body.approvalStatus, 'approved');
+      assert.strictEqual(await getBalance(), 20);
+    });
+
+    test('should return 400 when nothing is awaiting approval', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/reviews/${assignmentId}/approve`,
+        headers: { Authorization: `Bearer ${parentToken}` },
+        payload: {},
+      });
+
+      assert.strictEqual(response.statusCode, 400);
+    });
+  });
+
+  describe('POST /api/households/:householdId/reviews/:assignmentId/reject', () => {
+    test('should reopen the assignment and keep the comment', async () => {
+      await completeAsChild();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/reviews/${assignmentId}/reject`,
+        headers: { Authorization: `Bearer ${parentToken}` },
+        payload: { comment: 'The bed is not made yet' },
+      });
+
+      assert.strictEqual(response.statusCode, 200);
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.assignmentStatus, 'pending');
+      assert.strictEqual(body.approvalStatus, 'rejected');
+      assert.strictEqual(body.reviewComment, 'The bed is not made yet');
+      assert.strictEqual(await getBalance(), 0);
+
+      const myTasks = await app.inject({
+        method: 'GET',
+        url: `/api/children/me/tasks?householdId=${householdId}`,
+        headers: { Authorization: `Bearer ${childToken}` },
+      });
+      const task = JSON.parse(myTasks.body).tasks.find(
+        (t: { id: string }) => t.id === assignmentId,
+      );
+      assert.strictEqual(task.status, 'pending');
+      assert.strictEqual(task.reviewComment, 'The bed is not made yet');
+    });
+
+    test('should let the child complete the assignment again', async () => {
+      await completeAsChild();
+      await app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/reviews/${assignmentId}/reject`,
+        headers: { Authorization: `Bearer ${parentToken}` },
+        payload: {},
+      });
+
+      const response = await completeAsChild();
+
+      assert.strictEqual(response.statusCode, 200);
+      assert.strictEqual(JSON.parse(response.body).taskAssignment.status, 'pending_review');
+    });
+  });
+});
@@ -0,0 +1,386 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  ReviewQueueItemSchema,
+  ReviewDecisionRequestSchema,
+  ReviewDecisionResponseSchema,
+  type ReviewQueueItem,
+  type ReviewDecisionRequest,
+  type ReviewDecisionResponse,
+} from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { authenticateUser } from '../middleware/auth.js';
+import {
+  validateHouseholdMembership,
+  requireHouseholdPermission,
+} from '../middleware/household-membership.js';
+import { getHouseholdClient, runAfterCommit } from '../middleware/household-scope.js';
+import { validateRequest, validateParams, handleZodError, withSavepoint } from '../utils/index.js';
+import { uuidSchema } from '../schemas/validation.js';
+import { PointsTransactionRepository } from '../repositories/points-transaction.repository.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { unlockAchievements } from '../services/achievement.service.js';
+import { publishHouseholdEvent } from '../services/household-events.service.js';
+import { notifySavingsGoalsAffordable } from '../services/notification.service.js';
+import { stripResponseValidation } from '../schemas/common.js';
+
+/**
+ * Parent review queue
+ *
+ * When a task (tasks.requires_approval) or the whole household
+ * (households.requires_approval) requires approval, a child's completion is
+ * stored with approval_status 'pending_review' and the assignment waits in
+ * 'pending_review'. Points are credited to the ledger once a parent approves;
+ * rejecting keeps the completion as history and reopens the assignment.
+ */
+
+/**
+ * Custom error for transaction validation failures
+ * Used to trigger rollback and return specific HTTP responses
+ */
+class TransactionValidationError extends Error {
+  constructor(
+    public statusCode: number,
+    public error: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'TransactionValidationError';
+  }
+}
+
+interface HouseholdParams {
+  householdId: string;
+}
+
+interface ReviewParams extends HouseholdParams {
+  assignmentId: string;
+}
+
+// Schema for household + assignment ID params
+const householdReviewParamsSchema = z.object({
+  householdId: uuidSchema,
+  assignmentId: uuidSchema,
+});
+
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * GET /api/households/:householdId/reviews - List completions awaiting approval
+ * Oldest first, so children are not kept waiting
+ */
+async function listReviews(
+  request: FastifyRequest<{ Params: HouseholdParams }>,
+  reply: FastifyReply,
+) {
+  const { householdId } = request.params;
+
+  try {
+    const result = await getHouseholdClient(request).query(
+      `SELECT
+        ta.id as assignment_id,
+        tc.id as completion_id,
+        t.id as task_id,
+        t.name as task_name,
+        c.id as child_id,
+        c.name as child_name,
+        ta.date::text as date,
+        tc.points_earned,
+        tc.completed_at,
+        tc.photo_key IS NOT NULL as has_photo
+       FROM task_completions tc
+       JOIN task_assignments ta ON tc.task_assignment_id = ta.id
+       JOIN tasks t ON ta.task_id = t.id
+       JOIN children c ON tc.child_id = c.id
+       WHERE tc.household_id = $1
+         AND tc.approval_status = 'pending_review'
+         AND ta.status = 'pending_review'
+       ORDER BY tc.completed_at ASC`,
+      [householdId],
+    );
+
+    const reviews: ReviewQueueItem[] = result.rows.map((row) => ({
+      assignmentId: row.assignment_id,
+      completionId: row.completion_id,
+      taskId: row.task_id,
+      taskName: row.task_name,
+      childId: row.child_id,
+      childName: row.child_name,
+      date: row.date,
+      points: row.points_earned,
+      completedAt: toDateTimeString(row.completed_at),
+      hasPhoto: row.has_photo === true,
+    }));
+
+    return reply.send({ reviews });
+  } catch (error) {
+    request.log.error(error, 'Failed to list reviews');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve reviews',
+    });
+  }
+}
+
+/**
+ * POST /api/households/:householdId/reviews/:assignmentId/approve - Approve completion
+ */
+async function approveCompletion(
+  request: FastifyRequest<{ Params: ReviewParams; Body?: ReviewDecisionRequest }>,
+  reply: FastifyReply,
+) {
+  return reviewCompletion(request, reply, 'approved');
+}
+
+/**
+ * POST /api/households/:householdId/reviews/:assignmentId/reject - Reject completion
+ * Reopens the assignment so the child can do the task again
+ */
+async function rejectCompletion(
+  request: FastifyRequest<{ Params: ReviewParams; Body?: ReviewDecisionRequest }>,
+  reply: FastifyReply,
+) {
+  return reviewCompletion(request, reply, 'rejected');
+}
+
+/**
+ * Helper to approve or reject the pending completion of an assignment
+ */
+async function reviewCompletion(
+  request: FastifyRequest<{ Params: ReviewParams; Body?: ReviewDecisionRequest }>,
+  reply: FastifyReply,
+  decision: 'approved' | 'rejected',
+) {
+  try {
+    // Validate params and body with Zod schemas
+    const { householdId, assignmentId } = validateParams(householdReviewParamsSchema, request);
+    const { comment } = validateRequest(ReviewDecisionRequestSchema, request.body ?? {});
+    const reviewerId = request.user?.userId ?? null;
+
+    const client = getHouseholdClient(request);
+
+    const decisionResult = await withSavepoint(client, async () => {
+      // Lock the assignment so a concurrent review cannot decide it twice
+      const assignmentResult = await client.query(
+        `SELECT id, status FROM task_assignments
+         WHERE id = $1 AND household_id = $2
+         FOR UPDATE`,
+        [assignmentId, householdId],
+      );
+
+      if (assignmentResult.rows.length === 0) {
+        throw new TransactionValidationError(404, 'Not Found', 'Assignment not found');
+      }
+
+      if (assignmentResult.rows[0].status !== 'pending_review') {
+        throw new TransactionValidationError(
+          400,
+          'Bad Request',
+          'Assignment is not awaiting approval',
+        );
+      }
+
+      const completionResult = await client.query(
+        `SELECT id FROM task_completions
+         WHERE task_assignment_id = $1 AND approval_status = 'pending_review'
+         ORDER BY completed_at DESC
+         LIMIT 1
+         FOR UPDATE`,
+        [assignmentId],
+      );
+
+      if (completionResult.rows.length === 0) {
+        throw new TransactionValidationError(404, 'Not Found', 'Completion not found');
+      }
+
+      const updatedCompletion = await client.query(
+        `UPDATE task_completions
+         SET approval_status = $1, reviewed_by = $2, reviewed_at = NOW(), review_comment = $3
+         WHERE id = $4
+         RETURNING id, child_id, points_earned, approval_status, review_comment, reviewed_at,
+                   completed_at`,
+        [decision, reviewerId, comment || null, completionResult.rows[0].id],
+      );
+
+      if (decision === 'approved') {
+        await new PointsTransactionRepository(client).recordCompletion({
+          householdId,
+          childId: updatedCompletion.rows[0].child_id,
+          taskCompletionId: updatedCompletion.rows[0].id,
+          points: updatedCompletion.rows[0].points_earned,
+          createdBy: reviewerId,
+        });
+      }
+
+      // A rejected late completion goes back to overdue rather than pending
+      const updatedAssignment = await client.query(
+        `UPDATE task_assignments
+         SET status = CASE
+               WHEN $1::boolean THEN 'completed'
+               WHEN completed_late THEN 'overdue'
+               ELSE 'pending'
+             END,
+             completed_late = completed_late AND $1::boolean
+         WHERE id = $2
+         RETURNING id, status, task_id`,
+        [decision === 'approved', assignmentId],
+      );
+
+      // After the status change, so the streak counts the approved assignment
+      if (decision === 'approved') {
+        await unlockAchievements(client, {
+          householdId,
+          childId: updatedCompletion.rows[0].child_id,
+          taskCompletionId: updatedCompletion.rows[0].id,
+        });
+      }
+
+      return { completion: updatedCompletion.rows[0], assignment: updatedAssignment.rows[0] };
+    });
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: decision === 'approved' ? 'assignment.approved' : 'assignment.rejected',
+      entityId: assignmentId,
+      before: { status: 'pending_review' },
+      after: {
+        status: decisionResult.assignment.status,
+        completionId: decisionResult.completion.id,
+        pointsEarned: decisionResult.completion.points_earned,
+        reviewComment: decisionResult.completion.review_comment,
+      },
+    });
+
+    if (decision === 'approved') {
+      runAfterCommit(request, () =>
+        publishHouseholdEvent({
+          type: 'assignment.completed',
+          householdId,
+          data: {
+            assignmentId,
+            taskId: decisionResult.assignment.task_id,
+            childId: decisionResult.completion.child_id,
+            status: decisionResult.assignment.status,
+            completedAt: toDateTimeString(decisionResult.completion.completed_at),
+          },
+        }),
+      );
+      runAfterCommit(request, () =>
+        notifySavingsGoalsAffordable(decisionResult.completion.child_id),
+      );
+    }
+
+    const response: ReviewDecisionResponse = {
+      assignmentId: decisionResult.assignment.id,
+      completionId: decisionResult.completion.id,
+      assignmentStatus: decisionResult.assignment.status,
+      approvalStatus: decisionResult.completion.approval_status,
+      reviewComment: decisionResult.completion.review_comment,
+      reviewedAt: toDateTimeString(decisionResult.completion.reviewed_at),
+    };
+
+    return reply.send(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    if (error instanceof TransactionValidationError) {
+      return reply.status(error.statusCode).send({
+        statusCode: error.statusCode,
+        error: error.error,
+        message: error.message,
+      });
+    }
+    request.log.error(error, 'Failed to review completion');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to review completion',
+    });
+  }
+}
+
+/**
+ * Register review routes
+ */
+export default async function reviewRoutes(server: FastifyInstance) {
+  const HouseholdParamsSchema = z.object({ householdId: z.string().uuid() });
+  const ReviewParamsSchema = z.object({
+    householdId: z.string().uuid(),
+    assignmentId: z.string().uuid(),
+  });
+
+  server.get('/api/households/:householdId/reviews', {
+    schema: stripResponseValidation({
+      summary: 'List completions awaiting approval',
+      description: "Get children's completions that a parent still has to approve or reject",
+      tags: ['assignments'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(HouseholdParamsSchema),
+      response: {
+        200: zodToOpenAPI(z.object({ reviews: z.array(ReviewQueueItemSchema) })),
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('reviews.manage'),
+    ],
+    handler: listReviews,
+  });
+
+  server.post('/api/households/:householdId/reviews/:assignmentId/approve', {
+    schema: stripResponseValidation({
+      summary: 'Approve completion',
+      description: 'Approve a pending completion and credit its points to the child',
+      tags: ['assignments'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(ReviewParamsSchema),
+      response: {
+        200: zodToOpenAPI(ReviewDecisionResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('reviews.manage'),
+    ],
+    handler: approveCompletion,
+  });
+
+  server.post('/api/households/:householdId/reviews/:assignmentId/reject', {
+    schema: stripResponseValidation({
+      summary: 'Reject completion',
+      description: 'Reject a pending completion with an optional comment and reopen the assignment',
+      tags: ['assignments'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(ReviewParamsSchema),
+      response: {
+        200: zodToOpenAPI(ReviewDecisionResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('reviews.manage'),
+    ],
+    handler: rejectCompletion,
+  });
+}
@@ -0,0 +1,234 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Reward Rules API Tests
+ *
+ * Redemption limits per child, availability windows and restocking are
+ * enforced by POST /api/children/me/rewards/:rewardId/redeem, with a `code`
+ * telling which rule refused the redemption. Test households use UTC.
+ */
+
+function utcDate(daysFromToday: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + daysFromToday);
+  return date.toISOString().split('T')[0];
+}
+
+describe('Reward Rules API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let adminToken: string;
+  let adminUserId: string;
+  let childToken: string;
+  let childUserId: string;
+  let householdId: string;
+  let childId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const timestamp = Date.now();
+    const adminData = await registerAndLogin(
+      app,
+      `test-reward-rules-admin-${timestamp}@example.com`,
+      'TestPass123!',
+    );
+    adminToken = adminData.accessToken;
+    adminUserId = adminData.userId;
+
+    const childData = await registerAndLogin(
+      app,
+      `test-reward-rules-child-${timestamp}@example.com`,
+      'ChildPass123!',
+    );
+    childToken = childData.accessToken;
+    childUserId = childData.userId;
+
+    householdId = (
+      await pool.query('INSERT INTO households (name) VALUES ($1) RETURNING id', [
+        `Test Reward Rules Household ${timestamp}`,
+      ])
+    ).rows[0].id;
+
+    await pool.query(
+      `INSERT INTO household_members (household_id, user_id, role)
+       VALUES ($1, $2, 'admin'), ($1, $3, 'child')`,
+      [householdId, adminUserId, childUserId],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year, user_id) VALUES ($1, $2, $3, $4) RETURNING id',
+        [householdId, 'Emma', 2015, childUserId],
+      )
+    ).rows[0].id;
+
+    const bonus = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/children/${childId}/points/adjustments`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      payload: { type: 'bonus', amount: 1000, reason: 'Starting points' },
+    });
+    assert.strictEqual(bonus.statusCode, 201);
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [adminUserId, childUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function createReward(payload: object) {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/rewards`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      payload: { name: 'Screen time', pointsCost: 10, ...payload },
+    });
+    assert.strictEqual(response.statusCode, 201);
+    return JSON.parse(response.body);
+  }
+
+  function redeem(rewardId: string) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/children/me/rewards/${rewardId}/redeem`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+  }
+
+  async function getChildReward(rewardId: string) {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/children/me/rewards',
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+    assert.strictEqual(response.statusCode, 200);
+    return JSON.parse(response.body).rewards.find((r: { id: string }) => r.id === rewardId);
+  }
+
+  test('should limit redemptions per child and period', async () => {
+    const reward = await createReward({ redemptionLimit: { count: 1, period: 'week' } });
+    assert.deepStrictEqual(reward.redemptionLimit, { count: 1, period: 'week' });
+
+    const first = await redeem(reward.id);
+    assert.strictEqual(first.statusCode, 201);
+
+    const second = await redeem(reward.id);
+    assert.strictEqual(second.statusCode, 400);
+    const body = JSON.parse(second.body);
+    assert.strictEqual(body.code, 'REDEMPTION_LIMIT_REACHED');
+    assert.strictEqual(body.details.limit, 1);
+    assert.strictEqual(body.details.period, 'week');
+
+    const listed = await getChildReward(reward.id);
+    assert.strictEqual(listed.available, false);
+    assert.strictEqual(listed.unavailableReason, 'REDEMPTION_LIMIT_REACHED');
+    assert.strictEqual(listed.redemptionsLeft, 0);
+
+    // A rejected redemption is refunded and no longer counts
+    const redemptionId = JSON.parse(first.body).redemption.id;
+    const reject = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/redemptions/${redemptionId}/reject`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+    });
+    assert.strictEqual(reject.statusCode, 200);
+
+    const again = await redeem(reward.id);
+    assert.strictEqual(again.statusCode, 201);
+  });
+
+  test('should only redeem inside the availability window', async () => {
+    const upcoming = await createReward({ availableFrom: utcDate(1) });
+    const notStarted = await redeem(upcoming.id);
+    assert.strictEqual(notStarted.statusCode, 400);
+    assert.strictEqual(JSON.parse(notStarted.body).code, 'REWARD_NOT_STARTED');
+
+    const past = await createReward({ availableFrom: utcDate(-7), availableUntil: utcDate(-1) });
+    const ended = await redeem(past.id);
+    assert.strictEqual(ended.statusCode, 400);
+    assert.strictEqual(JSON.parse(ended.body).code, 'REWARD_ENDED');
+
+    const current = await createReward({ availableFrom: utcDate(0), availableUntil: utcDate(0) });
+    assert.strictEqual((await redeem(current.id)).statusCode, 201);
+  });
+
+  test('should only redeem on the available days of the week', async () => {
+    const today = new Date().getUTCDay();
+    const tomorrow = (today + 1) % 7;
+
+    const otherDay = await createReward({ availableDays: [tomorrow] });
+    const response = await redeem(otherDay.id);
+    assert.strictEqual(response.statusCode, 400);
+    assert.strictEqual(JSON.parse(response.body).code, 'REWARD_NOT_AVAILABLE_TODAY');
+
+    const sameDay = await createReward({ availableDays: [today] });
+    assert.strictEqual((await redeem(sameDay.id)).statusCode, 201);
+  });
+
+  test('should restock at the start of the next period', async () => {
+    const reward = await createReward({ restock: { quantity: 1, period: 'day' } });
+    assert.strictEqual(reward.quantity, 1);
+
+    assert.strictEqual((await redeem(reward.id)).statusCode, 201);
+
+    const soldOut = await redeem(reward.id);
+    assert.strictEqual(soldOut.statusCode, 400);
+    const body = JSON.parse(soldOut.body);
+    assert.strictEqual(body.code, 'REWARD_OUT_OF_STOCK');
+    assert.strictEqual(body.details.restocksOn, utcDate(1));
+
+    // As if the last restock was yesterday
+    await pool.query('UPDATE rewards SET restocked_on = $1 WHERE id = $2', [
+      utcDate(-1),
+      reward.id,
+    ]);
+
+    const listed = await getChildReward(reward.id);
+    assert.strictEqual(listed.quantity, 1);
+    assert.strictEqual(listed.available, true);
+
+    assert.strictEqual((await redeem(reward.id)).statusCode, 201);
+    const stored = await pool.query(
+      'SELECT quantity, restocked_on::text FROM rewards WHERE id = $1',
+      [reward.id],
+    );
+    assert.deepStrictEqual(stored.rows[0], { quantity: 0, restocked_on: utcDate(0) });
+  });
+
+  test('should tell when the points are missing', async () => {
+    const reward = await createReward({ name: 'Bike', pointsCost: 5000 });
+    const response = await redeem(reward.id);
+
+    assert.strictEqual(response.statusCode, 400);
+    assert.strictEqual(JSON.parse(response.body).code, 'INSUFFICIENT_POINTS');
+  });
+
+  test('should not move the end of a window before its start', async () => {
+    const reward = await createReward({ availableFrom: utcDate(10) });
+    const response = await app.inject({
+      method: 'PUT',
+      url: `/api/households/${householdId}/rewards/${reward.id}`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      payload: { availableUntil: utcDate(5) },
+    });
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+});
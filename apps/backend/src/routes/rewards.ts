@@ -12,22 +12,47 @@ import {
   type ChildPointsBalance,
   type CreateRewardRequest,
   type UpdateRewardRequest,
+  type RedemptionErrorCode,
 } from '@st44/types';
 import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import type { Pool, PoolClient } from 'pg';
 import { db, pool } from '../database.js';
 import { authenticateUser } from '../middleware/auth.js';
 import {
   validateHouseholdMembership,
-  requireHouseholdParent,
+  requireHouseholdPermission,
 } from '../middleware/household-membership.js';
+import { getHouseholdClient, runAfterCommit } from '../middleware/household-scope.js';
 import {
   validateRequest,
   validateParams,
   handleZodError,
   withTransaction,
+  withSavepoint,
+  canAffordWithEarmarks,
+  getEarmarkedTotal,
+  getPeriodStart,
+  getNextPeriodStart,
+  getEarliestPeriodStart,
+  getAvailabilityError,
+  getRedemptionsLeft,
+  getDueRestock,
+  getCurrentQuantity,
+  getLocalToday,
+  type RewardStock,
 } from '../utils/index.js';
 import { householdRewardParamsSchema, uuidSchema } from '../schemas/validation.js';
 import { stripResponseValidation } from '../schemas/common.js';
+import {
+  notifyRedemptionStatusChanged,
+  notifySavingsGoalsAffordable,
+} from '../services/notification.service.js';
+import { PointsTransactionRepository } from '../repositories/points-transaction.repository.js';
+import { SavingsGoalRepository } from '../repositories/savings-goal.repository.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import { getChildSavings } from '../services/savings-goal.service.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { publishHouseholdEvent } from '../services/household-events.service.js';
 import type {
   RewardRow,
   RewardRedemptionRow,
@@ -44,6 +69,7 @@ class TransactionValidationError extends Error {
     public error: string,
     message: string,
     public details?: unknown,
+    public code?: RedemptionErrorCode,
   ) {
     super(message);
     this.name = 'TransactionValidationError';
@@ -75,20 +101,156 @@ function toDateTimeString(value: unknown): string {
   return new Date(String(value)).toISOString();
 }
 
-function mapRewardRowToReward(row: RewardRow): Reward {
+// Dates are selected as text so they stay calendar dates
+const REWARD_COLUMNS = `id, household_id, name, description, points_cost, quantity, active,
+  redemption_limit, redemption_limit_period, available_from::text AS available_from,
+  available_until::text AS available_until, available_days, restock_quantity, restock_period,
+  restocked_on::text AS restocked_on, created_at, updated_at`;
+
+function toRewardStock(row: RewardRow): RewardStock {
+  return {
+    quantity: row.quantity,
+    restock:
+      row.restock_quantity !== null && row.restock_period !== null
+        ? { quantity: row.restock_quantity, period: row.restock_period }
+        : null,
+    restockedOn: row.restocked_on,
+  };
+}
+
+/**
+ * Map a reward row; with `today`, the quantity includes a restock that is due
+ */
+function mapRewardRowToReward(row: RewardRow, today?: string): Reward {
+  const stock = toRewardStock(row);
   return {
     id: row.id,
     householdId: row.household_id,
     name: row.name,
     description: row.description,
     pointsCost: row.points_cost,
-    quantity: row.quantity,
+    quantity: today ? getCurrentQuantity(stock, today) : row.quantity,
     active: row.active !== false,
+    redemptionLimit:
+      row.redemption_limit !== null && row.redemption_limit_period !== null
+        ? { count: row.redemption_limit, period: row.redemption_limit_period }
+        : null,
+    availableFrom: row.available_from,
+    availableUntil: row.available_until,
+    availableDays: row.available_days,
+    restock: stock.restock,
     createdAt: toDateTimeString(row.created_at),
     updatedAt: toDateTimeString(row.updated_at),
   };
 }
 
+interface RedemptionBlock {
+  code: Exclude<RedemptionErrorCode, 'INSUFFICIENT_POINTS'>;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Why a child can't redeem a reward today, apart from their points
+ *
+ * @param redemptionDates - Local dates of the child's counted redemptions of the reward
+ * @returns null when the reward can be redeemed
+ */
+function getRedemptionBlock(
+  row: RewardRow,
+  today: string,
+  redemptionDates: readonly string[],
+): RedemptionBlock | null {
+  const reward = mapRewardRowToReward(row, today);
+
+  const windowError = getAvailabilityError(reward, today);
+  if (windowError === 'REWARD_NOT_STARTED') {
+    return {
+      code: windowError,
+      message: 'Reward is not available yet',
+      details: { availableFrom: reward.availableFrom },
+    };
+  }
+  if (windowError === 'REWARD_ENDED') {
+    return {
+      code: windowError,
+      message: 'Reward is no longer available',
+      details: { availableUntil: reward.availableUntil },
+    };
+  }
+  if (windowError === 'REWARD_NOT_AVAILABLE_TODAY') {
+    return {
+      code: windowError,
+      message: 'Reward is not available today',
+      details: { availableDays: reward.availableDays },
+    };
+  }
+
+  if (reward.quantity !== null && reward.quantity <= 0) {
+    return {
+      code: 'REWARD_OUT_OF_STOCK',
+      message: 'Reward is out of stock',
+      details: reward.restock
+        ? { restocksOn: getNextPeriodStart(reward.restock.period, today) }
+        : undefined,
+    };
+  }
+
+  const limit = reward.redemptionLimit;
+  if (limit && getRedemptionsLeft(limit, redemptionDates, today) === 0) {
+    return {
+      code: 'REDEMPTION_LIMIT_REACHED',
+      message: `Redemption limit reached for this ${limit.period}`,
+      details: {
+        limit: limit.count,
+        period: limit.period,
+        resetsOn: getNextPeriodStart(limit.period, today),
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Local dates of a child's redemptions since a date, by reward
+ *
+ * Rejected redemptions were refunded, so they don't count towards limits.
+ */
+async function getRedemptionDates(
+  client: Pool | PoolClient,
+  childId: string,
+  timezone: string,
+  since: string,
+  rewardId?: string,
+): Promise<Map<string, string[]>> {
+  const params = [childId, timezone, since];
+  let query = `SELECT reward_id, (redeemed_at AT TIME ZONE $2)::date::text AS local_date
+     FROM reward_redemptions
+     WHERE child_id = $1 AND status <> 'rejected'
+       AND (redeemed_at AT TIME ZONE $2)::date >= $3::date`;
+
+  if (rewardId) {
+    query += ' AND reward_id = $4';
+    params.push(rewardId);
+  }
+
+  const result = await client.query<{ reward_id: string; local_date: string }>(query, params);
+
+  const dates = new Map<string, string[]>();
+  for (const row of result.rows) {
+    dates.set(row.reward_id, [...(dates.get(row.reward_id) ?? []), row.local_date]);
+  }
+  return dates;
+}
+
+/**
+ * Today in the household's timezone, the calendar reward rules follow
+ */
+async function getHouseholdToday(client: Pool | PoolClient, householdId: string): Promise<string> {
+  return getLocalToday(await new HouseholdRepository(client).getTimezone(householdId));
+}
+
 function mapRedemptionRowToRedemption(row: RewardRedemptionRow): RewardRedemption {
   return {
     id: row.id,
@@ -110,20 +272,55 @@ async function createReward(
   request: FastifyRequest<{ Params: HouseholdParams; Body: CreateRewardRequest }>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
 
   try {
     const validatedData = validateRequest(CreateRewardRequestSchema, request.body);
-    const { name, description, pointsCost, quantity } = validatedData;
-
-    const result = await db.query(
-      `INSERT INTO rewards (household_id, name, description, points_cost, quantity)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING *`,
-      [householdId, name.trim(), description || null, pointsCost, quantity ?? null],
+    const {
+      name,
+      description,
+      pointsCost,
+      quantity,
+      redemptionLimit,
+      availableFrom,
+      availableUntil,
+      availableDays,
+      restock,
+    } = validatedData;
+
+    // A restocking reward starts with a full stock
+    const result = await client.query<RewardRow>(
+      `INSERT INTO rewards (household_id, name, description, points_cost, quantity,
+                            redemption_limit, redemption_limit_period, available_from,
+                            available_until, available_days, restock_quantity, restock_period)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING ${REWARD_COLUMNS}`,
+      [
+        householdId,
+        name.trim(),
+        description || null,
+        pointsCost,
+        restock ? restock.quantity : (quantity ?? null),
+        redemptionLimit?.count ?? null,
+        redemptionLimit?.period ?? null,
+        availableFrom ?? null,
+        availableUntil ?? null,
+        availableDays ?? null,
+        restock?.quantity ?? null,
+        restock?.period ?? null,
+      ],
     );
 
-    return reply.status(201).send(mapRewardRowToReward(result.rows[0]));
+    const reward = mapRewardRowToReward(result.rows[0]);
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'reward.created',
+      entityId: reward.id,
+      after: reward,
+    });
+
+    return reply.status(201).send(reward);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return handleZodError(error, reply);
@@ -143,11 +340,12 @@ async function createReward(
  * Supports ?active=true/false filter
  */
 async function listRewards(request: FastifyRequest<ListRewardsRequest>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
   const { active } = request.query;
 
   try {
-    let query = 'SELECT * FROM rewards WHERE household_id = $1';
+    let query = `SELECT ${REWARD_COLUMNS} FROM rewards WHERE household_id = $1`;
     const params: (string | boolean)[] = [householdId];
 
     if (active !== undefined) {
@@ -158,9 +356,10 @@ async function listRewards(request: FastifyRequest<ListRewardsRequest>, reply: F
 
     query += ' ORDER BY created_at DESC';
 
-    const result = await db.query(query, params);
+    const result = await client.query<RewardRow>(query, params);
+    const today = await getHouseholdToday(client, householdId);
 
-    return reply.send({ rewards: result.rows.map(mapRewardRowToReward) });
+    return reply.send({ rewards: result.rows.map((row) => mapRewardRowToReward(row, today)) });
   } catch (error) {
     request.log.error(error, 'Failed to list rewards');
     return reply.status(500).send({
@@ -175,14 +374,15 @@ async function listRewards(request: FastifyRequest<ListRewardsRequest>, reply: F
  * GET /api/households/:householdId/rewards/:rewardId - Get reward details
  */
 async function getReward(request: FastifyRequest<{ Params: RewardParams }>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   try {
     // Validate params with Zod schema
     const { householdId, rewardId } = validateParams(householdRewardParamsSchema, request);
 
-    const result = await db.query('SELECT * FROM rewards WHERE id = $1 AND household_id = $2', [
-      rewardId,
-      householdId,
-    ]);
+    const result = await client.query<RewardRow>(
+      `SELECT ${REWARD_COLUMNS} FROM rewards WHERE id = $1 AND household_id = $2`,
+      [rewardId, householdId],
+    );
 
     if (result.rows.length === 0) {
       return reply.status(404).send({
@@ -192,7 +392,8 @@ async function getReward(request: FastifyRequest<{ Params: RewardParams }>, repl
       });
     }
 
-    return reply.send(mapRewardRowToReward(result.rows[0]));
+    const today = await getHouseholdToday(client, householdId);
+    return reply.send(mapRewardRowToReward(result.rows[0], today));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return handleZodError(error, reply);
@@ -214,14 +415,16 @@ async function updateReward(
   request: FastifyRequest<{ Params: RewardParams; Body: UpdateRewardRequest }>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   try {
     // Validate params with Zod schema
     const { householdId, rewardId } = validateParams(householdRewardParamsSchema, request);
     const validatedData = validateRequest(UpdateRewardRequestSchema, request.body);
-    const { name, description, pointsCost, quantity, active } = validatedData;
+    const { name, description, pointsCost, quantity, active, redemptionLimit, restock } =
+      validatedData;
 
     const updates: string[] = [];
-    const values: (string | number | boolean | null)[] = [];
+    const values: (string | number | boolean | number[] | null)[] = [];
     let paramIndex = 1;
 
     if (name !== undefined) {
@@ -244,6 +447,36 @@ async function updateReward(
       updates.push(`active = $${paramIndex++}`);
       values.push(active);
     }
+    if (redemptionLimit !== undefined) {
+      updates.push(`redemption_limit = $${paramIndex++}`);
+      values.push(redemptionLimit?.count ?? null);
+      updates.push(`redemption_limit_period = $${paramIndex++}`);
+      values.push(redemptionLimit?.period ?? null);
+    }
+    if (validatedData.availableFrom !== undefined) {
+      updates.push(`available_from = $${paramIndex++}`);
+      values.push(validatedData.availableFrom);
+    }
+    if (validatedData.availableUntil !== undefined) {
+      updates.push(`available_until = $${paramIndex++}`);
+      values.push(validatedData.availableUntil);
+    }
+    if (validatedData.availableDays !== undefined) {
+      updates.push(`available_days = $${paramIndex++}`);
+      values.push(validatedData.availableDays);
+    }
+    if (restock !== undefined) {
+      // A new restock rule starts with a full stock and counts periods from now on
+      updates.push(`restock_quantity = $${paramIndex++}`);
+      values.push(restock?.quantity ?? null);
+      updates.push(`restock_period = $${paramIndex++}`);
+      values.push(restock?.period ?? null);
+      updates.push('restocked_on = NULL');
+      if (restock) {
+        updates.push(`quantity = $${paramIndex++}`);
+        values.push(restock.quantity);
+      }
+    }
 
     if (updates.length === 0) {
       return reply.status(400).send({
@@ -260,12 +493,15 @@ async function updateReward(
       UPDATE rewards
       SET ${updates.join(', ')}
       WHERE id = $${paramIndex++} AND household_id = $${paramIndex++}
-      RETURNING *
+      RETURNING ${REWARD_COLUMNS}
     `;
 
-    const result = await db.query(query, values);
+    const previous = await client.query<RewardRow>(
+      `SELECT ${REWARD_COLUMNS} FROM rewards WHERE id = $1 AND household_id = $2 FOR UPDATE`,
+      [rewardId, householdId],
+    );
 
-    if (result.rows.length === 0) {
+    if (previous.rows.length === 0) {
       return reply.status(404).send({
         statusCode: 404,
         error: 'Not Found',
@@ -273,7 +509,35 @@ async function updateReward(
       });
     }
 
-    return reply.send(mapRewardRowToReward(result.rows[0]));
+    // The window may be changed at one end only
+    const availableFrom =
+      validatedData.availableFrom !== undefined
+        ? validatedData.availableFrom
+        : previous.rows[0].available_from;
+    const availableUntil =
+      validatedData.availableUntil !== undefined
+        ? validatedData.availableUntil
+        : previous.rows[0].available_until;
+    if (availableFrom && availableUntil && availableFrom > availableUntil) {
+      return reply.status(400).send({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: 'availableUntil must not be before availableFrom',
+      });
+    }
+
+    const result = await client.query<RewardRow>(query, values);
+
+    const reward = mapRewardRowToReward(result.rows[0]);
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'reward.updated',
+      entityId: rewardId,
+      before: mapRewardRowToReward(previous.rows[0]),
+      after: reward,
+    });
+
+    return reply.send(reward);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return handleZodError(error, reply);
@@ -297,11 +561,16 @@ async function deleteReward(
   request: FastifyRequest<{ Params: RewardParams }>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   try {
     // Validate params with Zod schema
     const { householdId, rewardId } = validateParams(householdRewardParamsSchema, request);
 
-    const result = await db.query(
+    const previous = await client.query<RewardRow>(
+      `SELECT ${REWARD_COLUMNS} FROM rewards WHERE id = $1 AND household_id = $2 FOR UPDATE`,
+      [rewardId, householdId],
+    );
+    const result = await client.query(
       `UPDATE rewards
        SET active = false, updated_at = NOW()
        WHERE id = $1 AND household_id = $2
@@ -317,6 +586,13 @@ async function deleteReward(
       });
     }
 
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'reward.deleted',
+      entityId: rewardId,
+      before: mapRewardRowToReward(previous.rows[0]),
+    });
+
     return reply.send({
       success: true,
       message: 'Reward deleted successfully',
@@ -366,31 +642,46 @@ async function getChildRewards(request: FastifyRequest, reply: FastifyReply) {
     const childId = child.id;
     const householdId = child.household_id;
 
-    // Get points balance
-    const balanceResult = await db.query(
-      'SELECT points_balance FROM child_points_balance WHERE child_id = $1',
-      [childId],
-    );
-
-    const pointsBalance = balanceResult.rows[0]?.points_balance || 0;
+    // Get points balance and savings goals
+    const savings = await getChildSavings(db, childId, householdId);
 
     // Get active rewards
-    const rewardsResult = await db.query(
-      'SELECT * FROM rewards WHERE household_id = $1 AND active = true ORDER BY points_cost ASC',
+    const rewardsResult = await db.query<RewardRow>(
+      `SELECT ${REWARD_COLUMNS} FROM rewards
+       WHERE household_id = $1 AND active = true ORDER BY points_cost ASC`,
       [householdId],
     );
 
+    const timezone = await new HouseholdRepository(db).getTimezone(householdId);
+    const today = getLocalToday(timezone);
+    const redemptionDates = await getRedemptionDates(
+      db,
+      childId,
+      timezone,
+      getEarliestPeriodStart(today),
+    );
+
+    // A goal's own earmark can be spent on its reward
+    const goalEarmarks = new Map(
+      savings.goals.map((goal) => [goal.rewardId, goal.earmarkedPoints]),
+    );
+
     const rewards = rewardsResult.rows.map((row) => {
-      const reward = mapRewardRowToReward(row);
+      const reward = mapRewardRowToReward(row, today);
+      const dates = redemptionDates.get(reward.id) ?? [];
+      const block = getRedemptionBlock(row, today, dates);
+      const earmarked = savings.earmarkedPoints - (goalEarmarks.get(reward.id) ?? 0);
       return {
         ...reward,
-        available: reward.quantity === null || reward.quantity > 0,
-        canAfford: pointsBalance >= reward.pointsCost,
+        available: block === null,
+        unavailableReason: block?.code ?? null,
+        redemptionsLeft: getRedemptionsLeft(reward.redemptionLimit, dates, today),
+        canAfford: canAffordWithEarmarks(savings.pointsBalance, earmarked, reward.pointsCost),
       };
     });
 
     return reply.send({
-      pointsBalance,
+      ...savings,
       rewards,
     });
   } catch (error) {
@@ -452,9 +743,10 @@ async function redeemReward(
 
     // Use transaction for atomic redemption
     const redemptionData = await withTransaction(pool, async (client) => {
-      // Get reward with row lock
-      const rewardResult = await client.query(
-        'SELECT * FROM rewards WHERE id = $1 AND household_id = $2 AND active = true FOR UPDATE',
+      // Get reward with row lock; the rules below are checked while it is held
+      const rewardResult = await client.query<RewardRow>(
+        `SELECT ${REWARD_COLUMNS} FROM rewards
+         WHERE id = $1 AND household_id = $2 AND active = true FOR UPDATE`,
         [rewardId, householdId],
       );
 
@@ -463,26 +755,65 @@ async function redeemReward(
       }
 
       const reward = rewardResult.rows[0];
+      const timezone = await new HouseholdRepository(client).getTimezone(householdId);
+      const today = getLocalToday(timezone);
+
+      // Check availability window, stock and the child's limit
+      const limitPeriod = reward.redemption_limit_period;
+      const redemptionDates = limitPeriod
+        ? await getRedemptionDates(
+            client,
+            childId,
+            timezone,
+            getPeriodStart(limitPeriod, today),
+            rewardId,
+          )
+        : new Map<string, string[]>();
+      const block = getRedemptionBlock(reward, today, redemptionDates.get(rewardId) ?? []);
+
+      if (block) {
+        throw new TransactionValidationError(
+          400,
+          'Bad Request',
+          block.message,
+          block.details,
+          block.code,
+        );
+      }
 
-      // Check quantity
-      if (reward.quantity !== null && reward.quantity <= 0) {
-        throw new TransactionValidationError(400, 'Bad Request', 'Reward is out of stock');
+      // Store a restock that is due before taking from the stock
+      const restock = getDueRestock(toRewardStock(reward), today);
+      if (restock) {
+        await client.query('UPDATE rewards SET quantity = $1, restocked_on = $2 WHERE id = $3', [
+          restock.quantity,
+          restock.restockedOn,
+          rewardId,
+        ]);
       }
 
-      // Get points balance
-      const balanceResult = await client.query(
-        'SELECT points_balance FROM child_points_balance WHERE child_id = $1',
-        [childId],
-      );
+      // Get points balance, locked until the redemption is recorded
+      const points = new PointsTransactionRepository(client);
+      const pointsBalance = await points.getBalance(childId, { lock: true });
 
-      const pointsBalance = balanceResult.rows[0]?.points_balance || 0;
+      // Points earmarked for other savings goals cannot be spent
+      const goals = new SavingsGoalRepository(client);
+      const otherGoals = (await goals.findByChild(childId)).filter(
+        (goal) => goal.rewardId !== rewardId,
+      );
+      const earmarked = getEarmarkedTotal(otherGoals);
 
       // Check if child can afford
-      if (pointsBalance < reward.points_cost) {
-        throw new TransactionValidationError(400, 'Bad Request', 'Insufficient points', {
-          required: reward.points_cost,
-          available: pointsBalance,
-        });
+      if (!canAffordWithEarmarks(pointsBalance, earmarked, reward.points_cost)) {
+        throw new TransactionValidationError(
+          400,
+          'Bad Request',
+          'Insufficient points',
+          {
+            required: reward.points_cost,
+            available: Math.max(pointsBalance - earmarked, 0),
+          },
+          'INSUFFICIENT_POINTS',
+        );
       }
 
       // Create redemption
@@ -493,25 +824,56 @@ async function redeemReward(
         [householdId, rewardId, childId, reward.points_cost],
       );
 
+      const redemption = redemptionResult.rows[0];
+
+      // Deduct the points in the ledger
+      const transaction = await points.record({
+        householdId,
+        childId,
+        type: 'redemption',
+        amount: -reward.points_cost,
+        rewardRedemptionId: redemption.id,
+        createdBy: userId,
+      });
+
       // Decrease quantity if not unlimited
       if (reward.quantity !== null) {
         await client.query('UPDATE rewards SET quantity = quantity - 1 WHERE id = $1', [rewardId]);
       }
 
-      return redemptionResult.rows[0];
+      // The goal is reached once its reward is redeemed
+      await goals.deleteForReward(childId, rewardId);
+
+      await recordAuditEvent(
+        request,
+        {
+          householdId,
+          action: 'redemption.created',
+          entityId: redemption.id,
+          after: mapRedemptionRowToRedemption(redemption),
+        },
+        client,
+      );
+
+      return { redemption, newBalance: transaction.balanceAfter };
     });
 
-    // Get new balance (outside transaction, read-only)
-    const newBalanceResult = await db.query(
-      'SELECT points_balance FROM child_points_balance WHERE child_id = $1',
-      [childId],
+    runAfterCommit(request, () =>
+      publishHouseholdEvent({
+        type: 'redemption.status_changed',
+        householdId,
+        data: {
+          redemptionId: redemptionData.redemption.id,
+          rewardId,
+          childId,
+          status: 'pending',
+        },
+      }),
     );
 
-    const newBalance = newBalanceResult.rows[0]?.points_balance || 0;
-
     return reply.status(201).send({
-      redemption: mapRedemptionRowToRedemption(redemptionData),
-      newBalance,
+      redemption: mapRedemptionRowToRedemption(redemptionData.redemption),
+      newBalance: redemptionData.newBalance,
     });
   } catch (error) {
     if (error instanceof TransactionValidationError) {
@@ -520,6 +882,9 @@ async function redeemReward(
         error: error.error,
         message: error.message,
       };
+      if (error.code) {
+        response.code = error.code;
+      }
       if (error.details) {
         response.details = error.details;
       }
@@ -548,6 +913,7 @@ async function listRedemptions(
   }>,
   reply: FastifyReply,
 ) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
   const { status } = request.query;
 
@@ -568,7 +934,7 @@ async function listRedemptions(
 
     query += ' ORDER BY rr.redeemed_at DESC';
 
-    const result = await db.query(query, params);
+    const result = await client.query(query, params);
 
     const redemptions = result.rows.map((row) => ({
       ...mapRedemptionRowToRedemption(row),
@@ -625,10 +991,11 @@ async function updateRedemptionStatus(
   reply: FastifyReply,
   status: 'approved' | 'fulfilled' | 'rejected',
 ) {
+  const client = getHouseholdClient(request);
   try {
     // Validate params with Zod schema
     const { householdId, redemptionId } = validateParams(householdRedemptionParamsSchema, request);
-    const updatedRedemption = await withTransaction(pool, async (client) => {
+    const outcome = await withSavepoint(client, async () => {
       // Get current redemption
       const currentResult = await client.query(
         'SELECT * FROM reward_redemptions WHERE id = $1 AND household_id = $2 FOR UPDATE',
@@ -641,13 +1008,35 @@ async function updateRedemptionStatus(
 
       const current = currentResult.rows[0];
 
+      // The points of a rejected redemption are refunded, so it cannot be reopened
+      if (current.status === 'rejected') {
+        if (status === 'rejected') {
+          return { previous: current, updated: current };
+        }
+        throw new TransactionValidationError(
+          400,
+          'Bad Request',
+          'Redemption has already been rejected',
+        );
+      }
+
       // If rejecting, restore quantity and refund points
-      if (status === 'rejected' && current.status !== 'rejected') {
-        // Restore reward quantity
+      if (status === 'rejected') {
+        // Restore reward quantity, up to the restock quantity of a restocking reward
         await client.query(
-          'UPDATE rewards SET quantity = COALESCE(quantity, 0) + 1 WHERE id = $1 AND quantity IS NOT NULL',
+          `UPDATE rewards SET quantity = LEAST(quantity + 1, COALESCE(restock_quantity, quantity + 1))
+           WHERE id = $1 AND quantity IS NOT NULL`,
           [current.reward_id],
         );
+
+        await new PointsTransactionRepository(client).record({
+          householdId,
+          childId: current.child_id,
+          type: 'refund',
+          amount: current.points_spent,
+          rewardRedemptionId: current.id,
+          createdBy: request.user?.userId,
+        });
       }
 
       // Update status
@@ -658,10 +1047,41 @@ async function updateRedemptionStatus(
 
       const result = await client.query(updateQuery, [status, redemptionId, householdId]);
 
-      return result.rows[0];
+      return { previous: current, updated: result.rows[0] };
     });
 
-    return reply.send(mapRedemptionRowToRedemption(updatedRedemption));
+    const redemption = mapRedemptionRowToRedemption(outcome.updated);
+
+    if (outcome.previous !== outcome.updated) {
+      await recordAuditEvent(request, {
+        householdId,
+        action: `redemption.${status}`,
+        entityId: redemptionId,
+        before: mapRedemptionRowToRedemption(outcome.previous),
+        after: redemption,
+      });
+    }
+
+    runAfterCommit(request, () => notifyRedemptionStatusChanged(redemption.id));
+    if (status === 'rejected' && outcome.previous !== outcome.updated) {
+      runAfterCommit(request, () => notifySavingsGoalsAffordable(redemption.childId));
+    }
+    if (outcome.previous !== outcome.updated) {
+      runAfterCommit(request, () =>
+        publishHouseholdEvent({
+          type: 'redemption.status_changed',
+          householdId,
+          data: {
+            redemptionId: redemption.id,
+            rewardId: redemption.rewardId,
+            childId: redemption.childId,
+            status: redemption.status,
+          },
+        }),
+      );
+    }
+
+    return reply.send(redemption);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return handleZodError(error, reply);
@@ -716,7 +1136,11 @@ export default async function rewardRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('rewards.manage'),
+    ],
     handler: createReward,
   });
 
@@ -776,7 +1200,11 @@ export default async function rewardRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('rewards.manage'),
+    ],
     handler: updateReward,
   });
 
@@ -803,7 +1231,11 @@ export default async function rewardRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('rewards.manage'),
+    ],
     handler: deleteReward,
   });
 
@@ -828,7 +1260,8 @@ export default async function rewardRoutes(server: FastifyInstance) {
   server.post('/api/children/me/rewards/:rewardId/redeem', {
     schema: stripResponseValidation({
       summary: 'Redeem a reward',
-      description: 'Redeem a reward with points (if child has enough points)',
+      description:
+        'Redeem a reward with points. Refusals carry a `code`: REWARD_NOT_STARTED, REWARD_ENDED, REWARD_NOT_AVAILABLE_TODAY, REWARD_OUT_OF_STOCK, REDEMPTION_LIMIT_REACHED or INSUFFICIENT_POINTS',
       tags: ['rewards', 'children'],
       security: [{ bearerAuth: [] }],
       params: zodToOpenAPI(ChildRewardParamsSchema),
@@ -871,7 +1304,11 @@ export default async function rewardRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('rewards.manage'),
+    ],
     handler: listRedemptions,
   });
 
@@ -891,7 +1328,11 @@ export default async function rewardRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('rewards.manage'),
+    ],
     handler: approveRedemption,
   });
 
@@ -911,7 +1352,11 @@ export default async function rewardRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('rewards.manage'),
+    ],
     handler: fulfillRedemption,
   });
 
@@ -931,7 +1376,11 @@ export default async function rewardRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('rewards.manage'),
+    ],
     handler: rejectRedemption,
   });
 }
@@ -0,0 +1,227 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Savings Goals API Tests
+ *
+ * Points earmarked for a goal stay in the balance, but only the goal's own
+ * reward can spend them.
+ */
+
+describe('Savings Goals API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let adminToken: string;
+  let adminUserId: string;
+  let childToken: string;
+  let childUserId: string;
+  let householdId: string;
+  let childId: string;
+  let bikeRewardId: string;
+  let cinemaRewardId: string;
+  let bikeGoalId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const timestamp = Date.now();
+    const adminData = await registerAndLogin(
+      app,
+      `test-savings-admin-${timestamp}@example.com`,
+      'TestPass123!',
+    );
+    adminToken = adminData.accessToken;
+    adminUserId = adminData.userId;
+
+    const childData = await registerAndLogin(
+      app,
+      `test-savings-child-${timestamp}@example.com`,
+      'ChildPass123!',
+    );
+    childToken = childData.accessToken;
+    childUserId = childData.userId;
+
+    householdId = (
+      await pool.query('INSERT INTO households (name) VALUES ($1) RETURNING id', [
+        `Test Savings Household ${timestamp}`,
+      ])
+    ).rows[0].id;
+
+    await pool.query(
+      `INSERT INTO household_members (household_id, user_id, role)
+       VALUES ($1, $2, 'admin'), ($1, $3, 'child')`,
+      [householdId, adminUserId, childUserId],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year, user_id) VALUES ($1, $2, $3, $4) RETURNING id',
+        [householdId, 'Emma', 2015, childUserId],
+      )
+    ).rows[0].id;
+
+    const rewards = await pool.query(
+      `INSERT INTO rewards (household_id, name, points_cost)
+       VALUES ($1, 'Bike', 500), ($1, 'Cinema', 80)
+       RETURNING id, name`,
+      [householdId],
+    );
+    bikeRewardId = rewards.rows.find((row) => row.name === 'Bike').id;
+    cinemaRewardId = rewards.rows.find((row) => row.name === 'Cinema').id;
+
+    const bonus = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/children/${childId}/points/adjustments`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      payload: { type: 'bonus', amount: 100, reason: 'Starting points' },
+    });
+    assert.strictEqual(bonus.statusCode, 201);
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM households WHERE id = $1', [householdId]);
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [adminUserId, childUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function getChildRewards() {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/children/me/rewards',
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+    assert.strictEqual(response.statusCode, 200);
+    return JSON.parse(response.body);
+  }
+
+  test('should pin a reward as a savings goal with earmarked points', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/children/me/savings-goals',
+      headers: { Authorization: `Bearer ${childToken}` },
+      payload: { rewardId: bikeRewardId, earmarkedPoints: 40 },
+    });
+
+    assert.strictEqual(response.statusCode, 201);
+    const goal = JSON.parse(response.body);
+    assert.strictEqual(goal.rewardName, 'Bike');
+    assert.strictEqual(goal.earmarkedPoints, 40);
+    assert.strictEqual(goal.progressPoints, 100);
+    assert.strictEqual(goal.progressPercent, 20);
+    assert.strictEqual(goal.canAfford, false);
+    bikeGoalId = goal.id;
+  });
+
+  test('should not pin the same reward twice', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/children/me/savings-goals',
+      headers: { Authorization: `Bearer ${childToken}` },
+      payload: { rewardId: bikeRewardId },
+    });
+
+    assert.strictEqual(response.statusCode, 409);
+  });
+
+  test('should list goals and keep earmarked points from other rewards', async () => {
+    const body = await getChildRewards();
+
+    assert.strictEqual(body.pointsBalance, 100);
+    assert.strictEqual(body.earmarkedPoints, 40);
+    assert.strictEqual(body.availablePoints, 60);
+    assert.strictEqual(body.goals.length, 1);
+
+    const cinema = body.rewards.find((reward: { id: string }) => reward.id === cinemaRewardId);
+    assert.strictEqual(cinema.canAfford, false);
+  });
+
+  test('should not earmark more points than the balance', async () => {
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/children/me/savings-goals/${bikeGoalId}`,
+      headers: { Authorization: `Bearer ${childToken}` },
+      payload: { earmarkedPoints: 150 },
+    });
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+
+  test('should refuse to redeem a reward with earmarked points', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/children/me/rewards/${cinemaRewardId}/redeem`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 400);
+    assert.deepStrictEqual(JSON.parse(response.body).details, { required: 80, available: 60 });
+  });
+
+  test('should release the earmark when the earmark is lowered', async () => {
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/children/me/savings-goals/${bikeGoalId}`,
+      headers: { Authorization: `Bearer ${childToken}` },
+      payload: { earmarkedPoints: 0 },
+    });
+
+    assert.strictEqual(response.statusCode, 200);
+    const body = await getChildRewards();
+    const cinema = body.rewards.find((reward: { id: string }) => reward.id === cinemaRewardId);
+    assert.strictEqual(cinema.canAfford, true);
+  });
+
+  test('should remove the goal once its reward is redeemed', async () => {
+    const goal = await app.inject({
+      method: 'POST',
+      url: '/api/children/me/savings-goals',
+      headers: { Authorization: `Bearer ${childToken}` },
+      payload: { rewardId: cinemaRewardId, earmarkedPoints: 80 },
+    });
+    assert.strictEqual(goal.statusCode, 201);
+    assert.strictEqual(JSON.parse(goal.body).canAfford, true);
+
+    const redeem = await app.inject({
+      method: 'POST',
+      url: `/api/children/me/rewards/${cinemaRewardId}/redeem`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+    assert.strictEqual(redeem.statusCode, 201);
+
+    const body = await getChildRewards();
+    assert.deepStrictEqual(
+      body.goals.map((g: { rewardId: string }) => g.rewardId),
+      [bikeRewardId],
+    );
+  });
+
+  test('should delete a goal', async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/children/me/savings-goals/${bikeGoalId}`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+    assert.strictEqual(response.statusCode, 204);
+
+    const missing = await app.inject({
+      method: 'DELETE',
+      url: `/api/children/me/savings-goals/${bikeGoalId}`,
+      headers: { Authorization: `Bearer ${childToken}` },
+    });
+    assert.strictEqual(missing.statusCode, 404);
+  });
+});
@@ -0,0 +1,410 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  SavingsGoalSchema,
+  CreateSavingsGoalRequestSchema,
+  UpdateSavingsGoalRequestSchema,
+  type SavingsGoal,
+  type CreateSavingsGoalRequest,
+  type UpdateSavingsGoalRequest,
+} from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { db, pool } from '../database.js';
+import { authenticateUser } from '../middleware/auth.js';
+import { runAfterCommit } from '../middleware/household-scope.js';
+import { SavingsGoalRepository } from '../repositories/savings-goal.repository.js';
+import { PointsTransactionRepository } from '../repositories/points-transaction.repository.js';
+import { getChildSavings } from '../services/savings-goal.service.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { notifySavingsGoalsAffordable } from '../services/notification.service.js';
+import {
+  validateRequest,
+  validateParams,
+  handleZodError,
+  withTransaction,
+  getEarmarkedTotal,
+} from '../utils/index.js';
+import { uuidSchema } from '../schemas/validation.js';
+import { stripResponseValidation } from '../schemas/common.js';
+
+/**
+ * Savings Goals
+ *
+ * A child pins rewards they are saving for and can earmark points for them.
+ * Goals, with their progress and estimate, are listed by
+ * GET /api/children/me/rewards.
+ */
+
+/**
+ * Custom error for transaction validation failures
+ * Used to trigger rollback and return specific HTTP responses
+ */
+class TransactionValidationError extends Error {
+  constructor(
+    public statusCode: number,
+    public error: string,
+    message: string,
+    public details?: unknown,
+  ) {
+    super(message);
+    this.name = 'TransactionValidationError';
+  }
+}
+
+interface GoalParams {
+  goalId: string;
+}
+
+interface ChildProfile {
+  id: string;
+  householdId: string;
+}
+
+const goalIdParamSchema = z.object({
+  goalId: uuidSchema,
+});
+
+/**
+ * Child profile of the signed-in user
+ */
+async function findChildProfile(userId: string): Promise<ChildProfile | null> {
+  const result = await db.query<{ id: string; household_id: string }>(
+    'SELECT id, household_id FROM children WHERE user_id = $1',
+    [userId],
+  );
+
+  const row = result.rows[0];
+  return row ? { id: row.id, householdId: row.household_id } : null;
+}
+
+/**
+ * Earmarked points must stay within the balance and the goal's cost
+ *
+ * Runs with the balance locked, so points cannot be spent in between.
+ */
+async function checkEarmark(
+  points: PointsTransactionRepository,
+  goals: SavingsGoalRepository,
+  childId: string,
+  goal: { id: string | null; pointsCost: number; earmarkedPoints: number },
+): Promise<void> {
+  if (goal.earmarkedPoints > goal.pointsCost) {
+    throw new TransactionValidationError(
+      400,
+      'Bad Request',
+      'Cannot earmark more points than the reward costs',
+      { pointsCost: goal.pointsCost },
+    );
+  }
+
+  const balance = await points.getBalance(childId, { lock: true });
+  const otherGoals = (await goals.findByChild(childId)).filter((other) => other.id !== goal.id);
+  const available = balance - getEarmarkedTotal(otherGoals);
+
+  if (goal.earmarkedPoints > available) {
+    throw new TransactionValidationError(400, 'Bad Request', 'Not enough points to earmark', {
+      requested: goal.earmarkedPoints,
+      available: Math.max(available, 0),
+    });
+  }
+}
+
+/**
+ * The goal with its progress, as listed in the child's rewards
+ */
+async function loadSavingsGoal(child: ChildProfile, goalId: string): Promise<SavingsGoal | null> {
+  const savings = await getChildSavings(db, child.id, child.householdId);
+  return savings.goals.find((goal) => goal.id === goalId) ?? null;
+}
+
+function sendError(reply: FastifyReply, error: TransactionValidationError) {
+  const response: Record<string, unknown> = {
+    statusCode: error.statusCode,
+    error: error.error,
+    message: error.message,
+  };
+  if (error.details) {
+    response.details = error.details;
+  }
+  return reply.status(error.statusCode).send(response);
+}
+
+/**
+ * POST /api/children/me/savings-goals - Pin a reward as a savings goal
+ */
+async function createSavingsGoal(
+  request: FastifyRequest<{ Body: CreateSavingsGoalRequest }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { rewardId, earmarkedPoints = 0 } = validateRequest(
+      CreateSavingsGoalRequestSchema,
+      request.body,
+    );
+
+    const child = await findChildProfile(request.user!.userId);
+    if (!child) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Child profile not found for this user',
+      });
+    }
+
+    const goalId = await withTransaction(pool, async (client) => {
+      const rewardResult = await client.query<{ points_cost: number }>(
+        'SELECT points_cost FROM rewards WHERE id = $1 AND household_id = $2 AND active = true',
+        [rewardId, child.householdId],
+      );
+
+      if (rewardResult.rows.length === 0) {
+        throw new TransactionValidationError(404, 'Not Found', 'Reward not found or not active');
+      }
+
+      const goals = new SavingsGoalRepository(client);
+      await checkEarmark(new PointsTransactionRepository(client), goals, child.id, {
+        id: null,
+        pointsCost: rewardResult.rows[0].points_cost,
+        earmarkedPoints,
+      });
+
+      const created = await goals.create({
+        householdId: child.householdId,
+        childId: child.id,
+        rewardId,
+        earmarkedPoints,
+      });
+
+      if (!created) {
+        throw new TransactionValidationError(
+          409,
+          'Conflict',
+          'You are already saving for this reward',
+        );
+      }
+
+      await recordAuditEvent(
+        request,
+        {
+          householdId: child.householdId,
+          action: 'savings_goal.created',
+          entityId: created.id,
+          after: { childId: child.id, rewardId, earmarkedPoints },
+        },
+        client,
+      );
+
+      return created.id;
+    });
+
+    runAfterCommit(request, () => notifySavingsGoalsAffordable(child.id));
+
+    return reply.status(201).send(await loadSavingsGoal(child, goalId));
+  } catch (error) {
+    if (error instanceof TransactionValidationError) {
+      return sendError(reply, error);
+    }
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to create savings goal');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to create savings goal',
+    });
+  }
+}
+
+/**
+ * PATCH /api/children/me/savings-goals/:goalId - Change the earmarked points
+ */
+async function updateSavingsGoal(
+  request: FastifyRequest<{ Params: GoalParams; Body: UpdateSavingsGoalRequest }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { goalId } = validateParams(goalIdParamSchema, request);
+    const { earmarkedPoints } = validateRequest(UpdateSavingsGoalRequestSchema, request.body);
+
+    const child = await findChildProfile(request.user!.userId);
+    if (!child) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Child profile not found for this user',
+      });
+    }
+
+    await withTransaction(pool, async (client) => {
+      const goals = new SavingsGoalRepository(client);
+      const goal = await goals.findById(goalId, child.id);
+
+      if (!goal) {
+        throw new TransactionValidationError(404, 'Not Found', 'Savings goal not found');
+      }
+
+      await checkEarmark(new PointsTransactionRepository(client), goals, child.id, {
+        id: goal.id,
+        pointsCost: goal.pointsCost,
+        earmarkedPoints,
+      });
+
+      await goals.updateEarmark(goalId, child.id, earmarkedPoints);
+
+      await recordAuditEvent(
+        request,
+        {
+          householdId: child.householdId,
+          action: 'savings_goal.updated',
+          entityId: goalId,
+          before: { earmarkedPoints: goal.earmarkedPoints },
+          after: { earmarkedPoints },
+        },
+        client,
+      );
+    });
+
+    runAfterCommit(request, () => notifySavingsGoalsAffordable(child.id));
+
+    return reply.send(await loadSavingsGoal(child, goalId));
+  } catch (error) {
+    if (error instanceof TransactionValidationError) {
+      return sendError(reply, error);
+    }
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to update savings goal');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to update savings goal',
+    });
+  }
+}
+
+/**
+ * DELETE /api/children/me/savings-goals/:goalId - Stop saving for a reward
+ */
+async function deleteSavingsGoal(
+  request: FastifyRequest<{ Params: GoalParams }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { goalId } = validateParams(goalIdParamSchema, request);
+
+    const child = await findChildProfile(request.user!.userId);
+    if (!child) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Child profile not found for this user',
+      });
+    }
+
+    const deleted = await withTransaction(pool, async (client) => {
+      const removed = await new SavingsGoalRepository(client).delete(goalId, child.id);
+      if (removed) {
+        await recordAuditEvent(
+          request,
+          {
+            householdId: child.householdId,
+            action: 'savings_goal.deleted',
+            entityId: goalId,
+            before: { childId: child.id },
+          },
+          client,
+        );
+      }
+      return removed;
+    });
+    if (!deleted) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Savings goal not found',
+      });
+    }
+
+    // Released points may bring the other goals within reach
+    runAfterCommit(request, () => notifySavingsGoalsAffordable(child.id));
+
+    return reply.status(204).send();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to delete savings goal');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to delete savings goal',
+    });
+  }
+}
+
+/**
+ * Register savings goal routes
+ */
+export default async function savingsGoalRoutes(server: FastifyInstance) {
+  const GoalParamsSchema = z.object({ goalId: z.string().uuid() });
+
+  server.post('/api/children/me/savings-goals', {
+    schema: stripResponseValidation({
+      summary: 'Create savings goal',
+      description: 'Pin a reward as a savings goal, optionally earmarking points for it',
+      tags: ['rewards', 'children'],
+      security: [{ bearerAuth: [] }],
+      body: zodToOpenAPI(CreateSavingsGoalRequestSchema),
+      response: {
+        201: zodToOpenAPI(SavingsGoalSchema, { description: 'Savings goal created' }),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.Conflict,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [authenticateUser],
+    handler: createSavingsGoal,
+  });
+
+  server.patch('/api/children/me/savings-goals/:goalId', {
+    schema: stripResponseValidation({
+      summary: 'Update savings goal',
+      description: 'Change how many points are earmarked for a savings goal',
+      tags: ['rewards', 'children'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(GoalParamsSchema),
+      body: zodToOpenAPI(UpdateSavingsGoalRequestSchema),
+      response: {
+        200: zodToOpenAPI(SavingsGoalSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [authenticateUser],
+    handler: updateSavingsGoal,
+  });
+
+  server.delete('/api/children/me/savings-goals/:goalId', {
+    schema: stripResponseValidation({
+      summary: 'Delete savings goal',
+      description: 'Stop saving for a reward; its earmarked points are released',
+      tags: ['rewards', 'children'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(GoalParamsSchema),
+      response: {
+        204: { description: 'Savings goal deleted', type: 'null' },
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [authenticateUser],
+    handler: deleteSavingsGoal,
+  });
+}
@@ -0,0 +1,160 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Session API Tests
+ *
+ * Listing and revoking the refresh-token sessions of the current user.
+ */
+
+describe('Session API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  const testPassword = 'TestPass123!';
+  const userEmail = `test-sessions-${Date.now()}@example.com`;
+  const otherEmail = `test-sessions-other-${Date.now()}@example.com`;
+  let userId: string;
+  let otherUserId: string;
+  let accessToken: string;
+  let otherAccessToken: string;
+  let tabletRefreshToken: string;
+  let tabletAccessToken: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const userData = await registerAndLogin(app, userEmail, testPassword);
+    const otherData = await registerAndLogin(app, otherEmail, testPassword);
+    userId = userData.userId;
+    otherUserId = otherData.userId;
+    accessToken = userData.accessToken;
+    otherAccessToken = otherData.accessToken;
+
+    // Second sign-in of the same user, on the family tablet
+    const tabletLogin = await app.inject({
+      method: 'POST',
+      url: '/api/auth/login',
+      headers: { 'user-agent': 'Family Tablet' },
+      payload: { email: userEmail, password: testPassword },
+    });
+    tabletRefreshToken = JSON.parse(tabletLogin.body).refreshToken;
+    tabletAccessToken = JSON.parse(tabletLogin.body).accessToken;
+  });
+
+  after(async () => {
+    const householdResult = await pool.query(
+      'SELECT household_id FROM household_members WHERE user_id IN ($1, $2)',
+      [userId, otherUserId],
+    );
+    await pool.query('DELETE FROM users WHERE id IN ($1, $2)', [userId, otherUserId]);
+    for (const row of householdResult.rows) {
+      await pool.query('DELETE FROM households WHERE id = $1', [row.household_id]);
+    }
+    await pool.end();
+    await app.close();
+  });
+
+  async function listSessions(token: string) {
+    return app.inject({
+      method: 'GET',
+      url: '/api/users/me/sessions',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  describe('GET /api/users/me/sessions', () => {
+    test('should list the active sessions and mark the current one', async () => {
+      const response = await listSessions(accessToken);
+
+      assert.strictEqual(response.statusCode, 200);
+      const { sessions } = JSON.parse(response.body);
+      assert.strictEqual(sessions.length, 2);
+      assert.strictEqual(sessions.filter((s: { current: boolean }) => s.current).length, 1);
+      assert.ok(sessions.some((s: { userAgent: string }) => s.userAgent === 'Family Tablet'));
+    });
+
+    test('should require authentication', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/users/me/sessions' });
+
+      assert.strictEqual(response.statusCode, 401);
+    });
+  });
+
+  describe('DELETE /api/users/me/sessions/:sessionId', () => {
+    test('should not revoke a session of another user', async () => {
+      const { sessions } = JSON.parse((await listSessions(otherAccessToken)).body);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/users/me/sessions/${sessions[0].id}`,
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 404);
+    });
+
+    test('should sign out another device', async () => {
+      const { sessions } = JSON.parse((await listSessions(accessToken)).body);
+      const tablet = sessions.find((s: { userAgent: string }) => s.userAgent === 'Family Tablet');
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/users/me/sessions/${tablet.id}`,
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      assert.strictEqual(response.statusCode, 204);
+
+      const refreshResponse = await app.inject({
+        method: 'POST',
+        url: '/api/auth/refresh',
+        payload: { refreshToken: tabletRefreshToken },
+      });
+      assert.strictEqual(refreshResponse.statusCode, 401);
+
+      // Its access token stops working before it expires
+      assert.strictEqual((await listSessions(tabletAccessToken)).statusCode, 401);
+
+      const remaining = JSON.parse((await listSessions(accessToken)).body);
+      assert.strictEqual(remaining.sessions.length, 1);
+      assert.strictEqual(remaining.sessions[0].current, true);
+    });
+
+    test('should return 404 for a session that is already revoked', async () => {
+      const revoked = await pool.query(
+        'SELECT id FROM user_sessions WHERE user_id = $1 AND revoked_at IS NOT NULL',
+        [userId],
+      );
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/users/me/sessions/${revoked.rows[0].id}`,
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 404);
+    });
+
+    test('should reject an invalid session ID', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/users/me/sessions/not-a-uuid',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 400);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { UserSessionListResponseSchema, type UserSessionListResponse } from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { db } from '../database.js';
+import { authenticateUser } from '../middleware/auth.js';
+import { validateRequest } from '../utils/validation.js';
+import { stripResponseValidation } from '../schemas/common.js';
+import { UserSessionRepository } from '../repositories/user-session.repository.js';
+import { AuthenticationError, NotFoundError, InternalError } from '../errors/index.js';
+
+const SessionParamsSchema = z.object({
+  sessionId: z.string().uuid(),
+});
+
+/**
+ * GET /api/users/me/sessions - List the devices the user is signed in on
+ */
+async function listSessions(request: FastifyRequest, reply: FastifyReply) {
+  const userId = request.user?.userId;
+
+  if (!userId) {
+    throw new AuthenticationError('Authentication required');
+  }
+
+  try {
+    const sessions = await new UserSessionRepository(db).findActiveByUser(userId);
+
+    const response: UserSessionListResponse = {
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === request.user?.sessionId,
+      })),
+    };
+    return reply.send(response);
+  } catch (error) {
+    throw InternalError.wrap(error, 'Failed to retrieve sessions');
+  }
+}
+
+/**
+ * DELETE /api/users/me/sessions/:sessionId - Sign out a device
+ * Its refresh token stops working; its access token expires within the hour
+ */
+async function revokeSession(
+  request: FastifyRequest<{ Params: { sessionId: string } }>,
+  reply: FastifyReply,
+) {
+  const userId = request.user?.userId;
+
+  if (!userId) {
+    throw new AuthenticationError('Authentication required');
+  }
+
+  const { sessionId } = validateRequest(SessionParamsSchema, request.params);
+
+  let revoked: boolean;
+  try {
+    revoked = await new UserSessionRepository(db).revoke(sessionId, 'revoked', userId);
+  } catch (error) {
+    throw InternalError.wrap(error, 'Failed to revoke session');
+  }
+
+  if (!revoked) {
+    throw new NotFoundError('Session not found', 'Session');
+  }
+
+  return reply.status(204).send();
+}
+
+// OpenAPI schemas
+const listSessionsSchema = stripResponseValidation({
+  summary: 'List sessions',
+  description: 'List the active sign-ins of the authenticated user',
+  tags: ['auth'],
+  security: [{ bearerAuth: [] }],
+  response: {
+    200: zodToOpenAPI(UserSessionListResponseSchema),
+    ...CommonErrors.Unauthorized,
+    ...CommonErrors.InternalServerError,
+  },
+});
+
+const revokeSessionSchema = stripResponseValidation({
+  summary: 'Revoke session',
+  description: 'Sign out a session of the authenticated user, e.g. on a lost device',
+  tags: ['auth'],
+  security: [{ bearerAuth: [] }],
+  params: zodToOpenAPI(SessionParamsSchema),
+  response: {
+    204: {
+      type: 'object',
+      properties: {},
+      required: [],
+      description: 'Session revoked',
+    },
+    ...CommonErrors.BadRequest,
+    ...CommonErrors.Unauthorized,
+    ...CommonErrors.NotFound,
+    ...CommonErrors.InternalServerError,
+  },
+});
+
+export default async function sessionRoutes(fastify: FastifyInstance): Promise<void> {
+  // GET /api/users/me/sessions - Active sessions of the current user
+  fastify.get('/api/users/me/sessions', {
+    preHandler: [authenticateUser],
+    schema: listSessionsSchema,
+    handler: listSessions,
+  });
+
+  // DELETE /api/users/me/sessions/:sessionId - Revoke a session
+  fastify.delete('/api/users/me/sessions/:sessionId', {
+    preHandler: [authenticateUser],
+    schema: revokeSessionSchema,
+    handler: revokeSession,
+  });
+}
@@ -4,9 +4,14 @@ import { db } from '../database.js';
 import { authenticateUser } from '../middleware/auth.js';
 import {
   validateHouseholdMembership,
-  requireHouseholdParent,
+  requireHouseholdPermission,
 } from '../middleware/household-membership.js';
+import { getHouseholdClient, runAfterCommit } from '../middleware/household-scope.js';
 import { TaskResponseRepository } from '../repositories/task-response.repository.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { publishHouseholdEvent } from '../services/household-events.service.js';
+import { getLocalToday } from '../utils/index.js';
 import type { TaskRow, TaskAssignmentRow } from '../types/database.js';
 
 /**
@@ -33,8 +38,6 @@ function toDateTimeString(value: unknown): string {
 }
 
 export default async function singleTasksRoutes(fastify: FastifyInstance) {
-  const repo = new TaskResponseRepository(db);
-
   /**
    * POST /api/households/:householdId/tasks/:taskId/accept
    * Child accepts a single task
@@ -47,9 +50,10 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
     async (request, reply) => {
       const { householdId, taskId } = request.params;
       const userId = request.user!.userId;
+      const client = getHouseholdClient(request);
 
       // Get child profile for current user
-      const childResult = await db.query<{ id: string }>(
+      const childResult = await client.query<{ id: string }>(
         `SELECT id FROM children WHERE household_id = $1 AND user_id = $2`,
         [householdId, userId],
       );
@@ -61,82 +65,82 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
       const childId = childResult.rows[0].id;
 
       try {
-        // Use transaction with row locking to prevent race conditions
-        const client = await db.connect();
-        try {
-          await client.query('BEGIN');
-
-          // Lock the task row
-          const taskLock = await client.query<TaskRow>(
-            `SELECT id, household_id, name, description, points, rule_type, rule_config, deadline, active, created_at, updated_at
-             FROM tasks
-             WHERE id = $1 AND household_id = $2 AND rule_type = 'single' AND active = true
-             FOR UPDATE`,
-            [taskId, householdId],
-          );
-
-          if (taskLock.rows.length === 0) {
-            await client.query('ROLLBACK');
-            return reply.status(404).send({ error: 'Task not found or not a single task' });
-          }
-
-          // Check if child is a candidate
-          const candidateRepo = new TaskResponseRepository(client);
-          const isCandidate = await candidateRepo.isCandidate(taskId, childId);
-          if (!isCandidate) {
-            await client.query('ROLLBACK');
-            return reply.status(403).send({ error: 'You are not a candidate for this task' });
-          }
-
-          // Check if task has already been accepted
-          const assignmentCheck = await client.query<TaskAssignmentRow>(
-            `SELECT id FROM task_assignments
-             WHERE task_id = $1 AND status IN ('pending', 'completed')`,
-            [taskId],
-          );
-
-          if (assignmentCheck.rows.length > 0) {
-            await client.query('ROLLBACK');
-            return reply
-              .status(409)
-              .send({ error: 'Task has already been accepted by another child' });
-          }
-
-          // Create assignment
-          const assignmentResult = await client.query<TaskAssignmentRow>(
-            `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
-             VALUES ($1, $2, $3, CURRENT_DATE, 'pending')
-             RETURNING id, household_id, task_id, child_id, date, status, created_at`,
-            [householdId, taskId, childId],
-          );
-
-          // Record accept response
-          await candidateRepo.recordResponse(taskId, childId, householdId, 'accepted');
-
-          await client.query('COMMIT');
-
-          const assignment = assignmentResult.rows[0];
-          const task = taskLock.rows[0];
-
-          return reply.status(201).send({
-            assignment: {
-              id: assignment.id,
-              taskId: assignment.task_id,
-              childId: assignment.child_id,
-              title: task.name,
-              description: task.description,
-              ruleType: task.rule_type,
-              date: assignment.date,
-              status: assignment.status,
-              createdAt: toDateTimeString(assignment.created_at),
-            },
-          });
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
-        } finally {
-          client.release();
+        // Lock the task row to prevent race conditions; error responses roll
+        // back the request transaction
+        const taskLock = await client.query<TaskRow>(
+          `SELECT id, household_id, name, description, points, rule_type, rule_config, deadline, active, created_at, updated_at
+           FROM tasks
+           WHERE id = $1 AND household_id = $2 AND rule_type = 'single' AND active = true
+           FOR UPDATE`,
+          [taskId, householdId],
+        );
+
+        if (taskLock.rows.length === 0) {
+          return reply.status(404).send({ error: 'Task not found or not a single task' });
+        }
+
+        // Check if child is a candidate
+        const candidateRepo = new TaskResponseRepository(client);
+        const isCandidate = await candidateRepo.isCandidate(taskId, childId);
+        if (!isCandidate) {
+          return reply.status(403).send({ error: 'You are not a candidate for this task' });
+        }
+
+        // Check if task has already been accepted
+        const assignmentCheck = await client.query<TaskAssignmentRow>(
+          `SELECT id FROM task_assignments
+           WHERE task_id = $1 AND status IN ('pending', 'pending_review', 'completed')`,
+          [taskId],
+        );
+
+        if (assignmentCheck.rows.length > 0) {
+          return reply
+            .status(409)
+            .send({ error: 'Task has already been accepted by another child' });
         }
+
+        // Create assignment for the household's local today
+        const timezone = await new HouseholdRepository(client).getTimezone(householdId);
+        const assignmentResult = await client.query<TaskAssignmentRow>(
+          `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
+           VALUES ($1, $2, $3, $4, 'pending')
+           RETURNING id, household_id, task_id, child_id, date, status, created_at`,
+          [householdId, taskId, childId, getLocalToday(timezone)],
+        );
+
+        // Record accept response
+        await candidateRepo.recordResponse(taskId, childId, householdId, 'accepted');
+
+        const assignment = assignmentResult.rows[0];
+        const task = taskLock.rows[0];
+        const createdAssignment = {
+          id: assignment.id,
+          taskId: assignment.task_id,
+          childId: assignment.child_id,
+          title: task.name,
+          description: task.description,
+          ruleType: task.rule_type,
+          date: assignment.date,
+          status: assignment.status,
+          createdAt: toDateTimeString(assignment.created_at),
+        };
+
+        await recordAuditEvent(request, {
+          householdId,
+          action: 'assignment.created',
+          entityId: assignment.id,
+          after: createdAssignment,
+        });
+
+        runAfterCommit(request, () =>
+          publishHouseholdEvent({
+            type: 'single_task.accepted',
+            householdId,
+            data: { taskId, childId, assignmentId: assignment.id },
+          }),
+        );
+
+        return reply.status(201).send({ assignment: createdAssignment });
       } catch (error) {
         request.log.error({ error, taskId, childId }, 'Failed to accept task');
         return reply.status(500).send({ error: 'Failed to accept task' });
@@ -156,9 +160,11 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
     async (request, reply) => {
       const { householdId, taskId } = request.params;
       const userId = request.user!.userId;
+      const client = getHouseholdClient(request);
+      const repo = new TaskResponseRepository(client);
 
       // Get child profile for current user
-      const childResult = await db.query<{ id: string }>(
+      const childResult = await client.query<{ id: string }>(
         `SELECT id FROM children WHERE household_id = $1 AND user_id = $2`,
         [householdId, userId],
       );
@@ -171,7 +177,7 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
 
       try {
         // Verify task exists and is a single task
-        const taskResult = await db.query<TaskRow>(
+        const taskResult = await client.query<TaskRow>(
           `SELECT id FROM tasks
            WHERE id = $1 AND household_id = $2 AND rule_type = 'single' AND active = true`,
           [taskId, householdId],
@@ -190,6 +196,21 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
         // Record decline
         await repo.recordResponse(taskId, childId, householdId, 'declined');
 
+        await recordAuditEvent(request, {
+          householdId,
+          action: 'task.declined',
+          entityId: taskId,
+          after: { childId },
+        });
+
+        runAfterCommit(request, () =>
+          publishHouseholdEvent({
+            type: 'single_task.declined',
+            householdId,
+            data: { taskId, childId },
+          }),
+        );
+
         return reply.status(200).send({ success: true });
       } catch (error) {
         request.log.error({ error, taskId, childId }, 'Failed to decline task');
@@ -210,9 +231,11 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
     async (request, reply) => {
       const { householdId, taskId, childId } = request.params;
       const userId = request.user!.userId;
+      const client = getHouseholdClient(request);
+      const repo = new TaskResponseRepository(client);
 
       // Verify user owns this child profile
-      const childResult = await db.query<{ id: string }>(
+      const childResult = await client.query<{ id: string }>(
         `SELECT id FROM children WHERE id = $1 AND household_id = $2 AND user_id = $3`,
         [childId, householdId, userId],
       );
@@ -228,6 +251,13 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
           return reply.status(404).send({ error: 'No response found to undo' });
         }
 
+        await recordAuditEvent(request, {
+          householdId,
+          action: 'task.decline_undone',
+          entityId: taskId,
+          before: { childId },
+        });
+
         return reply.status(200).send({ success: true });
       } catch (error) {
         request.log.error({ error, taskId, childId }, 'Failed to undo response');
@@ -261,7 +291,9 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
 
         const { id: childId, household_id: householdId } = childResult.rows[0];
 
-        const availableTasks = await repo.getAvailableTasksForChild(childId, householdId);
+        const timezone = await new HouseholdRepository(db).getTimezone(householdId);
+        const repo = new TaskResponseRepository(db);
+        const availableTasks = await repo.getAvailableTasksForChild(childId, householdId, timezone);
 
         return reply.status(200).send({ tasks: availableTasks });
       } catch (error) {
@@ -278,10 +310,15 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
   fastify.get<{ Params: HouseholdParams }>(
     '/api/households/:householdId/single-tasks/failed',
     {
-      preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+      preHandler: [
+        authenticateUser,
+        validateHouseholdMembership,
+        requireHouseholdPermission('tasks.manage'),
+      ],
     },
     async (request, reply) => {
       const { householdId } = request.params;
+      const repo = new TaskResponseRepository(getHouseholdClient(request));
 
       try {
         const failedTasks = await repo.getFailedTasks(householdId);
@@ -301,10 +338,15 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
   fastify.get<{ Params: HouseholdParams }>(
     '/api/households/:householdId/single-tasks/expired',
     {
-      preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+      preHandler: [
+        authenticateUser,
+        validateHouseholdMembership,
+        requireHouseholdPermission('tasks.manage'),
+      ],
     },
     async (request, reply) => {
       const { householdId } = request.params;
+      const repo = new TaskResponseRepository(getHouseholdClient(request));
 
       try {
         const expiredTasks = await repo.getExpiredTasks(householdId);
@@ -324,14 +366,20 @@ export default async function singleTasksRoutes(fastify: FastifyInstance) {
   fastify.get<{ Params: TaskParams }>(
     '/api/households/:householdId/tasks/:taskId/candidates',
     {
-      preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+      preHandler: [
+        authenticateUser,
+        validateHouseholdMembership,
+        requireHouseholdPermission('tasks.manage'),
+      ],
     },
     async (request, reply) => {
       const { householdId, taskId } = request.params;
+      const client = getHouseholdClient(request);
+      const repo = new TaskResponseRepository(client);
 
       try {
         // Verify task exists and belongs to household
-        const taskResult = await db.query<TaskRow>(
+        const taskResult = await client.query<TaskRow>(
           `SELECT id FROM tasks WHERE id = $1 AND household_id = $2 AND rule_type = 'single'`,
           [taskId, householdId],
         );
@@ -1,8 +1,21 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  AchievementSchema,
+  AchievementUnlockSchema,
+  NewAchievementUnlocksResponseSchema,
+  type NewAchievementUnlocksResponse,
+} from '@st44/types';
 import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
 import { db } from '../database.js';
+import { normalizeLanguage } from '../core/i18n.js';
 import { authenticateUser } from '../middleware/auth.js';
 import { stripResponseValidation } from '../schemas/common.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import {
+  getChildAchievements,
+  listNewAchievementUnlocks,
+} from '../services/achievement.service.js';
+import { getLocalToday, getWeekStart, getMonthStart, addDays } from '../utils/index.js';
 
 /**
  * Stats API endpoints for UX redesign dashboard
@@ -23,82 +36,6 @@ interface AchievementsQuerystring {
   householdId?: string;
 }
 
-// Achievement definitions
-const ACHIEVEMENTS = [
-  {
-    id: 'first_task',
-    name: 'First Steps',
-    description: 'Complete your first task',
-    icon: '🌟',
-    requirement: 1,
-    type: 'tasks_completed' as const,
-  },
-  {
-    id: 'task_master_10',
-    name: 'Task Master',
-    description: 'Complete 10 tasks',
-    icon: '⭐',
-    requirement: 10,
-    type: 'tasks_completed' as const,
-  },
-  {
-    id: 'task_champion_50',
-    name: 'Task Champion',
-    description: 'Complete 50 tasks',
-    icon: '🏆',
-    requirement: 50,
-    type: 'tasks_completed' as const,
-  },
-  {
-    id: 'task_legend_100',
-    name: 'Task Legend',
-    description: 'Complete 100 tasks',
-    icon: '👑',
-    requirement: 100,
-    type: 'tasks_completed' as const,
-  },
-  {
-    id: 'point_collector_100',
-    name: 'Point Collector',
-    description: 'Earn 100 points',
-    icon: '💎',
-    requirement: 100,
-    type: 'points_earned' as const,
-  },
-  {
-    id: 'point_hoarder_500',
-    name: 'Point Hoarder',
-    description: 'Earn 500 points',
-    icon: '💰',
-    requirement: 500,
-    type: 'points_earned' as const,
-  },
-  {
-    id: 'streak_3',
-    name: 'On a Roll',
-    description: 'Complete all tasks for 3 days in a row',
-    icon: '🔥',
-    requirement: 3,
-    type: 'streak' as const,
-  },
-  {
-    id: 'streak_7',
-    name: 'Week Warrior',
-    description: 'Complete all tasks for 7 days in a row',
-    icon: '💪',
-    requirement: 7,
-    type: 'streak' as const,
-  },
-  {
-    id: 'streak_30',
-    name: 'Monthly Master',
-    description: 'Complete all tasks for 30 days in a row',
-    icon: '🎯',
-    requirement: 30,
-    type: 'streak' as const,
-  },
-];
-
 /**
  * Helper to get user's household ID
  */
@@ -123,45 +60,6 @@ async function getUserHouseholdId(
   return result.rows.length > 0 ? result.rows[0].household_id : null;
 }
 
-/**
- * Calculate streak for a child
- */
-async function calculateStreak(childId: string, householdId: string): Promise<number> {
-  const result = await db.query(
-    `WITH daily_completion AS (
-      SELECT
-        date,
-        COUNT(*) as total_tasks,
-        SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed_tasks
-      FROM task_assignments
-      WHERE child_id = $1 AND household_id = $2
-      GROUP BY date
-      ORDER BY date DESC
-    ),
-    completion_status AS (
-      SELECT
-        date,
-        CASE WHEN total_tasks = completed_tasks AND total_tasks > 0 THEN 1 ELSE 0 END as completed_all
-      FROM daily_completion
-    )
-    SELECT date, completed_all
-    FROM completion_status
-    ORDER BY date DESC
-    LIMIT 90`,
-    [childId, householdId],
-  );
-
-  let streak = 0;
-  for (const row of result.rows) {
-    if (row.completed_all === 1) {
-      streak++;
-    } else {
-      break;
-    }
-  }
-  return streak;
-}
-
 /**
  * GET /api/stats/dashboard
  * Get dashboard statistics for current user's household
@@ -191,16 +89,10 @@ async function getDashboardStats(
       });
     }
 
-    // Get today's date
-    const today = new Date().toISOString().split('T')[0];
-
-    // Calculate start of current week (Monday)
-    const now = new Date();
-    const dayOfWeek = now.getDay();
-    const mondayOffset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-    const weekStart = new Date(now);
-    weekStart.setDate(now.getDate() + mondayOffset);
-    const weekStartStr = weekStart.toISOString().split('T')[0];
+    // Today and the current week (Monday start) in the household's timezone
+    const timezone = await new HouseholdRepository(db).getTimezone(householdId);
+    const today = getLocalToday(timezone);
+    const weekStartStr = getWeekStart(today);
 
     // Get active tasks count
     const activeTasksResult = await db.query(
@@ -224,8 +116,10 @@ async function getDashboardStats(
     const totalPointsResult = await db.query(
       `SELECT COALESCE(SUM(tc.points_earned), 0) as total
        FROM task_completions tc
-       WHERE tc.household_id = $1 AND tc.completed_at >= $2`,
-      [householdId, weekStartStr],
+       WHERE tc.household_id = $1
+         AND tc.approval_status = 'approved'
+         AND (tc.completed_at AT TIME ZONE $3)::date >= $2::date`,
+      [householdId, weekStartStr, timezone],
     );
     const totalPoints = parseInt(totalPointsResult.rows[0]?.total || '0', 10);
 
@@ -259,13 +153,8 @@ async function getDashboardStats(
     }));
 
     // Get upcoming tasks (next 7 days excluding today)
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const tomorrowStr = tomorrow.toISOString().split('T')[0];
-
-    const nextWeek = new Date(now);
-    nextWeek.setDate(nextWeek.getDate() + 7);
-    const nextWeekStr = nextWeek.toISOString().split('T')[0];
+    const tomorrowStr = addDays(today, 1);
+    const nextWeekStr = addDays(today, 7);
 
     const upcomingTasksResult = await db.query(
       `SELECT
@@ -345,24 +234,20 @@ async function getLeaderboard(
 
     const period = request.query.period || 'week';
 
-    // Calculate date range based on period
-    const now = new Date();
-    let startDate: Date;
+    // Calculate date range based on period (household's local calendar)
+    const timezone = await new HouseholdRepository(db).getTimezone(householdId);
+    const today = getLocalToday(timezone);
+    let startDateStr: string;
 
     if (period === 'week') {
-      const dayOfWeek = now.getDay();
-      const mondayOffset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-      startDate = new Date(now);
-      startDate.setDate(now.getDate() + mondayOffset);
+      startDateStr = getWeekStart(today);
     } else if (period === 'month') {
-      startDate = new Date(now.getFullYear(), now.getMonth(), 1);
+      startDateStr = getMonthStart(today);
     } else {
       // alltime - use a far past date
-      startDate = new Date('2020-01-01');
+      startDateStr = '2020-01-01';
     }
 
-    const startDateStr = startDate.toISOString().split('T')[0];
-
     // Get rankings with points and tasks completed
     const result = await db.query(
       `SELECT
@@ -371,11 +256,13 @@ async function getLeaderboard(
         COALESCE(SUM(tc.points_earned), 0) as points,
         COUNT(tc.id) as tasks_completed
        FROM children c
-       LEFT JOIN task_completions tc ON c.id = tc.child_id AND tc.completed_at >= $2
+       LEFT JOIN task_completions tc ON c.id = tc.child_id
+         AND tc.approval_status = 'approved'
+         AND (tc.completed_at AT TIME ZONE $3)::date >= $2::date
        WHERE c.household_id = $1
        GROUP BY c.id, c.name
        ORDER BY points DESC, tasks_completed DESC, c.name ASC`,
-      [householdId, startDateStr],
+      [householdId, startDateStr, timezone],
     );
 
     const rankings = result.rows.map((row) => ({
@@ -396,6 +283,43 @@ async function getLeaderboard(
   }
 }
 
+/**
+ * Helper to find whose achievements to show: the requested child, or the
+ * current user's own child profile
+ *
+ * @returns null when the requested child is not in the household; childId is
+ * null when the user has no child profile
+ */
+async function getAchievementsChild(
+  userId: string,
+  householdId: string,
+  requestedChildId?: string,
+): Promise<{ childId: string | null; isOwnProfile: boolean } | null> {
+  if (requestedChildId) {
+    // Verify requested child belongs to same household
+    const childResult = await db.query(
+      'SELECT id, user_id FROM children WHERE id = $1 AND household_id = $2',
+      [requestedChildId, householdId],
+    );
+
+    if (childResult.rows.length === 0) {
+      return null;
+    }
+    return { childId: requestedChildId, isOwnProfile: childResult.rows[0].user_id === userId };
+  }
+
+  // Get child profile for current user
+  const childResult = await db.query(
+    'SELECT id FROM children WHERE user_id = $1 AND household_id = $2',
+    [userId, householdId],
+  );
+
+  return {
+    childId: childResult.rows.length > 0 ? childResult.rows[0].id : null,
+    isOwnProfile: childResult.rows.length > 0,
+  };
+}
+
 /**
  * GET /api/stats/achievements
  * Get achievements for a user (child)
@@ -424,110 +348,25 @@ async function getAchievements(
       });
     }
 
-    // If userId specified, get that child's achievements
-    // Otherwise get achievements for the current user's child profile
-    let childId: string | null = null;
-
-    if (request.query.userId) {
-      // Verify requested child belongs to same household
-      const childResult = await db.query(
-        'SELECT id FROM children WHERE id = $1 AND household_id = $2',
-        [request.query.userId, householdId],
-      );
-
-      if (childResult.rows.length === 0) {
-        return reply.status(404).send({
-          statusCode: 404,
-          error: 'Not Found',
-          message: 'User not found in household',
-        });
-      }
-      childId = request.query.userId;
-    } else {
-      // Get child profile for current user
-      const childResult = await db.query(
-        'SELECT id FROM children WHERE user_id = $1 AND household_id = $2',
-        [currentUserId, householdId],
-      );
-
-      if (childResult.rows.length > 0) {
-        childId = childResult.rows[0].id;
-      }
-    }
+    const child = await getAchievementsChild(currentUserId, householdId, request.query.userId);
 
-    if (!childId) {
-      // User is not a child - return empty achievements
-      return reply.send({
-        unlocked: [],
-        locked: ACHIEVEMENTS.map((a) => ({
-          id: a.id,
-          name: a.name,
-          description: a.description,
-          icon: a.icon,
-        })),
-        progress: [],
+    if (!child) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'User not found in household',
       });
     }
 
-    // Get child's stats for achievement progress
-    const statsResult = await db.query(
-      `SELECT
-        COUNT(tc.id) as tasks_completed,
-        COALESCE(SUM(tc.points_earned), 0) as points_earned
-       FROM task_completions tc
-       WHERE tc.child_id = $1`,
-      [childId],
+    // Members without a child profile see every achievement as locked
+    const achievements = await getChildAchievements(
+      db,
+      householdId,
+      child.childId,
+      normalizeLanguage(request.headers['accept-language']),
     );
 
-    const tasksCompleted = parseInt(statsResult.rows[0]?.tasks_completed || '0', 10);
-    const pointsEarned = parseInt(statsResult.rows[0]?.points_earned || '0', 10);
-
-    // Calculate streak
-    const currentStreak = await calculateStreak(childId, householdId);
-
-    // Determine achievement status
-    const unlocked: typeof ACHIEVEMENTS = [];
-    const locked: typeof ACHIEVEMENTS = [];
-    const progress: { achievementId: string; current: number; required: number }[] = [];
-
-    for (const achievement of ACHIEVEMENTS) {
-      let current = 0;
-
-      if (achievement.type === 'tasks_completed') {
-        current = tasksCompleted;
-      } else if (achievement.type === 'points_earned') {
-        current = pointsEarned;
-      } else if (achievement.type === 'streak') {
-        current = currentStreak;
-      }
-
-      if (current >= achievement.requirement) {
-        unlocked.push(achievement);
-      } else {
-        locked.push(achievement);
-        progress.push({
-          achievementId: achievement.id,
-          current,
-          required: achievement.requirement,
-        });
-      }
-    }
-
-    return reply.send({
-      unlocked: unlocked.map((a) => ({
-        id: a.id,
-        name: a.name,
-        description: a.description,
-        icon: a.icon,
-      })),
-      locked: locked.map((a) => ({
-        id: a.id,
-        name: a.name,
-        description: a.description,
-        icon: a.icon,
-      })),
-      progress,
-    });
+    return reply.send(achievements);
   } catch (error) {
     request.log.error(error, 'Failed to get achievements');
     return reply.status(500).send({
@@ -538,6 +377,70 @@ async function getAchievements(
   }
 }
 
+/**
+ * GET /api/stats/achievements/new
+ * Achievements a child unlocked since their last check
+ *
+ * Only the child's own check marks the unlocks as seen, so a parent looking
+ * does not take the celebration away from the child.
+ */
+async function getNewAchievements(
+  request: FastifyRequest<{ Querystring: AchievementsQuerystring }>,
+  reply: FastifyReply,
+) {
+  const currentUserId = request.user?.userId;
+
+  if (!currentUserId) {
+    return reply.status(401).send({
+      error: 'Unauthorized',
+      message: 'Authentication required',
+    });
+  }
+
+  try {
+    const householdId = await getUserHouseholdId(currentUserId, request.query.householdId);
+
+    if (!householdId) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'No household found for user',
+      });
+    }
+
+    const child = await getAchievementsChild(currentUserId, householdId, request.query.userId);
+
+    if (!child) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'User not found in household',
+      });
+    }
+
+    const response: NewAchievementUnlocksResponse = {
+      childId: child.childId,
+      unlocks: child.childId
+        ? await listNewAchievementUnlocks(
+            db,
+            child.childId,
+            normalizeLanguage(request.headers['accept-language']),
+            child.isOwnProfile,
+          )
+        : [],
+    };
+
+    return reply.send(response);
+  } catch (error) {
+    request.log.error(error, 'Failed to get new achievements');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve new achievements',
+    });
+  }
+}
+
 /**
  * Register stats routes
  */
@@ -597,15 +500,8 @@ export default async function statsRoutes(server: FastifyInstance) {
     ),
   });
 
-  const AchievementSchema = z.object({
-    id: z.string(),
-    name: z.string(),
-    description: z.string(),
-    icon: z.string(),
-  });
-
   const AchievementsResponseSchema = z.object({
-    unlocked: z.array(AchievementSchema),
+    unlocked: z.array(AchievementUnlockSchema),
     locked: z.array(AchievementSchema),
     progress: z.array(
       z.object({
@@ -673,4 +569,24 @@ export default async function statsRoutes(server: FastifyInstance) {
     preHandler: [authenticateUser],
     handler: getAchievements,
   });
+
+  // New achievement unlocks endpoint
+  server.get('/api/stats/achievements/new', {
+    schema: stripResponseValidation({
+      summary: 'Get new achievement unlocks',
+      description:
+        "Achievements unlocked since the child's last check; the child's own check marks them as seen",
+      tags: ['stats'],
+      security: [{ bearerAuth: [] }],
+      querystring: zodToOpenAPI(AchievementsQuerySchema),
+      response: {
+        200: zodToOpenAPI(NewAchievementUnlocksResponseSchema),
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [authenticateUser],
+    handler: getNewAchievements,
+  });
 }
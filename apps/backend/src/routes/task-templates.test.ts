@@ -0,0 +1,237 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { build } from '../server.ts';
+import type { FastifyInstance } from 'fastify';
+import pg from 'pg';
+import { randomUUID } from 'crypto';
+import { registerAndLogin } from '../test-helpers/auth.ts';
+
+/**
+ * Task Templates API Tests
+ *
+ * Built-in templates are localized, households can save their own tasks as
+ * templates, and a template becomes a task for the chosen children.
+ */
+
+describe('Task Templates API', () => {
+  let app: FastifyInstance;
+  let pool: pg.Pool;
+  let adminToken: string;
+  let adminUserId: string;
+  let householdId: string;
+  let otherHouseholdId: string;
+  let childId: string;
+  let otherChildId: string;
+  let taskId: string;
+
+  before(async () => {
+    app = await build();
+    await app.ready();
+
+    pool = new pg.Pool({
+      host: process.env.TEST_DB_HOST || process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.TEST_DB_PORT || '55432'),
+      database: process.env.TEST_DB_NAME || 'st44_test',
+      user: process.env.TEST_DB_USER || process.env.DB_USER || 'postgres',
+      password: process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD || 'postgres',
+    });
+
+    const adminData = await registerAndLogin(
+      app,
+      `test-templates-admin-${Date.now()}@example.com`,
+      'TestPass123!',
+    );
+    adminToken = adminData.accessToken;
+    adminUserId = adminData.userId;
+
+    householdId = (
+      await pool.query('INSERT INTO households (name, timezone) VALUES ($1, $2) RETURNING id', [
+        `Test Templates Household ${Date.now()}`,
+        'Europe/Oslo',
+      ])
+    ).rows[0].id;
+    otherHouseholdId = (
+      await pool.query('INSERT INTO households (name) VALUES ($1) RETURNING id', [
+        `Test Templates Other Household ${Date.now()}`,
+      ])
+    ).rows[0].id;
+
+    await pool.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [householdId, adminUserId, 'admin'],
+    );
+
+    childId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+        [householdId, 'Emma', 2015],
+      )
+    ).rows[0].id;
+    otherChildId = (
+      await pool.query(
+        'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+        [otherHouseholdId, 'Noah', 2016],
+      )
+    ).rows[0].id;
+
+    taskId = (
+      await pool.query(
+        `INSERT INTO tasks (household_id, name, points, rule_type, rule_config)
+         VALUES ($1, 'Feed the rabbit', 5, 'interval', $2) RETURNING id`,
+        [
+          householdId,
+          JSON.stringify({
+            interval: 2,
+            intervalUnit: 'days',
+            startDate: '2026-01-01',
+            assignedChildren: [childId],
+          }),
+        ],
+      )
+    ).rows[0].id;
+  });
+
+  after(async () => {
+    await pool.query('DELETE FROM households WHERE id IN ($1, $2)', [
+      householdId,
+      otherHouseholdId,
+    ]);
+    await pool.query('DELETE FROM users WHERE id = $1', [adminUserId]);
+    await pool.end();
+    await app.close();
+  });
+
+  async function listTemplates(language?: string) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/task-templates`,
+      headers: {
+        Authorization: `Bearer ${adminToken}`,
+        ...(language && { 'Accept-Language': language }),
+      },
+    });
+  }
+
+  async function createFromTemplate(payload: object) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/tasks/from-template`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      payload,
+    });
+  }
+
+  test('should list the built-in templates in the requested language', async () => {
+    const english = JSON.parse((await listTemplates('en')).body);
+    const norwegian = JSON.parse((await listTemplates()).body);
+
+    const walkDog = english.templates.find((t: { id: string }) => t.id === 'walk_dog');
+    assert.strictEqual(walkDog.source, 'builtin');
+    assert.strictEqual(walkDog.name, 'Walk the dog');
+    assert.strictEqual(walkDog.minAge, 10);
+    assert.strictEqual(
+      norwegian.templates.find((t: { id: string }) => t.id === 'walk_dog').name,
+      'Gå tur med hunden',
+    );
+  });
+
+  test('should create a task from a built-in template for the chosen children', async () => {
+    const response = await createFromTemplate({
+      templateId: 'walk_dog',
+      assignedChildren: [childId],
+      points: 20,
+    });
+
+    assert.strictEqual(response.statusCode, 201);
+    const task = JSON.parse(response.body);
+    assert.strictEqual(task.ruleType, 'weekly_rotation');
+    assert.strictEqual(task.points, 20);
+    assert.deepStrictEqual(task.ruleConfig.assignedChildren, [childId]);
+  });
+
+  test('should start interval templates today', async () => {
+    const response = await createFromTemplate({
+      templateId: 'water_plants',
+      assignedChildren: [childId],
+    });
+
+    assert.strictEqual(response.statusCode, 201);
+    assert.match(JSON.parse(response.body).ruleConfig.startDate, /^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  test('should reject children of another household', async () => {
+    const response = await createFromTemplate({
+      templateId: 'make_bed',
+      assignedChildren: [otherChildId],
+    });
+
+    assert.strictEqual(response.statusCode, 400);
+  });
+
+  test('should return 404 for an unknown template', async () => {
+    const response = await createFromTemplate({
+      templateId: randomUUID(),
+      assignedChildren: [childId],
+    });
+
+    assert.strictEqual(response.statusCode, 404);
+  });
+
+  test('should save a task as a household template and create tasks from it', async () => {
+    const saved = await app.inject({
+      method: 'POST',
+      url: `/api/households/${householdId}/task-templates`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      payload: { taskId, minAge: 6 },
+    });
+
+    assert.strictEqual(saved.statusCode, 201);
+    const template = JSON.parse(saved.body);
+    assert.strictEqual(template.source, 'household');
+    assert.deepStrictEqual(template.ruleConfig, { interval: 2, intervalUnit: 'days' });
+
+    const listed = JSON.parse((await listTemplates()).body);
+    assert.ok(listed.templates.some((t: { id: string }) => t.id === template.id));
+
+    const created = await createFromTemplate({
+      templateId: template.id,
+      assignedChildren: [childId],
+    });
+    assert.strictEqual(created.statusCode, 201);
+    assert.strictEqual(JSON.parse(created.body).name, 'Feed the rabbit');
+
+    const deleted = await app.inject({
+      method: 'DELETE',
+      url: `/api/households/${householdId}/task-templates/${template.id}`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+    });
+    assert.strictEqual(deleted.statusCode, 204);
+  });
+
+  test('should suggest templates that fit the child and leave out chores they have', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/children/${childId}/task-suggestions?limit=20`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 200);
+    const body = JSON.parse(response.body);
+    assert.strictEqual(body.age, new Date().getFullYear() - 2015);
+
+    const suggested = body.suggestions.map((s: { template: { id: string } }) => s.template);
+    // walk_dog was created for Emma above
+    assert.ok(!suggested.some((t: { id: string }) => t.id === 'walk_dog'));
+    assert.ok(suggested.every((t: { minAge: number | null }) => (t.minAge ?? 0) <= body.age));
+  });
+
+  test('should not suggest tasks for a child of another household', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/households/${householdId}/children/${otherChildId}/task-suggestions`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+    });
+
+    assert.strictEqual(response.statusCode, 404);
+  });
+});
@@ -0,0 +1,251 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  TaskTemplateSchema,
+  TaskTemplateListResponseSchema,
+  SaveTaskTemplateRequestSchema,
+  type SaveTaskTemplateRequest,
+  type TaskTemplateListResponse,
+} from '@st44/types';
+import { z, zodToOpenAPI, CommonErrors } from '@st44/types/generators';
+import { normalizeLanguage } from '../core/i18n.js';
+import { authenticateUser } from '../middleware/auth.js';
+import {
+  validateHouseholdMembership,
+  requireHouseholdPermission,
+} from '../middleware/household-membership.js';
+import { getHouseholdClient } from '../middleware/household-scope.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { listTaskTemplates, saveTaskAsTemplate } from '../services/task-template.service.js';
+import { TaskTemplateRepository } from '../repositories/task-template.repository.js';
+import { validateRequest, validateParams, handleZodError } from '../utils/index.js';
+import { householdIdParamSchema, uuidSchema } from '../schemas/validation.js';
+import { stripResponseValidation } from '../schemas/common.js';
+
+/**
+ * Task templates
+ *
+ * The built-in catalogue plus the household's own saved tasks. Tasks are
+ * created from a template through POST /api/households/:householdId/tasks/from-template.
+ */
+
+interface HouseholdParams {
+  householdId: string;
+}
+
+interface TemplateParams extends HouseholdParams {
+  templateId: string;
+}
+
+const householdTemplateParamsSchema = z.object({
+  householdId: uuidSchema,
+  templateId: uuidSchema,
+});
+
+/**
+ * GET /api/households/:householdId/task-templates
+ * Built-in templates in the caller's language, then the household's own
+ */
+async function getTaskTemplates(
+  request: FastifyRequest<{ Params: HouseholdParams }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId } = validateParams(householdIdParamSchema, request);
+    const language = normalizeLanguage(request.headers['accept-language']);
+
+    const templates = await listTaskTemplates(getHouseholdClient(request), householdId, language);
+
+    const response: TaskTemplateListResponse = { templates };
+    return reply.send(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to list task templates');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve task templates',
+    });
+  }
+}
+
+/**
+ * POST /api/households/:householdId/task-templates
+ * Save one of the household's tasks as a template
+ */
+async function createTaskTemplate(
+  request: FastifyRequest<{ Params: HouseholdParams; Body: SaveTaskTemplateRequest }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId } = validateParams(householdIdParamSchema, request);
+    const { taskId, minAge, maxAge } = validateRequest(SaveTaskTemplateRequestSchema, request.body);
+
+    const template = await saveTaskAsTemplate(getHouseholdClient(request), householdId, taskId, {
+      minAge,
+      maxAge,
+      createdBy: request.user?.userId,
+    });
+
+    if (!template) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Task not found',
+      });
+    }
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'task_template.created',
+      entityId: template.id,
+      after: { ...template, taskId },
+    });
+
+    return reply.status(201).send(template);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to save task template');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to save task template',
+    });
+  }
+}
+
+/**
+ * DELETE /api/households/:householdId/task-templates/:templateId
+ * Delete a household template; tasks created from it are kept
+ */
+async function deleteTaskTemplate(
+  request: FastifyRequest<{ Params: TemplateParams }>,
+  reply: FastifyReply,
+) {
+  try {
+    const { householdId, templateId } = validateParams(householdTemplateParamsSchema, request);
+    const templates = new TaskTemplateRepository(getHouseholdClient(request));
+
+    const template = await templates.findById(templateId, householdId);
+    if (!template) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Task template not found',
+      });
+    }
+
+    await templates.delete(templateId, householdId);
+
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'task_template.deleted',
+      entityId: templateId,
+      before: { name: template.name, points: template.points, ruleType: template.ruleType },
+    });
+
+    return reply.status(204).send();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to delete task template');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to delete task template',
+    });
+  }
+}
+
+/**
+ * Register task template routes
+ */
+export default async function taskTemplateRoutes(server: FastifyInstance) {
+  const HouseholdParamsSchema = z.object({
+    householdId: z.string().uuid(),
+  });
+
+  const TemplateParamsSchema = z.object({
+    householdId: z.string().uuid(),
+    templateId: z.string().uuid(),
+  });
+
+  server.get('/api/households/:householdId/task-templates', {
+    schema: stripResponseValidation({
+      summary: 'List task templates',
+      description:
+        'Built-in templates (localized via Accept-Language) followed by the templates saved by the household',
+      tags: ['tasks'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(HouseholdParamsSchema),
+      response: {
+        200: zodToOpenAPI(TaskTemplateListResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [authenticateUser, validateHouseholdMembership],
+    handler: getTaskTemplates,
+  });
+
+  server.post('/api/households/:householdId/task-templates', {
+    schema: stripResponseValidation({
+      summary: 'Save task as template',
+      description:
+        'Save a task of the household as a template, without its children, start date or deadline',
+      tags: ['tasks'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(HouseholdParamsSchema),
+      body: zodToOpenAPI(SaveTaskTemplateRequestSchema),
+      response: {
+        201: zodToOpenAPI(TaskTemplateSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('tasks.manage'),
+    ],
+    handler: createTaskTemplate,
+  });
+
+  server.delete('/api/households/:householdId/task-templates/:templateId', {
+    schema: stripResponseValidation({
+      summary: 'Delete task template',
+      description: 'Delete a template saved by the household',
+      tags: ['tasks'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(TemplateParamsSchema),
+      response: {
+        204: {
+          type: 'object',
+          properties: {},
+          required: [],
+          description: 'Template deleted',
+        },
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('tasks.manage'),
+    ],
+    handler: deleteTaskTemplate,
+  });
+}
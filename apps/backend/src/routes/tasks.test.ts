@@ -536,4 +536,69 @@ describe('Tasks API', () => {
       assert.strictEqual(response.statusCode, 403);
     });
   });
+
+  describe('GET /api/households/:householdId/tasks/:taskId/rotation-preview', () => {
+    test('should predict round-robin turns for the coming weeks', async () => {
+      const createResponse = await app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/tasks`,
+        headers: { Authorization: `Bearer ${adminToken}` },
+        payload: {
+          name: 'Set the table',
+          ruleType: 'weekly_rotation',
+          ruleConfig: {
+            rotationType: 'round_robin',
+            rotationPeriod: 'occurrence',
+            assignedChildren: [childId1, childId2],
+          },
+        },
+      });
+      assert.strictEqual(createResponse.statusCode, 201);
+      const roundRobinTaskId = JSON.parse(createResponse.body).id;
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/tasks/${roundRobinTaskId}/rotation-preview?weeks=1`,
+        headers: { Authorization: `Bearer ${parentToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 200);
+      const body = JSON.parse(response.body);
+      assert.strictEqual(body.rotationPeriod, 'occurrence');
+      assert.strictEqual(body.entries.length, 7);
+      assert.deepStrictEqual(
+        body.entries.slice(0, 3).map((entry: any) => entry.childName),
+        ['Child One', 'Child Two', 'Child One'],
+      );
+      assert.ok(body.entries.every((entry: any) => entry.generated === false));
+    });
+
+    test('should reject tasks without a round-robin rotation', async () => {
+      const createResponse = await app.inject({
+        method: 'POST',
+        url: `/api/households/${householdId}/tasks`,
+        headers: { Authorization: `Bearer ${adminToken}` },
+        payload: { name: 'Daily chore', ruleType: 'daily' },
+      });
+      const dailyTaskId = JSON.parse(createResponse.body).id;
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/tasks/${dailyTaskId}/rotation-preview`,
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 400);
+    });
+
+    test('should reject outsider', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/households/${householdId}/tasks/${taskId}/rotation-preview`,
+        headers: { Authorization: `Bearer ${outsiderToken}` },
+      });
+
+      assert.strictEqual(response.statusCode, 403);
+    });
+  });
 });
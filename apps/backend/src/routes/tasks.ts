@@ -2,25 +2,40 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import {
   TaskSchema,
   CreateTaskRequestSchema,
+  CreateTaskFromTemplateRequestSchema,
   UpdateTaskRequestSchema,
+  RotationPreviewQuerySchema,
+  RotationPreviewResponseSchema,
   PaginationQuerySchema,
   PaginationMetaSchema,
   calculatePaginationMeta,
   calculateOffset,
   type Task,
   type PaginationQuery,
+  type RotationPreviewResponse,
+  type CreateTaskFromTemplateRequest,
 } from '@st44/types';
 import { z, zodToOpenAPI, generateAPISchemas, CommonErrors } from '@st44/types/generators';
-import { db } from '../database.js';
+import type { PoolClient } from 'pg';
+import { normalizeLanguage } from '../core/i18n.js';
 import { authenticateUser } from '../middleware/auth.js';
 import {
   validateHouseholdMembership,
-  requireHouseholdParent,
+  requireHouseholdPermission,
 } from '../middleware/household-membership.js';
+import { getHouseholdClient, runAfterCommit } from '../middleware/household-scope.js';
 import { validateRequest, validateParams, handleZodError } from '../utils/validation.js';
+import { getLocalToday } from '../utils/timezone.js';
+import { prepareChecklist, parseChecklist } from '../utils/checklist.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import { notifySingleTaskAvailable } from '../services/notification.service.js';
+import { previewRotation } from '../services/task-rotation.service.js';
+import { recordAuditEvent } from '../services/audit.service.js';
+import { findTaskTemplate } from '../services/task-template.service.js';
 import { householdTaskParamsSchema } from '../schemas/validation.js';
 import { stripResponseValidation } from '../schemas/common.js';
 import type { TaskRow } from '../types/database.js';
+import type { RotationPeriod } from '../utils/rotation.js';
 
 interface HouseholdParams {
   householdId: string;
@@ -36,15 +51,24 @@ interface CreateTaskRequest {
     name: string;
     description?: string;
     points?: number;
-    ruleType: 'weekly_rotation' | 'repeating' | 'daily';
+    ruleType: 'weekly_rotation' | 'repeating' | 'daily' | 'interval' | 'monthly';
     ruleConfig?: {
-      rotationType?: 'odd_even_week' | 'alternating';
+      rotationType?: 'odd_even_week' | 'alternating' | 'round_robin';
+      rotationPeriod?: 'daily' | 'weekly' | 'occurrence';
       repeatDays?: number[];
       assignedChildren?: string[];
+      interval?: number;
+      intervalUnit?: 'days' | 'weeks';
+      startDate?: string;
+      dayOfMonth?: number;
+      weekOfMonth?: number;
+      dayOfWeek?: number;
     };
   };
 }
 
+type NewTaskData = z.infer<typeof CreateTaskRequestSchema>;
+
 interface UpdateTaskRequest {
   Params: TaskParams;
   Body: {
@@ -54,8 +78,15 @@ interface UpdateTaskRequest {
     ruleType?: string;
     ruleConfig?: {
       rotationType?: string;
+      rotationPeriod?: string;
       repeatDays?: number[];
       assignedChildren?: string[];
+      interval?: number;
+      intervalUnit?: string;
+      startDate?: string;
+      dayOfMonth?: number;
+      weekOfMonth?: number;
+      dayOfWeek?: number;
     };
     active?: boolean;
   };
@@ -78,10 +109,17 @@ interface ListTasksRequest {
  * Zod handles basic validation (types, min/max), this handles business logic
  */
 type NormalizedRuleConfig = {
-  rotationType?: 'odd_even_week' | 'alternating';
+  rotationType?: 'odd_even_week' | 'alternating' | 'round_robin';
+  rotationPeriod?: RotationPeriod;
   repeatDays?: number[];
   assignedChildren?: string[];
   deadline?: string;
+  interval?: number;
+  intervalUnit?: 'days' | 'weeks';
+  startDate?: string;
+  dayOfMonth?: number;
+  weekOfMonth?: number;
+  dayOfWeek?: number;
 } | null;
 
 function normalizeRuleConfig(ruleConfig: unknown): NormalizedRuleConfig | undefined {
@@ -101,13 +139,27 @@ function normalizeRuleConfig(ruleConfig: unknown): NormalizedRuleConfig | undefi
 
   const obj = value as Record<string, unknown>;
   const rotationType = (obj.rotationType ?? obj['rotation_type']) as unknown;
+  const rotationPeriod = (obj.rotationPeriod ?? obj['rotation_period']) as unknown;
   const repeatDays = (obj.repeatDays ?? obj['repeat_days']) as unknown;
   const assignedChildren = (obj.assignedChildren ?? obj['assigned_children']) as unknown;
   const deadline = obj.deadline as unknown;
+  const interval = obj.interval as unknown;
+  const intervalUnit = (obj.intervalUnit ?? obj['interval_unit']) as unknown;
+  const startDate = (obj.startDate ?? obj['start_date']) as unknown;
+  const dayOfMonth = (obj.dayOfMonth ?? obj['day_of_month']) as unknown;
+  const weekOfMonth = (obj.weekOfMonth ?? obj['week_of_month']) as unknown;
+  const dayOfWeek = (obj.dayOfWeek ?? obj['day_of_week']) as unknown;
 
   const normalized: Exclude<NormalizedRuleConfig, null> = {};
   if (typeof rotationType === 'string') {
-    normalized.rotationType = rotationType as 'odd_even_week' | 'alternating';
+    normalized.rotationType = rotationType as 'odd_even_week' | 'alternating' | 'round_robin';
+  }
+  if (
+    rotationPeriod === 'daily' ||
+    rotationPeriod === 'weekly' ||
+    rotationPeriod === 'occurrence'
+  ) {
+    normalized.rotationPeriod = rotationPeriod;
   }
   if (Array.isArray(repeatDays)) {
     normalized.repeatDays = repeatDays as number[];
@@ -118,6 +170,24 @@ function normalizeRuleConfig(ruleConfig: unknown): NormalizedRuleConfig | undefi
   if (typeof deadline === 'string') {
     normalized.deadline = deadline;
   }
+  if (typeof interval === 'number') {
+    normalized.interval = interval;
+  }
+  if (intervalUnit === 'days' || intervalUnit === 'weeks') {
+    normalized.intervalUnit = intervalUnit;
+  }
+  if (typeof startDate === 'string') {
+    normalized.startDate = startDate;
+  }
+  if (typeof dayOfMonth === 'number') {
+    normalized.dayOfMonth = dayOfMonth;
+  }
+  if (typeof weekOfMonth === 'number') {
+    normalized.weekOfMonth = weekOfMonth;
+  }
+  if (typeof dayOfWeek === 'number') {
+    normalized.dayOfWeek = dayOfWeek;
+  }
 
   return normalized;
 }
@@ -141,6 +211,10 @@ function mapTaskRowToTask(row: TaskRow): Task {
     ruleConfig: normalizedRuleConfig === undefined ? null : normalizedRuleConfig,
     deadline: row.deadline ? toDateTimeString(row.deadline) : null,
     active: row.active !== false,
+    requiresApproval: row.requires_approval === true,
+    requiresPhoto: row.requires_photo === true,
+    checklist: parseChecklist(row.checklist),
+    partialPoints: row.partial_points === true,
     createdAt: toDateTimeString(row.created_at),
     updatedAt: toDateTimeString(row.updated_at),
   };
@@ -167,9 +241,11 @@ function validateTaskData(
     if (data.ruleType === 'weekly_rotation') {
       // Rotation type required
       if (!config.rotationType) {
-        errors.push('rotationType required for weekly_rotation (odd_even_week or alternating)');
-      } else if (!['odd_even_week', 'alternating'].includes(config.rotationType)) {
-        errors.push('rotationType must be odd_even_week or alternating');
+        errors.push(
+          'rotationType required for weekly_rotation (odd_even_week, alternating or round_robin)',
+        );
+      } else if (!['odd_even_week', 'alternating', 'round_robin'].includes(config.rotationType)) {
+        errors.push('rotationType must be odd_even_week, alternating or round_robin');
       }
 
       // Assigned children optional for now (TODO: make required when child assignment is implemented)
@@ -190,6 +266,20 @@ function validateTaskData(
       // No specific validation needed
     }
 
+    if (data.ruleType === 'interval') {
+      // Also checked by the shared schema; repeated here for a rule type change that keeps the old config
+      if (!config.interval || !config.startDate) {
+        errors.push('interval and startDate required for interval tasks');
+      }
+    }
+
+    if (data.ruleType === 'monthly') {
+      const byWeekday = config.weekOfMonth !== undefined && config.dayOfWeek !== undefined;
+      if (config.dayOfMonth === undefined && !byWeekday) {
+        errors.push('dayOfMonth or weekOfMonth with dayOfWeek required for monthly tasks');
+      }
+    }
+
     if (data.ruleType === 'single') {
       // At least one candidate child is required for single tasks
       if (!config.assignedChildren || config.assignedChildren.length < 1) {
@@ -205,12 +295,13 @@ function validateTaskData(
  * Validates that all child IDs belong to the household
  */
 async function validateChildrenBelongToHousehold(
+  client: PoolClient,
   childIds: string[],
   householdId: string,
 ): Promise<boolean> {
   if (childIds.length === 0) return true;
 
-  const result = await db.query(
+  const result = await client.query(
     'SELECT COUNT(*) as count FROM children WHERE id = ANY($1) AND household_id = $2',
     [childIds, householdId],
   );
@@ -220,120 +311,226 @@ async function validateChildrenBelongToHousehold(
 }
 
 /**
- * POST /api/households/:householdId/tasks - Create task template
- * Requires parent or admin role
+ * Insert a validated task with its single-task candidates and send it as 201
+ * Shared by plain creation and creation from a template
  */
-async function createTask(request: FastifyRequest<CreateTaskRequest>, reply: FastifyReply) {
+async function insertTask(
+  request: FastifyRequest<{ Params: HouseholdParams }>,
+  reply: FastifyReply,
+  data: NewTaskData,
+) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
-
-  try {
-    // Validate request body with Zod schema
-    const validatedData = validateRequest(CreateTaskRequestSchema, request.body);
-    const { name, description, points, ruleType, ruleConfig } = validatedData;
-    const normalizedRuleConfig = normalizeRuleConfig(ruleConfig);
-
-    // Validate task data based on rule type
-    const validationErrors = validateTaskData({
-      name,
-      description,
-      points,
-      ruleType,
-      ruleConfig: normalizedRuleConfig,
+  const {
+    name,
+    description,
+    points,
+    ruleType,
+    ruleConfig,
+    requiresApproval,
+    requiresPhoto,
+    checklist,
+    partialPoints,
+  } = data;
+  const normalizedRuleConfig = normalizeRuleConfig(ruleConfig);
+
+  // Validate task data based on rule type
+  const validationErrors = validateTaskData({
+    name,
+    description,
+    points,
+    ruleType,
+    ruleConfig: normalizedRuleConfig,
+  });
+  if (validationErrors.length > 0) {
+    return reply.status(400).send({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: 'Validation failed',
+      details: validationErrors,
     });
-    if (validationErrors.length > 0) {
+  }
+
+  // Validate assigned children belong to household
+  if (normalizedRuleConfig?.assignedChildren && normalizedRuleConfig.assignedChildren.length > 0) {
+    const childrenValid = await validateChildrenBelongToHousehold(
+      client,
+      normalizedRuleConfig.assignedChildren,
+      householdId,
+    );
+    if (!childrenValid) {
       return reply.status(400).send({
         statusCode: 400,
         error: 'Bad Request',
-        message: 'Validation failed',
-        details: validationErrors,
+        message: 'One or more assigned children do not belong to this household',
       });
     }
+  }
 
-    // Validate assigned children belong to household
-    if (
-      normalizedRuleConfig?.assignedChildren &&
-      normalizedRuleConfig.assignedChildren.length > 0
-    ) {
-      const childrenValid = await validateChildrenBelongToHousehold(
-        normalizedRuleConfig.assignedChildren,
-        householdId,
-      );
-      if (!childrenValid) {
-        return reply.status(400).send({
-          statusCode: 400,
-          error: 'Bad Request',
-          message: 'One or more assigned children do not belong to this household',
-        });
+  // Extract deadline from ruleConfig for single tasks
+  const deadline =
+    ruleType === 'single' && normalizedRuleConfig?.deadline ? normalizedRuleConfig.deadline : null;
+
+  // Create a copy of ruleConfig without the deadline (it's stored separately)
+  const ruleConfigForStorage = normalizedRuleConfig
+    ? {
+        ...(normalizedRuleConfig.rotationType && {
+          rotationType: normalizedRuleConfig.rotationType,
+        }),
+        ...(normalizedRuleConfig.rotationPeriod && {
+          rotationPeriod: normalizedRuleConfig.rotationPeriod,
+        }),
+        ...(normalizedRuleConfig.repeatDays && { repeatDays: normalizedRuleConfig.repeatDays }),
+        ...(normalizedRuleConfig.assignedChildren && {
+          assignedChildren: normalizedRuleConfig.assignedChildren,
+        }),
+        ...(normalizedRuleConfig.interval !== undefined && {
+          interval: normalizedRuleConfig.interval,
+          intervalUnit: normalizedRuleConfig.intervalUnit ?? 'days',
+        }),
+        ...(normalizedRuleConfig.startDate && { startDate: normalizedRuleConfig.startDate }),
+        ...(normalizedRuleConfig.dayOfMonth !== undefined && {
+          dayOfMonth: normalizedRuleConfig.dayOfMonth,
+        }),
+        ...(normalizedRuleConfig.weekOfMonth !== undefined && {
+          weekOfMonth: normalizedRuleConfig.weekOfMonth,
+        }),
+        ...(normalizedRuleConfig.dayOfWeek !== undefined && {
+          dayOfWeek: normalizedRuleConfig.dayOfWeek,
+        }),
       }
+    : null;
+
+  const result = await client.query(
+    `INSERT INTO tasks (household_id, name, description, points, rule_type, rule_config, deadline, requires_approval, requires_photo, checklist, partial_points)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     RETURNING id, household_id, name, description, points, rule_type, rule_config, deadline, active, requires_approval, requires_photo, checklist, partial_points, created_at, updated_at`,
+    [
+      householdId,
+      name.trim(),
+      description || null,
+      points,
+      ruleType,
+      ruleConfigForStorage === null || Object.keys(ruleConfigForStorage).length === 0
+        ? null
+        : JSON.stringify(ruleConfigForStorage),
+      deadline,
+      requiresApproval ?? false,
+      requiresPhoto ?? false,
+      JSON.stringify(prepareChecklist(checklist ?? [])),
+      partialPoints ?? false,
+    ],
+  );
+
+  const createdTask = result.rows[0];
+
+  // For single tasks, insert candidates into task_candidates table
+  if (
+    ruleType === 'single' &&
+    normalizedRuleConfig?.assignedChildren &&
+    normalizedRuleConfig.assignedChildren.length > 0
+  ) {
+    const candidateValues = normalizedRuleConfig.assignedChildren
+      .map(
+        (_, index) => `($1, $${index + 2}, $${normalizedRuleConfig.assignedChildren!.length + 2})`,
+      )
+      .join(', ');
+
+    await client.query(
+      `INSERT INTO task_candidates (task_id, child_id, household_id)
+       VALUES ${candidateValues}
+       ON CONFLICT (task_id, child_id) DO NOTHING`,
+      [createdTask.id, ...normalizedRuleConfig.assignedChildren, householdId],
+    );
+
+    // Let the candidates know once the task is committed
+    runAfterCommit(request, () => notifySingleTaskAvailable(createdTask.id));
+  }
+
+  const task = mapTaskRowToTask(createdTask);
+  await recordAuditEvent(request, {
+    householdId,
+    action: 'task.created',
+    entityId: task.id,
+    after: task,
+  });
+
+  return reply.status(201).send(task);
+}
+
+/**
+ * POST /api/households/:householdId/tasks - Create task template
+ * Requires parent or admin role
+ */
+async function createTask(request: FastifyRequest<CreateTaskRequest>, reply: FastifyReply) {
+  try {
+    // Validate request body with Zod schema
+    const validatedData = validateRequest(CreateTaskRequestSchema, request.body);
+    return await insertTask(request, reply, validatedData);
+  } catch (error) {
+    // Handle Zod validation errors
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
     }
 
-    // Extract deadline from ruleConfig for single tasks
-    const deadline =
-      ruleType === 'single' && normalizedRuleConfig?.deadline
-        ? normalizedRuleConfig.deadline
-        : null;
+    request.log.error(error, 'Failed to create task');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to create task',
+    });
+  }
+}
 
-    // Create a copy of ruleConfig without the deadline (it's stored separately)
-    const ruleConfigForStorage = normalizedRuleConfig
-      ? {
-          ...(normalizedRuleConfig.rotationType && {
-            rotationType: normalizedRuleConfig.rotationType,
-          }),
-          ...(normalizedRuleConfig.repeatDays && { repeatDays: normalizedRuleConfig.repeatDays }),
-          ...(normalizedRuleConfig.assignedChildren && {
-            assignedChildren: normalizedRuleConfig.assignedChildren,
-          }),
-        }
-      : null;
+/**
+ * POST /api/households/:householdId/tasks/from-template - Create a task from a template
+ * The template's rule config is completed with the chosen children; interval
+ * templates start today in the household's timezone
+ */
+async function createTaskFromTemplate(
+  request: FastifyRequest<{ Params: HouseholdParams; Body: CreateTaskFromTemplateRequest }>,
+  reply: FastifyReply,
+) {
+  const client = getHouseholdClient(request);
+  const { householdId } = request.params;
 
-    const result = await db.query(
-      `INSERT INTO tasks (household_id, name, description, points, rule_type, rule_config, deadline)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       RETURNING id, household_id, name, description, points, rule_type, rule_config, deadline, active, created_at, updated_at`,
-      [
-        householdId,
-        name.trim(),
-        description || null,
-        points,
-        ruleType,
-        ruleConfigForStorage === null || Object.keys(ruleConfigForStorage).length === 0
-          ? null
-          : JSON.stringify(ruleConfigForStorage),
-        deadline,
-      ],
+  try {
+    const { templateId, assignedChildren, name, points } = validateRequest(
+      CreateTaskFromTemplateRequestSchema,
+      request.body,
     );
+    const language = normalizeLanguage(request.headers['accept-language']);
 
-    const createdTask = result.rows[0];
+    const template = await findTaskTemplate(client, householdId, templateId, language);
+    if (!template) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Task template not found',
+      });
+    }
 
-    // For single tasks, insert candidates into task_candidates table
-    if (
-      ruleType === 'single' &&
-      normalizedRuleConfig?.assignedChildren &&
-      normalizedRuleConfig.assignedChildren.length > 0
-    ) {
-      const candidateValues = normalizedRuleConfig.assignedChildren
-        .map(
-          (_, index) =>
-            `($1, $${index + 2}, $${normalizedRuleConfig.assignedChildren!.length + 2})`,
-        )
-        .join(', ');
-
-      await db.query(
-        `INSERT INTO task_candidates (task_id, child_id, household_id)
-         VALUES ${candidateValues}
-         ON CONFLICT (task_id, child_id) DO NOTHING`,
-        [createdTask.id, ...normalizedRuleConfig.assignedChildren, householdId],
+    const ruleConfig = { ...template.ruleConfig, assignedChildren };
+    if (template.ruleType === 'interval' && !ruleConfig.startDate) {
+      ruleConfig.startDate = getLocalToday(
+        await new HouseholdRepository(client).getTimezone(householdId),
       );
     }
 
-    return reply.status(201).send(mapTaskRowToTask(createdTask));
+    const data = validateRequest(CreateTaskRequestSchema, {
+      name: name ?? template.name,
+      description: template.description ?? undefined,
+      points: points ?? template.points,
+      ruleType: template.ruleType,
+      ruleConfig,
+    });
+    return await insertTask(request, reply, data);
   } catch (error) {
-    // Handle Zod validation errors
     if (error instanceof z.ZodError) {
       return handleZodError(error, reply);
     }
 
-    request.log.error(error, 'Failed to create task');
+    request.log.error(error, 'Failed to create task from template');
     return reply.status(500).send({
       statusCode: 500,
       error: 'Internal Server Error',
@@ -347,6 +544,7 @@ async function createTask(request: FastifyRequest<CreateTaskRequest>, reply: Fas
  * Supports ?active=true/false filter and pagination
  */
 async function listTasks(request: FastifyRequest<ListTasksRequest>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   const { householdId } = request.params;
   const { active, page: pageStr, pageSize: pageSizeStr, sortBy, sortOrder } = request.query;
 
@@ -382,7 +580,7 @@ async function listTasks(request: FastifyRequest<ListTasksRequest>, reply: Fasti
     }
 
     // Get total count for pagination
-    const countResult = await db.query(countQuery, params);
+    const countResult = await client.query(countQuery, params);
     const total = parseInt(countResult.rows[0].count, 10);
 
     // Add sorting and pagination
@@ -390,7 +588,7 @@ async function listTasks(request: FastifyRequest<ListTasksRequest>, reply: Fasti
     dataQuery += ` LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
 
     const offset = calculateOffset(validPage, validPageSize);
-    const dataResult = await db.query(dataQuery, [...params, validPageSize, offset]);
+    const dataResult = await client.query(dataQuery, [...params, validPageSize, offset]);
 
     const pagination = calculatePaginationMeta(validPage, validPageSize, total);
 
@@ -412,11 +610,12 @@ async function listTasks(request: FastifyRequest<ListTasksRequest>, reply: Fasti
  * GET /api/households/:householdId/tasks/:taskId - Get task details
  */
 async function getTask(request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   try {
     // Validate params with Zod schema
     const { householdId, taskId } = validateParams(householdTaskParamsSchema, request);
 
-    const result = await db.query('SELECT * FROM tasks WHERE id = $1 AND household_id = $2', [
+    const result = await client.query('SELECT * FROM tasks WHERE id = $1 AND household_id = $2', [
       taskId,
       householdId,
     ]);
@@ -445,24 +644,101 @@ async function getTask(request: FastifyRequest<{ Params: TaskParams }>, reply: F
   }
 }
 
+/**
+ * GET /api/households/:householdId/tasks/:taskId/rotation-preview - Upcoming turns
+ * Only for weekly_rotation tasks with the round_robin rotation
+ */
+async function getRotationPreview(
+  request: FastifyRequest<{ Params: TaskParams; Querystring: Record<string, string> }>,
+  reply: FastifyReply,
+) {
+  const client = getHouseholdClient(request);
+  try {
+    const { householdId, taskId } = validateParams(householdTaskParamsSchema, request);
+    const { weeks } = validateRequest(RotationPreviewQuerySchema, request.query ?? {});
+
+    const result = await client.query<TaskRow>(
+      'SELECT * FROM tasks WHERE id = $1 AND household_id = $2',
+      [taskId, householdId],
+    );
+
+    if (result.rows.length === 0) {
+      return reply.status(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Task not found',
+      });
+    }
+
+    const task = mapTaskRowToTask(result.rows[0]);
+
+    if (task.ruleType !== 'weekly_rotation' || task.ruleConfig?.rotationType !== 'round_robin') {
+      return reply.status(400).send({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: 'Rotation preview is only available for round-robin tasks',
+      });
+    }
+
+    const rotationPeriod = task.ruleConfig.rotationPeriod ?? 'weekly';
+    const today = getLocalToday(await new HouseholdRepository(client).getTimezone(householdId));
+    const entries = await previewRotation(
+      client,
+      {
+        id: task.id,
+        householdId,
+        assignedChildren: task.ruleConfig.assignedChildren ?? [],
+        rotationPeriod,
+      },
+      today,
+      weeks * 7,
+    );
+
+    const response: RotationPreviewResponse = { taskId, rotationPeriod, entries };
+    return reply.send(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return handleZodError(error, reply);
+    }
+    request.log.error(error, 'Failed to preview task rotation');
+    return reply.status(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: 'Failed to preview task rotation',
+    });
+  }
+}
+
 /**
  * PUT /api/households/:householdId/tasks/:taskId - Update task template
  * Requires parent or admin role
  */
 async function updateTask(request: FastifyRequest<UpdateTaskRequest>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   try {
     // Validate params with Zod schema
     const { householdId, taskId } = validateParams(householdTaskParamsSchema, request);
     // Validate request body with Zod schema
     const validatedData = validateRequest(UpdateTaskRequestSchema, request.body);
-    const { name, description, points, ruleType, ruleConfig, active } = validatedData;
+    const {
+      name,
+      description,
+      points,
+      ruleType,
+      ruleConfig,
+      active,
+      requiresApproval,
+      requiresPhoto,
+      checklist,
+      partialPoints,
+    } = validatedData;
     let normalizedRuleConfig = normalizeRuleConfig(ruleConfig);
 
     // Validate update data if rule_type is being changed
     if (ruleType) {
       // If ruleType is provided but ruleConfig is not, fetch existing config from database
       if (ruleConfig === undefined) {
-        const existingTask = await db.query(
+        const existingTask = await client.query(
           'SELECT rule_config FROM tasks WHERE id = $1 AND household_id = $2',
           [taskId, householdId],
         );
@@ -495,6 +771,7 @@ async function updateTask(request: FastifyRequest<UpdateTaskRequest>, reply: Fas
       normalizedRuleConfig.assignedChildren.length > 0
     ) {
       const childrenValid = await validateChildrenBelongToHousehold(
+        client,
         normalizedRuleConfig.assignedChildren,
         householdId,
       );
@@ -540,6 +817,22 @@ async function updateTask(request: FastifyRequest<UpdateTaskRequest>, reply: Fas
       updates.push(`active = $${paramIndex++}`);
       values.push(active);
     }
+    if (requiresApproval !== undefined) {
+      updates.push(`requires_approval = $${paramIndex++}`);
+      values.push(requiresApproval);
+    }
+    if (requiresPhoto !== undefined) {
+      updates.push(`requires_photo = $${paramIndex++}`);
+      values.push(requiresPhoto);
+    }
+    if (checklist !== undefined) {
+      updates.push(`checklist = $${paramIndex++}`);
+      values.push(JSON.stringify(prepareChecklist(checklist)));
+    }
+    if (partialPoints !== undefined) {
+      updates.push(`partial_points = $${paramIndex++}`);
+      values.push(partialPoints);
+    }
 
     if (updates.length === 0) {
       return reply.status(400).send({
@@ -558,10 +851,14 @@ async function updateTask(request: FastifyRequest<UpdateTaskRequest>, reply: Fas
       UPDATE tasks 
       SET ${updates.join(', ')}
       WHERE id = $${paramIndex++} AND household_id = $${paramIndex++}
-      RETURNING id, household_id, name, description, points, rule_type, rule_config, created_at, updated_at
+      RETURNING id, household_id, name, description, points, rule_type, rule_config, deadline, active, requires_approval, requires_photo, checklist, partial_points, created_at, updated_at
     `;
 
-    const result = await db.query(query, values);
+    const previous = await client.query<TaskRow>(
+      'SELECT * FROM tasks WHERE id = $1 AND household_id = $2 FOR UPDATE',
+      [taskId, householdId],
+    );
+    const result = await client.query(query, values);
 
     if (result.rows.length === 0) {
       return reply.status(404).send({
@@ -575,12 +872,12 @@ async function updateTask(request: FastifyRequest<UpdateTaskRequest>, reply: Fas
 
     // If assignedChildren was updated, update or create today's pending assignment
     if (normalizedRuleConfig?.assignedChildren !== undefined) {
-      const today = new Date().toISOString().split('T')[0];
+      const today = getLocalToday(await new HouseholdRepository(client).getTimezone(householdId));
       const newAssignedChildren = normalizedRuleConfig.assignedChildren || [];
 
       if (newAssignedChildren.length === 1) {
         // Single child assignment - update or create today's pending assignment
-        const updateResult = await db.query(
+        const updateResult = await client.query(
           `UPDATE task_assignments
            SET child_id = $1
            WHERE task_id = $2
@@ -592,7 +889,7 @@ async function updateTask(request: FastifyRequest<UpdateTaskRequest>, reply: Fas
 
         // If no assignment exists for today, create one
         if (updateResult.rowCount === 0) {
-          await db.query(
+          await client.query(
             `INSERT INTO task_assignments (household_id, task_id, child_id, date, status)
              VALUES ($1, $2, $3, $4, 'pending')
              ON CONFLICT (task_id, child_id, date) WHERE child_id IS NOT NULL DO NOTHING`,
@@ -601,7 +898,7 @@ async function updateTask(request: FastifyRequest<UpdateTaskRequest>, reply: Fas
         }
       } else if (newAssignedChildren.length === 0) {
         // No children assigned - set child_id to null for today's pending assignment
-        await db.query(
+        await client.query(
           `UPDATE task_assignments
            SET child_id = NULL
            WHERE task_id = $1
@@ -614,7 +911,16 @@ async function updateTask(request: FastifyRequest<UpdateTaskRequest>, reply: Fas
       // as the rotation logic is handled by the assignment generator
     }
 
-    return reply.send(mapTaskRowToTask(task));
+    const updatedTask = mapTaskRowToTask(task);
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'task.updated',
+      entityId: taskId,
+      before: mapTaskRowToTask(previous.rows[0]),
+      after: updatedTask,
+    });
+
+    return reply.send(updatedTask);
   } catch (error) {
     // Handle Zod validation errors
     if (error instanceof z.ZodError) {
@@ -636,11 +942,16 @@ async function updateTask(request: FastifyRequest<UpdateTaskRequest>, reply: Fas
  * Sets active=false instead of deleting record
  */
 async function deleteTask(request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) {
+  const client = getHouseholdClient(request);
   try {
     // Validate params with Zod schema
     const { householdId, taskId } = validateParams(householdTaskParamsSchema, request);
 
-    const result = await db.query(
+    const previous = await client.query<TaskRow>(
+      'SELECT * FROM tasks WHERE id = $1 AND household_id = $2 FOR UPDATE',
+      [taskId, householdId],
+    );
+    const result = await client.query(
       `UPDATE tasks
        SET active = false, updated_at = NOW()
        WHERE id = $1 AND household_id = $2
@@ -656,6 +967,13 @@ async function deleteTask(request: FastifyRequest<{ Params: TaskParams }>, reply
       });
     }
 
+    await recordAuditEvent(request, {
+      householdId,
+      action: 'task.deleted',
+      entityId: taskId,
+      before: mapTaskRowToTask(previous.rows[0]),
+    });
+
     return reply.send({
       success: true,
       message: 'Task deleted successfully',
@@ -743,6 +1061,29 @@ export default async function taskRoutes(server: FastifyInstance) {
     handler: getTask,
   });
 
+  // Preview round-robin turns (member access)
+  server.get('/api/households/:householdId/tasks/:taskId/rotation-preview', {
+    schema: stripResponseValidation({
+      summary: 'Preview task rotation',
+      description:
+        'Who does a round-robin weekly_rotation task on each day of the next N weeks (default 4)',
+      tags: ['tasks'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(TaskParamsSchema),
+      querystring: zodToOpenAPI(RotationPreviewQuerySchema),
+      response: {
+        200: zodToOpenAPI(RotationPreviewResponseSchema),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [authenticateUser, validateHouseholdMembership],
+    handler: getRotationPreview,
+  });
+
   // Create task (parent/admin access)
   server.post('/api/households/:householdId/tasks', {
     schema: stripResponseValidation({
@@ -760,10 +1101,41 @@ export default async function taskRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('tasks.manage'),
+    ],
     handler: createTask,
   });
 
+  // Create task from a template (parent/admin access)
+  server.post('/api/households/:householdId/tasks/from-template', {
+    schema: stripResponseValidation({
+      summary: 'Create task from template',
+      description:
+        'Create a task from a built-in or household template for the given children; name and points can be overridden',
+      tags: ['tasks'],
+      security: [{ bearerAuth: [] }],
+      params: zodToOpenAPI(ParamsSchema),
+      body: zodToOpenAPI(CreateTaskFromTemplateRequestSchema),
+      response: {
+        201: zodToOpenAPI(TaskSchema, { description: 'Task created successfully' }),
+        ...CommonErrors.BadRequest,
+        ...CommonErrors.Unauthorized,
+        ...CommonErrors.Forbidden,
+        ...CommonErrors.NotFound,
+        ...CommonErrors.InternalServerError,
+      },
+    }),
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('tasks.manage'),
+    ],
+    handler: createTaskFromTemplate,
+  });
+
   // Update task (parent/admin access)
   server.put('/api/households/:householdId/tasks/:taskId', {
     schema: stripResponseValidation({
@@ -782,7 +1154,11 @@ export default async function taskRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('tasks.manage'),
+    ],
     handler: updateTask,
   });
 
@@ -810,7 +1186,11 @@ export default async function taskRoutes(server: FastifyInstance) {
         ...CommonErrors.InternalServerError,
       },
     }),
-    preHandler: [authenticateUser, validateHouseholdMembership, requireHouseholdParent],
+    preHandler: [
+      authenticateUser,
+      validateHouseholdMembership,
+      requireHouseholdPermission('tasks.manage'),
+    ],
     handler: deleteTask,
   });
 }
@@ -11,6 +11,19 @@ import {
   stripResponseValidation,
 } from './common.js';
 
+const assignmentChecklistSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      label: { type: 'string' },
+      checked: { type: 'boolean' },
+    },
+    required: ['id', 'label', 'checked'],
+  },
+} as const;
+
 const taskAssignmentSchemaBase = {
   type: 'object',
   properties: {
@@ -26,9 +39,11 @@ const taskAssignmentSchemaBase = {
     date: dateSchema,
     status: {
       type: 'string',
-      enum: ['pending', 'completed', 'overdue'],
+      enum: ['pending', 'pending_review', 'completed', 'overdue'],
     },
     completedAt: { ...timestampSchema, nullable: true },
+    commentCount: { type: 'integer', minimum: 0 },
+    checklist: assignmentChecklistSchema,
   },
   required: ['id', 'taskId', 'childId', 'title', 'ruleType', 'date', 'status'],
 } as const;
@@ -52,7 +67,7 @@ const getChildTasksSchemaBase = {
       date: { ...dateSchema, description: 'Filter by specific date (default: today)' },
       status: {
         type: 'string',
-        enum: ['pending', 'completed'],
+        enum: ['pending', 'pending_review', 'completed'],
         description: 'Filter by assignment status',
       },
     },
@@ -115,7 +130,7 @@ const getHouseholdAssignmentsSchemaBase = {
       childId: { ...uuidSchema, description: 'Filter by specific child' },
       status: {
         type: 'string',
-        enum: ['pending', 'completed', 'overdue'],
+        enum: ['pending', 'pending_review', 'completed', 'overdue'],
         description: 'Filter by assignment status',
       },
     },
@@ -140,10 +155,12 @@ const getHouseholdAssignmentsSchemaBase = {
               date: dateSchema,
               status: {
                 type: 'string',
-                enum: ['pending', 'completed', 'overdue'],
+                enum: ['pending', 'pending_review', 'completed', 'overdue'],
               },
               completedAt: { ...timestampSchema, nullable: true },
               createdAt: timestampSchema,
+              commentCount: { type: 'integer', minimum: 0 },
+              checklist: assignmentChecklistSchema,
             },
           },
         },
@@ -161,7 +178,9 @@ const getHouseholdAssignmentsSchemaBase = {
 // PUT /api/assignments/:assignmentId/complete (legacy)
 const completeAssignmentSchemaBase = {
   summary: 'Mark task assignment as complete',
-  description: 'Complete a pending task assignment',
+  description:
+    'Complete a pending task assignment. Child completions of tasks that require approval move to pending_review instead. ' +
+    'An optional JSON body { "note": "..." } is added to the assignment\'s comment thread.',
   tags: ['assignments'],
   security: [{ bearerAuth: [] }],
   params: {
@@ -177,7 +196,7 @@ const completeAssignmentSchemaBase = {
       type: 'object',
       properties: {
         id: uuidSchema,
-        status: { type: 'string', enum: ['completed'] },
+        status: { type: 'string', enum: ['completed', 'pending_review'] },
         completedAt: timestampSchema,
         childId: uuidSchema,
         taskId: uuidSchema,
@@ -195,7 +214,11 @@ const completeAssignmentSchemaBase = {
 // POST /api/assignments/:assignmentId/complete
 const postCompleteAssignmentSchemaBase = {
   summary: 'Complete task assignment with points',
-  description: 'Complete a pending task assignment and create completion record with points earned',
+  description:
+    'Complete a pending task assignment and create completion record with points earned. ' +
+    'Child completions of tasks that require approval are held in pending_review until a parent approves them. ' +
+    'Photo proof is sent as the raw request body with Content-Type image/jpeg, image/png or image/webp; ' +
+    'children must send one for tasks that require a photo.',
   tags: ['assignments'],
   security: [{ bearerAuth: [] }],
   params: {
@@ -214,7 +237,7 @@ const postCompleteAssignmentSchemaBase = {
           type: 'object',
           properties: {
             id: uuidSchema,
-            status: { type: 'string', enum: ['completed'] },
+            status: { type: 'string', enum: ['completed', 'pending_review'] },
             completedAt: timestampSchema,
           },
           required: ['id', 'status', 'completedAt'],
@@ -225,6 +248,8 @@ const postCompleteAssignmentSchemaBase = {
             id: uuidSchema,
             pointsEarned: { type: 'number' },
             completedAt: timestampSchema,
+            approvalStatus: { type: 'string', enum: ['pending_review', 'approved'] },
+            hasPhoto: { type: 'boolean' },
           },
           required: ['id', 'pointsEarned', 'completedAt'],
         },
@@ -235,6 +260,80 @@ const postCompleteAssignmentSchemaBase = {
     401: errorResponseSchema,
     403: errorResponseSchema,
     404: errorResponseSchema,
+    413: errorResponseSchema,
+    415: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+// PATCH /api/assignments/:assignmentId/checklist
+const updateAssignmentChecklistSchemaBase = {
+  summary: 'Tick or untick a checklist item',
+  description:
+    "Update one item of a pending assignment's checklist. Parents may update any assignment, children only their own. " +
+    'For tasks that award partial points, the ticked items decide the points earned on completion.',
+  tags: ['assignments'],
+  security: [{ bearerAuth: [] }],
+  params: {
+    type: 'object',
+    properties: {
+      assignmentId: uuidSchema,
+    },
+    required: ['assignmentId'],
+  },
+  body: {
+    type: 'object',
+    properties: {
+      itemId: { type: 'string', minLength: 1, maxLength: 64 },
+      checked: { type: 'boolean' },
+    },
+    required: ['itemId', 'checked'],
+  },
+  response: {
+    200: {
+      description: 'The checklist after the update',
+      type: 'object',
+      properties: {
+        assignmentId: uuidSchema,
+        checklist: assignmentChecklistSchema,
+        checkedCount: { type: 'integer', minimum: 0 },
+        totalCount: { type: 'integer', minimum: 0 },
+      },
+      required: ['assignmentId', 'checklist', 'checkedCount', 'totalCount'],
+    },
+    400: errorResponseSchema,
+    401: errorResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+// GET /api/households/:householdId/assignments/:assignmentId/photo
+const getCompletionPhotoSchemaBase = {
+  summary: 'Get completion photo',
+  description:
+    'Photo proof of the latest completion of an assignment. Children may only see their own photos.',
+  tags: ['assignments'],
+  security: [{ bearerAuth: [] }],
+  params: {
+    type: 'object',
+    properties: {
+      householdId: uuidSchema,
+      assignmentId: uuidSchema,
+    },
+    required: ['householdId', 'assignmentId'],
+  },
+  response: {
+    200: {
+      description: 'The photo (JPEG, PNG or WebP)',
+      type: 'string',
+      format: 'binary',
+    },
+    401: errorResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+    410: errorResponseSchema,
     500: errorResponseSchema,
   },
 } as const;
@@ -429,6 +528,75 @@ const createManualAssignmentSchemaBase = {
   },
 } as const;
 
+// GET /api/households/:householdId/assignments/generation-runs
+const listGenerationRunsSchemaBase = {
+  summary: 'List assignment generation runs',
+  description:
+    'List recent scheduled and manual assignment generation runs with their results (parent role required)',
+  tags: ['assignments'],
+  security: [{ bearerAuth: [] }],
+  params: {
+    type: 'object',
+    properties: {
+      householdId: uuidSchema,
+    },
+    required: ['householdId'],
+  },
+  querystring: {
+    type: 'object',
+    properties: {
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 100,
+        description: 'Maximum number of runs to return (default: 20)',
+      },
+    },
+  },
+  response: {
+    200: {
+      description: 'Generation runs, newest first',
+      type: 'object',
+      properties: {
+        runs: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: uuidSchema,
+              householdId: uuidSchema,
+              trigger: { type: 'string', enum: ['scheduled', 'manual'] },
+              startDate: dateSchema,
+              days: { type: 'number' },
+              created: { type: 'number' },
+              skipped: { type: 'number' },
+              errors: { type: 'array', items: { type: 'string' } },
+              startedAt: timestampSchema,
+              finishedAt: { ...timestampSchema, nullable: true },
+            },
+            required: [
+              'id',
+              'householdId',
+              'trigger',
+              'startDate',
+              'days',
+              'created',
+              'skipped',
+              'errors',
+              'startedAt',
+            ],
+          },
+        },
+      },
+      required: ['runs'],
+    },
+    400: errorResponseSchema,
+    401: errorResponseSchema,
+    403: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
 // Export schemas with conditional response validation stripping
 // Note: taskAssignmentSchemaBase is just a schema object, not a route schema, so it doesn't need stripping
 export const taskAssignmentSchema = taskAssignmentSchemaBase;
@@ -440,6 +608,10 @@ export const completeAssignmentSchema = stripResponseValidation(completeAssignme
 export const postCompleteAssignmentSchema = stripResponseValidation(
   postCompleteAssignmentSchemaBase,
 );
+export const updateAssignmentChecklistSchema = stripResponseValidation(
+  updateAssignmentChecklistSchemaBase,
+);
+export const getCompletionPhotoSchema = stripResponseValidation(getCompletionPhotoSchemaBase);
 export const reassignTaskSchema = stripResponseValidation(reassignTaskSchemaBase);
 export const generateAssignmentsSchema = stripResponseValidation(generateAssignmentsSchemaBase);
 export const generateHouseholdAssignmentsSchema = stripResponseValidation(
@@ -448,3 +620,4 @@ export const generateHouseholdAssignmentsSchema = stripResponseValidation(
 export const createManualAssignmentSchema = stripResponseValidation(
   createManualAssignmentSchemaBase,
 );
+export const listGenerationRunsSchema = stripResponseValidation(listGenerationRunsSchemaBase);
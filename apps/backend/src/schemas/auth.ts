@@ -117,7 +117,7 @@ export const loginSchema = stripResponseValidation(loginSchemaBase);
 // POST /api/auth/refresh
 const refreshTokenSchemaBase = {
   summary: 'Refresh access token',
-  description: 'Get new access token using refresh token',
+  description: 'Get new access and refresh tokens using the current refresh token',
   tags: ['auth'],
   body: {
     type: 'object',
@@ -132,8 +132,12 @@ const refreshTokenSchemaBase = {
       type: 'object',
       properties: {
         accessToken: { type: 'string' },
+        refreshToken: {
+          type: 'string',
+          description: 'Replaces the refresh token sent, which is no longer valid',
+        },
       },
-      required: ['accessToken'],
+      required: ['accessToken', 'refreshToken'],
     },
     400: errorResponseSchema,
     401: errorResponseSchema,
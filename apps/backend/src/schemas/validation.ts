@@ -156,9 +156,12 @@ export const householdRewardParamsSchema = z.object({
 /**
  * Assignment status
  */
-export const assignmentStatusSchema = z.enum(['pending', 'completed', 'overdue'], {
-  message: 'Status must be pending, completed, or overdue',
-});
+export const assignmentStatusSchema = z.enum(
+  ['pending', 'pending_review', 'completed', 'overdue'],
+  {
+    message: 'Status must be pending, pending_review, completed, or overdue',
+  },
+);
 
 /**
  * Days count for assignment generation (1-365)
@@ -211,15 +214,15 @@ export const reassignAssignmentBodySchema = z.object({
 /**
  * Household member role
  */
-export const householdRoleSchema = z.enum(['admin', 'parent', 'child'], {
-  message: 'Role must be admin, parent, or child',
+export const householdRoleSchema = z.enum(['admin', 'parent', 'caregiver', 'child'], {
+  message: 'Role must be admin, parent, caregiver, or child',
 });
 
 /**
- * Invitation role (admin or parent only)
+ * Invitation role (child invitations also name the child profile)
  */
-export const invitationRoleSchema = z.enum(['admin', 'parent'], {
-  message: 'Role must be admin or parent',
+export const invitationRoleSchema = z.enum(['admin', 'parent', 'caregiver', 'child'], {
+  message: 'Role must be admin, parent, caregiver, or child',
 });
 
 // ============================================================================
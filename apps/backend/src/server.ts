@@ -8,21 +8,50 @@ import authRoutes from './routes/auth.js';
 import qrAuthRoutes from './routes/qr-auth.js';
 import householdRoutes from './routes/households.js';
 import childrenRoutes from './routes/children.js';
+import childAbsenceRoutes from './routes/child-absences.js';
 import taskRoutes from './routes/tasks.js';
+import taskTemplateRoutes from './routes/task-templates.js';
 import singleTasksRoutes from './routes/single-tasks.js';
 import { invitationRoutes } from './routes/invitations.js';
 import assignmentRoutes from './routes/assignments.js';
+import assignmentCommentRoutes from './routes/assignment-comments.js';
 import analyticsRoutes from './routes/analytics.js';
 import rewardRoutes from './routes/rewards.js';
+import reviewRoutes from './routes/reviews.js';
+import pointsRoutes from './routes/points.js';
+import calendarFeedRoutes from './routes/calendar-feeds.js';
 import statsRoutes from './routes/stats.js';
+import achievementRoutes from './routes/achievements.js';
 import userRoutes from './routes/user.js';
+import pushSubscriptionRoutes from './routes/push-subscriptions.js';
+import sessionRoutes from './routes/sessions.js';
+import auditRoutes from './routes/audit.js';
+import householdArchiveRoutes from './routes/household-archive.js';
+import householdEventRoutes from './routes/household-events.js';
+import savingsGoalRoutes from './routes/savings-goals.js';
 import { healthCheckSchema } from './schemas/auth.js';
 import { isBaseError, InternalError } from './errors/index.js';
 import type { ErrorResponse } from './types/error-response.js';
 import { requestIdPlugin } from './middleware/request-id.js';
 import { requestLoggerPlugin, getRequestContext } from './middleware/request-logger.js';
+import { registerHouseholdScopeHooks } from './middleware/household-scope.js';
 import { connectRedis, isRedisReady, disconnectRedis } from './core/redis.js';
 import { initI18n, createI18nHook } from './core/i18n.js';
+import { JobScheduler } from './core/scheduler.js';
+import {
+  createAssignmentGenerationJob,
+  getAssignmentGenerationJobConfig,
+} from './services/assignment-generation-job.js';
+import {
+  createAssignmentReminderJob,
+  getAssignmentReminderJobConfig,
+} from './services/assignment-reminder-job.js';
+import { createPhotoPurgeJob, getPhotoPurgeJobConfig } from './services/photo-purge-job.js';
+import {
+  createOverdueSweepJob,
+  getOverdueSweepJobConfig,
+} from './services/overdue-assignment-job.js';
+import { getHouseholdEventBus } from './services/household-events.service.js';
 
 // Extend FastifyRequest type to include user info
 declare module 'fastify' {
@@ -31,6 +60,8 @@ declare module 'fastify' {
       userId: string;
       email: string;
       role?: string;
+      sessionId?: string;
+      expiresAt?: number;
     };
   }
 }
@@ -57,6 +88,9 @@ async function buildApp() {
   await initI18n();
   fastify.addHook('onRequest', createI18nHook());
 
+  // Commit/roll back the row-level security transaction of household routes
+  registerHouseholdScopeHooks(fastify);
+
   // Global error handler - centralized error handling for all routes
   fastify.setErrorHandler(
     (error: FastifyError | Error, request: FastifyRequest, reply: FastifyReply) => {
@@ -203,6 +237,7 @@ async function buildApp() {
           { name: 'assignments', description: 'Task assignment management' },
           { name: 'rewards', description: 'Rewards and points redemption system' },
           { name: 'invitations', description: 'Household invitation system' },
+          { name: 'push', description: 'Web Push notification subscriptions' },
         ],
       },
     });
@@ -227,14 +262,27 @@ async function buildApp() {
   // Register household, children, invitation, task, assignment, rewards, and analytics routes
   await fastify.register(householdRoutes);
   await fastify.register(childrenRoutes);
+  await fastify.register(childAbsenceRoutes);
   await fastify.register(taskRoutes);
+  await fastify.register(taskTemplateRoutes);
   await fastify.register(singleTasksRoutes);
   await fastify.register(invitationRoutes);
   await fastify.register(assignmentRoutes);
+  await fastify.register(assignmentCommentRoutes);
   await fastify.register(rewardRoutes);
+  await fastify.register(reviewRoutes);
+  await fastify.register(pointsRoutes);
+  await fastify.register(calendarFeedRoutes);
   await fastify.register(analyticsRoutes);
   await fastify.register(statsRoutes);
+  await fastify.register(achievementRoutes);
   await fastify.register(userRoutes);
+  await fastify.register(pushSubscriptionRoutes);
+  await fastify.register(sessionRoutes);
+  await fastify.register(auditRoutes);
+  await fastify.register(householdArchiveRoutes);
+  await fastify.register(householdEventRoutes);
+  await fastify.register(savingsGoalRoutes);
 
   // Example items endpoint - demonstrates new error handling pattern
   interface Item {
@@ -419,16 +467,48 @@ const start = async () => {
       fastify.log.warn({ err }, 'Redis connection failed');
     }
 
+    // Household events reach clients connected to other replicas through Redis
+    if (isRedisReady()) {
+      try {
+        await getHouseholdEventBus().start();
+      } catch (err) {
+        console.warn('Household events: Redis subscription failed, events stay on this instance');
+        fastify.log.warn({ err }, 'Household event subscription failed');
+      }
+    }
+
     const port = parseInt(process.env.PORT || '3000', 10);
     const host = process.env.HOST || '0.0.0.0';
 
     await fastify.listen({ port, host });
     console.log(`Server listening on ${host}:${port}`);
 
+    // Background jobs (Redis lock ensures one replica runs each job)
+    const scheduler = new JobScheduler({ logger: fastify.log });
+    const generationJobConfig = getAssignmentGenerationJobConfig();
+    if (generationJobConfig.enabled) {
+      scheduler.register(createAssignmentGenerationJob(generationJobConfig));
+    }
+    const reminderJobConfig = getAssignmentReminderJobConfig();
+    if (reminderJobConfig.enabled) {
+      scheduler.register(createAssignmentReminderJob(reminderJobConfig));
+    }
+    const photoPurgeJobConfig = getPhotoPurgeJobConfig();
+    if (photoPurgeJobConfig.enabled) {
+      scheduler.register(createPhotoPurgeJob(photoPurgeJobConfig));
+    }
+    const overdueSweepJobConfig = getOverdueSweepJobConfig();
+    if (overdueSweepJobConfig.enabled) {
+      scheduler.register(createOverdueSweepJob(overdueSweepJobConfig));
+    }
+    scheduler.start();
+
     // Graceful shutdown
     const shutdown = async (signal: string) => {
       console.log(`${signal} received, shutting down gracefully...`);
+      scheduler.stop();
       await fastify.close();
+      await getHouseholdEventBus().stop();
       await disconnectRedis();
       process.exit(0);
     };
@@ -0,0 +1,325 @@
+import type { Pool, PoolClient } from 'pg';
+import type { Achievement, AchievementUnlock, CreateAchievementRequest } from '@st44/types';
+import { DEFAULT_LANGUAGE, translate, type SupportedLanguage } from '../core/i18n.js';
+import {
+  AchievementRepository,
+  type AchievementDefinition,
+  type UnlockedAchievement,
+} from '../repositories/achievement.repository.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import {
+  getAchievementProgress,
+  isAchievementReached,
+  type AchievementStats,
+} from '../utils/achievements.js';
+import { getLocalToday } from '../utils/timezone.js';
+
+/**
+ * Achievements
+ *
+ * Definitions live in the achievements table: the built-in set, translated
+ * per request from the achievements.<code> keys in the locale files, and the
+ * ones a household created. An unlock is recorded once, in the transaction
+ * that credits the completion reaching the threshold.
+ */
+
+type DbExecutor = Pool | PoolClient;
+
+export interface AchievementProgress {
+  achievementId: string;
+  current: number;
+  required: number;
+}
+
+export interface ChildAchievements {
+  unlocked: AchievementUnlock[];
+  locked: Achievement[];
+  progress: AchievementProgress[];
+}
+
+/**
+ * Calculate streak for a child
+ *
+ * Days are the household's local calendar days. Future days are ignored and
+ * today only counts once it is fully completed (it is not over yet).
+ * Days the child was away are left out and do not end the streak.
+ */
+export async function calculateStreak(
+  db: DbExecutor,
+  childId: string,
+  householdId: string,
+  today: string,
+): Promise<number> {
+  const result = await db.query(
+    `WITH daily_completion AS (
+      SELECT
+        date::text as date,
+        COUNT(*) as total_tasks,
+        SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed_tasks
+      FROM task_assignments
+      WHERE child_id = $1 AND household_id = $2 AND date <= $3::date
+        AND NOT child_absent_on(child_id, date)
+      GROUP BY date
+      ORDER BY date DESC
+    ),
+    completion_status AS (
+      SELECT
+        date,
+        CASE WHEN total_tasks = completed_tasks AND total_tasks > 0 THEN 1 ELSE 0 END as completed_all
+      FROM daily_completion
+    )
+    SELECT date, completed_all
+    FROM completion_status
+    ORDER BY date DESC
+    LIMIT 90`,
+    [childId, householdId, today],
+  );
+
+  let streak = 0;
+  for (const row of result.rows) {
+    if (row.date === today && row.completed_all !== 1) {
+      continue;
+    }
+    if (row.completed_all === 1) {
+      streak++;
+    } else {
+      break;
+    }
+  }
+  return streak;
+}
+
+/**
+ * The counts achievements are measured against, from approved completions
+ */
+async function getAchievementStats(
+  db: DbExecutor,
+  householdId: string,
+  childId: string,
+): Promise<AchievementStats> {
+  const result = await db.query<{ task_id: string; completions: number; points: number }>(
+    `SELECT ta.task_id, COUNT(tc.id)::int AS completions,
+            COALESCE(SUM(tc.points_earned), 0)::int AS points
+     FROM task_completions tc
+     JOIN task_assignments ta ON ta.id = tc.task_assignment_id
+     WHERE tc.child_id = $1 AND tc.approval_status = 'approved'
+     GROUP BY ta.task_id`,
+    [childId],
+  );
+
+  const timezone = await new HouseholdRepository(db).getTimezone(householdId);
+  const streak = await calculateStreak(db, childId, householdId, getLocalToday(timezone));
+
+  return {
+    tasksCompleted: result.rows.reduce((sum, row) => sum + row.completions, 0),
+    pointsEarned: result.rows.reduce((sum, row) => sum + row.points, 0),
+    streak,
+    completionsByTask: new Map(result.rows.map((row) => [row.task_id, row.completions])),
+  };
+}
+
+function localizeAchievement(
+  achievement: AchievementDefinition,
+  language: SupportedLanguage,
+): Achievement {
+  const builtin = achievement.code !== null;
+
+  return {
+    id: achievement.code ?? achievement.id,
+    source: builtin ? 'builtin' : 'household',
+    name: builtin
+      ? translate(`achievements.${achievement.code}.name`, language)
+      : (achievement.name ?? ''),
+    description: builtin
+      ? translate(`achievements.${achievement.code}.description`, language)
+      : (achievement.description ?? ''),
+    icon: achievement.icon,
+    type: achievement.type,
+    threshold: achievement.threshold,
+    taskId: achievement.taskId,
+  };
+}
+
+function localizeUnlock(
+  unlock: UnlockedAchievement,
+  language: SupportedLanguage,
+): AchievementUnlock {
+  return { ...localizeAchievement(unlock.achievement, language), unlockedAt: unlock.unlockedAt };
+}
+
+/**
+ * Record the achievements a child has reached but not unlocked yet
+ */
+async function recordReachedAchievements(
+  achievements: AchievementRepository,
+  householdId: string,
+  childId: string,
+  available: AchievementDefinition[],
+  unlockedIds: ReadonlySet<string>,
+  stats: AchievementStats,
+  taskCompletionId: string | null,
+): Promise<AchievementDefinition[]> {
+  const reached = available.filter(
+    (achievement) => !unlockedIds.has(achievement.id) && isAchievementReached(achievement, stats),
+  );
+
+  const recorded = new Set(
+    await achievements.recordUnlocks({
+      householdId,
+      childId,
+      achievementIds: reached.map((achievement) => achievement.id),
+      taskCompletionId,
+    }),
+  );
+
+  return reached.filter((achievement) => recorded.has(achievement.id));
+}
+
+/**
+ * Unlock the achievements a credited completion made the child reach
+ *
+ * Runs in the transaction that credits the completion, after the assignment
+ * has its final status so the streak includes it.
+ *
+ * @returns the achievements unlocked now
+ */
+export async function unlockAchievements(
+  db: DbExecutor,
+  data: { householdId: string; childId: string; taskCompletionId: string },
+): Promise<AchievementDefinition[]> {
+  const achievements = new AchievementRepository(db);
+  const available = await achievements.findAvailable(data.householdId);
+  const unlockedIds = new Set(
+    (await achievements.findUnlocks(data.childId)).map((unlock) => unlock.achievement.id),
+  );
+
+  if (available.every((achievement) => unlockedIds.has(achievement.id))) {
+    return [];
+  }
+
+  const stats = await getAchievementStats(db, data.householdId, data.childId);
+  return recordReachedAchievements(
+    achievements,
+    data.householdId,
+    data.childId,
+    available,
+    unlockedIds,
+    stats,
+    data.taskCompletionId,
+  );
+}
+
+/**
+ * A child's unlocked achievements and progress towards the rest
+ *
+ * Achievements reached by completions credited before unlocks were recorded
+ * (or before a household achievement was created) are unlocked here.
+ *
+ * @param childId - null for members without a child profile: everything is locked
+ */
+export async function getChildAchievements(
+  db: DbExecutor,
+  householdId: string,
+  childId: string | null,
+  language: SupportedLanguage,
+): Promise<ChildAchievements> {
+  const achievements = new AchievementRepository(db);
+  const available = await achievements.findAvailable(householdId);
+
+  if (!childId) {
+    return {
+      unlocked: [],
+      locked: available.map((achievement) => localizeAchievement(achievement, language)),
+      progress: [],
+    };
+  }
+
+  const stats = await getAchievementStats(db, householdId, childId);
+  const unlockedIds = new Set(
+    (await achievements.findUnlocks(childId)).map((unlock) => unlock.achievement.id),
+  );
+  await recordReachedAchievements(
+    achievements,
+    householdId,
+    childId,
+    available,
+    unlockedIds,
+    stats,
+    null,
+  );
+
+  const unlocks = await achievements.findUnlocks(childId);
+  const unlockedNow = new Set(unlocks.map((unlock) => unlock.achievement.id));
+  const locked = available.filter((achievement) => !unlockedNow.has(achievement.id));
+
+  return {
+    unlocked: unlocks.map((unlock) => localizeUnlock(unlock, language)),
+    locked: locked.map((achievement) => localizeAchievement(achievement, language)),
+    progress: locked.map((achievement) => ({
+      achievementId: achievement.code ?? achievement.id,
+      current: getAchievementProgress(achievement, stats),
+      required: achievement.threshold,
+    })),
+  };
+}
+
+/**
+ * Unlocks the child has not been shown yet
+ *
+ * @param markSeen - whether this check counts as the child's last check
+ */
+export async function listNewAchievementUnlocks(
+  db: DbExecutor,
+  childId: string,
+  language: SupportedLanguage,
+  markSeen: boolean,
+): Promise<AchievementUnlock[]> {
+  const unlocks = await new AchievementRepository(db).findUnseenUnlocks(childId, markSeen);
+  return unlocks.map((unlock) => localizeUnlock(unlock, language));
+}
+
+/**
+ * Built-in achievements followed by the household's own
+ */
+export async function listAchievements(
+  db: DbExecutor,
+  householdId: string,
+  language: SupportedLanguage,
+): Promise<Achievement[]> {
+  const available = await new AchievementRepository(db).findAvailable(householdId);
+  return available.map((achievement) => localizeAchievement(achievement, language));
+}
+
+/**
+ * Create a household achievement
+ *
+ * @returns null when the achievement counts a task that does not exist in the household
+ */
+export async function createHouseholdAchievement(
+  db: DbExecutor,
+  householdId: string,
+  data: CreateAchievementRequest,
+  createdBy?: string,
+): Promise<Achievement | null> {
+  if (data.taskId) {
+    const task = await db.query('SELECT id FROM tasks WHERE id = $1 AND household_id = $2', [
+      data.taskId,
+      householdId,
+    ]);
+    if (task.rows.length === 0) return null;
+  }
+
+  const achievement = await new AchievementRepository(db).create({
+    householdId,
+    name: data.name,
+    description: data.description,
+    icon: data.icon,
+    type: data.type,
+    threshold: data.threshold,
+    taskId: data.taskId,
+    createdBy,
+  });
+
+  // Household achievements are not translated
+  return localizeAchievement(achievement, DEFAULT_LANGUAGE);
+}
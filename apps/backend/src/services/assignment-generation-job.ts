@@ -0,0 +1,161 @@
+import { db } from '../database.js';
+import type { PoolClient } from '../types/database.js';
+import { dailyAt, type ScheduledJob } from '../core/scheduler.js';
+import { generateAssignments, type AssignmentGenerationResult } from './assignment-generator.js';
+import { AssignmentGenerationRunRepository } from '../repositories/assignment-generation-run.repository.js';
+import type { AssignmentGenerationTrigger } from '../types/database.js';
+import { getLocalToday, parseDateString } from '../utils/timezone.js';
+
+/**
+ * Nightly assignment generation
+ *
+ * Runs generateAssignments() for every household with active tasks on a
+ * rolling window (e.g. the next 7 days), so children never wake up to an
+ * empty task list. The window starts at each household's local "today"
+ * (households.timezone). Every run is recorded in assignment_generation_runs.
+ *
+ * Configuration via environment variables:
+ * - ASSIGNMENT_SCHEDULER_ENABLED (default: true, always false when NODE_ENV=test)
+ * - ASSIGNMENT_GENERATION_HOUR (default: 2, UTC)
+ * - ASSIGNMENT_GENERATION_MINUTE (default: 0)
+ * - ASSIGNMENT_GENERATION_DAYS (default: 7)
+ * - ASSIGNMENT_GENERATION_RUN_RETENTION_DAYS (default: 90)
+ */
+
+export const ASSIGNMENT_GENERATION_JOB_NAME = 'nightly-assignment-generation';
+
+export interface AssignmentGenerationJobConfig {
+  enabled: boolean;
+  hour: number;
+  minute: number;
+  days: number;
+  runRetentionDays: number;
+}
+
+export interface BulkGenerationSummary {
+  households: number;
+  created: number;
+  skipped: number;
+  householdsWithErrors: number;
+}
+
+function parseIntEnv(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * Read job configuration from environment variables
+ */
+export function getAssignmentGenerationJobConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): AssignmentGenerationJobConfig {
+  return {
+    enabled: env.NODE_ENV !== 'test' && env.ASSIGNMENT_SCHEDULER_ENABLED !== 'false',
+    hour: parseIntEnv(env.ASSIGNMENT_GENERATION_HOUR, 2),
+    minute: parseIntEnv(env.ASSIGNMENT_GENERATION_MINUTE, 0),
+    days: Math.min(Math.max(parseIntEnv(env.ASSIGNMENT_GENERATION_DAYS, 7), 1), 365),
+    runRetentionDays: parseIntEnv(env.ASSIGNMENT_GENERATION_RUN_RETENTION_DAYS, 90),
+  };
+}
+
+/**
+ * Generate assignments for one household and record the result
+ *
+ * @param householdId - UUID of the household
+ * @param startDate - First date to generate assignments for
+ * @param days - Number of days to generate (1-365)
+ * @param trigger - What started the run ('scheduled' or 'manual')
+ * @param client - Transaction to run in, e.g. the household scope of a request
+ * @returns The generation result (also persisted as a run)
+ */
+export async function generateAndRecordAssignments(
+  householdId: string,
+  startDate: Date,
+  days: number,
+  trigger: AssignmentGenerationTrigger,
+  client?: PoolClient,
+): Promise<AssignmentGenerationResult> {
+  const startedAt = new Date();
+  const result = await generateAssignments(householdId, startDate, days, client);
+
+  await new AssignmentGenerationRunRepository(client ?? db).create({
+    householdId,
+    trigger,
+    startDate: startDate.toISOString().split('T')[0],
+    days,
+    created: result.created,
+    skipped: result.skipped,
+    errors: result.errors,
+    startedAt,
+    finishedAt: new Date(),
+  });
+
+  return result;
+}
+
+/**
+ * Generate assignments for every household that has active tasks
+ *
+ * Each household starts from its own local calendar date at `now`.
+ * Households are processed one at a time; a failure in one household is
+ * counted and does not stop the others.
+ */
+export async function generateAssignmentsForAllHouseholds(
+  days: number,
+  now: Date = new Date(),
+): Promise<BulkGenerationSummary> {
+  const summary: BulkGenerationSummary = {
+    households: 0,
+    created: 0,
+    skipped: 0,
+    householdsWithErrors: 0,
+  };
+
+  const householdsResult = await db.query<{ household_id: string; timezone: string }>(
+    `SELECT h.id as household_id, h.timezone
+     FROM households h
+     WHERE EXISTS (
+       SELECT 1 FROM tasks t
+       WHERE t.household_id = h.id AND t.active = true AND t.rule_type != 'single'
+     )`,
+  );
+
+  for (const { household_id: householdId, timezone } of householdsResult.rows) {
+    summary.households++;
+    try {
+      const startDate = parseDateString(getLocalToday(timezone, now));
+      const result = await generateAndRecordAssignments(householdId, startDate, days, 'scheduled');
+      summary.created += result.created;
+      summary.skipped += result.skipped;
+      if (result.errors.length > 0) {
+        summary.householdsWithErrors++;
+      }
+    } catch (error) {
+      summary.householdsWithErrors++;
+      console.error(`Assignment generation failed for household ${householdId}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Create the nightly generation job for the JobScheduler
+ */
+export function createAssignmentGenerationJob(
+  config: AssignmentGenerationJobConfig = getAssignmentGenerationJobConfig(),
+): ScheduledJob {
+  return {
+    name: ASSIGNMENT_GENERATION_JOB_NAME,
+    nextRunAt: dailyAt(config.hour, config.minute),
+    lockTtlSeconds: 30 * 60,
+    run: async () => {
+      const summary = await generateAssignmentsForAllHouseholds(config.days);
+      console.log('Nightly assignment generation finished:', summary);
+
+      const cutoff = new Date(Date.now() - config.runRetentionDays * 24 * 60 * 60 * 1000);
+      await new AssignmentGenerationRunRepository(db).deleteOlderThan(cutoff);
+    },
+  };
+}
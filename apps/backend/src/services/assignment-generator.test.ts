@@ -972,4 +972,301 @@ describe('Assignment Generator Service', () => {
       assert.ok(result3.errors[0].includes('days must be between'));
     });
   });
+
+  // ==================== Test Suite 7: Interval Rule Type ====================
+
+  describe('Interval Rule Type', () => {
+    test('generates every N days from the start date', async () => {
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, rule_type, rule_config, active)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [
+          testHouseholdId,
+          'Water Plants',
+          'interval',
+          { interval: 3, intervalUnit: 'days', startDate: '2025-01-02' },
+          true,
+        ],
+      );
+      const taskId = taskResult.rows[0].id;
+
+      const result = await generateAssignments(testHouseholdId, new Date('2025-01-01'), 10);
+
+      assert.strictEqual(result.created, 3);
+
+      const assignments = await pool.query(
+        `SELECT date::text FROM task_assignments WHERE task_id = $1 ORDER BY date`,
+        [taskId],
+      );
+      assert.deepStrictEqual(
+        assignments.rows.map((row) => row.date),
+        ['2025-01-02', '2025-01-05', '2025-01-08'],
+      );
+    });
+
+    test('rotates children every other week', async () => {
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, rule_type, rule_config, active)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [
+          testHouseholdId,
+          'Change Bed Sheets',
+          'interval',
+          {
+            interval: 2,
+            interval_unit: 'weeks',
+            start_date: '2024-12-28',
+            assigned_children: [testChildIds[0], testChildIds[1]],
+          },
+          true,
+        ],
+      );
+      const taskId = taskResult.rows[0].id;
+
+      // Occurrences 1 and 2 after the start date: 1/11 and 1/25
+      const result = await generateAssignments(testHouseholdId, new Date('2025-01-01'), 30);
+
+      assert.strictEqual(result.created, 2);
+
+      const assignments = await pool.query(
+        `SELECT date::text, child_id FROM task_assignments WHERE task_id = $1 ORDER BY date`,
+        [taskId],
+      );
+      assert.strictEqual(assignments.rows[0].date, '2025-01-11');
+      assert.strictEqual(assignments.rows[0].child_id, testChildIds[1]);
+      assert.strictEqual(assignments.rows[1].date, '2025-01-25');
+      assert.strictEqual(assignments.rows[1].child_id, testChildIds[0]);
+    });
+  });
+
+  // ==================== Test Suite 8: Monthly Rule Type ====================
+
+  describe('Monthly Rule Type', () => {
+    test('generates on the day of the month, clamped in short months', async () => {
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, rule_type, rule_config, active)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [testHouseholdId, 'Clean Fridge', 'monthly', { dayOfMonth: 31 }, true],
+      );
+      const taskId = taskResult.rows[0].id;
+
+      const result = await generateAssignments(testHouseholdId, new Date('2025-01-15'), 60);
+
+      assert.strictEqual(result.created, 2);
+
+      const assignments = await pool.query(
+        `SELECT date::text FROM task_assignments WHERE task_id = $1 ORDER BY date`,
+        [taskId],
+      );
+      assert.deepStrictEqual(
+        assignments.rows.map((row) => row.date),
+        ['2025-01-31', '2025-02-28'],
+      );
+    });
+
+    test('generates on the last Sunday and rotates children by month', async () => {
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, rule_type, rule_config, active)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [
+          testHouseholdId,
+          'Sort Recycling',
+          'monthly',
+          {
+            weekOfMonth: -1,
+            dayOfWeek: 0,
+            assignedChildren: [testChildIds[0], testChildIds[1]],
+          },
+          true,
+        ],
+      );
+      const taskId = taskResult.rows[0].id;
+
+      const result = await generateAssignments(testHouseholdId, new Date('2025-01-01'), 59);
+
+      assert.strictEqual(result.created, 2);
+
+      const assignments = await pool.query(
+        `SELECT date::text, child_id FROM task_assignments WHERE task_id = $1 ORDER BY date`,
+        [taskId],
+      );
+      assert.strictEqual(assignments.rows[0].date, '2025-01-26');
+      assert.strictEqual(assignments.rows[1].date, '2025-02-23');
+      assert.notStrictEqual(assignments.rows[0].child_id, assignments.rows[1].child_id);
+    });
+  });
+
+  // ==================== Test Suite 9: Round-Robin Rotation ====================
+
+  describe('Weekly Rotation - Round Robin', () => {
+    test('rotates three children per occurrence', async () => {
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, rule_type, rule_config, active)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [
+          testHouseholdId,
+          'Set Table',
+          'weekly_rotation',
+          {
+            rotationType: 'round_robin',
+            rotationPeriod: 'occurrence',
+            assignedChildren: testChildIds,
+          },
+          true,
+        ],
+      );
+      const taskId = taskResult.rows[0].id;
+
+      const result = await generateAssignments(testHouseholdId, new Date('2025-01-06'), 6);
+
+      assert.strictEqual(result.created, 6);
+
+      const assignments = await pool.query(
+        `SELECT child_id FROM task_assignments WHERE task_id = $1 ORDER BY date`,
+        [taskId],
+      );
+      assert.deepStrictEqual(
+        assignments.rows.map((row) => row.child_id),
+        [...testChildIds, ...testChildIds],
+      );
+    });
+
+    test('continues from the stored cursor on the next run', async () => {
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, rule_type, rule_config, active)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [
+          testHouseholdId,
+          'Take Out Trash',
+          'weekly_rotation',
+          {
+            rotation_type: 'round_robin',
+            rotation_period: 'weekly',
+            assigned_children: testChildIds,
+          },
+          true,
+        ],
+      );
+      const taskId = taskResult.rows[0].id;
+
+      // Two full weeks, then a run overlapping the second week plus one more
+      await generateAssignments(testHouseholdId, new Date('2025-01-06'), 14);
+      const result = await generateAssignments(testHouseholdId, new Date('2025-01-13'), 14);
+
+      assert.strictEqual(result.created, 7);
+
+      const cursor = await pool.query(
+        `SELECT child_id, last_date::text FROM task_rotation_cursors WHERE task_id = $1`,
+        [taskId],
+      );
+      assert.strictEqual(cursor.rows[0].child_id, testChildIds[2]);
+      assert.strictEqual(cursor.rows[0].last_date, '2025-01-26');
+
+      const thirdWeek = await pool.query(
+        `SELECT DISTINCT child_id FROM task_assignments
+         WHERE task_id = $1 AND date >= '2025-01-20'`,
+        [taskId],
+      );
+      assert.deepStrictEqual(
+        thirdWeek.rows.map((row) => row.child_id),
+        [testChildIds[2]],
+      );
+    });
+  });
+
+  // ==================== Test Suite 10: Child Absences ====================
+
+  describe('Child Absences', () => {
+    async function addAbsence(childId: string, startDate: string, endDate: string) {
+      await pool.query(
+        `INSERT INTO child_absences (household_id, child_id, start_date, end_date)
+         VALUES ($1, $2, $3, $4)`,
+        [testHouseholdId, childId, startDate, endDate],
+      );
+    }
+
+    test('skips a child who is away from a daily task', async () => {
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, rule_type, rule_config, active)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [testHouseholdId, 'Make Bed', 'daily', { assignedChildren: [testChildIds[0]] }, true],
+      );
+      const taskId = taskResult.rows[0].id;
+      await addAbsence(testChildIds[0], '2025-01-07', '2025-01-08');
+
+      const result = await generateAssignments(testHouseholdId, new Date('2025-01-06'), 4);
+
+      assert.strictEqual(result.created, 2);
+
+      const assignments = await pool.query(
+        `SELECT date::text FROM task_assignments WHERE task_id = $1 ORDER BY date`,
+        [taskId],
+      );
+      assert.deepStrictEqual(
+        assignments.rows.map((row) => row.date),
+        ['2025-01-06', '2025-01-09'],
+      );
+    });
+
+    test('hands an alternating rotation to the next child on away days', async () => {
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, rule_type, rule_config, active)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [
+          testHouseholdId,
+          'Walk Dog',
+          'weekly_rotation',
+          {
+            rotationType: 'alternating',
+            assignedChildren: [testChildIds[0], testChildIds[1]],
+          },
+          true,
+        ],
+      );
+      const taskId = taskResult.rows[0].id;
+      await addAbsence(testChildIds[0], '2025-01-08', '2025-01-08');
+
+      await generateAssignments(testHouseholdId, new Date('2025-01-06'), 3);
+
+      const assignments = await pool.query(
+        `SELECT date::text, child_id FROM task_assignments WHERE task_id = $1 ORDER BY date`,
+        [taskId],
+      );
+      assert.deepStrictEqual(
+        assignments.rows.map((row) => row.child_id),
+        [testChildIds[0], testChildIds[0], testChildIds[1]],
+      );
+    });
+
+    test('passes a round-robin turn on and continues after the stand-in', async () => {
+      const taskResult = await pool.query(
+        `INSERT INTO tasks (household_id, name, rule_type, rule_config, active)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [
+          testHouseholdId,
+          'Set Table',
+          'weekly_rotation',
+          {
+            rotationType: 'round_robin',
+            rotationPeriod: 'occurrence',
+            assignedChildren: testChildIds,
+          },
+          true,
+        ],
+      );
+      const taskId = taskResult.rows[0].id;
+      await addAbsence(testChildIds[1], '2025-01-07', '2025-01-07');
+
+      await generateAssignments(testHouseholdId, new Date('2025-01-06'), 4);
+
+      const assignments = await pool.query(
+        `SELECT child_id FROM task_assignments WHERE task_id = $1 ORDER BY date`,
+        [taskId],
+      );
+      assert.deepStrictEqual(
+        assignments.rows.map((row) => row.child_id),
+        [testChildIds[0], testChildIds[2], testChildIds[0], testChildIds[1]],
+      );
+    });
+  });
 });
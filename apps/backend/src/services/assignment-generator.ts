@@ -1,6 +1,15 @@
 import { getISOWeek } from 'date-fns';
 import { db } from '../database.js';
 import type { PoolClient } from '../types/database.js';
+import {
+  getIntervalOccurrence,
+  getMonthlyOccurrence,
+  type IntervalUnit,
+} from '../utils/recurrence.js';
+import { rotate, type ChildAvailability, type RotationPeriod } from '../utils/rotation.js';
+import { createAvailability } from '../utils/absence.js';
+import { TaskRotationRepository } from '../repositories/task-rotation.repository.js';
+import { ChildAbsenceRepository } from '../repositories/child-absence.repository.js';
 
 export interface AssignmentGenerationResult {
   created: number;
@@ -8,16 +17,25 @@ export interface AssignmentGenerationResult {
   errors: string[];
 }
 
+interface RuleConfig {
+  rotation_type?: 'odd_even_week' | 'alternating' | 'round_robin';
+  rotation_period?: RotationPeriod;
+  repeat_days?: number[];
+  assigned_children?: string[];
+  interval?: number;
+  interval_unit?: IntervalUnit;
+  start_date?: string;
+  day_of_month?: number;
+  week_of_month?: number;
+  day_of_week?: number;
+}
+
 interface Task {
   id: string;
   household_id: string;
   name: string;
-  rule_type: 'weekly_rotation' | 'repeating' | 'daily';
-  rule_config: {
-    rotation_type?: 'odd_even_week' | 'alternating';
-    repeat_days?: number[];
-    assigned_children?: string[];
-  };
+  rule_type: 'weekly_rotation' | 'repeating' | 'daily' | 'interval' | 'monthly';
+  rule_config: RuleConfig;
 }
 
 interface ExistingAssignment {
@@ -36,15 +54,23 @@ interface PendingAssignment {
 /**
  * Generates task assignments for a household over a date range
  *
+ * Dates are calendar days carried as UTC midnight, so the caller decides
+ * which day "today" is (normally the household's local date, see
+ * utils/timezone.ts) and formatting never shifts them.
+ *
  * @param householdId - UUID of the household
- * @param startDate - First date to generate assignments for
+ * @param startDate - First date to generate assignments for (UTC midnight)
  * @param days - Number of days to generate (1-365)
+ * @param scopedClient - Client of a transaction already open (e.g. a request's
+ *   household scope); the generation then runs in a savepoint on it instead
+ *   of checking out a second connection
  * @returns Result with created/skipped counts and any errors
  */
 export async function generateAssignments(
   householdId: string,
   startDate: Date,
   days: number,
+  scopedClient?: PoolClient,
 ): Promise<AssignmentGenerationResult> {
   const result: AssignmentGenerationResult = {
     created: 0,
@@ -63,10 +89,13 @@ export async function generateAssignments(
     return result;
   }
 
-  const client = await db.connect();
+  const client = scopedClient ?? (await db.connect());
+  const begin = scopedClient ? 'SAVEPOINT generate_assignments' : 'BEGIN';
+  const commit = scopedClient ? 'RELEASE SAVEPOINT generate_assignments' : 'COMMIT';
+  const rollback = scopedClient ? 'ROLLBACK TO SAVEPOINT generate_assignments' : 'ROLLBACK';
 
   try {
-    await client.query('BEGIN');
+    await client.query(begin);
 
     // 1. Load all active tasks for household
     const tasksResult = await client.query<Task>(
@@ -77,10 +106,14 @@ export async function generateAssignments(
       [householdId],
     );
 
-    const tasks = tasksResult.rows;
+    // The tasks API stores rule_config in camelCase; older rows use snake_case
+    const tasks = tasksResult.rows.map((task) => ({
+      ...task,
+      rule_config: normalizeRuleConfig(task.rule_config),
+    }));
 
     if (tasks.length === 0) {
-      await client.query('COMMIT');
+      await client.query(commit);
       return result;
     }
 
@@ -104,6 +137,14 @@ export async function generateAssignments(
       [householdId, formatDate(startDate), formatDate(endDate)],
     );
 
+    // Absent children are skipped; their rotation turns go to the next child
+    const absences = await new ChildAbsenceRepository(client).findByHousehold(
+      householdId,
+      formatDate(startDate),
+      formatDate(endDate),
+    );
+    const isAvailable = createAvailability(absences);
+
     // Create lookup set for existing assignments
     const existingSet = new Set<string>();
     for (const row of existingResult.rows) {
@@ -116,7 +157,13 @@ export async function generateAssignments(
 
     for (const task of tasks) {
       try {
-        const assignments = await generateAssignmentsForTask(task, dates, householdId, client);
+        const assignments = await generateAssignmentsForTask(
+          task,
+          dates,
+          householdId,
+          client,
+          isAvailable,
+        );
         pendingAssignments.push(...assignments);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -196,13 +243,15 @@ export async function generateAssignments(
       result.created = insertedCount;
     }
 
-    await client.query('COMMIT');
+    await client.query(commit);
   } catch (error) {
-    await client.query('ROLLBACK');
+    await client.query(rollback);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     result.errors.push(`Transaction failed: ${errorMessage}`);
   } finally {
-    client.release();
+    if (!scopedClient) {
+      client.release();
+    }
   }
 
   return result;
@@ -216,24 +265,33 @@ async function generateAssignmentsForTask(
   dates: Date[],
   householdId: string,
   client: PoolClient,
+  isAvailable: ChildAvailability,
 ): Promise<PendingAssignment[]> {
   const assignments: PendingAssignment[] = [];
 
   switch (task.rule_type) {
     case 'daily':
-      assignments.push(...generateDailyAssignments(task, dates, householdId));
+      assignments.push(...generateDailyAssignments(task, dates, householdId, isAvailable));
       break;
 
     case 'repeating':
-      assignments.push(...generateRepeatingAssignments(task, dates, householdId));
+      assignments.push(...generateRepeatingAssignments(task, dates, householdId, isAvailable));
       break;
 
     case 'weekly_rotation':
       assignments.push(
-        ...(await generateWeeklyRotationAssignments(task, dates, householdId, client)),
+        ...(await generateWeeklyRotationAssignments(task, dates, householdId, client, isAvailable)),
       );
       break;
 
+    case 'interval':
+      assignments.push(...generateIntervalAssignments(task, dates, householdId, isAvailable));
+      break;
+
+    case 'monthly':
+      assignments.push(...generateMonthlyAssignments(task, dates, householdId, isAvailable));
+      break;
+
     default:
       throw new Error(`Unknown rule_type: ${task.rule_type}`);
   }
@@ -248,24 +306,25 @@ function generateDailyAssignments(
   task: Task,
   dates: Date[],
   householdId: string,
+  isAvailable: ChildAvailability,
 ): PendingAssignment[] {
   const assignments: PendingAssignment[] = [];
   const assignedChildren = task.rule_config.assigned_children || [];
 
   for (let i = 0; i < dates.length; i++) {
-    const date = dates[i];
+    const date = formatDate(dates[i]);
     let childId: string | null = null;
 
     // If assigned_children specified, rotate daily
     if (assignedChildren.length > 0) {
-      const childIndex = i % assignedChildren.length;
-      childId = assignedChildren[childIndex];
+      childId = pickAvailableChild(assignedChildren, i, date, isAvailable);
+      if (childId === null) continue;
     }
 
     assignments.push({
       task_id: task.id,
       child_id: childId,
-      date: formatDate(date),
+      date,
       household_id: householdId,
     });
   }
@@ -280,6 +339,7 @@ function generateRepeatingAssignments(
   task: Task,
   dates: Date[],
   householdId: string,
+  isAvailable: ChildAvailability,
 ): PendingAssignment[] {
   const assignments: PendingAssignment[] = [];
   const repeatDays = task.rule_config.repeat_days || [];
@@ -296,22 +356,23 @@ function generateRepeatingAssignments(
 
     // Check if this date is a repeat day
     if (repeatDays.includes(dayOfWeek)) {
+      const formatted = formatDate(date);
       let childId: string | null = null;
 
       // If assigned_children specified, rotate based on occurrence count
       if (assignedChildren.length > 0) {
-        const childIndex = occurrenceCount % assignedChildren.length;
-        childId = assignedChildren[childIndex];
+        childId = pickAvailableChild(assignedChildren, occurrenceCount, formatted, isAvailable);
       }
 
+      occurrenceCount++;
+      if (assignedChildren.length > 0 && childId === null) continue;
+
       assignments.push({
         task_id: task.id,
         child_id: childId,
-        date: formatDate(date),
+        date: formatted,
         household_id: householdId,
       });
-
-      occurrenceCount++;
     }
   }
 
@@ -319,13 +380,104 @@ function generateRepeatingAssignments(
 }
 
 /**
- * Weekly rotation rule: Uses ISO week or alternating logic
+ * Interval rule: every N days or weeks from start_date
+ * Children rotate by occurrence number, so the rotation continues across runs
+ */
+function generateIntervalAssignments(
+  task: Task,
+  dates: Date[],
+  householdId: string,
+  isAvailable: ChildAvailability,
+): PendingAssignment[] {
+  const assignments: PendingAssignment[] = [];
+  const { interval, interval_unit: unit = 'days', start_date: startDate } = task.rule_config;
+  const assignedChildren = task.rule_config.assigned_children || [];
+
+  if (!interval || interval < 1) {
+    throw new Error('interval is required for interval tasks');
+  }
+
+  if (!startDate) {
+    throw new Error('start_date is required for interval tasks');
+  }
+
+  for (const date of dates) {
+    const formatted = formatDate(date);
+    const occurrence = getIntervalOccurrence(formatted, { interval, unit, startDate });
+
+    if (occurrence === null) continue;
+
+    const childId =
+      assignedChildren.length > 0
+        ? pickAvailableChild(assignedChildren, occurrence, formatted, isAvailable)
+        : null;
+    if (assignedChildren.length > 0 && childId === null) continue;
+
+    assignments.push({
+      task_id: task.id,
+      child_id: childId,
+      date: formatted,
+      household_id: householdId,
+    });
+  }
+
+  return assignments;
+}
+
+/**
+ * Monthly rule: a day of the month or the nth weekday of the month
+ * Children rotate month by month
+ */
+function generateMonthlyAssignments(
+  task: Task,
+  dates: Date[],
+  householdId: string,
+  isAvailable: ChildAvailability,
+): PendingAssignment[] {
+  const assignments: PendingAssignment[] = [];
+  const {
+    day_of_month: dayOfMonth,
+    week_of_month: weekOfMonth,
+    day_of_week: dayOfWeek,
+  } = task.rule_config;
+  const assignedChildren = task.rule_config.assigned_children || [];
+
+  if (dayOfMonth === undefined && (weekOfMonth === undefined || dayOfWeek === undefined)) {
+    throw new Error('day_of_month or week_of_month with day_of_week is required for monthly tasks');
+  }
+
+  for (const date of dates) {
+    const formatted = formatDate(date);
+    const occurrence = getMonthlyOccurrence(formatted, { dayOfMonth, weekOfMonth, dayOfWeek });
+
+    if (occurrence === null) continue;
+
+    const childId =
+      assignedChildren.length > 0
+        ? pickAvailableChild(assignedChildren, occurrence, formatted, isAvailable)
+        : null;
+    if (assignedChildren.length > 0 && childId === null) continue;
+
+    assignments.push({
+      task_id: task.id,
+      child_id: childId,
+      date: formatted,
+      household_id: householdId,
+    });
+  }
+
+  return assignments;
+}
+
+/**
+ * Weekly rotation rule: Uses ISO week, alternating or round-robin logic
  */
 async function generateWeeklyRotationAssignments(
   task: Task,
   dates: Date[],
   householdId: string,
   client: PoolClient,
+  isAvailable: ChildAvailability,
 ): Promise<PendingAssignment[]> {
   const assignments: PendingAssignment[] = [];
   const rotationType = task.rule_config.rotation_type;
@@ -339,25 +491,26 @@ async function generateWeeklyRotationAssignments(
     throw new Error('rotation_type is required for weekly_rotation tasks');
   }
 
+  if (rotationType === 'round_robin') {
+    return generateRoundRobinAssignments(task, dates, householdId, client, isAvailable);
+  }
+
   if (rotationType === 'odd_even_week') {
     // Use ISO week number of the START date to determine which child for ALL dates
     // This ensures consistent assignment within a generation batch
-    const startWeekNum = getISOWeek(dates[0]);
+    // getISOWeek works in server-local time, so rebuild the calendar day locally
+    const startWeekNum = getISOWeek(
+      new Date(dates[0].getUTCFullYear(), dates[0].getUTCMonth(), dates[0].getUTCDate()),
+    );
     // Odd weeks (1, 3, 5...): index 0
     // Even weeks (2, 4, 6...): index 1
     // For 3+ children: use (weekNum - 1) % length to cycle through
     const childIndex = (startWeekNum - 1) % assignedChildren.length;
-    const childId = assignedChildren[childIndex];
 
-    // All dates get the same child (determined by start week)
-    for (const date of dates) {
-      assignments.push({
-        task_id: task.id,
-        child_id: childId,
-        date: formatDate(date),
-        household_id: householdId,
-      });
-    }
+    // All dates get the same child (determined by start week) unless they are away
+    assignments.push(
+      ...assignWholeRange(task, dates, householdId, assignedChildren, childIndex, isAvailable),
+    );
   } else if (rotationType === 'alternating') {
     // Query most recent assignment to determine next child
     const lastAssignmentResult = await client.query(
@@ -384,17 +537,10 @@ async function generateWeeklyRotationAssignments(
       }
     }
 
-    // All dates in the range get the same child (weekly rotation)
-    const childId = assignedChildren[nextChildIndex];
-
-    for (const date of dates) {
-      assignments.push({
-        task_id: task.id,
-        child_id: childId,
-        date: formatDate(date),
-        household_id: householdId,
-      });
-    }
+    // All dates in the range get the same child (weekly rotation) unless they are away
+    assignments.push(
+      ...assignWholeRange(task, dates, householdId, assignedChildren, nextChildIndex, isAvailable),
+    );
   } else {
     throw new Error(`Unknown rotation_type: ${rotationType}`);
   }
@@ -402,6 +548,155 @@ async function generateWeeklyRotationAssignments(
   return assignments;
 }
 
+/**
+ * Round-robin rotation: one child per turn, in assigned_children order
+ *
+ * The persisted cursor makes each run continue where the previous one
+ * stopped; dates the rotation already covered are left alone.
+ */
+async function generateRoundRobinAssignments(
+  task: Task,
+  dates: Date[],
+  householdId: string,
+  client: PoolClient,
+  isAvailable: ChildAvailability,
+): Promise<PendingAssignment[]> {
+  const rotations = new TaskRotationRepository(client);
+  const cursor = await rotations.findCursor(task.id);
+  const { turns, cursor: nextCursor } = rotate(
+    task.rule_config.assigned_children || [],
+    dates.map(formatDate),
+    task.rule_config.rotation_period ?? 'weekly',
+    cursor,
+    isAvailable,
+  );
+
+  if (nextCursor && nextCursor !== cursor) {
+    await rotations.saveCursor(task.id, householdId, nextCursor);
+  }
+
+  // Turns where every child is away are left out
+  return turns
+    .filter((turn) => turn.childId !== null)
+    .map((turn) => ({
+      task_id: task.id,
+      child_id: turn.childId,
+      date: turn.date,
+      household_id: householdId,
+    }));
+}
+
+/**
+ * One child for every date of the range, with the next available child
+ * standing in on days they are away
+ */
+function assignWholeRange(
+  task: Task,
+  dates: Date[],
+  householdId: string,
+  assignedChildren: string[],
+  childIndex: number,
+  isAvailable: ChildAvailability,
+): PendingAssignment[] {
+  const assignments: PendingAssignment[] = [];
+
+  for (const date of dates) {
+    const formatted = formatDate(date);
+    const childId = pickAvailableChild(assignedChildren, childIndex, formatted, isAvailable);
+    if (childId === null) continue;
+
+    assignments.push({
+      task_id: task.id,
+      child_id: childId,
+      date: formatted,
+      household_id: householdId,
+    });
+  }
+
+  return assignments;
+}
+
+/**
+ * The child at index (wrapping around), or the next one after them who is
+ * not away on the date; null when every child is away
+ */
+function pickAvailableChild(
+  children: string[],
+  index: number,
+  date: string,
+  isAvailable: ChildAvailability,
+): string | null {
+  for (let offset = 0; offset < children.length; offset++) {
+    const childId = children[(index + offset) % children.length];
+    if (isAvailable(childId, date)) return childId;
+  }
+
+  return null;
+}
+
+/**
+ * Read a stored rule_config in either camelCase or snake_case
+ */
+function normalizeRuleConfig(value: unknown): RuleConfig {
+  let parsed: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) return {};
+
+  const obj = parsed as Record<string, unknown>;
+  const pick = (camel: string, snake: string) => obj[camel] ?? obj[snake];
+  const config: RuleConfig = {};
+
+  const rotationType = pick('rotationType', 'rotation_type');
+  if (
+    rotationType === 'odd_even_week' ||
+    rotationType === 'alternating' ||
+    rotationType === 'round_robin'
+  ) {
+    config.rotation_type = rotationType;
+  }
+
+  const rotationPeriod = pick('rotationPeriod', 'rotation_period');
+  if (
+    rotationPeriod === 'daily' ||
+    rotationPeriod === 'weekly' ||
+    rotationPeriod === 'occurrence'
+  ) {
+    config.rotation_period = rotationPeriod;
+  }
+
+  const repeatDays = pick('repeatDays', 'repeat_days');
+  if (Array.isArray(repeatDays)) config.repeat_days = repeatDays as number[];
+
+  const assignedChildren = pick('assignedChildren', 'assigned_children');
+  if (Array.isArray(assignedChildren)) config.assigned_children = assignedChildren as string[];
+
+  if (typeof obj.interval === 'number') config.interval = obj.interval;
+
+  const intervalUnit = pick('intervalUnit', 'interval_unit');
+  if (intervalUnit === 'days' || intervalUnit === 'weeks') config.interval_unit = intervalUnit;
+
+  const startDate = pick('startDate', 'start_date');
+  if (typeof startDate === 'string') config.start_date = startDate;
+
+  const dayOfMonth = pick('dayOfMonth', 'day_of_month');
+  if (typeof dayOfMonth === 'number') config.day_of_month = dayOfMonth;
+
+  const weekOfMonth = pick('weekOfMonth', 'week_of_month');
+  if (typeof weekOfMonth === 'number') config.week_of_month = weekOfMonth;
+
+  const dayOfWeek = pick('dayOfWeek', 'day_of_week');
+  if (typeof dayOfWeek === 'number') config.day_of_week = dayOfWeek;
+
+  return config;
+}
+
 /**
  * Format Date object as YYYY-MM-DD string (UTC to avoid timezone issues)
  */
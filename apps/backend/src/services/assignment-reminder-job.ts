@@ -0,0 +1,121 @@
+import { db } from '../database.js';
+import { translate } from '../core/i18n.js';
+import { everyMinutes, type ScheduledJob } from '../core/scheduler.js';
+import { getPushNotificationService } from './push.service.js';
+
+/**
+ * Assignment reminders
+ *
+ * Every few minutes, pushes a "don't forget" notification to children who
+ * still have pending assignments for today once their household's local
+ * time has passed the reminder hour. Each assignment is reminded at most
+ * once (task_assignments.reminder_sent_at).
+ *
+ * Configuration via environment variables:
+ * - ASSIGNMENT_REMINDERS_ENABLED (default: true, always false when NODE_ENV=test)
+ * - ASSIGNMENT_REMINDER_HOUR (default: 17, household local time)
+ * - ASSIGNMENT_REMINDER_INTERVAL_MINUTES (default: 15)
+ */
+
+export const ASSIGNMENT_REMINDER_JOB_NAME = 'assignment-reminders';
+
+export interface AssignmentReminderJobConfig {
+  enabled: boolean;
+  hour: number;
+  intervalMinutes: number;
+}
+
+export interface ReminderSummary {
+  assignments: number;
+  sent: number;
+}
+
+function parseIntEnv(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * Read job configuration from environment variables
+ */
+export function getAssignmentReminderJobConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): AssignmentReminderJobConfig {
+  return {
+    enabled: env.NODE_ENV !== 'test' && env.ASSIGNMENT_REMINDERS_ENABLED !== 'false',
+    hour: Math.min(Math.max(parseIntEnv(env.ASSIGNMENT_REMINDER_HOUR, 17), 0), 23),
+    intervalMinutes: Math.max(parseIntEnv(env.ASSIGNMENT_REMINDER_INTERVAL_MINUTES, 15), 1),
+  };
+}
+
+/**
+ * Send reminders for today's pending assignments
+ *
+ * Only assignments whose child has a push subscription are picked up, so
+ * children who subscribe later in the evening still get their reminder.
+ */
+export async function sendAssignmentReminders(
+  reminderHour: number,
+  now: Date = new Date(),
+): Promise<ReminderSummary> {
+  const summary: ReminderSummary = { assignments: 0, sent: 0 };
+  const pushService = getPushNotificationService();
+  if (!pushService.isEnabled()) {
+    return summary;
+  }
+
+  const result = await db.query<{ id: string; user_id: string; task_name: string }>(
+    `SELECT ta.id, c.user_id, t.name as task_name
+     FROM task_assignments ta
+     JOIN tasks t ON ta.task_id = t.id
+     JOIN children c ON ta.child_id = c.id
+     JOIN households h ON ta.household_id = h.id
+     WHERE ta.status = 'pending'
+       AND ta.reminder_sent_at IS NULL
+       AND ta.date = ($1::timestamptz AT TIME ZONE h.timezone)::date
+       AND EXTRACT(HOUR FROM $1::timestamptz AT TIME ZONE h.timezone) >= $2
+       AND c.user_id IS NOT NULL
+       AND EXISTS (SELECT 1 FROM push_subscriptions ps WHERE ps.user_id = c.user_id)
+     ORDER BY ta.date, t.name`,
+    [now, reminderHour],
+  );
+
+  for (const row of result.rows) {
+    summary.assignments++;
+
+    // Mark first: a failing push service must not cause repeated reminders
+    await db.query('UPDATE task_assignments SET reminder_sent_at = NOW() WHERE id = $1', [row.id]);
+
+    const delivery = await pushService.sendToUsers([row.user_id], {
+      type: 'assignment_reminder',
+      title: translate('notifications.assignment_reminder.title'),
+      body: translate('notifications.assignment_reminder.body', undefined, {
+        taskName: row.task_name,
+      }),
+      url: '/my-tasks',
+      tag: `assignment-${row.id}`,
+    });
+    summary.sent += delivery.sent;
+  }
+
+  return summary;
+}
+
+/**
+ * Create the reminder job for the JobScheduler
+ */
+export function createAssignmentReminderJob(
+  config: AssignmentReminderJobConfig = getAssignmentReminderJobConfig(),
+): ScheduledJob {
+  return {
+    name: ASSIGNMENT_REMINDER_JOB_NAME,
+    nextRunAt: everyMinutes(config.intervalMinutes),
+    lockTtlSeconds: 5 * 60,
+    run: async () => {
+      const summary = await sendAssignmentReminders(config.hour);
+      if (summary.assignments > 0) {
+        console.log('Assignment reminders sent:', summary);
+      }
+    },
+  };
+}
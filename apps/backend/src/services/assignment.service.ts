@@ -3,6 +3,8 @@ import {
   generateAssignments as generateAssignmentsInternal,
   type AssignmentGenerationResult,
 } from './assignment-generator.js';
+import { PointsTransactionRepository } from '../repositories/points-transaction.repository.js';
+import { unlockAchievements } from './achievement.service.js';
 
 /**
  * AssignmentService - Centralized task assignment business logic
@@ -189,10 +191,25 @@ export class AssignmentService {
         ],
       );
 
-      await client.query('COMMIT');
-
       const completion = completionResult.rows[0];
 
+      // Credit the points in the ledger
+      if (completedAssignment.child_id) {
+        await new PointsTransactionRepository(client).recordCompletion({
+          householdId: assignment.household_id,
+          childId: completedAssignment.child_id,
+          taskCompletionId: completion.id,
+          points: completion.points_earned,
+        });
+        await unlockAchievements(client, {
+          householdId: assignment.household_id,
+          childId: completedAssignment.child_id,
+          taskCompletionId: completion.id,
+        });
+      }
+
+      await client.query('COMMIT');
+
       return {
         assignment: {
           id: completedAssignment.id,
@@ -256,7 +273,8 @@ export class AssignmentService {
       FROM task_assignments ta
       JOIN tasks t ON ta.task_id = t.id
       LEFT JOIN children c ON ta.child_id = c.id
-      LEFT JOIN task_completions tc ON ta.id = tc.task_assignment_id
+      LEFT JOIN task_completions tc
+        ON ta.id = tc.task_assignment_id AND tc.approval_status != 'rejected'
       WHERE ta.child_id = $1 AND ta.date >= $2 AND ta.date <= $3
       ORDER BY ta.date ASC, t.name ASC`,
       [childId, startDate, endDate],
@@ -309,7 +327,8 @@ export class AssignmentService {
       FROM task_assignments ta
       JOIN tasks t ON ta.task_id = t.id
       LEFT JOIN children c ON ta.child_id = c.id
-      LEFT JOIN task_completions tc ON ta.id = tc.task_assignment_id
+      LEFT JOIN task_completions tc
+        ON ta.id = tc.task_assignment_id AND tc.approval_status != 'rejected'
       WHERE ta.household_id = $1 AND ta.date >= $2 AND ta.date <= $3
     `;
 
@@ -0,0 +1,51 @@
+/**
+ * Audit Service
+ *
+ * Routes call recordAuditEvent after each change they make in a household.
+ * The event is written on the same connection as the change, so it commits
+ * or rolls back with it, and carries the request id for matching it to logs.
+ */
+
+import type { FastifyRequest } from 'fastify';
+import type { Pool, PoolClient } from 'pg';
+import type { AuditAction, AuditEntityType } from '@st44/types';
+import { getHouseholdClient } from '../middleware/household-scope.js';
+import { AuditEventRepository } from '../repositories/audit-event.repository.js';
+
+export interface AuditChange {
+  householdId: string;
+  action: AuditAction;
+  entityId?: string | null;
+  before?: object | null;
+  after?: object | null;
+}
+
+/**
+ * Entity type of an action (the part before the dot)
+ */
+export function getAuditEntityType(action: AuditAction): AuditEntityType {
+  return action.slice(0, action.indexOf('.')) as AuditEntityType;
+}
+
+/**
+ * Record a change made by the current user
+ *
+ * Defaults to the request's household scope; routes that run outside one
+ * pass the connection or transaction client they made the change on.
+ */
+export async function recordAuditEvent(
+  request: FastifyRequest,
+  change: AuditChange,
+  db: Pool | PoolClient = getHouseholdClient(request),
+): Promise<void> {
+  await new AuditEventRepository(db).create({
+    householdId: change.householdId,
+    actorUserId: request.user?.userId ?? null,
+    action: change.action,
+    entityType: getAuditEntityType(change.action),
+    entityId: change.entityId,
+    before: change.before,
+    after: change.after,
+    requestId: request.requestId,
+  });
+}
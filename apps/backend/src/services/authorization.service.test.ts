@@ -1,7 +1,12 @@
 import { test, describe, before, after, beforeEach, afterEach } from 'node:test';
 import assert from 'node:assert';
 import pg from 'pg';
-import { AuthorizationService, isAuthorizationError } from './authorization.service.js';
+import {
+  AuthorizationService,
+  isAuthorizationError,
+  hasPermission,
+  ROLE_PERMISSIONS,
+} from './authorization.service.js';
 
 /**
  * AuthorizationService Unit Tests
@@ -12,6 +17,32 @@ import { AuthorizationService, isAuthorizationError } from './authorization.serv
  * - Task and assignment authorization
  */
 
+describe('Role permissions', () => {
+  test('admins have every permission parents have', () => {
+    for (const permission of ROLE_PERMISSIONS.parent) {
+      assert.strictEqual(hasPermission('admin', permission), true, permission);
+    }
+  });
+
+  test('only admins manage the household and see its audit log', () => {
+    assert.strictEqual(hasPermission('admin', 'household.manage'), true);
+    assert.strictEqual(hasPermission('parent', 'household.manage'), false);
+    assert.strictEqual(hasPermission('parent', 'audit.view'), false);
+  });
+
+  test('caregivers complete assignments but change nothing else', () => {
+    assert.deepStrictEqual(ROLE_PERMISSIONS.caregiver, ['assignments.complete_any']);
+    assert.strictEqual(hasPermission('caregiver', 'tasks.manage'), false);
+    assert.strictEqual(hasPermission('caregiver', 'rewards.manage'), false);
+    assert.strictEqual(hasPermission('caregiver', 'points.manage'), false);
+    assert.strictEqual(hasPermission('caregiver', 'members.invite'), false);
+  });
+
+  test('children have no household permissions', () => {
+    assert.deepStrictEqual(ROLE_PERMISSIONS.child, []);
+  });
+});
+
 describe('AuthorizationService', () => {
   let pool: pg.Pool;
   let service: AuthorizationService;
@@ -1,4 +1,5 @@
 import { Pool } from 'pg';
+import type { HouseholdRole } from '../types/database.js';
 
 /**
  * AuthorizationService - Centralized authorization logic for household operations
@@ -10,8 +11,58 @@ import { Pool } from 'pg';
  * - Task and assignment authorization
  */
 
+/**
+ * Things a household member can be allowed to do beyond viewing the household.
+ * Every member can view tasks, assignments, rewards and points (children only
+ * their own); the permissions below gate the rest.
+ */
+export type HouseholdPermission =
+  | 'household.manage' // Rename or delete the household, clean up invitations
+  | 'audit.view'
+  | 'members.invite'
+  | 'children.manage' // Profiles, child accounts, QR login, absences
+  | 'children.delete'
+  | 'tasks.manage' // Tasks and single-task follow-up
+  | 'assignments.manage' // Generate, create manually and reassign
+  | 'assignments.complete_any' // Complete for any child, without approval
+  | 'reviews.manage'
+  | 'rewards.manage' // Rewards, redemptions and household achievements
+  | 'points.manage'
+  | 'calendar_feeds.manage';
+
+const PARENT_PERMISSIONS: readonly HouseholdPermission[] = [
+  'members.invite',
+  'children.manage',
+  'tasks.manage',
+  'assignments.manage',
+  'assignments.complete_any',
+  'reviews.manage',
+  'rewards.manage',
+  'points.manage',
+  'calendar_feeds.manage',
+];
+
+/**
+ * Permission matrix. Caregivers (babysitters, grandparents) help with the
+ * day's chores but cannot change the setup; children act on their own
+ * assignments only, which routes check against their linked child profile.
+ */
+export const ROLE_PERMISSIONS: Readonly<Record<HouseholdRole, readonly HouseholdPermission[]>> = {
+  admin: [...PARENT_PERMISSIONS, 'household.manage', 'audit.view', 'children.delete'],
+  parent: PARENT_PERMISSIONS,
+  caregiver: ['assignments.complete_any'],
+  child: [],
+};
+
+/**
+ * Check whether a household role grants a permission
+ */
+export function hasPermission(role: HouseholdRole, permission: HouseholdPermission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
 export interface HouseholdMembership {
-  role: 'admin' | 'parent' | 'child';
+  role: HouseholdRole;
   householdId: string;
   userId: string;
 }
@@ -35,7 +86,7 @@ export class AuthorizationService {
     userId: string,
     householdId: string,
   ): Promise<HouseholdMembership | null> {
-    const result = await this.db.query<{ role: 'admin' | 'parent' | 'child' }>(
+    const result = await this.db.query<{ role: HouseholdRole }>(
       'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
       [householdId, userId],
     );
@@ -62,7 +113,7 @@ export class AuthorizationService {
   async requireRole(
     userId: string,
     householdId: string,
-    allowedRoles: Array<'admin' | 'parent' | 'child'>,
+    allowedRoles: HouseholdRole[],
   ): Promise<HouseholdMembership> {
     const membership = await this.checkHouseholdMembership(userId, householdId);
 
@@ -85,6 +136,40 @@ export class AuthorizationService {
     return membership;
   }
 
+  /**
+   * Require a user to have a permission in a household
+   *
+   * @param userId - UUID of the user
+   * @param householdId - UUID of the household
+   * @param permission - Permission the action needs
+   * @throws AuthorizationError if user is not a member or their role lacks the permission
+   */
+  async requirePermission(
+    userId: string,
+    householdId: string,
+    permission: HouseholdPermission,
+  ): Promise<HouseholdMembership> {
+    const membership = await this.checkHouseholdMembership(userId, householdId);
+
+    if (!membership) {
+      const error: AuthorizationError = {
+        code: 'NOT_MEMBER',
+        message: 'You are not a member of this household',
+      };
+      throw error;
+    }
+
+    if (!hasPermission(membership.role, permission)) {
+      const error: AuthorizationError = {
+        code: 'INSUFFICIENT_ROLE',
+        message: `Your role (${membership.role}) does not allow this action`,
+      };
+      throw error;
+    }
+
+    return membership;
+  }
+
   /**
    * Check if a user can modify a specific task
    *
@@ -105,21 +190,21 @@ export class AuthorizationService {
 
     const householdId = taskResult.rows[0].household_id;
 
-    // Check if user is admin or parent in the household
     const membership = await this.checkHouseholdMembership(userId, householdId);
 
     if (!membership) {
       return false;
     }
 
-    return membership.role === 'admin' || membership.role === 'parent';
+    return hasPermission(membership.role, 'tasks.manage');
   }
 
   /**
    * Check if a user can complete an assignment
    *
    * Rules:
-   * - Parents/admins can complete any assignment in their household
+   * - Roles with assignments.complete_any (admins, parents, caregivers) can
+   *   complete any assignment in their household
    * - Children can only complete assignments assigned to them
    *
    * @param userId - UUID of the user
@@ -146,8 +231,7 @@ export class AuthorizationService {
       return false;
     }
 
-    // Parents and admins can complete any assignment
-    if (membership.role === 'admin' || membership.role === 'parent') {
+    if (hasPermission(membership.role, 'assignments.complete_any')) {
       return true;
     }
 
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import type { Pool, PoolClient } from 'pg';
+import { translate, type SupportedLanguage } from '../core/i18n.js';
+import { AssignmentRepository } from '../repositories/assignment.repository.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import { TaskRepository } from '../repositories/task.repository.js';
+import type { CalendarFeed } from '../repositories/calendar-feed.repository.js';
+import { buildCalendar, type ICalEvent } from '../utils/ical.js';
+import { addDays, getLocalToday, toLocalDateString } from '../utils/timezone.js';
+
+/**
+ * iCalendar feeds
+ *
+ * Calendar apps poll the feed URL, so each feed is rebuilt on request from
+ * the same assignment data as the household assignments endpoint, plus
+ * single-task deadlines as all-day events.
+ */
+
+/**
+ * Token length in bytes (32 bytes = 256-bit security)
+ */
+const TOKEN_BYTES = 32;
+
+/**
+ * Days of past assignments kept in the feed so recent history stays visible
+ */
+const FEED_PAST_DAYS = 7;
+
+/**
+ * Days of upcoming assignments and deadlines in the feed
+ */
+const FEED_FUTURE_DAYS = 30;
+
+/**
+ * Suggested refresh interval for calendar apps
+ */
+const FEED_REFRESH_MINUTES = 60;
+
+const APP_URL = process.env.APP_URL || 'http://localhost:4200';
+
+/**
+ * Generate the secret token that identifies a feed in its URL
+ */
+export function generateFeedToken(): string {
+  return crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Public subscription URL of a feed (served by the backend behind the app's /api proxy)
+ */
+export function getFeedUrl(token: string): string {
+  return `${APP_URL}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Build the .ics document for a feed
+ *
+ * @returns null when the feed's household no longer exists
+ */
+export async function buildFeedCalendar(
+  db: Pool | PoolClient,
+  feed: CalendarFeed,
+  language: SupportedLanguage,
+  now: Date = new Date(),
+): Promise<string | null> {
+  const household = await new HouseholdRepository(db).findById(feed.householdId);
+  if (!household) {
+    return null;
+  }
+
+  const today = getLocalToday(household.timezone, now);
+  const startDate = addDays(today, -FEED_PAST_DAYS);
+  const endDate = addDays(today, FEED_FUTURE_DAYS);
+  const childId = feed.childId ?? undefined;
+
+  const assignments = await new AssignmentRepository(db).findByHousehold(
+    feed.householdId,
+    startDate,
+    endDate,
+    { childId },
+  );
+  const deadlines = await new TaskRepository(db).findSingleTaskDeadlines(
+    feed.householdId,
+    startDate,
+    endDate,
+    household.timezone,
+    childId,
+  );
+
+  const events: ICalEvent[] = assignments.map((assignment) => {
+    // The household feed names the child; a child's own feed doesn't need to
+    let summary =
+      !feed.childId && assignment.childName
+        ? `${assignment.taskName} (${assignment.childName})`
+        : assignment.taskName;
+    if (assignment.status === 'completed') {
+      summary = translate('calendar.completed', language, { summary });
+    }
+
+    return {
+      uid: `assignment-${assignment.id}@diddit`,
+      date: assignment.date,
+      summary,
+      description: describeTask(assignment.taskDescription, assignment.taskPoints, language),
+      stamp: now,
+    };
+  });
+
+  for (const task of deadlines) {
+    events.push({
+      uid: `single-task-${task.id}@diddit`,
+      date: toLocalDateString(new Date(task.deadline as string), household.timezone),
+      summary: translate('calendar.deadline', language, { taskName: task.name }),
+      description: describeTask(task.description, task.points, language),
+      stamp: now,
+    });
+  }
+
+  events.sort((a, b) => a.date.localeCompare(b.date));
+
+  const name = feed.childName
+    ? translate('calendar.child', language, { childName: feed.childName })
+    : translate('calendar.household', language, { householdName: household.name });
+
+  return buildCalendar({
+    name,
+    timeZone: household.timezone,
+    refreshMinutes: FEED_REFRESH_MINUTES,
+    events,
+  });
+}
+
+function describeTask(description: string | null, points: number, language: SupportedLanguage) {
+  const pointsText = translate('calendar.points', language, { points });
+  return description ? `${description}\n\n${pointsText}` : pointsText;
+}
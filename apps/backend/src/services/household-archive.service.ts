@@ -0,0 +1,530 @@
+import type { Pool, PoolClient } from 'pg';
+import {
+  HOUSEHOLD_ARCHIVE_VERSION,
+  type HouseholdArchive,
+  type ArchiveImportConflict,
+  type ImportHouseholdResponse,
+} from '@st44/types';
+
+/**
+ * Household archives
+ *
+ * A versioned JSON snapshot of everything a household has built up: members,
+ * children, tasks with their rule configs, assignments, completions, rewards,
+ * redemptions and the points ledger. Importing one recreates the data in a
+ * new household with fresh ids.
+ *
+ * Users are identified by email so archives can move between environments.
+ * Only the importing user joins the new household; the other members are
+ * reported so they can be invited again.
+ */
+
+type ArchiveSection = ArchiveImportConflict['section'];
+
+function toDateTimeString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(String(value)).toISOString();
+}
+
+function toNullableDateTimeString(value: unknown): string | null {
+  return value == null ? null : toDateTimeString(value);
+}
+
+/**
+ * Build the archive of a household
+ *
+ * @returns null when the household does not exist
+ */
+export async function exportHouseholdArchive(
+  db: Pool | PoolClient,
+  householdId: string,
+  now: Date = new Date(),
+): Promise<HouseholdArchive | null> {
+  const householdResult = await db.query(
+    `SELECT name, timezone, requires_approval, late_completion_policy, late_points_percent
+     FROM households WHERE id = $1`,
+    [householdId],
+  );
+  const household = householdResult.rows[0];
+  if (!household) {
+    return null;
+  }
+
+  // One query at a time: db may be the request's transaction client
+  const members = await db.query(
+    `SELECT u.email, u.name, hm.role, hm.joined_at
+     FROM household_members hm
+     JOIN users u ON hm.user_id = u.id
+     WHERE hm.household_id = $1
+     ORDER BY hm.joined_at, u.email`,
+    [householdId],
+  );
+  const children = await db.query(
+    'SELECT id, name, birth_year FROM children WHERE household_id = $1 ORDER BY created_at, id',
+    [householdId],
+  );
+  const tasks = await db.query(
+    `SELECT id, name, description, points, rule_type, rule_config, deadline, active,
+            requires_approval, requires_photo, checklist, partial_points, created_at
+     FROM tasks WHERE household_id = $1 ORDER BY created_at, id`,
+    [householdId],
+  );
+  const assignments = await db.query(
+    `SELECT id, task_id, child_id, date::text as date, status, checked_items, completed_late,
+            created_at
+     FROM task_assignments WHERE household_id = $1 ORDER BY date, created_at, id`,
+    [householdId],
+  );
+  const completions = await db.query(
+    `SELECT tc.id, tc.task_assignment_id, tc.child_id, tc.completed_at, tc.points_earned,
+            tc.approval_status, u.email as reviewed_by_email, tc.reviewed_at, tc.review_comment
+     FROM task_completions tc
+     LEFT JOIN users u ON tc.reviewed_by = u.id
+     WHERE tc.household_id = $1 ORDER BY tc.completed_at, tc.id`,
+    [householdId],
+  );
+  const rewards = await db.query(
+    `SELECT id, name, description, points_cost, quantity, active, redemption_limit,
+            redemption_limit_period, available_from::text AS available_from,
+            available_until::text AS available_until, available_days, restock_quantity,
+            restock_period
+     FROM rewards WHERE household_id = $1 ORDER BY created_at, id`,
+    [householdId],
+  );
+  const redemptions = await db.query(
+    `SELECT id, reward_id, child_id, points_spent, status, redeemed_at, fulfilled_at
+     FROM reward_redemptions WHERE household_id = $1 ORDER BY redeemed_at, id`,
+    [householdId],
+  );
+  const points = await db.query(
+    `SELECT id, child_id, type, amount, balance_after, reason, task_completion_id,
+            reward_redemption_id, created_at
+     FROM points_transactions WHERE household_id = $1 ORDER BY created_at, id`,
+    [householdId],
+  );
+
+  return {
+    version: HOUSEHOLD_ARCHIVE_VERSION,
+    exportedAt: now.toISOString(),
+    household: {
+      name: household.name,
+      timezone: household.timezone,
+      requiresApproval: household.requires_approval,
+      lateCompletionPolicy: household.late_completion_policy,
+      latePointsPercent: household.late_points_percent,
+    },
+    members: members.rows.map((row) => ({
+      email: row.email,
+      displayName: row.name,
+      role: row.role,
+      joinedAt: toNullableDateTimeString(row.joined_at),
+    })),
+    children: children.rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      birthYear: row.birth_year,
+    })),
+    tasks: tasks.rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      points: row.points,
+      ruleType: row.rule_type,
+      ruleConfig: row.rule_config,
+      deadline: toNullableDateTimeString(row.deadline),
+      active: row.active,
+      requiresApproval: row.requires_approval,
+      requiresPhoto: row.requires_photo,
+      checklist: row.checklist,
+      partialPoints: row.partial_points,
+      createdAt: toDateTimeString(row.created_at),
+    })),
+    assignments: assignments.rows.map((row) => ({
+      id: row.id,
+      taskId: row.task_id,
+      childId: row.child_id,
+      date: row.date,
+      status: row.status,
+      checkedItems: row.checked_items,
+      completedLate: row.completed_late,
+      createdAt: toDateTimeString(row.created_at),
+    })),
+    completions: completions.rows.map((row) => ({
+      id: row.id,
+      assignmentId: row.task_assignment_id,
+      childId: row.child_id,
+      completedAt: toDateTimeString(row.completed_at),
+      pointsEarned: row.points_earned,
+      approvalStatus: row.approval_status,
+      reviewedBy: row.reviewed_by_email,
+      reviewedAt: toNullableDateTimeString(row.reviewed_at),
+      reviewComment: row.review_comment,
+    })),
+    rewards: rewards.rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      pointsCost: row.points_cost,
+      quantity: row.quantity,
+      active: row.active,
+      redemptionLimit: row.redemption_limit
+        ? { count: row.redemption_limit, period: row.redemption_limit_period }
+        : null,
+      availableFrom: row.available_from,
+      availableUntil: row.available_until,
+      availableDays: row.available_days,
+      restock: row.restock_quantity
+        ? { quantity: row.restock_quantity, period: row.restock_period }
+        : null,
+    })),
+    redemptions: redemptions.rows.map((row) => ({
+      id: row.id,
+      rewardId: row.reward_id,
+      childId: row.child_id,
+      pointsSpent: row.points_spent,
+      status: row.status,
+      redeemedAt: toDateTimeString(row.redeemed_at),
+      fulfilledAt: toNullableDateTimeString(row.fulfilled_at),
+    })),
+    pointsTransactions: points.rows.map((row) => ({
+      id: row.id,
+      childId: row.child_id,
+      type: row.type,
+      amount: row.amount,
+      balanceAfter: row.balance_after,
+      reason: row.reason,
+      taskCompletionId: row.task_completion_id,
+      rewardRedemptionId: row.reward_redemption_id,
+      createdAt: toDateTimeString(row.created_at),
+    })),
+  };
+}
+
+/**
+ * Maps archive ids to the ids of the rows created for them, and collects
+ * everything that had to be skipped or changed
+ */
+class ImportContext {
+  readonly conflicts: ArchiveImportConflict[] = [];
+  private readonly ids = new Map<ArchiveSection, Map<string, string>>();
+
+  conflict(section: ArchiveSection, id: string, reason: string): void {
+    this.conflicts.push({ section, id, reason });
+  }
+
+  /**
+   * New id of an imported record, or undefined if it was not imported
+   */
+  get(section: ArchiveSection, id: string | null): string | undefined {
+    return (id && this.ids.get(section)?.get(id)) || undefined;
+  }
+
+  /**
+   * Claim an archive id; false (with a conflict) if it appeared before
+   */
+  claim(section: ArchiveSection, id: string): boolean {
+    const sectionIds = this.ids.get(section) ?? new Map<string, string>();
+    this.ids.set(section, sectionIds);
+
+    if (sectionIds.has(id)) {
+      this.conflict(section, id, 'Duplicate id in archive');
+      return false;
+    }
+    sectionIds.set(id, '');
+    return true;
+  }
+
+  set(section: ArchiveSection, id: string, newId: string): void {
+    this.ids.get(section)!.set(id, newId);
+  }
+
+  count(section: ArchiveSection): number {
+    return [...(this.ids.get(section)?.values() ?? [])].filter(Boolean).length;
+  }
+}
+
+/**
+ * Recreate an archive in a new household with the importing user as admin
+ *
+ * Records that refer to something missing from the archive (or skipped) are
+ * left out and reported as conflicts. Run on a transaction client so a failed
+ * import leaves nothing behind.
+ */
+export async function importHouseholdArchive(
+  client: PoolClient,
+  archive: HouseholdArchive,
+  userId: string,
+): Promise<ImportHouseholdResponse> {
+  const ctx = new ImportContext();
+
+  const householdResult = await client.query(
+    `INSERT INTO households (name, timezone, requires_approval, late_completion_policy,
+                             late_points_percent)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING id, name, timezone, requires_approval, late_completion_policy, late_points_percent,
+               created_at, updated_at`,
+    [
+      archive.household.name.trim(),
+      archive.household.timezone,
+      archive.household.requiresApproval,
+      archive.household.lateCompletionPolicy ?? 'full',
+      archive.household.latePointsPercent ?? 50,
+    ],
+  );
+  const household = householdResult.rows[0];
+  const householdId: string = household.id;
+
+  await client.query(
+    'INSERT INTO household_members (household_id, user_id, role, joined_at) VALUES ($1, $2, $3, NOW())',
+    [householdId, userId, 'admin'],
+  );
+
+  const userResult = await client.query('SELECT email FROM users WHERE id = $1', [userId]);
+  const importerEmail: string | undefined = userResult.rows[0]?.email?.toLowerCase();
+  const isImporter = (email: string | null) => !!email && email.toLowerCase() === importerEmail;
+
+  for (const member of archive.members) {
+    if (!isImporter(member.email)) {
+      ctx.conflict('members', member.email, 'Not added; invite them to the new household');
+    }
+  }
+
+  for (const child of archive.children) {
+    if (!ctx.claim('children', child.id)) continue;
+
+    const result = await client.query(
+      'INSERT INTO children (household_id, name, birth_year) VALUES ($1, $2, $3) RETURNING id',
+      [householdId, child.name, child.birthYear ?? null],
+    );
+    ctx.set('children', child.id, result.rows[0].id);
+  }
+
+  for (const task of archive.tasks) {
+    if (!ctx.claim('tasks', task.id)) continue;
+
+    let ruleConfig = task.ruleConfig;
+    if (ruleConfig?.assignedChildren) {
+      const assignedChildren: string[] = [];
+      for (const childId of ruleConfig.assignedChildren) {
+        const newChildId = ctx.get('children', childId);
+        if (newChildId) {
+          assignedChildren.push(newChildId);
+        } else {
+          ctx.conflict('tasks', task.id, `Unknown child ${childId} removed from assignedChildren`);
+        }
+      }
+      ruleConfig = { ...ruleConfig, assignedChildren };
+    }
+
+    const result = await client.query(
+      `INSERT INTO tasks (household_id, name, description, points, rule_type, rule_config,
+                          deadline, active, requires_approval, requires_photo, checklist,
+                          partial_points, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING id`,
+      [
+        householdId,
+        task.name,
+        task.description,
+        task.points,
+        task.ruleType,
+        ruleConfig ? JSON.stringify(ruleConfig) : null,
+        task.deadline ?? null,
+        task.active,
+        task.requiresApproval ?? false,
+        task.requiresPhoto ?? false,
+        JSON.stringify(task.checklist ?? []),
+        task.partialPoints ?? false,
+        task.createdAt,
+      ],
+    );
+    ctx.set('tasks', task.id, result.rows[0].id);
+  }
+
+  // One assignment per task, child and date (the database enforces it too)
+  const assignmentKeys = new Set<string>();
+  for (const assignment of archive.assignments) {
+    if (!ctx.claim('assignments', assignment.id)) continue;
+
+    const taskId = ctx.get('tasks', assignment.taskId);
+    const childId = ctx.get('children', assignment.childId);
+    if (!taskId || (assignment.childId && !childId)) {
+      ctx.conflict('assignments', assignment.id, 'Refers to a task or child not in the archive');
+      continue;
+    }
+
+    const key = `${taskId}:${childId ?? ''}:${assignment.date}`;
+    if (assignmentKeys.has(key)) {
+      ctx.conflict('assignments', assignment.id, 'Task already assigned to the child that day');
+      continue;
+    }
+    assignmentKeys.add(key);
+
+    const result = await client.query(
+      `INSERT INTO task_assignments (household_id, task_id, child_id, date, status, checked_items,
+                                     completed_late, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING id`,
+      [
+        householdId,
+        taskId,
+        childId ?? null,
+        assignment.date,
+        assignment.status,
+        JSON.stringify(assignment.checkedItems ?? []),
+        assignment.completedLate ?? false,
+        assignment.createdAt,
+      ],
+    );
+    ctx.set('assignments', assignment.id, result.rows[0].id);
+  }
+
+  for (const completion of archive.completions) {
+    if (!ctx.claim('completions', completion.id)) continue;
+
+    const assignmentId = ctx.get('assignments', completion.assignmentId);
+    const childId = ctx.get('children', completion.childId);
+    if (!assignmentId || !childId) {
+      ctx.conflict('completions', completion.id, 'Refers to an assignment or child not imported');
+      continue;
+    }
+
+    const result = await client.query(
+      `INSERT INTO task_completions (household_id, task_assignment_id, child_id, completed_at,
+                                     points_earned, approval_status, reviewed_by, reviewed_at,
+                                     review_comment)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING id`,
+      [
+        householdId,
+        assignmentId,
+        childId,
+        completion.completedAt,
+        completion.pointsEarned,
+        completion.approvalStatus,
+        isImporter(completion.reviewedBy) ? userId : null,
+        completion.reviewedAt,
+        completion.reviewComment,
+      ],
+    );
+    ctx.set('completions', completion.id, result.rows[0].id);
+  }
+
+  for (const reward of archive.rewards) {
+    if (!ctx.claim('rewards', reward.id)) continue;
+
+    const result = await client.query(
+      `INSERT INTO rewards (household_id, name, description, points_cost, quantity, active,
+                            redemption_limit, redemption_limit_period, available_from,
+                            available_until, available_days, restock_quantity, restock_period)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING id`,
+      [
+        householdId,
+        reward.name,
+        reward.description,
+        reward.pointsCost,
+        reward.quantity,
+        reward.active,
+        reward.redemptionLimit?.count ?? null,
+        reward.redemptionLimit?.period ?? null,
+        reward.availableFrom ?? null,
+        reward.availableUntil ?? null,
+        reward.availableDays ?? null,
+        reward.restock?.quantity ?? null,
+        reward.restock?.period ?? null,
+      ],
+    );
+    ctx.set('rewards', reward.id, result.rows[0].id);
+  }
+
+  for (const redemption of archive.redemptions) {
+    if (!ctx.claim('redemptions', redemption.id)) continue;
+
+    const rewardId = ctx.get('rewards', redemption.rewardId);
+    const childId = ctx.get('children', redemption.childId);
+    if (!rewardId || !childId) {
+      ctx.conflict('redemptions', redemption.id, 'Refers to a reward or child not imported');
+      continue;
+    }
+
+    const result = await client.query(
+      `INSERT INTO reward_redemptions (household_id, reward_id, child_id, points_spent, status,
+                                       redeemed_at, fulfilled_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+      [
+        householdId,
+        rewardId,
+        childId,
+        redemption.pointsSpent,
+        redemption.status,
+        redemption.redeemedAt,
+        redemption.fulfilledAt,
+      ],
+    );
+    ctx.set('redemptions', redemption.id, result.rows[0].id);
+  }
+
+  // Each completion and redemption is credited or debited at most once
+  const ledgerKeys = new Set<string>();
+  for (const entry of archive.pointsTransactions) {
+    if (!ctx.claim('pointsTransactions', entry.id)) continue;
+
+    const childId = ctx.get('children', entry.childId);
+    if (!childId) {
+      ctx.conflict('pointsTransactions', entry.id, 'Refers to a child not in the archive');
+      continue;
+    }
+
+    const taskCompletionId = ctx.get('completions', entry.taskCompletionId) ?? null;
+    const rewardRedemptionId = ctx.get('redemptions', entry.rewardRedemptionId) ?? null;
+    const key =
+      entry.type === 'task_completion' && taskCompletionId
+        ? `completion:${taskCompletionId}`
+        : rewardRedemptionId && `redemption:${rewardRedemptionId}:${entry.type}`;
+    if (key && ledgerKeys.has(key)) {
+      ctx.conflict('pointsTransactions', entry.id, 'Duplicate entry for the same source');
+      continue;
+    }
+    if (key) ledgerKeys.add(key);
+
+    const result = await client.query(
+      `INSERT INTO points_transactions (household_id, child_id, type, amount, balance_after,
+                                        reason, task_completion_id, reward_redemption_id,
+                                        created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING id`,
+      [
+        householdId,
+        childId,
+        entry.type,
+        entry.amount,
+        entry.balanceAfter,
+        entry.reason,
+        taskCompletionId,
+        rewardRedemptionId,
+        entry.createdAt,
+      ],
+    );
+    ctx.set('pointsTransactions', entry.id, result.rows[0].id);
+  }
+
+  return {
+    household: {
+      id: householdId,
+      name: household.name,
+      timezone: household.timezone,
+      requiresApproval: household.requires_approval,
+      lateCompletionPolicy: household.late_completion_policy,
+      latePointsPercent: household.late_points_percent,
+      createdAt: toDateTimeString(household.created_at),
+      updatedAt: toDateTimeString(household.updated_at),
+    },
+    imported: {
+      children: ctx.count('children'),
+      tasks: ctx.count('tasks'),
+      assignments: ctx.count('assignments'),
+      completions: ctx.count('completions'),
+      rewards: ctx.count('rewards'),
+      redemptions: ctx.count('redemptions'),
+      pointsTransactions: ctx.count('pointsTransactions'),
+    },
+    conflicts: ctx.conflicts,
+  };
+}
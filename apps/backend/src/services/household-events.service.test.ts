@@ -0,0 +1,191 @@
+/**
+ * Household Events Unit Tests
+ *
+ * Without a Redis subscriber the bus delivers on the publishing instance,
+ * so no Redis or database is required to run these tests.
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HouseholdEvent } from '@st44/types';
+import {
+  HouseholdEventBus,
+  canViewHouseholdEvent,
+  toServerSentEvent,
+  type HouseholdEventViewer,
+} from './household-events.service.js';
+
+const householdId = '550e8400-e29b-41d4-a716-446655440000';
+const otherHouseholdId = '550e8400-e29b-41d4-a716-446655440099';
+
+const declined = {
+  type: 'single_task.declined',
+  householdId,
+  data: {
+    taskId: '550e8400-e29b-41d4-a716-446655440001',
+    childId: '550e8400-e29b-41d4-a716-446655440002',
+  },
+} as const;
+
+describe('HouseholdEventBus', () => {
+  let bus: HouseholdEventBus;
+  let published: string[];
+
+  beforeEach(() => {
+    published = [];
+    bus = new HouseholdEventBus({
+      publish: async (_channel: string, message: string) => {
+        published.push(message);
+        return 1;
+      },
+    } as never);
+  });
+
+  it('delivers events to the listeners of the household', async () => {
+    const received: HouseholdEvent[] = [];
+    bus.subscribe(householdId, (event) => received.push(event));
+
+    await bus.publish(declined);
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].type, 'single_task.declined');
+    assert.deepEqual(received[0].data, declined.data);
+    assert.ok(!Number.isNaN(Date.parse(received[0].occurredAt)));
+  });
+
+  it('does not go through Redis while it is not subscribed', async () => {
+    await bus.publish(declined);
+
+    assert.equal(bus.isDistributed(), false);
+    assert.deepEqual(published, []);
+  });
+
+  it('keeps households apart', async () => {
+    const received: HouseholdEvent[] = [];
+    bus.subscribe(otherHouseholdId, (event) => received.push(event));
+
+    await bus.publish(declined);
+
+    assert.equal(received.length, 0);
+  });
+
+  it('stops delivering once unsubscribed', async () => {
+    const received: HouseholdEvent[] = [];
+    const unsubscribe = bus.subscribe(householdId, (event) => received.push(event));
+
+    unsubscribe();
+    await bus.publish(declined);
+
+    assert.equal(received.length, 0);
+    assert.equal(bus.listenerCount(householdId), 0);
+  });
+
+  it('keeps delivering when a listener throws', async () => {
+    const received: HouseholdEvent[] = [];
+    bus.subscribe(householdId, () => {
+      throw new Error('stream closed');
+    });
+    bus.subscribe(householdId, (event) => received.push(event));
+
+    await bus.publish(declined);
+
+    assert.equal(received.length, 1);
+  });
+});
+
+describe('toServerSentEvent', () => {
+  it('names the event by its type and sends it as JSON data', () => {
+    const event: HouseholdEvent = { ...declined, occurredAt: '2026-10-18T08:00:00.000Z' };
+
+    const message = toServerSentEvent(event);
+
+    assert.equal(message, `event: single_task.declined\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+});
+
+describe('canViewHouseholdEvent', () => {
+  const childId = declined.data.childId;
+  const siblingId = '550e8400-e29b-41d4-a716-446655440003';
+  const occurredAt = '2026-10-18T08:00:00.000Z';
+
+  const child: HouseholdEventViewer = { role: 'child', childId };
+  const sibling: HouseholdEventViewer = { role: 'child', childId: siblingId };
+  const caregiver: HouseholdEventViewer = { role: 'caregiver', childId: null };
+  const parent: HouseholdEventViewer = { role: 'parent', childId: null };
+
+  const completed = (completedBy: string | null): HouseholdEvent => ({
+    type: 'assignment.completed',
+    householdId,
+    occurredAt,
+    data: {
+      assignmentId: '550e8400-e29b-41d4-a716-446655440010',
+      taskId: '550e8400-e29b-41d4-a716-446655440011',
+      childId: completedBy,
+      status: 'completed',
+      completedAt: occurredAt,
+    },
+  });
+  const redemption: HouseholdEvent = {
+    type: 'redemption.status_changed',
+    householdId,
+    occurredAt,
+    data: {
+      redemptionId: '550e8400-e29b-41d4-a716-446655440012',
+      rewardId: '550e8400-e29b-41d4-a716-446655440013',
+      childId,
+      status: 'approved',
+    },
+  };
+
+  it('shows children their own events only', () => {
+    assert.equal(canViewHouseholdEvent(completed(childId), child), true);
+    assert.equal(canViewHouseholdEvent(completed(childId), sibling), false);
+    assert.equal(canViewHouseholdEvent(redemption, child), true);
+    assert.equal(canViewHouseholdEvent(redemption, sibling), false);
+    assert.equal(canViewHouseholdEvent({ ...declined, occurredAt }, sibling), false);
+  });
+
+  it('shows children unassigned assignments and accepted single tasks', () => {
+    const accepted: HouseholdEvent = {
+      type: 'single_task.accepted',
+      householdId,
+      occurredAt,
+      data: {
+        taskId: declined.data.taskId,
+        childId,
+        assignmentId: '550e8400-e29b-41d4-a716-446655440010',
+      },
+    };
+
+    assert.equal(canViewHouseholdEvent(completed(null), sibling), true);
+    assert.equal(canViewHouseholdEvent(accepted, sibling), true);
+  });
+
+  it('tells a child when an assignment is moved away from them', () => {
+    const reassigned: HouseholdEvent = {
+      type: 'assignment.reassigned',
+      householdId,
+      occurredAt,
+      data: {
+        assignmentId: '550e8400-e29b-41d4-a716-446655440010',
+        previousChildId: childId,
+        childId: siblingId,
+        childName: 'Emma',
+      },
+    };
+
+    assert.equal(canViewHouseholdEvent(reassigned, child), true);
+    assert.equal(canViewHouseholdEvent(reassigned, { role: 'child', childId: null }), false);
+  });
+
+  it('shows caregivers assignments but not redemptions', () => {
+    assert.equal(canViewHouseholdEvent(completed(childId), caregiver), true);
+    assert.equal(canViewHouseholdEvent(redemption, caregiver), false);
+  });
+
+  it('shows parents every event', () => {
+    assert.equal(canViewHouseholdEvent(completed(childId), parent), true);
+    assert.equal(canViewHouseholdEvent(redemption, parent), true);
+    assert.equal(canViewHouseholdEvent({ ...declined, occurredAt }, parent), true);
+  });
+});
@@ -0,0 +1,194 @@
+import { EventEmitter } from 'events';
+import type Redis from 'ioredis';
+import type { HouseholdEvent } from '@st44/types';
+import { redis } from '../core/redis.js';
+import { hasPermission } from './authorization.service.js';
+import type { HouseholdRole } from '../types/database.js';
+
+/**
+ * Real-time household events
+ *
+ * Routes publish an event once their change is committed; every instance
+ * hands it to the Server-Sent Events streams of that household (see
+ * routes/household-events.ts). Events travel through Redis pub/sub so a
+ * client connected to one replica hears about changes made on another.
+ * Until the Redis subscriber is up (or when Redis is unavailable) events are
+ * only delivered to the clients of the publishing instance.
+ */
+
+const CHANNEL_PREFIX = 'household-events:';
+
+/**
+ * An event as published by a route; occurredAt is filled in
+ */
+export type HouseholdEventInput = HouseholdEvent extends infer E
+  ? E extends HouseholdEvent
+    ? Omit<E, 'occurredAt'>
+    : never
+  : never;
+
+export type HouseholdEventListener = (event: HouseholdEvent) => void;
+
+/**
+ * The member reading a stream
+ */
+export interface HouseholdEventViewer {
+  role: HouseholdRole;
+  /** Linked child profile of a child member */
+  childId: string | null;
+}
+
+/**
+ * Whether a member may see an event
+ *
+ * Parents and caregivers follow every assignment; redemptions only reach
+ * those who manage rewards. Children hear about their own assignments and
+ * redemptions, unassigned assignments, and single tasks someone accepted
+ * (the task leaves every candidate's list).
+ */
+export function canViewHouseholdEvent(
+  event: HouseholdEvent,
+  viewer: HouseholdEventViewer,
+): boolean {
+  if (
+    viewer.childId !== null &&
+    (event.data.childId === viewer.childId ||
+      (event.type === 'assignment.reassigned' && event.data.previousChildId === viewer.childId))
+  ) {
+    return true;
+  }
+
+  switch (event.type) {
+    case 'redemption.status_changed':
+      return hasPermission(viewer.role, 'rewards.manage');
+    case 'single_task.accepted':
+      return true;
+    case 'assignment.created':
+    case 'assignment.completed':
+      return event.data.childId === null || hasPermission(viewer.role, 'assignments.complete_any');
+    default:
+      return hasPermission(viewer.role, 'assignments.complete_any');
+  }
+}
+
+/**
+ * Format an event as a Server-Sent Events message
+ */
+export function toServerSentEvent(event: HouseholdEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export class HouseholdEventBus {
+  private listeners = new EventEmitter();
+  private subscriber: Redis | null = null;
+
+  constructor(private publisher: Pick<Redis, 'publish'> = redis) {
+    // One listener per open stream
+    this.listeners.setMaxListeners(0);
+  }
+
+  /**
+   * Subscribe to the events of every instance through Redis
+   */
+  async start(): Promise<void> {
+    if (this.subscriber) return;
+
+    // A connection in subscriber mode cannot run other commands
+    const subscriber = redis.duplicate();
+    subscriber.on('pmessage', (_pattern: string, _channel: string, message: string) =>
+      this.deliver(message),
+    );
+    await subscriber.connect();
+    await subscriber.psubscribe(`${CHANNEL_PREFIX}*`);
+    this.subscriber = subscriber;
+  }
+
+  async stop(): Promise<void> {
+    const subscriber = this.subscriber;
+    this.subscriber = null;
+    if (subscriber && subscriber.status !== 'end') {
+      await subscriber.quit();
+    }
+  }
+
+  /**
+   * Whether events reach the other instances
+   */
+  isDistributed(): boolean {
+    return this.subscriber?.status === 'ready';
+  }
+
+  /**
+   * Publish an event to the household's streams
+   *
+   * Never throws, so routes can publish after their work is committed.
+   */
+  async publish(input: HouseholdEventInput): Promise<void> {
+    const event = { ...input, occurredAt: new Date().toISOString() } as HouseholdEvent;
+    const message = JSON.stringify(event);
+
+    if (this.isDistributed()) {
+      try {
+        await this.publisher.publish(`${CHANNEL_PREFIX}${event.householdId}`, message);
+        return;
+      } catch (error) {
+        console.error('Failed to publish household event:', error);
+      }
+    }
+
+    this.deliver(message);
+  }
+
+  /**
+   * Listen to the events of one household
+   *
+   * @returns a function that removes the listener
+   */
+  subscribe(householdId: string, listener: HouseholdEventListener): () => void {
+    this.listeners.on(householdId, listener);
+    return () => {
+      this.listeners.off(householdId, listener);
+    };
+  }
+
+  listenerCount(householdId: string): number {
+    return this.listeners.listenerCount(householdId);
+  }
+
+  private deliver(message: string): void {
+    let event: HouseholdEvent;
+    try {
+      event = JSON.parse(message) as HouseholdEvent;
+    } catch (error) {
+      console.error('Dropped malformed household event:', error);
+      return;
+    }
+
+    for (const listener of this.listeners.listeners(event.householdId)) {
+      try {
+        (listener as HouseholdEventListener)(event);
+      } catch (error) {
+        console.error('Household event listener failed:', error);
+      }
+    }
+  }
+}
+
+let defaultBus: HouseholdEventBus | null = null;
+
+/**
+ * Shared event bus for routes and the events stream
+ */
+export function getHouseholdEventBus(): HouseholdEventBus {
+  if (!defaultBus) {
+    defaultBus = new HouseholdEventBus();
+  }
+  return defaultBus;
+}
+
+/**
+ * Publish an event on the shared bus
+ */
+export function publishHouseholdEvent(input: HouseholdEventInput): Promise<void> {
+  return getHouseholdEventBus().publish(input);
+}
@@ -9,7 +9,7 @@ import { Pool, PoolClient } from 'pg';
  * - Member listing with roles
  */
 
-export type HouseholdRole = 'admin' | 'parent' | 'child';
+export type HouseholdRole = 'admin' | 'parent' | 'caregiver' | 'child';
 
 export interface Household {
   id: string;
@@ -0,0 +1,163 @@
+import { db } from '../database.js';
+import { translate } from '../core/i18n.js';
+import { getPushNotificationService, type PushSendSummary } from './push.service.js';
+import { claimAffordableGoals } from './savings-goal.service.js';
+
+/**
+ * Push notifications for household events
+ *
+ * Each helper looks up who should be told, builds the localized message and
+ * hands it to the PushNotificationService. They never throw, so routes can
+ * call them after their own work has been committed without awaiting.
+ */
+
+const EMPTY_SUMMARY: PushSendSummary = { sent: 0, failed: 0, removed: 0 };
+
+/**
+ * Tell the candidate children of a new single task that it is up for grabs
+ */
+export async function notifySingleTaskAvailable(taskId: string): Promise<PushSendSummary> {
+  const pushService = getPushNotificationService();
+  if (!pushService.isEnabled()) {
+    return EMPTY_SUMMARY;
+  }
+
+  try {
+    const result = await db.query<{ user_id: string; task_name: string; points: number }>(
+      `SELECT c.user_id, t.name as task_name, t.points
+       FROM task_candidates tc
+       JOIN tasks t ON tc.task_id = t.id
+       JOIN children c ON tc.child_id = c.id
+       WHERE tc.task_id = $1 AND c.user_id IS NOT NULL`,
+      [taskId],
+    );
+
+    if (result.rows.length === 0) {
+      return EMPTY_SUMMARY;
+    }
+
+    const { task_name: taskName, points } = result.rows[0];
+    return await pushService.sendToUsers(
+      result.rows.map((row) => row.user_id),
+      {
+        type: 'single_task_available',
+        title: translate('notifications.single_task_available.title'),
+        body: translate('notifications.single_task_available.body', undefined, {
+          taskName,
+          points,
+        }),
+        url: '/my-tasks',
+        tag: `single-task-${taskId}`,
+      },
+    );
+  } catch (error) {
+    console.error('Failed to send single task notification:', error);
+    return EMPTY_SUMMARY;
+  }
+}
+
+/**
+ * Tell a child that a parent approved, fulfilled or rejected their redemption
+ */
+export async function notifyRedemptionStatusChanged(
+  redemptionId: string,
+): Promise<PushSendSummary> {
+  const pushService = getPushNotificationService();
+  if (!pushService.isEnabled()) {
+    return EMPTY_SUMMARY;
+  }
+
+  try {
+    const result = await db.query<{ user_id: string; status: string; reward_name: string }>(
+      `SELECT c.user_id, rr.status, r.name as reward_name
+       FROM reward_redemptions rr
+       JOIN rewards r ON rr.reward_id = r.id
+       JOIN children c ON rr.child_id = c.id
+       WHERE rr.id = $1 AND c.user_id IS NOT NULL`,
+      [redemptionId],
+    );
+
+    const row = result.rows[0];
+    if (!row || !['approved', 'fulfilled', 'rejected'].includes(row.status)) {
+      return EMPTY_SUMMARY;
+    }
+
+    return await pushService.sendToUsers([row.user_id], {
+      type: 'redemption_status',
+      title: translate(`notifications.redemption_status.${row.status}.title`),
+      body: translate(`notifications.redemption_status.${row.status}.body`, undefined, {
+        rewardName: row.reward_name,
+      }),
+      url: '/my-rewards',
+      tag: `redemption-${redemptionId}`,
+    });
+  } catch (error) {
+    console.error('Failed to send redemption notification:', error);
+    return EMPTY_SUMMARY;
+  }
+}
+
+/**
+ * Tell a child's parents about the savings goals that just came within reach
+ *
+ * Each goal is announced once; it can be announced again after dropping out
+ * of reach (the child spent or un-earmarked the points).
+ */
+export async function notifySavingsGoalsAffordable(childId: string): Promise<PushSendSummary> {
+  const pushService = getPushNotificationService();
+  if (!pushService.isEnabled()) {
+    return EMPTY_SUMMARY;
+  }
+
+  try {
+    const goalIds = await claimAffordableGoals(db, childId);
+    if (goalIds.length === 0) {
+      return EMPTY_SUMMARY;
+    }
+
+    const goals = await db.query<{
+      id: string;
+      household_id: string;
+      child_name: string;
+      reward_name: string;
+    }>(
+      `SELECT sg.id, sg.household_id, c.name AS child_name, r.name AS reward_name
+       FROM savings_goals sg
+       JOIN children c ON sg.child_id = c.id
+       JOIN rewards r ON sg.reward_id = r.id
+       WHERE sg.id = ANY($1::uuid[])`,
+      [goalIds],
+    );
+    if (goals.rows.length === 0) {
+      return EMPTY_SUMMARY;
+    }
+
+    const parents = await db.query<{ user_id: string }>(
+      `SELECT user_id FROM household_members
+       WHERE household_id = $1 AND role IN ('admin', 'parent')`,
+      [goals.rows[0].household_id],
+    );
+    const parentIds = parents.rows.map((row) => row.user_id);
+
+    const summary = { ...EMPTY_SUMMARY };
+    for (const goal of goals.rows) {
+      const result = await pushService.sendToUsers(parentIds, {
+        type: 'savings_goal_affordable',
+        title: translate('notifications.savings_goal_affordable.title'),
+        body: translate('notifications.savings_goal_affordable.body', undefined, {
+          childName: goal.child_name,
+          rewardName: goal.reward_name,
+        }),
+        url: '/rewards',
+        tag: `savings-goal-${goal.id}`,
+      });
+      summary.sent += result.sent;
+      summary.failed += result.failed;
+      summary.removed += result.removed;
+    }
+    return summary;
+  } catch (error) {
+    console.error('Failed to send savings goal notification:', error);
+    return EMPTY_SUMMARY;
+  }
+}
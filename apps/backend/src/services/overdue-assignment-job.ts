@@ -0,0 +1,103 @@
+import type { QueryResult } from 'pg';
+import { db } from '../database.js';
+import { everyMinutes, type ScheduledJob } from '../core/scheduler.js';
+
+/**
+ * Overdue sweep
+ *
+ * Every few minutes, moves assignments that are still pending after their
+ * day has ended in the household's timezone to 'overdue'. Single tasks are
+ * only swept once their deadline has passed, as they have no fixed day.
+ * Whether an overdue assignment can still be completed is up to the
+ * household's late completion policy (see utils/late-completion).
+ *
+ * Configuration via environment variables:
+ * - OVERDUE_SWEEP_ENABLED (default: true, always false when NODE_ENV=test)
+ * - OVERDUE_SWEEP_INTERVAL_MINUTES (default: 15)
+ */
+
+export const OVERDUE_SWEEP_JOB_NAME = 'overdue-assignment-sweep';
+
+export interface OverdueSweepJobConfig {
+  enabled: boolean;
+  intervalMinutes: number;
+}
+
+export interface OverdueSweepSummary {
+  overdue: number;
+}
+
+// Assignments are updated in batches so the first sweep of a large backlog stays short
+const SWEEP_BATCH_SIZE = 1000;
+
+function parseIntEnv(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * Read job configuration from environment variables
+ */
+export function getOverdueSweepJobConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): OverdueSweepJobConfig {
+  return {
+    enabled: env.NODE_ENV !== 'test' && env.OVERDUE_SWEEP_ENABLED !== 'false',
+    intervalMinutes: Math.max(parseIntEnv(env.OVERDUE_SWEEP_INTERVAL_MINUTES, 15), 1),
+  };
+}
+
+/**
+ * Mark past pending assignments as overdue
+ *
+ * Rows locked by a completion in progress are skipped and picked up on the
+ * next run if they are still pending then.
+ */
+export async function markOverdueAssignments(now: Date = new Date()): Promise<OverdueSweepSummary> {
+  const summary: OverdueSweepSummary = { overdue: 0 };
+
+  for (;;) {
+    const result: QueryResult<{ id: string }> = await db.query(
+      `UPDATE task_assignments
+       SET status = 'overdue'
+       WHERE status = 'pending'
+         AND id IN (
+           SELECT ta.id
+           FROM task_assignments ta
+           JOIN tasks t ON ta.task_id = t.id
+           JOIN households h ON ta.household_id = h.id
+           WHERE ta.status = 'pending'
+             AND ta.date < ($1::timestamptz AT TIME ZONE h.timezone)::date
+             AND (t.rule_type <> 'single' OR (t.deadline IS NOT NULL AND t.deadline < $1))
+           LIMIT $2
+           FOR UPDATE OF ta SKIP LOCKED
+         )
+       RETURNING id`,
+      [now, SWEEP_BATCH_SIZE],
+    );
+
+    summary.overdue += result.rows.length;
+    if (result.rows.length < SWEEP_BATCH_SIZE) {
+      return summary;
+    }
+  }
+}
+
+/**
+ * Create the overdue sweep job for the JobScheduler
+ */
+export function createOverdueSweepJob(
+  config: OverdueSweepJobConfig = getOverdueSweepJobConfig(),
+): ScheduledJob {
+  return {
+    name: OVERDUE_SWEEP_JOB_NAME,
+    nextRunAt: everyMinutes(config.intervalMinutes),
+    lockTtlSeconds: 5 * 60,
+    run: async () => {
+      const summary = await markOverdueAssignments();
+      if (summary.overdue > 0) {
+        console.log('Assignments marked overdue:', summary);
+      }
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import type { QueryResult } from 'pg';
+import { db } from '../database.js';
+import { dailyAt, type ScheduledJob } from '../core/scheduler.js';
+import {
+  getPhotoStorage,
+  getPhotoStorageConfig,
+  type PhotoStorage,
+} from './photo-storage.service.js';
+
+/**
+ * Completion photo purge
+ *
+ * Once a night, deletes photos older than the retention period from photo
+ * storage and clears their key, keeping the completion itself. Photos are
+ * found through photo_objects, which lists every upload, so photos of
+ * completions that were deleted (or never committed) are deleted as well;
+ * those go as soon as the upload is an hour old.
+ *
+ * Configuration via environment variables:
+ * - PHOTO_PURGE_ENABLED (default: true, always false when NODE_ENV=test)
+ * - PHOTO_PURGE_HOUR (default: 3, UTC)
+ * - PHOTO_RETENTION_DAYS (default: 30, see photo-storage.service)
+ */
+
+export const PHOTO_PURGE_JOB_NAME = 'completion-photo-purge';
+
+export interface PhotoPurgeJobConfig {
+  enabled: boolean;
+  hour: number;
+  retentionDays: number;
+}
+
+export interface PhotoPurgeSummary {
+  purged: number;
+  failed: number;
+}
+
+// Photos are deleted in batches so a large backlog does not hold one long query
+const PURGE_BATCH_SIZE = 500;
+
+// Uploads still in their completion's transaction have no committed completion yet
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+function parseIntEnv(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * Read job configuration from environment variables
+ */
+export function getPhotoPurgeJobConfig(env: NodeJS.ProcessEnv = process.env): PhotoPurgeJobConfig {
+  return {
+    enabled: env.NODE_ENV !== 'test' && env.PHOTO_PURGE_ENABLED !== 'false',
+    hour: Math.min(Math.max(parseIntEnv(env.PHOTO_PURGE_HOUR, 3), 0), 23),
+    retentionDays: getPhotoStorageConfig(env).retentionDays,
+  };
+}
+
+/**
+ * Delete photos older than the retention period and photos no completion uses
+ *
+ * A photo that cannot be deleted stays listed and is retried on the next run.
+ */
+export async function purgeExpiredPhotos(
+  retentionDays: number,
+  storage: PhotoStorage = getPhotoStorage(),
+  now: Date = new Date(),
+): Promise<PhotoPurgeSummary> {
+  const summary: PhotoPurgeSummary = { purged: 0, failed: 0 };
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  const orphanCutoff = new Date(now.getTime() - ORPHAN_GRACE_MS);
+  let lastKey: string | null = null;
+
+  for (;;) {
+    const result: QueryResult<{ key: string }> = await db.query(
+      `SELECT po.key
+       FROM photo_objects po
+       WHERE (po.uploaded_at < $1
+              OR (po.uploaded_at < $2
+                  AND NOT EXISTS (SELECT 1 FROM task_completions tc WHERE tc.photo_key = po.key)))
+         AND ($3::text IS NULL OR po.key > $3::text)
+       ORDER BY po.key
+       LIMIT $4`,
+      [cutoff, orphanCutoff, lastKey, PURGE_BATCH_SIZE],
+    );
+
+    for (const row of result.rows) {
+      try {
+        await storage.deleteObject(row.key);
+        await db.query(
+          `UPDATE task_completions
+           SET photo_key = NULL, photo_purged_at = NOW()
+           WHERE photo_key = $1`,
+          [row.key],
+        );
+        await db.query('DELETE FROM photo_objects WHERE key = $1', [row.key]);
+        summary.purged++;
+      } catch (error) {
+        summary.failed++;
+        console.error('Failed to purge completion photo:', { key: row.key, error });
+      }
+    }
+
+    if (result.rows.length < PURGE_BATCH_SIZE) {
+      return summary;
+    }
+    lastKey = result.rows[result.rows.length - 1].key;
+  }
+}
+
+/**
+ * Create the purge job for the JobScheduler
+ */
+export function createPhotoPurgeJob(
+  config: PhotoPurgeJobConfig = getPhotoPurgeJobConfig(),
+): ScheduledJob {
+  return {
+    name: PHOTO_PURGE_JOB_NAME,
+    nextRunAt: dailyAt(config.hour),
+    lockTtlSeconds: 30 * 60,
+    run: async () => {
+      const summary = await purgeExpiredPhotos(config.retentionDays);
+      if (summary.purged > 0 || summary.failed > 0) {
+        console.log('Completion photos purged:', summary);
+      }
+    },
+  };
+}
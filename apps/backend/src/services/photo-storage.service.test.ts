@@ -0,0 +1,62 @@
+/**
+ * Photo Storage Unit Tests
+ *
+ * Uses a temporary directory; no database is required.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalPhotoStorage, getPhotoStorageConfig } from './photo-storage.service.js';
+
+describe('Photo Storage', () => {
+  let directory: string;
+  let storage: LocalPhotoStorage;
+
+  before(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'photo-storage-'));
+    storage = new LocalPhotoStorage(directory);
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store, read and delete objects', async () => {
+    const photo = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+
+    await storage.putObject('household-1/completion-1.jpg', photo, 'image/jpeg');
+    assert.deepEqual(await storage.getObject('household-1/completion-1.jpg'), photo);
+
+    await storage.deleteObject('household-1/completion-1.jpg');
+    assert.equal(await storage.getObject('household-1/completion-1.jpg'), null);
+  });
+
+  it('should ignore deleting a missing object', async () => {
+    await storage.deleteObject('household-1/missing.jpg');
+  });
+
+  it('should refuse keys outside the storage directory', async () => {
+    await assert.rejects(
+      storage.putObject('../outside.jpg', Buffer.from('x'), 'image/jpeg'),
+      /Invalid photo key/,
+    );
+  });
+
+  it('should read limits from the environment', () => {
+    const config = getPhotoStorageConfig({
+      PHOTO_STORAGE_DIR: '/var/lib/diddit/photos',
+      PHOTO_MAX_BYTES: '1048576',
+      PHOTO_RETENTION_DAYS: '7',
+    });
+
+    assert.deepEqual(config, {
+      directory: '/var/lib/diddit/photos',
+      maxBytes: 1048576,
+      retentionDays: 7,
+    });
+    assert.equal(getPhotoStorageConfig({}).retentionDays, 30);
+  });
+});
@@ -0,0 +1,113 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * Photo storage for completion proofs
+ *
+ * Photos are stored as objects under a key (see buildPhotoKey). The
+ * PhotoStorage interface follows S3's object operations, so an S3-compatible
+ * bucket can replace the local filesystem via setPhotoStorage().
+ *
+ * Configuration via environment variables:
+ * - PHOTO_STORAGE_DIR (default: uploads/photos, relative to the working directory)
+ * - PHOTO_MAX_BYTES (default: 5 MB)
+ * - PHOTO_RETENTION_DAYS (default: 30)
+ */
+
+export interface PhotoStorageConfig {
+  directory: string;
+  maxBytes: number;
+  retentionDays: number;
+}
+
+/**
+ * Where photos are kept. Replaceable for other backends and tests.
+ */
+export interface PhotoStorage {
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** @returns null when there is no object under the key */
+  getObject(key: string): Promise<Buffer | null>;
+  /** Deleting a missing object is not an error */
+  deleteObject(key: string): Promise<void>;
+}
+
+function parseIntEnv(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * Read photo configuration from environment variables
+ */
+export function getPhotoStorageConfig(env: NodeJS.ProcessEnv = process.env): PhotoStorageConfig {
+  return {
+    directory: path.resolve(env.PHOTO_STORAGE_DIR || 'uploads/photos'),
+    maxBytes: Math.max(parseIntEnv(env.PHOTO_MAX_BYTES, 5 * 1024 * 1024), 1),
+    retentionDays: Math.max(parseIntEnv(env.PHOTO_RETENTION_DAYS, 30), 1),
+  };
+}
+
+/**
+ * Stores each object as a file under a root directory
+ */
+export class LocalPhotoStorage implements PhotoStorage {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Absolute path of a key; keys may not point outside the root directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+    if (!filePath.startsWith(this.directory + path.sep)) {
+      throw new Error(`Invalid photo key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async putObject(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  async getObject(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+let storageOverride: PhotoStorage | undefined;
+let defaultStorage: PhotoStorage | null = null;
+
+/**
+ * Replace the storage used by getPhotoStorage()
+ *
+ * Pass undefined to go back to the local filesystem.
+ */
+export function setPhotoStorage(storage: PhotoStorage | undefined): void {
+  storageOverride = storage;
+  defaultStorage = null;
+}
+
+/**
+ * Shared storage instance for routes and jobs
+ */
+export function getPhotoStorage(): PhotoStorage {
+  if (storageOverride) {
+    return storageOverride;
+  }
+  if (!defaultStorage) {
+    defaultStorage = new LocalPhotoStorage(getPhotoStorageConfig().directory);
+  }
+  return defaultStorage;
+}
@@ -0,0 +1,243 @@
+/**
+ * Push Service Unit Tests
+ *
+ * Delivers real VAPID-signed, encrypted messages to a local stub push
+ * service. No database or network access is required to run these tests.
+ */
+
+import { describe, it, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import webpush from 'web-push';
+import {
+  PushNotificationService,
+  createWebPushSender,
+  getPushConfig,
+  toServiceWorkerMessage,
+  type PushConfig,
+  type PushPayload,
+  type PushSender,
+} from './push.service.js';
+import type {
+  PushSubscription,
+  PushSubscriptionRepository,
+} from '../repositories/push-subscription.repository.js';
+import {
+  startStubPushService,
+  createTestBrowserSubscription,
+  type StubPushService,
+  type TestBrowserSubscription,
+} from '../test-helpers/push.ts';
+
+const payload: PushPayload = {
+  type: 'assignment_reminder',
+  title: 'Husk oppgaven din',
+  body: 'Rydd rommet er ikke gjort ennå i dag',
+  url: '/my-tasks',
+  tag: 'assignment-1',
+};
+
+function toStoredSubscription(
+  browser: TestBrowserSubscription,
+  id = 'subscription-1',
+): PushSubscription {
+  return {
+    id,
+    userId: 'user-1',
+    endpoint: browser.endpoint,
+    p256dh: browser.keys.p256dh,
+    auth: browser.keys.auth,
+    userAgent: null,
+    createdAt: '2026-01-05T10:00:00.000Z',
+    lastUsedAt: null,
+  };
+}
+
+function createMockRepository(subscriptions: PushSubscription[]) {
+  return {
+    findByUserIds: mock.fn(async () => subscriptions),
+    deleteById: mock.fn(async () => {}),
+    markUsed: mock.fn(async () => {}),
+  };
+}
+
+describe('Push Service', () => {
+  let stub: StubPushService;
+  let config: PushConfig;
+
+  before(async () => {
+    stub = await startStubPushService();
+    const keys = webpush.generateVAPIDKeys();
+    config = {
+      publicKey: keys.publicKey,
+      privateKey: keys.privateKey,
+      subject: 'mailto:test@example.com',
+      allowedHosts: [new URL(stub.url).host],
+    };
+  });
+
+  after(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    stub.setStatusCode(201);
+  });
+
+  describe('getPushConfig', () => {
+    it('should return null when VAPID keys are missing', () => {
+      assert.equal(getPushConfig({}), null);
+      assert.equal(getPushConfig({ VAPID_PUBLIC_KEY: 'public' }), null);
+    });
+
+    it('should default the subject', () => {
+      const result = getPushConfig({ VAPID_PUBLIC_KEY: 'public', VAPID_PRIVATE_KEY: 'private' });
+      assert.deepEqual(result, {
+        publicKey: 'public',
+        privateKey: 'private',
+        subject: 'mailto:noreply@diddit.com',
+        allowedHosts: [],
+      });
+    });
+
+    it('should read the allowed endpoint hosts', () => {
+      const result = getPushConfig({
+        VAPID_PUBLIC_KEY: 'public',
+        VAPID_PRIVATE_KEY: 'private',
+        PUSH_ALLOWED_HOSTS: 'localhost:9000, push-stub',
+      });
+      assert.deepEqual(result?.allowedHosts, ['localhost:9000', 'push-stub']);
+    });
+  });
+
+  describe('toServiceWorkerMessage', () => {
+    it('should produce an Angular service worker notification', () => {
+      const message = JSON.parse(toServiceWorkerMessage(payload));
+
+      assert.equal(message.notification.title, payload.title);
+      assert.equal(message.notification.body, payload.body);
+      assert.equal(message.notification.tag, 'assignment-1');
+      assert.deepEqual(message.notification.data.onActionClick.default, {
+        operation: 'navigateLastFocusedOrOpen',
+        url: '/my-tasks',
+      });
+    });
+  });
+
+  describe('createWebPushSender', () => {
+    it('should deliver an encrypted, VAPID-signed message to the endpoint', async () => {
+      const browser = createTestBrowserSubscription(`${stub.url}/push/device-1`);
+      const sender = createWebPushSender(config);
+
+      const result = await sender.send(toStoredSubscription(browser), payload);
+
+      assert.equal(result.statusCode, 201);
+      assert.equal(stub.requests.length, 1);
+
+      const request = stub.requests[0];
+      assert.equal(request.path, '/push/device-1');
+      assert.equal(request.headers['content-encoding'], 'aes128gcm');
+      assert.ok(Number(request.headers['ttl']) > 0);
+      assert.match(String(request.headers['authorization']), /^vapid t=.+, k=.+$/);
+      assert.ok(String(request.headers['authorization']).includes(config.publicKey));
+
+      const message = JSON.parse(browser.decrypt(request.body));
+      assert.equal(message.notification.title, payload.title);
+      assert.equal(message.notification.data.type, 'assignment_reminder');
+    });
+
+    it('should report the push service status code', async () => {
+      const browser = createTestBrowserSubscription(`${stub.url}/push/device-2`);
+      stub.setStatusCode(410);
+
+      const result = await createWebPushSender(config).send(toStoredSubscription(browser), payload);
+
+      assert.equal(result.statusCode, 410);
+    });
+
+    it('should refuse endpoints on hosts that are not allowed', async () => {
+      const browser = createTestBrowserSubscription(`${stub.url}/push/device-3`);
+      const sender = createWebPushSender({ ...config, allowedHosts: [] });
+
+      await assert.rejects(
+        sender.send(toStoredSubscription(browser), payload),
+        /Push endpoint must use https/,
+      );
+      assert.equal(stub.requests.length, 0);
+    });
+  });
+
+  describe('PushNotificationService', () => {
+    it('should do nothing when push is not configured', async () => {
+      const repository = createMockRepository([]);
+      const service = new PushNotificationService(
+        repository as unknown as PushSubscriptionRepository,
+        null,
+      );
+
+      const summary = await service.sendToUsers(['user-1'], payload);
+
+      assert.equal(service.isEnabled(), false);
+      assert.deepEqual(summary, { sent: 0, failed: 0, removed: 0 });
+      assert.equal(repository.findByUserIds.mock.callCount(), 0);
+    });
+
+    it('should send to every subscription and mark it used', async () => {
+      const devices = [
+        createTestBrowserSubscription(`${stub.url}/push/phone`),
+        createTestBrowserSubscription(`${stub.url}/push/tablet`),
+      ];
+      const repository = createMockRepository([
+        toStoredSubscription(devices[0], 'subscription-1'),
+        toStoredSubscription(devices[1], 'subscription-2'),
+      ]);
+      const service = new PushNotificationService(
+        repository as unknown as PushSubscriptionRepository,
+        createWebPushSender(config),
+      );
+
+      const summary = await service.sendToUsers(['user-1', 'user-1'], payload);
+
+      assert.deepEqual(summary, { sent: 2, failed: 0, removed: 0 });
+      assert.equal(stub.requests.length, 2);
+      assert.deepEqual(repository.findByUserIds.mock.calls[0].arguments[0], ['user-1']);
+      assert.equal(repository.markUsed.mock.callCount(), 2);
+    });
+
+    it('should delete subscriptions the push service reports as gone', async () => {
+      const browser = createTestBrowserSubscription(`${stub.url}/push/old-device`);
+      const repository = createMockRepository([toStoredSubscription(browser)]);
+      const service = new PushNotificationService(
+        repository as unknown as PushSubscriptionRepository,
+        createWebPushSender(config),
+      );
+      stub.setStatusCode(410);
+
+      const summary = await service.sendToUsers(['user-1'], payload);
+
+      assert.deepEqual(summary, { sent: 0, failed: 0, removed: 1 });
+      assert.equal(repository.deleteById.mock.calls[0].arguments[0], 'subscription-1');
+    });
+
+    it('should count failures without throwing', async () => {
+      const failingSender: PushSender = {
+        send: async () => {
+          throw new Error('connect ECONNREFUSED');
+        },
+      };
+      const browser = createTestBrowserSubscription(`${stub.url}/push/device`);
+      const repository = createMockRepository([toStoredSubscription(browser)]);
+      const service = new PushNotificationService(
+        repository as unknown as PushSubscriptionRepository,
+        failingSender,
+      );
+      const errorLog = mock.method(console, 'error', () => {});
+
+      const summary = await service.sendToUsers(['user-1'], payload);
+
+      errorLog.mock.restore();
+      assert.deepEqual(summary, { sent: 0, failed: 1, removed: 0 });
+      assert.equal(repository.markUsed.mock.callCount(), 0);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import webpush from 'web-push';
+import type { PushNotificationType } from '@st44/types';
+import { db } from '../database.js';
+import {
+  PushSubscriptionRepository,
+  type PushSubscription,
+} from '../repositories/push-subscription.repository.js';
+import { assertPublicPushEndpoint } from '../utils/push-endpoint.js';
+
+/**
+ * Web Push notifications (VAPID)
+ *
+ * Payloads are encrypted and signed with web-push and POSTed to each
+ * subscription's push service endpoint. Subscriptions the push service
+ * reports as gone (404/410) are deleted.
+ *
+ * Configuration via environment variables:
+ * - VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (generate with `npx web-push generate-vapid-keys`)
+ * - VAPID_SUBJECT (default: mailto:noreply@diddit.com)
+ * - PUSH_ALLOWED_HOSTS: comma-separated hosts (`host` or `host:port`) accepted
+ *   as endpoints even on http or a private address, e.g. a local stub push
+ *   service. Every other endpoint must be a public https URL.
+ *
+ * Without keys, push is disabled and every send is a no-op.
+ */
+
+export interface PushConfig {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+  /** Endpoint hosts exempt from the public https requirement */
+  allowedHosts?: string[];
+}
+
+/**
+ * Notification content delivered to the service worker
+ */
+export interface PushPayload {
+  type: PushNotificationType;
+  title: string;
+  body: string;
+  /** App path to open when the notification is clicked */
+  url?: string;
+  /** Notifications with the same tag replace each other on the device */
+  tag?: string;
+}
+
+/**
+ * Response of the push service for one delivery
+ */
+export interface PushDeliveryResult {
+  statusCode: number;
+}
+
+/**
+ * Delivers a payload to one subscription. Replaceable for tests.
+ */
+export interface PushSender {
+  send(subscription: PushSubscription, payload: PushPayload): Promise<PushDeliveryResult>;
+}
+
+export interface PushSendSummary {
+  sent: number;
+  failed: number;
+  removed: number;
+}
+
+// Notifications older than this are dropped by the push service
+const PUSH_TTL_SECONDS = 12 * 60 * 60;
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/**
+ * Read VAPID configuration from environment variables
+ *
+ * @returns The config, or null when push is not configured
+ */
+export function getPushConfig(env: NodeJS.ProcessEnv = process.env): PushConfig | null {
+  if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY) {
+    return null;
+  }
+
+  return {
+    publicKey: env.VAPID_PUBLIC_KEY,
+    privateKey: env.VAPID_PRIVATE_KEY,
+    subject: env.VAPID_SUBJECT || 'mailto:noreply@diddit.com',
+    allowedHosts: (env.PUSH_ALLOWED_HOSTS ?? '')
+      .split(',')
+      .map((host) => host.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Shape the payload the way the Angular service worker (ngsw) expects:
+ * a `notification` object whose `data.onActionClick` opens the app
+ */
+export function toServiceWorkerMessage(payload: PushPayload): string {
+  const url = payload.url ?? '/';
+  return JSON.stringify({
+    notification: {
+      title: payload.title,
+      body: payload.body,
+      icon: '/favicon.ico',
+      tag: payload.tag,
+      data: {
+        type: payload.type,
+        url,
+        onActionClick: {
+          default: { operation: 'navigateLastFocusedOrOpen', url },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Create a sender that encrypts with VAPID and delivers over HTTP(S)
+ *
+ * The request is built by web-push and sent with fetch. Endpoints are
+ * re-checked (including DNS) before each delivery and redirects are not
+ * followed, so only public push services or allowed hosts are reached.
+ */
+export function createWebPushSender(config: PushConfig): PushSender {
+  return {
+    async send(subscription, payload) {
+      await assertPublicPushEndpoint(subscription.endpoint, config.allowedHosts);
+
+      const request = webpush.generateRequestDetails(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        toServiceWorkerMessage(payload),
+        {
+          vapidDetails: {
+            subject: config.subject,
+            publicKey: config.publicKey,
+            privateKey: config.privateKey,
+          },
+          TTL: PUSH_TTL_SECONDS,
+          contentEncoding: 'aes128gcm',
+        },
+      );
+
+      const response = await fetch(request.endpoint, {
+        method: request.method,
+        headers: request.headers as Record<string, string>,
+        body: request.body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      return { statusCode: response.status };
+    },
+  };
+}
+
+export class PushNotificationService {
+  constructor(
+    private repository: PushSubscriptionRepository,
+    private sender: PushSender | null,
+  ) {}
+
+  /**
+   * Whether notifications are actually delivered
+   */
+  isEnabled(): boolean {
+    return this.sender !== null;
+  }
+
+  /**
+   * Send a notification to every subscribed device of the given users
+   *
+   * Never throws: delivery problems are counted and logged so callers can
+   * fire-and-forget after their own work has succeeded.
+   */
+  async sendToUsers(userIds: string[], payload: PushPayload): Promise<PushSendSummary> {
+    const summary: PushSendSummary = { sent: 0, failed: 0, removed: 0 };
+    if (!this.sender || userIds.length === 0) {
+      return summary;
+    }
+
+    let subscriptions: PushSubscription[];
+    try {
+      subscriptions = await this.repository.findByUserIds([...new Set(userIds)]);
+    } catch (error) {
+      console.error('Failed to load push subscriptions:', error);
+      return summary;
+    }
+
+    for (const subscription of subscriptions) {
+      try {
+        const { statusCode } = await this.sender.send(subscription, payload);
+
+        if (statusCode === 404 || statusCode === 410) {
+          // Subscription expired or was revoked in the browser
+          await this.repository.deleteById(subscription.id);
+          summary.removed++;
+        } else if (statusCode >= 200 && statusCode < 300) {
+          await this.repository.markUsed(subscription.id);
+          summary.sent++;
+        } else {
+          summary.failed++;
+          console.warn(`Push delivery failed with status ${statusCode}`, {
+            subscriptionId: subscription.id,
+          });
+        }
+      } catch (error) {
+        summary.failed++;
+        console.error('Push delivery failed:', error);
+      }
+    }
+
+    return summary;
+  }
+}
+
+let pushSenderOverride: PushSender | null | undefined;
+let defaultService: PushNotificationService | null = null;
+
+/**
+ * Replace the sender used by getPushNotificationService()
+ *
+ * Pass undefined to go back to the configured VAPID sender.
+ */
+export function setPushSender(sender: PushSender | null | undefined): void {
+  pushSenderOverride = sender;
+  defaultService = null;
+}
+
+/**
+ * Shared service instance for routes and jobs
+ */
+export function getPushNotificationService(): PushNotificationService {
+  if (!defaultService) {
+    const config = getPushConfig();
+    const sender =
+      pushSenderOverride !== undefined
+        ? pushSenderOverride
+        : config
+          ? createWebPushSender(config)
+          : null;
+    defaultService = new PushNotificationService(new PushSubscriptionRepository(db), sender);
+  }
+  return defaultService;
+}
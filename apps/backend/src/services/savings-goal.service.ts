@@ -0,0 +1,108 @@
+import type { Pool, PoolClient } from 'pg';
+import type { SavingsGoal } from '@st44/types';
+import { SavingsGoalRepository } from '../repositories/savings-goal.repository.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import { PointsTransactionRepository } from '../repositories/points-transaction.repository.js';
+import {
+  EARNING_RATE_WINDOW_DAYS,
+  calculateSavingsGoalProgress,
+  getDailyEarningRate,
+  getEarmarkedTotal,
+} from '../utils/savings-goals.js';
+import { addDays, getLocalToday } from '../utils/timezone.js';
+
+/**
+ * Savings goals
+ *
+ * A child's goals with their progress towards the reward and an estimate of
+ * when it can be afforded, from what the child earned with approved
+ * completions over the last weeks.
+ */
+
+type DbExecutor = Pool | PoolClient;
+
+export interface ChildSavings {
+  pointsBalance: number;
+  earmarkedPoints: number;
+  /** Balance minus earmarked points: what rewards that are not goals can spend */
+  availablePoints: number;
+  goals: SavingsGoal[];
+}
+
+/**
+ * Points from the child's approved completions over the rate window
+ */
+async function getRecentPointsEarned(db: DbExecutor, childId: string): Promise<number> {
+  const result = await db.query<{ points: number }>(
+    `SELECT COALESCE(SUM(points_earned), 0)::int AS points
+     FROM task_completions
+     WHERE child_id = $1 AND approval_status = 'approved'
+       AND completed_at >= NOW() - make_interval(days => $2)`,
+    [childId, EARNING_RATE_WINDOW_DAYS],
+  );
+
+  return result.rows[0]?.points ?? 0;
+}
+
+/**
+ * A child's balance and goals with their progress
+ */
+export async function getChildSavings(
+  db: DbExecutor,
+  childId: string,
+  householdId: string,
+): Promise<ChildSavings> {
+  const pointsBalance = await new PointsTransactionRepository(db).getBalance(childId);
+  const records = await new SavingsGoalRepository(db).findByChild(childId);
+  const earmarkedPoints = getEarmarkedTotal(records);
+
+  let goals: SavingsGoal[] = [];
+  if (records.length > 0) {
+    const dailyRate = getDailyEarningRate(await getRecentPointsEarned(db, childId));
+    const today = getLocalToday(await new HouseholdRepository(db).getTimezone(householdId));
+
+    goals = records.map((record) => {
+      const progress = calculateSavingsGoalProgress(pointsBalance, records, record, dailyRate);
+      return {
+        id: record.id,
+        householdId: record.householdId,
+        childId: record.childId,
+        rewardId: record.rewardId,
+        rewardName: record.rewardName,
+        pointsCost: record.pointsCost,
+        earmarkedPoints: record.earmarkedPoints,
+        ...progress,
+        estimatedDate:
+          progress.estimatedDays === null ? null : addDays(today, progress.estimatedDays),
+        createdAt: record.createdAt,
+      };
+    });
+  }
+
+  return {
+    pointsBalance,
+    earmarkedPoints,
+    availablePoints: Math.max(pointsBalance - earmarkedPoints, 0),
+    goals,
+  };
+}
+
+/**
+ * Record which of a child's goals just came within reach
+ *
+ * @returns ids of the goals the parents have not been told about yet
+ */
+export async function claimAffordableGoals(db: DbExecutor, childId: string): Promise<string[]> {
+  const goals = new SavingsGoalRepository(db);
+  const pointsBalance = await new PointsTransactionRepository(db).getBalance(childId);
+  const records = await goals.findByChild(childId);
+
+  const affordable = records.filter(
+    (record) => calculateSavingsGoalProgress(pointsBalance, records, record, 0).canAfford,
+  );
+
+  return goals.markAffordable(
+    childId,
+    affordable.map((record) => record.id),
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Session Service
+ *
+ * Refresh tokens belong to a server-side session (one per sign-in). Each
+ * /refresh rotates the token; the session only accepts the token it issued
+ * last. Presenting an older token means it was copied, so the whole session
+ * is revoked and every holder has to sign in again.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { FastifyRequest } from 'fastify';
+import type { Pool, PoolClient } from 'pg';
+import { UserSessionRepository } from '../repositories/user-session.repository.js';
+import { verifyRefreshToken } from '../utils/jwt.js';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
+
+/**
+ * How long a session stays valid without a refresh
+ */
+const SESSION_TTL_DAYS = 7;
+
+/**
+ * Where a session was signed in from, shown in the session list
+ */
+export interface SessionClientInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface IssuedSession {
+  sessionId: string;
+  refreshToken: string;
+}
+
+export type RefreshSessionResult =
+  | ({ status: 'rotated'; userId: string } & IssuedSession)
+  | { status: 'reused'; userId: string; sessionId: string }
+  | { status: 'invalid' };
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function sessionExpiry(): Date {
+  return new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Sign a refresh token for a session (jti keeps tokens issued in the same second distinct)
+ */
+function signRefreshToken(userId: string, sessionId: string): string {
+  return jwt.sign({ userId, sessionId, type: 'refresh', jti: crypto.randomUUID() }, JWT_SECRET, {
+    expiresIn: `${SESSION_TTL_DAYS}d`,
+  });
+}
+
+/**
+ * Start a session for a successful sign-in and issue its first refresh token
+ */
+export async function startSession(
+  db: Pool | PoolClient,
+  userId: string,
+  client: SessionClientInfo = {},
+): Promise<IssuedSession> {
+  const sessionId = crypto.randomUUID();
+  const refreshToken = signRefreshToken(userId, sessionId);
+
+  await new UserSessionRepository(db).create({
+    id: sessionId,
+    userId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: sessionExpiry(),
+    userAgent: client.userAgent?.slice(0, 500) ?? null,
+    ipAddress: client.ipAddress?.slice(0, 45) ?? null,
+  });
+
+  return { sessionId, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for the next one of its session
+ *
+ * Tokens that are malformed, expired, issued before sessions existed or
+ * belong to a revoked session are invalid. A validly signed token that is
+ * not the session's latest revokes the session.
+ */
+export async function refreshSession(
+  db: Pool | PoolClient,
+  refreshToken: string,
+): Promise<RefreshSessionResult> {
+  const { valid, payload } = verifyRefreshToken(refreshToken, JWT_SECRET);
+  if (!valid || !payload?.sessionId) {
+    return { status: 'invalid' };
+  }
+
+  const sessions = new UserSessionRepository(db);
+  const session = await sessions.findById(payload.sessionId);
+
+  if (
+    !session ||
+    session.userId !== payload.userId ||
+    session.revokedAt ||
+    Date.parse(session.expiresAt) <= Date.now()
+  ) {
+    return { status: 'invalid' };
+  }
+
+  const nextToken = signRefreshToken(session.userId, session.id);
+  const rotated = await sessions.rotate(
+    session.id,
+    hashToken(refreshToken),
+    hashToken(nextToken),
+    sessionExpiry(),
+  );
+
+  if (!rotated) {
+    await sessions.revoke(session.id, 'reuse');
+    return { status: 'reused', userId: session.userId, sessionId: session.id };
+  }
+
+  return {
+    status: 'rotated',
+    userId: session.userId,
+    sessionId: session.id,
+    refreshToken: nextToken,
+  };
+}
+
+/**
+ * Client details of a sign-in request
+ */
+export function getSessionClientInfo(request: FastifyRequest): SessionClientInfo {
+  return {
+    userAgent: request.headers['user-agent'] ?? null,
+    ipAddress: request.ip ?? null,
+  };
+}
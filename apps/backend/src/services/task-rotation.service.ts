@@ -0,0 +1,84 @@
+import type { Pool, PoolClient } from 'pg';
+import type { RotationPreviewEntry } from '@st44/types';
+import { AssignmentRepository } from '../repositories/assignment.repository.js';
+import { ChildRepository } from '../repositories/child.repository.js';
+import { ChildAbsenceRepository } from '../repositories/child-absence.repository.js';
+import { TaskRotationRepository } from '../repositories/task-rotation.repository.js';
+import { rotate, type RotationPeriod } from '../utils/rotation.js';
+import { createAvailability } from '../utils/absence.js';
+import { addDays } from '../utils/timezone.js';
+
+/**
+ * Round-robin rotation preview
+ *
+ * Dates the generator already covered are shown as their assignments; later
+ * dates are predicted from the persisted cursor exactly as the generator
+ * will assign them.
+ */
+
+export interface RoundRobinTask {
+  id: string;
+  householdId: string;
+  assignedChildren: string[];
+  rotationPeriod: RotationPeriod;
+}
+
+/**
+ * Who does a round-robin task on each day from startDate
+ */
+export async function previewRotation(
+  db: Pool | PoolClient,
+  task: RoundRobinTask,
+  startDate: string,
+  days: number,
+): Promise<RotationPreviewEntry[]> {
+  const endDate = addDays(startDate, days - 1);
+  const cursor = await new TaskRotationRepository(db).findCursor(task.id);
+  const entries: RotationPreviewEntry[] = [];
+
+  if (cursor && cursor.lastDate >= startDate) {
+    const generatedUntil = cursor.lastDate < endDate ? cursor.lastDate : endDate;
+    const assignments = await new AssignmentRepository(db).findByHousehold(
+      task.householdId,
+      startDate,
+      generatedUntil,
+      { taskId: task.id },
+    );
+
+    for (const assignment of assignments) {
+      entries.push({
+        date: assignment.date,
+        childId: assignment.childId,
+        childName: assignment.childName,
+        generated: true,
+      });
+    }
+  }
+
+  const children = await new ChildRepository(db).findByHousehold(task.householdId);
+  const names = new Map(children.map((child) => [child.id, child.name]));
+  const absences = await new ChildAbsenceRepository(db).findByHousehold(
+    task.householdId,
+    startDate,
+    endDate,
+  );
+  const dates = Array.from({ length: days }, (_, i) => addDays(startDate, i));
+  const { turns } = rotate(
+    task.assignedChildren,
+    dates,
+    task.rotationPeriod,
+    cursor,
+    createAvailability(absences),
+  );
+
+  for (const turn of turns) {
+    entries.push({
+      date: turn.date,
+      childId: turn.childId,
+      childName: turn.childId ? (names.get(turn.childId) ?? null) : null,
+      generated: false,
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,335 @@
+import type { Pool, PoolClient } from 'pg';
+import {
+  TaskRuleConfigSchema,
+  type TaskRuleConfig,
+  type TaskRuleType,
+  type TaskTemplate,
+  type TaskSuggestionsResponse,
+} from '@st44/types';
+import { SUPPORTED_LANGUAGES, translate, type SupportedLanguage } from '../core/i18n.js';
+import { ChildRepository } from '../repositories/child.repository.js';
+import { HouseholdRepository } from '../repositories/household.repository.js';
+import {
+  TaskTemplateRepository,
+  type HouseholdTaskTemplate,
+} from '../repositories/task-template.repository.js';
+import { uuidSchema } from '../schemas/validation.js';
+import type { TaskRow } from '../types/database.js';
+import { addDays, getLocalToday } from '../utils/timezone.js';
+import { rankTaskSuggestions, type SuggestionCandidate } from '../utils/task-suggestions.js';
+
+/**
+ * Task templates
+ *
+ * The built-in catalogue is defined here and translated per request from the
+ * taskTemplates.<id> keys in the locale files; households add their own
+ * templates by saving an existing task.
+ */
+
+interface BuiltinTaskTemplate {
+  id: string;
+  points: number;
+  ruleType: TaskRuleType;
+  ruleConfig: TaskRuleConfig;
+  minAge: number | null;
+  maxAge: number | null;
+}
+
+/**
+ * Days of past assignments that make up a child's recent completion rate
+ */
+const COMPLETION_RATE_DAYS = 30;
+
+/**
+ * Fewer past assignments than this say too little about a child to use
+ */
+const MIN_ASSIGNMENTS_FOR_RATE = 5;
+
+/**
+ * Built-in templates, in the order they are listed
+ * Interval templates get their startDate when a task is created from them
+ */
+const BUILTIN_TASK_TEMPLATES: readonly BuiltinTaskTemplate[] = [
+  { id: 'make_bed', points: 5, ruleType: 'daily', ruleConfig: null, minAge: 4, maxAge: null },
+  { id: 'set_table', points: 5, ruleType: 'daily', ruleConfig: null, minAge: 5, maxAge: 12 },
+  {
+    id: 'empty_dishwasher',
+    points: 10,
+    ruleType: 'weekly_rotation',
+    ruleConfig: { rotationType: 'round_robin', rotationPeriod: 'daily' },
+    minAge: 8,
+    maxAge: null,
+  },
+  {
+    id: 'feed_pet',
+    points: 5,
+    ruleType: 'weekly_rotation',
+    ruleConfig: { rotationType: 'round_robin', rotationPeriod: 'daily' },
+    minAge: 6,
+    maxAge: null,
+  },
+  {
+    id: 'walk_dog',
+    points: 15,
+    ruleType: 'weekly_rotation',
+    ruleConfig: { rotationType: 'round_robin', rotationPeriod: 'weekly' },
+    minAge: 10,
+    maxAge: null,
+  },
+  {
+    id: 'water_plants',
+    points: 5,
+    ruleType: 'interval',
+    ruleConfig: { interval: 3, intervalUnit: 'days' },
+    minAge: 5,
+    maxAge: 14,
+  },
+  {
+    id: 'take_out_trash',
+    points: 10,
+    ruleType: 'repeating',
+    ruleConfig: { repeatDays: [1, 4] },
+    minAge: 9,
+    maxAge: null,
+  },
+  {
+    id: 'tidy_room',
+    points: 15,
+    ruleType: 'repeating',
+    ruleConfig: { repeatDays: [6] },
+    minAge: 5,
+    maxAge: null,
+  },
+  {
+    id: 'fold_laundry',
+    points: 15,
+    ruleType: 'repeating',
+    ruleConfig: { repeatDays: [0] },
+    minAge: 8,
+    maxAge: null,
+  },
+  {
+    id: 'vacuum',
+    points: 20,
+    ruleType: 'repeating',
+    ruleConfig: { repeatDays: [3] },
+    minAge: 10,
+    maxAge: null,
+  },
+  {
+    id: 'change_bedsheets',
+    points: 20,
+    ruleType: 'monthly',
+    ruleConfig: { dayOfMonth: 1 },
+    minAge: 11,
+    maxAge: null,
+  },
+  {
+    id: 'clean_bathroom',
+    points: 25,
+    ruleType: 'monthly',
+    ruleConfig: { weekOfMonth: 1, dayOfWeek: 6 },
+    minAge: 12,
+    maxAge: null,
+  },
+];
+
+function localizeBuiltinTemplate(
+  template: BuiltinTaskTemplate,
+  language: SupportedLanguage,
+): TaskTemplate {
+  return {
+    id: template.id,
+    source: 'builtin',
+    name: translate(`taskTemplates.${template.id}.name`, language),
+    description: translate(`taskTemplates.${template.id}.description`, language),
+    points: template.points,
+    ruleType: template.ruleType,
+    ruleConfig: template.ruleConfig,
+    minAge: template.minAge,
+    maxAge: template.maxAge,
+  };
+}
+
+function toTaskTemplate(template: HouseholdTaskTemplate): TaskTemplate {
+  return {
+    id: template.id,
+    source: 'household',
+    name: template.name,
+    description: template.description,
+    points: template.points,
+    ruleType: template.ruleType,
+    ruleConfig: template.ruleConfig,
+    minAge: template.minAge,
+    maxAge: template.maxAge,
+  };
+}
+
+/**
+ * The part of a task's rule config worth keeping in a template: who does the
+ * task, when it starts and its deadline are decided per task
+ */
+export function toTemplateRuleConfig(ruleConfig: TaskRuleConfig): TaskRuleConfig {
+  if (!ruleConfig) return null;
+
+  const {
+    assignedChildren: _assignedChildren,
+    startDate: _startDate,
+    deadline: _deadline,
+    ...rest
+  } = ruleConfig;
+  return Object.keys(rest).length > 0 ? rest : null;
+}
+
+/**
+ * Built-in templates followed by the household's own
+ */
+export async function listTaskTemplates(
+  db: Pool | PoolClient,
+  householdId: string,
+  language: SupportedLanguage,
+): Promise<TaskTemplate[]> {
+  const householdTemplates = await new TaskTemplateRepository(db).findByHousehold(householdId);
+
+  return [
+    ...BUILTIN_TASK_TEMPLATES.map((template) => localizeBuiltinTemplate(template, language)),
+    ...householdTemplates.map(toTaskTemplate),
+  ];
+}
+
+/**
+ * Find a built-in template by id, or one of the household's by uuid
+ */
+export async function findTaskTemplate(
+  db: Pool | PoolClient,
+  householdId: string,
+  templateId: string,
+  language: SupportedLanguage,
+): Promise<TaskTemplate | null> {
+  const builtin = BUILTIN_TASK_TEMPLATES.find((template) => template.id === templateId);
+  if (builtin) {
+    return localizeBuiltinTemplate(builtin, language);
+  }
+
+  if (!uuidSchema.safeParse(templateId).success) {
+    return null;
+  }
+
+  const template = await new TaskTemplateRepository(db).findById(templateId, householdId);
+  return template ? toTaskTemplate(template) : null;
+}
+
+/**
+ * Save a task of the household as a household template
+ *
+ * @returns null when the task does not exist in the household
+ */
+export async function saveTaskAsTemplate(
+  db: Pool | PoolClient,
+  householdId: string,
+  taskId: string,
+  options: { minAge?: number | null; maxAge?: number | null; createdBy?: string },
+): Promise<TaskTemplate | null> {
+  const result = await db.query<
+    Pick<TaskRow, 'name' | 'description' | 'points' | 'rule_type' | 'rule_config'>
+  >(
+    `SELECT name, description, points, rule_type, rule_config
+     FROM tasks WHERE id = $1 AND household_id = $2`,
+    [taskId, householdId],
+  );
+
+  if (result.rows.length === 0) return null;
+  const task = result.rows[0];
+  // Tasks store their rule config in the API's camelCase shape
+  const ruleConfig = TaskRuleConfigSchema.safeParse(task.rule_config);
+
+  const template = await new TaskTemplateRepository(db).create({
+    householdId,
+    name: task.name,
+    description: task.description,
+    points: task.points,
+    ruleType: task.rule_type,
+    ruleConfig: toTemplateRuleConfig(ruleConfig.success ? ruleConfig.data : null),
+    minAge: options.minAge,
+    maxAge: options.maxAge,
+    createdBy: options.createdBy,
+  });
+
+  return toTaskTemplate(template);
+}
+
+/**
+ * Suggest templates for a child, ranked by age fit, the chores the child
+ * already has and their completion history
+ *
+ * @returns null when the child does not exist in the household
+ */
+export async function suggestTaskTemplates(
+  db: Pool | PoolClient,
+  householdId: string,
+  childId: string,
+  language: SupportedLanguage,
+  limit: number,
+): Promise<TaskSuggestionsResponse | null> {
+  const child = await new ChildRepository(db).findByIdAndHousehold(childId, householdId);
+  if (!child) return null;
+
+  const today = getLocalToday(await new HouseholdRepository(db).getTimezone(householdId));
+  const age = child.birthYear ? Number(today.slice(0, 4)) - child.birthYear : null;
+
+  // Tasks the child rotates through or may accept as a single task
+  const current = await db.query<{ name: string }>(
+    `SELECT DISTINCT t.name
+     FROM tasks t
+     LEFT JOIN task_candidates tc ON tc.task_id = t.id AND tc.child_id = $2
+     WHERE t.household_id = $1 AND t.active = true
+       AND (COALESCE(t.rule_config->'assignedChildren', '[]'::jsonb) ? $2::text
+            OR tc.child_id IS NOT NULL)`,
+    [householdId, childId],
+  );
+
+  const completed = await db.query<{ name: string; completions: number }>(
+    `SELECT t.name, COUNT(*)::int AS completions
+     FROM task_completions c
+     JOIN task_assignments a ON a.id = c.task_assignment_id
+     JOIN tasks t ON t.id = a.task_id
+     WHERE c.household_id = $1 AND c.child_id = $2 AND c.approval_status <> 'rejected'
+     GROUP BY t.name`,
+    [householdId, childId],
+  );
+
+  const recent = await db.query<{ completed: number; total: number }>(
+    `SELECT COUNT(*) FILTER (WHERE status = 'completed')::int AS completed,
+            COUNT(*)::int AS total
+     FROM task_assignments
+     WHERE household_id = $1 AND child_id = $2 AND date >= $3 AND date < $4`,
+    [householdId, childId, addDays(today, -COMPLETION_RATE_DAYS), today],
+  );
+  const { completed: recentCompleted, total: recentTotal } = recent.rows[0];
+
+  const householdTemplates = await new TaskTemplateRepository(db).findByHousehold(householdId);
+  const candidates: SuggestionCandidate[] = [
+    ...BUILTIN_TASK_TEMPLATES.map((template) => ({
+      template: localizeBuiltinTemplate(template, language),
+      names: SUPPORTED_LANGUAGES.map((lng) => translate(`taskTemplates.${template.id}.name`, lng)),
+    })),
+    ...householdTemplates.map((template) => ({
+      template: toTaskTemplate(template),
+      names: [template.name],
+    })),
+  ];
+
+  const suggestions = rankTaskSuggestions(
+    candidates,
+    {
+      age,
+      currentTaskNames: current.rows.map((row) => row.name),
+      completionsByTaskName: new Map(completed.rows.map((row) => [row.name, row.completions])),
+      completionRate:
+        recentTotal >= MIN_ASSIGNMENTS_FOR_RATE ? recentCompleted / recentTotal : null,
+    },
+    limit,
+  );
+
+  return { childId, age, suggestions };
+}
@@ -114,7 +114,7 @@ describe('TaskService', () => {
 
       const errors = service.validateTaskRules(data);
       assert.strictEqual(errors.length, 1, 'Should have one validation error');
-      assert.ok(errors[0].message.includes('must be odd_even_week or alternating'));
+      assert.ok(errors[0].message.includes('must be odd_even_week, alternating or round_robin'));
     });
 
     test('validates repeating requires repeatDays', () => {
@@ -178,6 +178,42 @@ describe('TaskService', () => {
         'Should have no validation errors for daily with null config',
       );
     });
+
+    test('validates interval requires interval and startDate', () => {
+      const data: TaskData = {
+        name: 'Interval Task',
+        ruleType: 'interval',
+        ruleConfig: { intervalUnit: 'weeks' },
+      };
+
+      const errors = service.validateTaskRules(data);
+      assert.deepStrictEqual(
+        errors.map((e) => e.field),
+        ['ruleConfig.interval', 'ruleConfig.startDate'],
+      );
+    });
+
+    test('validates monthly with nth weekday', () => {
+      const data: TaskData = {
+        name: 'Monthly Task',
+        ruleType: 'monthly',
+        ruleConfig: { weekOfMonth: -1, dayOfWeek: 0 },
+      };
+
+      assert.strictEqual(service.validateTaskRules(data).length, 0);
+    });
+
+    test('validates monthly requires a day', () => {
+      const data: TaskData = {
+        name: 'Monthly Task',
+        ruleType: 'monthly',
+        ruleConfig: { weekOfMonth: 2 },
+      };
+
+      const errors = service.validateTaskRules(data);
+      assert.strictEqual(errors.length, 1);
+      assert.ok(errors[0].message.includes('monthly'));
+    });
   });
 
   // ==================== validateChildrenBelongToHousehold ====================
@@ -10,12 +10,25 @@ import { Pool, PoolClient } from 'pg';
  * - Child validation for task assignments
  */
 
-export type RuleType = 'weekly_rotation' | 'repeating' | 'daily' | 'single';
+export type RuleType =
+  | 'weekly_rotation'
+  | 'repeating'
+  | 'daily'
+  | 'single'
+  | 'interval'
+  | 'monthly';
 
 export interface RuleConfig {
-  rotationType?: 'odd_even_week' | 'alternating';
+  rotationType?: 'odd_even_week' | 'alternating' | 'round_robin';
+  rotationPeriod?: 'daily' | 'weekly' | 'occurrence';
   repeatDays?: number[];
   assignedChildren?: string[];
+  interval?: number;
+  intervalUnit?: 'days' | 'weeks';
+  startDate?: string;
+  dayOfMonth?: number;
+  weekOfMonth?: number;
+  dayOfWeek?: number;
 }
 
 export interface TaskData {
@@ -76,12 +89,26 @@ function normalizeRuleConfig(ruleConfig: unknown): RuleConfig | null {
 
   const obj = value as Record<string, unknown>;
   const rotationType = (obj.rotationType ?? obj['rotation_type']) as unknown;
+  const rotationPeriod = (obj.rotationPeriod ?? obj['rotation_period']) as unknown;
   const repeatDays = (obj.repeatDays ?? obj['repeat_days']) as unknown;
   const assignedChildren = (obj.assignedChildren ?? obj['assigned_children']) as unknown;
+  const interval = obj.interval as unknown;
+  const intervalUnit = (obj.intervalUnit ?? obj['interval_unit']) as unknown;
+  const startDate = (obj.startDate ?? obj['start_date']) as unknown;
+  const dayOfMonth = (obj.dayOfMonth ?? obj['day_of_month']) as unknown;
+  const weekOfMonth = (obj.weekOfMonth ?? obj['week_of_month']) as unknown;
+  const dayOfWeek = (obj.dayOfWeek ?? obj['day_of_week']) as unknown;
 
   const normalized: RuleConfig = {};
   if (typeof rotationType === 'string') {
-    normalized.rotationType = rotationType as 'odd_even_week' | 'alternating';
+    normalized.rotationType = rotationType as 'odd_even_week' | 'alternating' | 'round_robin';
+  }
+  if (
+    rotationPeriod === 'daily' ||
+    rotationPeriod === 'weekly' ||
+    rotationPeriod === 'occurrence'
+  ) {
+    normalized.rotationPeriod = rotationPeriod;
   }
   if (Array.isArray(repeatDays)) {
     normalized.repeatDays = repeatDays as number[];
@@ -89,6 +116,24 @@ function normalizeRuleConfig(ruleConfig: unknown): RuleConfig | null {
   if (Array.isArray(assignedChildren)) {
     normalized.assignedChildren = assignedChildren as string[];
   }
+  if (typeof interval === 'number') {
+    normalized.interval = interval;
+  }
+  if (intervalUnit === 'days' || intervalUnit === 'weeks') {
+    normalized.intervalUnit = intervalUnit;
+  }
+  if (typeof startDate === 'string') {
+    normalized.startDate = startDate;
+  }
+  if (typeof dayOfMonth === 'number') {
+    normalized.dayOfMonth = dayOfMonth;
+  }
+  if (typeof weekOfMonth === 'number') {
+    normalized.weekOfMonth = weekOfMonth;
+  }
+  if (typeof dayOfWeek === 'number') {
+    normalized.dayOfWeek = dayOfWeek;
+  }
 
   return normalized;
 }
@@ -144,12 +189,13 @@ export class TaskService {
       if (!config.rotationType) {
         errors.push({
           field: 'ruleConfig.rotationType',
-          message: 'rotationType required for weekly_rotation (odd_even_week or alternating)',
+          message:
+            'rotationType required for weekly_rotation (odd_even_week, alternating or round_robin)',
         });
-      } else if (!['odd_even_week', 'alternating'].includes(config.rotationType)) {
+      } else if (!['odd_even_week', 'alternating', 'round_robin'].includes(config.rotationType)) {
         errors.push({
           field: 'ruleConfig.rotationType',
-          message: 'rotationType must be odd_even_week or alternating',
+          message: 'rotationType must be odd_even_week, alternating or round_robin',
         });
       }
 
@@ -178,6 +224,31 @@ export class TaskService {
 
     // Daily tasks have no specific validation requirements
 
+    if (data.ruleType === 'interval') {
+      if (!config.interval || config.interval < 1) {
+        errors.push({
+          field: 'ruleConfig.interval',
+          message: 'interval required for interval tasks (a positive number)',
+        });
+      }
+      if (!config.startDate) {
+        errors.push({
+          field: 'ruleConfig.startDate',
+          message: 'startDate required for interval tasks',
+        });
+      }
+    }
+
+    if (data.ruleType === 'monthly') {
+      const byWeekday = config.weekOfMonth !== undefined && config.dayOfWeek !== undefined;
+      if (config.dayOfMonth === undefined && !byWeekday) {
+        errors.push({
+          field: 'ruleConfig',
+          message: 'dayOfMonth or weekOfMonth with dayOfWeek required for monthly tasks',
+        });
+      }
+    }
+
     if (data.ruleType === 'single') {
       // Assigned children required (at least one candidate)
       if (!config.assignedChildren || config.assignedChildren.length < 1) {
@@ -52,6 +52,7 @@ export async function setupTestDatabase(): Promise<pg.Pool> {
  * (child tables first, then parent tables)
  */
 const CLEANUP_TABLES = [
+  'points_transactions',
   'task_completions',
   'task_assignments',
   'tasks',
@@ -150,3 +150,12 @@ export {
   type ChildTestData,
   type TaskTestData,
 } from './generators.ts';
+
+// Web Push utilities
+export {
+  startStubPushService,
+  createTestBrowserSubscription,
+  type StubPushService,
+  type StubPushRequest,
+  type TestBrowserSubscription,
+} from './push.ts';
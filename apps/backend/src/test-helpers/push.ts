@@ -0,0 +1,124 @@
+/**
+ * Web Push Test Utilities
+ *
+ * A local stand-in for a browser push service (FCM, Mozilla autopush, ...)
+ * plus a browser-side subscription that can decrypt what it receives, so
+ * push delivery can be tested end to end without network access.
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import { createECDH, createHmac, createDecipheriv, randomBytes } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+
+/**
+ * A request received by the stub push service
+ */
+export interface StubPushRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export interface StubPushService {
+  /** Base URL, e.g. http://127.0.0.1:54321 */
+  url: string;
+  /** Requests received so far */
+  requests: StubPushRequest[];
+  /** Status code returned for subsequent requests (default: 201) */
+  setStatusCode: (statusCode: number) => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * Browser-side push subscription with its private keys
+ */
+export interface TestBrowserSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+  /** Decrypt an aes128gcm request body sent to this subscription */
+  decrypt: (body: Buffer) => string;
+}
+
+/**
+ * Start a local HTTP server that accepts push messages like a push service
+ */
+export async function startStubPushService(): Promise<StubPushService> {
+  const requests: StubPushRequest[] = [];
+  let statusCode = 201;
+
+  const server: Server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({ path: req.url ?? '/', headers: req.headers, body: Buffer.concat(chunks) });
+      res.statusCode = statusCode;
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    setStatusCode: (code) => {
+      statusCode = code;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function hmac(key: Buffer, data: Buffer): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Create a subscription the way a browser does (P-256 key pair + auth secret)
+ *
+ * @param endpoint - Push endpoint URL, usually on a StubPushService
+ */
+export function createTestBrowserSubscription(endpoint: string): TestBrowserSubscription {
+  const ecdh = createECDH('prime256v1');
+  const publicKey = ecdh.generateKeys();
+  const authSecret = randomBytes(16);
+
+  // RFC 8291 (Message Encryption for Web Push) with RFC 8188 aes128gcm framing
+  const decrypt = (body: Buffer): string => {
+    const salt = body.subarray(0, 16);
+    const idLength = body.readUInt8(20);
+    const serverPublicKey = body.subarray(21, 21 + idLength);
+    const ciphertext = body.subarray(21 + idLength);
+
+    const sharedSecret = ecdh.computeSecret(serverPublicKey);
+    const keyInfo = Buffer.concat([
+      Buffer.from('WebPush: info\0'),
+      publicKey,
+      serverPublicKey,
+      Buffer.from([1]),
+    ]);
+    const ikm = hmac(hmac(authSecret, sharedSecret), keyInfo);
+    const prk = hmac(salt, ikm);
+    const cek = hmac(prk, Buffer.from('Content-Encoding: aes128gcm\0\x01')).subarray(0, 16);
+    const nonce = hmac(prk, Buffer.from('Content-Encoding: nonce\0\x01')).subarray(0, 12);
+
+    const decipher = createDecipheriv('aes-128-gcm', cek, nonce);
+    decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+    const padded = Buffer.concat([
+      decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+      decipher.final(),
+    ]);
+
+    // The last record ends with a 0x02 delimiter followed by zero padding
+    return padded.subarray(0, padded.lastIndexOf(2)).toString('utf8');
+  };
+
+  return {
+    endpoint,
+    keys: {
+      p256dh: publicKey.toString('base64url'),
+      auth: authSecret.toString('base64url'),
+    },
+    decrypt,
+  };
+}
@@ -34,12 +34,18 @@ export interface UserRow {
 // Households
 // ============================================================================
 
+export type LateCompletionPolicy = 'full' | 'reduced' | 'locked';
+
 /**
  * Raw database row for households table
  */
 export interface HouseholdRow {
   id: string;
   name: string;
+  timezone: string;
+  requires_approval: boolean;
+  late_completion_policy: LateCompletionPolicy;
+  late_points_percent: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -48,7 +54,7 @@ export interface HouseholdRow {
 // Household Members
 // ============================================================================
 
-export type HouseholdRole = 'admin' | 'parent' | 'child';
+export type HouseholdRole = 'admin' | 'parent' | 'caregiver' | 'child';
 
 /**
  * Raw database row for household_members table
@@ -66,7 +72,7 @@ export interface HouseholdMemberRow {
 // ============================================================================
 
 export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
-export type InvitationRole = 'admin' | 'parent';
+export type InvitationRole = 'admin' | 'parent' | 'caregiver' | 'child';
 
 /**
  * Raw database row for invitations table
@@ -75,10 +81,13 @@ export interface InvitationRow {
   id: string;
   household_id: string;
   invited_by: string;
-  invited_email: string;
+  invited_email: string | null;
   token: string;
   role: InvitationRole;
   status: InvitationStatus;
+  child_id: string | null;
+  max_uses: number | null;
+  use_count: number;
   expires_at: Date;
   accepted_at: Date | null;
   created_at: Date;
@@ -129,16 +138,38 @@ export interface ChildRow {
 // Tasks
 // ============================================================================
 
-export type TaskRuleType = 'weekly_rotation' | 'repeating' | 'daily' | 'single';
-export type TaskRotationType = 'odd_even_week' | 'alternating';
+export type TaskRuleType =
+  | 'weekly_rotation'
+  | 'repeating'
+  | 'daily'
+  | 'single'
+  | 'interval'
+  | 'monthly';
+export type TaskRotationType = 'odd_even_week' | 'alternating' | 'round_robin';
+export type TaskRotationPeriod = 'daily' | 'weekly' | 'occurrence';
 
 /**
  * Rule configuration for task scheduling
  */
 export interface TaskRuleConfig {
   rotation_type?: TaskRotationType;
+  rotation_period?: TaskRotationPeriod;
   repeat_days?: number[];
   assigned_children?: string[];
+  interval?: number;
+  interval_unit?: 'days' | 'weeks';
+  start_date?: string;
+  day_of_month?: number;
+  week_of_month?: number;
+  day_of_week?: number;
+}
+
+/**
+ * Checklist item as stored in the tasks.checklist JSONB array
+ */
+export interface ChecklistItemRow {
+  id: string;
+  label: string;
 }
 
 /**
@@ -154,6 +185,10 @@ export interface TaskRow {
   rule_config: TaskRuleConfig | null;
   deadline: Date | null;
   active: boolean;
+  requires_approval: boolean;
+  requires_photo: boolean;
+  checklist: ChecklistItemRow[];
+  partial_points: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -162,7 +197,12 @@ export interface TaskRow {
 // Task Assignments
 // ============================================================================
 
-export type TaskAssignmentStatus = 'pending' | 'completed' | 'overdue' | 'expired';
+export type TaskAssignmentStatus =
+  | 'pending'
+  | 'pending_review'
+  | 'completed'
+  | 'overdue'
+  | 'expired';
 
 /**
  * Raw database row for task_assignments table
@@ -175,6 +215,9 @@ export interface TaskAssignmentRow {
   date: string; // DATE type comes as string
   status: TaskAssignmentStatus;
   created_at: Date;
+  reminder_sent_at: Date | null;
+  checked_items: string[];
+  completed_late: boolean;
 }
 
 /**
@@ -194,6 +237,8 @@ export interface TaskAssignmentWithDetailsRow extends TaskAssignmentRow {
 // Task Completions
 // ============================================================================
 
+export type CompletionApprovalStatus = 'pending_review' | 'approved' | 'rejected';
+
 /**
  * Raw database row for task_completions table
  */
@@ -204,6 +249,35 @@ export interface TaskCompletionRow {
   child_id: string;
   completed_at: Date;
   points_earned: number;
+  approval_status: CompletionApprovalStatus;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  review_comment: string | null;
+  photo_key: string | null;
+  photo_content_type: string | null;
+  photo_purged_at: Date | null;
+}
+
+// ============================================================================
+// Assignment Generation Runs
+// ============================================================================
+
+export type AssignmentGenerationTrigger = 'scheduled' | 'manual';
+
+/**
+ * Raw database row for assignment_generation_runs table
+ */
+export interface AssignmentGenerationRunRow {
+  id: string;
+  household_id: string;
+  trigger: AssignmentGenerationTrigger;
+  start_date: string; // DATE type comes as string
+  days: number;
+  created: number;
+  skipped: number;
+  errors: string[];
+  started_at: Date;
+  finished_at: Date | null;
 }
 
 // ============================================================================
@@ -248,6 +322,8 @@ export interface TaskResponseRow {
 /**
  * Raw database row for rewards table
  */
+export type RewardPeriod = 'day' | 'week' | 'month';
+
 export interface RewardRow {
   id: string;
   household_id: string;
@@ -256,6 +332,14 @@ export interface RewardRow {
   points_cost: number;
   quantity: number | null;
   active: boolean;
+  redemption_limit: number | null;
+  redemption_limit_period: RewardPeriod | null;
+  available_from: string | null; // YYYY-MM-DD (selected as text)
+  available_until: string | null; // YYYY-MM-DD (selected as text)
+  available_days: number[] | null;
+  restock_quantity: number | null;
+  restock_period: RewardPeriod | null;
+  restocked_on: string | null; // YYYY-MM-DD (selected as text)
   created_at: Date;
   updated_at: Date;
 }
@@ -288,12 +372,282 @@ export interface RewardRedemptionWithDetailsRow extends RewardRedemptionRow {
   child_name?: string;
 }
 
+// ============================================================================
+// Points Ledger
+// ============================================================================
+
+export type PointsTransactionType =
+  | 'task_completion'
+  | 'redemption'
+  | 'refund'
+  | 'adjustment'
+  | 'bonus';
+
+/**
+ * Raw database row for points_transactions table (append-only)
+ */
+export interface PointsTransactionRow {
+  id: string;
+  household_id: string;
+  child_id: string;
+  type: PointsTransactionType;
+  amount: number;
+  balance_after: number;
+  reason: string | null;
+  task_completion_id: string | null;
+  reward_redemption_id: string | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+/**
+ * Points transaction with joined task and reward names
+ */
+export interface PointsTransactionWithDetailsRow extends PointsTransactionRow {
+  task_name: string | null;
+  reward_name: string | null;
+}
+
+// ============================================================================
+// Push Subscriptions
+// ============================================================================
+
+/**
+ * Raw database row for push_subscriptions table
+ */
+export interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent: string | null;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+// ============================================================================
+// User Sessions
+// ============================================================================
+
+/**
+ * Raw database row for user_sessions table
+ */
+export interface UserSessionRow {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  revoked_reason: 'logout' | 'revoked' | 'reuse' | null;
+}
+
+// ============================================================================
+// Calendar Feeds
+// ============================================================================
+
+/**
+ * Raw database row for calendar_feeds table
+ */
+export interface CalendarFeedRow {
+  id: string;
+  household_id: string;
+  child_id: string | null;
+  token: string;
+  created_by: string | null;
+  created_at: Date;
+  last_accessed_at: Date | null;
+  revoked_at: Date | null;
+}
+
+/**
+ * Raw database row for task_rotation_cursors table
+ */
+export interface TaskRotationCursorRow {
+  task_id: string;
+  household_id: string;
+  child_id: string | null;
+  position: number;
+  last_date: string;
+  updated_at: Date;
+}
+
+// ============================================================================
+// Child Absences
+// ============================================================================
+
+/**
+ * Raw database row for child_absences table
+ * Dates are selected as text (YYYY-MM-DD)
+ */
+export interface ChildAbsenceRow {
+  id: string;
+  household_id: string;
+  child_id: string;
+  start_date: string;
+  end_date: string;
+  repeat_every_weeks: number | null;
+  repeat_until: string | null;
+  reason: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// ============================================================================
+// Audit Events
+// ============================================================================
+
+/**
+ * Raw database row for audit_events table (append-only)
+ */
+export interface AuditEventRow {
+  id: string;
+  household_id: string;
+  actor_user_id: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  request_id: string | null;
+  created_at: Date;
+}
+
+/**
+ * Audit event with the actor's display name
+ */
+export interface AuditEventWithActorRow extends AuditEventRow {
+  actor_name: string | null;
+}
+
+// ============================================================================
+// Task Templates
+// ============================================================================
+
+/**
+ * Raw database row for task_templates table
+ * rule_config is stored in the API's camelCase shape
+ */
+export interface TaskTemplateRow {
+  id: string;
+  household_id: string;
+  name: string;
+  description: string | null;
+  points: number;
+  rule_type: TaskRuleType;
+  rule_config: Record<string, unknown> | null;
+  min_age: number | null;
+  max_age: number | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+// ============================================================================
+// Assignment Comments
+// ============================================================================
+
+/**
+ * Raw database row for assignment_comments table
+ */
+export interface AssignmentCommentRow {
+  id: string;
+  household_id: string;
+  task_assignment_id: string;
+  author_user_id: string | null;
+  author_role: HouseholdRole;
+  body: string;
+  created_at: Date;
+}
+
+/**
+ * Comment joined with the author's display name
+ */
+export interface AssignmentCommentWithAuthorRow extends AssignmentCommentRow {
+  author_name: string | null;
+}
+
+// ============================================================================
+// Achievements
+// ============================================================================
+
+export type AchievementType = 'tasks_completed' | 'points_earned' | 'streak' | 'task_completions';
+
+/**
+ * Raw database row for achievements table
+ * Built-in achievements have a code and no household; household achievements
+ * have a name instead
+ */
+export interface AchievementRow {
+  id: string;
+  household_id: string | null;
+  code: string | null;
+  name: string | null;
+  description: string | null;
+  icon: string;
+  type: AchievementType;
+  threshold: number;
+  task_id: string | null;
+  sort_order: number;
+  created_by: string | null;
+  created_at: Date;
+}
+
+/**
+ * Raw database row for achievement_unlocks table
+ */
+export interface AchievementUnlockRow {
+  id: string;
+  household_id: string;
+  child_id: string;
+  achievement_id: string;
+  task_completion_id: string | null;
+  unlocked_at: Date;
+  seen_at: Date | null;
+}
+
+/**
+ * Unlock joined with its achievement
+ */
+export type AchievementUnlockWithAchievementRow = AchievementRow &
+  Pick<AchievementUnlockRow, 'unlocked_at'>;
+
+// ============================================================================
+// Savings Goals
+// ============================================================================
+
+/**
+ * Raw database row for savings_goals table
+ */
+export interface SavingsGoalRow {
+  id: string;
+  household_id: string;
+  child_id: string;
+  reward_id: string;
+  earmarked_points: number;
+  affordable_notified_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Savings goal joined with the reward it saves for
+ */
+export interface SavingsGoalWithRewardRow extends SavingsGoalRow {
+  reward_name: string;
+  points_cost: number;
+}
+
 // ============================================================================
 // Views
 // ============================================================================
 
 /**
- * Row from child_points_balance view
+ * Row from child_points_balance view (sums points_transactions)
  */
 export interface ChildPointsBalanceRow {
   child_id: string;
@@ -0,0 +1,65 @@
+/**
+ * Child Absence Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { createAvailability, isAbsentOn, type AbsencePeriod } from './absence.ts';
+
+function absence(overrides: Partial<AbsencePeriod> = {}): AbsencePeriod {
+  return {
+    childId: 'a',
+    startDate: '2026-10-19',
+    endDate: '2026-10-25',
+    repeatEveryWeeks: null,
+    repeatUntil: null,
+    ...overrides,
+  };
+}
+
+describe('Child Absences', () => {
+  test('should cover a one-off range inclusively', () => {
+    const camp = absence();
+
+    assert.strictEqual(isAbsentOn(camp, '2026-10-18'), false);
+    assert.strictEqual(isAbsentOn(camp, '2026-10-19'), true);
+    assert.strictEqual(isAbsentOn(camp, '2026-10-25'), true);
+    assert.strictEqual(isAbsentOn(camp, '2026-10-26'), false);
+  });
+
+  test('should repeat every other weekend', () => {
+    // Friday to Sunday
+    const weekends = absence({
+      startDate: '2026-10-23',
+      endDate: '2026-10-25',
+      repeatEveryWeeks: 2,
+    });
+
+    assert.strictEqual(isAbsentOn(weekends, '2026-10-24'), true);
+    assert.strictEqual(isAbsentOn(weekends, '2026-10-31'), false);
+    assert.strictEqual(isAbsentOn(weekends, '2026-11-06'), true);
+    assert.strictEqual(isAbsentOn(weekends, '2026-11-08'), true);
+    assert.strictEqual(isAbsentOn(weekends, '2026-11-09'), false);
+  });
+
+  test('should stop repeating after repeatUntil', () => {
+    const weekends = absence({
+      startDate: '2026-10-23',
+      endDate: '2026-10-25',
+      repeatEveryWeeks: 2,
+      repeatUntil: '2026-11-06',
+    });
+
+    // The repetition starting on repeatUntil runs to its end
+    assert.strictEqual(isAbsentOn(weekends, '2026-11-08'), true);
+    assert.strictEqual(isAbsentOn(weekends, '2026-11-20'), false);
+  });
+
+  test('should only mark the absent child unavailable', () => {
+    const isAvailable = createAvailability([absence()]);
+
+    assert.strictEqual(isAvailable('a', '2026-10-20'), false);
+    assert.strictEqual(isAvailable('b', '2026-10-20'), true);
+    assert.strictEqual(isAvailable('a', '2026-10-26'), true);
+  });
+});
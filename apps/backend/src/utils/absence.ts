@@ -0,0 +1,54 @@
+/**
+ * Child Absences
+ *
+ * Whether a child is away on a date. Mirrors the child_absent_on() SQL
+ * function, which analytics use to leave absent days out.
+ */
+
+import { addDays, daysBetween } from './timezone.js';
+import type { ChildAvailability } from './rotation.js';
+
+export interface AbsencePeriod {
+  childId: string;
+  /** First day away (YYYY-MM-DD) */
+  startDate: string;
+  /** Last day away, inclusive */
+  endDate: string;
+  /** Repeat the range every N weeks (null for a one-off absence) */
+  repeatEveryWeeks: number | null;
+  /** Last date a repetition may start on (null repeats indefinitely) */
+  repeatUntil: string | null;
+}
+
+/**
+ * Whether an absence covers a date
+ */
+export function isAbsentOn(absence: AbsencePeriod, date: string): boolean {
+  if (date < absence.startDate) return false;
+
+  if (!absence.repeatEveryWeeks) {
+    return date <= absence.endDate;
+  }
+
+  const length = daysBetween(absence.startDate, absence.endDate);
+  const offset = daysBetween(absence.startDate, date) % (absence.repeatEveryWeeks * 7);
+  if (offset > length) return false;
+
+  // The repetition this date falls in must start by repeatUntil
+  return !absence.repeatUntil || addDays(date, -offset) <= absence.repeatUntil;
+}
+
+/**
+ * Availability check for the generator: a child is available unless one of
+ * their absences covers the date
+ */
+export function createAvailability(absences: AbsencePeriod[]): ChildAvailability {
+  const byChild = new Map<string, AbsencePeriod[]>();
+  for (const absence of absences) {
+    const list = byChild.get(absence.childId) ?? [];
+    list.push(absence);
+    byChild.set(absence.childId, list);
+  }
+
+  return (childId, date) => !byChild.get(childId)?.some((absence) => isAbsentOn(absence, date));
+}
@@ -0,0 +1,69 @@
+/**
+ * Achievement Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { getAchievementProgress, isAchievementReached } from './achievements.ts';
+import type { AchievementStats } from './achievements.ts';
+
+const stats: AchievementStats = {
+  tasksCompleted: 12,
+  pointsEarned: 140,
+  streak: 4,
+  completionsByTask: new Map([['walk-dog-task', 19]]),
+};
+
+describe('getAchievementProgress', () => {
+  test('reads the count the achievement tracks', () => {
+    assert.strictEqual(
+      getAchievementProgress({ type: 'tasks_completed', threshold: 10, taskId: null }, stats),
+      12,
+    );
+    assert.strictEqual(
+      getAchievementProgress({ type: 'points_earned', threshold: 100, taskId: null }, stats),
+      140,
+    );
+    assert.strictEqual(
+      getAchievementProgress({ type: 'streak', threshold: 7, taskId: null }, stats),
+      4,
+    );
+  });
+
+  test('counts the completions of the achievement task', () => {
+    assert.strictEqual(
+      getAchievementProgress(
+        { type: 'task_completions', threshold: 20, taskId: 'walk-dog-task' },
+        stats,
+      ),
+      19,
+    );
+    assert.strictEqual(
+      getAchievementProgress({ type: 'task_completions', threshold: 20, taskId: 'other' }, stats),
+      0,
+    );
+  });
+});
+
+describe('isAchievementReached', () => {
+  test('is reached at the threshold', () => {
+    assert.strictEqual(
+      isAchievementReached({ type: 'tasks_completed', threshold: 12, taskId: null }, stats),
+      true,
+    );
+    assert.strictEqual(
+      isAchievementReached({ type: 'tasks_completed', threshold: 13, taskId: null }, stats),
+      false,
+    );
+  });
+
+  test('is not reached one completion short of a task achievement', () => {
+    assert.strictEqual(
+      isAchievementReached(
+        { type: 'task_completions', threshold: 20, taskId: 'walk-dog-task' },
+        stats,
+      ),
+      false,
+    );
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Achievements
+ *
+ * An achievement is reached once the count it tracks meets its threshold.
+ * The counts come from a child's approved completions; see
+ * services/achievement.service.ts for how they are gathered and unlocks
+ * recorded.
+ */
+
+import type { AchievementType } from '../types/database.js';
+
+export interface AchievementRule {
+  type: AchievementType;
+  threshold: number;
+  taskId: string | null;
+}
+
+export interface AchievementStats {
+  tasksCompleted: number;
+  pointsEarned: number;
+  streak: number;
+  /** Approved completions per task id */
+  completionsByTask: ReadonlyMap<string, number>;
+}
+
+/**
+ * The child's current count towards an achievement
+ */
+export function getAchievementProgress(rule: AchievementRule, stats: AchievementStats): number {
+  switch (rule.type) {
+    case 'tasks_completed':
+      return stats.tasksCompleted;
+    case 'points_earned':
+      return stats.pointsEarned;
+    case 'streak':
+      return stats.streak;
+    case 'task_completions':
+      return rule.taskId ? (stats.completionsByTask.get(rule.taskId) ?? 0) : 0;
+  }
+}
+
+export function isAchievementReached(rule: AchievementRule, stats: AchievementStats): boolean {
+  return getAchievementProgress(rule, stats) >= rule.threshold;
+}
@@ -0,0 +1,82 @@
+/**
+ * Task Checklist Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import {
+  prepareChecklist,
+  parseChecklist,
+  parseCheckedItems,
+  buildAssignmentChecklist,
+  calculateChecklistPoints,
+} from './checklist.ts';
+
+const kitchen = [
+  { id: 'dishes', label: 'Empty the dishwasher' },
+  { id: 'table', label: 'Wipe the table' },
+  { id: 'floor', label: 'Sweep the floor' },
+];
+
+describe('prepareChecklist', () => {
+  test('keeps existing ids and gives new items one', () => {
+    const checklist = prepareChecklist([
+      { id: 'table', label: 'Wipe the table' },
+      { label: 'Sweep' },
+    ]);
+
+    assert.strictEqual(checklist[0].id, 'table');
+    assert.match(checklist[1].id, /^[0-9a-f-]{36}$/);
+    assert.strictEqual(checklist[1].label, 'Sweep');
+  });
+
+  test('puts labels on one line and drops items with nothing visible', () => {
+    const checklist = prepareChecklist([
+      { label: 'Wipe\nthe \u200btable' },
+      { label: '\u200b\u200b' },
+    ]);
+
+    assert.deepStrictEqual(
+      checklist.map((item) => item.label),
+      ['Wipe the table'],
+    );
+  });
+});
+
+describe('parseChecklist', () => {
+  test('ignores anything that is not a checklist item', () => {
+    assert.deepStrictEqual(parseChecklist(null), []);
+    assert.deepStrictEqual(parseChecklist([{ id: 'a', label: 'A' }, { id: 1 }, 'b']), [
+      { id: 'a', label: 'A' },
+    ]);
+    assert.deepStrictEqual(parseCheckedItems(['a', 2, null]), ['a']);
+  });
+});
+
+describe('buildAssignmentChecklist', () => {
+  test('marks ticked items and ignores ids of removed items', () => {
+    const checklist = buildAssignmentChecklist(kitchen, ['table', 'removed']);
+
+    assert.deepStrictEqual(
+      checklist.map((item) => item.checked),
+      [false, true, false],
+    );
+  });
+});
+
+describe('calculateChecklistPoints', () => {
+  test('awards full points without partial points', () => {
+    assert.strictEqual(calculateChecklistPoints(30, kitchen, ['table'], false), 30);
+  });
+
+  test('awards full points for a task without a checklist', () => {
+    assert.strictEqual(calculateChecklistPoints(30, [], [], true), 30);
+  });
+
+  test('shares points out over the ticked items', () => {
+    assert.strictEqual(calculateChecklistPoints(30, kitchen, ['table'], true), 10);
+    assert.strictEqual(calculateChecklistPoints(10, kitchen, ['table', 'floor'], true), 7);
+    assert.strictEqual(calculateChecklistPoints(30, kitchen, [], true), 0);
+    assert.strictEqual(calculateChecklistPoints(30, kitchen, ['removed'], true), 0);
+  });
+});
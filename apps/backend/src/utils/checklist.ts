@@ -0,0 +1,70 @@
+/**
+ * Task Checklists
+ *
+ * A task's checklist is an ordered list of steps; each assignment of the
+ * task stores the ids of the steps ticked off. Ids of steps that were
+ * removed from the task since are ignored.
+ */
+
+import { randomUUID } from 'crypto';
+import type { AssignmentChecklistItem, ChecklistInput, TaskChecklist } from '@st44/types';
+import { normalizeCommentBody } from './comment.js';
+
+/**
+ * Prepare a checklist from a request for storing: new items get an id and
+ * labels are cleaned up like comments (children read both), on one line
+ */
+export function prepareChecklist(items: ChecklistInput): TaskChecklist {
+  return items
+    .map((item) => ({
+      id: item.id ?? randomUUID(),
+      label: normalizeCommentBody(item.label).replace(/\s+/g, ' '),
+    }))
+    .filter((item) => item.label.length > 0);
+}
+
+/**
+ * Read a checklist or ticked ids column (JSONB arrays) defensively
+ */
+export function parseChecklist(value: unknown): TaskChecklist {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (item): item is TaskChecklist[number] =>
+      typeof item?.id === 'string' && typeof item?.label === 'string',
+  );
+}
+
+export function parseCheckedItems(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+}
+
+/**
+ * The task's checklist with the ticked state of one assignment
+ */
+export function buildAssignmentChecklist(
+  checklist: TaskChecklist,
+  checkedItems: string[],
+): AssignmentChecklistItem[] {
+  const checked = new Set(checkedItems);
+  return checklist.map((item) => ({ ...item, checked: checked.has(item.id) }));
+}
+
+/**
+ * Points earned for completing an assignment
+ *
+ * Full points unless the task awards partial points, in which case the
+ * points are shared out over the checklist items and rounded.
+ */
+export function calculateChecklistPoints(
+  points: number,
+  checklist: TaskChecklist,
+  checkedItems: string[],
+  partialPoints: boolean,
+): number {
+  if (!partialPoints || checklist.length === 0) return points;
+
+  const checkedCount = buildAssignmentChecklist(checklist, checkedItems).filter(
+    (item) => item.checked,
+  ).length;
+  return Math.round((points * checkedCount) / checklist.length);
+}
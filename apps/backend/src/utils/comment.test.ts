@@ -0,0 +1,27 @@
+/**
+ * Assignment Comment Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { normalizeCommentBody } from './comment.ts';
+
+describe('normalizeCommentBody', () => {
+  test('keeps line breaks but limits blank lines', () => {
+    assert.strictEqual(
+      normalizeCommentBody('Use the\r\nblue bucket\n\n\n\nThanks'),
+      'Use the\nblue bucket\n\nThanks',
+    );
+  });
+
+  test('removes control, zero-width and bidi override characters', () => {
+    assert.strictEqual(
+      normalizeCommentBody('Good\u0007 job\u200b \u202eenod\u202c!'),
+      'Good job enod!',
+    );
+  });
+
+  test('returns an empty string when nothing visible is left', () => {
+    assert.strictEqual(normalizeCommentBody(' \u200b\n\t '), '');
+  });
+});
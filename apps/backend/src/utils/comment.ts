@@ -0,0 +1,24 @@
+/**
+ * Assignment Comments
+ *
+ * Comments are plain text that children read, so anything that renders
+ * invisibly or reorders text is removed before storing.
+ */
+
+// Control characters other than newline, zero-width characters and
+// bidirectional overrides (which can make text display differently from what it says)
+const HIDDEN_CHARACTERS =
+  /[\u0000-\u0009\u000b-\u001f\u007f\u200b-\u200f\u202a-\u202e\u2066-\u2069\ufeff]/g;
+
+/**
+ * Clean up comment text for storing and display
+ *
+ * @returns the normalized text; empty when nothing visible is left
+ */
+export function normalizeCommentBody(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(HIDDEN_CHARACTERS, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
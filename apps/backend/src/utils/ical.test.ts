@@ -0,0 +1,96 @@
+/**
+ * iCalendar Serialization Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { escapeText, foldLine, formatDate, formatDateTime, buildCalendar } from './ical.ts';
+
+describe('iCalendar Utilities', () => {
+  describe('escapeText', () => {
+    test('should escape separators and newlines', () => {
+      assert.strictEqual(escapeText('Wash, dry; fold\nrepeat'), 'Wash\\, dry\\; fold\\nrepeat');
+      assert.strictEqual(escapeText('C:\\temp'), 'C:\\\\temp');
+    });
+  });
+
+  describe('foldLine', () => {
+    test('should leave short lines alone', () => {
+      assert.strictEqual(foldLine('SUMMARY:Dishes'), 'SUMMARY:Dishes');
+    });
+
+    test('should fold long lines at 75 octets', () => {
+      const folded = foldLine(`DESCRIPTION:${'a'.repeat(200)}`);
+      const lines = folded.split('\r\n');
+
+      assert.ok(lines.length > 1);
+      for (const line of lines) {
+        assert.ok(Buffer.byteLength(line) <= 75);
+      }
+      assert.ok(lines.slice(1).every((line) => line.startsWith(' ')));
+      assert.strictEqual(
+        lines.map((line, i) => (i === 0 ? line : line.slice(1))).join(''),
+        `DESCRIPTION:${'a'.repeat(200)}`,
+      );
+    });
+
+    test('should not split multi-byte characters', () => {
+      const folded = foldLine(`SUMMARY:${'ø'.repeat(60)}`);
+
+      for (const line of folded.split('\r\n')) {
+        assert.ok(Buffer.byteLength(line) <= 75);
+        assert.ok(!line.includes('\uFFFD'));
+      }
+    });
+  });
+
+  describe('formatDate / formatDateTime', () => {
+    test('should use the basic iCalendar formats', () => {
+      assert.strictEqual(formatDate('2026-10-18'), '20261018');
+      assert.strictEqual(formatDateTime(new Date('2026-10-18T07:05:09.123Z')), '20261018T070509Z');
+    });
+  });
+
+  describe('buildCalendar', () => {
+    const stamp = new Date('2026-10-18T12:00:00Z');
+
+    test('should build all-day events ending the next day', () => {
+      const ics = buildCalendar({
+        name: 'Emma, chores',
+        timeZone: 'Europe/Oslo',
+        refreshMinutes: 60,
+        events: [
+          {
+            uid: 'assignment-1@diddit',
+            date: '2026-10-31',
+            summary: 'Take out trash',
+            description: '10 points',
+            stamp,
+          },
+        ],
+      });
+
+      assert.ok(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n'));
+      assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+      assert.ok(ics.includes('X-WR-CALNAME:Emma\\, chores\r\n'));
+      assert.ok(ics.includes('X-WR-TIMEZONE:Europe/Oslo\r\n'));
+      assert.ok(ics.includes('REFRESH-INTERVAL;VALUE=DURATION:PT60M\r\n'));
+      assert.ok(ics.includes('UID:assignment-1@diddit\r\n'));
+      assert.ok(ics.includes('DTSTAMP:20261018T120000Z\r\n'));
+      assert.ok(ics.includes('DTSTART;VALUE=DATE:20261031\r\n'));
+      assert.ok(ics.includes('DTEND;VALUE=DATE:20261101\r\n'));
+      assert.ok(ics.includes('DESCRIPTION:10 points\r\n'));
+    });
+
+    test('should omit an empty description', () => {
+      const ics = buildCalendar({
+        name: 'Household',
+        events: [{ uid: 'x', date: '2026-10-18', summary: 'Dishes', description: null, stamp }],
+      });
+
+      assert.ok(!ics.includes('DESCRIPTION'));
+      assert.ok(!ics.includes('X-WR-TIMEZONE'));
+      assert.strictEqual(ics.match(/BEGIN:VEVENT/g)?.length, 1);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * iCalendar (RFC 5545) Serialization
+ *
+ * Builds read-only VCALENDAR documents of all-day events for calendar feed
+ * subscriptions. Only the subset of the format the feeds need is supported.
+ */
+
+import { addDays } from './timezone.js';
+
+const CRLF = '\r\n';
+
+/**
+ * Maximum line length in octets before a content line is folded
+ */
+const MAX_LINE_OCTETS = 75;
+
+export interface ICalEvent {
+  /** Globally unique and stable across refreshes */
+  uid: string;
+  /** All-day event date (YYYY-MM-DD) */
+  date: string;
+  summary: string;
+  description?: string | null;
+  /** When this version of the event was produced */
+  stamp: Date;
+}
+
+export interface ICalCalendar {
+  name: string;
+  /** IANA timezone hint for clients (X-WR-TIMEZONE) */
+  timeZone?: string;
+  /** Suggested polling interval in minutes */
+  refreshMinutes?: number;
+  events: ICalEvent[];
+}
+
+/**
+ * Escape a TEXT property value (backslash, semicolon, comma and newlines)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into 75-octet chunks; continuation lines start with a
+ * space. Multi-byte characters are never split.
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join(`${CRLF} `);
+}
+
+/**
+ * Format a YYYY-MM-DD date as an iCalendar DATE (YYYYMMDD)
+ */
+export function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+/**
+ * Format an instant as an iCalendar UTC DATE-TIME (YYYYMMDDTHHMMSSZ)
+ */
+export function formatDateTime(instant: Date): string {
+  return instant
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Serialize a calendar of all-day events
+ */
+export function buildCalendar(calendar: ICalCalendar): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Diddit//Assignments//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ];
+
+  if (calendar.timeZone) {
+    lines.push(`X-WR-TIMEZONE:${calendar.timeZone}`);
+  }
+
+  if (calendar.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`);
+  }
+
+  for (const event of calendar.events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDateTime(event.stamp)}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(event.date, 1))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
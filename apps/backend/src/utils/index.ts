@@ -36,4 +36,105 @@ export {
   handleZodError,
 } from './validation.js';
 
-export { withTransaction, type TransactionHandler } from './transaction.js';
+export { withTransaction, withSavepoint, type TransactionHandler } from './transaction.js';
+
+export {
+  DEFAULT_TIMEZONE,
+  isValidTimeZone,
+  toLocalDateString,
+  getLocalToday,
+  parseDateString,
+  formatDateString,
+  addDays,
+  daysBetween,
+  getWeekStart,
+  getMonthStart,
+} from './timezone.js';
+
+export {
+  escapeText,
+  foldLine,
+  formatDate,
+  formatDateTime,
+  buildCalendar,
+  type ICalEvent,
+  type ICalCalendar,
+} from './ical.js';
+
+export {
+  getIntervalOccurrence,
+  getMonthlyOccurrence,
+  type IntervalUnit,
+  type IntervalRule,
+  type MonthlyRule,
+} from './recurrence.js';
+
+export {
+  rotate,
+  type RotationPeriod,
+  type RotationCursor,
+  type RotationTurn,
+  type RotationResult,
+  type ChildAvailability,
+} from './rotation.js';
+
+export { isAbsentOn, createAvailability, type AbsencePeriod } from './absence.js';
+
+export {
+  rankTaskSuggestions,
+  normalizeTaskName,
+  type SuggestionCandidate,
+  type ChildChoreHistory,
+} from './task-suggestions.js';
+
+export { detectImageType, buildPhotoKey } from './photo.js';
+
+export { normalizeCommentBody } from './comment.js';
+
+export {
+  prepareChecklist,
+  parseChecklist,
+  parseCheckedItems,
+  buildAssignmentChecklist,
+  calculateChecklistPoints,
+} from './checklist.js';
+
+export { isLateCompletionAllowed, calculateLatePoints } from './late-completion.js';
+
+export {
+  getAchievementProgress,
+  isAchievementReached,
+  type AchievementRule,
+  type AchievementStats,
+} from './achievements.js';
+
+export {
+  EARNING_RATE_WINDOW_DAYS,
+  getEarmarkedTotal,
+  getPointsFreeForGoal,
+  canAffordWithEarmarks,
+  getDailyEarningRate,
+  calculateSavingsGoalProgress,
+  type SavingsGoalFunds,
+  type SavingsGoalProgress,
+} from './savings-goals.js';
+
+export {
+  getPeriodStart,
+  getNextPeriodStart,
+  getEarliestPeriodStart,
+  getAvailabilityError,
+  getRedemptionsLeft,
+  getDueRestock,
+  getCurrentQuantity,
+  type AvailabilityErrorCode,
+  type RewardLimit,
+  type RewardWindow,
+  type RewardStock,
+} from './reward-rules.js';
+
+export {
+  isPrivateAddress,
+  getPushEndpointError,
+  assertPublicPushEndpoint,
+} from './push-endpoint.js';
@@ -19,6 +19,7 @@ export interface AccessTokenPayload {
   email: string;
   firstName?: string | null;
   lastName?: string | null;
+  sessionId?: string;
   type: 'access';
   iat?: number;
   exp?: number;
@@ -29,6 +30,7 @@ export interface AccessTokenPayload {
  */
 export interface RefreshTokenPayload {
   userId: string;
+  sessionId?: string;
   type: 'refresh';
   iat?: number;
   exp?: number;
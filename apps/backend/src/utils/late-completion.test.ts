@@ -0,0 +1,37 @@
+/**
+ * Late Completion Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { isLateCompletionAllowed, calculateLatePoints } from './late-completion.ts';
+
+describe('isLateCompletionAllowed', () => {
+  test('only the locked policy refuses late completions', () => {
+    assert.strictEqual(isLateCompletionAllowed('full'), true);
+    assert.strictEqual(isLateCompletionAllowed('reduced'), true);
+    assert.strictEqual(isLateCompletionAllowed('locked'), false);
+  });
+});
+
+describe('calculateLatePoints', () => {
+  test('awards all points under the full policy', () => {
+    assert.strictEqual(calculateLatePoints(10, 'full', 50), 10);
+  });
+
+  test('awards the configured share under the reduced policy', () => {
+    assert.strictEqual(calculateLatePoints(10, 'reduced', 50), 5);
+    assert.strictEqual(calculateLatePoints(10, 'reduced', 0), 0);
+    assert.strictEqual(calculateLatePoints(10, 'reduced', 100), 10);
+  });
+
+  test('rounds reduced points', () => {
+    assert.strictEqual(calculateLatePoints(5, 'reduced', 50), 3);
+    assert.strictEqual(calculateLatePoints(7, 'reduced', 33), 2);
+  });
+
+  test('keeps out-of-range percentages within 0-100', () => {
+    assert.strictEqual(calculateLatePoints(10, 'reduced', 150), 10);
+    assert.strictEqual(calculateLatePoints(10, 'reduced', -20), 0);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Late Completions
+ *
+ * Assignments still pending after their day are moved to 'overdue' by the
+ * overdue sweep. Each household decides what completing one of them is
+ * worth (households.late_completion_policy):
+ * - full: the task's points, as if it was done in time
+ * - reduced: late_points_percent of the points
+ * - locked: overdue assignments can no longer be completed
+ */
+
+import type { LateCompletionPolicy } from '../types/database.js';
+
+export function isLateCompletionAllowed(policy: LateCompletionPolicy): boolean {
+  return policy !== 'locked';
+}
+
+/**
+ * Points earned for completing an overdue assignment, rounded
+ */
+export function calculateLatePoints(
+  points: number,
+  policy: LateCompletionPolicy,
+  latePointsPercent: number,
+): number {
+  if (policy !== 'reduced') return points;
+
+  const percent = Math.min(Math.max(latePointsPercent, 0), 100);
+  return Math.round((points * percent) / 100);
+}
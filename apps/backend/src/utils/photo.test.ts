@@ -0,0 +1,41 @@
+/**
+ * Completion Photo Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { buildPhotoKey, detectImageType } from './photo.ts';
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+const WEBP = Buffer.concat([
+  Buffer.from('RIFF'),
+  Buffer.from([0x24, 0x00, 0x00, 0x00]),
+  Buffer.from('WEBPVP8 '),
+]);
+
+describe('Completion Photos', () => {
+  test('should recognise JPEG, PNG and WebP', () => {
+    assert.strictEqual(detectImageType(JPEG), 'image/jpeg');
+    assert.strictEqual(detectImageType(PNG), 'image/png');
+    assert.strictEqual(detectImageType(WEBP), 'image/webp');
+  });
+
+  test('should reject other files', () => {
+    assert.strictEqual(detectImageType(Buffer.from('GIF89a')), null);
+    assert.strictEqual(
+      detectImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg">')),
+      null,
+    );
+    // RIFF container that is not WebP (e.g. WAV audio)
+    assert.strictEqual(detectImageType(Buffer.from('RIFF\x24\x00\x00\x00WAVEfmt ')), null);
+    assert.strictEqual(detectImageType(Buffer.alloc(0)), null);
+  });
+
+  test('should key photos by household and completion', () => {
+    assert.strictEqual(
+      buildPhotoKey('household-1', 'completion-1', 'image/webp'),
+      'household-1/completion-1.webp',
+    );
+  });
+});
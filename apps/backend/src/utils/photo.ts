@@ -0,0 +1,48 @@
+/**
+ * Completion Photos
+ *
+ * Recognises uploaded images by their leading bytes rather than trusting the
+ * Content-Type header the client sent.
+ */
+
+import type { CompletionPhotoContentType } from '@st44/types';
+
+const FILE_EXTENSIONS: Record<CompletionPhotoContentType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+function startsWith(data: Buffer, bytes: number[], offset = 0): boolean {
+  return (
+    data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte)
+  );
+}
+
+/**
+ * Image type of an upload, or null when it is not a supported image
+ */
+export function detectImageType(data: Buffer): CompletionPhotoContentType | null {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  // "RIFF" <size> "WEBP"
+  if (startsWith(data, [0x52, 0x49, 0x46, 0x46]) && startsWith(data, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * Storage key of a completion's photo, grouped per household
+ */
+export function buildPhotoKey(
+  householdId: string,
+  completionId: string,
+  contentType: CompletionPhotoContentType,
+): string {
+  return `${householdId}/${completionId}.${FILE_EXTENSIONS[contentType]}`;
+}
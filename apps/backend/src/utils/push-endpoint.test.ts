@@ -0,0 +1,94 @@
+/**
+ * Push Endpoint Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import {
+  assertPublicPushEndpoint,
+  getPushEndpointError,
+  isPrivateAddress,
+} from './push-endpoint.ts';
+
+describe('Push Endpoints', () => {
+  test('should recognise private and loopback addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.5',
+      '192.168.1.1',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      assert.strictEqual(isPrivateAddress(address), true, address);
+    }
+  });
+
+  test('should treat public addresses as public', () => {
+    for (const address of ['8.8.8.8', '142.250.74.110', '2a00:1450:4001::200e']) {
+      assert.strictEqual(isPrivateAddress(address), false, address);
+    }
+  });
+
+  test('should accept public https endpoints', () => {
+    assert.strictEqual(getPushEndpointError('https://fcm.googleapis.com/fcm/send/abc'), null);
+    assert.strictEqual(getPushEndpointError('https://8.8.8.8/push'), null);
+  });
+
+  test('should reject endpoints that are not public https URLs', () => {
+    assert.strictEqual(
+      getPushEndpointError('http://push.example.com/send'),
+      'Push endpoint must use https',
+    );
+    for (const endpoint of [
+      'https://localhost/push',
+      'https://api.localhost/push',
+      'https://127.0.0.1:8443/push',
+      'https://2130706433/push',
+      'https://[::1]/push',
+      'https://169.254.169.254/latest/meta-data',
+    ]) {
+      assert.strictEqual(
+        getPushEndpointError(endpoint),
+        'Push endpoint must be a public host',
+        endpoint,
+      );
+    }
+    assert.strictEqual(getPushEndpointError('not-a-url'), 'Push endpoint must be a valid URL');
+  });
+
+  test('should accept configured hosts on any scheme', () => {
+    assert.strictEqual(
+      getPushEndpointError('http://127.0.0.1:9000/push', ['127.0.0.1:9000']),
+      null,
+    );
+    assert.strictEqual(
+      getPushEndpointError('http://127.0.0.1:9001/push', ['127.0.0.1:9000']),
+      'Push endpoint must use https',
+    );
+  });
+
+  test('should reject hosts that resolve to private addresses', async () => {
+    await assert.rejects(
+      assertPublicPushEndpoint('https://internal.example.com/push', [], async () => [
+        '93.184.215.14',
+        '10.0.0.7',
+      ]),
+      /resolves to a private address/,
+    );
+    await assertPublicPushEndpoint('https://push.example.com/push', [], async () => [
+      '93.184.215.14',
+    ]);
+  });
+
+  test('should not resolve configured hosts', async () => {
+    await assertPublicPushEndpoint('http://127.0.0.1:9000/push', ['127.0.0.1:9000'], async () => {
+      throw new Error('should not resolve');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Push Endpoints
+ *
+ * The server POSTs notifications to whatever endpoint a browser registered,
+ * so an endpoint must not point at internal hosts. Real push services are
+ * public https URLs; anything else is only accepted for hosts explicitly
+ * allowed by configuration (e.g. a local stub push service).
+ */
+
+import { BlockList, isIP } from 'node:net';
+import { lookup } from 'node:dns/promises';
+
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * publicly routable. IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  const version = isIP(address);
+  if (version === 0) {
+    return false;
+  }
+  return PRIVATE_ADDRESSES.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+function isAllowedHost(url: URL, allowedHosts: readonly string[]): boolean {
+  return allowedHosts.includes(url.host) || allowedHosts.includes(url.hostname);
+}
+
+function getHostname(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+}
+
+/**
+ * Why an endpoint may not be used, judged from the URL alone
+ *
+ * @param allowedHosts - Hosts (`host` or `host:port`) exempt from the checks
+ * @returns The reason, or null when the endpoint may be used
+ */
+export function getPushEndpointError(
+  endpoint: string,
+  allowedHosts: readonly string[] = [],
+): string | null {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return 'Push endpoint must be a valid URL';
+  }
+
+  if (isAllowedHost(url, allowedHosts)) {
+    return null;
+  }
+  if (url.protocol !== 'https:') {
+    return 'Push endpoint must use https';
+  }
+
+  const hostname = getHostname(url);
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+    return 'Push endpoint must be a public host';
+  }
+  return null;
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const addresses = await lookup(hostname, { all: true });
+  return addresses.map((entry) => entry.address);
+}
+
+/**
+ * Check an endpoint right before sending, including every address its host
+ * resolves to, so a public name pointing at an internal address is refused
+ *
+ * @throws Error when the endpoint may not be used
+ */
+export async function assertPublicPushEndpoint(
+  endpoint: string,
+  allowedHosts: readonly string[] = [],
+  resolve: (hostname: string) => Promise<string[]> = resolveHost,
+): Promise<void> {
+  const error = getPushEndpointError(endpoint, allowedHosts);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const url = new URL(endpoint);
+  if (isAllowedHost(url, allowedHosts)) {
+    return;
+  }
+
+  const addresses = await resolve(getHostname(url));
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error('Push endpoint resolves to a private address');
+  }
+}
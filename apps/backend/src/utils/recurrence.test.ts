@@ -0,0 +1,99 @@
+/**
+ * Recurrence Rules Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { getIntervalOccurrence, getMonthlyOccurrence } from './recurrence.ts';
+import { addDays } from './timezone.ts';
+
+function matchingDates(
+  start: string,
+  days: number,
+  matches: (date: string) => number | null,
+): string[] {
+  const dates: string[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = addDays(start, i);
+    if (matches(date) !== null) dates.push(date);
+  }
+  return dates;
+}
+
+describe('Recurrence Rules', () => {
+  describe('getIntervalOccurrence', () => {
+    test('should repeat every N days from the start date', () => {
+      const rule = { interval: 14, unit: 'days' as const, startDate: '2026-10-01' };
+
+      assert.deepStrictEqual(
+        matchingDates('2026-09-20', 40, (date) => getIntervalOccurrence(date, rule)),
+        ['2026-10-01', '2026-10-15', '2026-10-29'],
+      );
+    });
+
+    test('should repeat every other week', () => {
+      // 2026-10-18 is a Sunday
+      const rule = { interval: 2, unit: 'weeks' as const, startDate: '2026-10-18' };
+
+      assert.strictEqual(getIntervalOccurrence('2026-10-18', rule), 0);
+      assert.strictEqual(getIntervalOccurrence('2026-10-25', rule), null);
+      assert.strictEqual(getIntervalOccurrence('2026-11-01', rule), 1);
+      assert.strictEqual(getIntervalOccurrence('2026-11-15', rule), 2);
+    });
+
+    test('should count occurrences across DST and year boundaries', () => {
+      const rule = { interval: 1, unit: 'weeks' as const, startDate: '2026-12-27' };
+
+      assert.strictEqual(getIntervalOccurrence('2027-01-03', rule), 1);
+      assert.strictEqual(getIntervalOccurrence('2027-03-28', rule), 13);
+    });
+
+    test('should not occur before the start date', () => {
+      const rule = { interval: 1, unit: 'days' as const, startDate: '2026-10-18' };
+
+      assert.strictEqual(getIntervalOccurrence('2026-10-17', rule), null);
+    });
+  });
+
+  describe('getMonthlyOccurrence', () => {
+    test('should match a day of the month', () => {
+      assert.deepStrictEqual(
+        matchingDates('2026-10-01', 62, (date) => getMonthlyOccurrence(date, { dayOfMonth: 15 })),
+        ['2026-10-15', '2026-11-15'],
+      );
+    });
+
+    test('should clamp the day to the end of short months', () => {
+      assert.deepStrictEqual(
+        matchingDates('2027-01-01', 120, (date) => getMonthlyOccurrence(date, { dayOfMonth: 31 })),
+        ['2027-01-31', '2027-02-28', '2027-03-31', '2027-04-30'],
+      );
+    });
+
+    test('should match the first Saturday of the month', () => {
+      const rule = { weekOfMonth: 1, dayOfWeek: 6 };
+
+      assert.deepStrictEqual(
+        matchingDates('2026-10-01', 92, (date) => getMonthlyOccurrence(date, rule)),
+        ['2026-10-03', '2026-11-07', '2026-12-05'],
+      );
+    });
+
+    test('should match the last Sunday of the month', () => {
+      const rule = { weekOfMonth: -1, dayOfWeek: 0 };
+
+      assert.deepStrictEqual(
+        matchingDates('2026-10-01', 61, (date) => getMonthlyOccurrence(date, rule)),
+        ['2026-10-25', '2026-11-29'],
+      );
+    });
+
+    test('should number consecutive months consecutively', () => {
+      const december = getMonthlyOccurrence('2026-12-01', { dayOfMonth: 1 });
+      const january = getMonthlyOccurrence('2027-01-01', { dayOfMonth: 1 });
+
+      assert.ok(december !== null && january !== null);
+      assert.strictEqual(january - december, 1);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Recurrence Rules
+ *
+ * Date matching for the interval and monthly task rules. Dates are
+ * YYYY-MM-DD calendar days (see timezone.ts), so the checks never depend on
+ * the server's timezone. Each helper also returns an occurrence number that
+ * stays the same across generation runs, which the generator uses to rotate
+ * children.
+ */
+
+import { daysBetween, parseDateString } from './timezone.js';
+
+export type IntervalUnit = 'days' | 'weeks';
+
+export interface IntervalRule {
+  /** Repeat every `interval` units */
+  interval: number;
+  unit: IntervalUnit;
+  /** First occurrence (YYYY-MM-DD) */
+  startDate: string;
+}
+
+export interface MonthlyRule {
+  /** Day of the month (1-31); clamped to the last day in shorter months */
+  dayOfMonth?: number;
+  /** Week of the month (1-4, or -1 for the last), used with dayOfWeek */
+  weekOfMonth?: number;
+  /** Day of the week (0=Sunday, 6=Saturday), used with weekOfMonth */
+  dayOfWeek?: number;
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Occurrence number of an interval rule on a date (0 for startDate)
+ *
+ * @returns null when the rule does not occur on the date
+ */
+export function getIntervalOccurrence(date: string, rule: IntervalRule): number | null {
+  const periodDays = rule.interval * (rule.unit === 'weeks' ? 7 : 1);
+  if (periodDays < 1) return null;
+
+  const offset = daysBetween(rule.startDate, date);
+  if (offset < 0 || offset % periodDays !== 0) return null;
+
+  return offset / periodDays;
+}
+
+/**
+ * Occurrence number of a monthly rule on a date (months since year 0)
+ *
+ * @returns null when the rule does not occur on the date
+ */
+export function getMonthlyOccurrence(date: string, rule: MonthlyRule): number | null {
+  const parsed = parseDateString(date);
+  const year = parsed.getUTCFullYear();
+  const month = parsed.getUTCMonth();
+  const day = parsed.getUTCDate();
+  const lastDay = lastDayOfMonth(year, month);
+
+  let matches = false;
+
+  if (rule.dayOfMonth !== undefined) {
+    matches = day === Math.min(rule.dayOfMonth, lastDay);
+  } else if (rule.weekOfMonth !== undefined && rule.dayOfWeek !== undefined) {
+    if (parsed.getUTCDay() === rule.dayOfWeek) {
+      matches =
+        rule.weekOfMonth === -1 ? day + 7 > lastDay : Math.ceil(day / 7) === rule.weekOfMonth;
+    }
+  }
+
+  return matches ? year * 12 + month : null;
+}
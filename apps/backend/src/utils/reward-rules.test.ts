@@ -0,0 +1,123 @@
+/**
+ * Reward Rules Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import {
+  getPeriodStart,
+  getNextPeriodStart,
+  getEarliestPeriodStart,
+  getAvailabilityError,
+  getRedemptionsLeft,
+  getDueRestock,
+  getCurrentQuantity,
+} from './reward-rules.ts';
+
+// A Wednesday
+const today = '2026-12-02';
+
+describe('getPeriodStart', () => {
+  test('starts weeks on Monday and months on the 1st', () => {
+    assert.strictEqual(getPeriodStart('day', today), today);
+    assert.strictEqual(getPeriodStart('week', today), '2026-11-30');
+    assert.strictEqual(getPeriodStart('month', today), '2026-12-01');
+  });
+});
+
+describe('getNextPeriodStart', () => {
+  test('is the day after the period ends', () => {
+    assert.strictEqual(getNextPeriodStart('day', today), '2026-12-03');
+    assert.strictEqual(getNextPeriodStart('week', today), '2026-12-07');
+    assert.strictEqual(getNextPeriodStart('month', '2026-12-31'), '2027-01-01');
+  });
+});
+
+describe('getEarliestPeriodStart', () => {
+  test('covers a week that began in the previous month', () => {
+    assert.strictEqual(getEarliestPeriodStart(today), '2026-11-30');
+    assert.strictEqual(getEarliestPeriodStart('2026-12-20'), '2026-12-01');
+  });
+});
+
+describe('getAvailabilityError', () => {
+  const december = {
+    availableFrom: '2026-12-01',
+    availableUntil: '2026-12-31',
+    availableDays: null,
+  };
+
+  test('accepts dates inside the window, both ends included', () => {
+    assert.strictEqual(getAvailabilityError(december, '2026-12-01'), null);
+    assert.strictEqual(getAvailabilityError(december, '2026-12-31'), null);
+  });
+
+  test('tells whether the window has not started or has ended', () => {
+    assert.strictEqual(getAvailabilityError(december, '2026-11-30'), 'REWARD_NOT_STARTED');
+    assert.strictEqual(getAvailabilityError(december, '2027-01-01'), 'REWARD_ENDED');
+  });
+
+  test('checks the day of the week', () => {
+    const weekends = { availableFrom: null, availableUntil: null, availableDays: [0, 6] };
+
+    assert.strictEqual(getAvailabilityError(weekends, today), 'REWARD_NOT_AVAILABLE_TODAY');
+    assert.strictEqual(getAvailabilityError(weekends, '2026-12-05'), null);
+  });
+});
+
+describe('getRedemptionsLeft', () => {
+  test('counts the redemptions in the current period only', () => {
+    const limit = { count: 2, period: 'week' as const };
+
+    assert.strictEqual(getRedemptionsLeft(limit, ['2026-11-29', '2026-11-30'], today), 1);
+    assert.strictEqual(getRedemptionsLeft(limit, ['2026-11-30', today, today], today), 0);
+  });
+
+  test('is null without a limit', () => {
+    assert.strictEqual(getRedemptionsLeft(null, [today], today), null);
+  });
+});
+
+describe('getDueRestock', () => {
+  const restock = { quantity: 3, period: 'week' as const };
+
+  test('resets the stock once per period', () => {
+    assert.deepStrictEqual(
+      getDueRestock({ quantity: 0, restock, restockedOn: '2026-11-23' }, today),
+      {
+        quantity: 3,
+        restockedOn: '2026-11-30',
+      },
+    );
+    assert.strictEqual(
+      getDueRestock({ quantity: 0, restock, restockedOn: '2026-11-30' }, today),
+      null,
+    );
+  });
+
+  test('is due for a stock that was never restocked', () => {
+    assert.deepStrictEqual(getDueRestock({ quantity: 1, restock, restockedOn: null }, today), {
+      quantity: 3,
+      restockedOn: '2026-11-30',
+    });
+  });
+
+  test('never restocks without a restock rule', () => {
+    assert.strictEqual(
+      getDueRestock({ quantity: 0, restock: null, restockedOn: null }, today),
+      null,
+    );
+  });
+});
+
+describe('getCurrentQuantity', () => {
+  test('includes a due restock', () => {
+    const restock = { quantity: 3, period: 'day' as const };
+
+    assert.strictEqual(
+      getCurrentQuantity({ quantity: 0, restock, restockedOn: '2026-12-01' }, today),
+      3,
+    );
+    assert.strictEqual(getCurrentQuantity({ quantity: 0, restock, restockedOn: today }, today), 0);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Reward Rules
+ *
+ * Besides a points cost and an optional stock, a reward can have:
+ * - a redemption limit: at most `count` redemptions per child each day, week
+ *   or month (rejected redemptions are refunded and don't count)
+ * - an availability window: from/until dates and days of the week
+ * - a restock: the stock is reset to a quantity at the start of each period
+ *
+ * Periods follow the household's calendar (see utils/timezone); weeks start
+ * on Monday. Redemptions are checked against these rules with the reward row
+ * locked, see redeemReward in routes/rewards.ts.
+ */
+
+import type { RedemptionErrorCode, RewardPeriod } from '@st44/types';
+import { addDays, getMonthStart, getWeekStart, parseDateString } from './timezone.js';
+
+export type AvailabilityErrorCode = Extract<
+  RedemptionErrorCode,
+  'REWARD_NOT_STARTED' | 'REWARD_ENDED' | 'REWARD_NOT_AVAILABLE_TODAY'
+>;
+
+export interface RewardLimit {
+  count: number;
+  period: RewardPeriod;
+}
+
+export interface RewardWindow {
+  availableFrom: string | null;
+  availableUntil: string | null;
+  /** Days of the week (0=Sunday), null for every day */
+  availableDays: number[] | null;
+}
+
+export interface RewardStock {
+  quantity: number | null;
+  restock: { quantity: number; period: RewardPeriod } | null;
+  /** Start of the period the stock was last reset for, null if never */
+  restockedOn: string | null;
+}
+
+/**
+ * First day of the period containing a YYYY-MM-DD date
+ */
+export function getPeriodStart(period: RewardPeriod, date: string): string {
+  if (period === 'week') return getWeekStart(date);
+  if (period === 'month') return getMonthStart(date);
+  return date;
+}
+
+/**
+ * First day of the period after the one containing a YYYY-MM-DD date
+ */
+export function getNextPeriodStart(period: RewardPeriod, date: string): string {
+  if (period === 'week') return addDays(getWeekStart(date), 7);
+  if (period === 'month') return getMonthStart(date, 1);
+  return addDays(date, 1);
+}
+
+/**
+ * Why a reward can't be redeemed on a date because of its availability window
+ *
+ * @returns the error code, or null when the date is inside the window
+ */
+export function getAvailabilityError(
+  window: RewardWindow,
+  today: string,
+): AvailabilityErrorCode | null {
+  if (window.availableFrom && today < window.availableFrom) {
+    return 'REWARD_NOT_STARTED';
+  }
+  if (window.availableUntil && today > window.availableUntil) {
+    return 'REWARD_ENDED';
+  }
+  if (window.availableDays && !window.availableDays.includes(parseDateString(today).getUTCDay())) {
+    return 'REWARD_NOT_AVAILABLE_TODAY';
+  }
+  return null;
+}
+
+/**
+ * Redemptions a child has left in the current period
+ *
+ * @param redemptionDates - Local dates of the child's counted redemptions of the reward
+ * @returns the number left, or null when the reward has no limit
+ */
+export function getRedemptionsLeft(
+  limit: RewardLimit | null,
+  redemptionDates: readonly string[],
+  today: string,
+): number | null {
+  if (!limit) {
+    return null;
+  }
+
+  const periodStart = getPeriodStart(limit.period, today);
+  const used = redemptionDates.filter((date) => date >= periodStart && date <= today).length;
+  return Math.max(limit.count - used, 0);
+}
+
+/**
+ * Earliest date the redemptions counted on a date can have, so one query
+ * covers the periods of all limits
+ */
+export function getEarliestPeriodStart(today: string): string {
+  const weekStart = getWeekStart(today);
+  const monthStart = getMonthStart(today);
+  return weekStart < monthStart ? weekStart : monthStart;
+}
+
+/**
+ * The stock after a restock that is due on a date
+ *
+ * @returns the new quantity and restock date, or null when no restock is due
+ */
+export function getDueRestock(
+  stock: RewardStock,
+  today: string,
+): { quantity: number; restockedOn: string } | null {
+  if (!stock.restock) {
+    return null;
+  }
+
+  const periodStart = getPeriodStart(stock.restock.period, today);
+  if (stock.restockedOn !== null && stock.restockedOn >= periodStart) {
+    return null;
+  }
+
+  return { quantity: stock.restock.quantity, restockedOn: periodStart };
+}
+
+/**
+ * Stock on a date, counting a restock that is due but not stored yet
+ */
+export function getCurrentQuantity(stock: RewardStock, today: string): number | null {
+  return getDueRestock(stock, today)?.quantity ?? stock.quantity;
+}
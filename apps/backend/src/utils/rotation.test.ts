@@ -0,0 +1,94 @@
+/**
+ * Round-Robin Rotation Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { rotate } from './rotation.ts';
+import { addDays } from './timezone.ts';
+
+function dateRange(start: string, days: number): string[] {
+  return Array.from({ length: days }, (_, i) => addDays(start, i));
+}
+
+function childrenOf(result: ReturnType<typeof rotate>): (string | null)[] {
+  return result.turns.map((turn) => turn.childId);
+}
+
+describe('Round-Robin Rotation', () => {
+  test('should cycle through three children per occurrence', () => {
+    const result = rotate(['a', 'b', 'c'], dateRange('2026-10-19', 7), 'occurrence', null);
+
+    assert.deepStrictEqual(childrenOf(result), ['a', 'b', 'c', 'a', 'b', 'c', 'a']);
+    assert.deepStrictEqual(result.cursor, { childId: 'a', position: 0, lastDate: '2026-10-25' });
+  });
+
+  test('should keep the same child for a whole week', () => {
+    // 2026-10-22 is a Thursday
+    const result = rotate(['a', 'b', 'c'], dateRange('2026-10-22', 12), 'weekly', null);
+
+    assert.deepStrictEqual(childrenOf(result), [...Array(4).fill('a'), ...Array(7).fill('b'), 'c']);
+  });
+
+  test('should not reset at the year boundary', () => {
+    const weeks = ['2026-12-21', '2026-12-28', '2027-01-04', '2027-01-11'];
+    const result = rotate(['a', 'b', 'c'], weeks, 'weekly', null);
+
+    assert.deepStrictEqual(childrenOf(result), ['a', 'b', 'c', 'a']);
+  });
+
+  test('should continue from the cursor and skip dates already rotated', () => {
+    const first = rotate(['a', 'b', 'c'], dateRange('2026-10-19', 2), 'occurrence', null);
+    const second = rotate(['a', 'b', 'c'], dateRange('2026-10-19', 4), 'occurrence', first.cursor);
+
+    assert.deepStrictEqual(
+      second.turns.map((turn) => turn.date),
+      ['2026-10-21', '2026-10-22'],
+    );
+    assert.deepStrictEqual(childrenOf(second), ['c', 'a']);
+  });
+
+  test('should count elapsed days for daily turns', () => {
+    const cursor = { childId: 'a', position: 0, lastDate: '2026-10-19' };
+    const result = rotate(['a', 'b', 'c'], ['2026-10-21'], 'daily', cursor);
+
+    assert.deepStrictEqual(childrenOf(result), ['c']);
+  });
+
+  test("should pass a removed child's turn to whoever took their slot", () => {
+    const cursor = { childId: 'b', position: 1, lastDate: '2026-10-19' };
+    const result = rotate(['a', 'c', 'd'], ['2026-10-20', '2026-10-21'], 'occurrence', cursor);
+
+    assert.deepStrictEqual(childrenOf(result), ['c', 'd']);
+  });
+
+  test('should fit a newly added child into the order', () => {
+    const cursor = { childId: 'b', position: 1, lastDate: '2026-10-19' };
+    const dates = dateRange('2026-10-20', 4);
+    const result = rotate(['a', 'b', 'new', 'c'], dates, 'occurrence', cursor);
+
+    assert.deepStrictEqual(childrenOf(result), ['new', 'c', 'a', 'b']);
+  });
+
+  test('should skip an away child and continue after the stand-in', () => {
+    const away = (childId: string, date: string) => !(childId === 'b' && date === '2026-10-20');
+    const result = rotate(['a', 'b', 'c'], dateRange('2026-10-19', 4), 'occurrence', null, away);
+
+    assert.deepStrictEqual(childrenOf(result), ['a', 'c', 'a', 'b']);
+  });
+
+  test('should keep the weekly schedule when a child is away for a day', () => {
+    const away = (childId: string, date: string) => !(childId === 'a' && date === '2026-10-20');
+    const dates = dateRange('2026-10-19', 8);
+    const result = rotate(['a', 'b'], dates, 'weekly', null, away);
+
+    assert.deepStrictEqual(childrenOf(result), ['a', 'b', 'a', 'a', 'a', 'a', 'a', 'b']);
+  });
+
+  test('should leave the turn unassigned when everyone is away', () => {
+    const away = (_childId: string, date: string) => date !== '2026-10-19';
+    const result = rotate(['a', 'b'], ['2026-10-19', '2026-10-20'], 'occurrence', null, away);
+
+    assert.deepStrictEqual(childrenOf(result), [null, 'a']);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Round-Robin Rotation
+ *
+ * Decides whose turn a rotating task is on each date. The cursor remembers
+ * the child who had the last turn and their position in the list, so the
+ * order carries on across generation runs and after children are added to
+ * or removed from the rotation.
+ */
+
+import { daysBetween, getWeekStart } from './timezone.js';
+
+/**
+ * How long a turn lasts: a calendar day, an ISO week (Monday to Sunday),
+ * or a single occurrence of the task
+ */
+export type RotationPeriod = 'daily' | 'weekly' | 'occurrence';
+
+export interface RotationCursor {
+  /** Child who had the last turn (null when they have since been deleted) */
+  childId: string | null;
+  /** Their index in the rotation at the time */
+  position: number;
+  /** Last date the rotation was applied to (YYYY-MM-DD) */
+  lastDate: string;
+}
+
+export interface RotationTurn {
+  date: string;
+  /** Child doing the task; null when every child is away */
+  childId: string | null;
+}
+
+export interface RotationResult {
+  turns: RotationTurn[];
+  /** Cursor after the last turn (unchanged when no date was after it) */
+  cursor: RotationCursor | null;
+}
+
+export type ChildAvailability = (childId: string, date: string) => boolean;
+
+const alwaysAvailable: ChildAvailability = () => true;
+
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/**
+ * Number of turns that pass between two dates
+ */
+function turnsBetween(period: RotationPeriod, from: string, to: string): number {
+  switch (period) {
+    case 'daily':
+      return daysBetween(from, to);
+    case 'weekly':
+      return daysBetween(getWeekStart(from), getWeekStart(to)) / 7;
+    case 'occurrence':
+      return 1;
+  }
+}
+
+/**
+ * Assign each date to a child in round-robin order
+ *
+ * Dates up to the cursor's lastDate were rotated by an earlier run and are
+ * skipped. A child who is away hands the turn to the next available child.
+ * With daily and weekly turns the schedule is kept, so the away child simply
+ * misses theirs; per occurrence the rotation continues after whoever stepped in.
+ *
+ * @param children - Children in rotation order (at least one)
+ * @param dates - Ascending YYYY-MM-DD dates the task occurs on
+ */
+export function rotate(
+  children: string[],
+  dates: string[],
+  period: RotationPeriod,
+  cursor: RotationCursor | null,
+  isAvailable: ChildAvailability = alwaysAvailable,
+): RotationResult {
+  const turns: RotationTurn[] = [];
+  let current = cursor;
+
+  if (children.length === 0) {
+    return { turns, cursor };
+  }
+
+  for (const date of dates) {
+    if (current && date <= current.lastDate) continue;
+
+    let position = 0;
+    if (current) {
+      const index = current.childId ? children.indexOf(current.childId) : -1;
+      // A child who left the rotation is followed by whoever now holds their slot
+      const previous = index === -1 ? current.position - 1 : index;
+      position = mod(previous + turnsBetween(period, current.lastDate, date), children.length);
+    }
+
+    let takerPosition: number | null = null;
+    for (let offset = 0; offset < children.length; offset++) {
+      const candidate = mod(position + offset, children.length);
+      if (isAvailable(children[candidate], date)) {
+        takerPosition = candidate;
+        break;
+      }
+    }
+
+    turns.push({
+      date,
+      childId: takerPosition === null ? null : children[takerPosition],
+    });
+
+    if (period === 'occurrence') {
+      // A turn nobody could take is not used up
+      current =
+        takerPosition === null
+          ? { childId: current?.childId ?? null, position: current?.position ?? 0, lastDate: date }
+          : { childId: children[takerPosition], position: takerPosition, lastDate: date };
+    } else {
+      current = { childId: children[position], position, lastDate: date };
+    }
+  }
+
+  return { turns, cursor: current };
+}
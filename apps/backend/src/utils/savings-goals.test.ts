@@ -0,0 +1,71 @@
+/**
+ * Savings Goal Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import {
+  calculateSavingsGoalProgress,
+  canAffordWithEarmarks,
+  getDailyEarningRate,
+  getPointsFreeForGoal,
+} from './savings-goals.ts';
+import type { SavingsGoalFunds } from './savings-goals.ts';
+
+const bike: SavingsGoalFunds = { id: 'bike', pointsCost: 500, earmarkedPoints: 100 };
+const cinema: SavingsGoalFunds = { id: 'cinema', pointsCost: 80, earmarkedPoints: 60 };
+const goals = [bike, cinema];
+
+describe('getPointsFreeForGoal', () => {
+  test('leaves out what is earmarked for the other goals', () => {
+    assert.strictEqual(getPointsFreeForGoal(200, goals, bike), 140);
+    assert.strictEqual(getPointsFreeForGoal(200, goals, cinema), 100);
+  });
+
+  test('never goes below zero', () => {
+    assert.strictEqual(getPointsFreeForGoal(50, goals, cinema), 0);
+  });
+});
+
+describe('canAffordWithEarmarks', () => {
+  test('keeps earmarked points from being spent', () => {
+    assert.strictEqual(canAffordWithEarmarks(200, 160, 40), true);
+    assert.strictEqual(canAffordWithEarmarks(200, 160, 50), false);
+  });
+});
+
+describe('getDailyEarningRate', () => {
+  test('averages the points over the window', () => {
+    assert.strictEqual(getDailyEarningRate(280), 10);
+    assert.strictEqual(getDailyEarningRate(70, 7), 10);
+  });
+
+  test('is zero without earnings', () => {
+    assert.strictEqual(getDailyEarningRate(0), 0);
+  });
+});
+
+describe('calculateSavingsGoalProgress', () => {
+  test('estimates the days left at the earning rate', () => {
+    assert.deepStrictEqual(calculateSavingsGoalProgress(200, goals, bike, 15), {
+      progressPoints: 140,
+      progressPercent: 28,
+      remainingPoints: 360,
+      canAfford: false,
+      estimatedDays: 24,
+    });
+  });
+
+  test('caps the progress at the cost', () => {
+    const progress = calculateSavingsGoalProgress(1000, goals, cinema, 15);
+
+    assert.strictEqual(progress.progressPoints, 80);
+    assert.strictEqual(progress.progressPercent, 100);
+    assert.strictEqual(progress.canAfford, true);
+    assert.strictEqual(progress.estimatedDays, 0);
+  });
+
+  test('has no estimate without recent earnings', () => {
+    assert.strictEqual(calculateSavingsGoalProgress(200, goals, bike, 0).estimatedDays, null);
+  });
+});
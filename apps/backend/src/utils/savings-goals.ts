@@ -0,0 +1,92 @@
+/**
+ * Savings goals
+ *
+ * Earmarked points stay in a child's balance but are kept for one goal: no
+ * other reward or goal can spend them. A goal can be afforded once the
+ * balance minus what is earmarked for the child's other goals covers its
+ * cost. See services/savings-goal.service.ts for where the numbers come from.
+ */
+
+/**
+ * Days of approved completions the earning rate is averaged over
+ */
+export const EARNING_RATE_WINDOW_DAYS = 28;
+
+export interface SavingsGoalFunds {
+  id: string;
+  pointsCost: number;
+  earmarkedPoints: number;
+}
+
+export interface SavingsGoalProgress {
+  progressPoints: number;
+  progressPercent: number;
+  remainingPoints: number;
+  canAfford: boolean;
+  /** Days until affordable at the daily rate, null when nothing was earned lately */
+  estimatedDays: number | null;
+}
+
+/**
+ * Points earmarked across all of a child's goals
+ */
+export function getEarmarkedTotal(goals: readonly SavingsGoalFunds[]): number {
+  return goals.reduce((sum, goal) => sum + goal.earmarkedPoints, 0);
+}
+
+/**
+ * Points a goal can count on: the balance minus the other goals' earmarks
+ */
+export function getPointsFreeForGoal(
+  balance: number,
+  goals: readonly SavingsGoalFunds[],
+  goal: SavingsGoalFunds,
+): number {
+  return Math.max(balance - (getEarmarkedTotal(goals) - goal.earmarkedPoints), 0);
+}
+
+/**
+ * Whether a reward can be redeemed without touching points earmarked for
+ * other goals (the reward's own goal, if any, is left out of earmarked)
+ */
+export function canAffordWithEarmarks(balance: number, earmarked: number, cost: number): boolean {
+  return balance - earmarked >= cost;
+}
+
+/**
+ * Average points earned per day over the rate window
+ */
+export function getDailyEarningRate(
+  pointsEarned: number,
+  days: number = EARNING_RATE_WINDOW_DAYS,
+): number {
+  return days > 0 ? Math.max(pointsEarned, 0) / days : 0;
+}
+
+/**
+ * Progress of one goal and how long until it can be afforded
+ */
+export function calculateSavingsGoalProgress(
+  balance: number,
+  goals: readonly SavingsGoalFunds[],
+  goal: SavingsGoalFunds,
+  dailyRate: number,
+): SavingsGoalProgress {
+  const progressPoints = Math.min(getPointsFreeForGoal(balance, goals, goal), goal.pointsCost);
+  const remainingPoints = goal.pointsCost - progressPoints;
+
+  let estimatedDays: number | null = null;
+  if (remainingPoints === 0) {
+    estimatedDays = 0;
+  } else if (dailyRate > 0) {
+    estimatedDays = Math.ceil(remainingPoints / dailyRate);
+  }
+
+  return {
+    progressPoints,
+    progressPercent: Math.floor((progressPoints * 100) / goal.pointsCost),
+    remainingPoints,
+    canAfford: remainingPoints === 0,
+    estimatedDays,
+  };
+}
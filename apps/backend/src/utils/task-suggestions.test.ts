@@ -0,0 +1,117 @@
+/**
+ * Task Suggestion Ranking Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import type { TaskTemplate } from '@st44/types';
+import {
+  rankTaskSuggestions,
+  type ChildChoreHistory,
+  type SuggestionCandidate,
+} from './task-suggestions.ts';
+
+function candidate(
+  id: string,
+  overrides: Partial<TaskTemplate> = {},
+  names: string[] = [id],
+): SuggestionCandidate {
+  return {
+    template: {
+      id,
+      source: 'builtin',
+      name: names[0],
+      description: null,
+      points: 10,
+      ruleType: 'daily',
+      ruleConfig: null,
+      minAge: null,
+      maxAge: null,
+      ...overrides,
+    },
+    names,
+  };
+}
+
+function history(overrides: Partial<ChildChoreHistory> = {}): ChildChoreHistory {
+  return {
+    age: 10,
+    currentTaskNames: [],
+    completionsByTaskName: new Map(),
+    completionRate: null,
+    ...overrides,
+  };
+}
+
+function ids(candidates: SuggestionCandidate[], childHistory: ChildChoreHistory, limit = 10) {
+  return rankTaskSuggestions(candidates, childHistory, limit).map((s) => s.template.id);
+}
+
+describe('Task Suggestions', () => {
+  test('should leave out chores the child is too young for', () => {
+    const result = ids(
+      [candidate('make_bed', { minAge: 4 }), candidate('clean_bathroom', { minAge: 12 })],
+      history({ age: 8 }),
+    );
+
+    assert.deepStrictEqual(result, ['make_bed']);
+  });
+
+  test('should prefer chores that just became suitable over ones the child outgrew', () => {
+    const result = ids(
+      [
+        candidate('set_table', { minAge: 5, maxAge: 12 }),
+        candidate('make_bed', { minAge: 4 }),
+        candidate('walk_dog', { minAge: 13 }),
+      ],
+      history({ age: 14 }),
+    );
+
+    assert.deepStrictEqual(result, ['walk_dog', 'make_bed', 'set_table']);
+  });
+
+  test('should leave out chores the child already has, in any language', () => {
+    const result = ids(
+      [candidate('walk_dog', {}, ['Gå tur med hunden', 'Walk the dog']), candidate('vacuum')],
+      history({ currentTaskNames: ['  walk the DOG '] }),
+    );
+
+    assert.deepStrictEqual(result, ['vacuum']);
+  });
+
+  test('should move chores the child has completed before up', () => {
+    const suggestions = rankTaskSuggestions(
+      [candidate('vacuum'), candidate('feed_pet')],
+      history({ completionsByTaskName: new Map([['Feed_Pet', 3]]) }),
+      10,
+    );
+
+    assert.strictEqual(suggestions[0].template.id, 'feed_pet');
+    assert.deepStrictEqual(suggestions[0].reasons, ['age_fit', 'completed_before']);
+  });
+
+  test('should prefer light chores for a child who completes few assignments', () => {
+    const candidates = [candidate('vacuum', { points: 20 }), candidate('make_bed', { points: 5 })];
+
+    assert.deepStrictEqual(ids(candidates, history({ completionRate: 0.9 })), [
+      'vacuum',
+      'make_bed',
+    ]);
+    assert.deepStrictEqual(ids(candidates, history({ completionRate: 0.2 })), [
+      'make_bed',
+      'vacuum',
+    ]);
+  });
+
+  test('should rank by history alone when the age is unknown', () => {
+    const suggestions = rankTaskSuggestions(
+      [candidate('clean_bathroom', { minAge: 12 }), candidate('make_bed')],
+      history({ age: null }),
+      1,
+    );
+
+    assert.strictEqual(suggestions.length, 1);
+    assert.strictEqual(suggestions[0].template.id, 'clean_bathroom');
+    assert.deepStrictEqual(suggestions[0].reasons, []);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Task Suggestions
+ *
+ * Ranks task templates for one child by age fit, the chores they already do
+ * and how they have been doing with their assignments.
+ */
+
+import type { TaskSuggestion, TaskSuggestionReason, TaskTemplate } from '@st44/types';
+
+/**
+ * A template with every name a task made from it may have (built-in
+ * templates are named differently per language)
+ */
+export interface SuggestionCandidate {
+  template: TaskTemplate;
+  names: string[];
+}
+
+export interface ChildChoreHistory {
+  /** Age this year (null when the birth year is unknown) */
+  age: number | null;
+  /** Names of active tasks the child is assigned to */
+  currentTaskNames: string[];
+  /** Completions per task name, approved or awaiting review */
+  completionsByTaskName: Map<string, number>;
+  /** Share of recent past assignments completed (null with too few to tell) */
+  completionRate: number | null;
+}
+
+/**
+ * Below this completion rate lighter chores are preferred
+ */
+const LOW_COMPLETION_RATE = 0.5;
+
+/**
+ * Chores worth this many points or fewer count as light
+ */
+const LIGHT_CHORE_POINTS = 10;
+
+/**
+ * Compare task names regardless of case and surrounding whitespace
+ */
+export function normalizeTaskName(name: string): string {
+  return name.trim().toLocaleLowerCase();
+}
+
+/**
+ * Age part of the score: templates that only just became suitable rank
+ * highest, templates the child has outgrown rank lowest
+ */
+function scoreAge(template: TaskTemplate, age: number): number {
+  if (template.maxAge !== null && age > template.maxAge) {
+    return -10 * (age - template.maxAge);
+  }
+
+  return 30 - 3 * Math.min(age - (template.minAge ?? 0), 10);
+}
+
+/**
+ * Rank templates for a child, best first
+ *
+ * Templates the child is too young for or already has a task for are left
+ * out; ties keep the order of the candidates.
+ */
+export function rankTaskSuggestions(
+  candidates: SuggestionCandidate[],
+  history: ChildChoreHistory,
+  limit: number,
+): TaskSuggestion[] {
+  const currentNames = new Set(history.currentTaskNames.map(normalizeTaskName));
+  const completions = new Map(
+    [...history.completionsByTaskName].map(([name, count]) => [normalizeTaskName(name), count]),
+  );
+  const struggling =
+    history.completionRate !== null && history.completionRate < LOW_COMPLETION_RATE;
+
+  const suggestions: TaskSuggestion[] = [];
+
+  for (const { template, names } of candidates) {
+    const normalizedNames = names.map(normalizeTaskName);
+    if (normalizedNames.some((name) => currentNames.has(name))) continue;
+
+    const { age } = history;
+    if (age !== null && template.minAge !== null && age < template.minAge) continue;
+
+    const reasons: TaskSuggestionReason[] = [];
+    let score = 0;
+
+    if (age !== null) {
+      score += scoreAge(template, age);
+      if (template.maxAge === null || age <= template.maxAge) {
+        reasons.push('age_fit');
+      }
+    }
+
+    const completedBefore = normalizedNames.reduce(
+      (total, name) => total + (completions.get(name) ?? 0),
+      0,
+    );
+    if (completedBefore > 0) {
+      score += 10 + Math.min(completedBefore, 10);
+      reasons.push('completed_before');
+    }
+
+    if (struggling && template.points <= LIGHT_CHORE_POINTS) {
+      score += 10;
+      reasons.push('light_chore');
+    }
+
+    suggestions.push({ template, score, reasons });
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep the catalogue order
+  return suggestions.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,82 @@
+/**
+ * Household Timezone Utilities Unit Tests
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import {
+  isValidTimeZone,
+  toLocalDateString,
+  getLocalToday,
+  addDays,
+  daysBetween,
+  getWeekStart,
+  getMonthStart,
+} from './timezone.ts';
+
+describe('Timezone Utilities', () => {
+  describe('isValidTimeZone', () => {
+    test('should accept IANA timezone names', () => {
+      assert.strictEqual(isValidTimeZone('UTC'), true);
+      assert.strictEqual(isValidTimeZone('Europe/Oslo'), true);
+      assert.strictEqual(isValidTimeZone('America/Los_Angeles'), true);
+    });
+
+    test('should reject unknown or malformed names', () => {
+      assert.strictEqual(isValidTimeZone('Mars/Olympus_Mons'), false);
+      assert.strictEqual(isValidTimeZone(''), false);
+      assert.strictEqual(isValidTimeZone(' Europe/Oslo'), false);
+    });
+  });
+
+  describe('toLocalDateString', () => {
+    test('should put a 00:30 Oslo completion on the Oslo day', () => {
+      // 00:30 in Oslo (CET, UTC+1) is still the previous day in UTC
+      const instant = new Date('2026-01-14T23:30:00Z');
+      assert.strictEqual(toLocalDateString(instant, 'Europe/Oslo'), '2026-01-15');
+      assert.strictEqual(toLocalDateString(instant, 'UTC'), '2026-01-14');
+    });
+
+    test('should follow daylight saving time', () => {
+      // Oslo is UTC+2 in summer
+      const instant = new Date('2026-07-01T22:30:00Z');
+      assert.strictEqual(toLocalDateString(instant, 'Europe/Oslo'), '2026-07-02');
+    });
+
+    test('should handle timezones behind UTC', () => {
+      const instant = new Date('2026-01-15T03:00:00Z');
+      assert.strictEqual(toLocalDateString(instant, 'America/New_York'), '2026-01-14');
+    });
+  });
+
+  describe('getLocalToday', () => {
+    test('should use the provided clock', () => {
+      const now = new Date('2026-03-01T23:15:00Z');
+      assert.strictEqual(getLocalToday('Asia/Tokyo', now), '2026-03-02');
+    });
+  });
+
+  describe('calendar arithmetic', () => {
+    test('addDays should cross month and year boundaries', () => {
+      assert.strictEqual(addDays('2026-12-31', 1), '2027-01-01');
+      assert.strictEqual(addDays('2026-03-01', -1), '2026-02-28');
+    });
+
+    test('daysBetween should count calendar days', () => {
+      assert.strictEqual(daysBetween('2026-01-15', '2026-01-18'), 3);
+      assert.strictEqual(daysBetween('2026-01-15', '2026-01-14'), -1);
+      assert.strictEqual(daysBetween('2026-03-28', '2026-03-30'), 2);
+    });
+
+    test('getWeekStart should return Monday', () => {
+      assert.strictEqual(getWeekStart('2026-01-15'), '2026-01-12'); // Thursday
+      assert.strictEqual(getWeekStart('2026-01-18'), '2026-01-12'); // Sunday
+      assert.strictEqual(getWeekStart('2026-01-12'), '2026-01-12'); // Monday
+    });
+
+    test('getMonthStart should support offsets', () => {
+      assert.strictEqual(getMonthStart('2026-01-15'), '2026-01-01');
+      assert.strictEqual(getMonthStart('2026-01-15', -1), '2025-12-01');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Household Timezone Utilities
+ *
+ * Households live on their own local calendar: a chore completed at 00:30 in
+ * Oslo belongs to that Oslo day, not to the previous UTC day. These helpers
+ * turn instants into local calendar dates (YYYY-MM-DD) and do calendar
+ * arithmetic on those strings without depending on the server's timezone.
+ */
+
+/**
+ * Timezone used for households that have not configured one
+ */
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    // en-CA formats dates as YYYY-MM-DD
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is a valid IANA timezone name (e.g. "Europe/Oslo")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone || timeZone.trim() !== timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the local calendar date of an instant in a timezone
+ *
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function toLocalDateString(instant: Date, timeZone: string): string {
+  return getFormatter(timeZone).format(instant);
+}
+
+/**
+ * Get today's local calendar date in a timezone
+ *
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function getLocalToday(timeZone: string, now: Date = new Date()): string {
+  return toLocalDateString(now, timeZone);
+}
+
+/**
+ * Parse a YYYY-MM-DD string as a UTC midnight Date (calendar date carrier)
+ */
+export function parseDateString(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+/**
+ * Format a calendar date carrier (UTC midnight Date) as YYYY-MM-DD
+ */
+export function formatDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Add (or subtract) calendar days to a YYYY-MM-DD string
+ */
+export function addDays(date: string, days: number): string {
+  return formatDateString(new Date(parseDateString(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Number of calendar days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDateString(to).getTime() - parseDateString(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Monday of the week containing the given YYYY-MM-DD date
+ */
+export function getWeekStart(date: string): string {
+  const dayOfWeek = parseDateString(date).getUTCDay();
+  const mondayOffset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
+  return addDays(date, mondayOffset);
+}
+
+/**
+ * First day of the month containing the given YYYY-MM-DD date
+ */
+export function getMonthStart(date: string, monthOffset = 0): string {
+  const parsed = parseDateString(date);
+  return formatDateString(
+    new Date(Date.UTC(parsed.getUTCFullYear(), parsed.getUTCMonth() + monthOffset, 1)),
+  );
+}
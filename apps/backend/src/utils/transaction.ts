@@ -56,6 +56,37 @@ export async function withTransaction<T>(
   }
 }
 
+let savepointCounter = 0;
+
+/**
+ * Execute a database operation within a savepoint on a client that is
+ * already in a transaction (e.g. the household scope of a request).
+ *
+ * Rolls back to the savepoint on error, so a handler that catches the error
+ * can continue using the outer transaction.
+ *
+ * @param client - Client with an open transaction
+ * @param handler - Async function that performs database operations using the client
+ * @returns The result of the handler function
+ * @throws Rethrows any error from the handler after rolling back to the savepoint
+ */
+export async function withSavepoint<T>(
+  client: PoolClient,
+  handler: (client: PoolClient) => Promise<T>,
+): Promise<T> {
+  const savepoint = `sp_${++savepointCounter}`;
+
+  await client.query(`SAVEPOINT ${savepoint}`);
+  try {
+    const result = await handler(client);
+    await client.query(`RELEASE SAVEPOINT ${savepoint}`);
+    return result;
+  } catch (error) {
+    await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+    throw error;
+  }
+}
+
 /**
  * Type for the transaction handler function
  */
@@ -100,9 +100,13 @@ export function validateRequestSafe<T>(
 /**
  * Fastify error handler for Zod validation errors
  * Send 400 response with formatted validation errors
+ *
+ * Returns the reply so async handlers can `return handleZodError(...)`;
+ * resolving to undefined while the household scope commits in onSend makes
+ * Fastify send the response a second time.
  */
-export function handleZodError(error: z.ZodError, reply: FastifyReply): void {
-  reply.code(400).send({
+export function handleZodError(error: z.ZodError, reply: FastifyReply): FastifyReply {
+  return reply.code(400).send({
     statusCode: 400,
     error: 'Bad Request',
     message: 'Validation failed',
@@ -37,11 +37,11 @@ export const routes: Routes = [
       ),
   },
 
-  // Parent/Admin routes - wrapped in MainLayout
+  // Parent/Admin/Caregiver routes - wrapped in MainLayout
   {
     path: '',
     loadComponent: () => import('./layouts/main-layout/main-layout').then((m) => m.MainLayout),
-    canActivate: [roleGuard(['admin', 'parent'])],
+    canActivate: [roleGuard(['admin', 'parent', 'caregiver'])],
     children: [
       {
         path: 'home',
@@ -51,6 +51,7 @@ export const routes: Routes = [
       {
         path: 'tasks',
         title: 'Tasks - Diddit!',
+        canActivate: [roleGuard(['admin', 'parent'])],
         loadComponent: () => import('./pages/tasks/tasks').then((m) => m.Tasks),
       },
       {
@@ -66,6 +67,7 @@ export const routes: Routes = [
       {
         path: 'rewards',
         title: 'Rewards - Diddit!',
+        canActivate: [roleGuard(['admin', 'parent'])],
         loadComponent: () =>
           import('./pages/rewards-management/rewards-management').then(
             (m) => m.RewardsManagementComponent,
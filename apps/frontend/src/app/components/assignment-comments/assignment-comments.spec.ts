@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import type { AssignmentComment } from '@st44/types';
+import { AssignmentCommentsComponent } from './assignment-comments';
+import { TaskService } from '../../services/task.service';
+
+describe('AssignmentCommentsComponent', () => {
+  let component: AssignmentCommentsComponent;
+  let fixture: ComponentFixture<AssignmentCommentsComponent>;
+  let mockTaskService: {
+    getAssignmentComments: ReturnType<typeof vi.fn>;
+    addAssignmentComment: ReturnType<typeof vi.fn>;
+  };
+
+  const instruction: AssignmentComment = {
+    id: 'comment-1',
+    assignmentId: 'assignment-1',
+    authorUserId: 'user-1',
+    authorRole: 'parent',
+    authorName: 'Kari',
+    body: 'Bruk den blå bøtta\nog skyll godt',
+    createdAt: '2026-10-18T08:00:00.000Z',
+  };
+
+  const answer: AssignmentComment = {
+    ...instruction,
+    id: 'comment-2',
+    authorUserId: 'user-2',
+    authorRole: 'child',
+    authorName: 'Emma',
+    body: 'OK!',
+  };
+
+  beforeEach(async () => {
+    mockTaskService = {
+      getAssignmentComments: vi.fn().mockResolvedValue([instruction]),
+      addAssignmentComment: vi.fn().mockResolvedValue(answer),
+    };
+
+    await TestBed.configureTestingModule({
+      imports: [AssignmentCommentsComponent],
+      providers: [{ provide: TaskService, useValue: mockTaskService }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(AssignmentCommentsComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('assignmentId', 'assignment-1');
+  });
+
+  async function render() {
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+  }
+
+  it('should load the thread on init', async () => {
+    await render();
+
+    expect(mockTaskService.getAssignmentComments).toHaveBeenCalledWith('assignment-1');
+    const comments = fixture.nativeElement.querySelectorAll('.comment');
+    expect(comments.length).toBe(1);
+    expect(comments[0].querySelector('.comment-author').textContent).toContain('Kari');
+    expect(comments[0].querySelector('.comment-role').textContent).toContain('Forelder');
+  });
+
+  it('should render comment bodies as plain text', async () => {
+    mockTaskService.getAssignmentComments.mockResolvedValue([
+      { ...instruction, body: '<img src=x onerror="alert(1)">' },
+    ]);
+    await render();
+
+    const body = fixture.nativeElement.querySelector('.comment-body') as HTMLElement;
+    expect(body.textContent).toBe('<img src=x onerror="alert(1)">');
+    expect(body.querySelector('img')).toBeNull();
+  });
+
+  it('should show an empty state when there are no comments', async () => {
+    mockTaskService.getAssignmentComments.mockResolvedValue([]);
+    await render();
+
+    expect(fixture.nativeElement.querySelector('.empty-state')).toBeTruthy();
+  });
+
+  it('should append a sent comment and clear the draft', async () => {
+    await render();
+
+    component.draft.set('  OK!  ');
+    await component.send();
+    fixture.detectChanges();
+
+    expect(mockTaskService.addAssignmentComment).toHaveBeenCalledWith('assignment-1', 'OK!');
+    expect(component.comments().map((c) => c.id)).toEqual(['comment-1', 'comment-2']);
+    expect(component.draft()).toBe('');
+  });
+
+  it('should not send a blank draft', async () => {
+    await render();
+
+    component.draft.set('   ');
+    await component.send();
+
+    expect(component.canSend()).toBe(false);
+    expect(mockTaskService.addAssignmentComment).not.toHaveBeenCalled();
+  });
+
+  it('should keep the draft and show an error when sending fails', async () => {
+    mockTaskService.addAssignmentComment.mockRejectedValue(new Error('Network error'));
+    await render();
+
+    component.draft.set('OK!');
+    await component.send();
+    fixture.detectChanges();
+
+    expect(component.draft()).toBe('OK!');
+    expect(component.errorMessage()).toBeTruthy();
+    expect(fixture.nativeElement.querySelector('.alert-error')).toBeTruthy();
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  computed,
+  inject,
+  input,
+  signal,
+  OnInit,
+} from '@angular/core';
+import { DatePipe } from '@angular/common';
+import type { AssignmentComment, AssignmentCommentAuthorRole } from '@st44/types';
+import { TaskService } from '../../services/task.service';
+
+const ROLE_LABELS: Record<AssignmentCommentAuthorRole, string> = {
+  admin: $localize`:@@assignmentComments.roleParent:Forelder`,
+  parent: $localize`:@@assignmentComments.roleParent:Forelder`,
+  caregiver: $localize`:@@assignmentComments.roleCaregiver:Barnevakt`,
+  child: $localize`:@@assignmentComments.roleChild:Barn`,
+};
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+/**
+ * Assignment Comments Component
+ *
+ * The comment thread of one assignment: instructions from parents and
+ * answers from the child. Comments are shown as plain text only.
+ */
+@Component({
+  selector: 'app-assignment-comments',
+  imports: [DatePipe],
+  templateUrl: './assignment-comments.html',
+  styleUrl: './assignment-comments.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AssignmentCommentsComponent implements OnInit {
+  private readonly taskService = inject(TaskService);
+
+  assignmentId = input.required<string>();
+
+  comments = signal<AssignmentComment[]>([]);
+  draft = signal('');
+  isLoading = signal(false);
+  isSending = signal(false);
+  errorMessage = signal<string | null>(null);
+
+  readonly maxLength = MAX_COMMENT_LENGTH;
+  canSend = computed(() => this.draft().trim().length > 0 && !this.isSending());
+
+  ngOnInit() {
+    this.loadComments();
+  }
+
+  async loadComments() {
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      this.comments.set(await this.taskService.getAssignmentComments(this.assignmentId()));
+    } catch (error) {
+      console.error('Failed to load comments:', error);
+      this.errorMessage.set(
+        $localize`:@@assignmentComments.loadFailed:Kunne ikke laste kommentarer. Vennligst prøv igjen.`,
+      );
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  onDraftInput(event: Event) {
+    this.draft.set((event.target as HTMLTextAreaElement).value);
+  }
+
+  async send() {
+    if (!this.canSend()) {
+      return;
+    }
+
+    this.isSending.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      const comment = await this.taskService.addAssignmentComment(
+        this.assignmentId(),
+        this.draft().trim(),
+      );
+      this.comments.update((comments) => [...comments, comment]);
+      this.draft.set('');
+    } catch (error) {
+      console.error('Failed to add comment:', error);
+      this.errorMessage.set(
+        $localize`:@@assignmentComments.sendFailed:Kunne ikke sende kommentaren. Vennligst prøv igjen.`,
+      );
+    } finally {
+      this.isSending.set(false);
+    }
+  }
+
+  getRoleLabel(role: AssignmentCommentAuthorRole): string {
+    return ROLE_LABELS[role];
+  }
+}
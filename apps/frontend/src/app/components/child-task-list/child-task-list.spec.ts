@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { of } from 'rxjs';
+import { format } from 'date-fns';
+import type { Assignment } from '@st44/types';
+import { ChildTaskListComponent } from './child-task-list';
+import { TaskService } from '../../services/task.service';
+import { AuthService } from '../../services/auth.service';
+
+describe('ChildTaskListComponent', () => {
+  let fixture: ComponentFixture<ChildTaskListComponent>;
+  let mockTaskService: {
+    assignments: ReturnType<typeof signal<Assignment[]>>;
+    assignmentsLoading: ReturnType<typeof signal<boolean>>;
+    assignmentsError: ReturnType<typeof signal<string | null>>;
+    getChildTasks: ReturnType<typeof vi.fn>;
+    completeTask: ReturnType<typeof vi.fn>;
+    updateAssignmentChecklist: ReturnType<typeof vi.fn>;
+  };
+
+  const kitchen: Assignment = {
+    id: 'assignment-1',
+    taskId: 'task-1',
+    title: 'Rydde kjøkkenet',
+    description: null,
+    ruleType: 'daily',
+    childId: 'child-1',
+    childName: 'Emma',
+    date: format(new Date(), 'yyyy-MM-dd'),
+    status: 'pending',
+    completedAt: null,
+    createdAt: new Date().toISOString(),
+    checklist: [
+      { id: 'dishes', label: 'Tømme oppvaskmaskinen', checked: true },
+      { id: 'table', label: 'Tørke av bordet', checked: false },
+    ],
+  };
+
+  beforeEach(async () => {
+    mockTaskService = {
+      assignments: signal<Assignment[]>([kitchen]),
+      assignmentsLoading: signal(false),
+      assignmentsError: signal<string | null>(null),
+      getChildTasks: vi.fn().mockReturnValue(of([kitchen])),
+      completeTask: vi.fn(),
+      updateAssignmentChecklist: vi.fn().mockResolvedValue(undefined),
+    };
+
+    await TestBed.configureTestingModule({
+      imports: [ChildTaskListComponent],
+      providers: [
+        { provide: TaskService, useValue: mockTaskService },
+        { provide: AuthService, useValue: { currentUser: signal({ id: 'child-1' }) } },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ChildTaskListComponent);
+    fixture.detectChanges();
+  });
+
+  it('should render the checklist of an assignment', () => {
+    const items = fixture.nativeElement.querySelectorAll('.checklist-item');
+
+    expect(items.length).toBe(2);
+    expect(items[0].textContent).toContain('Tømme oppvaskmaskinen');
+    expect(items[0].classList.contains('checked')).toBe(true);
+    expect(items[1].querySelector('input').checked).toBe(false);
+  });
+
+  it('should tick an item through the task service', () => {
+    const input = fixture.nativeElement.querySelectorAll('.checklist-item input')[1];
+    input.click();
+
+    expect(mockTaskService.updateAssignmentChecklist).toHaveBeenCalledWith(
+      'assignment-1',
+      'table',
+      true,
+    );
+  });
+
+  it('should not render a checklist for tasks without one', () => {
+    mockTaskService.assignments.set([{ ...kitchen, checklist: [] }]);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.checklist')).toBeNull();
+  });
+
+  it('should lock the checklist once the task is done', () => {
+    mockTaskService.assignments.set([{ ...kitchen, status: 'completed' }]);
+    fixture.detectChanges();
+
+    const inputs = fixture.nativeElement.querySelectorAll('.checklist-item input');
+    expect(Array.from(inputs).every((input) => (input as HTMLInputElement).disabled)).toBe(true);
+  });
+});
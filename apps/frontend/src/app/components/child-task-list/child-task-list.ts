@@ -105,6 +105,18 @@ export class ChildTaskListComponent implements OnInit {
     }
   }
 
+  /**
+   * Tick or untick a checklist item; the service undoes the tick if saving fails
+   */
+  protected async onToggleItem(assignmentId: string, itemId: string, event: Event): Promise<void> {
+    const checked = (event.target as HTMLInputElement).checked;
+    try {
+      await this.taskService.updateAssignmentChecklist(assignmentId, itemId, checked);
+    } catch (err) {
+      console.error('Failed to update checklist:', err);
+    }
+  }
+
   /**
    * Filter assignments by date range
    */
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { CompletionPhotoComponent } from './completion-photo';
+import { ReviewService } from '../../services/review.service';
+
+describe('CompletionPhotoComponent', () => {
+  let fixture: ComponentFixture<CompletionPhotoComponent>;
+  let mockReviewService: { getPhoto: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    mockReviewService = {
+      getPhoto: vi.fn().mockReturnValue(of(new Blob(['jpeg'], { type: 'image/jpeg' }))),
+    };
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:photo-1');
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => undefined);
+
+    await TestBed.configureTestingModule({
+      imports: [CompletionPhotoComponent],
+      providers: [{ provide: ReviewService, useValue: mockReviewService }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(CompletionPhotoComponent);
+    fixture.componentRef.setInput('householdId', 'household-1');
+    fixture.componentRef.setInput('assignmentId', 'assignment-1');
+    fixture.componentRef.setInput('taskName', 'Clean Room');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should show the photo of the completion', () => {
+    fixture.detectChanges();
+
+    expect(mockReviewService.getPhoto).toHaveBeenCalledWith('household-1', 'assignment-1');
+    const img = (fixture.nativeElement as HTMLElement).querySelector('img');
+    expect(img?.getAttribute('src')).toBe('blob:photo-1');
+    expect(img?.getAttribute('alt')).toContain('Clean Room');
+  });
+
+  it('should release the photo when destroyed', () => {
+    fixture.detectChanges();
+    fixture.destroy();
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:photo-1');
+  });
+
+  it('should say when the photo has been purged', () => {
+    mockReviewService.getPhoto.mockReturnValue(throwError(() => ({ status: 410 })));
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('img')).toBeNull();
+    expect(compiled.textContent).toContain('Bildet er slettet');
+  });
+});
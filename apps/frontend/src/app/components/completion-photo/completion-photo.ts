@@ -0,0 +1,65 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  DestroyRef,
+  inject,
+  input,
+  signal,
+  OnInit,
+} from '@angular/core';
+import { ReviewService } from '../../services/review.service';
+
+/**
+ * Completion Photo Component
+ *
+ * Shows the photo a child took as proof of a completed task. Photos are
+ * fetched with the user's token, so they are shown from an object URL that
+ * is released again when the component goes away.
+ */
+@Component({
+  selector: 'app-completion-photo',
+  templateUrl: './completion-photo.html',
+  styleUrl: './completion-photo.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CompletionPhotoComponent implements OnInit {
+  private readonly reviewService = inject(ReviewService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  householdId = input.required<string>();
+  assignmentId = input.required<string>();
+  /** Used for the image's alt text */
+  taskName = input('');
+
+  photoUrl = signal<string | null>(null);
+  isLoading = signal(false);
+  /** The photo was deleted after the retention period */
+  isPurged = signal(false);
+  hasError = signal(false);
+
+  constructor() {
+    this.destroyRef.onDestroy(() => this.releasePhoto());
+  }
+
+  ngOnInit() {
+    this.isLoading.set(true);
+    this.reviewService.getPhoto(this.householdId(), this.assignmentId()).subscribe({
+      next: (blob) => {
+        this.photoUrl.set(URL.createObjectURL(blob));
+        this.isLoading.set(false);
+      },
+      error: (error: { status?: number }) => {
+        this.isPurged.set(error?.status === 410);
+        this.hasError.set(error?.status !== 410);
+        this.isLoading.set(false);
+      },
+    });
+  }
+
+  private releasePhoto() {
+    const url = this.photoUrl();
+    if (url) {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import type { AuditEvent, AuditEventListResponse } from '@st44/types';
+import { HouseholdActivityComponent } from './household-activity';
+import { AuditService } from '../../services/audit.service';
+
+describe('HouseholdActivityComponent', () => {
+  let component: HouseholdActivityComponent;
+  let fixture: ComponentFixture<HouseholdActivityComponent>;
+  let mockAuditService: { listAuditEvents: ReturnType<typeof vi.fn> };
+
+  const reassignEvent: AuditEvent = {
+    id: 'event-1',
+    householdId: 'household-1',
+    actorUserId: 'user-1',
+    actorName: 'Kari',
+    action: 'assignment.reassigned',
+    entityType: 'assignment',
+    entityId: 'assignment-1',
+    before: { childId: 'child-1' },
+    after: { childId: 'child-2', childName: 'Noah' },
+    requestId: 'req-1',
+    createdAt: '2026-10-18T09:00:00.000Z',
+  };
+
+  function listResponse(events: AuditEvent[], page = 1, totalPages = 1): AuditEventListResponse {
+    return {
+      events,
+      pagination: {
+        page,
+        pageSize: 20,
+        total: events.length,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  beforeEach(async () => {
+    mockAuditService = {
+      listAuditEvents: vi.fn().mockResolvedValue(listResponse([reassignEvent])),
+    };
+
+    await TestBed.configureTestingModule({
+      imports: [HouseholdActivityComponent],
+      providers: [{ provide: AuditService, useValue: mockAuditService }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(HouseholdActivityComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('householdId', 'household-1');
+  });
+
+  it('should load the first page on init', async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    expect(mockAuditService.listAuditEvents).toHaveBeenCalledWith('household-1', {
+      entityType: undefined,
+      page: 1,
+      pageSize: 20,
+    });
+    expect(component.events()).toEqual([reassignEvent]);
+  });
+
+  it('should show who did what', async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+
+    const item = fixture.nativeElement.querySelector('.activity-item');
+    expect(item.textContent).toContain('Kari');
+    expect(item.textContent).toContain('Noah');
+    expect(item.querySelector('.activity-changes').textContent).toContain('childId');
+  });
+
+  it('should reload from the first page when the filter changes', async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    const select: HTMLSelectElement = fixture.nativeElement.querySelector('#activity-filter');
+    select.value = 'points';
+    select.dispatchEvent(new Event('change'));
+    await fixture.whenStable();
+
+    expect(mockAuditService.listAuditEvents).toHaveBeenLastCalledWith('household-1', {
+      entityType: 'points',
+      page: 1,
+      pageSize: 20,
+    });
+  });
+
+  it('should page to older events', async () => {
+    mockAuditService.listAuditEvents.mockResolvedValue(listResponse([reassignEvent], 1, 3));
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+
+    const buttons = fixture.nativeElement.querySelectorAll('.activity-pagination button');
+    expect(buttons[0].disabled).toBe(true);
+    buttons[1].click();
+    await fixture.whenStable();
+
+    expect(mockAuditService.listAuditEvents).toHaveBeenLastCalledWith(
+      'household-1',
+      expect.objectContaining({ page: 2 }),
+    );
+  });
+
+  it('should only list fields that changed', () => {
+    expect(
+      component.getChangedFields({
+        ...reassignEvent,
+        action: 'task.updated',
+        before: { name: 'Feed the cat', points: 5 },
+        after: { name: 'Feed the cat', points: 10 },
+      }),
+    ).toEqual(['points']);
+    expect(component.getChangedFields({ ...reassignEvent, before: null })).toEqual([]);
+  });
+
+  it('should show an error when loading fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockAuditService.listAuditEvents.mockRejectedValue(new Error('Forbidden'));
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    expect(component.errorMessage()).toBeTruthy();
+    expect(component.isLoading()).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  computed,
+  inject,
+  input,
+  signal,
+  OnInit,
+} from '@angular/core';
+import { DatePipe } from '@angular/common';
+import type { AuditAction, AuditEntityType, AuditEvent, PaginationMeta } from '@st44/types';
+import { AuditService } from '../../services/audit.service';
+
+const PAGE_SIZE = 20;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'household.updated': $localize`:@@householdActivity.householdUpdated:endret husstanden`,
+  'household.imported': $localize`:@@householdActivity.householdImported:importerte husstanden`,
+  'member.joined': $localize`:@@householdActivity.memberJoined:ble med i husstanden`,
+  'member.left': $localize`:@@householdActivity.memberLeft:forlot husstanden`,
+  'invitation.created': $localize`:@@householdActivity.invitationCreated:sendte en invitasjon`,
+  'invitation.cancelled': $localize`:@@householdActivity.invitationCancelled:avbrøt en invitasjon`,
+  'child.created': $localize`:@@householdActivity.childCreated:la til et barn`,
+  'child.updated': $localize`:@@householdActivity.childUpdated:endret et barn`,
+  'child.deleted': $localize`:@@householdActivity.childDeleted:fjernet et barn`,
+  'child.account_created': $localize`:@@householdActivity.childAccountCreated:lagde konto til et barn`,
+  'absence.created': $localize`:@@householdActivity.absenceCreated:registrerte fravær`,
+  'absence.updated': $localize`:@@householdActivity.absenceUpdated:endret fravær`,
+  'absence.deleted': $localize`:@@householdActivity.absenceDeleted:fjernet fravær`,
+  'task.created': $localize`:@@householdActivity.taskCreated:lagde en oppgave`,
+  'task.updated': $localize`:@@householdActivity.taskUpdated:endret en oppgave`,
+  'task.deleted': $localize`:@@householdActivity.taskDeleted:slettet en oppgave`,
+  'task.declined': $localize`:@@householdActivity.taskDeclined:takket nei til en oppgave`,
+  'task.decline_undone': $localize`:@@householdActivity.taskDeclineUndone:angret et nei til en oppgave`,
+  'task_template.created': $localize`:@@householdActivity.taskTemplateCreated:lagret en oppgavemal`,
+  'task_template.deleted': $localize`:@@householdActivity.taskTemplateDeleted:slettet en oppgavemal`,
+  'assignment.created': $localize`:@@householdActivity.assignmentCreated:tildelte en oppgave`,
+  'assignment.generated': $localize`:@@householdActivity.assignmentGenerated:genererte oppgaver`,
+  'assignment.reassigned': $localize`:@@householdActivity.assignmentReassigned:flyttet en oppgave til et annet barn`,
+  'assignment.completed': $localize`:@@householdActivity.assignmentCompleted:fullførte en oppgave`,
+  'assignment.approved': $localize`:@@householdActivity.assignmentApproved:godkjente en oppgave`,
+  'assignment.rejected': $localize`:@@householdActivity.assignmentRejected:avviste en oppgave`,
+  'assignment.checklist_updated': $localize`:@@householdActivity.assignmentChecklistUpdated:oppdaterte en sjekkliste`,
+  'assignment.commented': $localize`:@@householdActivity.assignmentCommented:kommenterte en oppgave`,
+  'reward.created': $localize`:@@householdActivity.rewardCreated:lagde en belønning`,
+  'reward.updated': $localize`:@@householdActivity.rewardUpdated:endret en belønning`,
+  'reward.deleted': $localize`:@@householdActivity.rewardDeleted:slettet en belønning`,
+  'redemption.created': $localize`:@@householdActivity.redemptionCreated:løste inn en belønning`,
+  'redemption.approved': $localize`:@@householdActivity.redemptionApproved:godkjente en innløsning`,
+  'redemption.fulfilled': $localize`:@@householdActivity.redemptionFulfilled:leverte en belønning`,
+  'redemption.rejected': $localize`:@@householdActivity.redemptionRejected:avviste en innløsning`,
+  'savings_goal.created': $localize`:@@householdActivity.savingsGoalCreated:begynte å spare til en belønning`,
+  'savings_goal.updated': $localize`:@@householdActivity.savingsGoalUpdated:endret et sparemål`,
+  'savings_goal.deleted': $localize`:@@householdActivity.savingsGoalDeleted:sluttet å spare til en belønning`,
+  'points.adjusted': $localize`:@@householdActivity.pointsAdjusted:justerte poeng`,
+  'achievement.created': $localize`:@@householdActivity.achievementCreated:lagde en prestasjon`,
+  'achievement.deleted': $localize`:@@householdActivity.achievementDeleted:slettet en prestasjon`,
+  'calendar_feed.created': $localize`:@@householdActivity.calendarFeedCreated:lagde en kalenderlenke`,
+  'calendar_feed.revoked': $localize`:@@householdActivity.calendarFeedRevoked:trakk tilbake en kalenderlenke`,
+};
+
+/**
+ * Household Activity Component
+ *
+ * Admin-only view of the household audit log: who changed what and when,
+ * newest first, filterable by the kind of thing that changed.
+ */
+@Component({
+  selector: 'app-household-activity',
+  imports: [DatePipe],
+  templateUrl: './household-activity.html',
+  styleUrl: './household-activity.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class HouseholdActivityComponent implements OnInit {
+  private readonly auditService = inject(AuditService);
+
+  householdId = input.required<string>();
+
+  events = signal<AuditEvent[]>([]);
+  pagination = signal<PaginationMeta | null>(null);
+  entityType = signal<AuditEntityType | ''>('');
+  isLoading = signal(false);
+  errorMessage = signal<string | null>(null);
+
+  hasEvents = computed(() => this.events().length > 0);
+
+  readonly entityTypeOptions: { value: AuditEntityType; label: string }[] = [
+    { value: 'task', label: $localize`:@@householdActivity.filterTask:Oppgaver` },
+    {
+      value: 'task_template',
+      label: $localize`:@@householdActivity.filterTaskTemplate:Oppgavemaler`,
+    },
+    { value: 'assignment', label: $localize`:@@householdActivity.filterAssignment:Tildelinger` },
+    { value: 'points', label: $localize`:@@householdActivity.filterPoints:Poeng` },
+    { value: 'reward', label: $localize`:@@householdActivity.filterReward:Belønninger` },
+    { value: 'redemption', label: $localize`:@@householdActivity.filterRedemption:Innløsninger` },
+    { value: 'savings_goal', label: $localize`:@@householdActivity.filterSavingsGoal:Sparemål` },
+    {
+      value: 'achievement',
+      label: $localize`:@@householdActivity.filterAchievement:Prestasjoner`,
+    },
+    { value: 'child', label: $localize`:@@householdActivity.filterChild:Barn` },
+    { value: 'absence', label: $localize`:@@householdActivity.filterAbsence:Fravær` },
+    { value: 'member', label: $localize`:@@householdActivity.filterMember:Medlemmer` },
+    { value: 'invitation', label: $localize`:@@householdActivity.filterInvitation:Invitasjoner` },
+    {
+      value: 'calendar_feed',
+      label: $localize`:@@householdActivity.filterCalendarFeed:Kalenderlenker`,
+    },
+    { value: 'household', label: $localize`:@@householdActivity.filterHousehold:Husstand` },
+  ];
+
+  ngOnInit() {
+    this.loadEvents();
+  }
+
+  /**
+   * Load a page of events with the current filter
+   */
+  async loadEvents(page = 1) {
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      const response = await this.auditService.listAuditEvents(this.householdId(), {
+        entityType: this.entityType() || undefined,
+        page,
+        pageSize: PAGE_SIZE,
+      });
+      this.events.set(response.events);
+      this.pagination.set(response.pagination);
+    } catch (error) {
+      console.error('Failed to load household activity:', error);
+      this.errorMessage.set(
+        $localize`:@@householdActivity.loadFailed:Kunne ikke laste aktivitet. Vennligst prøv igjen.`,
+      );
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Filter by entity type, starting over from the first page
+   */
+  onEntityTypeChange(event: Event) {
+    this.entityType.set((event.target as HTMLSelectElement).value as AuditEntityType | '');
+    this.loadEvents();
+  }
+
+  goToPage(page: number) {
+    this.loadEvents(page);
+  }
+
+  getActorName(event: AuditEvent): string {
+    return event.actorName ?? $localize`:@@householdActivity.unknownActor:Ukjent bruker`;
+  }
+
+  getActionLabel(event: AuditEvent): string {
+    return ACTION_LABELS[event.action];
+  }
+
+  /**
+   * Name of the changed entity, when its snapshot has one
+   */
+  getSubject(event: AuditEvent): string | null {
+    const snapshot = event.after ?? event.before;
+    const subject = snapshot?.['name'] ?? snapshot?.['childName'] ?? snapshot?.['email'];
+    return typeof subject === 'string' ? subject : null;
+  }
+
+  /**
+   * Fields that differ between before and after, for updates
+   */
+  getChangedFields(event: AuditEvent): string[] {
+    const { before, after } = event;
+    if (!before || !after) {
+      return [];
+    }
+
+    return Object.keys(after).filter(
+      (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+    );
+  }
+}
@@ -10,6 +10,7 @@ import {
 import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
 import { DatePipe } from '@angular/common';
+import type { LateCompletionPolicy } from '@st44/types';
 import {
   HouseholdService,
   HouseholdListItem,
@@ -19,6 +20,7 @@ import { AuthService } from '../../services/auth.service';
 import { ChildrenManagementComponent } from '../children-management/children-management';
 import { InviteUserComponent } from '../invite-user/invite-user';
 import { InvitationsSentListComponent } from '../invitations-sent-list/invitations-sent-list';
+import { HouseholdActivityComponent } from '../household-activity/household-activity';
 
 @Component({
   selector: 'app-household-settings',
@@ -28,6 +30,7 @@ import { InvitationsSentListComponent } from '../invitations-sent-list/invitatio
     ChildrenManagementComponent,
     InviteUserComponent,
     InvitationsSentListComponent,
+    HouseholdActivityComponent,
   ],
   templateUrl: './household-settings.html',
   styleUrl: './household-settings.css',
@@ -44,7 +47,7 @@ export class HouseholdSettingsComponent implements OnInit {
 
   household = signal<HouseholdListItem | null>(null);
   members = signal<HouseholdMemberResponse[]>([]);
-  currentUserRole = signal<'admin' | 'parent' | 'child' | null>(null);
+  currentUserRole = signal<'admin' | 'parent' | 'caregiver' | 'child' | null>(null);
   isLoading = signal(false);
   isSaving = signal(false);
   errorMessage = signal('');
@@ -53,10 +56,32 @@ export class HouseholdSettingsComponent implements OnInit {
   // Admin role has household admin privileges
   isAdmin = computed(() => this.currentUserRole() === 'admin');
 
+  // IANA timezones supported by the browser (household's calendar day)
+  readonly timezones: string[] = Intl.supportedValuesOf('timeZone');
+
   householdForm: FormGroup = this.fb.group({
     name: ['', [Validators.required, Validators.minLength(1), Validators.maxLength(100)]],
+    timezone: ['UTC', [Validators.required]],
+    requiresApproval: [false],
+    lateCompletionPolicy: ['full' as LateCompletionPolicy, [Validators.required]],
+    latePointsPercent: [50, [Validators.required, Validators.min(0), Validators.max(100)]],
   });
 
+  readonly latePolicyOptions: { value: LateCompletionPolicy; label: string }[] = [
+    {
+      value: 'full',
+      label: $localize`:@@householdSettings.latePolicyFull:Gi full poengsum`,
+    },
+    {
+      value: 'reduced',
+      label: $localize`:@@householdSettings.latePolicyReduced:Gi redusert poengsum`,
+    },
+    {
+      value: 'locked',
+      label: $localize`:@@householdSettings.latePolicyLocked:Ikke tillat å fullføre`,
+    },
+  ];
+
   async ngOnInit() {
     await this.loadHouseholdData();
   }
@@ -74,7 +99,13 @@ export class HouseholdSettingsComponent implements OnInit {
 
       const household = await this.householdService.getHousehold(householdId);
       this.household.set(household);
-      this.householdForm.patchValue({ name: household.name });
+      this.householdForm.patchValue({
+        name: household.name,
+        timezone: household.timezone ?? 'UTC',
+        requiresApproval: household.requiresApproval ?? false,
+        lateCompletionPolicy: household.lateCompletionPolicy ?? 'full',
+        latePointsPercent: household.latePointsPercent ?? 50,
+      });
 
       // Load members
       const members = await this.householdService.getHouseholdMembers(householdId);
@@ -120,10 +151,23 @@ export class HouseholdSettingsComponent implements OnInit {
     this.successMessage.set('');
 
     try {
-      const { name } = this.householdForm.value;
-      await this.householdService.updateHousehold(household.id, name);
-
-      this.household.set({ ...household, name });
+      const { name, timezone, requiresApproval, lateCompletionPolicy, latePointsPercent } =
+        this.householdForm.value;
+      await this.householdService.updateHousehold(household.id, name, {
+        timezone,
+        requiresApproval,
+        lateCompletionPolicy,
+        latePointsPercent,
+      });
+
+      this.household.set({
+        ...household,
+        name,
+        timezone,
+        requiresApproval,
+        lateCompletionPolicy,
+        latePointsPercent,
+      });
       this.successMessage.set('Household updated successfully!');
 
       // Clear success message after 3 seconds
@@ -1,23 +1,48 @@
-import { Component, inject, signal, OnInit } from '@angular/core';
+import { Component, inject, signal, computed, OnInit } from '@angular/core';
 import { CommonModule, DatePipe } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import type { Child } from '@st44/types';
 import { InvitationService, Invitation } from '../../services/invitation.service';
 import { HouseholdService } from '../../services/household.service';
+import { ChildrenService } from '../../services/children.service';
 
 @Component({
   selector: 'app-invitations-sent-list',
-  imports: [CommonModule, DatePipe],
+  imports: [CommonModule, DatePipe, ReactiveFormsModule],
   templateUrl: './invitations-sent-list.html',
   styleUrl: './invitations-sent-list.css',
 })
 export class InvitationsSentListComponent implements OnInit {
   private invitationService = inject(InvitationService);
   private householdService = inject(HouseholdService);
+  private childrenService = inject(ChildrenService);
+  private fb = inject(FormBuilder);
 
   invitations = signal<Invitation[]>([]);
+  children = signal<Child[]>([]);
   isLoading = signal(false);
+  showLinkForm = signal(false);
   successMessage = signal<string | null>(null);
   errorMessage = signal<string | null>(null);
 
+  /** Child profiles that can still be linked to an account */
+  linkableChildren = computed(() => this.children().filter((child) => !child.userId));
+
+  /**
+   * Invite link options. An empty maxUses means unlimited; child links are
+   * always single-use. Admins can only be invited by email.
+   */
+  linkForm = this.fb.group({
+    role: this.fb.nonNullable.control<'parent' | 'caregiver' | 'child'>('parent'),
+    childId: [''],
+    maxUses: this.fb.control<number | null>(1, [Validators.min(1), Validators.max(100)]),
+    expiresInDays: this.fb.nonNullable.control(7, [
+      Validators.required,
+      Validators.min(1),
+      Validators.max(30),
+    ]),
+  });
+
   /**
    * Check if there are any old invitations that can be cleaned up
    */
@@ -36,6 +61,112 @@ export class InvitationsSentListComponent implements OnInit {
 
   ngOnInit() {
     this.loadInvitations();
+    this.loadChildren();
+  }
+
+  /**
+   * Load children for the child role of invite links
+   */
+  async loadChildren() {
+    const householdId = this.householdService.getActiveHouseholdId();
+    if (!householdId) {
+      return;
+    }
+
+    try {
+      this.children.set(await this.childrenService.listChildren(householdId));
+    } catch (error) {
+      console.error('Failed to load children:', error);
+    }
+  }
+
+  /**
+   * Label of the invitee column: the email, or the link and its uses
+   */
+  getInviteeLabel(invitation: Invitation): string {
+    if (invitation.invitedEmail) {
+      return invitation.invitedEmail;
+    }
+
+    const uses =
+      invitation.maxUses == null
+        ? $localize`:@@invitationsSent.linkUsesUnlimited:${invitation.useCount ?? 0}:count: brukt`
+        : $localize`:@@invitationsSent.linkUses:${invitation.useCount ?? 0}:count: av ${invitation.maxUses}:max: brukt`;
+    const label = invitation.childName
+      ? $localize`:@@invitationsSent.childLink:Lenke for ${invitation.childName}:name:`
+      : $localize`:@@invitationsSent.link:Lenke`;
+
+    return `${label} (${uses})`;
+  }
+
+  /**
+   * Create a shareable invite link and copy it to the clipboard
+   */
+  async createInviteLink() {
+    const { role, childId, maxUses, expiresInDays } = this.linkForm.getRawValue();
+
+    if (this.linkForm.invalid || (role === 'child' && !childId)) {
+      this.linkForm.markAllAsTouched();
+      return;
+    }
+
+    const householdId = this.householdService.getActiveHouseholdId();
+    if (!householdId) {
+      this.errorMessage.set(
+        $localize`:@@invitationsSent.noActiveHousehold:Ingen aktiv husstand valgt`,
+      );
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      const response = await this.invitationService.createInviteLink(householdId, {
+        role,
+        ...(role === 'child' && { childId: childId! }),
+        maxUses: role === 'child' ? 1 : (maxUses ?? null),
+        expiresInDays,
+      });
+      this.showLinkForm.set(false);
+      this.linkForm.reset({ maxUses: 1 });
+      await this.copyInviteLink({ token: response.token });
+      await this.loadInvitations();
+    } catch (error) {
+      console.error('Failed to create invite link:', error);
+      this.errorMessage.set(
+        $localize`:@@invitationsSent.createLinkFailed:Kunne ikke lage invitasjonslenke. Vennligst prøv igjen.`,
+      );
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Copy the accept URL of a link
+   */
+  async copyInviteLink(invitation: Pick<Invitation, 'token'>) {
+    if (!invitation.token) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(this.invitationService.getAcceptUrl(invitation.token));
+      this.showSuccessMessage(
+        $localize`:@@invitationsSent.linkCopied:Invitasjonslenken er kopiert til utklippstavlen`,
+      );
+    } catch {
+      this.errorMessage.set(
+        $localize`:@@invitationsSent.copyFailed:Kunne ikke kopiere lenke. Vennligst kopier manuelt.`,
+      );
+    }
+  }
+
+  /**
+   * Check if the accept URL of an invitation can be copied
+   */
+  canCopyLink(invitation: Invitation): boolean {
+    return invitation.status === 'pending' && !!invitation.token;
   }
 
   /**
@@ -71,7 +202,7 @@ export class InvitationsSentListComponent implements OnInit {
    */
   async cancelInvitation(invitation: Invitation) {
     const confirmed = confirm(
-      `Are you sure you want to cancel the invitation to ${invitation.invitedEmail}?`,
+      `Are you sure you want to cancel the invitation to ${this.getInviteeLabel(invitation)}?`,
     );
     if (!confirmed) {
       return;
@@ -90,7 +221,7 @@ export class InvitationsSentListComponent implements OnInit {
 
     try {
       await this.invitationService.cancelInvitation(householdId, invitation.id);
-      this.showSuccessMessage(`Invitation to ${invitation.invitedEmail} cancelled`);
+      this.showSuccessMessage(`Invitation to ${this.getInviteeLabel(invitation)} cancelled`);
       await this.loadInvitations();
     } catch (error) {
       console.error('Failed to cancel invitation:', error);
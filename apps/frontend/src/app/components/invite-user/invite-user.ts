@@ -42,9 +42,7 @@ export class InviteUserComponent {
       const response = await this.invitationService.sendInvitation(this.householdId(), email, role);
 
       // Generate invitation link
-      const baseUrl = window.location.origin;
-      const link = `${baseUrl}/invite/${response.token}`;
-      this.invitationLink.set(link);
+      this.invitationLink.set(this.invitationService.getAcceptUrl(response.token));
 
       this.successMessage.set(`Invitation sent to ${email}!`);
       this.invitationSent.emit(response);
@@ -11,6 +11,7 @@ import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 import type { Child } from '@st44/types';
 import { Modal } from '../modal/modal';
 import { CreateChildAccountComponent } from '../../create-child-account/create-child-account';
+import { TaskSuggestionsComponent } from '../../task-suggestions/task-suggestions';
 import { ChildrenService } from '../../../services/children.service';
 
 /**
@@ -22,12 +23,13 @@ import { ChildrenService } from '../../../services/children.service';
  * - Delete child from household
  * - Create login credentials for children without accounts
  * - View account status for children with accounts
+ * - Add suggested chores that suit the child's age
  *
  * Design reserves space for future QR code login feature (#238).
  */
 @Component({
   selector: 'app-child-details-modal',
-  imports: [Modal, CreateChildAccountComponent, ReactiveFormsModule],
+  imports: [Modal, CreateChildAccountComponent, TaskSuggestionsComponent, ReactiveFormsModule],
   templateUrl: './child-details-modal.html',
   styleUrl: './child-details-modal.css',
   changeDetection: ChangeDetectionStrategy.OnPush,
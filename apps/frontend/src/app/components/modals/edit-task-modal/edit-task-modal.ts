@@ -106,7 +106,7 @@ export class EditTaskModal {
     name: ['', [Validators.required, Validators.minLength(1), Validators.maxLength(255)]],
     points: [5, [Validators.required, Validators.min(1), Validators.max(1000)]],
     ruleType: ['daily' as TaskRuleType, [Validators.required]],
-    rotationType: ['alternating' as 'odd_even_week' | 'alternating'],
+    rotationType: ['alternating' as 'odd_even_week' | 'alternating' | 'round_robin'],
     repeatDays: this.fb.array<number>([]),
     assignedChildren: this.fb.array<string>([]),
   });
@@ -134,11 +134,14 @@ export class EditTaskModal {
   /**
    * Rotation type options
    */
-  protected readonly rotationOptions: { value: 'odd_even_week' | 'alternating'; label: string }[] =
-    [
-      { value: 'alternating', label: 'Alternating' },
-      { value: 'odd_even_week', label: 'Odd/Even Week' },
-    ];
+  protected readonly rotationOptions: {
+    value: 'odd_even_week' | 'alternating' | 'round_robin';
+    label: string;
+  }[] = [
+    { value: 'alternating', label: 'Alternating' },
+    { value: 'odd_even_week', label: 'Odd/Even Week' },
+    { value: 'round_robin', label: 'Round Robin' },
+  ];
 
   constructor() {
     // Update form and load children when task changes
@@ -343,10 +346,19 @@ export class EditTaskModal {
     }
 
     if (ruleType === 'weekly_rotation') {
-      return {
-        rotationType: this.form.get('rotationType')?.value as 'odd_even_week' | 'alternating',
-        assignedChildren,
-      };
+      const rotationType = this.form.get('rotationType')?.value as
+        | 'odd_even_week'
+        | 'alternating'
+        | 'round_robin';
+      if (rotationType === 'round_robin') {
+        // Keep the turn length; this modal has no control for it
+        return {
+          rotationType,
+          rotationPeriod: this.task()?.ruleConfig?.rotationPeriod ?? 'weekly',
+          assignedChildren,
+        };
+      }
+      return { rotationType, assignedChildren };
     }
 
     // For daily tasks, include assignedChildren if any are selected
@@ -78,12 +78,14 @@ describe('TaskFormModal', () => {
     });
 
     it('should have all task type options', () => {
-      expect(component.taskTypes.length).toBe(4);
+      expect(component.taskTypes.length).toBe(6);
       expect(component.taskTypes.map((t) => t.value)).toEqual([
         'daily',
         'repeating',
         'weekly_rotation',
         'single',
+        'interval',
+        'monthly',
       ]);
     });
 
@@ -150,6 +152,38 @@ describe('TaskFormModal', () => {
       const assignedChildren = component['form'].get('assignedChildren') as FormArray;
       expect(assignedChildren.length).toBe(2);
     });
+
+    it('should prefill interval task', () => {
+      const intervalTask: Task = {
+        ...mockTask,
+        ruleType: 'interval',
+        ruleConfig: { interval: 3, intervalUnit: 'days', startDate: '2026-10-18' },
+      };
+
+      fixture.componentRef.setInput('task', intervalTask);
+      fixture.detectChanges();
+
+      const form = component['form'];
+      expect(form.get('interval')?.value).toBe(3);
+      expect(form.get('intervalUnit')?.value).toBe('days');
+      expect(form.get('startDate')?.value).toBe('2026-10-18');
+    });
+
+    it('should prefill monthly task on the nth weekday', () => {
+      const monthlyTask: Task = {
+        ...mockTask,
+        ruleType: 'monthly',
+        ruleConfig: { weekOfMonth: -1, dayOfWeek: 0 },
+      };
+
+      fixture.componentRef.setInput('task', monthlyTask);
+      fixture.detectChanges();
+
+      const form = component['form'];
+      expect(form.get('monthlyMode')?.value).toBe('weekday');
+      expect(form.get('weekOfMonth')?.value).toBe(-1);
+      expect(form.get('dayOfWeek')?.value).toBe(0);
+    });
   });
 
   describe('Form Validation', () => {
@@ -232,6 +266,41 @@ describe('TaskFormModal', () => {
     });
   });
 
+  describe('Recurrence Validation', () => {
+    beforeEach(() => {
+      fixture.detectChanges();
+    });
+
+    it('should be invalid for interval task without a start date', () => {
+      component['form'].patchValue({
+        name: 'Test Task',
+        ruleType: 'interval',
+        startDate: '',
+      });
+      expect(component['isFormValid']()).toBe(false);
+    });
+
+    it('should be invalid for interval below 1', () => {
+      component['form'].patchValue({
+        name: 'Test Task',
+        ruleType: 'interval',
+        interval: 0,
+        startDate: '2026-10-18',
+      });
+      expect(component['isFormValid']()).toBe(false);
+    });
+
+    it('should be invalid for monthly task with day of month above 31', () => {
+      component['form'].patchValue({
+        name: 'Test Task',
+        ruleType: 'monthly',
+        monthlyMode: 'dayOfMonth',
+        dayOfMonth: 32,
+      });
+      expect(component['isFormValid']()).toBe(false);
+    });
+  });
+
   describe('Day Selection', () => {
     beforeEach(() => {
       fixture.detectChanges();
@@ -358,6 +427,82 @@ describe('TaskFormModal', () => {
       );
     });
 
+    it('should emit rotationPeriod for round-robin rotation', () => {
+      const formSubmittedSpy = vi.spyOn(component.formSubmitted, 'emit');
+
+      component['form'].patchValue({
+        name: 'Set Table',
+        ruleType: 'weekly_rotation',
+        rotationType: 'round_robin',
+        rotationPeriod: 'occurrence',
+      });
+      component.onChildChange('child-1', true);
+      component.onChildChange('child-2', true);
+      fixture.detectChanges();
+
+      component.onSubmit();
+
+      expect(formSubmittedSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ruleConfig: {
+            rotationType: 'round_robin',
+            rotationPeriod: 'occurrence',
+            assignedChildren: ['child-1', 'child-2'],
+          },
+        }),
+      );
+    });
+
+    it('should emit formSubmitted for interval task', () => {
+      const formSubmittedSpy = vi.spyOn(component.formSubmitted, 'emit');
+
+      component['form'].patchValue({
+        name: 'Change Bed Sheets',
+        ruleType: 'interval',
+        interval: 2,
+        intervalUnit: 'weeks',
+        startDate: '2026-10-18',
+      });
+      fixture.detectChanges();
+
+      component.onSubmit();
+
+      expect(formSubmittedSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ruleType: 'interval',
+          ruleConfig: {
+            interval: 2,
+            intervalUnit: 'weeks',
+            startDate: '2026-10-18',
+            assignedChildren: [],
+          },
+        }),
+      );
+    });
+
+    it('should emit formSubmitted for monthly task on a weekday', () => {
+      const formSubmittedSpy = vi.spyOn(component.formSubmitted, 'emit');
+
+      // Select controls bind their values as strings
+      component['form'].patchValue({
+        name: 'Sort Recycling',
+        ruleType: 'monthly',
+        monthlyMode: 'weekday',
+        weekOfMonth: '-1' as unknown as number,
+        dayOfWeek: '0' as unknown as number,
+      });
+      fixture.detectChanges();
+
+      component.onSubmit();
+
+      expect(formSubmittedSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ruleType: 'monthly',
+          ruleConfig: { weekOfMonth: -1, dayOfWeek: 0, assignedChildren: [] },
+        }),
+      );
+    });
+
     it('should not submit when form is invalid', () => {
       const formSubmittedSpy = vi.spyOn(component.formSubmitted, 'emit');
 
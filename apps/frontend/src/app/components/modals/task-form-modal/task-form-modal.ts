@@ -34,6 +34,21 @@ export interface DayOption {
   shortLabel: string;
 }
 
+/**
+ * How a monthly task picks its day
+ */
+export type MonthlyMode = 'dayOfMonth' | 'weekday';
+
+/**
+ * How a weekly rotation task picks the next child
+ */
+export type RotationType = 'alternating' | 'odd_even_week' | 'round_robin';
+
+/**
+ * How long a round-robin turn lasts
+ */
+export type RotationPeriod = 'daily' | 'weekly' | 'occurrence';
+
 /**
  * Data structure for task form submission
  */
@@ -43,6 +58,8 @@ export interface TaskFormData {
   points: number;
   ruleType: TaskRuleType;
   ruleConfig: CreateTaskRequest['ruleConfig'];
+  requiresApproval?: boolean;
+  requiresPhoto?: boolean;
 }
 
 /**
@@ -56,11 +73,13 @@ export interface TaskFormData {
  * - Pre-populated fields when editing
  * - Delete functionality only in edit mode
  *
- * Supports all 4 task types:
+ * Supports all 6 task types:
  * - Daily: Tasks assigned every day
  * - Repeating: Tasks on specific days of the week
  * - Weekly Rotation: Tasks that rotate between children
  * - Single: One-time tasks with optional deadline and candidates
+ * - Interval: Every N days or weeks from a start date
+ * - Monthly: A day of the month, or the nth weekday of the month
  */
 @Component({
   selector: 'app-task-form-modal',
@@ -128,6 +147,8 @@ export class TaskFormModal {
     { value: 'repeating', label: 'Repeating', description: 'On specific days of the week' },
     { value: 'weekly_rotation', label: 'Weekly Rotation', description: 'Rotates between children' },
     { value: 'single', label: 'Single', description: 'One-time task with deadline' },
+    { value: 'interval', label: 'Interval', description: 'Every N days or weeks' },
+    { value: 'monthly', label: 'Monthly', description: 'Once a month' },
   ];
 
   /**
@@ -146,9 +167,38 @@ export class TaskFormModal {
   /**
    * Rotation types for weekly rotation tasks
    */
-  readonly rotationTypes: { value: 'alternating' | 'odd_even_week'; label: string }[] = [
+  readonly rotationTypes: { value: RotationType; label: string }[] = [
     { value: 'alternating', label: 'Alternating (switch each week)' },
     { value: 'odd_even_week', label: 'Odd/Even Week (based on week number)' },
+    { value: 'round_robin', label: 'Round robin (any number of children)' },
+  ];
+
+  /**
+   * Turn lengths for round-robin rotation
+   */
+  readonly rotationPeriods: { value: RotationPeriod; label: string }[] = [
+    { value: 'daily', label: 'Every day' },
+    { value: 'weekly', label: 'Every week' },
+    { value: 'occurrence', label: 'Every time' },
+  ];
+
+  /**
+   * Units for interval tasks
+   */
+  readonly intervalUnits: { value: 'days' | 'weeks'; label: string }[] = [
+    { value: 'days', label: 'Days' },
+    { value: 'weeks', label: 'Weeks' },
+  ];
+
+  /**
+   * Weeks of the month for monthly tasks (-1 is the last one)
+   */
+  readonly weeksOfMonth: { value: number; label: string }[] = [
+    { value: 1, label: 'First' },
+    { value: 2, label: 'Second' },
+    { value: 3, label: 'Third' },
+    { value: 4, label: 'Fourth' },
+    { value: -1, label: 'Last' },
   ];
 
   /**
@@ -160,9 +210,19 @@ export class TaskFormModal {
     points: [5, [Validators.required, Validators.min(1), Validators.max(1000)]],
     ruleType: ['daily' as TaskRuleType, [Validators.required]],
     deadline: [''],
-    rotationType: ['alternating' as 'alternating' | 'odd_even_week'],
+    rotationType: ['alternating' as RotationType],
+    rotationPeriod: ['weekly' as RotationPeriod],
     repeatDays: this.fb.array<number>([]),
     assignedChildren: this.fb.array<string>([]),
+    requiresApproval: [false],
+    requiresPhoto: [false],
+    interval: [2],
+    intervalUnit: ['weeks' as 'days' | 'weeks'],
+    startDate: [''],
+    monthlyMode: ['dayOfMonth' as MonthlyMode],
+    dayOfMonth: [1],
+    weekOfMonth: [1],
+    dayOfWeek: [6],
   });
 
   /**
@@ -213,6 +273,15 @@ export class TaskFormModal {
     return now.toISOString().slice(0, 16);
   });
 
+  /**
+   * Today's local date (YYYY-MM-DD), the default start of interval tasks
+   */
+  private today(): string {
+    const now = new Date();
+    now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+    return now.toISOString().slice(0, 10);
+  }
+
   constructor() {
     // Watch ruleType changes to update validators and clear selections
     this.form
@@ -251,6 +320,7 @@ export class TaskFormModal {
     const repeatDays = ruleConfig.repeatDays || [];
     const assignedChildren = ruleConfig.assignedChildren || [];
     const rotationType = ruleConfig.rotationType || 'alternating';
+    const monthlyMode: MonthlyMode = ruleConfig.dayOfMonth === undefined ? 'weekday' : 'dayOfMonth';
 
     // Populate repeatDays FormArray
     const repeatDaysArray = this.form.get('repeatDays') as FormArray;
@@ -270,7 +340,17 @@ export class TaskFormModal {
         points: task.points,
         ruleType: task.ruleType,
         rotationType: rotationType,
+        rotationPeriod: ruleConfig.rotationPeriod ?? 'weekly',
         deadline: '',
+        requiresApproval: task.requiresApproval ?? false,
+        requiresPhoto: task.requiresPhoto ?? false,
+        interval: ruleConfig.interval ?? 2,
+        intervalUnit: ruleConfig.intervalUnit ?? 'weeks',
+        startDate: ruleConfig.startDate ?? this.today(),
+        monthlyMode,
+        dayOfMonth: ruleConfig.dayOfMonth ?? 1,
+        weekOfMonth: ruleConfig.weekOfMonth ?? 1,
+        dayOfWeek: ruleConfig.dayOfWeek ?? 6,
       },
       { emitEvent: false },
     );
@@ -287,11 +367,17 @@ export class TaskFormModal {
     const rotationType = this.form.get('rotationType');
     const repeatDays = this.form.get('repeatDays');
     const assignedChildren = this.form.get('assignedChildren');
+    const interval = this.form.get('interval');
+    const startDate = this.form.get('startDate');
+    const dayOfMonth = this.form.get('dayOfMonth');
 
     // Clear all conditional validators
     rotationType?.clearValidators();
     repeatDays?.clearValidators();
     assignedChildren?.clearValidators();
+    interval?.clearValidators();
+    startDate?.clearValidators();
+    dayOfMonth?.clearValidators();
 
     // Apply validators based on rule type
     if (ruleType === 'weekly_rotation') {
@@ -301,12 +387,20 @@ export class TaskFormModal {
       repeatDays?.setValidators([Validators.required, this.minArrayLengthValidator(1)]);
     } else if (ruleType === 'single') {
       assignedChildren?.setValidators([Validators.required, this.minArrayLengthValidator(1)]);
+    } else if (ruleType === 'interval') {
+      interval?.setValidators([Validators.required, Validators.min(1), Validators.max(365)]);
+      startDate?.setValidators(Validators.required);
+    } else if (ruleType === 'monthly') {
+      dayOfMonth?.setValidators([Validators.required, Validators.min(1), Validators.max(31)]);
     }
 
     // Update validity
     rotationType?.updateValueAndValidity({ emitEvent: false });
     repeatDays?.updateValueAndValidity({ emitEvent: false });
     assignedChildren?.updateValueAndValidity({ emitEvent: false });
+    interval?.updateValueAndValidity({ emitEvent: false });
+    startDate?.updateValueAndValidity({ emitEvent: false });
+    dayOfMonth?.updateValueAndValidity({ emitEvent: false });
   }
 
   /**
@@ -336,6 +430,16 @@ export class TaskFormModal {
         ruleType: 'daily',
         deadline: '',
         rotationType: 'alternating',
+        rotationPeriod: 'weekly',
+        requiresApproval: false,
+        requiresPhoto: false,
+        interval: 2,
+        intervalUnit: 'weeks',
+        startDate: this.today(),
+        monthlyMode: 'dayOfMonth',
+        dayOfMonth: 1,
+        weekOfMonth: 1,
+        dayOfWeek: 6,
       },
       { emitEvent: false },
     );
@@ -466,6 +570,8 @@ export class TaskFormModal {
       points: formValue.points!,
       ruleType,
       ruleConfig: this.buildRuleConfig(ruleType),
+      requiresApproval: formValue.requiresApproval ?? false,
+      requiresPhoto: formValue.requiresPhoto ?? false,
     };
 
     // Add deadline for single tasks
@@ -498,19 +604,49 @@ export class TaskFormModal {
           assignedChildren,
         };
 
-      case 'weekly_rotation':
+      case 'weekly_rotation': {
+        const rotationType =
+          (this.form.get('rotationType')?.value as RotationType) || 'alternating';
+        if (rotationType === 'round_robin') {
+          return {
+            rotationType,
+            rotationPeriod: (this.form.get('rotationPeriod')?.value as RotationPeriod) || 'weekly',
+            assignedChildren,
+          };
+        }
         return {
-          rotationType:
-            (this.form.get('rotationType')?.value as 'alternating' | 'odd_even_week') ||
-            'alternating',
+          rotationType,
           assignedChildren,
         };
+      }
 
       case 'single':
         return {
           assignedChildren,
         };
 
+      case 'interval':
+        return {
+          interval: Number(this.form.get('interval')?.value),
+          intervalUnit: (this.form.get('intervalUnit')?.value as 'days' | 'weeks') || 'days',
+          startDate: this.form.get('startDate')?.value as string,
+          assignedChildren,
+        };
+
+      case 'monthly':
+        // Selects bind strings, so the numbers are converted back here
+        if (this.form.get('monthlyMode')?.value === 'weekday') {
+          return {
+            weekOfMonth: Number(this.form.get('weekOfMonth')?.value),
+            dayOfWeek: Number(this.form.get('dayOfWeek')?.value),
+            assignedChildren,
+          };
+        }
+        return {
+          dayOfMonth: Number(this.form.get('dayOfMonth')?.value),
+          assignedChildren,
+        };
+
       default:
         return null;
     }
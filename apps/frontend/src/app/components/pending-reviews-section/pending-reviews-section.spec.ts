@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { of } from 'rxjs';
+import type { ReviewQueueItem } from '@st44/types';
+import { PendingReviewsSectionComponent } from './pending-reviews-section';
+import { ReviewService } from '../../services/review.service';
+
+describe('PendingReviewsSectionComponent', () => {
+  let component: PendingReviewsSectionComponent;
+  let fixture: ComponentFixture<PendingReviewsSectionComponent>;
+  let mockReviewService: {
+    reviews: ReturnType<typeof signal<ReviewQueueItem[]>>;
+    loading: ReturnType<typeof signal<boolean>>;
+    error: ReturnType<typeof signal<string | null>>;
+    loadReviews: ReturnType<typeof vi.fn>;
+    approve: ReturnType<typeof vi.fn>;
+    reject: ReturnType<typeof vi.fn>;
+    getPhoto: ReturnType<typeof vi.fn>;
+  };
+
+  const mockReview: ReviewQueueItem = {
+    assignmentId: 'assignment-1',
+    completionId: 'completion-1',
+    taskId: 'task-1',
+    taskName: 'Clean Room',
+    childId: 'child-1',
+    childName: 'Emma',
+    date: '2025-01-20',
+    points: 20,
+    completedAt: '2025-01-20T12:00:00.000Z',
+    hasPhoto: false,
+  };
+
+  beforeEach(async () => {
+    mockReviewService = {
+      reviews: signal<ReviewQueueItem[]>([mockReview]),
+      loading: signal(false),
+      error: signal<string | null>(null),
+      loadReviews: vi.fn().mockReturnValue(of({ reviews: [mockReview] })),
+      approve: vi.fn().mockReturnValue(of({})),
+      reject: vi.fn().mockReturnValue(of({})),
+      getPhoto: vi.fn().mockReturnValue(of(new Blob(['jpeg'], { type: 'image/jpeg' }))),
+    };
+
+    await TestBed.configureTestingModule({
+      imports: [PendingReviewsSectionComponent],
+      providers: [{ provide: ReviewService, useValue: mockReviewService }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(PendingReviewsSectionComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('householdId', 'household-1');
+  });
+
+  it('should create', () => {
+    fixture.detectChanges();
+    expect(component).toBeTruthy();
+  });
+
+  it('should load reviews on init', () => {
+    fixture.detectChanges();
+    expect(mockReviewService.loadReviews).toHaveBeenCalledWith('household-1');
+  });
+
+  it('should render nothing when the queue is empty', () => {
+    mockReviewService.reviews.set([]);
+    fixture.detectChanges();
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('.pending-reviews-section')).toBeNull();
+  });
+
+  it('should render a card per review', () => {
+    fixture.detectChanges();
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelectorAll('.review-card').length).toBe(1);
+    expect(compiled.querySelector('.task-name')?.textContent).toContain('Clean Room');
+  });
+
+  it('should show the photo only for completions that have one', () => {
+    fixture.detectChanges();
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('app-completion-photo')).toBeNull();
+
+    mockReviewService.reviews.set([{ ...mockReview, hasPhoto: true }]);
+    fixture.detectChanges();
+    expect(compiled.querySelector('app-completion-photo')).not.toBeNull();
+    expect(mockReviewService.getPhoto).toHaveBeenCalledWith('household-1', 'assignment-1');
+  });
+
+  it('should approve without a comment', () => {
+    fixture.detectChanges();
+    component['onApprove'](mockReview);
+    expect(mockReviewService.approve).toHaveBeenCalledWith(
+      'household-1',
+      'assignment-1',
+      undefined,
+    );
+  });
+
+  it('should reject with the trimmed comment', () => {
+    fixture.detectChanges();
+    component['onCommentInput']('assignment-1', '  Make the bed too  ');
+    component['onReject'](mockReview);
+    expect(mockReviewService.reject).toHaveBeenCalledWith(
+      'household-1',
+      'assignment-1',
+      'Make the bed too',
+    );
+    expect(component['comments']()).toEqual({});
+  });
+});
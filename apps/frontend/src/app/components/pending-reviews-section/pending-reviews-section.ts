@@ -0,0 +1,101 @@
+import {
+  Component,
+  computed,
+  inject,
+  input,
+  signal,
+  OnInit,
+  ChangeDetectionStrategy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import type { ReviewQueueItem } from '@st44/types';
+import { ReviewService } from '../../services/review.service';
+import { CompletionPhotoComponent } from '../completion-photo/completion-photo';
+
+/**
+ * Pending Reviews Section Component
+ *
+ * Parent-facing list of completions waiting for approval. Approving credits
+ * the points; rejecting sends the task back to the child with an optional comment.
+ * Photo proof, when the child attached one, is shown on the card.
+ */
+@Component({
+  selector: 'app-pending-reviews-section',
+  imports: [CommonModule, CompletionPhotoComponent],
+  templateUrl: './pending-reviews-section.html',
+  styleUrl: './pending-reviews-section.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PendingReviewsSectionComponent implements OnInit {
+  private reviewService = inject(ReviewService);
+
+  // Input
+  householdId = input.required<string>();
+
+  // Service signals
+  protected reviews = this.reviewService.reviews;
+  protected loading = this.reviewService.loading;
+  protected error = this.reviewService.error;
+
+  // Local state
+  protected comments = signal<Record<string, string>>({});
+  protected decidingId = signal<string | null>(null);
+
+  // Computed
+  protected hasReviews = computed(() => this.reviews().length > 0);
+
+  ngOnInit(): void {
+    this.loadReviews();
+  }
+
+  /**
+   * Load completions awaiting approval
+   */
+  protected loadReviews(): void {
+    const id = this.householdId();
+    if (!id) return;
+
+    this.reviewService.loadReviews(id).subscribe({
+      error: (err) => {
+        console.error('Failed to load reviews:', err);
+      },
+    });
+  }
+
+  protected onCommentInput(assignmentId: string, value: string): void {
+    this.comments.update((comments) => ({ ...comments, [assignmentId]: value }));
+  }
+
+  protected onApprove(review: ReviewQueueItem): void {
+    this.decide(review, 'approve');
+  }
+
+  protected onReject(review: ReviewQueueItem): void {
+    this.decide(review, 'reject');
+  }
+
+  private decide(review: ReviewQueueItem, action: 'approve' | 'reject'): void {
+    const comment = this.comments()[review.assignmentId]?.trim() || undefined;
+    this.decidingId.set(review.assignmentId);
+
+    const request =
+      action === 'approve'
+        ? this.reviewService.approve(this.householdId(), review.assignmentId, comment)
+        : this.reviewService.reject(this.householdId(), review.assignmentId, comment);
+
+    request.subscribe({
+      next: () => {
+        this.decidingId.set(null);
+        this.comments.update((comments) => {
+          const next = { ...comments };
+          delete next[review.assignmentId];
+          return next;
+        });
+      },
+      error: (err) => {
+        this.decidingId.set(null);
+        console.error(`Failed to ${action} completion:`, err);
+      },
+    });
+  }
+}
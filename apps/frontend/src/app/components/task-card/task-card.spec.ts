@@ -1,5 +1,7 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { vi } from 'vitest';
 import { TaskCardComponent } from './task-card';
+import { TaskService } from '../../services/task.service';
 import type { Task } from '@st44/types';
 
 describe('TaskCardComponent', () => {
@@ -19,9 +21,14 @@ describe('TaskCardComponent', () => {
     updatedAt: '2025-01-01T00:00:00Z',
   };
 
+  let mockTaskService: { getAssignmentComments: ReturnType<typeof vi.fn> };
+
   beforeEach(async () => {
+    mockTaskService = { getAssignmentComments: vi.fn().mockResolvedValue([]) };
+
     await TestBed.configureTestingModule({
       imports: [TaskCardComponent],
+      providers: [{ provide: TaskService, useValue: mockTaskService }],
     }).compileComponents();
 
     fixture = TestBed.createComponent(TaskCardComponent);
@@ -333,10 +340,82 @@ describe('TaskCardComponent', () => {
       expect(card.classList.contains('overdue')).toBe(true);
     });
 
+    it('should treat assignments marked overdue by the backend as overdue', () => {
+      fixture.componentRef.setInput('task', {
+        id: '1',
+        taskId: 'task-1',
+        title: 'Test Assignment',
+        description: null,
+        ruleType: 'daily' as const,
+        childId: 'child-1',
+        childName: 'Test Child',
+        date: new Date().toISOString().split('T')[0],
+        status: 'overdue' as const,
+        completedAt: null,
+        createdAt: new Date().toISOString(),
+        points: 50,
+      });
+      fixture.detectChanges();
+
+      expect(component.isOverdue()).toBe(true);
+      expect(component.metaText()).toBe('Overdue');
+    });
+
     it('should have clickable class and cursor pointer when clickable', () => {
       const compiled = fixture.nativeElement as HTMLElement;
       const card = compiled.querySelector('.task-card') as HTMLElement;
       expect(card.classList.contains('clickable')).toBe(true);
     });
   });
+
+  describe('Comments', () => {
+    const assignment = {
+      id: 'assignment-1',
+      taskId: 'task-1',
+      title: 'Test Assignment',
+      description: null,
+      ruleType: 'daily' as const,
+      childId: 'child-1',
+      childName: 'Test Child',
+      date: new Date().toISOString().split('T')[0],
+      status: 'pending' as const,
+      completedAt: null,
+      createdAt: new Date().toISOString(),
+      points: 50,
+      commentCount: 3,
+    };
+
+    it('should not show the comment button for task templates', () => {
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('.task-comments-btn')).toBeNull();
+    });
+
+    it('should show the comment count for assignments', () => {
+      fixture.componentRef.setInput('task', assignment);
+      fixture.detectChanges();
+      const compiled = fixture.nativeElement as HTMLElement;
+      const count = compiled.querySelector('.task-comments-btn .comment-count');
+      expect(count?.textContent?.trim()).toBe('3');
+    });
+
+    it('should toggle the thread without emitting edit', () => {
+      fixture.componentRef.setInput('task', assignment);
+      fixture.detectChanges();
+      let editedId: string | undefined;
+      component.edit.subscribe((id: string) => (editedId = id));
+
+      const compiled = fixture.nativeElement as HTMLElement;
+      const button = compiled.querySelector('.task-comments-btn') as HTMLButtonElement;
+      button.click();
+      fixture.detectChanges();
+
+      expect(editedId).toBeUndefined();
+      expect(compiled.querySelector('app-assignment-comments')).toBeTruthy();
+      expect(mockTaskService.getAssignmentComments).toHaveBeenCalledWith('assignment-1');
+
+      button.click();
+      fixture.detectChanges();
+      expect(compiled.querySelector('app-assignment-comments')).toBeNull();
+    });
+  });
 });
@@ -1,6 +1,7 @@
-import { Component, input, output, computed, ChangeDetectionStrategy } from '@angular/core';
+import { Component, input, output, computed, signal, ChangeDetectionStrategy } from '@angular/core';
 import type { Task, Assignment } from '@st44/types';
 import type { MyTaskAssignment } from '../../services/task.service';
+import { AssignmentCommentsComponent } from '../assignment-comments/assignment-comments';
 
 /**
  * Reusable task card component for displaying tasks and assignments
@@ -11,7 +12,7 @@ import type { MyTaskAssignment } from '../../services/task.service';
  */
 @Component({
   selector: 'app-task-card',
-  imports: [],
+  imports: [AssignmentCommentsComponent],
   templateUrl: './task-card.html',
   styleUrl: './task-card.css',
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -52,7 +53,10 @@ export class TaskCardComponent {
    */
   isOverdue = computed(() => {
     const t = this.task();
-    if (!('status' in t) || t.status !== 'pending') return false;
+    if (!('status' in t)) return false;
+    // Marked by the backend's overdue sweep, which may not have run yet today
+    if (t.status === 'overdue') return true;
+    if (t.status !== 'pending') return false;
 
     const taskDate = new Date(t.date);
     const today = new Date();
@@ -102,11 +106,28 @@ export class TaskCardComponent {
         return 'Weekly Rotation';
       case 'repeating':
         return 'Repeating';
+      case 'interval':
+        return 'Interval';
+      case 'monthly':
+        return 'Monthly';
       default:
         return '';
     }
   });
 
+  /**
+   * Computed: Number of comments on the assignment (0 for task templates)
+   */
+  commentCount = computed(() => {
+    const t = this.task();
+    return 'commentCount' in t ? (t.commentCount ?? 0) : 0;
+  });
+
+  /**
+   * Whether the comment thread is expanded below the card
+   */
+  showComments = signal(false);
+
   /**
    * Whether to show the reassign button (for assignments only)
    */
@@ -154,6 +175,14 @@ export class TaskCardComponent {
     }
   }
 
+  /**
+   * Handle comment button click: toggle the thread without triggering edit
+   */
+  onCommentsClick(event: Event): void {
+    event.stopPropagation();
+    this.showComments.update((show) => !show);
+  }
+
   /**
    * Handle reassign button click
    */
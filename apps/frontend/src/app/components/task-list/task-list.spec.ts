@@ -376,6 +376,7 @@ describe.skip('TaskList', () => {
     it('should return correct rotation type labels', () => {
       expect(component['getRotationTypeLabel']('odd_even_week')).toBe('Odd/Even Week');
       expect(component['getRotationTypeLabel']('alternating')).toBe('Alternating');
+      expect(component['getRotationTypeLabel']('round_robin')).toBe('Round Robin');
       expect(component['getRotationTypeLabel']('unknown')).toBe('unknown');
       expect(component['getRotationTypeLabel'](undefined)).toBe('');
     });
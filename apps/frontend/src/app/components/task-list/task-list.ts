@@ -153,6 +153,8 @@ export class TaskList implements OnInit {
       daily: 'Daily',
       repeating: 'Repeating',
       weekly_rotation: 'Weekly Rotation',
+      interval: 'Interval',
+      monthly: 'Monthly',
     };
     return labels[ruleType] || ruleType;
   }
@@ -170,6 +172,7 @@ export class TaskList implements OnInit {
     const labels: Record<string, string> = {
       odd_even_week: 'Odd/Even Week',
       alternating: 'Alternating',
+      round_robin: 'Round Robin',
     };
     return labels[rotationType] || rotationType;
   }
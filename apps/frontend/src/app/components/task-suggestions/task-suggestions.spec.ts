@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import type { Task, TaskSuggestion } from '@st44/types';
+import { TaskSuggestionsComponent } from './task-suggestions';
+import { ChildrenService } from '../../services/children.service';
+import { TaskService } from '../../services/task.service';
+
+describe('TaskSuggestionsComponent', () => {
+  let component: TaskSuggestionsComponent;
+  let fixture: ComponentFixture<TaskSuggestionsComponent>;
+  let mockChildrenService: { getTaskSuggestions: ReturnType<typeof vi.fn> };
+  let mockTaskService: { createTaskFromTemplate: ReturnType<typeof vi.fn> };
+
+  const walkDog: TaskSuggestion = {
+    template: {
+      id: 'walk_dog',
+      source: 'builtin',
+      name: 'Gå tur med hunden',
+      description: null,
+      points: 15,
+      ruleType: 'weekly_rotation',
+      ruleConfig: { rotationType: 'round_robin', rotationPeriod: 'weekly' },
+      minAge: 10,
+      maxAge: null,
+    },
+    score: 30,
+    reasons: ['age_fit', 'completed_before'],
+  };
+
+  const makeBed: TaskSuggestion = {
+    template: { ...walkDog.template, id: 'make_bed', name: 'Re opp sengen', points: 5 },
+    score: 12,
+    reasons: ['age_fit'],
+  };
+
+  const createdTask = { id: 'task-1', name: 'Gå tur med hunden' } as Task;
+
+  beforeEach(async () => {
+    mockChildrenService = {
+      getTaskSuggestions: vi.fn().mockResolvedValue({
+        childId: 'child-1',
+        age: 11,
+        suggestions: [walkDog, makeBed],
+      }),
+    };
+    mockTaskService = {
+      createTaskFromTemplate: vi.fn().mockReturnValue(of(createdTask)),
+    };
+
+    await TestBed.configureTestingModule({
+      imports: [TaskSuggestionsComponent],
+      providers: [
+        { provide: ChildrenService, useValue: mockChildrenService },
+        { provide: TaskService, useValue: mockTaskService },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(TaskSuggestionsComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('householdId', 'household-1');
+    fixture.componentRef.setInput('childId', 'child-1');
+  });
+
+  it('should load suggestions for the child on init', async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+
+    expect(mockChildrenService.getTaskSuggestions).toHaveBeenCalledWith('household-1', 'child-1');
+    const items = fixture.nativeElement.querySelectorAll('.suggestion-item');
+    expect(items.length).toBe(2);
+    expect(items[0].textContent).toContain('Gå tur med hunden');
+    expect(items[0].querySelector('.suggestion-reasons').textContent).toContain(
+      'Har gjort den før',
+    );
+  });
+
+  it('should create the task and drop the suggestion when added', async () => {
+    fixture.detectChanges();
+    await fixture.whenStable();
+    const emitted: Task[] = [];
+    component.taskCreated.subscribe((task) => emitted.push(task));
+
+    await component.addSuggestion(walkDog);
+
+    expect(mockTaskService.createTaskFromTemplate).toHaveBeenCalledWith('household-1', {
+      templateId: 'walk_dog',
+      assignedChildren: ['child-1'],
+    });
+    expect(component.suggestions()).toEqual([makeBed]);
+    expect(emitted).toEqual([createdTask]);
+    expect(component.addingTemplateId()).toBeNull();
+  });
+
+  it('should keep the suggestion and show an error when adding fails', async () => {
+    mockTaskService.createTaskFromTemplate.mockReturnValue(
+      throwError(() => new Error('Server error')),
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await component.addSuggestion(walkDog);
+
+    expect(component.suggestions()).toEqual([walkDog, makeBed]);
+    expect(component.errorMessage()).toBeTruthy();
+  });
+
+  it('should show an empty state without suggestions', async () => {
+    mockChildrenService.getTaskSuggestions.mockResolvedValue({
+      childId: 'child-1',
+      age: 3,
+      suggestions: [],
+    });
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.empty-state')).toBeTruthy();
+  });
+
+  it('should show an error when loading fails', async () => {
+    mockChildrenService.getTaskSuggestions.mockRejectedValue(new Error('Network error'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.alert-error')).toBeTruthy();
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  computed,
+  inject,
+  input,
+  output,
+  signal,
+  OnInit,
+} from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import type { Task, TaskSuggestion, TaskSuggestionReason } from '@st44/types';
+import { ChildrenService } from '../../services/children.service';
+import { TaskService } from '../../services/task.service';
+
+const REASON_LABELS: Record<TaskSuggestionReason, string> = {
+  age_fit: $localize`:@@taskSuggestions.reasonAgeFit:Passer for alderen`,
+  completed_before: $localize`:@@taskSuggestions.reasonCompletedBefore:Har gjort den før`,
+  light_chore: $localize`:@@taskSuggestions.reasonLightChore:En lett oppgave`,
+};
+
+/**
+ * Task Suggestions Component
+ *
+ * Chores from the template catalogue that suit one child, best first. Adding
+ * a suggestion creates the task for the child right away.
+ */
+@Component({
+  selector: 'app-task-suggestions',
+  templateUrl: './task-suggestions.html',
+  styleUrl: './task-suggestions.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class TaskSuggestionsComponent implements OnInit {
+  private readonly childrenService = inject(ChildrenService);
+  private readonly taskService = inject(TaskService);
+
+  householdId = input.required<string>();
+  childId = input.required<string>();
+
+  /**
+   * Emitted with the task created from a suggestion
+   */
+  taskCreated = output<Task>();
+
+  suggestions = signal<TaskSuggestion[]>([]);
+  isLoading = signal(false);
+  errorMessage = signal<string | null>(null);
+  /** Template being turned into a task */
+  addingTemplateId = signal<string | null>(null);
+
+  hasSuggestions = computed(() => this.suggestions().length > 0);
+
+  ngOnInit() {
+    this.loadSuggestions();
+  }
+
+  async loadSuggestions() {
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      const response = await this.childrenService.getTaskSuggestions(
+        this.householdId(),
+        this.childId(),
+      );
+      this.suggestions.set(response.suggestions);
+    } catch (error) {
+      console.error('Failed to load task suggestions:', error);
+      this.errorMessage.set(
+        $localize`:@@taskSuggestions.loadFailed:Kunne ikke laste forslag. Vennligst prøv igjen.`,
+      );
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Create a task from the suggested template for this child
+   */
+  async addSuggestion(suggestion: TaskSuggestion) {
+    if (this.addingTemplateId()) {
+      return;
+    }
+
+    this.addingTemplateId.set(suggestion.template.id);
+    this.errorMessage.set(null);
+
+    try {
+      const task = await firstValueFrom(
+        this.taskService.createTaskFromTemplate(this.householdId(), {
+          templateId: suggestion.template.id,
+          assignedChildren: [this.childId()],
+        }),
+      );
+      this.suggestions.update((suggestions) =>
+        suggestions.filter((s) => s.template.id !== suggestion.template.id),
+      );
+      this.taskCreated.emit(task);
+    } catch (error) {
+      console.error('Failed to create task from suggestion:', error);
+      this.errorMessage.set(
+        $localize`:@@taskSuggestions.addFailed:Kunne ikke legge til oppgaven. Vennligst prøv igjen.`,
+      );
+    } finally {
+      this.addingTemplateId.set(null);
+    }
+  }
+
+  getReasonLabel(reason: TaskSuggestionReason): string {
+    return REASON_LABELS[reason];
+  }
+}
@@ -20,8 +20,11 @@ import { AuthService } from '../services/auth.service';
  *   - Unauthenticated users -> /login
  *   - Child users accessing parent routes -> /my-tasks
  *   - Parent/admin users accessing child routes -> /dashboard
+ *   - Caregivers accessing parent-only routes (tasks, rewards) -> /home
  */
-export function roleGuard(allowedRoles: ('admin' | 'parent' | 'child')[]): CanActivateFn {
+export function roleGuard(
+  allowedRoles: ('admin' | 'parent' | 'caregiver' | 'child')[],
+): CanActivateFn {
   return (route: ActivatedRouteSnapshot, state: RouterStateSnapshot) => {
     const authService = inject(AuthService);
     const router = inject(Router);
@@ -39,7 +39,7 @@ const RETRY_DELAY_MS = 1000;
  * URLs that should not trigger auth redirect on 401
  * (prevents redirect loops)
  */
-const NO_REDIRECT_URLS = ['/auth/login', '/auth/register', '/auth/refresh-token'];
+const NO_REDIRECT_URLS = ['/auth/login', '/auth/register', '/auth/refresh-token', '/auth/logout'];
 
 /**
  * Check if we should retry the request
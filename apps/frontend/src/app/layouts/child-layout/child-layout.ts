@@ -3,6 +3,7 @@ import {
   ChangeDetectionStrategy,
   signal,
   inject,
+  effect,
   OnInit,
   OnDestroy,
 } from '@angular/core';
@@ -10,6 +11,8 @@ import { Router, RouterOutlet, NavigationEnd } from '@angular/router';
 import { filter, Subscription } from 'rxjs';
 import { ChildNav, type ChildNavScreen } from '../../components/navigation/child-nav/child-nav';
 import { AuthService } from '../../services/auth.service';
+import { HouseholdEventsService } from '../../services/household-events.service';
+import { HouseholdStore } from '../../stores/household.store';
 
 /**
  * Child Layout Component
@@ -18,6 +21,7 @@ import { AuthService } from '../../services/auth.service';
  * - Header with greeting and logout
  * - Bottom navigation (Tasks / Rewards)
  * - Child-friendly interface
+ * - Live household events, so changes by parents and siblings show up
  */
 @Component({
   selector: 'app-child-layout',
@@ -29,14 +33,30 @@ import { AuthService } from '../../services/auth.service';
 export class ChildLayout implements OnInit, OnDestroy {
   private readonly router = inject(Router);
   private readonly authService = inject(AuthService);
+  private readonly householdStore = inject(HouseholdStore);
+  private readonly householdEvents = inject(HouseholdEventsService);
   private routerSubscription: Subscription | null = null;
 
   // State
   protected readonly activeScreen = signal<ChildNavScreen>('tasks');
 
+  constructor() {
+    effect(() => {
+      const householdId = this.householdStore.activeHouseholdId();
+      if (householdId) {
+        this.householdEvents.connect(householdId);
+      }
+    });
+  }
+
   ngOnInit(): void {
     this.updateActiveScreenFromUrl(this.router.url);
 
+    // Children have a single household; pick it so its events can be streamed
+    this.householdStore
+      .autoActivateHousehold()
+      .catch((err) => console.error('Failed to load household:', err));
+
     // Listen for route changes
     this.routerSubscription = this.router.events
       .pipe(filter((event): event is NavigationEnd => event instanceof NavigationEnd))
@@ -47,6 +67,7 @@ export class ChildLayout implements OnInit, OnDestroy {
 
   ngOnDestroy(): void {
     this.routerSubscription?.unsubscribe();
+    this.householdEvents.disconnect();
   }
 
   /**
@@ -4,6 +4,7 @@ import {
   signal,
   computed,
   inject,
+  effect,
   OnInit,
   OnDestroy,
 } from '@angular/core';
@@ -21,6 +22,7 @@ import { AuthService } from '../../services/auth.service';
 import { HouseholdService } from '../../services/household.service';
 import { HouseholdStore } from '../../stores/household.store';
 import { ChildrenService } from '../../services/children.service';
+import { HouseholdEventsService } from '../../services/household-events.service';
 import type { NavScreen } from '../../components/navigation/bottom-nav/bottom-nav';
 import type { Child } from '@st44/types';
 import { TaskService } from '../../services/task.service';
@@ -34,6 +36,7 @@ import { take } from 'rxjs';
  * - Bottom navigation (mobile)
  * - Router outlet for page content
  * - Create task modal (full-featured)
+ * - Live household events for the active household
  *
  * This layout handles navigation state and routing,
  * allowing page components to focus on their content.
@@ -59,6 +62,7 @@ export class MainLayout implements OnInit, OnDestroy {
   private readonly householdStore = inject(HouseholdStore);
   private readonly childrenService = inject(ChildrenService);
   private readonly taskService = inject(TaskService);
+  private readonly householdEvents = inject(HouseholdEventsService);
 
   private routerSubscription: Subscription | null = null;
 
@@ -86,6 +90,18 @@ export class MainLayout implements OnInit, OnDestroy {
     };
   });
 
+  constructor() {
+    // Follow the household switcher so pages get the active household's events
+    effect(() => {
+      const householdId = this.householdStore.activeHouseholdId();
+      if (householdId) {
+        this.householdEvents.connect(householdId);
+      } else {
+        this.householdEvents.disconnect();
+      }
+    });
+  }
+
   ngOnInit(): void {
     this.loadHouseholdData();
     this.updateActiveScreenFromUrl(this.router.url);
@@ -100,6 +116,7 @@ export class MainLayout implements OnInit, OnDestroy {
 
   ngOnDestroy(): void {
     this.routerSubscription?.unsubscribe();
+    this.householdEvents.disconnect();
   }
 
   /**
@@ -225,6 +242,8 @@ export class MainLayout implements OnInit, OnDestroy {
         points: data.points,
         ruleType: data.ruleType,
         ruleConfig: data.ruleConfig,
+        requiresApproval: data.requiresApproval,
+        requiresPhoto: data.requiresPhoto,
       })
       .pipe(take(1))
       .subscribe({
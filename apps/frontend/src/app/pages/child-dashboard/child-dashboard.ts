@@ -6,16 +6,20 @@ import {
   OnInit,
   ChangeDetectionStrategy,
 } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { Router } from '@angular/router';
 import { firstValueFrom } from 'rxjs';
 import { AnalyticsService } from '../../services/analytics.service';
 import { TaskService, type MyTaskAssignment } from '../../services/task.service';
 import { SingleTaskService } from '../../services/single-task.service';
+import { AchievementService } from '../../services/achievement.service';
+import { HouseholdEventsService } from '../../services/household-events.service';
 import { AvailableTasksSectionComponent } from '../../components/available-tasks-section/available-tasks-section';
 import { StreakCounter } from '../../components/streak-counter/streak-counter';
 import { ProgressSummary } from '../../components/progress-summary/progress-summary';
 import { DailyPointsChart } from '../../components/daily-points-chart/daily-points-chart';
-import type { ChildAnalytics } from '@st44/types';
+import { CelebrationComponent } from '../../components/celebration/celebration';
+import type { ChildAnalytics, HouseholdEvent } from '@st44/types';
 
 /**
  * Child Dashboard Component
@@ -25,12 +29,20 @@ import type { ChildAnalytics } from '@st44/types';
  * - Today's task assignments
  * - Points earned vs total available
  * - Simple one-tap task completion
+ * - A celebration for achievements unlocked since the last visit
+ * - Live updates when a parent assigns, reassigns or approves a task
  *
  * Optimized for children with large buttons, clear text, and visual feedback.
  */
 @Component({
   selector: 'app-child-dashboard',
-  imports: [AvailableTasksSectionComponent, StreakCounter, ProgressSummary, DailyPointsChart],
+  imports: [
+    AvailableTasksSectionComponent,
+    StreakCounter,
+    ProgressSummary,
+    DailyPointsChart,
+    CelebrationComponent,
+  ],
   templateUrl: './child-dashboard.html',
   styleUrl: './child-dashboard.css',
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -40,11 +52,15 @@ export class ChildDashboardComponent implements OnInit {
   private analyticsService = inject(AnalyticsService);
   private taskService = inject(TaskService);
   private singleTaskService = inject(SingleTaskService);
+  private achievementService = inject(AchievementService);
+  private householdEvents = inject(HouseholdEventsService);
 
   // Local state
   analytics = signal<ChildAnalytics | null>(null);
   errorMessage = signal('');
   completingTasks = signal<Set<string>>(new Set());
+  /** Message of the achievement celebration, null while none is showing */
+  celebrationMessage = signal<string | null>(null);
 
   // Use TaskService signals directly for reactive updates
   isLoading = this.taskService.myTasksLoading;
@@ -65,11 +81,21 @@ export class ChildDashboardComponent implements OnInit {
     return tasks.length > 0 && tasks.every((t) => t.status === 'completed');
   });
   pendingTasks = computed(() => this.tasks().filter((t) => t.status === 'pending'));
+  awaitingApprovalTasks = computed(() => this.tasks().filter((t) => t.status === 'pending_review'));
   completedTasks = computed(() => this.tasks().filter((t) => t.status === 'completed'));
   hasAvailableTasks = computed(() => this.singleTaskService.availableTasks().length > 0);
 
+  constructor() {
+    // TaskService patches completions and reassignments away from this child itself
+    this.householdEvents.events
+      .pipe(takeUntilDestroyed())
+      .subscribe((event) => void this.onHouseholdEvent(event));
+  }
+
   async ngOnInit() {
     await this.loadMyTasks();
+    // Unlocks from completions a parent approved while the child was away
+    await this.checkNewAchievements();
   }
 
   async loadMyTasks() {
@@ -101,17 +127,25 @@ export class ChildDashboardComponent implements OnInit {
     }
   }
 
-  async onMarkDone(task: MyTaskAssignment) {
+  async onMarkDone(task: MyTaskAssignment, photo?: File) {
     // Add to completing set to show loading state on the button
     this.completingTasks.update((set) => new Set(set).add(task.id));
 
     try {
       // Complete task - signal updates automatically via optimistic update
-      await this.taskService.completeTask(task.id);
+      await this.taskService.completeTask(task.id, photo);
       // No reload needed - TaskService updates myTasksResponseSignal optimistically
+      await this.checkNewAchievements();
     } catch (error) {
       console.error('Failed to complete task:', error);
-      this.errorMessage.set('Failed to mark task as done. Please try again.');
+      const httpError = error as { status?: number };
+      if (httpError?.status === 413) {
+        this.errorMessage.set('That photo is too big. Please try a smaller one.');
+      } else if (photo && (httpError?.status === 400 || httpError?.status === 415)) {
+        this.errorMessage.set("We couldn't use that photo. Please take a new one.");
+      } else {
+        this.errorMessage.set('Failed to mark task as done. Please try again.');
+      }
     } finally {
       // Remove from completing set
       this.completingTasks.update((set) => {
@@ -122,6 +156,66 @@ export class ChildDashboardComponent implements OnInit {
     }
   }
 
+  /**
+   * Complete a task that needs photo proof once the child has picked a photo
+   */
+  async onPhotoSelected(task: MyTaskAssignment, event: Event) {
+    const input = event.target as HTMLInputElement;
+    const photo = input.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    input.value = '';
+    if (photo) {
+      await this.onMarkDone(task, photo);
+    }
+  }
+
+  /**
+   * Celebrate the achievements unlocked since the last check, all at once
+   */
+  async checkNewAchievements() {
+    try {
+      const unlocks = await this.achievementService.getNewUnlocks();
+      if (unlocks.length === 0) return;
+
+      const names = unlocks.map((unlock) => `${unlock.icon} ${unlock.name}`).join(', ');
+      this.celebrationMessage.set(
+        $localize`:@@childDashboard.achievementUnlocked:Ny prestasjon: ${names}:names:`,
+      );
+    } catch (error) {
+      // Achievements are a bonus - don't show an error to the child
+      console.error('Failed to check new achievements:', error);
+    }
+  }
+
+  /**
+   * Pick up tasks given to this child and celebrate approved completions
+   */
+  async onHouseholdEvent(event: HouseholdEvent) {
+    switch (event.type) {
+      case 'assignment.created':
+      case 'assignment.reassigned':
+      case 'single_task.accepted':
+        try {
+          await this.taskService.refreshMyTasks(new Date().toISOString().split('T')[0]);
+        } catch (error) {
+          console.error('Failed to refresh tasks:', error);
+        }
+        break;
+      case 'assignment.completed':
+        if (
+          event.data.status === 'completed' &&
+          this.tasks().some((task) => task.id === event.data.assignmentId)
+        ) {
+          await this.checkNewAchievements();
+        }
+        break;
+    }
+  }
+
+  onCelebrationDismissed() {
+    this.celebrationMessage.set(null);
+  }
+
   isCompleting(taskId: string): boolean {
     return this.completingTasks().has(taskId);
   }
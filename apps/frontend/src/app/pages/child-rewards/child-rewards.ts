@@ -1,6 +1,14 @@
-import { Component, OnInit, signal, inject, ChangeDetectionStrategy } from '@angular/core';
+import {
+  Component,
+  OnInit,
+  signal,
+  computed,
+  inject,
+  ChangeDetectionStrategy,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router } from '@angular/router';
+import type { SavingsGoal } from '@st44/types';
 import { RewardService, ChildReward } from '../../services/reward.service';
 
 /**
@@ -10,6 +18,7 @@ import { RewardService, ChildReward } from '../../services/reward.service';
  * - View their current points balance
  * - Browse available rewards
  * - Redeem rewards with their points
+ * - Save for rewards, earmarking points and seeing when they can afford them
  */
 @Component({
   selector: 'app-child-rewards',
@@ -25,13 +34,21 @@ export class ChildRewards implements OnInit {
   // Local component state
   redeemingRewardId = signal<string | null>(null);
   successMessage = signal<string | null>(null);
+  savingGoalId = signal<string | null>(null);
 
   // Service signals (exposed for template)
   childRewards = this.rewardService.childRewards;
   pointsBalance = this.rewardService.pointsBalance;
+  availablePoints = this.rewardService.availablePoints;
+  savingsGoals = this.rewardService.savingsGoals;
   loading = this.rewardService.childRewardsLoading;
   error = this.rewardService.childRewardsError;
 
+  // Rewards the child is saving for, by reward id
+  goalsByReward = computed(
+    () => new Map(this.savingsGoals().map((goal) => [goal.rewardId, goal] as const)),
+  );
+
   ngOnInit(): void {
     this.rewardService.loadChildRewards().subscribe({
       error: (err) => {
@@ -73,6 +90,89 @@ export class ChildRewards implements OnInit {
     });
   }
 
+  /**
+   * Why a reward can't be redeemed right now, for its status badge
+   */
+  unavailableLabel(reward: ChildReward): string {
+    switch (reward.unavailableReason) {
+      case 'REWARD_NOT_STARTED':
+        return `Available from ${reward.availableFrom}`;
+      case 'REWARD_ENDED':
+        return 'No longer available';
+      case 'REWARD_NOT_AVAILABLE_TODAY':
+        return 'Not available today';
+      case 'REDEMPTION_LIMIT_REACHED':
+        return `Limit reached this ${reward.redemptionLimit?.period ?? 'period'}`;
+      default:
+        return 'Out of Stock';
+    }
+  }
+
+  /**
+   * Points still missing for a reward; a goal's own earmark counts towards it
+   */
+  pointsNeeded(reward: ChildReward): number {
+    const earmarked = this.goalsByReward().get(reward.id)?.earmarkedPoints ?? 0;
+    return Math.max(reward.pointsCost - this.availablePoints() - earmarked, 0);
+  }
+
+  /**
+   * Start saving for a reward
+   */
+  saveFor(reward: ChildReward): void {
+    this.savingGoalId.set(reward.id);
+
+    this.rewardService.createSavingsGoal({ rewardId: reward.id }).subscribe({
+      next: () => this.savingGoalId.set(null),
+      error: (err) => {
+        this.savingGoalId.set(null);
+        alert(`Failed to save for reward: ${err.message || 'Unknown error'}`);
+      },
+    });
+  }
+
+  /**
+   * Earmark points for a goal, from the goal's number input
+   */
+  setEarmark(goal: SavingsGoal, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const earmarkedPoints = Math.max(Math.floor(Number(input.value) || 0), 0);
+
+    if (earmarkedPoints === goal.earmarkedPoints) {
+      return;
+    }
+
+    this.savingGoalId.set(goal.id);
+
+    this.rewardService.updateSavingsGoal(goal.id, { earmarkedPoints }).subscribe({
+      next: () => this.savingGoalId.set(null),
+      error: (err) => {
+        this.savingGoalId.set(null);
+        input.value = String(goal.earmarkedPoints);
+        alert(`Failed to set aside points: ${err.message || 'Unknown error'}`);
+      },
+    });
+  }
+
+  /**
+   * Stop saving for a goal
+   */
+  removeGoal(goal: SavingsGoal): void {
+    if (!confirm(`Stop saving for "${goal.rewardName}"?`)) {
+      return;
+    }
+
+    this.savingGoalId.set(goal.id);
+
+    this.rewardService.deleteSavingsGoal(goal.id).subscribe({
+      next: () => this.savingGoalId.set(null),
+      error: (err) => {
+        this.savingGoalId.set(null);
+        alert(`Failed to remove goal: ${err.message || 'Unknown error'}`);
+      },
+    });
+  }
+
   /**
    * Navigate back to dashboard
    */
@@ -190,5 +190,17 @@ describe('Home', () => {
       component['upcomingTasks'].set([mockTask as Assignment]);
       expect(component['hasUpcomingTasks']()).toBe(true);
     });
+
+    it('should not let caregivers manage tasks', () => {
+      expect(component['canManageTasks']()).toBe(true);
+
+      mockAuthService.currentUser.mockReturnValue({
+        id: '1',
+        email: 'test@example.com',
+        role: 'caregiver',
+      });
+      const caregiverFixture = TestBed.createComponent(Home);
+      expect(caregiverFixture.componentInstance['canManageTasks']()).toBe(false);
+    });
   });
 });
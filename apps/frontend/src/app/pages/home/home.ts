@@ -6,6 +6,7 @@ import {
   inject,
   OnInit,
 } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { TaskCardComponent } from '../../components/task-card/task-card';
 import { StatCard } from '../../components/stat-card/stat-card';
 import {
@@ -14,6 +15,7 @@ import {
 } from '../../components/modals/task-form-modal/task-form-modal';
 import { CelebrationComponent } from '../../components/celebration/celebration';
 import { FailedTasksSectionComponent } from '../../components/failed-tasks-section/failed-tasks-section';
+import { PendingReviewsSectionComponent } from '../../components/pending-reviews-section/pending-reviews-section';
 import { WeekComparison } from '../../components/week-comparison/week-comparison';
 import { ChildrenTrends } from '../../components/children-trends/children-trends';
 import { TaskService } from '../../services/task.service';
@@ -23,7 +25,8 @@ import { HouseholdService } from '../../services/household.service';
 import { HouseholdStore } from '../../stores/household.store';
 import { DashboardService } from '../../services/dashboard.service';
 import { AnalyticsService } from '../../services/analytics.service';
-import type { Task, Assignment, Child, HouseholdAnalytics } from '@st44/types';
+import { HouseholdEventsService } from '../../services/household-events.service';
+import type { Task, Assignment, Child, HouseholdAnalytics, HouseholdEvent } from '@st44/types';
 
 /**
  * Dashboard stats for home screen
@@ -42,6 +45,7 @@ interface DashboardStats {
  * - Quick stats (active tasks, week progress, points)
  * - Today's tasks filtered from assignments
  * - Coming up tasks (next 3 days)
+ * - Live updates when other members complete, reassign or accept tasks
  *
  * Navigation is handled by the parent MainLayout component.
  */
@@ -53,6 +57,7 @@ interface DashboardStats {
     TaskFormModal,
     CelebrationComponent,
     FailedTasksSectionComponent,
+    PendingReviewsSectionComponent,
     WeekComparison,
     ChildrenTrends,
   ],
@@ -68,6 +73,7 @@ export class Home implements OnInit {
   private readonly householdStore = inject(HouseholdStore);
   private readonly dashboardService = inject(DashboardService);
   private readonly analyticsService = inject(AnalyticsService);
+  private readonly householdEvents = inject(HouseholdEventsService);
 
   // State signals
   protected readonly loading = signal(false);
@@ -100,9 +106,20 @@ export class Home implements OnInit {
     return 'Good evening';
   });
 
+  /** Caregivers complete today's tasks but cannot edit tasks or review completions */
+  protected readonly canManageTasks = computed(
+    () => this.authService.currentUser()?.role !== 'caregiver',
+  );
+
   protected readonly hasTodayTasks = computed(() => this.todayTasks().length > 0);
   protected readonly hasUpcomingTasks = computed(() => this.upcomingTasks().length > 0);
 
+  constructor() {
+    this.householdEvents.events
+      .pipe(takeUntilDestroyed())
+      .subscribe((event) => this.onHouseholdEvent(event));
+  }
+
   async ngOnInit(): Promise<void> {
     await this.loadData();
   }
@@ -237,13 +254,12 @@ export class Home implements OnInit {
     try {
       await this.taskService.completeTask(taskId);
 
-      // Remove from today's tasks
-      this.todayTasks.update((tasks) => tasks.filter((t) => t.id !== taskId));
+      // Remove from today's tasks (the completion event may have done it already)
+      this.removeTodayTask(taskId);
 
       // Update stats
       this.stats.update((current) => ({
         ...current,
-        activeCount: current.activeCount - 1,
         totalPoints: current.totalPoints + 10,
       }));
 
@@ -255,6 +271,49 @@ export class Home implements OnInit {
     }
   }
 
+  /**
+   * Remove a task from today's list, counting it as no longer active
+   */
+  private removeTodayTask(taskId: string): void {
+    const tasks = this.todayTasks();
+    if (!tasks.some((t) => t.id === taskId)) return;
+
+    this.todayTasks.set(tasks.filter((t) => t.id !== taskId));
+    this.stats.update((current) => ({
+      ...current,
+      activeCount: Math.max(current.activeCount - 1, 0),
+    }));
+  }
+
+  /**
+   * Apply a change made by another household member
+   */
+  private onHouseholdEvent(event: HouseholdEvent): void {
+    const householdId = this.householdId();
+    if (!householdId || event.householdId !== householdId) return;
+
+    switch (event.type) {
+      case 'assignment.completed':
+        this.removeTodayTask(event.data.assignmentId);
+        this.upcomingTasks.update((tasks) => tasks.filter((t) => t.id !== event.data.assignmentId));
+        break;
+      case 'assignment.reassigned': {
+        const { assignmentId, childId, childName } = event.data;
+        const reassign = (tasks: Assignment[]) =>
+          tasks.map((t) => (t.id === assignmentId ? { ...t, childId, childName } : t));
+        this.todayTasks.update(reassign);
+        this.upcomingTasks.update(reassign);
+        break;
+      }
+      case 'assignment.created':
+      case 'single_task.accepted':
+        // New assignments need their task details, so fetch the lists again
+        void this.loadTodayTasks(householdId);
+        void this.loadUpcomingTasks(householdId);
+        break;
+    }
+  }
+
   /**
    * Handle task edit - open edit modal with task data
    */
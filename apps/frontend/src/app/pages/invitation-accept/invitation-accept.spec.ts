@@ -295,6 +295,17 @@ describe('InvitationAcceptComponent', () => {
       expect(component['errorMessage']()).toBe('You are already a member of this household.');
     });
 
+    it('should handle 409 error (child profile already linked)', async () => {
+      mockInvitationService.acceptInvitation.mockRejectedValue({
+        status: 409,
+        error: { message: 'This child profile already has an account' },
+      });
+      await component['acceptInvitation']();
+      expect(component['errorMessage']()).toBe(
+        'This child profile is already linked to an account.',
+      );
+    });
+
     it('should handle unknown error with message', async () => {
       mockInvitationService.acceptInvitation.mockRejectedValue({
         status: 500,
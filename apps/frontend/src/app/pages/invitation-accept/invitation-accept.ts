@@ -116,6 +116,8 @@ export class InvitationAcceptComponent implements OnInit {
       this.errorMessage.set('This invitation is not for your email address.');
     } else if (err.status === 400) {
       this.errorMessage.set(err.error?.message || 'Invitation has expired or is no longer valid.');
+    } else if (err.status === 409 && err.error?.message?.includes('child profile')) {
+      this.errorMessage.set('This child profile is already linked to an account.');
     } else if (err.status === 409) {
       this.errorMessage.set('You are already a member of this household.');
     } else {
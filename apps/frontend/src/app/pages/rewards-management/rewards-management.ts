@@ -5,7 +5,33 @@ import { Router } from '@angular/router';
 import { RewardService } from '../../services/reward.service';
 import { HouseholdService } from '../../services/household.service';
 import { PageComponent } from '../../components/page/page';
-import type { Reward, CreateRewardRequest } from '@st44/types';
+import type { Reward, CreateRewardRequest, RewardPeriod } from '@st44/types';
+
+/**
+ * Redemption limit, availability and restock fields of the reward form;
+ * an empty count or date means the rule is not used
+ */
+interface RewardRulesForm {
+  limitCount: number | null;
+  limitPeriod: RewardPeriod;
+  availableFrom: string;
+  availableUntil: string;
+  availableDays: number[];
+  restockQuantity: number | null;
+  restockPeriod: RewardPeriod;
+}
+
+const EMPTY_RULES: RewardRulesForm = {
+  limitCount: null,
+  limitPeriod: 'week',
+  availableFrom: '',
+  availableUntil: '',
+  availableDays: [],
+  restockQuantity: null,
+  restockPeriod: 'week',
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 /**
  * Rewards Management Component (Parent/Admin)
@@ -15,6 +41,7 @@ import type { Reward, CreateRewardRequest } from '@st44/types';
  * - Create new rewards
  * - Edit existing rewards
  * - Delete rewards
+ * - Limit redemptions per child, set when rewards are available and restock them
  * - View and manage redemptions
  */
 @Component({
@@ -41,6 +68,11 @@ export class RewardsManagementComponent implements OnInit {
     pointsCost: 50,
     quantity: null,
   });
+  rulesForm = signal<RewardRulesForm>({ ...EMPTY_RULES });
+
+  // Days of the week as offered in the form, starting on Monday
+  readonly weekDays = [1, 2, 3, 4, 5, 6, 0].map((day) => ({ day, name: DAY_NAMES[day] }));
+  readonly periods: RewardPeriod[] = ['day', 'week', 'month'];
 
   // Service signals (exposed for template)
   rewards = this.rewardService.rewards;
@@ -85,7 +117,7 @@ export class RewardsManagementComponent implements OnInit {
       return;
     }
 
-    this.rewardService.createReward(householdId, form).subscribe({
+    this.rewardService.createReward(householdId, { ...form, ...this.buildRules() }).subscribe({
       next: () => {
         this.resetForm();
         this.showCreateForm.set(false);
@@ -107,6 +139,15 @@ export class RewardsManagementComponent implements OnInit {
       pointsCost: reward.pointsCost,
       quantity: reward.quantity,
     });
+    this.rulesForm.set({
+      limitCount: reward.redemptionLimit?.count ?? null,
+      limitPeriod: reward.redemptionLimit?.period ?? 'week',
+      availableFrom: reward.availableFrom ?? '',
+      availableUntil: reward.availableUntil ?? '',
+      availableDays: reward.availableDays ?? [],
+      restockQuantity: reward.restock?.quantity ?? null,
+      restockPeriod: reward.restock?.period ?? 'week',
+    });
   }
 
   /**
@@ -117,7 +158,8 @@ export class RewardsManagementComponent implements OnInit {
     const editing = this.editingReward();
     if (!householdId || !editing) return;
 
-    this.rewardService.updateReward(householdId, editing.id, this.rewardForm()).subscribe({
+    const request = { ...this.rewardForm(), ...this.buildRules() };
+    this.rewardService.updateReward(householdId, editing.id, request).subscribe({
       next: () => {
         this.editingReward.set(null);
         this.resetForm();
@@ -210,6 +252,67 @@ export class RewardsManagementComponent implements OnInit {
     });
   }
 
+  /**
+   * Toggle a day of the week in the form; no days selected means every day
+   */
+  toggleDay(day: number): void {
+    this.rulesForm.update((rules) => ({
+      ...rules,
+      availableDays: rules.availableDays.includes(day)
+        ? rules.availableDays.filter((d) => d !== day)
+        : [...rules.availableDays, day].sort(),
+    }));
+  }
+
+  /**
+   * Short description of a reward's rules for the list, e.g. "2 per child each week"
+   */
+  describeRules(reward: Reward): string[] {
+    const rules: string[] = [];
+
+    if (reward.redemptionLimit) {
+      const { count, period } = reward.redemptionLimit;
+      rules.push(`${count} per child each ${period}`);
+    }
+    if (reward.availableFrom && reward.availableUntil) {
+      rules.push(`${reward.availableFrom} – ${reward.availableUntil}`);
+    } else if (reward.availableFrom) {
+      rules.push(`From ${reward.availableFrom}`);
+    } else if (reward.availableUntil) {
+      rules.push(`Until ${reward.availableUntil}`);
+    }
+    if (reward.availableDays) {
+      rules.push(reward.availableDays.map((day) => DAY_NAMES[day]).join(', '));
+    }
+    if (reward.restock) {
+      rules.push(`Restocks to ${reward.restock.quantity} each ${reward.restock.period}`);
+    }
+
+    return rules;
+  }
+
+  /**
+   * The rules of the form as request fields; unused rules are sent as null
+   */
+  private buildRules(): Pick<
+    CreateRewardRequest,
+    'redemptionLimit' | 'availableFrom' | 'availableUntil' | 'availableDays' | 'restock'
+  > {
+    const rules = this.rulesForm();
+
+    return {
+      redemptionLimit: rules.limitCount
+        ? { count: rules.limitCount, period: rules.limitPeriod }
+        : null,
+      availableFrom: rules.availableFrom || null,
+      availableUntil: rules.availableUntil || null,
+      availableDays: rules.availableDays.length > 0 ? rules.availableDays : null,
+      restock: rules.restockQuantity
+        ? { quantity: rules.restockQuantity, period: rules.restockPeriod }
+        : null,
+    };
+  }
+
   /**
    * Reset form to initial state
    */
@@ -220,6 +323,7 @@ export class RewardsManagementComponent implements OnInit {
       pointsCost: 50,
       quantity: null,
     });
+    this.rulesForm.set({ ...EMPTY_RULES });
   }
 
   /**
@@ -6,6 +6,7 @@ import { UserService, type UserProfile } from '../../services/user.service';
 import { AuthService } from '../../services/auth.service';
 import { HouseholdService, type HouseholdListItem } from '../../services/household.service';
 import { InvitationService } from '../../services/invitation.service';
+import { PushNotificationService } from '../../services/push-notification.service';
 import { PageComponent } from '../../components/page/page';
 import { environment } from '../../../environments/environment';
 
@@ -16,6 +17,7 @@ import { environment } from '../../../environments/environment';
  * - Display name
  * - Email address
  * - Password change
+ * - Push notifications for this device
  *
  * Design matches the "Diddit!" playful aesthetic from UX redesign.
  * Navigation is handled by the parent MainLayout component.
@@ -33,6 +35,7 @@ export class Settings implements OnInit {
   private readonly householdService = inject(HouseholdService);
   private readonly invitationService = inject(InvitationService);
   private readonly router = inject(Router);
+  protected readonly pushNotifications = inject(PushNotificationService);
 
   // State signals
   protected readonly loading = signal(true);
@@ -58,6 +61,9 @@ export class Settings implements OnInit {
   // Password section toggle
   protected readonly showPasswordSection = signal(false);
 
+  // Push notifications (only with a registered service worker)
+  protected readonly pushSupported = this.pushNotifications.isSupported();
+
   // App version info
   protected readonly appVersion = environment.version;
   protected readonly buildTime = environment.buildTime;
@@ -211,6 +217,24 @@ export class Settings implements OnInit {
     }
   }
 
+  /**
+   * Subscribe this device to push notifications
+   */
+  protected async enablePush(): Promise<void> {
+    this.error.set(null);
+    const enabled = await this.pushNotifications.enable();
+    if (!enabled && !this.pushNotifications.isBlocked()) {
+      this.error.set('Could not turn on notifications. Please try again.');
+    }
+  }
+
+  /**
+   * Unsubscribe this device from push notifications
+   */
+  protected async disablePush(): Promise<void> {
+    await this.pushNotifications.disable();
+  }
+
   /**
    * Logout and redirect to login
    */
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TestBed } from '@angular/core/testing';
+import type { AchievementUnlock } from '@st44/types';
+import { AchievementService } from './achievement.service';
+import { ApiService } from './api.service';
+
+describe('AchievementService', () => {
+  let service: AchievementService;
+  let mockApiService: { get: ReturnType<typeof vi.fn> };
+
+  const unlock: AchievementUnlock = {
+    id: 'first_task',
+    source: 'builtin',
+    name: 'Første steg',
+    description: 'Fullfør din første oppgave',
+    icon: '🌟',
+    type: 'tasks_completed',
+    threshold: 1,
+    taskId: null,
+    unlockedAt: '2026-10-18T12:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    mockApiService = {
+      get: vi.fn(),
+    };
+
+    TestBed.configureTestingModule({
+      providers: [AchievementService, { provide: ApiService, useValue: mockApiService }],
+    });
+
+    service = TestBed.inject(AchievementService);
+  });
+
+  describe('getNewUnlocks', () => {
+    it('should fetch new unlocks without the loading indicator', async () => {
+      mockApiService.get.mockResolvedValue({ childId: 'child-1', unlocks: [unlock] });
+
+      const result = await service.getNewUnlocks();
+
+      expect(mockApiService.get).toHaveBeenCalledWith('/stats/achievements/new', {
+        skipLoading: true,
+      });
+      expect(result).toEqual([unlock]);
+    });
+
+    it('should propagate errors from ApiService', async () => {
+      mockApiService.get.mockRejectedValue(new Error('Network error'));
+
+      await expect(service.getNewUnlocks()).rejects.toThrow('Network error');
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { Injectable, inject } from '@angular/core';
+import type { AchievementUnlock, NewAchievementUnlocksResponse } from '@st44/types';
+import { ApiService } from './api.service';
+
+/**
+ * Achievement Service
+ *
+ * Achievements are unlocked by the backend when a completion is credited;
+ * this service picks up the ones the signed-in child has not seen yet.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AchievementService {
+  private readonly api = inject(ApiService);
+
+  /**
+   * Fetch the achievements the signed-in child unlocked since the last check
+   *
+   * The backend marks them as seen, so each unlock is returned only once.
+   *
+   * @returns Promise<AchievementUnlock[]> - New unlocks, oldest first
+   */
+  async getNewUnlocks(): Promise<AchievementUnlock[]> {
+    const response = await this.api.get<NewAchievementUnlocksResponse>('/stats/achievements/new', {
+      skipLoading: true,
+    });
+    return response.unlocks;
+  }
+}
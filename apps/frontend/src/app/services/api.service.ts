@@ -82,6 +82,13 @@ export class ApiService {
     return firstValueFrom(this.put$<T>(endpoint, body, options));
   }
 
+  /**
+   * PATCH request (Promise)
+   */
+  async patch<T>(endpoint: string, body: unknown, options?: ApiRequestOptions): Promise<T> {
+    return firstValueFrom(this.patch$<T>(endpoint, body, options));
+  }
+
   /**
    * DELETE request (Promise)
    */
@@ -89,6 +96,13 @@ export class ApiService {
     return firstValueFrom(this.delete$<T>(endpoint, options));
   }
 
+  /**
+   * POST a file as the raw request body (Promise)
+   */
+  async upload<T>(endpoint: string, file: Blob, options?: ApiRequestOptions): Promise<T> {
+    return firstValueFrom(this.upload$<T>(endpoint, file, options));
+  }
+
   // =====================================================
   // Observable-based methods (RxJS patterns)
   // =====================================================
@@ -152,4 +166,28 @@ export class ApiService {
       context: this.getContext(options),
     });
   }
+
+  /**
+   * POST a file as the raw request body (Observable)
+   * @returns Observable that emits the response
+   */
+  upload$<T>(endpoint: string, file: Blob, options?: ApiRequestOptions): Observable<T> {
+    const url = `${this.baseUrl}${endpoint}`;
+    return this.http.post<T>(url, file, {
+      headers: this.getHeaders(false).set('Content-Type', file.type),
+      context: this.getContext(options),
+    });
+  }
+
+  /**
+   * GET a binary response such as an image (Observable)
+   * @returns Observable that emits the response body as a Blob
+   */
+  getBlob$(endpoint: string, options?: ApiRequestOptions): Observable<Blob> {
+    const url = `${this.baseUrl}${endpoint}`;
+    return this.http.get(url, {
+      context: this.getContext(options),
+      responseType: 'blob',
+    });
+  }
 }
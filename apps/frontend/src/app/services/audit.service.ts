@@ -0,0 +1,52 @@
+import { Injectable, inject } from '@angular/core';
+import { ApiService } from './api.service';
+import type { AuditEventListResponse, AuditEntityType } from '@st44/types';
+
+/**
+ * Filters and page for the household audit log
+ */
+export interface AuditLogQuery {
+  entityType?: AuditEntityType;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Audit Service
+ *
+ * Reads the household audit log (who changed what, newest first).
+ * Only household admins may read it.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuditService {
+  private readonly api = inject(ApiService);
+
+  /**
+   * Fetch a page of audit events for a household
+   *
+   * @param householdId - The household ID
+   * @param query - Optional entity type filter and page
+   * @returns Promise<AuditEventListResponse> - Events and pagination metadata
+   * @throws Error if the user is not an admin of the household
+   */
+  async listAuditEvents(
+    householdId: string,
+    query: AuditLogQuery = {},
+  ): Promise<AuditEventListResponse> {
+    const params = new URLSearchParams();
+    if (query.entityType) {
+      params.set('entityType', query.entityType);
+    }
+    if (query.page) {
+      params.set('page', String(query.page));
+    }
+    if (query.pageSize) {
+      params.set('pageSize', String(query.pageSize));
+    }
+
+    const queryString = params.toString() ? `?${params.toString()}` : '';
+    return this.api.get<AuditEventListResponse>(`/households/${householdId}/audit${queryString}`);
+  }
+}
@@ -311,6 +311,23 @@ describe('AuthService', () => {
 
       expect(mockRouter.navigate).toHaveBeenCalledWith(['/login']);
     });
+
+    it('should revoke the session on the server', () => {
+      localStorage.setItem('accessToken', 'token');
+
+      service.logout();
+
+      const req = httpMock.expectOne('/api/auth/logout');
+      expect(req.request.method).toBe('POST');
+      req.flush({ success: true, message: 'Logged out successfully' });
+      httpMock.verify();
+    });
+
+    it('should not call the server without a token', () => {
+      service.logout();
+
+      httpMock.expectNone('/api/auth/logout');
+    });
   });
 
   describe('getAccessToken', () => {
@@ -21,7 +21,7 @@ export interface AuthResponse {
   refreshToken: string;
   userId: string;
   email: string;
-  role?: 'admin' | 'parent' | 'child';
+  role?: 'admin' | 'parent' | 'caregiver' | 'child';
   householdId?: string;
   firstName?: string | null;
   lastName?: string | null;
@@ -30,7 +30,7 @@ export interface AuthResponse {
 export interface User {
   id: string;
   email: string;
-  role?: 'admin' | 'parent' | 'child';
+  role?: 'admin' | 'parent' | 'caregiver' | 'child';
   firstName?: string | null;
   lastName?: string | null;
 }
@@ -138,6 +138,12 @@ export class AuthService {
   }
 
   logout(): void {
+    // Revoke the session on the server so its refresh token stops working.
+    // Sent before the tokens are cleared; failures don't block signing out.
+    if (this.tokenService.getAccessToken()) {
+      this.http.post(`${this.apiUrl}/logout`, {}).subscribe({ error: () => undefined });
+    }
+
     // Clear tokens using TokenService
     this.tokenService.clearTokens();
 
@@ -172,7 +178,7 @@ export class AuthService {
    * Get the current user's role
    * @returns The role or undefined if not authenticated
    */
-  getUserRole(): 'admin' | 'parent' | 'child' | undefined {
+  getUserRole(): 'admin' | 'parent' | 'caregiver' | 'child' | undefined {
     return this.currentUser()?.role;
   }
 
@@ -181,7 +187,7 @@ export class AuthService {
    * @param role - The role to check
    * @returns True if the user has the specified role
    */
-  hasRole(role: 'admin' | 'parent' | 'child'): boolean {
+  hasRole(role: 'admin' | 'parent' | 'caregiver' | 'child'): boolean {
     return this.currentUser()?.role === role;
   }
 
@@ -190,7 +196,7 @@ export class AuthService {
    * @param roles - Array of roles to check
    * @returns True if the user has any of the specified roles
    */
-  hasAnyRole(roles: ('admin' | 'parent' | 'child')[]): boolean {
+  hasAnyRole(roles: ('admin' | 'parent' | 'caregiver' | 'child')[]): boolean {
     const userRole = this.currentUser()?.role;
     return userRole !== undefined && roles.includes(userRole);
   }
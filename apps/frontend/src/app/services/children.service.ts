@@ -1,5 +1,10 @@
 import { Injectable, inject } from '@angular/core';
-import type { Child, CreateChildRequest, UpdateChildRequest } from '@st44/types';
+import type {
+  Child,
+  CreateChildRequest,
+  UpdateChildRequest,
+  TaskSuggestionsResponse,
+} from '@st44/types';
 import { ApiService } from './api.service';
 import { HouseholdStore } from '../stores/household.store';
 
@@ -96,4 +101,19 @@ export class ChildrenService {
     this.store.updateChild(householdId, childId, child);
     return child;
   }
+
+  /**
+   * Task templates suggested for a child, best first
+   * Ranked by the child's age, leaving out chores the child already has
+   */
+  async getTaskSuggestions(
+    householdId: string,
+    childId: string,
+    limit?: number,
+  ): Promise<TaskSuggestionsResponse> {
+    const query = limit ? `?limit=${limit}` : '';
+    return this.api.get<TaskSuggestionsResponse>(
+      `/households/${householdId}/children/${childId}/task-suggestions${query}`,
+    );
+  }
 }
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TestBed } from '@angular/core/testing';
+import type { HouseholdEvent } from '@st44/types';
+import { HouseholdEventsService } from './household-events.service';
+import { TokenService } from './token.service';
+
+describe('HouseholdEventsService', () => {
+  let service: HouseholdEventsService;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let mockTokenService: { getAccessToken: ReturnType<typeof vi.fn> };
+
+  const completedEvent: HouseholdEvent = {
+    type: 'assignment.completed',
+    householdId: 'household-1',
+    occurredAt: '2025-01-20T12:00:00Z',
+    data: {
+      assignmentId: 'assignment-1',
+      taskId: 'task-1',
+      childId: 'child-1',
+      status: 'completed',
+      completedAt: '2025-01-20T12:00:00Z',
+    },
+  };
+
+  /**
+   * A streamed response whose chunks are written by the test
+   */
+  function streamResponse() {
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({
+      start: (c) => {
+        controller = c;
+      },
+    });
+    const encoder = new TextEncoder();
+    return {
+      response: new Response(body, {
+        status: 200,
+        headers: { 'Content-Type': 'text/event-stream' },
+      }),
+      write: (chunk: string) => controller.enqueue(encoder.encode(chunk)),
+      close: () => controller.close(),
+    };
+  }
+
+  /** Let the stream reader catch up */
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    mockTokenService = { getAccessToken: vi.fn().mockReturnValue('access-token') };
+
+    TestBed.configureTestingModule({
+      providers: [HouseholdEventsService, { provide: TokenService, useValue: mockTokenService }],
+    });
+
+    service = TestBed.inject(HouseholdEventsService);
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should open the stream of the household with the access token', async () => {
+    const stream = streamResponse();
+    fetchMock.mockResolvedValue(stream.response);
+
+    service.connect('household-1');
+    await flush();
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/api\/households\/household-1\/events$/);
+    expect(init.headers).toEqual({
+      Authorization: 'Bearer access-token',
+      Accept: 'text/event-stream',
+    });
+    expect(service.connected()).toBe(true);
+  });
+
+  it('should emit events and skip comments', async () => {
+    const stream = streamResponse();
+    fetchMock.mockResolvedValue(stream.response);
+    const received: HouseholdEvent[] = [];
+    service.events.subscribe((event) => received.push(event));
+
+    service.connect('household-1');
+    await flush();
+    stream.write('retry: 5000\n: connected\n\n: ping\n\n');
+    // Messages can be split across chunks
+    const message = `event: assignment.completed\ndata: ${JSON.stringify(completedEvent)}\n\n`;
+    stream.write(message.slice(0, 40));
+    stream.write(message.slice(40));
+    await flush();
+
+    expect(received).toEqual([completedEvent]);
+  });
+
+  it('should filter events by type', async () => {
+    const stream = streamResponse();
+    fetchMock.mockResolvedValue(stream.response);
+    const received: HouseholdEvent[] = [];
+    service.ofType('single_task.accepted').subscribe((event) => received.push(event));
+
+    service.connect('household-1');
+    await flush();
+    stream.write(`data: ${JSON.stringify(completedEvent)}\n\n`);
+    await flush();
+
+    expect(received).toEqual([]);
+  });
+
+  it('should not reopen the stream for the same household', async () => {
+    fetchMock.mockResolvedValue(streamResponse().response);
+
+    service.connect('household-1');
+    service.connect('household-1');
+    await flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reconnect after the stream drops', async () => {
+    vi.useFakeTimers();
+    const first = streamResponse();
+    fetchMock
+      .mockResolvedValueOnce(first.response)
+      .mockResolvedValueOnce(streamResponse().response);
+
+    service.connect('household-1');
+    await vi.advanceTimersByTimeAsync(0);
+    first.close();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(service.connected()).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up when the user is no longer a member', async () => {
+    vi.useFakeTimers();
+    fetchMock.mockResolvedValue(new Response(null, { status: 403 }));
+
+    service.connect('household-1');
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(service.connected()).toBe(false);
+  });
+
+  it('should not connect without an access token', async () => {
+    mockTokenService.getAccessToken.mockReturnValue(null);
+
+    service.connect('household-1');
+    await flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
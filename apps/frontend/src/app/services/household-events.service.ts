@@ -0,0 +1,181 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { Observable, Subject, filter } from 'rxjs';
+import type { HouseholdEvent, HouseholdEventOf, HouseholdEventType } from '@st44/types';
+import { environment } from '../../environments/environment';
+import { TokenService } from './token.service';
+
+/**
+ * First reconnect delay after the stream drops; doubled up to the maximum
+ */
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Household Events Service
+ *
+ * Keeps a Server-Sent Events stream open to the active household and hands
+ * out what other members change (assignments completed or reassigned,
+ * single tasks accepted, redemptions approved...). Stores subscribe to
+ * `events` and patch the state they already loaded.
+ *
+ * The stream is read with fetch rather than EventSource, which cannot send
+ * the Authorization header. Dropped streams are reopened with backoff.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class HouseholdEventsService {
+  private readonly tokenService = inject(TokenService);
+  private readonly baseUrl = `${environment.apiUrl}/api`;
+
+  private readonly eventsSubject = new Subject<HouseholdEvent>();
+  private readonly connectedSignal = signal(false);
+
+  private householdId: string | null = null;
+  private abortController: AbortController | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = INITIAL_RETRY_DELAY_MS;
+
+  /** Events of the connected household */
+  readonly events: Observable<HouseholdEvent> = this.eventsSubject.asObservable();
+
+  /** Whether the stream is currently open */
+  readonly connected = this.connectedSignal.asReadonly();
+
+  /**
+   * Events of the given types only
+   */
+  ofType<T extends HouseholdEventType>(...types: T[]): Observable<HouseholdEventOf<T>> {
+    return this.events.pipe(
+      filter((event): event is HouseholdEventOf<T> => (types as string[]).includes(event.type)),
+    );
+  }
+
+  /**
+   * Stream the events of a household, replacing any previous stream
+   *
+   * @param householdId - ID of the household
+   */
+  connect(householdId: string): void {
+    if (this.householdId === householdId) {
+      return;
+    }
+
+    this.disconnect();
+    this.householdId = householdId;
+    void this.open(householdId);
+  }
+
+  /**
+   * Close the stream and stop reconnecting
+   */
+  disconnect(): void {
+    this.householdId = null;
+    this.abortController?.abort();
+    this.abortController = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.retryDelay = INITIAL_RETRY_DELAY_MS;
+    this.connectedSignal.set(false);
+  }
+
+  private async open(householdId: string): Promise<void> {
+    const token = this.tokenService.getAccessToken();
+    if (!token) {
+      this.disconnect();
+      return;
+    }
+
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/households/${householdId}/events`, {
+        headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+        cache: 'no-store',
+        signal: controller.signal,
+      });
+
+      // Signed out or no longer a member: retrying will not help
+      if (response.status === 401 || response.status === 403) {
+        this.disconnect();
+        return;
+      }
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Household events stream failed with status ${response.status}`);
+      }
+
+      this.connectedSignal.set(true);
+      this.retryDelay = INITIAL_RETRY_DELAY_MS;
+      await this.read(response.body);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Household events stream failed:', err);
+      }
+    }
+
+    if (this.abortController === controller && !controller.signal.aborted) {
+      this.connectedSignal.set(false);
+      this.scheduleReconnect(householdId);
+    }
+  }
+
+  private scheduleReconnect(householdId: string): void {
+    const delay = this.retryDelay;
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.householdId === householdId) {
+        void this.open(householdId);
+      }
+    }, delay);
+  }
+
+  /**
+   * Read messages until the server closes the stream
+   */
+  private async read(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        this.dispatch(buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+      }
+    }
+  }
+
+  /**
+   * Emit one message; comments (heartbeats) and retry hints carry no data
+   */
+  private dispatch(message: string): void {
+    const data = message
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+
+    if (!data) {
+      return;
+    }
+
+    try {
+      this.eventsSubject.next(JSON.parse(data) as HouseholdEvent);
+    } catch (err) {
+      console.error('Dropped malformed household event:', err);
+    }
+  }
+}
@@ -1,5 +1,10 @@
 import { Injectable, computed, inject } from '@angular/core';
-import type { Household, CreateHouseholdRequest, UpdateHouseholdRequest } from '@st44/types';
+import type {
+  Household,
+  CreateHouseholdRequest,
+  UpdateHouseholdRequest,
+  LateCompletionPolicy,
+} from '@st44/types';
 import { ApiService } from './api.service';
 import { HouseholdStore } from '../stores/household.store';
 
@@ -10,9 +15,13 @@ import { HouseholdStore } from '../stores/household.store';
 export interface HouseholdListItem {
   id: string;
   name: string;
+  timezone?: string; // IANA timezone, defines the household's calendar day
+  requiresApproval?: boolean; // Children's completions wait for a parent to approve them
+  lateCompletionPolicy?: LateCompletionPolicy; // What completing an overdue assignment is worth
+  latePointsPercent?: number; // Share of the points under the 'reduced' policy
   createdAt: string;
   updatedAt: string;
-  role: 'admin' | 'parent' | 'child'; // User's role in this household
+  role: 'admin' | 'parent' | 'caregiver' | 'child'; // User's role in this household
   memberCount?: number;
   childrenCount?: number;
   adminCount?: number; // Number of admins in the household
@@ -70,6 +79,7 @@ export class HouseholdService {
   async createHousehold(name: string): Promise<Household> {
     const household = await this.apiService.post<Household>('/households', {
       name,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     } satisfies CreateHouseholdRequest);
 
     // Update store with new household
@@ -105,15 +115,23 @@ export class HouseholdService {
   }
 
   /**
-   * Update an existing household
+   * Update an existing household (name and optionally timezone/approval setting)
    */
-  async updateHousehold(id: string, name: string): Promise<Household> {
+  async updateHousehold(
+    id: string,
+    name: string,
+    settings: Pick<
+      UpdateHouseholdRequest,
+      'timezone' | 'requiresApproval' | 'lateCompletionPolicy' | 'latePointsPercent'
+    > = {},
+  ): Promise<Household> {
     const household = await this.apiService.put<Household>(`/households/${id}`, {
       name,
+      ...settings,
     } satisfies UpdateHouseholdRequest);
 
     // Update store
-    this.store.updateHousehold(id, { name });
+    this.store.updateHousehold(id, { name, ...settings });
 
     return household;
   }
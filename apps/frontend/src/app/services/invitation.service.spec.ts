@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TestBed } from '@angular/core/testing';
+import { InvitationService, type SendInvitationResponse } from './invitation.service';
+import { ApiService } from './api.service';
+
+describe('InvitationService', () => {
+  let service: InvitationService;
+  let mockApiService: {
+    post: ReturnType<typeof vi.fn>;
+  };
+
+  const mockLink: SendInvitationResponse = {
+    id: 'invitation-1',
+    email: null,
+    token: 'abc123',
+    role: 'parent',
+    status: 'pending',
+    childId: null,
+    maxUses: 3,
+    useCount: 0,
+    expiresAt: '2026-10-25T10:00:00.000Z',
+    createdAt: '2026-10-18T10:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    mockApiService = {
+      post: vi.fn(),
+    };
+
+    TestBed.configureTestingModule({
+      providers: [InvitationService, { provide: ApiService, useValue: mockApiService }],
+    });
+
+    service = TestBed.inject(InvitationService);
+  });
+
+  describe('createInviteLink', () => {
+    it('should post the link options without an email', async () => {
+      mockApiService.post.mockResolvedValue(mockLink);
+
+      const result = await service.createInviteLink('household-1', {
+        role: 'parent',
+        maxUses: 3,
+        expiresInDays: 7,
+      });
+
+      expect(mockApiService.post).toHaveBeenCalledWith('/households/household-1/invitations', {
+        role: 'parent',
+        maxUses: 3,
+        expiresInDays: 7,
+      });
+      expect(result).toEqual(mockLink);
+    });
+
+    it('should pass the child profile for the child role', async () => {
+      mockApiService.post.mockResolvedValue({ ...mockLink, role: 'child', childId: 'child-1' });
+
+      await service.createInviteLink('household-1', {
+        role: 'child',
+        childId: 'child-1',
+        maxUses: 1,
+        expiresInDays: 3,
+      });
+
+      expect(mockApiService.post).toHaveBeenCalledWith('/households/household-1/invitations', {
+        role: 'child',
+        childId: 'child-1',
+        maxUses: 1,
+        expiresInDays: 3,
+      });
+    });
+  });
+
+  describe('getAcceptUrl', () => {
+    it('should point at the accept page of the token', () => {
+      expect(service.getAcceptUrl('abc123')).toBe(
+        `${window.location.origin}/invitations/accept/abc123`,
+      );
+    });
+  });
+});
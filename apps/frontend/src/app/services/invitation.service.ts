@@ -1,17 +1,26 @@
 import { Injectable, inject } from '@angular/core';
 import { ApiService } from './api.service';
 
+export type InvitationRole = 'admin' | 'parent' | 'caregiver' | 'child';
+
 export interface Invitation {
   id: string;
   householdId: string;
   householdName?: string;
-  invitedEmail: string;
+  /** null for shareable links */
+  invitedEmail: string | null;
   invitedBy: string;
   inviterName?: string;
   inviterEmail?: string;
-  role: 'admin' | 'parent';
+  role: InvitationRole;
   status: 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+  /** Only for links in the sent list, and for the recipient of an email invitation */
   token?: string;
+  childId?: string | null;
+  childName?: string | null;
+  /** null = unlimited */
+  maxUses?: number | null;
+  useCount?: number;
   expiresAt: string;
   acceptedAt?: string;
   createdAt: string;
@@ -20,15 +29,29 @@ export interface Invitation {
 
 export interface SendInvitationRequest {
   email: string;
-  role?: 'admin' | 'parent';
+  role?: Exclude<InvitationRole, 'child'>;
+}
+
+/**
+ * Options for an invite link; childId is required for the child role
+ */
+export interface CreateInviteLinkRequest {
+  role: InvitationRole;
+  childId?: string;
+  /** null = unlimited; ignored for the child role, which is single-use */
+  maxUses: number | null;
+  expiresInDays: number;
 }
 
 export interface SendInvitationResponse {
   id: string;
-  email: string;
+  email: string | null;
   token: string;
   role: string;
   status: string;
+  childId: string | null;
+  maxUses: number | null;
+  useCount: number;
   expiresAt: string;
   createdAt: string;
 }
@@ -42,6 +65,7 @@ export interface AcceptInvitationResponse {
     id: string;
     name: string;
     role: string;
+    childId: string | null;
   };
 }
 
@@ -57,7 +81,7 @@ export class InvitationService {
   async sendInvitation(
     householdId: string,
     email: string,
-    role: 'admin' | 'parent' = 'parent',
+    role: Exclude<InvitationRole, 'child'> = 'parent',
   ): Promise<SendInvitationResponse> {
     return this.api.post<SendInvitationResponse>(`/households/${householdId}/invitations`, {
       email,
@@ -65,6 +89,23 @@ export class InvitationService {
     });
   }
 
+  /**
+   * Create a shareable invite link (no email is sent)
+   */
+  async createInviteLink(
+    householdId: string,
+    request: CreateInviteLinkRequest,
+  ): Promise<SendInvitationResponse> {
+    return this.api.post<SendInvitationResponse>(`/households/${householdId}/invitations`, request);
+  }
+
+  /**
+   * URL of the page that accepts an invitation
+   */
+  getAcceptUrl(token: string): string {
+    return `${window.location.origin}/invitations/accept/${token}`;
+  }
+
   /**
    * List invitations sent by current user's household
    */
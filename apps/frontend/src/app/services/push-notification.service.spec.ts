@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TestBed } from '@angular/core/testing';
+import { SwPush } from '@angular/service-worker';
+import { BehaviorSubject, of, throwError } from 'rxjs';
+import { PushNotificationService } from './push-notification.service';
+import { ApiService } from './api.service';
+import { ErrorHandlerService } from './error-handler.service';
+
+describe('PushNotificationService', () => {
+  let service: PushNotificationService;
+  let subscription$: BehaviorSubject<PushSubscription | null>;
+  let mockSwPush: {
+    isEnabled: boolean;
+    subscription: BehaviorSubject<PushSubscription | null>;
+    requestSubscription: ReturnType<typeof vi.fn>;
+    unsubscribe: ReturnType<typeof vi.fn>;
+  };
+  let mockApiService: {
+    get$: ReturnType<typeof vi.fn>;
+    post$: ReturnType<typeof vi.fn>;
+    delete$: ReturnType<typeof vi.fn>;
+  };
+  let mockErrorHandler: { handle: ReturnType<typeof vi.fn> };
+
+  const browserSubscription = {
+    endpoint: 'https://push.example.com/send/device-1',
+    toJSON: () => ({
+      endpoint: 'https://push.example.com/send/device-1',
+      expirationTime: null,
+      keys: { p256dh: 'public-key', auth: 'auth-secret' },
+    }),
+  } as unknown as PushSubscription;
+
+  function setup(isEnabled = true) {
+    subscription$ = new BehaviorSubject<PushSubscription | null>(null);
+    mockSwPush = {
+      isEnabled,
+      subscription: subscription$,
+      requestSubscription: vi.fn().mockResolvedValue(browserSubscription),
+      unsubscribe: vi.fn().mockResolvedValue(undefined),
+    };
+    mockApiService = {
+      get$: vi.fn().mockReturnValue(of({ publicKey: 'vapid-public-key' })),
+      post$: vi.fn().mockReturnValue(of({ id: 'subscription-1' })),
+      delete$: vi.fn().mockReturnValue(of(undefined)),
+    };
+    mockErrorHandler = { handle: vi.fn() };
+
+    TestBed.configureTestingModule({
+      providers: [
+        PushNotificationService,
+        { provide: SwPush, useValue: mockSwPush },
+        { provide: ApiService, useValue: mockApiService },
+        { provide: ErrorHandlerService, useValue: mockErrorHandler },
+      ],
+    });
+
+    service = TestBed.inject(PushNotificationService);
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal('Notification', { permission: 'default' });
+  });
+
+  describe('Support', () => {
+    it('should not be supported without a service worker', async () => {
+      setup(false);
+
+      expect(service.isSupported()).toBe(false);
+      expect(await service.enable()).toBe(false);
+      expect(mockApiService.get$).not.toHaveBeenCalled();
+    });
+
+    it('should reflect the current service worker subscription', () => {
+      setup();
+      expect(service.subscribed()).toBe(false);
+
+      subscription$.next(browserSubscription);
+
+      expect(service.subscribed()).toBe(true);
+    });
+  });
+
+  describe('enable', () => {
+    it('should subscribe with the VAPID key and register the subscription', async () => {
+      setup();
+
+      const result = await service.enable();
+
+      expect(result).toBe(true);
+      expect(mockApiService.get$).toHaveBeenCalledWith('/push/vapid-public-key');
+      expect(mockSwPush.requestSubscription).toHaveBeenCalledWith({
+        serverPublicKey: 'vapid-public-key',
+      });
+      expect(mockApiService.post$).toHaveBeenCalledWith(
+        '/users/me/push-subscriptions',
+        browserSubscription.toJSON(),
+      );
+      expect(service.subscribed()).toBe(true);
+      expect(service.busy()).toBe(false);
+    });
+
+    it('should do nothing when the server has no VAPID key', async () => {
+      setup();
+      mockApiService.get$.mockReturnValue(of({ publicKey: null }));
+
+      expect(await service.enable()).toBe(false);
+      expect(mockSwPush.requestSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should report failure when permission is denied', async () => {
+      setup();
+      mockSwPush.requestSubscription.mockRejectedValue(new Error('Permission denied'));
+
+      expect(await service.enable()).toBe(false);
+      expect(mockErrorHandler.handle).toHaveBeenCalled();
+      expect(mockApiService.post$).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disable', () => {
+    it('should remove the subscription from the server and the browser', async () => {
+      setup();
+      subscription$.next(browserSubscription);
+
+      await service.disable();
+
+      expect(mockApiService.delete$).toHaveBeenCalledWith(
+        `/users/me/push-subscriptions?endpoint=${encodeURIComponent(browserSubscription.endpoint)}`,
+      );
+      expect(mockSwPush.unsubscribe).toHaveBeenCalled();
+      expect(service.subscribed()).toBe(false);
+    });
+
+    it('should unsubscribe the browser even if the server no longer knows it', async () => {
+      setup();
+      subscription$.next(browserSubscription);
+      mockApiService.delete$.mockReturnValue(throwError(() => ({ status: 404 })));
+
+      await service.disable();
+
+      expect(mockSwPush.unsubscribe).toHaveBeenCalled();
+      expect(mockErrorHandler.handle).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { SwPush } from '@angular/service-worker';
+import { firstValueFrom } from 'rxjs';
+import type {
+  PushSubscription as StoredPushSubscription,
+  VapidPublicKeyResponse,
+} from '@st44/types';
+import { ApiService } from './api.service';
+import { ErrorHandlerService } from './error-handler.service';
+
+/**
+ * Service for Web Push notifications on this device
+ *
+ * Subscribes the browser through the Angular service worker and registers
+ * the subscription with the backend, which sends reminders, new single
+ * tasks and reward redemption updates. Only available in production builds
+ * where the service worker is registered.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PushNotificationService {
+  private apiService = inject(ApiService);
+  private errorHandler = inject(ErrorHandlerService);
+  private swPush = inject(SwPush);
+
+  private subscribedSignal = signal<boolean>(false);
+  private busySignal = signal<boolean>(false);
+
+  public readonly subscribed = this.subscribedSignal.asReadonly();
+  public readonly busy = this.busySignal.asReadonly();
+
+  constructor() {
+    if (this.isSupported()) {
+      this.swPush.subscription.subscribe((subscription) => {
+        this.subscribedSignal.set(subscription !== null);
+      });
+    }
+  }
+
+  /**
+   * Whether this browser can receive push notifications
+   */
+  isSupported(): boolean {
+    return this.swPush.isEnabled && typeof Notification !== 'undefined';
+  }
+
+  /**
+   * Whether the user has blocked notifications for this site
+   */
+  isBlocked(): boolean {
+    return typeof Notification !== 'undefined' && Notification.permission === 'denied';
+  }
+
+  /**
+   * Ask for permission and subscribe this device
+   *
+   * @returns true when the device is subscribed
+   */
+  async enable(): Promise<boolean> {
+    if (!this.isSupported()) {
+      return false;
+    }
+
+    this.busySignal.set(true);
+    try {
+      const { publicKey } = await firstValueFrom(
+        this.apiService.get$<VapidPublicKeyResponse>('/push/vapid-public-key'),
+      );
+      if (!publicKey) {
+        return false;
+      }
+
+      const subscription = await this.swPush.requestSubscription({ serverPublicKey: publicKey });
+      await firstValueFrom(
+        this.apiService.post$<StoredPushSubscription>(
+          '/users/me/push-subscriptions',
+          subscription.toJSON(),
+        ),
+      );
+      this.subscribedSignal.set(true);
+      return true;
+    } catch (error) {
+      this.errorHandler.handle(error, {
+        context: 'PushNotificationService.enable',
+        silent: true,
+      });
+      return false;
+    } finally {
+      this.busySignal.set(false);
+    }
+  }
+
+  /**
+   * Unsubscribe this device and remove it from the backend
+   */
+  async disable(): Promise<void> {
+    this.busySignal.set(true);
+    try {
+      const subscription = await firstValueFrom(this.swPush.subscription);
+      if (subscription) {
+        const endpoint = encodeURIComponent(subscription.endpoint);
+        await firstValueFrom(
+          this.apiService.delete$<void>(`/users/me/push-subscriptions?endpoint=${endpoint}`),
+        ).catch(() => undefined); // Already gone on the server is fine
+        await this.swPush.unsubscribe();
+      }
+      this.subscribedSignal.set(false);
+    } catch (error) {
+      this.errorHandler.handle(error, {
+        context: 'PushNotificationService.disable',
+        silent: true,
+      });
+    } finally {
+      this.busySignal.set(false);
+    }
+  }
+}
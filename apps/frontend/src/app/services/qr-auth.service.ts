@@ -14,7 +14,7 @@ export interface LoginResponse {
   refreshToken: string;
   userId: string;
   email: string;
-  role?: 'admin' | 'parent' | 'child';
+  role?: 'admin' | 'parent' | 'caregiver' | 'child';
   householdId?: string;
   firstName?: string | null;
   lastName?: string | null;
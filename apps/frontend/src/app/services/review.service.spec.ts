@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, of, throwError } from 'rxjs';
+import type { ReviewQueueItem } from '@st44/types';
+import { ReviewService } from './review.service';
+import { ApiService } from './api.service';
+
+describe('ReviewService', () => {
+  let service: ReviewService;
+  let mockApiService: {
+    get$: ReturnType<typeof vi.fn>;
+    post$: ReturnType<typeof vi.fn>;
+  };
+
+  const mockReview: ReviewQueueItem = {
+    assignmentId: 'assignment-1',
+    completionId: 'completion-1',
+    taskId: 'task-1',
+    taskName: 'Clean Room',
+    childId: 'child-1',
+    childName: 'Emma',
+    date: '2025-01-20',
+    points: 20,
+    completedAt: '2025-01-20T12:00:00.000Z',
+    hasPhoto: false,
+  };
+
+  const mockDecision = {
+    assignmentId: 'assignment-1',
+    completionId: 'completion-1',
+    assignmentStatus: 'completed',
+    approvalStatus: 'approved',
+    reviewComment: null,
+    reviewedAt: '2025-01-20T13:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    mockApiService = {
+      get$: vi.fn(),
+      post$: vi.fn(),
+    };
+
+    TestBed.configureTestingModule({
+      providers: [ReviewService, { provide: ApiService, useValue: mockApiService }],
+    });
+
+    service = TestBed.inject(ReviewService);
+  });
+
+  describe('Initial State', () => {
+    it('should initialize with empty reviews', () => {
+      expect(service.reviews()).toEqual([]);
+      expect(service.hasReviews()).toBe(false);
+    });
+
+    it('should initialize with loading false and no error', () => {
+      expect(service.loading()).toBe(false);
+      expect(service.error()).toBeNull();
+    });
+  });
+
+  describe('loadReviews', () => {
+    it('should call correct API endpoint and update state', async () => {
+      mockApiService.get$.mockReturnValue(of({ reviews: [mockReview] }));
+
+      await firstValueFrom(service.loadReviews('household-1'));
+
+      expect(mockApiService.get$).toHaveBeenCalledWith('/households/household-1/reviews');
+      expect(service.reviews()).toEqual([mockReview]);
+      expect(service.hasReviews()).toBe(true);
+      expect(service.loading()).toBe(false);
+    });
+
+    it('should set error on failure', async () => {
+      mockApiService.get$.mockReturnValue(throwError(() => new Error('Network error')));
+
+      await expect(firstValueFrom(service.loadReviews('household-1'))).rejects.toThrow();
+      expect(service.error()).toBe('Failed to load reviews');
+      expect(service.loading()).toBe(false);
+    });
+  });
+
+  describe('approve', () => {
+    it('should post to the approve endpoint and remove the review', async () => {
+      mockApiService.get$.mockReturnValue(of({ reviews: [mockReview] }));
+      await firstValueFrom(service.loadReviews('household-1'));
+      mockApiService.post$.mockReturnValue(of(mockDecision));
+
+      await firstValueFrom(service.approve('household-1', 'assignment-1'));
+
+      expect(mockApiService.post$).toHaveBeenCalledWith(
+        '/households/household-1/reviews/assignment-1/approve',
+        {},
+      );
+      expect(service.reviews()).toEqual([]);
+    });
+  });
+
+  describe('reject', () => {
+    it('should send the comment to the reject endpoint', async () => {
+      mockApiService.post$.mockReturnValue(
+        of({ ...mockDecision, assignmentStatus: 'pending', approvalStatus: 'rejected' }),
+      );
+
+      await firstValueFrom(service.reject('household-1', 'assignment-1', 'Not done yet'));
+
+      expect(mockApiService.post$).toHaveBeenCalledWith(
+        '/households/household-1/reviews/assignment-1/reject',
+        { comment: 'Not done yet' },
+      );
+    });
+
+    it('should keep the review on failure', async () => {
+      mockApiService.get$.mockReturnValue(of({ reviews: [mockReview] }));
+      await firstValueFrom(service.loadReviews('household-1'));
+      mockApiService.post$.mockReturnValue(throwError(() => new Error('Server error')));
+
+      await expect(firstValueFrom(service.reject('household-1', 'assignment-1'))).rejects.toThrow();
+      expect(service.reviews()).toEqual([mockReview]);
+    });
+  });
+});
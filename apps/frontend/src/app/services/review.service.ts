@@ -0,0 +1,141 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { Observable, tap, catchError, throwError } from 'rxjs';
+import type { ReviewQueueItem, ReviewDecisionResponse } from '@st44/types';
+import { ApiService } from './api.service';
+import { ErrorHandlerService } from './error-handler.service';
+
+/**
+ * Service for the parent review queue
+ *
+ * Children's completions of tasks that require approval wait here until a
+ * parent approves (points are credited) or rejects them (the task reopens).
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ReviewService {
+  private apiService = inject(ApiService);
+  private errorHandler = inject(ErrorHandlerService);
+
+  private reviewsSignal = signal<ReviewQueueItem[]>([]);
+  private loadingSignal = signal<boolean>(false);
+  private errorSignal = signal<string | null>(null);
+
+  public readonly reviews = this.reviewsSignal.asReadonly();
+  public readonly loading = this.loadingSignal.asReadonly();
+  public readonly error = this.errorSignal.asReadonly();
+
+  public readonly hasReviews = computed(() => this.reviewsSignal().length > 0);
+
+  /**
+   * Get completions awaiting approval in a household
+   *
+   * @param householdId - ID of the household
+   * @returns Observable of pending reviews
+   */
+  loadReviews(householdId: string): Observable<{ reviews: ReviewQueueItem[] }> {
+    this.loadingSignal.set(true);
+    this.errorSignal.set(null);
+
+    return this.apiService
+      .get$<{ reviews: ReviewQueueItem[] }>(`/households/${householdId}/reviews`)
+      .pipe(
+        tap((response) => {
+          this.reviewsSignal.set(response.reviews);
+          this.loadingSignal.set(false);
+        }),
+        catchError((error) => {
+          this.errorSignal.set('Failed to load reviews');
+          this.loadingSignal.set(false);
+          this.errorHandler.handle(error, {
+            context: 'ReviewService.loadReviews',
+            silent: true,
+          });
+          return throwError(() => error);
+        }),
+      );
+  }
+
+  /**
+   * Approve a completion and credit its points
+   *
+   * @param householdId - ID of the household
+   * @param assignmentId - ID of the assignment awaiting approval
+   * @param comment - Optional note for the child
+   * @returns Observable of the review decision
+   */
+  approve(
+    householdId: string,
+    assignmentId: string,
+    comment?: string,
+  ): Observable<ReviewDecisionResponse> {
+    return this.decide(householdId, assignmentId, 'approve', comment);
+  }
+
+  /**
+   * Reject a completion and send the task back to the child
+   *
+   * @param householdId - ID of the household
+   * @param assignmentId - ID of the assignment awaiting approval
+   * @param comment - Optional note explaining what is missing
+   * @returns Observable of the review decision
+   */
+  reject(
+    householdId: string,
+    assignmentId: string,
+    comment?: string,
+  ): Observable<ReviewDecisionResponse> {
+    return this.decide(householdId, assignmentId, 'reject', comment);
+  }
+
+  /**
+   * Get the photo a child attached to a completion
+   *
+   * Fails with 410 once the photo has been purged after the retention period.
+   *
+   * @param householdId - ID of the household
+   * @param assignmentId - ID of the completed assignment
+   * @returns Observable of the image
+   */
+  getPhoto(householdId: string, assignmentId: string): Observable<Blob> {
+    return this.apiService.getBlob$(
+      `/households/${householdId}/assignments/${assignmentId}/photo`,
+      {
+        skipLoading: true,
+      },
+    );
+  }
+
+  /**
+   * Clear all state (useful when logging out or switching households)
+   */
+  clearState(): void {
+    this.reviewsSignal.set([]);
+    this.errorSignal.set(null);
+  }
+
+  private decide(
+    householdId: string,
+    assignmentId: string,
+    action: 'approve' | 'reject',
+    comment?: string,
+  ): Observable<ReviewDecisionResponse> {
+    return this.apiService
+      .post$<ReviewDecisionResponse>(
+        `/households/${householdId}/reviews/${assignmentId}/${action}`,
+        comment ? { comment } : {},
+      )
+      .pipe(
+        tap(() => {
+          // Decided completions leave the queue
+          this.reviewsSignal.update((reviews) =>
+            reviews.filter((r) => r.assignmentId !== assignmentId),
+          );
+        }),
+        catchError((error) => {
+          this.errorHandler.handle(error, { context: `ReviewService.${action}` });
+          return throwError(() => error);
+        }),
+      );
+  }
+}
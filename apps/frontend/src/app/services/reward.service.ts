@@ -1,6 +1,8 @@
 import { Injectable, signal, computed, inject } from '@angular/core';
-import { Observable, from, map, tap, catchError, throwError } from 'rxjs';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable, from, map, tap, switchMap, catchError, throwError } from 'rxjs';
 import { ApiService } from './api.service';
+import { HouseholdEventsService } from './household-events.service';
 
 // Import shared types from @st44/types
 import type {
@@ -10,12 +12,21 @@ import type {
   RewardRedemption,
   ChildRewardsResponse,
   RedeemRewardResponse,
+  HouseholdEvent,
+  SavingsGoal,
+  CreateSavingsGoalRequest,
+  UpdateSavingsGoalRequest,
+  RedemptionErrorCode,
 } from '@st44/types';
 
 // Extended reward type with availability info for child view
 export interface ChildReward extends Reward {
   available: boolean;
   canAfford: boolean;
+  /** Which rule makes the reward unavailable, null when available */
+  unavailableReason: Exclude<RedemptionErrorCode, 'INSUFFICIENT_POINTS'> | null;
+  /** Redemptions left this period, null when the reward has no limit */
+  redemptionsLeft: number | null;
 }
 
 /**
@@ -27,12 +38,14 @@ export interface ChildReward extends Reward {
  * - Reactive state management using signals
  * - Loading and error state tracking
  * - Points balance tracking
+ * - Savings goals with earmarked points (child)
  */
 @Injectable({
   providedIn: 'root',
 })
 export class RewardService {
   private apiService = inject(ApiService);
+  private householdEvents = inject(HouseholdEventsService);
 
   // Rewards state signals (private writable)
   private rewardsSignal = signal<Reward[]>([]);
@@ -47,6 +60,9 @@ export class RewardService {
   // Child rewards state signals (private writable)
   private childRewardsSignal = signal<ChildReward[]>([]);
   private pointsBalanceSignal = signal<number>(0);
+  private earmarkedPointsSignal = signal<number>(0);
+  private availablePointsSignal = signal<number>(0);
+  private savingsGoalsSignal = signal<SavingsGoal[]>([]);
   private childRewardsLoadingSignal = signal<boolean>(false);
   private childRewardsErrorSignal = signal<string | null>(null);
 
@@ -63,6 +79,9 @@ export class RewardService {
   // Public readonly signals for child rewards
   public readonly childRewards = this.childRewardsSignal.asReadonly();
   public readonly pointsBalance = this.pointsBalanceSignal.asReadonly();
+  public readonly earmarkedPoints = this.earmarkedPointsSignal.asReadonly();
+  public readonly availablePoints = this.availablePointsSignal.asReadonly();
+  public readonly savingsGoals = this.savingsGoalsSignal.asReadonly();
   public readonly childRewardsLoading = this.childRewardsLoadingSignal.asReadonly();
   public readonly childRewardsError = this.childRewardsErrorSignal.asReadonly();
 
@@ -81,6 +100,28 @@ export class RewardService {
     this.redemptionsSignal().filter((r) => r.status === 'fulfilled'),
   );
 
+  constructor() {
+    this.householdEvents.events
+      .pipe(takeUntilDestroyed())
+      .subscribe((event) => this.applyHouseholdEvent(event));
+  }
+
+  /**
+   * Apply a redemption status change made elsewhere to the loaded redemptions
+   *
+   * New redemptions are left to the next load.
+   *
+   * @param event - Event from the household's event stream
+   */
+  applyHouseholdEvent(event: HouseholdEvent): void {
+    if (event.type === 'redemption.status_changed') {
+      const { redemptionId, status } = event.data;
+      this.redemptionsSignal.update((redemptions) =>
+        redemptions.map((r) => (r.id === redemptionId ? { ...r, status } : r)),
+      );
+    }
+  }
+
   /**
    * Load all rewards for a household
    */
@@ -302,6 +343,9 @@ export class RewardService {
       tap((response) => {
         this.childRewardsSignal.set(response.rewards);
         this.pointsBalanceSignal.set(response.pointsBalance);
+        this.earmarkedPointsSignal.set(response.earmarkedPoints);
+        this.availablePointsSignal.set(response.availablePoints);
+        this.savingsGoalsSignal.set(response.goals);
         this.childRewardsLoadingSignal.set(false);
       }),
       catchError((error) => {
@@ -335,6 +379,56 @@ export class RewardService {
     );
   }
 
+  /**
+   * Save for a reward (child)
+   *
+   * Reloads the child's rewards, since earmarked points change what the
+   * other rewards and goals can count on.
+   */
+  createSavingsGoal(request: CreateSavingsGoalRequest): Observable<SavingsGoal> {
+    this.childRewardsErrorSignal.set(null);
+
+    return from(this.apiService.post<SavingsGoal>('/children/me/savings-goals', request)).pipe(
+      switchMap((goal) => this.loadChildRewards().pipe(map(() => goal))),
+      catchError((error) => {
+        this.childRewardsErrorSignal.set(error.message || 'Failed to create savings goal');
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * Change the points earmarked for a savings goal (child)
+   */
+  updateSavingsGoal(goalId: string, request: UpdateSavingsGoalRequest): Observable<SavingsGoal> {
+    this.childRewardsErrorSignal.set(null);
+
+    return from(
+      this.apiService.patch<SavingsGoal>(`/children/me/savings-goals/${goalId}`, request),
+    ).pipe(
+      switchMap((goal) => this.loadChildRewards().pipe(map(() => goal))),
+      catchError((error) => {
+        this.childRewardsErrorSignal.set(error.message || 'Failed to update savings goal');
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * Stop saving for a reward (child)
+   */
+  deleteSavingsGoal(goalId: string): Observable<void> {
+    this.childRewardsErrorSignal.set(null);
+
+    return from(this.apiService.delete<void>(`/children/me/savings-goals/${goalId}`)).pipe(
+      switchMap(() => this.loadChildRewards().pipe(map(() => undefined))),
+      catchError((error) => {
+        this.childRewardsErrorSignal.set(error.message || 'Failed to delete savings goal');
+        return throwError(() => error);
+      }),
+    );
+  }
+
   /**
    * Clear error state
    */
@@ -325,6 +325,40 @@ describe('SingleTaskService', () => {
     });
   });
 
+  describe('applyHouseholdEvent', () => {
+    it('should drop a task another child accepted', async () => {
+      mockApiService.get$.mockReturnValue(of({ tasks: [mockAvailableTask] }));
+      await firstValueFrom(service.loadAvailableTasks());
+
+      service.applyHouseholdEvent({
+        type: 'single_task.accepted',
+        householdId: 'household-1',
+        occurredAt: '2025-01-01T10:00:00Z',
+        data: {
+          taskId: 'task-1',
+          childId: 'child-2',
+          assignmentId: 'assignment-1',
+        },
+      });
+
+      expect(service.availableTasks()).toEqual([]);
+    });
+
+    it('should keep the task when a candidate declines', async () => {
+      mockApiService.get$.mockReturnValue(of({ tasks: [mockAvailableTask] }));
+      await firstValueFrom(service.loadAvailableTasks());
+
+      service.applyHouseholdEvent({
+        type: 'single_task.declined',
+        householdId: 'household-1',
+        occurredAt: '2025-01-01T10:00:00Z',
+        data: { taskId: 'task-1', childId: 'child-2' },
+      });
+
+      expect(service.availableTasks()).toEqual([mockAvailableTask]);
+    });
+  });
+
   describe('clearState', () => {
     it('should clear all state', async () => {
       // Set up some state first
@@ -1,7 +1,10 @@
 import { Injectable, signal, computed, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { Observable, tap, catchError, throwError, switchMap, map } from 'rxjs';
+import type { HouseholdEvent } from '@st44/types';
 import { ApiService } from './api.service';
 import { ErrorHandlerService } from './error-handler.service';
+import { HouseholdEventsService } from './household-events.service';
 
 /**
  * Available Single Task - enriched task data with availability status
@@ -74,6 +77,7 @@ export interface AcceptTaskResponse {
 export class SingleTaskService {
   private apiService = inject(ApiService);
   private errorHandler = inject(ErrorHandlerService);
+  private householdEvents = inject(HouseholdEventsService);
 
   // Available tasks state (for children)
   private availableTasksSignal = signal<AvailableSingleTask[]>([]);
@@ -113,6 +117,25 @@ export class SingleTaskService {
     () => this.failedTasksSignal().length + this.expiredTasksSignal().length,
   );
 
+  constructor() {
+    this.householdEvents.events
+      .pipe(takeUntilDestroyed())
+      .subscribe((event) => this.applyHouseholdEvent(event));
+  }
+
+  /**
+   * Drop a single task another child accepted from the available tasks
+   *
+   * @param event - Event from the household's event stream
+   */
+  applyHouseholdEvent(event: HouseholdEvent): void {
+    if (event.type === 'single_task.accepted') {
+      this.availableTasksSignal.update((tasks) =>
+        tasks.filter((task) => task.id !== event.data.taskId),
+      );
+    }
+  }
+
   /**
    * Accept a single task
    *
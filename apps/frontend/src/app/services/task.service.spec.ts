@@ -8,7 +8,7 @@ import type {
   Assignment,
   PaginationMeta,
 } from '@st44/types';
-import { TaskService, PaginatedTasksResponse } from './task.service';
+import { TaskService, PaginatedTasksResponse, type MyTasksResponse } from './task.service';
 import { ApiService } from './api.service';
 
 describe('TaskService', () => {
@@ -17,7 +17,9 @@ describe('TaskService', () => {
     get: ReturnType<typeof vi.fn>;
     post: ReturnType<typeof vi.fn>;
     put: ReturnType<typeof vi.fn>;
+    patch: ReturnType<typeof vi.fn>;
     delete: ReturnType<typeof vi.fn>;
+    upload: ReturnType<typeof vi.fn>;
   };
 
   const mockTask: Task = {
@@ -70,7 +72,9 @@ describe('TaskService', () => {
       get: vi.fn(),
       post: vi.fn(),
       put: vi.fn(),
+      patch: vi.fn(),
       delete: vi.fn(),
+      upload: vi.fn(),
     };
 
     TestBed.configureTestingModule({
@@ -207,6 +211,40 @@ describe('TaskService', () => {
     });
   });
 
+  describe('createTaskFromTemplate', () => {
+    it('should post to the from-template endpoint and add the task', async () => {
+      mockApiService.post.mockResolvedValue(mockTask);
+
+      const result = await firstValueFrom(
+        service.createTaskFromTemplate('household-1', {
+          templateId: 'make_bed',
+          assignedChildren: ['child-1'],
+        }),
+      );
+
+      expect(mockApiService.post).toHaveBeenCalledWith(
+        '/households/household-1/tasks/from-template',
+        { templateId: 'make_bed', assignedChildren: ['child-1'] },
+      );
+      expect(result).toEqual(mockTask);
+      expect(service.tasks()).toContainEqual(mockTask);
+    });
+
+    it('should set error signal on failure', async () => {
+      mockApiService.post.mockRejectedValue(new Error('Not found'));
+
+      await expect(
+        firstValueFrom(
+          service.createTaskFromTemplate('household-1', {
+            templateId: 'unknown',
+            assignedChildren: ['child-1'],
+          }),
+        ),
+      ).rejects.toThrow('Not found');
+      expect(service.error()).toBe('Failed to create task from template');
+    });
+  });
+
   describe('getTasks', () => {
     const mockPagination: PaginationMeta = {
       page: 1,
@@ -928,6 +966,22 @@ describe('TaskService', () => {
       expect(mockApiService.post).toHaveBeenCalledWith('/assignments/assignment-1/complete', {});
     });
 
+    it('should upload the photo as the completion body', async () => {
+      mockApiService.upload.mockResolvedValue(completedAssignmentResponse);
+      const photo = new Blob(['jpeg'], { type: 'image/jpeg' });
+
+      await service.completeTask('assignment-1', photo);
+
+      expect(mockApiService.upload).toHaveBeenCalledWith(
+        '/assignments/assignment-1/complete',
+        photo,
+      );
+      expect(mockApiService.post).not.toHaveBeenCalledWith(
+        '/assignments/assignment-1/complete',
+        {},
+      );
+    });
+
     it('should return completed assignment response', async () => {
       mockApiService.post.mockResolvedValue(completedAssignmentResponse);
 
@@ -938,6 +992,18 @@ describe('TaskService', () => {
       expect(result.completion.pointsEarned).toBe(10);
     });
 
+    it('should keep assignment awaiting approval when the server holds it for review', async () => {
+      mockApiService.post.mockResolvedValue({
+        ...completedAssignmentResponse,
+        taskAssignment: { ...completedAssignmentResponse.taskAssignment, status: 'pending_review' },
+      });
+
+      await service.completeTask('assignment-1');
+
+      const assignments = service.assignments();
+      expect(assignments[0].status).toBe('pending_review');
+    });
+
     it('should rollback optimistic update on API error', async () => {
       mockApiService.post.mockRejectedValue(new Error('Already completed'));
 
@@ -980,6 +1046,121 @@ describe('TaskService', () => {
     });
   });
 
+  describe('updateAssignmentChecklist', () => {
+    const assignmentWithChecklist: Assignment = {
+      id: 'assignment-1',
+      taskId: 'task-1',
+      title: 'Tidy the kitchen',
+      description: null,
+      ruleType: 'daily',
+      childId: 'child-1',
+      childName: 'Emma',
+      date: '2025-01-20',
+      status: 'pending',
+      completedAt: null,
+      createdAt: '2025-01-19T10:00:00Z',
+      checklist: [
+        { id: 'dishes', label: 'Empty the dishwasher', checked: false },
+        { id: 'table', label: 'Wipe the table', checked: false },
+      ],
+    };
+
+    beforeEach(async () => {
+      mockApiService.get.mockResolvedValue({ assignments: [assignmentWithChecklist], total: 1 });
+      await firstValueFrom(service.getChildTasks('child-1'));
+    });
+
+    it('should tick the item right away and keep the server checklist', async () => {
+      let resolvePatch!: (value: unknown) => void;
+      mockApiService.patch.mockReturnValue(new Promise((resolve) => (resolvePatch = resolve)));
+
+      const update = service.updateAssignmentChecklist('assignment-1', 'table', true);
+
+      expect(service.assignments()[0].checklist?.map((item) => item.checked)).toEqual([
+        false,
+        true,
+      ]);
+      resolvePatch({
+        assignmentId: 'assignment-1',
+        checklist: [
+          { id: 'dishes', label: 'Empty the dishwasher', checked: true },
+          { id: 'table', label: 'Wipe the table', checked: true },
+        ],
+        checkedCount: 2,
+        totalCount: 2,
+      });
+      await update;
+
+      expect(mockApiService.patch).toHaveBeenCalledWith('/assignments/assignment-1/checklist', {
+        itemId: 'table',
+        checked: true,
+      });
+      expect(service.assignments()[0].checklist?.every((item) => item.checked)).toBe(true);
+    });
+
+    it('should roll back when the update fails', async () => {
+      mockApiService.patch.mockRejectedValue(new Error('Network error'));
+
+      await expect(
+        service.updateAssignmentChecklist('assignment-1', 'table', true),
+      ).rejects.toThrow('Network error');
+
+      expect(service.assignments()[0].checklist?.some((item) => item.checked)).toBe(false);
+    });
+  });
+
+  describe('assignment comments', () => {
+    const comment = {
+      id: 'comment-1',
+      assignmentId: 'assignment-1',
+      authorUserId: 'user-1',
+      authorRole: 'parent',
+      authorName: 'Kari',
+      body: 'Use the blue bucket',
+      createdAt: '2025-01-20T08:00:00Z',
+    };
+
+    it('should load the thread of an assignment', async () => {
+      mockApiService.get.mockResolvedValue({ comments: [comment] });
+
+      const comments = await service.getAssignmentComments('assignment-1');
+
+      expect(mockApiService.get).toHaveBeenCalledWith('/assignments/assignment-1/comments');
+      expect(comments).toEqual([comment]);
+    });
+
+    it('should post a comment and count it on the assignment', async () => {
+      mockApiService.get.mockResolvedValue({
+        assignments: [
+          {
+            id: 'assignment-1',
+            taskId: 'task-1',
+            title: 'Daily Chores',
+            description: null,
+            ruleType: 'daily',
+            childId: 'child-1',
+            childName: 'Emma',
+            date: '2025-01-20',
+            status: 'pending',
+            completedAt: null,
+            createdAt: '2025-01-19T10:00:00Z',
+            commentCount: 1,
+          },
+        ],
+        total: 1,
+      });
+      await firstValueFrom(service.getChildTasks('child-1'));
+      mockApiService.post.mockResolvedValue(comment);
+
+      await service.addAssignmentComment('assignment-1', 'Use the blue bucket');
+
+      expect(mockApiService.post).toHaveBeenCalledWith('/assignments/assignment-1/comments', {
+        body: 'Use the blue bucket',
+      });
+      expect(service.assignments()[0].commentCount).toBe(2);
+    });
+  });
+
   describe('reassignTask', () => {
     const mockAssignment: Assignment = {
       id: 'assignment-1',
@@ -1071,6 +1252,171 @@ describe('TaskService', () => {
     });
   });
 
+  describe('applyHouseholdEvent', () => {
+    const mockAssignment: Assignment = {
+      id: 'assignment-1',
+      taskId: 'task-1',
+      title: 'Daily Chores',
+      description: null,
+      ruleType: 'daily',
+      childId: 'child-1',
+      childName: 'Emma',
+      date: '2025-01-20',
+      status: 'pending',
+      completedAt: null,
+      createdAt: '2025-01-19T10:00:00Z',
+    };
+
+    const myTasksResponse: MyTasksResponse = {
+      tasks: [
+        {
+          id: 'assignment-1',
+          taskName: 'Daily Chores',
+          taskDescription: null,
+          points: 10,
+          date: '2025-01-20',
+          status: 'pending_review',
+          completedAt: '2025-01-20T12:00:00Z',
+        },
+        {
+          id: 'assignment-2',
+          taskName: 'Feed the cat',
+          taskDescription: null,
+          points: 5,
+          date: '2025-01-20',
+          status: 'pending',
+          completedAt: null,
+        },
+      ],
+      totalPointsToday: 15,
+      completedPoints: 0,
+      childName: 'Emma',
+    };
+
+    const event = {
+      householdId: 'household-1',
+      occurredAt: '2025-01-20T12:30:00Z',
+    };
+
+    it('should mark an assignment completed by another member', async () => {
+      mockApiService.get.mockResolvedValue({ assignments: [mockAssignment], total: 1 });
+      await firstValueFrom(service.getHouseholdAssignments('household-1'));
+
+      service.applyHouseholdEvent({
+        ...event,
+        type: 'assignment.completed',
+        data: {
+          assignmentId: 'assignment-1',
+          taskId: 'task-1',
+          childId: 'child-1',
+          status: 'completed',
+          completedAt: '2025-01-20T12:00:00Z',
+        },
+      });
+
+      expect(service.assignments()[0].status).toBe('completed');
+      expect(service.assignments()[0].completedAt).toBe('2025-01-20T12:00:00Z');
+    });
+
+    it('should count points when a parent approves a completion', async () => {
+      mockApiService.get.mockResolvedValue(myTasksResponse);
+      await firstValueFrom(service.getMyTasks());
+
+      service.applyHouseholdEvent({
+        ...event,
+        type: 'assignment.completed',
+        data: {
+          assignmentId: 'assignment-1',
+          taskId: 'task-1',
+          childId: 'child-1',
+          status: 'completed',
+          completedAt: '2025-01-20T12:00:00Z',
+        },
+      });
+
+      expect(service.myTasks()[0].status).toBe('completed');
+      expect(service.myTasksCompletedPoints()).toBe(10);
+    });
+
+    it('should not count points twice for a completion already applied', async () => {
+      mockApiService.get.mockResolvedValue(myTasksResponse);
+      await firstValueFrom(service.getMyTasks());
+      const approved = {
+        ...event,
+        type: 'assignment.completed' as const,
+        data: {
+          assignmentId: 'assignment-1',
+          taskId: 'task-1',
+          childId: 'child-1',
+          status: 'completed' as const,
+          completedAt: '2025-01-20T12:00:00Z',
+        },
+      };
+
+      service.applyHouseholdEvent(approved);
+      service.applyHouseholdEvent(approved);
+
+      expect(service.myTasksCompletedPoints()).toBe(10);
+    });
+
+    it('should move a reassigned assignment to the new child', async () => {
+      mockApiService.get.mockResolvedValue({ assignments: [mockAssignment], total: 1 });
+      await firstValueFrom(service.getHouseholdAssignments('household-1'));
+
+      service.applyHouseholdEvent({
+        ...event,
+        type: 'assignment.reassigned',
+        data: {
+          assignmentId: 'assignment-1',
+          previousChildId: 'child-1',
+          childId: 'child-2',
+          childName: 'Noah',
+        },
+      });
+
+      expect(service.assignments()[0].childId).toBe('child-2');
+      expect(service.assignments()[0].childName).toBe('Noah');
+    });
+
+    it("should drop a reassigned task from the child's own tasks", async () => {
+      mockApiService.get.mockResolvedValue(myTasksResponse);
+      await firstValueFrom(service.getMyTasks());
+
+      service.applyHouseholdEvent({
+        ...event,
+        type: 'assignment.reassigned',
+        data: {
+          assignmentId: 'assignment-2',
+          previousChildId: 'child-1',
+          childId: 'child-2',
+          childName: 'Noah',
+        },
+      });
+
+      expect(service.myTasks().map((t) => t.id)).toEqual(['assignment-1']);
+      expect(service.myTasksTotalPoints()).toBe(10);
+    });
+  });
+
+  describe('refreshMyTasks', () => {
+    it('should reload my tasks without the loading state', async () => {
+      mockApiService.get.mockResolvedValue({
+        tasks: [],
+        totalPointsToday: 0,
+        completedPoints: 0,
+        childName: 'Emma',
+      });
+
+      await service.refreshMyTasks('2025-01-20');
+
+      expect(mockApiService.get).toHaveBeenCalledWith('/children/me/tasks?date=2025-01-20', {
+        skipLoading: true,
+      });
+      expect(service.myTasksChildName()).toBe('Emma');
+      expect(service.myTasksLoading()).toBe(false);
+    });
+  });
+
   describe('Computed Assignment Signals', () => {
     const baseAssignment = {
       taskId: 'task-1',
@@ -1,14 +1,22 @@
 import { Injectable, signal, computed, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { Observable, from, map, tap, catchError, throwError } from 'rxjs';
 import { ApiService } from './api.service';
+import { HouseholdEventsService } from './household-events.service';
 
 // Import shared types from @st44/types
 import type {
   Task,
   CreateTaskRequest,
+  CreateTaskFromTemplateRequest,
   UpdateTaskRequest,
   Assignment,
   AssignmentFilters,
+  AssignmentComment,
+  AssignmentCommentListResponse,
+  AssignmentChecklistItem,
+  AssignmentChecklistResponse,
+  HouseholdEvent,
   PaginationMeta,
 } from '@st44/types';
 
@@ -39,8 +47,29 @@ export interface MyTaskAssignment {
   taskDescription: string | null;
   points: number;
   date: string;
-  status: 'pending' | 'completed' | 'overdue';
+  status: 'pending' | 'pending_review' | 'completed' | 'overdue';
   completedAt: string | null;
+  /** Comment left by a parent who sent the task back (only set while pending) */
+  reviewComment?: string | null;
+  /** The task can only be completed with a photo attached */
+  requiresPhoto?: boolean;
+  commentCount?: number;
+  /** Steps of the task, ticked or not on this assignment */
+  checklist?: AssignmentChecklistItem[];
+}
+
+/**
+ * Response from POST /assignments/:id/complete
+ */
+export interface CompletionResponse {
+  taskAssignment: { id: string; status: string; completedAt: string };
+  completion: {
+    id: string;
+    pointsEarned: number;
+    completedAt: string;
+    approvalStatus?: string;
+    hasPhoto?: boolean;
+  };
 }
 
 /**
@@ -61,12 +90,14 @@ export interface MyTasksResponse {
  * - Reactive state management using signals
  * - Loading and error state tracking
  * - Computed signals for filtered task lists
+ * - Live updates from other household members (see HouseholdEventsService)
  */
 @Injectable({
   providedIn: 'root',
 })
 export class TaskService {
   private apiService = inject(ApiService);
+  private householdEvents = inject(HouseholdEventsService);
 
   // Task templates state signals (private writable)
   private tasksSignal = signal<Task[]>([]);
@@ -124,10 +155,18 @@ export class TaskService {
 
   public readonly overdueAssignments = computed(() =>
     this.assignmentsSignal().filter(
-      (a) => a.status === 'pending' && new Date(a.date) < new Date(new Date().toDateString()),
+      (a) =>
+        a.status === 'overdue' ||
+        (a.status === 'pending' && new Date(a.date) < new Date(new Date().toDateString())),
     ),
   );
 
+  constructor() {
+    this.householdEvents.events
+      .pipe(takeUntilDestroyed())
+      .subscribe((event) => this.applyHouseholdEvent(event));
+  }
+
   /**
    * Create a new task template
    *
@@ -153,6 +192,35 @@ export class TaskService {
     );
   }
 
+  /**
+   * Create a task from a built-in or household template
+   *
+   * @param householdId - ID of the household
+   * @param data - Template ID, the children to assign and optional overrides
+   * @returns Observable of the created task
+   */
+  createTaskFromTemplate(
+    householdId: string,
+    data: CreateTaskFromTemplateRequest,
+  ): Observable<Task> {
+    this.loadingSignal.set(true);
+    this.errorSignal.set(null);
+
+    return from(
+      this.apiService.post<Task>(`/households/${householdId}/tasks/from-template`, data),
+    ).pipe(
+      tap((task) => {
+        this.tasksSignal.update((tasks) => [...tasks, task]);
+        this.loadingSignal.set(false);
+      }),
+      catchError((err) => {
+        this.errorSignal.set('Failed to create task from template');
+        this.loadingSignal.set(false);
+        return throwError(() => err);
+      }),
+    );
+  }
+
   /**
    * Get all task templates for a household with pagination
    *
@@ -371,18 +439,30 @@ export class TaskService {
     );
   }
 
+  /**
+   * Reload the signed-in child's tasks without the loading state
+   *
+   * For changes pushed by other household members, so the list does not
+   * flash a spinner.
+   *
+   * @param date - Optional date filter (ISO format YYYY-MM-DD)
+   */
+  async refreshMyTasks(date?: string): Promise<void> {
+    const endpoint = date ? `/children/me/tasks?date=${date}` : '/children/me/tasks';
+    const response = await this.apiService.get<MyTasksResponse>(endpoint, { skipLoading: true });
+    this.myTasksResponseSignal.set(response);
+  }
+
   /**
    * Mark a task assignment as complete (with optimistic update)
    *
    * Updates both assignmentsSignal and myTasksResponseSignal for immediate UI feedback.
    *
    * @param assignmentId - ID of the task assignment
+   * @param photo - Optional photo proof (JPEG, PNG or WebP)
    * @returns Promise of the completion response (taskAssignment + completion)
    */
-  async completeTask(assignmentId: string): Promise<{
-    taskAssignment: { id: string; status: string; completedAt: string };
-    completion: { id: string; pointsEarned: number; completedAt: string };
-  }> {
+  async completeTask(assignmentId: string, photo?: Blob): Promise<CompletionResponse> {
     // Store previous state for rollback
     const previousAssignments = this.assignmentsSignal();
     const previousMyTasks = this.myTasksResponseSignal();
@@ -411,27 +491,40 @@ export class TaskService {
 
     try {
       // Make API call
-      const result = await this.apiService.post<{
-        taskAssignment: { id: string; status: string; completedAt: string };
-        completion: { id: string; pointsEarned: number; completedAt: string };
-      }>(`/assignments/${assignmentId}/complete`, {});
-
-      // Update with server response timestamp
+      const endpoint = `/assignments/${assignmentId}/complete`;
+      const result = await (photo
+        ? this.apiService.upload<CompletionResponse>(endpoint, photo)
+        : this.apiService.post<CompletionResponse>(endpoint, {}));
+
+      // Completions that need parent approval come back as pending_review
+      const status =
+        result.taskAssignment.status === 'pending_review'
+          ? ('pending_review' as const)
+          : ('completed' as const);
+
+      // Update with server response status and timestamp
       this.assignmentsSignal.update((assignments) =>
         assignments.map((a) =>
           a.id === assignmentId
-            ? { ...a, status: 'completed' as const, completedAt: result.taskAssignment.completedAt }
+            ? { ...a, status, completedAt: result.taskAssignment.completedAt }
             : a,
         ),
       );
 
       this.myTasksResponseSignal.update((response) => {
         if (!response) return response;
+        const task = response.tasks.find((t) => t.id === assignmentId);
+        // Points awaiting approval are not earned yet (unless an event already took them off)
+        const uncountedPoints =
+          status === 'pending_review' && task?.status === 'completed' ? task.points : 0;
         return {
           ...response,
           tasks: response.tasks.map((t) =>
-            t.id === assignmentId ? { ...t, completedAt: result.taskAssignment.completedAt } : t,
+            t.id === assignmentId
+              ? { ...t, status, completedAt: result.taskAssignment.completedAt }
+              : t,
           ),
+          completedPoints: response.completedPoints - uncountedPoints,
         };
       });
 
@@ -445,6 +538,93 @@ export class TaskService {
     }
   }
 
+  /**
+   * Tick or untick a checklist item of an assignment (with optimistic update)
+   *
+   * @param assignmentId - ID of the task assignment
+   * @param itemId - ID of the checklist item
+   * @param checked - Whether the item is done
+   * @returns Promise of the assignment's checklist after the update
+   */
+  async updateAssignmentChecklist(
+    assignmentId: string,
+    itemId: string,
+    checked: boolean,
+  ): Promise<AssignmentChecklistResponse> {
+    const previousAssignments = this.assignmentsSignal();
+    const previousMyTasks = this.myTasksResponseSignal();
+
+    const applyChecklist = (
+      update: (items: AssignmentChecklistItem[]) => AssignmentChecklistItem[],
+    ) => {
+      const withChecklist = <T extends { id: string; checklist?: AssignmentChecklistItem[] }>(
+        item: T,
+      ): T =>
+        item.id === assignmentId && item.checklist
+          ? { ...item, checklist: update(item.checklist) }
+          : item;
+      this.assignmentsSignal.update((assignments) => assignments.map(withChecklist));
+      this.myTasksResponseSignal.update((response) =>
+        response ? { ...response, tasks: response.tasks.map(withChecklist) } : response,
+      );
+    };
+
+    // Optimistic update
+    applyChecklist((items) =>
+      items.map((item) => (item.id === itemId ? { ...item, checked } : item)),
+    );
+
+    try {
+      const result = await this.apiService.patch<AssignmentChecklistResponse>(
+        `/assignments/${assignmentId}/checklist`,
+        { itemId, checked },
+      );
+      applyChecklist(() => result.checklist);
+      return result;
+    } catch (err) {
+      // Rollback on error
+      this.assignmentsSignal.set(previousAssignments);
+      this.myTasksResponseSignal.set(previousMyTasks);
+      throw err;
+    }
+  }
+
+  /**
+   * Get the comment thread of an assignment, oldest first
+   *
+   * @param assignmentId - ID of the task assignment
+   * @returns Promise of the comments
+   */
+  async getAssignmentComments(assignmentId: string): Promise<AssignmentComment[]> {
+    const response = await this.apiService.get<AssignmentCommentListResponse>(
+      `/assignments/${assignmentId}/comments`,
+    );
+    return response.comments;
+  }
+
+  /**
+   * Add a comment to an assignment and count it on the loaded assignment
+   *
+   * @param assignmentId - ID of the task assignment
+   * @param body - Plain-text comment
+   * @returns Promise of the created comment
+   */
+  async addAssignmentComment(assignmentId: string, body: string): Promise<AssignmentComment> {
+    const comment = await this.apiService.post<AssignmentComment>(
+      `/assignments/${assignmentId}/comments`,
+      { body },
+    );
+
+    const countComment = <T extends { id: string; commentCount?: number }>(item: T): T =>
+      item.id === assignmentId ? { ...item, commentCount: (item.commentCount ?? 0) + 1 } : item;
+    this.assignmentsSignal.update((assignments) => assignments.map(countComment));
+    this.myTasksResponseSignal.update((response) =>
+      response ? { ...response, tasks: response.tasks.map(countComment) } : response,
+    );
+
+    return comment;
+  }
+
   /**
    * Reassign a task to a different child
    *
@@ -476,6 +656,63 @@ export class TaskService {
     );
   }
 
+  /**
+   * Apply a change made by another household member to the loaded assignments
+   *
+   * Completions and reassignments are patched in place. New assignments are
+   * not: the event does not carry enough to show them, so pages reload.
+   *
+   * @param event - Event from the household's event stream
+   */
+  applyHouseholdEvent(event: HouseholdEvent): void {
+    switch (event.type) {
+      case 'assignment.completed': {
+        const { assignmentId, status, completedAt } = event.data;
+
+        this.assignmentsSignal.update((assignments) =>
+          assignments.map((a) => (a.id === assignmentId ? { ...a, status, completedAt } : a)),
+        );
+
+        this.myTasksResponseSignal.update((response) => {
+          const task = response?.tasks.find((t) => t.id === assignmentId);
+          if (!response || !task || task.status === status) return response;
+          // Only completed tasks count towards the points earned
+          const pointsChange =
+            (status === 'completed' ? task.points : 0) -
+            (task.status === 'completed' ? task.points : 0);
+          return {
+            ...response,
+            tasks: response.tasks.map((t) =>
+              t.id === assignmentId ? { ...t, status, completedAt } : t,
+            ),
+            completedPoints: response.completedPoints + pointsChange,
+          };
+        });
+        break;
+      }
+
+      case 'assignment.reassigned': {
+        const { assignmentId, childId, childName } = event.data;
+
+        this.assignmentsSignal.update((assignments) =>
+          assignments.map((a) => (a.id === assignmentId ? { ...a, childId, childName } : a)),
+        );
+
+        // My tasks only hold the signed-in child's assignments, so this one moved away
+        this.myTasksResponseSignal.update((response) => {
+          const task = response?.tasks.find((t) => t.id === assignmentId);
+          if (!response || !task) return response;
+          return {
+            ...response,
+            tasks: response.tasks.filter((t) => t.id !== assignmentId),
+            totalPointsToday: response.totalPointsToday - task.points,
+          };
+        });
+        break;
+      }
+    }
+  }
+
   /**
    * Clear error state
    */
@@ -8,7 +8,7 @@ import { STORAGE_KEYS } from './storage-keys';
 export interface DecodedToken {
   userId: string;
   email: string;
-  role?: 'admin' | 'parent' | 'child';
+  role?: 'admin' | 'parent' | 'caregiver' | 'child';
   firstName?: string | null;
   lastName?: string | null;
   type: string;
@@ -21,6 +21,7 @@ export interface MockApiService {
   put: ReturnType<typeof vi.fn>;
   delete: ReturnType<typeof vi.fn>;
   patch: ReturnType<typeof vi.fn>;
+  upload: ReturnType<typeof vi.fn>;
 }
 
 /**
@@ -33,6 +34,7 @@ export function createMockApiService(): MockApiService {
     put: vi.fn(),
     delete: vi.fn(),
     patch: vi.fn(),
+    upload: vi.fn(),
   };
 }
 
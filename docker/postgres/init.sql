@@ -36,7 +36,30 @@ VALUES
   ('047', 'add_child_household_consistency_check', NOW()),
   ('048', 'fix_multi_household_child_assignments', NOW()),
   ('049', 'cleanup_orphaned_child_memberships', NOW()),
-  ('051', 'add_qr_token_to_children', NOW())
+  ('051', 'add_qr_token_to_children', NOW()),
+  ('052', 'create_assignment_generation_runs', NOW()),
+  ('053', 'add_timezone_to_households', NOW()),
+  ('054', 'add_completion_approval', NOW()),
+  ('055', 'create_push_subscriptions', NOW()),
+  ('056', 'enforce_row_level_security', NOW()),
+  ('057', 'create_points_transactions', NOW()),
+  ('058', 'create_calendar_feeds', NOW()),
+  ('059', 'add_interval_monthly_task_types', NOW()),
+  ('060', 'create_task_rotation_cursors', NOW()),
+  ('061', 'create_child_absences', NOW()),
+  ('062', 'create_user_sessions', NOW()),
+  ('063', 'add_invite_links', NOW()),
+  ('064', 'add_caregiver_role', NOW()),
+  ('065', 'create_audit_events', NOW()),
+  ('066', 'create_task_templates', NOW()),
+  ('067', 'add_completion_photos', NOW()),
+  ('068', 'create_assignment_comments', NOW()),
+  ('069', 'add_task_checklists', NOW()),
+  ('070', 'add_late_completion_policy', NOW()),
+  ('071', 'create_achievements', NOW()),
+  ('072', 'create_savings_goals', NOW()),
+  ('073', 'add_reward_rules', NOW()),
+  ('074', 'create_photo_objects', NOW())
 ON CONFLICT (version) DO NOTHING;
 
 -- Users table for authentication (supports email/password and OAuth)
@@ -66,6 +89,11 @@ CREATE UNIQUE INDEX IF NOT EXISTS idx_users_oauth ON users(oauth_provider, oauth
 CREATE TABLE IF NOT EXISTS households (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   name VARCHAR(255) NOT NULL,
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  requires_approval BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Completing overdue assignments (migration 070)
+  late_completion_policy VARCHAR(20) NOT NULL DEFAULT 'full' CONSTRAINT households_late_completion_policy_check CHECK (late_completion_policy IN ('full', 'reduced', 'locked')),
+  late_points_percent INTEGER NOT NULL DEFAULT 50 CONSTRAINT households_late_points_percent_check CHECK (late_points_percent BETWEEN 0 AND 100),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -75,7 +103,7 @@ CREATE TABLE IF NOT EXISTS household_members (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  role VARCHAR(50) NOT NULL CHECK (role IN ('admin', 'parent', 'child')),
+  role VARCHAR(50) NOT NULL CHECK (role IN ('admin', 'parent', 'caregiver', 'child')),
   joined_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(household_id, user_id)
 );
@@ -88,18 +116,22 @@ CREATE TABLE IF NOT EXISTS invitations (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
   invited_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  invited_email VARCHAR(255) NOT NULL,
+  invited_email VARCHAR(255), -- NULL for a shareable link (migration 063)
   token VARCHAR(255) NOT NULL,
   role VARCHAR(20) NOT NULL DEFAULT 'parent',
   status VARCHAR(20) NOT NULL DEFAULT 'pending',
   expires_at TIMESTAMP NOT NULL DEFAULT (NOW() + INTERVAL '7 days'),
   accepted_at TIMESTAMP,
+  max_uses INTEGER DEFAULT 1 CHECK (max_uses > 0), -- NULL = unlimited (links only)
+  use_count INTEGER NOT NULL DEFAULT 0 CHECK (use_count >= 0),
   created_at TIMESTAMP NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
   
-  CONSTRAINT invitations_role_check CHECK (role IN ('admin', 'parent')),
+  CONSTRAINT invitations_role_check CHECK (role IN ('admin', 'parent', 'caregiver', 'child')),
   CONSTRAINT invitations_status_check CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled', 'expired')),
-  CONSTRAINT invitations_expiry_check CHECK (expires_at > created_at)
+  CONSTRAINT invitations_expiry_check CHECK (expires_at > created_at),
+  CONSTRAINT invitations_uses_check CHECK (max_uses IS NULL OR use_count <= max_uses),
+  CONSTRAINT invitations_email_single_use_check CHECK (invited_email IS NULL OR max_uses = 1)
 );
 
 CREATE INDEX IF NOT EXISTS idx_invitations_household ON invitations(household_id);
@@ -139,6 +171,13 @@ CREATE INDEX IF NOT EXISTS idx_children_user_id ON children(user_id); -- Added i
 CREATE UNIQUE INDEX IF NOT EXISTS idx_children_user_household_unique ON children(user_id, household_id) WHERE user_id IS NOT NULL; -- Added in migration 022 to prevent duplicate child profiles
 CREATE INDEX IF NOT EXISTS idx_children_qr_token ON children(qr_token) WHERE qr_token IS NOT NULL; -- Added in migration 051 for QR token lookups
 
+-- Child invitations attach the accepting user to a child profile (migration 063)
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS child_id UUID REFERENCES children(id) ON DELETE CASCADE;
+ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_child_check;
+ALTER TABLE invitations ADD CONSTRAINT invitations_child_check
+  CHECK ((role = 'child') = (child_id IS NOT NULL) AND (child_id IS NULL OR max_uses = 1));
+CREATE INDEX IF NOT EXISTS idx_invitations_child ON invitations(child_id) WHERE child_id IS NOT NULL;
+
 -- Tasks table (templates/definitions for household chores)
 CREATE TABLE IF NOT EXISTS tasks (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -146,10 +185,15 @@ CREATE TABLE IF NOT EXISTS tasks (
   name VARCHAR(255) NOT NULL,
   description TEXT,
   points INTEGER DEFAULT 10,
-  rule_type VARCHAR(50) NOT NULL CHECK (rule_type IN ('weekly_rotation', 'repeating', 'daily', 'single')),
+  rule_type VARCHAR(50) NOT NULL CHECK (rule_type IN ('weekly_rotation', 'repeating', 'daily', 'single', 'interval', 'monthly')),
   rule_config JSONB,
   deadline TIMESTAMP WITH TIME ZONE,
   active BOOLEAN NOT NULL DEFAULT true,
+  requires_approval BOOLEAN NOT NULL DEFAULT FALSE,
+  requires_photo BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Ordered checklist items (migration 069)
+  checklist JSONB NOT NULL DEFAULT '[]'::jsonb CONSTRAINT tasks_checklist_array CHECK (jsonb_typeof(checklist) = 'array'),
+  partial_points BOOLEAN NOT NULL DEFAULT FALSE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -193,8 +237,13 @@ CREATE TABLE IF NOT EXISTS task_assignments (
   task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
   child_id UUID REFERENCES children(id) ON DELETE CASCADE, -- Nullable for household-wide tasks
   date DATE NOT NULL, -- Renamed from due_date (migration 021)
-  status VARCHAR(50) DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'overdue')),
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+  status VARCHAR(50) DEFAULT 'pending' CHECK (status IN ('pending', 'pending_review', 'completed', 'overdue', 'expired')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  reminder_sent_at TIMESTAMP WITH TIME ZONE, -- Push reminder sent (migration 055)
+  -- Ticked checklist item ids (migration 069)
+  checked_items JSONB NOT NULL DEFAULT '[]'::jsonb CONSTRAINT task_assignments_checked_items_array CHECK (jsonb_typeof(checked_items) = 'array'),
+  -- Completed after it became overdue (migration 070)
+  completed_late BOOLEAN NOT NULL DEFAULT FALSE
 );
 
 CREATE INDEX IF NOT EXISTS idx_task_assignments_household ON task_assignments(household_id);
@@ -203,6 +252,8 @@ CREATE INDEX IF NOT EXISTS idx_task_assignments_date ON task_assignments(date);
 -- Composite indexes added in migration 017 for query optimization
 CREATE INDEX IF NOT EXISTS idx_task_assignments_child_date_status ON task_assignments(child_id, date, status);
 CREATE INDEX IF NOT EXISTS idx_task_assignments_household_status_date ON task_assignments(household_id, status, date);
+-- Overdue sweep (migration 070)
+CREATE INDEX IF NOT EXISTS idx_task_assignments_pending_date ON task_assignments(date) WHERE status = 'pending';
 -- Partial unique indexes for idempotency (migration 021)
 CREATE UNIQUE INDEX IF NOT EXISTS idx_task_assignments_task_child_date_unique ON task_assignments(task_id, child_id, date) WHERE child_id IS NOT NULL;
 CREATE UNIQUE INDEX IF NOT EXISTS idx_task_assignments_task_date_unique ON task_assignments(task_id, date) WHERE child_id IS NULL;
@@ -214,11 +265,147 @@ CREATE TABLE IF NOT EXISTS task_completions (
   task_assignment_id UUID NOT NULL REFERENCES task_assignments(id) ON DELETE CASCADE,
   child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
   completed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-  points_earned INTEGER NOT NULL
+  points_earned INTEGER NOT NULL,
+  -- Parent approval (migration 054); only approved completions count towards points
+  approval_status VARCHAR(20) NOT NULL DEFAULT 'approved' CHECK (approval_status IN ('pending_review', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  -- Photo proof (migration 067); the key is cleared when the photo is purged
+  photo_key VARCHAR(255),
+  photo_content_type VARCHAR(50),
+  photo_purged_at TIMESTAMP WITH TIME ZONE
 );
 
 CREATE INDEX IF NOT EXISTS idx_task_completions_household ON task_completions(household_id);
 CREATE INDEX IF NOT EXISTS idx_task_completions_child ON task_completions(child_id);
+CREATE INDEX IF NOT EXISTS idx_task_completions_pending_review ON task_completions(household_id, completed_at) WHERE approval_status = 'pending_review';
+CREATE INDEX IF NOT EXISTS idx_task_completions_photo_key ON task_completions(photo_key) WHERE photo_key IS NOT NULL;
+
+-- Objects put into photo storage (migration 074); no foreign key, so the purge
+-- job still finds photos of rolled back or deleted completions
+CREATE TABLE IF NOT EXISTS photo_objects (
+  key VARCHAR(255) PRIMARY KEY,
+  uploaded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_photo_objects_uploaded_at ON photo_objects(uploaded_at);
+
+-- Assignment generation runs (result of each scheduled or manual generation, migration 052)
+CREATE TABLE IF NOT EXISTS assignment_generation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+  start_date DATE NOT NULL,
+  days INTEGER NOT NULL CHECK (days > 0),
+  created INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_generation_runs_household_started ON assignment_generation_runs(household_id, started_at DESC);
+
+-- Web Push subscriptions (one per browser/device, migration 055)
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh VARCHAR(255) NOT NULL,
+  auth VARCHAR(255) NOT NULL,
+  user_agent VARCHAR(500),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+-- Refresh-token sessions (one per sign-in, rotated on every refresh, migration 062)
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash CHAR(64) NOT NULL, -- SHA-256 of the current refresh token
+  user_agent VARCHAR(500),
+  ip_address VARCHAR(45),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason VARCHAR(20) CHECK (revoked_reason IN ('logout', 'revoked', 'reuse'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id, last_used_at DESC);
+
+-- iCalendar feeds (secret-token subscription URLs, migration 058)
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID REFERENCES children(id) ON DELETE CASCADE, -- NULL for the household feed
+  token VARCHAR(255) NOT NULL UNIQUE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_accessed_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_household ON calendar_feeds(household_id);
+
+-- Round-robin rotation cursors (one per weekly_rotation task, migration 060)
+CREATE TABLE IF NOT EXISTS task_rotation_cursors (
+  task_id UUID PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID REFERENCES children(id) ON DELETE SET NULL, -- child who had the last turn
+  position INTEGER NOT NULL CHECK (position >= 0),          -- their index in assignedChildren
+  last_date DATE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_rotation_cursors_household ON task_rotation_cursors(household_id);
+
+-- Child away periods, optionally repeating every N weeks (migration 061)
+CREATE TABLE IF NOT EXISTS child_absences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  repeat_every_weeks INTEGER CHECK (repeat_every_weeks BETWEEN 1 AND 52),
+  repeat_until DATE,
+  reason VARCHAR(255),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT child_absences_range CHECK (end_date >= start_date),
+  CONSTRAINT child_absences_repeat CHECK (
+    repeat_every_weeks IS NULL OR end_date - start_date + 1 < repeat_every_weeks * 7
+  ),
+  CONSTRAINT child_absences_repeat_until CHECK (
+    repeat_until IS NULL OR (repeat_every_weeks IS NOT NULL AND repeat_until >= start_date)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_child_absences_child ON child_absences(child_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_child_absences_household ON child_absences(household_id);
+
+-- Whether a child is away on a date (used by analytics to leave absent days out)
+CREATE OR REPLACE FUNCTION child_absent_on(p_child_id UUID, p_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM child_absences a
+    WHERE a.child_id = p_child_id
+      AND p_date >= a.start_date
+      AND CASE
+        WHEN a.repeat_every_weeks IS NULL THEN p_date <= a.end_date
+        ELSE (p_date - a.start_date) % (a.repeat_every_weeks * 7) <= a.end_date - a.start_date
+          AND (
+            a.repeat_until IS NULL
+            OR p_date - (p_date - a.start_date) % (a.repeat_every_weeks * 7) <= a.repeat_until
+          )
+      END
+  );
+$$ LANGUAGE sql STABLE;
 
 -- Rewards table (parents create rewards for household)
 CREATE TABLE IF NOT EXISTS rewards (
@@ -229,8 +416,32 @@ CREATE TABLE IF NOT EXISTS rewards (
   points_cost INTEGER NOT NULL CHECK (points_cost > 0),
   quantity INTEGER, -- NULL = unlimited, >0 = limited stock
   active BOOLEAN DEFAULT TRUE,
+  -- At most redemption_limit redemptions per child in each day, week or month
+  redemption_limit INTEGER,
+  redemption_limit_period VARCHAR(10),
+  -- Inclusive dates in the household's timezone, and days of the week (0 = Sunday)
+  available_from DATE,
+  available_until DATE,
+  available_days SMALLINT[],
+  -- quantity is reset to restock_quantity at the start of each period;
+  -- restocked_on is the start of the period it was last reset for
+  restock_quantity INTEGER,
+  restock_period VARCHAR(10),
+  restocked_on DATE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT rewards_redemption_limit_check CHECK (
+    (redemption_limit IS NULL AND redemption_limit_period IS NULL)
+    OR (redemption_limit > 0 AND redemption_limit_period IN ('day', 'week', 'month'))
+  ),
+  CONSTRAINT rewards_available_window_check
+    CHECK (available_from IS NULL OR available_until IS NULL OR available_from <= available_until),
+  CONSTRAINT rewards_available_days_check
+    CHECK (available_days IS NULL OR available_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  CONSTRAINT rewards_restock_check CHECK (
+    (restock_quantity IS NULL AND restock_period IS NULL)
+    OR (restock_quantity > 0 AND restock_period IN ('day', 'week', 'month'))
+  )
 );
 
 CREATE INDEX IF NOT EXISTS idx_rewards_household ON rewards(household_id);
@@ -251,30 +462,176 @@ CREATE TABLE IF NOT EXISTS reward_redemptions (
 CREATE INDEX IF NOT EXISTS idx_reward_redemptions_child ON reward_redemptions(child_id);
 CREATE INDEX IF NOT EXISTS idx_reward_redemptions_reward ON reward_redemptions(reward_id);
 CREATE INDEX IF NOT EXISTS idx_reward_redemptions_household_status ON reward_redemptions(household_id, status);
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_reward_child ON reward_redemptions(reward_id, child_id, redeemed_at);
+
+-- Points ledger (append-only, migration 057): every change to a child's points
+-- with the running balance after it
+CREATE TABLE IF NOT EXISTS points_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('task_completion', 'redemption', 'refund', 'adjustment', 'bonus')),
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  balance_after INTEGER NOT NULL,
+  reason TEXT,
+  task_completion_id UUID REFERENCES task_completions(id) ON DELETE SET NULL,
+  reward_redemption_id UUID REFERENCES reward_redemptions(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp(),
+  CONSTRAINT points_transactions_amount_sign CHECK (
+    (type IN ('task_completion', 'refund', 'bonus') AND amount > 0)
+    OR (type = 'redemption' AND amount < 0)
+    OR type = 'adjustment'
+  ),
+  CONSTRAINT points_transactions_manual_reason CHECK (
+    type NOT IN ('adjustment', 'bonus') OR (reason IS NOT NULL AND length(trim(reason)) > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_points_transactions_child_created ON points_transactions(child_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_points_transactions_household ON points_transactions(household_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_transactions_completion_unique ON points_transactions(task_completion_id) WHERE type = 'task_completion';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_transactions_redemption_unique ON points_transactions(reward_redemption_id, type) WHERE reward_redemption_id IS NOT NULL;
 
--- View for child points balance (earned from task completions minus spent on redemptions)
--- Uses subqueries to pre-aggregate each table to avoid Cartesian product issues
-CREATE OR REPLACE VIEW child_points_balance AS
+-- View for child points balance, summed from the points ledger
+-- points_spent is everything deducted (redemptions, negative adjustments) net of refunds
+-- security_invoker makes the RLS policies of the underlying tables apply
+CREATE OR REPLACE VIEW child_points_balance WITH (security_invoker = true) AS
 SELECT
   c.id as child_id,
   c.household_id,
-  COALESCE(tc_agg.total_earned, 0) as points_earned,
-  COALESCE(rr_agg.total_spent, 0) as points_spent,
-  COALESCE(tc_agg.total_earned, 0) - COALESCE(rr_agg.total_spent, 0) as points_balance
+  COALESCE(pt_agg.total_earned, 0) as points_earned,
+  COALESCE(pt_agg.total_earned, 0) - COALESCE(pt_agg.balance, 0) as points_spent,
+  COALESCE(pt_agg.balance, 0) as points_balance
 FROM children c
 LEFT JOIN (
-  -- Pre-aggregate task completions per child
-  SELECT child_id, SUM(points_earned) as total_earned
-  FROM task_completions
+  SELECT
+    child_id,
+    SUM(amount) FILTER (WHERE amount > 0 AND type <> 'refund') as total_earned,
+    SUM(amount) as balance
+  FROM points_transactions
   GROUP BY child_id
-) tc_agg ON c.id = tc_agg.child_id
-LEFT JOIN (
-  -- Pre-aggregate non-rejected redemptions per child
-  SELECT child_id, SUM(points_spent) as total_spent
-  FROM reward_redemptions
-  WHERE status != 'rejected'
-  GROUP BY child_id
-) rr_agg ON c.id = rr_agg.child_id;
+) pt_agg ON c.id = pt_agg.child_id;
+
+-- Audit log of household changes (append-only, migration 065)
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  actor_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  action VARCHAR(64) NOT NULL,
+  entity_type VARCHAR(32) NOT NULL,
+  entity_id UUID,
+  before JSONB,
+  after JSONB,
+  request_id VARCHAR(128),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_household ON audit_events(household_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(household_id, entity_type, entity_id);
+
+-- Task templates saved by a household (migration 066)
+CREATE TABLE IF NOT EXISTS task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  points INTEGER NOT NULL DEFAULT 10,
+  rule_type VARCHAR(50) NOT NULL CHECK (rule_type IN ('weekly_rotation', 'repeating', 'daily', 'single', 'interval', 'monthly')),
+  rule_config JSONB,
+  min_age INTEGER CHECK (min_age BETWEEN 0 AND 18),
+  max_age INTEGER CHECK (max_age BETWEEN 0 AND 18),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT task_templates_age_range CHECK (min_age IS NULL OR max_age IS NULL OR max_age >= min_age)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_household ON task_templates(household_id, name);
+
+-- Comment threads on assignments (migration 068)
+CREATE TABLE IF NOT EXISTS assignment_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  task_assignment_id UUID NOT NULL REFERENCES task_assignments(id) ON DELETE CASCADE,
+  author_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  author_role VARCHAR(20) NOT NULL CHECK (author_role IN ('admin', 'parent', 'caregiver', 'child')),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_comments_assignment
+  ON assignment_comments(task_assignment_id, created_at);
+
+-- Achievement definitions and unlocks (migration 071)
+CREATE TABLE IF NOT EXISTS achievements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID REFERENCES households(id) ON DELETE CASCADE,
+  code VARCHAR(50) UNIQUE,
+  name VARCHAR(100),
+  description TEXT,
+  icon VARCHAR(16) NOT NULL,
+  type VARCHAR(30) NOT NULL CHECK (type IN ('tasks_completed', 'points_earned', 'streak', 'task_completions')),
+  threshold INTEGER NOT NULL CHECK (threshold > 0),
+  task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT achievements_builtin_or_household CHECK (
+    (household_id IS NULL AND code IS NOT NULL)
+    OR (household_id IS NOT NULL AND code IS NULL AND name IS NOT NULL)
+  ),
+  CONSTRAINT achievements_task_type CHECK ((type = 'task_completions') = (task_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_achievements_household ON achievements(household_id, name);
+
+-- One unlock per child and achievement; seen_at is set once the child has
+-- been shown the unlock
+CREATE TABLE IF NOT EXISTS achievement_unlocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  achievement_id UUID NOT NULL REFERENCES achievements(id) ON DELETE CASCADE,
+  task_completion_id UUID REFERENCES task_completions(id) ON DELETE SET NULL,
+  unlocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp(),
+  seen_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT achievement_unlocks_unique UNIQUE (child_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_achievement_unlocks_unseen
+ON achievement_unlocks(child_id, unlocked_at)
+WHERE seen_at IS NULL;
+
+-- The built-in set that used to be hard-coded in routes/stats.ts
+INSERT INTO achievements (code, icon, type, threshold, sort_order) VALUES
+  ('first_task', '🌟', 'tasks_completed', 1, 10),
+  ('task_master_10', '⭐', 'tasks_completed', 10, 20),
+  ('task_champion_50', '🏆', 'tasks_completed', 50, 30),
+  ('task_legend_100', '👑', 'tasks_completed', 100, 40),
+  ('point_collector_100', '💎', 'points_earned', 100, 50),
+  ('point_hoarder_500', '💰', 'points_earned', 500, 60),
+  ('streak_3', '🔥', 'streak', 3, 70),
+  ('streak_7', '💪', 'streak', 7, 80),
+  ('streak_30', '🎯', 'streak', 30, 90)
+ON CONFLICT (code) DO NOTHING;
+
+-- Rewards children pin as savings goals (migration 072). Earmarked points
+-- stay in the points ledger; they are only kept back from other rewards.
+-- affordable_notified_at is set once the parents have been told the goal is
+-- within reach, and cleared if it drops out of reach again.
+CREATE TABLE IF NOT EXISTS savings_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  reward_id UUID NOT NULL REFERENCES rewards(id) ON DELETE CASCADE,
+  earmarked_points INTEGER NOT NULL DEFAULT 0 CHECK (earmarked_points >= 0),
+  affordable_notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT savings_goals_unique UNIQUE (child_id, reward_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_goals_reward ON savings_goals(reward_id);
 
 -- Sample items table (for testing)
 CREATE TABLE IF NOT EXISTS items (
@@ -330,6 +687,11 @@ BEFORE UPDATE ON rewards
 FOR EACH ROW
 EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_savings_goals_updated_at
+BEFORE UPDATE ON savings_goals
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_items_updated_at
 BEFORE UPDATE ON items
 FOR EACH ROW
@@ -415,6 +777,19 @@ ALTER TABLE task_assignments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE task_completions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE rewards ENABLE ROW LEVEL SECURITY;
 ALTER TABLE reward_redemptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assignment_generation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE points_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_rotation_cursors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE child_absences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assignment_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE achievement_unlocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies (application sets app.current_household_id per request)
 -- Note: PostgreSQL 17 doesn't support IF NOT EXISTS for CREATE POLICY, so drop first
@@ -462,3 +837,99 @@ DROP POLICY IF EXISTS reward_redemptions_isolation ON reward_redemptions;
 CREATE POLICY reward_redemptions_isolation ON reward_redemptions
 FOR ALL
 USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS assignment_generation_runs_isolation ON assignment_generation_runs;
+CREATE POLICY assignment_generation_runs_isolation ON assignment_generation_runs
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS task_candidates_isolation ON task_candidates;
+CREATE POLICY task_candidates_isolation ON task_candidates
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS task_responses_isolation ON task_responses;
+CREATE POLICY task_responses_isolation ON task_responses
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS points_transactions_isolation ON points_transactions;
+CREATE POLICY points_transactions_isolation ON points_transactions
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS calendar_feeds_isolation ON calendar_feeds;
+CREATE POLICY calendar_feeds_isolation ON calendar_feeds
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS task_rotation_cursors_isolation ON task_rotation_cursors;
+CREATE POLICY task_rotation_cursors_isolation ON task_rotation_cursors
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS child_absences_isolation ON child_absences;
+CREATE POLICY child_absences_isolation ON child_absences
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS audit_events_isolation ON audit_events;
+CREATE POLICY audit_events_isolation ON audit_events
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS task_templates_isolation ON task_templates;
+CREATE POLICY task_templates_isolation ON task_templates
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS assignment_comments_isolation ON assignment_comments;
+CREATE POLICY assignment_comments_isolation ON assignment_comments
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS achievements_isolation ON achievements;
+CREATE POLICY achievements_isolation ON achievements
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Every household sees the built-in achievements but cannot change them
+DROP POLICY IF EXISTS achievements_builtin_read ON achievements;
+CREATE POLICY achievements_builtin_read ON achievements
+FOR SELECT
+USING (household_id IS NULL);
+
+DROP POLICY IF EXISTS achievement_unlocks_isolation ON achievement_unlocks;
+CREATE POLICY achievement_unlocks_isolation ON achievement_unlocks
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS savings_goals_isolation ON savings_goals;
+CREATE POLICY savings_goals_isolation ON savings_goals
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Non-superuser role for household-scoped requests: superusers and table
+-- owners bypass RLS, so the backend runs SET LOCAL ROLE st44_app per request
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'st44_app') THEN
+    CREATE ROLE st44_app NOLOGIN NOSUPERUSER NOBYPASSRLS;
+  END IF;
+END
+$$;
+
+GRANT st44_app TO CURRENT_USER;
+GRANT USAGE ON SCHEMA public TO st44_app;
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO st44_app;
+GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA public TO st44_app;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public
+  GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO st44_app;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public
+  GRANT USAGE, SELECT ON SEQUENCES TO st44_app;
+
+-- The points ledger is append-only for the application role
+REVOKE UPDATE, DELETE ON points_transactions FROM st44_app;
+
+-- So is the audit log
+REVOKE UPDATE, DELETE ON audit_events FROM st44_app;
@@ -0,0 +1,46 @@
+-- Migration: 052_create_assignment_generation_runs
+-- Description: Record the result of every assignment generation run (scheduled or manual)
+-- Date: 2026-10-18
+-- Related Task: Background scheduler for nightly assignment generation
+-- Author: Database Agent
+
+BEGIN;
+
+-- One row per household per generation run
+-- trigger: 'scheduled' for the nightly job, 'manual' for the generate endpoints
+-- errors: JSON array of error strings from AssignmentGenerationResult
+CREATE TABLE IF NOT EXISTS assignment_generation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+  start_date DATE NOT NULL,
+  days INTEGER NOT NULL CHECK (days > 0),
+  created INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Admin views list the most recent runs per household
+CREATE INDEX IF NOT EXISTS idx_assignment_generation_runs_household_started
+ON assignment_generation_runs(household_id, started_at DESC);
+
+-- Tenant isolation (same policy shape as migration 018)
+ALTER TABLE assignment_generation_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS assignment_generation_runs_isolation ON assignment_generation_runs;
+CREATE POLICY assignment_generation_runs_isolation ON assignment_generation_runs
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Record the migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('052', 'create_assignment_generation_runs', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES (for reference, not executed):
+-- If you need to undo this migration, create a new migration that reverses these changes:
+-- DROP TABLE IF EXISTS assignment_generation_runs;
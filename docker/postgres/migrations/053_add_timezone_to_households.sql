@@ -0,0 +1,21 @@
+-- Migration: 053_add_timezone_to_households
+-- Description: Add IANA timezone to households so "today", streaks and deadlines use the local calendar day
+-- Date: 2026-10-18
+-- Related Task: Per-household timezone support
+-- Author: Database Agent
+
+BEGIN;
+
+-- IANA timezone name (e.g. 'Europe/Oslo'); validated by the API.
+-- Existing households keep the previous behaviour (UTC) until an admin changes it.
+ALTER TABLE households ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('053', 'add_timezone_to_households', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- ALTER TABLE households DROP COLUMN IF EXISTS timezone;
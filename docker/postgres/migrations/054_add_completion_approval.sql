@@ -0,0 +1,76 @@
+-- Migration: 054_add_completion_approval
+-- Description: Optional parent approval of completed assignments (pending_review state)
+-- Date: 2026-10-18
+-- Related Task: Parent approval workflow for completed assignments
+-- Author: Database Agent
+
+BEGIN;
+
+-- Approval can be required per task or for the whole household
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE households ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Assignments waiting for a parent's review
+ALTER TABLE task_assignments DROP CONSTRAINT IF EXISTS task_assignments_status_check;
+ALTER TABLE task_assignments ADD CONSTRAINT task_assignments_status_check
+  CHECK (status IN ('pending', 'pending_review', 'completed', 'overdue', 'expired'));
+
+-- Review state of each completion; existing completions were credited immediately
+ALTER TABLE task_completions ADD COLUMN IF NOT EXISTS approval_status VARCHAR(20) NOT NULL DEFAULT 'approved';
+ALTER TABLE task_completions DROP CONSTRAINT IF EXISTS task_completions_approval_status_check;
+ALTER TABLE task_completions ADD CONSTRAINT task_completions_approval_status_check
+  CHECK (approval_status IN ('pending_review', 'approved', 'rejected'));
+ALTER TABLE task_completions ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE task_completions ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE task_completions ADD COLUMN IF NOT EXISTS review_comment TEXT;
+
+-- Review queue lookups
+CREATE INDEX IF NOT EXISTS idx_task_completions_pending_review
+ON task_completions(household_id, completed_at)
+WHERE approval_status = 'pending_review';
+
+-- Only approved completions count towards the points balance
+CREATE OR REPLACE VIEW child_points_balance AS
+SELECT
+  c.id as child_id,
+  c.household_id,
+  COALESCE(tc_agg.total_earned, 0) as points_earned,
+  COALESCE(rr_agg.total_spent, 0) as points_spent,
+  COALESCE(tc_agg.total_earned, 0) - COALESCE(rr_agg.total_spent, 0) as points_balance
+FROM children c
+LEFT JOIN (
+  -- Pre-aggregate approved task completions per child
+  SELECT child_id, SUM(points_earned) as total_earned
+  FROM task_completions
+  WHERE approval_status = 'approved'
+  GROUP BY child_id
+) tc_agg ON c.id = tc_agg.child_id
+LEFT JOIN (
+  -- Pre-aggregate non-rejected redemptions per child
+  SELECT child_id, SUM(points_spent) as total_spent
+  FROM reward_redemptions
+  WHERE status != 'rejected'
+  GROUP BY child_id
+) rr_agg ON c.id = rr_agg.child_id;
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('054', 'add_completion_approval', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- Recreate child_points_balance from migration 045 (without the approval_status filter), then:
+-- DROP INDEX IF EXISTS idx_task_completions_pending_review;
+-- ALTER TABLE task_completions DROP CONSTRAINT IF EXISTS task_completions_approval_status_check;
+-- ALTER TABLE task_completions DROP COLUMN IF EXISTS review_comment;
+-- ALTER TABLE task_completions DROP COLUMN IF EXISTS reviewed_at;
+-- ALTER TABLE task_completions DROP COLUMN IF EXISTS reviewed_by;
+-- ALTER TABLE task_completions DROP COLUMN IF EXISTS approval_status;
+-- UPDATE task_assignments SET status = 'pending' WHERE status = 'pending_review';
+-- ALTER TABLE task_assignments DROP CONSTRAINT IF EXISTS task_assignments_status_check;
+-- ALTER TABLE task_assignments ADD CONSTRAINT task_assignments_status_check
+--   CHECK (status IN ('pending', 'completed', 'overdue', 'expired'));
+-- ALTER TABLE households DROP COLUMN IF EXISTS requires_approval;
+-- ALTER TABLE tasks DROP COLUMN IF EXISTS requires_approval;
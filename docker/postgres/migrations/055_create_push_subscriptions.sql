@@ -0,0 +1,36 @@
+-- Migration: 055_create_push_subscriptions
+-- Description: Web Push subscriptions per user and reminder bookkeeping for assignments
+-- Date: 2026-10-18
+-- Related Task: Web Push notifications for task reminders
+-- Author: Database Agent
+
+BEGIN;
+
+-- One row per browser/device that accepted push notifications.
+-- The endpoint URL is unique per PushSubscription, so re-subscribing upserts.
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh VARCHAR(255) NOT NULL,
+  auth VARCHAR(255) NOT NULL,
+  user_agent VARCHAR(500),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+-- Set when the "task still to do" reminder was pushed, so each assignment is reminded once
+ALTER TABLE task_assignments ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMP WITH TIME ZONE;
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('055', 'create_push_subscriptions', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- ALTER TABLE task_assignments DROP COLUMN IF EXISTS reminder_sent_at;
+-- DROP TABLE IF EXISTS push_subscriptions;
@@ -0,0 +1,66 @@
+-- Migration: 056_enforce_row_level_security
+-- Description: Non-superuser role for household-scoped requests so the RLS policies are enforced
+-- Date: 2026-10-18
+-- Related Task: Enforce row-level security by setting app.current_household_id per request
+-- Author: Database Agent
+
+BEGIN;
+
+-- Superusers and table owners bypass RLS. The backend switches to this role
+-- (SET LOCAL ROLE st44_app) inside each household-scoped request transaction,
+-- together with SET LOCAL app.current_household_id.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'st44_app') THEN
+    CREATE ROLE st44_app NOLOGIN NOSUPERUSER NOBYPASSRLS;
+  END IF;
+END
+$$;
+
+-- The application's login role must be a member to switch to it
+GRANT st44_app TO CURRENT_USER;
+
+GRANT USAGE ON SCHEMA public TO st44_app;
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO st44_app;
+GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA public TO st44_app;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public
+  GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO st44_app;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public
+  GRANT USAGE, SELECT ON SEQUENCES TO st44_app;
+
+-- Single task tables were added after 018 without policies
+ALTER TABLE task_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_responses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS task_candidates_isolation ON task_candidates;
+CREATE POLICY task_candidates_isolation ON task_candidates
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+DROP POLICY IF EXISTS task_responses_isolation ON task_responses;
+CREATE POLICY task_responses_isolation ON task_responses
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Views run with their owner's privileges by default, which would bypass RLS
+ALTER VIEW child_points_balance SET (security_invoker = true);
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('056', 'enforce_row_level_security', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- ALTER VIEW child_points_balance RESET (security_invoker);
+-- DROP POLICY IF EXISTS task_responses_isolation ON task_responses;
+-- DROP POLICY IF EXISTS task_candidates_isolation ON task_candidates;
+-- ALTER TABLE task_responses DISABLE ROW LEVEL SECURITY;
+-- ALTER TABLE task_candidates DISABLE ROW LEVEL SECURITY;
+-- ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE ALL ON TABLES FROM st44_app;
+-- ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE ALL ON SEQUENCES FROM st44_app;
+-- REVOKE ALL ON ALL TABLES IN SCHEMA public FROM st44_app;
+-- REVOKE ALL ON ALL SEQUENCES IN SCHEMA public FROM st44_app;
+-- REVOKE USAGE ON SCHEMA public FROM st44_app;
+-- DROP ROLE IF EXISTS st44_app;
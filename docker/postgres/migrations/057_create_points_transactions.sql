@@ -0,0 +1,108 @@
+-- Migration: 057_create_points_transactions
+-- Description: Append-only points ledger with running balance, replacing the computed child_points_balance view
+-- Date: 2026-10-18
+-- Related Task: Points ledger table replacing the computed child_points_balance view
+-- Author: Database Agent
+
+BEGIN;
+
+-- One row per change to a child's points; balance_after is the running balance
+-- including this entry. Entries are never updated or deleted by the application.
+CREATE TABLE IF NOT EXISTS points_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('task_completion', 'redemption', 'refund', 'adjustment', 'bonus')),
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  balance_after INTEGER NOT NULL,
+  reason TEXT,
+  task_completion_id UUID REFERENCES task_completions(id) ON DELETE SET NULL,
+  reward_redemption_id UUID REFERENCES reward_redemptions(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp(),
+  -- Earnings are credits and redemptions debits; adjustments go either way
+  CONSTRAINT points_transactions_amount_sign CHECK (
+    (type IN ('task_completion', 'refund', 'bonus') AND amount > 0)
+    OR (type = 'redemption' AND amount < 0)
+    OR type = 'adjustment'
+  ),
+  CONSTRAINT points_transactions_manual_reason CHECK (
+    type NOT IN ('adjustment', 'bonus') OR (reason IS NOT NULL AND length(trim(reason)) > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_points_transactions_child_created ON points_transactions(child_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_points_transactions_household ON points_transactions(household_id);
+-- A completion is credited once; a redemption is charged and refunded at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_transactions_completion_unique ON points_transactions(task_completion_id) WHERE type = 'task_completion';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_transactions_redemption_unique ON points_transactions(reward_redemption_id, type) WHERE reward_redemption_id IS NOT NULL;
+
+ALTER TABLE points_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS points_transactions_isolation ON points_transactions;
+CREATE POLICY points_transactions_isolation ON points_transactions
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Append-only for the application role (the default privileges of 056 granted everything)
+GRANT SELECT, INSERT ON points_transactions TO st44_app;
+REVOKE UPDATE, DELETE ON points_transactions FROM st44_app;
+
+-- Backfill from the sources of the old view: approved completions, redemptions,
+-- and a refund for every rejected redemption
+INSERT INTO points_transactions
+  (household_id, child_id, type, amount, balance_after, task_completion_id, reward_redemption_id, created_at)
+SELECT
+  e.household_id,
+  e.child_id,
+  e.type,
+  e.amount,
+  SUM(e.amount) OVER (PARTITION BY e.child_id ORDER BY e.created_at, e.amount ROWS UNBOUNDED PRECEDING),
+  e.task_completion_id,
+  e.reward_redemption_id,
+  e.created_at
+FROM (
+  SELECT household_id, child_id, 'task_completion' AS type, points_earned AS amount,
+         id AS task_completion_id, NULL::UUID AS reward_redemption_id,
+         COALESCE(reviewed_at, completed_at) AS created_at
+  FROM task_completions
+  WHERE approval_status = 'approved' AND points_earned > 0
+  UNION ALL
+  SELECT household_id, child_id, 'redemption', -points_spent, NULL, id, redeemed_at
+  FROM reward_redemptions
+  WHERE points_spent > 0
+  UNION ALL
+  SELECT household_id, child_id, 'refund', points_spent, NULL, id, redeemed_at
+  FROM reward_redemptions
+  WHERE status = 'rejected' AND points_spent > 0
+) e
+WHERE NOT EXISTS (SELECT 1 FROM points_transactions);
+
+-- The balance view now sums the ledger; points_spent is everything deducted net of refunds
+CREATE OR REPLACE VIEW child_points_balance WITH (security_invoker = true) AS
+SELECT
+  c.id as child_id,
+  c.household_id,
+  COALESCE(pt_agg.total_earned, 0) as points_earned,
+  COALESCE(pt_agg.total_earned, 0) - COALESCE(pt_agg.balance, 0) as points_spent,
+  COALESCE(pt_agg.balance, 0) as points_balance
+FROM children c
+LEFT JOIN (
+  SELECT
+    child_id,
+    SUM(amount) FILTER (WHERE amount > 0 AND type <> 'refund') as total_earned,
+    SUM(amount) as balance
+  FROM points_transactions
+  GROUP BY child_id
+) pt_agg ON c.id = pt_agg.child_id;
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('057', 'create_points_transactions', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- Recreate child_points_balance from migration 054 (WITH (security_invoker = true)), then:
+-- DROP TABLE IF EXISTS points_transactions;
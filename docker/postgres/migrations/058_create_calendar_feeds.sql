@@ -0,0 +1,40 @@
+-- Migration: 058_create_calendar_feeds
+-- Description: Secret-token iCalendar feeds of assignments per household or per child
+-- Date: 2026-10-18
+-- Related Task: iCalendar feed of assignments per child and per household
+-- Author: Database Agent
+
+BEGIN;
+
+-- A feed covers the whole household (child_id NULL) or one child. Calendar apps
+-- cannot send a JWT, so the token in the feed URL is the only credential;
+-- revoking a feed sets revoked_at and the URL stops working.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID REFERENCES children(id) ON DELETE CASCADE,
+  token VARCHAR(255) NOT NULL UNIQUE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_accessed_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_household ON calendar_feeds(household_id);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS calendar_feeds_isolation ON calendar_feeds;
+CREATE POLICY calendar_feeds_isolation ON calendar_feeds
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('058', 'create_calendar_feeds', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP TABLE IF EXISTS calendar_feeds;
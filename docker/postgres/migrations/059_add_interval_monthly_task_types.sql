@@ -0,0 +1,29 @@
+-- Migration: 059_add_interval_monthly_task_types
+-- Description: Extend task rule_type with 'interval' (every N days/weeks) and 'monthly'
+-- Date: 2026-10-18
+-- Related Task: Interval and monthly recurrence rules for tasks
+-- Author: Database Agent
+
+BEGIN;
+
+-- Drop existing CHECK constraint
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_rule_type_check;
+
+-- Add new CHECK constraint with 'interval' and 'monthly' types
+-- Their settings live in rule_config (interval/intervalUnit/startDate,
+-- dayOfMonth or weekOfMonth + dayOfWeek), validated by the API
+ALTER TABLE tasks ADD CONSTRAINT tasks_rule_type_check
+  CHECK (rule_type IN ('daily', 'repeating', 'weekly_rotation', 'single', 'interval', 'monthly'));
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('059', 'add_interval_monthly_task_types', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- Remove or convert interval and monthly tasks first, then:
+-- ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_rule_type_check;
+-- ALTER TABLE tasks ADD CONSTRAINT tasks_rule_type_check
+--   CHECK (rule_type IN ('daily', 'repeating', 'weekly_rotation', 'single'));
@@ -0,0 +1,39 @@
+-- Migration: 060_create_task_rotation_cursors
+-- Description: Persisted round-robin cursor for weekly_rotation tasks
+-- Date: 2026-10-18
+-- Related Task: Fair round-robin rotation across N children
+-- Author: Database Agent
+
+BEGIN;
+
+-- One row per round-robin task: the child who had the last turn, their index in
+-- assignedChildren at the time, and the last date the rotation covered. The
+-- index lets the rotation continue in order after that child leaves the list.
+CREATE TABLE IF NOT EXISTS task_rotation_cursors (
+  task_id UUID PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID REFERENCES children(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL CHECK (position >= 0),
+  last_date DATE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_rotation_cursors_household ON task_rotation_cursors(household_id);
+
+ALTER TABLE task_rotation_cursors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS task_rotation_cursors_isolation ON task_rotation_cursors;
+CREATE POLICY task_rotation_cursors_isolation ON task_rotation_cursors
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('060', 'create_task_rotation_cursors', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP TABLE IF EXISTS task_rotation_cursors;
+-- Round-robin tasks then start over from the first child.
@@ -0,0 +1,72 @@
+-- Migration: 061_create_child_absences
+-- Description: Child away periods that assignment generation and analytics respect
+-- Date: 2026-10-18
+-- Related Task: Child availability / away periods
+-- Author: Database Agent
+
+BEGIN;
+
+-- An absence covers start_date..end_date. With repeat_every_weeks set, the same
+-- range repeats every N weeks (e.g. every other weekend) until repeat_until, or
+-- indefinitely. A repeating range must be shorter than its repeat interval.
+CREATE TABLE IF NOT EXISTS child_absences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  repeat_every_weeks INTEGER CHECK (repeat_every_weeks BETWEEN 1 AND 52),
+  repeat_until DATE,
+  reason VARCHAR(255),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT child_absences_range CHECK (end_date >= start_date),
+  CONSTRAINT child_absences_repeat CHECK (
+    repeat_every_weeks IS NULL OR end_date - start_date + 1 < repeat_every_weeks * 7
+  ),
+  CONSTRAINT child_absences_repeat_until CHECK (
+    repeat_until IS NULL OR (repeat_every_weeks IS NOT NULL AND repeat_until >= start_date)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_child_absences_child ON child_absences(child_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_child_absences_household ON child_absences(household_id);
+
+ALTER TABLE child_absences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS child_absences_isolation ON child_absences;
+CREATE POLICY child_absences_isolation ON child_absences
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Whether a child is away on a date; analytics use it to leave absent days out.
+-- Runs as the caller, so household isolation still applies.
+CREATE OR REPLACE FUNCTION child_absent_on(p_child_id UUID, p_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM child_absences a
+    WHERE a.child_id = p_child_id
+      AND p_date >= a.start_date
+      AND CASE
+        WHEN a.repeat_every_weeks IS NULL THEN p_date <= a.end_date
+        ELSE (p_date - a.start_date) % (a.repeat_every_weeks * 7) <= a.end_date - a.start_date
+          AND (
+            a.repeat_until IS NULL
+            OR p_date - (p_date - a.start_date) % (a.repeat_every_weeks * 7) <= a.repeat_until
+          )
+      END
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('061', 'create_child_absences', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP FUNCTION IF EXISTS child_absent_on(UUID, DATE);
+-- DROP TABLE IF EXISTS child_absences;
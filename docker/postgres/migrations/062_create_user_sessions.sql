@@ -0,0 +1,35 @@
+-- Migration: 062_create_user_sessions
+-- Description: Server-side refresh-token sessions with rotation and revocation
+-- Date: 2026-10-18
+-- Related Task: Session store with refresh-token rotation and real logout
+-- Author: Database Agent
+
+BEGIN;
+
+-- One row per sign-in (a refresh-token family). Every /refresh replaces
+-- token_hash with the hash of the newly issued token; a token whose hash no
+-- longer matches was already used, and presenting it revokes the session.
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash CHAR(64) NOT NULL,
+  user_agent VARCHAR(500),
+  ip_address VARCHAR(45),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason VARCHAR(20) CHECK (revoked_reason IN ('logout', 'revoked', 'reuse'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id, last_used_at DESC);
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('062', 'create_user_sessions', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP TABLE IF EXISTS user_sessions;
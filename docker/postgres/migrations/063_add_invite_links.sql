@@ -0,0 +1,57 @@
+-- Migration: 063_add_invite_links
+-- Description: Shareable invite links without email, and invitations for the child role
+-- Date: 2026-10-18
+-- Related Task: Invitations for child role and invite-by-link without email
+-- Author: Database Agent
+
+BEGIN;
+
+-- An invitation without invited_email is a link anyone holding the token can
+-- accept, up to max_uses times (NULL = unlimited) until it expires. Email
+-- invitations are single-use. A child invitation attaches the accepting user
+-- to an existing child profile, so it is always single-use.
+ALTER TABLE invitations ALTER COLUMN invited_email DROP NOT NULL;
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS child_id UUID REFERENCES children(id) ON DELETE CASCADE;
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS max_uses INTEGER DEFAULT 1 CHECK (max_uses > 0);
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS use_count INTEGER NOT NULL DEFAULT 0 CHECK (use_count >= 0);
+
+UPDATE invitations
+SET use_count = 1
+WHERE status = 'accepted';
+
+ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_role_check;
+ALTER TABLE invitations ADD CONSTRAINT invitations_role_check
+  CHECK (role IN ('admin', 'parent', 'child'));
+
+ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_child_check;
+ALTER TABLE invitations ADD CONSTRAINT invitations_child_check
+  CHECK ((role = 'child') = (child_id IS NOT NULL) AND (child_id IS NULL OR max_uses = 1));
+
+ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_uses_check;
+ALTER TABLE invitations ADD CONSTRAINT invitations_uses_check
+  CHECK (max_uses IS NULL OR use_count <= max_uses);
+
+ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_email_single_use_check;
+ALTER TABLE invitations ADD CONSTRAINT invitations_email_single_use_check
+  CHECK (invited_email IS NULL OR max_uses = 1);
+
+CREATE INDEX IF NOT EXISTS idx_invitations_child ON invitations(child_id) WHERE child_id IS NOT NULL;
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('063', 'add_invite_links', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DELETE FROM invitations WHERE invited_email IS NULL OR role = 'child';
+-- ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_email_single_use_check;
+-- ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_uses_check;
+-- ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_child_check;
+-- ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_role_check;
+-- ALTER TABLE invitations ADD CONSTRAINT invitations_role_check CHECK (role IN ('admin', 'parent'));
+-- ALTER TABLE invitations DROP COLUMN IF EXISTS use_count;
+-- ALTER TABLE invitations DROP COLUMN IF EXISTS max_uses;
+-- ALTER TABLE invitations DROP COLUMN IF EXISTS child_id;
+-- ALTER TABLE invitations ALTER COLUMN invited_email SET NOT NULL;
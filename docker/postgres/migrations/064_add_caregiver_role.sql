@@ -0,0 +1,36 @@
+-- Migration: 064_add_caregiver_role
+-- Description: Caregiver household role (babysitters, grandparents) with limited permissions
+-- Date: 2026-10-18
+-- Related Task: Limited "caregiver" role with scoped permissions
+-- Author: Database Agent
+
+BEGIN;
+
+-- Caregivers can view the household and complete assignments for the
+-- children, but not change tasks, rewards, points or membership. The
+-- permissions of each role live in the backend (ROLE_PERMISSIONS in
+-- authorization.service.ts); the database only knows the role names.
+ALTER TABLE household_members DROP CONSTRAINT IF EXISTS household_members_role_check;
+ALTER TABLE household_members ADD CONSTRAINT household_members_role_check
+  CHECK (role IN ('admin', 'parent', 'caregiver', 'child'));
+
+ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_role_check;
+ALTER TABLE invitations ADD CONSTRAINT invitations_role_check
+  CHECK (role IN ('admin', 'parent', 'caregiver', 'child'));
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('064', 'add_caregiver_role', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DELETE FROM invitations WHERE role = 'caregiver';
+-- DELETE FROM household_members WHERE role = 'caregiver';
+-- ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_role_check;
+-- ALTER TABLE invitations ADD CONSTRAINT invitations_role_check
+--   CHECK (role IN ('admin', 'parent', 'child'));
+-- ALTER TABLE household_members DROP CONSTRAINT IF EXISTS household_members_role_check;
+-- ALTER TABLE household_members ADD CONSTRAINT household_members_role_check
+--   CHECK (role IN ('admin', 'parent', 'child'));
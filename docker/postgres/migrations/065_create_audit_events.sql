@@ -0,0 +1,46 @@
+-- Migration: 065_create_audit_events
+-- Description: Append-only audit log of changes made in a household
+-- Date: 2026-10-18
+-- Related Task: Audit log of household changes
+-- Author: Database Agent
+
+BEGIN;
+
+-- One row per mutating household action, written in the same transaction as
+-- the change. before/after hold the affected entity as returned by the API
+-- (NULL for creations and deletions respectively).
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  actor_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  action VARCHAR(64) NOT NULL,
+  entity_type VARCHAR(32) NOT NULL,
+  entity_id UUID,
+  before JSONB,
+  after JSONB,
+  request_id VARCHAR(128),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_household ON audit_events(household_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(household_id, entity_type, entity_id);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS audit_events_isolation ON audit_events;
+CREATE POLICY audit_events_isolation ON audit_events
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- The audit log is append-only for the application role
+REVOKE UPDATE, DELETE ON audit_events FROM st44_app;
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('065', 'create_audit_events', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP TABLE IF EXISTS audit_events;
@@ -0,0 +1,44 @@
+-- Migration: 066_create_task_templates
+-- Description: Household task templates saved from existing tasks
+-- Date: 2026-10-18
+-- Related Task: Task templates library with household presets
+-- Author: Database Agent
+
+BEGIN;
+
+-- Built-in templates live in the backend; this table only holds the ones a
+-- household saved itself. rule_config never carries assignedChildren or a
+-- startDate, those are filled in when a task is created from the template.
+CREATE TABLE IF NOT EXISTS task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  points INTEGER NOT NULL DEFAULT 10,
+  rule_type VARCHAR(50) NOT NULL CHECK (rule_type IN ('weekly_rotation', 'repeating', 'daily', 'single', 'interval', 'monthly')),
+  rule_config JSONB,
+  min_age INTEGER CHECK (min_age BETWEEN 0 AND 18),
+  max_age INTEGER CHECK (max_age BETWEEN 0 AND 18),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT task_templates_age_range CHECK (min_age IS NULL OR max_age IS NULL OR max_age >= min_age)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_household ON task_templates(household_id, name);
+
+ALTER TABLE task_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS task_templates_isolation ON task_templates;
+CREATE POLICY task_templates_isolation ON task_templates
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('066', 'create_task_templates', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP TABLE IF EXISTS task_templates;
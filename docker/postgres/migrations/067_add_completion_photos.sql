@@ -0,0 +1,36 @@
+-- Migration: 067_add_completion_photos
+-- Description: Optional photo proof for task completions
+-- Date: 2026-10-18
+-- Related Task: Task photo proof on completion
+-- Author: Database Agent
+
+BEGIN;
+
+-- Children must upload a photo to complete these tasks
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS requires_photo BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The photo itself lives in photo storage under photo_key; the key is cleared
+-- and photo_purged_at set once the retention period has passed
+ALTER TABLE task_completions ADD COLUMN IF NOT EXISTS photo_key VARCHAR(255);
+ALTER TABLE task_completions ADD COLUMN IF NOT EXISTS photo_content_type VARCHAR(50);
+ALTER TABLE task_completions ADD COLUMN IF NOT EXISTS photo_purged_at TIMESTAMP WITH TIME ZONE;
+
+-- Purge job lookups
+CREATE INDEX IF NOT EXISTS idx_task_completions_photo
+ON task_completions(completed_at)
+WHERE photo_key IS NOT NULL;
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('067', 'add_completion_photos', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- Stored photo files are not removed by the rollback; delete the storage directory or bucket.
+-- DROP INDEX IF EXISTS idx_task_completions_photo;
+-- ALTER TABLE task_completions DROP COLUMN IF EXISTS photo_purged_at;
+-- ALTER TABLE task_completions DROP COLUMN IF EXISTS photo_content_type;
+-- ALTER TABLE task_completions DROP COLUMN IF EXISTS photo_key;
+-- ALTER TABLE tasks DROP COLUMN IF EXISTS requires_photo;
@@ -0,0 +1,39 @@
+-- Migration: 068_create_assignment_comments
+-- Description: Comment threads on task assignments
+-- Date: 2026-10-18
+-- Related Task: Comments and notes thread on assignments
+-- Author: Database Agent
+
+BEGIN;
+
+-- Instructions from parents and notes from children, oldest first per
+-- assignment. author_role is the author's household role when they wrote it.
+CREATE TABLE IF NOT EXISTS assignment_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  task_assignment_id UUID NOT NULL REFERENCES task_assignments(id) ON DELETE CASCADE,
+  author_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  author_role VARCHAR(20) NOT NULL CHECK (author_role IN ('admin', 'parent', 'caregiver', 'child')),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_comments_assignment
+  ON assignment_comments(task_assignment_id, created_at);
+
+ALTER TABLE assignment_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS assignment_comments_isolation ON assignment_comments;
+CREATE POLICY assignment_comments_isolation ON assignment_comments
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('068', 'create_assignment_comments', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP TABLE IF EXISTS assignment_comments;
@@ -0,0 +1,38 @@
+-- Migration: 069_add_task_checklists
+-- Description: Ordered checklists on tasks and ticked items on assignments
+-- Date: 2026-10-18
+-- Related Task: Subtasks / checklists inside a task
+-- Author: Database Agent
+
+BEGIN;
+
+-- Ordered checklist items: [{"id": "...", "label": "..."}]
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS checklist JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Award points in proportion to the ticked items instead of all or nothing
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS partial_points BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Ids of the checklist items ticked on this assignment
+ALTER TABLE task_assignments ADD COLUMN IF NOT EXISTS checked_items JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_checklist_array;
+ALTER TABLE tasks ADD CONSTRAINT tasks_checklist_array
+CHECK (jsonb_typeof(checklist) = 'array');
+
+ALTER TABLE task_assignments DROP CONSTRAINT IF EXISTS task_assignments_checked_items_array;
+ALTER TABLE task_assignments ADD CONSTRAINT task_assignments_checked_items_array
+CHECK (jsonb_typeof(checked_items) = 'array');
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('069', 'add_task_checklists', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- ALTER TABLE task_assignments DROP CONSTRAINT IF EXISTS task_assignments_checked_items_array;
+-- ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_checklist_array;
+-- ALTER TABLE task_assignments DROP COLUMN IF EXISTS checked_items;
+-- ALTER TABLE tasks DROP COLUMN IF EXISTS partial_points;
+-- ALTER TABLE tasks DROP COLUMN IF EXISTS checklist;
@@ -0,0 +1,43 @@
+-- Migration: 070_add_late_completion_policy
+-- Description: Per-household policy for completing overdue assignments
+-- Date: 2026-10-18
+-- Related Task: Overdue transition job and late-completion policy
+-- Author: Database Agent
+
+BEGIN;
+
+-- 'full' keeps the previous behaviour: late completions earn all points
+ALTER TABLE households ADD COLUMN IF NOT EXISTS late_completion_policy VARCHAR(20) NOT NULL DEFAULT 'full';
+ALTER TABLE households ADD COLUMN IF NOT EXISTS late_points_percent INTEGER NOT NULL DEFAULT 50;
+
+ALTER TABLE households DROP CONSTRAINT IF EXISTS households_late_completion_policy_check;
+ALTER TABLE households ADD CONSTRAINT households_late_completion_policy_check
+  CHECK (late_completion_policy IN ('full', 'reduced', 'locked'));
+
+ALTER TABLE households DROP CONSTRAINT IF EXISTS households_late_points_percent_check;
+ALTER TABLE households ADD CONSTRAINT households_late_points_percent_check
+  CHECK (late_points_percent BETWEEN 0 AND 100);
+
+-- Set when an assignment is completed after it became overdue
+ALTER TABLE task_assignments ADD COLUMN IF NOT EXISTS completed_late BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The overdue sweep only looks at pending assignments
+CREATE INDEX IF NOT EXISTS idx_task_assignments_pending_date
+ON task_assignments(date)
+WHERE status = 'pending';
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('070', 'add_late_completion_policy', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- UPDATE task_assignments SET status = 'pending' WHERE status = 'overdue';
+-- DROP INDEX IF EXISTS idx_task_assignments_pending_date;
+-- ALTER TABLE task_assignments DROP COLUMN IF EXISTS completed_late;
+-- ALTER TABLE households DROP CONSTRAINT IF EXISTS households_late_points_percent_check;
+-- ALTER TABLE households DROP CONSTRAINT IF EXISTS households_late_completion_policy_check;
+-- ALTER TABLE households DROP COLUMN IF EXISTS late_points_percent;
+-- ALTER TABLE households DROP COLUMN IF EXISTS late_completion_policy;
@@ -0,0 +1,92 @@
+-- Migration: 071_create_achievements
+-- Description: Achievement definitions and the unlocks children earned
+-- Date: 2026-10-18
+-- Related Task: Persisted, data-driven achievements engine with unlock events
+-- Author: Database Agent
+
+BEGIN;
+
+-- Built-in achievements have no household and a code; their name and
+-- description come from the achievements.<code> keys in the backend locales.
+-- Household achievements carry their own name instead.
+CREATE TABLE IF NOT EXISTS achievements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID REFERENCES households(id) ON DELETE CASCADE,
+  code VARCHAR(50) UNIQUE,
+  name VARCHAR(100),
+  description TEXT,
+  icon VARCHAR(16) NOT NULL,
+  type VARCHAR(30) NOT NULL CHECK (type IN ('tasks_completed', 'points_earned', 'streak', 'task_completions')),
+  threshold INTEGER NOT NULL CHECK (threshold > 0),
+  task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT achievements_builtin_or_household CHECK (
+    (household_id IS NULL AND code IS NOT NULL)
+    OR (household_id IS NOT NULL AND code IS NULL AND name IS NOT NULL)
+  ),
+  CONSTRAINT achievements_task_type CHECK ((type = 'task_completions') = (task_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_achievements_household ON achievements(household_id, name);
+
+-- One unlock per child and achievement; seen_at is set once the child has
+-- been shown the unlock
+CREATE TABLE IF NOT EXISTS achievement_unlocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  achievement_id UUID NOT NULL REFERENCES achievements(id) ON DELETE CASCADE,
+  task_completion_id UUID REFERENCES task_completions(id) ON DELETE SET NULL,
+  unlocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp(),
+  seen_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT achievement_unlocks_unique UNIQUE (child_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_achievement_unlocks_unseen
+ON achievement_unlocks(child_id, unlocked_at)
+WHERE seen_at IS NULL;
+
+-- The built-in set that used to be hard-coded in routes/stats.ts
+INSERT INTO achievements (code, icon, type, threshold, sort_order) VALUES
+  ('first_task', '🌟', 'tasks_completed', 1, 10),
+  ('task_master_10', '⭐', 'tasks_completed', 10, 20),
+  ('task_champion_50', '🏆', 'tasks_completed', 50, 30),
+  ('task_legend_100', '👑', 'tasks_completed', 100, 40),
+  ('point_collector_100', '💎', 'points_earned', 100, 50),
+  ('point_hoarder_500', '💰', 'points_earned', 500, 60),
+  ('streak_3', '🔥', 'streak', 3, 70),
+  ('streak_7', '💪', 'streak', 7, 80),
+  ('streak_30', '🎯', 'streak', 30, 90)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE achievement_unlocks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS achievements_isolation ON achievements;
+CREATE POLICY achievements_isolation ON achievements
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Every household sees the built-in achievements but cannot change them
+DROP POLICY IF EXISTS achievements_builtin_read ON achievements;
+CREATE POLICY achievements_builtin_read ON achievements
+FOR SELECT
+USING (household_id IS NULL);
+
+DROP POLICY IF EXISTS achievement_unlocks_isolation ON achievement_unlocks;
+CREATE POLICY achievement_unlocks_isolation ON achievement_unlocks
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('071', 'create_achievements', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP TABLE IF EXISTS achievement_unlocks;
+-- DROP TABLE IF EXISTS achievements;
@@ -0,0 +1,47 @@
+-- Migration: 072_create_savings_goals
+-- Description: Rewards children pin as savings goals, with earmarked points
+-- Date: 2026-10-18
+-- Related Task: Savings goals and wishlist for children's rewards
+-- Author: Database Agent
+
+BEGIN;
+
+-- Earmarked points stay in the points ledger; they are only kept back from
+-- other rewards. affordable_notified_at is set once the parents have been told
+-- the goal is within reach, and cleared if it drops out of reach again.
+CREATE TABLE IF NOT EXISTS savings_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  reward_id UUID NOT NULL REFERENCES rewards(id) ON DELETE CASCADE,
+  earmarked_points INTEGER NOT NULL DEFAULT 0 CHECK (earmarked_points >= 0),
+  affordable_notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT savings_goals_unique UNIQUE (child_id, reward_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_goals_reward ON savings_goals(reward_id);
+
+DROP TRIGGER IF EXISTS update_savings_goals_updated_at ON savings_goals;
+CREATE TRIGGER update_savings_goals_updated_at
+BEFORE UPDATE ON savings_goals
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS savings_goals_isolation ON savings_goals;
+CREATE POLICY savings_goals_isolation ON savings_goals
+FOR ALL
+USING (household_id = current_setting('app.current_household_id', TRUE)::UUID);
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('072', 'create_savings_goals', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP TABLE IF EXISTS savings_goals;
@@ -0,0 +1,68 @@
+-- Migration: 073_add_reward_rules
+-- Description: Per-child redemption limits, availability windows and restocking for rewards
+-- Date: 2026-10-18
+-- Related Task: Recurring and time-limited rewards with per-child redemption limits
+-- Author: Database Agent
+
+BEGIN;
+
+-- At most redemption_limit redemptions per child in each day, week or month
+ALTER TABLE rewards ADD COLUMN IF NOT EXISTS redemption_limit INTEGER;
+ALTER TABLE rewards ADD COLUMN IF NOT EXISTS redemption_limit_period VARCHAR(10);
+
+-- Inclusive dates in the household's timezone, and days of the week (0 = Sunday)
+ALTER TABLE rewards ADD COLUMN IF NOT EXISTS available_from DATE;
+ALTER TABLE rewards ADD COLUMN IF NOT EXISTS available_until DATE;
+ALTER TABLE rewards ADD COLUMN IF NOT EXISTS available_days SMALLINT[];
+
+-- quantity is reset to restock_quantity at the start of each period;
+-- restocked_on is the start of the period it was last reset for
+ALTER TABLE rewards ADD COLUMN IF NOT EXISTS restock_quantity INTEGER;
+ALTER TABLE rewards ADD COLUMN IF NOT EXISTS restock_period VARCHAR(10);
+ALTER TABLE rewards ADD COLUMN IF NOT EXISTS restocked_on DATE;
+
+ALTER TABLE rewards DROP CONSTRAINT IF EXISTS rewards_redemption_limit_check;
+ALTER TABLE rewards ADD CONSTRAINT rewards_redemption_limit_check CHECK (
+  (redemption_limit IS NULL AND redemption_limit_period IS NULL)
+  OR (redemption_limit > 0 AND redemption_limit_period IN ('day', 'week', 'month'))
+);
+
+ALTER TABLE rewards DROP CONSTRAINT IF EXISTS rewards_available_window_check;
+ALTER TABLE rewards ADD CONSTRAINT rewards_available_window_check
+  CHECK (available_from IS NULL OR available_until IS NULL OR available_from <= available_until);
+
+ALTER TABLE rewards DROP CONSTRAINT IF EXISTS rewards_available_days_check;
+ALTER TABLE rewards ADD CONSTRAINT rewards_available_days_check
+  CHECK (available_days IS NULL OR available_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]);
+
+ALTER TABLE rewards DROP CONSTRAINT IF EXISTS rewards_restock_check;
+ALTER TABLE rewards ADD CONSTRAINT rewards_restock_check CHECK (
+  (restock_quantity IS NULL AND restock_period IS NULL)
+  OR (restock_quantity > 0 AND restock_period IN ('day', 'week', 'month'))
+);
+
+-- Redemption limits count a child's redemptions of a reward in the period
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_reward_child
+ON reward_redemptions(reward_id, child_id, redeemed_at);
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('073', 'add_reward_rules', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP INDEX IF EXISTS idx_reward_redemptions_reward_child;
+-- ALTER TABLE rewards DROP CONSTRAINT IF EXISTS rewards_restock_check;
+-- ALTER TABLE rewards DROP CONSTRAINT IF EXISTS rewards_available_days_check;
+-- ALTER TABLE rewards DROP CONSTRAINT IF EXISTS rewards_available_window_check;
+-- ALTER TABLE rewards DROP CONSTRAINT IF EXISTS rewards_redemption_limit_check;
+-- ALTER TABLE rewards DROP COLUMN IF EXISTS restocked_on;
+-- ALTER TABLE rewards DROP COLUMN IF EXISTS restock_period;
+-- ALTER TABLE rewards DROP COLUMN IF EXISTS restock_quantity;
+-- ALTER TABLE rewards DROP COLUMN IF EXISTS available_days;
+-- ALTER TABLE rewards DROP COLUMN IF EXISTS available_until;
+-- ALTER TABLE rewards DROP COLUMN IF EXISTS available_from;
+-- ALTER TABLE rewards DROP COLUMN IF EXISTS redemption_limit_period;
+-- ALTER TABLE rewards DROP COLUMN IF EXISTS redemption_limit;
@@ -0,0 +1,43 @@
+-- Migration: 074_create_photo_objects
+-- Description: Track uploaded completion photos independently of task_completions
+-- Date: 2026-10-18
+-- Related Task: Task photo proof on completion
+-- Author: Database Agent
+
+BEGIN;
+
+-- One row per object put into photo storage, written before the upload and
+-- outside the completion's transaction. Without a foreign key it outlives
+-- rolled back completions and cascade deletes, so the purge job finds every
+-- object it has to delete.
+CREATE TABLE IF NOT EXISTS photo_objects (
+  key VARCHAR(255) PRIMARY KEY,
+  uploaded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_photo_objects_uploaded_at ON photo_objects(uploaded_at);
+
+-- Photos stored before this migration
+INSERT INTO photo_objects (key, uploaded_at)
+SELECT photo_key, COALESCE(completed_at, NOW())
+FROM task_completions
+WHERE photo_key IS NOT NULL
+ON CONFLICT (key) DO NOTHING;
+
+-- The purge job now clears completions by key
+DROP INDEX IF EXISTS idx_task_completions_photo;
+CREATE INDEX IF NOT EXISTS idx_task_completions_photo_key
+ON task_completions(photo_key)
+WHERE photo_key IS NOT NULL;
+
+-- Record migration
+INSERT INTO schema_migrations (version, name, applied_at)
+VALUES ('074', 'create_photo_objects', NOW())
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- ROLLBACK NOTES
+-- DROP INDEX IF EXISTS idx_task_completions_photo_key;
+-- CREATE INDEX IF NOT EXISTS idx_task_completions_photo ON task_completions(completed_at) WHERE photo_key IS NOT NULL;
+-- DROP TABLE IF EXISTS photo_objects;
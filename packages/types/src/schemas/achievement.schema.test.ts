@@ -0,0 +1,65 @@
+/**
+ * Achievement Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { AchievementSchema, CreateAchievementRequestSchema } from './achievement.schema.js';
+
+const taskId = '123e4567-e89b-12d3-a456-426614174002';
+
+describe('AchievementSchema', () => {
+  it('accepts a built-in achievement with a slug id', () => {
+    expect(() =>
+      AchievementSchema.parse({
+        id: 'streak_7',
+        source: 'builtin',
+        name: 'Week Warrior',
+        description: 'Complete all tasks for 7 days in a row',
+        icon: '💪',
+        type: 'streak',
+        threshold: 7,
+        taskId: null,
+      }),
+    ).not.toThrow();
+  });
+});
+
+describe('CreateAchievementRequestSchema', () => {
+  it('accepts a task achievement', () => {
+    const result = CreateAchievementRequestSchema.parse({
+      name: '  Dog walker ',
+      type: 'task_completions',
+      threshold: 20,
+      taskId,
+    });
+
+    expect(result.name).toBe('Dog walker');
+    expect(result.icon).toBe('🏅');
+  });
+
+  it('requires a task for task_completions achievements', () => {
+    expect(() =>
+      CreateAchievementRequestSchema.parse({
+        name: 'Dog walker',
+        type: 'task_completions',
+        threshold: 20,
+      }),
+    ).toThrow();
+  });
+
+  it('rejects a task for the other types', () => {
+    expect(() =>
+      CreateAchievementRequestSchema.parse({
+        name: 'Busy bee',
+        type: 'tasks_completed',
+        threshold: 20,
+        taskId,
+      }),
+    ).toThrow();
+  });
+
+  it('rejects a threshold below one', () => {
+    expect(() =>
+      CreateAchievementRequestSchema.parse({ name: 'Nothing', type: 'streak', threshold: 0 }),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Achievement Schema - Milestones children unlock by completing tasks
+ */
+import { z } from '../generators/openapi.generator.js';
+
+/**
+ * Where an achievement comes from: the built-in set or a household's own
+ */
+export const AchievementSourceSchema = z.enum(['builtin', 'household']);
+
+export type AchievementSource = z.infer<typeof AchievementSourceSchema>;
+
+/**
+ * What an achievement counts
+ * - tasks_completed: approved completions of any task
+ * - points_earned: points from approved completions
+ * - streak: days in a row with every assignment completed
+ * - task_completions: approved completions of one task (taskId)
+ */
+export const AchievementTypeSchema = z.enum([
+  'tasks_completed',
+  'points_earned',
+  'streak',
+  'task_completions',
+]);
+
+export type AchievementType = z.infer<typeof AchievementTypeSchema>;
+
+/**
+ * Achievement
+ * Built-in achievements have a slug id and text in the caller's language;
+ * household achievements have a uuid.
+ */
+export const AchievementSchema = z.object({
+  id: z.string().min(1),
+  source: AchievementSourceSchema,
+  name: z.string(),
+  description: z.string(),
+  icon: z.string(),
+  type: AchievementTypeSchema,
+  threshold: z.number().int().positive(),
+  taskId: z.string().uuid().nullable(),
+});
+
+export type Achievement = z.infer<typeof AchievementSchema>;
+
+/**
+ * An achievement a child has unlocked
+ */
+export const AchievementUnlockSchema = AchievementSchema.extend({
+  unlockedAt: z.string().datetime(),
+});
+
+export type AchievementUnlock = z.infer<typeof AchievementUnlockSchema>;
+
+/**
+ * Request Schemas
+ */
+
+/**
+ * Create Achievement Request
+ * task_completions achievements count one task of the household, the other
+ * types must not name a task
+ */
+export const CreateAchievementRequestSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(500).optional(),
+    icon: z.string().trim().min(1).max(16).default('🏅'),
+    type: AchievementTypeSchema,
+    threshold: z.number().int().min(1).max(10000),
+    taskId: z.string().uuid().optional(),
+  })
+  .refine((data) => (data.type === 'task_completions') === (data.taskId !== undefined), {
+    message: 'taskId is required for task_completions achievements and only allowed for them',
+    path: ['taskId'],
+  });
+
+export type CreateAchievementRequest = z.infer<typeof CreateAchievementRequestSchema>;
+
+/**
+ * Response Schemas
+ */
+
+/**
+ * Achievement List Response
+ * Built-in achievements first, then the household's own by name
+ */
+export const AchievementListResponseSchema = z.object({
+  achievements: z.array(AchievementSchema),
+});
+
+export type AchievementListResponse = z.infer<typeof AchievementListResponseSchema>;
+
+/**
+ * New Achievement Unlocks Response
+ * Unlocks the child has not been shown yet, oldest first
+ */
+export const NewAchievementUnlocksResponseSchema = z.object({
+  childId: z.string().uuid().nullable(),
+  unlocks: z.array(AchievementUnlockSchema),
+});
+
+export type NewAchievementUnlocksResponse = z.infer<typeof NewAchievementUnlocksResponseSchema>;
@@ -0,0 +1,21 @@
+/**
+ * Assignment Comment Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { CreateAssignmentCommentRequestSchema } from './assignment-comment.schema.js';
+
+describe('CreateAssignmentCommentRequestSchema', () => {
+  it('trims the comment', () => {
+    const result = CreateAssignmentCommentRequestSchema.parse({ body: '  Use the blue bucket \n' });
+
+    expect(result.body).toBe('Use the blue bucket');
+  });
+
+  it('rejects an empty comment', () => {
+    expect(() => CreateAssignmentCommentRequestSchema.parse({ body: '   ' })).toThrow();
+  });
+
+  it('rejects a comment over 1000 characters', () => {
+    expect(() => CreateAssignmentCommentRequestSchema.parse({ body: 'a'.repeat(1001) })).toThrow();
+  });
+});
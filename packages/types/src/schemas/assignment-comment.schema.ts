@@ -0,0 +1,60 @@
+/**
+ * Assignment Comment Schema - notes and instructions on a task assignment
+ */
+import { z } from '../generators/openapi.generator.js';
+
+/**
+ * Household role of the comment's author when it was written
+ */
+export const AssignmentCommentAuthorRoleSchema = z.enum(['admin', 'parent', 'caregiver', 'child']);
+
+export type AssignmentCommentAuthorRole = z.infer<typeof AssignmentCommentAuthorRoleSchema>;
+
+/**
+ * Comment text: plain text, shown as-is (no markup or links)
+ */
+export const AssignmentCommentBodySchema = z.string().trim().min(1).max(1000);
+
+/**
+ * Assignment Comment Schema
+ * authorName is the child's profile name or the adult's first name; email
+ * addresses are never shown in a thread children can read.
+ */
+export const AssignmentCommentSchema = z.object({
+  id: z.string().uuid(),
+  assignmentId: z.string().uuid(),
+  authorUserId: z.string().uuid().nullable(),
+  authorRole: AssignmentCommentAuthorRoleSchema,
+  authorName: z.string().nullable(),
+  body: z.string(),
+  createdAt: z.string().datetime(),
+});
+
+export type AssignmentComment = z.infer<typeof AssignmentCommentSchema>;
+
+/**
+ * Request Schemas
+ */
+
+/**
+ * Create Assignment Comment Request
+ */
+export const CreateAssignmentCommentRequestSchema = z.object({
+  body: AssignmentCommentBodySchema,
+});
+
+export type CreateAssignmentCommentRequest = z.infer<typeof CreateAssignmentCommentRequestSchema>;
+
+/**
+ * Response Schemas
+ */
+
+/**
+ * Assignment Comment List Response
+ * Oldest first
+ */
+export const AssignmentCommentListResponseSchema = z.object({
+  comments: z.array(AssignmentCommentSchema),
+});
+
+export type AssignmentCommentListResponse = z.infer<typeof AssignmentCommentListResponseSchema>;
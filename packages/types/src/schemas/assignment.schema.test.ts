@@ -7,7 +7,10 @@ import {
   AssignmentStatusSchema,
   AssignmentFiltersSchema,
   CompleteAssignmentRequestSchema,
+  CompletionPhotoContentTypeSchema,
   ReassignTaskRequestSchema,
+  ReviewDecisionRequestSchema,
+  UpdateAssignmentChecklistRequestSchema,
 } from './assignment.schema.js';
 
 describe('AssignmentSchema', () => {
@@ -155,6 +158,39 @@ describe('CompleteAssignmentRequestSchema', () => {
     const validRequest = {};
     expect(() => CompleteAssignmentRequestSchema.parse(validRequest)).not.toThrow();
   });
+
+  it('accepts a note for the comment thread', () => {
+    const result = CompleteAssignmentRequestSchema.parse({ note: ' All done! ' });
+    expect(result.note).toBe('All done!');
+  });
+});
+
+describe('UpdateAssignmentChecklistRequestSchema', () => {
+  it('requires an item id and a checked flag', () => {
+    expect(
+      UpdateAssignmentChecklistRequestSchema.safeParse({ itemId: 'wipe', checked: true }).success,
+    ).toBe(true);
+    expect(UpdateAssignmentChecklistRequestSchema.safeParse({ itemId: 'wipe' }).success).toBe(
+      false,
+    );
+    expect(
+      UpdateAssignmentChecklistRequestSchema.safeParse({ itemId: '', checked: true }).success,
+    ).toBe(false);
+  });
+});
+
+describe('CompletionPhotoContentTypeSchema', () => {
+  it('accepts JPEG, PNG and WebP', () => {
+    expect(CompletionPhotoContentTypeSchema.options).toEqual([
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+    ]);
+  });
+
+  it('rejects other image types', () => {
+    expect(() => CompletionPhotoContentTypeSchema.parse('image/gif')).toThrow();
+  });
 });
 
 describe('ReassignTaskRequestSchema', () => {
@@ -176,6 +212,27 @@ describe('ReassignTaskRequestSchema', () => {
 describe('AssignmentStatusSchema', () => {
   it('validates valid status values', () => {
     expect(() => AssignmentStatusSchema.parse('pending')).not.toThrow();
+    expect(() => AssignmentStatusSchema.parse('pending_review')).not.toThrow();
     expect(() => AssignmentStatusSchema.parse('completed')).not.toThrow();
+    expect(() => AssignmentStatusSchema.parse('overdue')).not.toThrow();
+  });
+
+  it('rejects statuses only kept in the database', () => {
+    expect(() => AssignmentStatusSchema.parse('expired')).toThrow();
+  });
+});
+
+describe('ReviewDecisionRequestSchema', () => {
+  it('accepts an empty decision', () => {
+    expect(() => ReviewDecisionRequestSchema.parse({})).not.toThrow();
+  });
+
+  it('trims the comment', () => {
+    const parsed = ReviewDecisionRequestSchema.parse({ comment: '  Please redo the dishes  ' });
+    expect(parsed.comment).toBe('Please redo the dishes');
+  });
+
+  it('rejects comments over 500 characters', () => {
+    expect(() => ReviewDecisionRequestSchema.parse({ comment: 'a'.repeat(501) })).toThrow();
   });
 });
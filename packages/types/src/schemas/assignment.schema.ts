@@ -2,15 +2,28 @@
  * Assignment Schema - Task assignments to children
  */
 import { z } from '../generators/openapi.generator.js';
-import { TaskRuleTypeSchema } from './task.schema.js';
+import { TaskRuleTypeSchema, ChecklistItemSchema } from './task.schema.js';
+import { AssignmentCommentBodySchema } from './assignment-comment.schema.js';
 
 /**
  * Assignment Status
+ * 'pending_review' means a child marked it done and a parent has to approve it;
+ * 'overdue' means the day passed while it was still pending
  */
-export const AssignmentStatusSchema = z.enum(['pending', 'completed']);
+export const AssignmentStatusSchema = z.enum(['pending', 'pending_review', 'completed', 'overdue']);
 
 export type AssignmentStatus = z.infer<typeof AssignmentStatusSchema>;
 
+/**
+ * Assignment Checklist Item
+ * A step of the task's checklist and whether it is ticked on this assignment
+ */
+export const AssignmentChecklistItemSchema = ChecklistItemSchema.extend({
+  checked: z.boolean(),
+});
+
+export type AssignmentChecklistItem = z.infer<typeof AssignmentChecklistItemSchema>;
+
 /**
  * Base Assignment Schema
  * Represents a task assignment to a child on a specific date
@@ -27,6 +40,8 @@ export const AssignmentSchema = z.object({
   status: AssignmentStatusSchema,
   completedAt: z.string().datetime().nullable(),
   createdAt: z.string().datetime(),
+  commentCount: z.number().int().nonnegative().optional(),
+  checklist: z.array(AssignmentChecklistItemSchema).optional(),
 });
 
 /**
@@ -54,14 +69,50 @@ export type AssignmentFilters = z.infer<typeof AssignmentFiltersSchema>;
 
 /**
  * Complete Assignment Request
- * Used when marking an assignment as complete
+ * Used when marking an assignment as complete; a note is added to the
+ * assignment's comment thread
  */
 export const CompleteAssignmentRequestSchema = z.object({
   completedAt: z.string().datetime().optional(),
+  note: AssignmentCommentBodySchema.optional(),
 });
 
 export type CompleteAssignmentRequest = z.infer<typeof CompleteAssignmentRequestSchema>;
 
+/**
+ * Update Assignment Checklist Request
+ * Ticks or unticks one checklist item
+ */
+export const UpdateAssignmentChecklistRequestSchema = z.object({
+  itemId: z.string().min(1).max(64),
+  checked: z.boolean(),
+});
+
+export type UpdateAssignmentChecklistRequest = z.infer<
+  typeof UpdateAssignmentChecklistRequestSchema
+>;
+
+/**
+ * Assignment Checklist Response
+ * The checklist of an assignment after an update
+ */
+export const AssignmentChecklistResponseSchema = z.object({
+  assignmentId: z.string().uuid(),
+  checklist: z.array(AssignmentChecklistItemSchema),
+  checkedCount: z.number().int().nonnegative(),
+  totalCount: z.number().int().nonnegative(),
+});
+
+export type AssignmentChecklistResponse = z.infer<typeof AssignmentChecklistResponseSchema>;
+
+/**
+ * Completion Photo Content Type
+ * Image formats accepted as photo proof (sent as the raw request body)
+ */
+export const CompletionPhotoContentTypeSchema = z.enum(['image/jpeg', 'image/png', 'image/webp']);
+
+export type CompletionPhotoContentType = z.infer<typeof CompletionPhotoContentTypeSchema>;
+
 /**
  * Reassign Task Request
  * Used when reassigning a task to a different child
@@ -93,3 +144,56 @@ export const AssignmentWithPointsSchema = AssignmentSchema.extend({
 });
 
 export type AssignmentWithPoints = z.infer<typeof AssignmentWithPointsSchema>;
+
+/**
+ * Completion Approval Status
+ * Only approved completions count towards a child's points balance
+ */
+export const CompletionApprovalStatusSchema = z.enum(['pending_review', 'approved', 'rejected']);
+
+export type CompletionApprovalStatus = z.infer<typeof CompletionApprovalStatusSchema>;
+
+/**
+ * Review Queue Item
+ * A child's completion waiting for a parent to approve or reject it
+ */
+export const ReviewQueueItemSchema = z.object({
+  assignmentId: z.string().uuid(),
+  completionId: z.string().uuid(),
+  taskId: z.string().uuid(),
+  taskName: z.string(),
+  childId: z.string().uuid(),
+  childName: z.string(),
+  date: z.string().date(),
+  points: z.number().int().nonnegative(),
+  completedAt: z.string().datetime(),
+  /** Whether a photo proof can be fetched for this completion */
+  hasPhoto: z.boolean(),
+});
+
+export type ReviewQueueItem = z.infer<typeof ReviewQueueItemSchema>;
+
+/**
+ * Review Decision Request
+ * Used when a parent approves or rejects a completion
+ */
+export const ReviewDecisionRequestSchema = z.object({
+  comment: z.string().trim().max(500).optional(),
+});
+
+export type ReviewDecisionRequest = z.infer<typeof ReviewDecisionRequestSchema>;
+
+/**
+ * Review Decision Response
+ * Result of approving or rejecting a completion
+ */
+export const ReviewDecisionResponseSchema = z.object({
+  assignmentId: z.string().uuid(),
+  completionId: z.string().uuid(),
+  assignmentStatus: AssignmentStatusSchema,
+  approvalStatus: CompletionApprovalStatusSchema,
+  reviewComment: z.string().nullable(),
+  reviewedAt: z.string().datetime(),
+});
+
+export type ReviewDecisionResponse = z.infer<typeof ReviewDecisionResponseSchema>;
@@ -0,0 +1,39 @@
+/**
+ * Audit Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { ListAuditEventsQuerySchema } from './audit.schema.js';
+
+describe('ListAuditEventsQuerySchema', () => {
+  it('applies the pagination defaults', () => {
+    const result = ListAuditEventsQuerySchema.parse({});
+
+    expect(result).toEqual({ page: 1, pageSize: 20, sortOrder: 'desc' });
+  });
+
+  it('coerces query string pagination', () => {
+    const result = ListAuditEventsQuerySchema.parse({ page: '3', pageSize: '50' });
+
+    expect(result.page).toBe(3);
+    expect(result.pageSize).toBe(50);
+  });
+
+  it('accepts filters', () => {
+    expect(() =>
+      ListAuditEventsQuerySchema.parse({
+        action: 'assignment.reassigned',
+        entityType: 'assignment',
+        from: '2026-10-01T00:00:00.000Z',
+        to: '2026-10-18T23:59:59.999Z',
+      }),
+    ).not.toThrow();
+  });
+
+  it('rejects an unknown action', () => {
+    expect(() => ListAuditEventsQuerySchema.parse({ action: 'task.exploded' })).toThrow();
+  });
+
+  it('rejects a page size over 100', () => {
+    expect(() => ListAuditEventsQuerySchema.parse({ pageSize: '500' })).toThrow();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Audit Schema - log of changes made in a household
+ */
+import { z } from '../generators/openapi.generator.js';
+import { PaginationQuerySchema, PaginationMetaSchema } from './pagination.schema.js';
+
+/**
+ * Kinds of household entities that audit events refer to
+ */
+export const AuditEntityTypeSchema = z.enum([
+  'household',
+  'member',
+  'invitation',
+  'child',
+  'absence',
+  'task',
+  'task_template',
+  'assignment',
+  'reward',
+  'redemption',
+  'savings_goal',
+  'points',
+  'achievement',
+  'calendar_feed',
+]);
+
+export type AuditEntityType = z.infer<typeof AuditEntityTypeSchema>;
+
+/**
+ * Audited actions, named `<entity type>.<what happened>`
+ */
+export const AuditActionSchema = z.enum([
+  'household.updated',
+  'household.imported',
+  'member.joined',
+  'member.left',
+  'invitation.created',
+  'invitation.cancelled',
+  'child.created',
+  'child.updated',
+  'child.deleted',
+  'child.account_created',
+  'absence.created',
+  'absence.updated',
+  'absence.deleted',
+  'task.created',
+  'task.updated',
+  'task.deleted',
+  'task.declined',
+  'task.decline_undone',
+  'task_template.created',
+  'task_template.deleted',
+  'assignment.created',
+  'assignment.generated',
+  'assignment.reassigned',
+  'assignment.completed',
+  'assignment.approved',
+  'assignment.rejected',
+  'assignment.checklist_updated',
+  'assignment.commented',
+  'reward.created',
+  'reward.updated',
+  'reward.deleted',
+  'redemption.created',
+  'redemption.approved',
+  'redemption.fulfilled',
+  'redemption.rejected',
+  'savings_goal.created',
+  'savings_goal.updated',
+  'savings_goal.deleted',
+  'points.adjusted',
+  'achievement.created',
+  'achievement.deleted',
+  'calendar_feed.created',
+  'calendar_feed.revoked',
+]);
+
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+
+/**
+ * Audit Event Schema
+ * before/after hold the entity as the API returned it; before is null for
+ * creations and after is null for deletions.
+ */
+export const AuditEventSchema = z.object({
+  id: z.string().uuid(),
+  householdId: z.string().uuid(),
+  actorUserId: z.string().uuid().nullable(),
+  actorName: z.string().nullable(),
+  action: AuditActionSchema,
+  entityType: AuditEntityTypeSchema,
+  entityId: z.string().uuid().nullable(),
+  before: z.record(z.string(), z.unknown()).nullable(),
+  after: z.record(z.string(), z.unknown()).nullable(),
+  requestId: z.string().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export type AuditEvent = z.infer<typeof AuditEventSchema>;
+
+/**
+ * Request Schemas
+ */
+
+/**
+ * List Audit Events Query
+ * Newest first unless sortOrder is asc; from/to bound createdAt (inclusive)
+ */
+export const ListAuditEventsQuerySchema = PaginationQuerySchema.omit({ sortBy: true }).extend({
+  action: AuditActionSchema.optional(),
+  entityType: AuditEntityTypeSchema.optional(),
+  entityId: z.string().uuid().optional(),
+  actorUserId: z.string().uuid().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+export type ListAuditEventsQuery = z.infer<typeof ListAuditEventsQuerySchema>;
+
+/**
+ * Response Schemas
+ */
+
+/**
+ * Audit Event List Response
+ */
+export const AuditEventListResponseSchema = z.object({
+  events: z.array(AuditEventSchema),
+  pagination: PaginationMetaSchema,
+});
+
+export type AuditEventListResponse = z.infer<typeof AuditEventListResponseSchema>;
@@ -0,0 +1,40 @@
+/**
+ * Calendar Feed Schema - secret-token iCalendar (.ics) subscriptions
+ */
+import { z } from '../generators/openapi.generator.js';
+
+/**
+ * Calendar Feed Schema
+ * A subscription URL for the whole household (childId null) or one child
+ */
+export const CalendarFeedSchema = z.object({
+  id: z.string().uuid(),
+  householdId: z.string().uuid(),
+  childId: z.string().uuid().nullable(),
+  childName: z.string().nullable(),
+  url: z.string().url(),
+  createdAt: z.string().datetime(),
+  lastAccessedAt: z.string().datetime().nullable(),
+});
+
+export type CalendarFeed = z.infer<typeof CalendarFeedSchema>;
+
+/**
+ * Create Calendar Feed Request
+ * Omit childId for a feed of the whole household
+ */
+export const CreateCalendarFeedRequestSchema = z.object({
+  childId: z.string().uuid().nullable().optional(),
+});
+
+export type CreateCalendarFeedRequest = z.infer<typeof CreateCalendarFeedRequestSchema>;
+
+/**
+ * Calendar Feed List Response
+ * Active (not revoked) feeds of a household
+ */
+export const CalendarFeedListResponseSchema = z.object({
+  feeds: z.array(CalendarFeedSchema),
+});
+
+export type CalendarFeedListResponse = z.infer<typeof CalendarFeedListResponseSchema>;
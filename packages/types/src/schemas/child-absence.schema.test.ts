@@ -0,0 +1,62 @@
+/**
+ * Child Absence Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  CreateChildAbsenceRequestSchema,
+  UpdateChildAbsenceRequestSchema,
+} from './child-absence.schema.js';
+
+describe('CreateChildAbsenceRequestSchema', () => {
+  it('accepts a one-off absence', () => {
+    const result = CreateChildAbsenceRequestSchema.parse({
+      startDate: '2026-10-19',
+      endDate: '2026-10-25',
+      reason: 'Summer camp',
+    });
+
+    expect(result.repeatEveryWeeks).toBeUndefined();
+  });
+
+  it('accepts every other weekend', () => {
+    expect(() =>
+      CreateChildAbsenceRequestSchema.parse({
+        startDate: '2026-10-23',
+        endDate: '2026-10-25',
+        repeatEveryWeeks: 2,
+      }),
+    ).not.toThrow();
+  });
+
+  it('rejects an end before the start', () => {
+    expect(() =>
+      CreateChildAbsenceRequestSchema.parse({ startDate: '2026-10-25', endDate: '2026-10-19' }),
+    ).toThrow();
+  });
+
+  it('rejects a repeating range as long as its interval', () => {
+    expect(() =>
+      CreateChildAbsenceRequestSchema.parse({
+        startDate: '2026-10-19',
+        endDate: '2026-10-25',
+        repeatEveryWeeks: 1,
+      }),
+    ).toThrow();
+  });
+
+  it('requires repeatEveryWeeks for repeatUntil', () => {
+    expect(() =>
+      CreateChildAbsenceRequestSchema.parse({
+        startDate: '2026-10-19',
+        endDate: '2026-10-20',
+        repeatUntil: '2026-12-31',
+      }),
+    ).toThrow();
+  });
+});
+
+describe('UpdateChildAbsenceRequestSchema', () => {
+  it('accepts a partial update', () => {
+    expect(UpdateChildAbsenceRequestSchema.parse({ reason: null })).toEqual({ reason: null });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Child Absence Schema - away periods that assignment generation respects
+ */
+import { z } from '../generators/openapi.generator.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Child Absence Schema
+ * An away period from startDate to endDate (inclusive). With repeatEveryWeeks
+ * set, the same range repeats every N weeks until repeatUntil, or indefinitely.
+ */
+export const ChildAbsenceSchema = z.object({
+  id: z.string().uuid(),
+  householdId: z.string().uuid(),
+  childId: z.string().uuid(),
+  startDate: z.string().date(),
+  endDate: z.string().date(),
+  repeatEveryWeeks: z.number().int().nullable(),
+  repeatUntil: z.string().date().nullable(),
+  reason: z.string().nullable(),
+  createdBy: z.string().uuid().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type ChildAbsence = z.infer<typeof ChildAbsenceSchema>;
+
+/**
+ * Request Schemas
+ */
+
+const ChildAbsenceFieldsSchema = z.object({
+  startDate: z.string().date(),
+  endDate: z.string().date(),
+  repeatEveryWeeks: z.number().int().min(1).max(52).nullable().optional(),
+  repeatUntil: z.string().date().nullable().optional(),
+  reason: z.string().trim().max(255).nullable().optional(),
+});
+
+/**
+ * Create Child Absence Request
+ * e.g. every other weekend: a Friday-Sunday range with repeatEveryWeeks 2
+ */
+export const CreateChildAbsenceRequestSchema = ChildAbsenceFieldsSchema.superRefine(
+  (absence, ctx) => {
+    if (absence.endDate < absence.startDate) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'endDate must be on or after startDate',
+        path: ['endDate'],
+      });
+      return;
+    }
+
+    if (!absence.repeatEveryWeeks) {
+      if (absence.repeatUntil) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'repeatUntil requires repeatEveryWeeks',
+          path: ['repeatUntil'],
+        });
+      }
+      return;
+    }
+
+    const rangeDays = (Date.parse(absence.endDate) - Date.parse(absence.startDate)) / DAY_MS + 1;
+    if (rangeDays >= absence.repeatEveryWeeks * 7) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'A repeating absence must be shorter than its repeat interval',
+        path: ['endDate'],
+      });
+    }
+
+    if (absence.repeatUntil && absence.repeatUntil < absence.startDate) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'repeatUntil must be on or after startDate',
+        path: ['repeatUntil'],
+      });
+    }
+  },
+);
+
+export type CreateChildAbsenceRequest = z.infer<typeof CreateChildAbsenceRequestSchema>;
+
+/**
+ * Update Child Absence Request
+ * Fields left out keep their value; the result is checked like a new absence
+ */
+export const UpdateChildAbsenceRequestSchema = ChildAbsenceFieldsSchema.partial();
+
+export type UpdateChildAbsenceRequest = z.infer<typeof UpdateChildAbsenceRequestSchema>;
+
+/**
+ * List Child Absences Query
+ * Without dates, absences that have not ended yet
+ */
+export const ListChildAbsencesQuerySchema = z.object({
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+});
+
+export type ListChildAbsencesQuery = z.infer<typeof ListChildAbsencesQuerySchema>;
+
+/**
+ * Response Schemas
+ */
+
+/**
+ * Child Absence List Response
+ */
+export const ChildAbsenceListResponseSchema = z.object({
+  absences: z.array(ChildAbsenceSchema),
+});
+
+export type ChildAbsenceListResponse = z.infer<typeof ChildAbsenceListResponseSchema>;
@@ -0,0 +1,84 @@
+/**
+ * Household Archive Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { HouseholdArchiveSchema } from './household-archive.schema.js';
+
+const childId = '123e4567-e89b-12d3-a456-426614174001';
+const taskId = '123e4567-e89b-12d3-a456-426614174002';
+const assignmentId = '123e4567-e89b-12d3-a456-426614174003';
+
+function createArchive() {
+  return {
+    version: 1,
+    exportedAt: '2026-10-18T09:00:00.000Z',
+    household: { name: 'The Hansens', timezone: 'Europe/Oslo', requiresApproval: false },
+    members: [
+      {
+        email: 'kari@example.com',
+        displayName: 'Kari',
+        role: 'admin',
+        joinedAt: '2026-01-01T00:00:00.000Z',
+      },
+    ],
+    children: [{ id: childId, name: 'Emma', birthYear: 2015 }],
+    tasks: [
+      {
+        id: taskId,
+        name: 'Feed the cat',
+        description: null,
+        points: 5,
+        ruleType: 'weekly_rotation',
+        ruleConfig: { rotationType: 'round_robin', assignedChildren: [childId] },
+        deadline: null,
+        active: true,
+        requiresApproval: false,
+        createdAt: '2026-01-01T00:00:00.000Z',
+      },
+    ],
+    assignments: [
+      {
+        id: assignmentId,
+        taskId,
+        childId,
+        date: '2026-10-17',
+        status: 'overdue',
+        createdAt: '2026-10-17T00:00:00.000Z',
+      },
+    ],
+    completions: [],
+    rewards: [],
+    redemptions: [],
+    pointsTransactions: [],
+  };
+}
+
+describe('HouseholdArchiveSchema', () => {
+  it('accepts an exported archive', () => {
+    expect(() => HouseholdArchiveSchema.parse(createArchive())).not.toThrow();
+  });
+
+  it('rejects another archive version', () => {
+    expect(() => HouseholdArchiveSchema.parse({ ...createArchive(), version: 2 })).toThrow();
+  });
+
+  it('rejects a missing section', () => {
+    const { tasks: _tasks, ...archive } = createArchive();
+
+    expect(() => HouseholdArchiveSchema.parse(archive)).toThrow();
+  });
+
+  it('validates task rule configs', () => {
+    const archive = createArchive();
+    archive.tasks[0].ruleConfig = { rotationType: 'round_robin', assignedChildren: ['emma'] };
+
+    expect(() => HouseholdArchiveSchema.parse(archive)).toThrow();
+  });
+
+  it('rejects an invalid timezone', () => {
+    const archive = createArchive();
+    archive.household.timezone = 'Mars/Olympus';
+
+    expect(() => HouseholdArchiveSchema.parse(archive)).toThrow();
+  });
+});
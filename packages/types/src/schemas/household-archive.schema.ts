@@ -0,0 +1,221 @@
+/**
+ * Household Archive Schema - JSON export and import of a household
+ */
+import { z } from '../generators/openapi.generator.js';
+import {
+  TimezoneSchema,
+  HouseholdSchema,
+  LateCompletionPolicySchema,
+  LatePointsPercentSchema,
+} from './household.schema.js';
+import { ChildSchema } from './child.schema.js';
+import { TaskSchema } from './task.schema.js';
+import { AssignmentStatusSchema, CompletionApprovalStatusSchema } from './assignment.schema.js';
+import { RewardSchema, RewardRedemptionSchema } from './reward.schema.js';
+import { PointsTransactionSchema } from './points.schema.js';
+
+/**
+ * Archive format version, bumped whenever the shape below changes
+ */
+export const HOUSEHOLD_ARCHIVE_VERSION = 1;
+
+/**
+ * Archived member; users are referenced by email so an archive can be
+ * imported in another environment
+ */
+export const ArchiveMemberSchema = z.object({
+  email: z.string().email(),
+  displayName: z.string().nullable(),
+  role: z.enum(['admin', 'parent', 'caregiver', 'child']),
+  joinedAt: z.string().datetime().nullable(),
+});
+
+export type ArchiveMember = z.infer<typeof ArchiveMemberSchema>;
+
+/**
+ * Archived child profile (without login accounts or QR tokens)
+ */
+export const ArchiveChildSchema = ChildSchema.pick({ id: true, name: true, birthYear: true });
+
+export type ArchiveChild = z.infer<typeof ArchiveChildSchema>;
+
+/**
+ * Archived task with its rule config; child ids in assignedChildren refer to
+ * children in the same archive
+ */
+export const ArchiveTaskSchema = TaskSchema.pick({
+  id: true,
+  name: true,
+  description: true,
+  points: true,
+  ruleType: true,
+  ruleConfig: true,
+  deadline: true,
+  active: true,
+  requiresApproval: true,
+  requiresPhoto: true,
+  checklist: true,
+  partialPoints: true,
+  createdAt: true,
+});
+
+export type ArchiveTask = z.infer<typeof ArchiveTaskSchema>;
+
+/**
+ * Archived assignment; the database also keeps expired ones
+ */
+export const ArchiveAssignmentSchema = z.object({
+  id: z.string().uuid(),
+  taskId: z.string().uuid(),
+  childId: z.string().uuid().nullable(),
+  date: z.string().date(),
+  status: z.enum([...AssignmentStatusSchema.options, 'expired']),
+  // Completed after the assignment became overdue
+  completedLate: z.boolean().optional(),
+  // Ids of the ticked checklist items of the task
+  checkedItems: z.array(z.string()).optional(),
+  createdAt: z.string().datetime(),
+});
+
+export type ArchiveAssignment = z.infer<typeof ArchiveAssignmentSchema>;
+
+/**
+ * Archived completion; reviewedBy is the reviewer's email
+ */
+export const ArchiveCompletionSchema = z.object({
+  id: z.string().uuid(),
+  assignmentId: z.string().uuid(),
+  childId: z.string().uuid(),
+  completedAt: z.string().datetime(),
+  pointsEarned: z.number().int(),
+  approvalStatus: CompletionApprovalStatusSchema,
+  reviewedBy: z.string().email().nullable(),
+  reviewedAt: z.string().datetime().nullable(),
+  reviewComment: z.string().nullable(),
+});
+
+export type ArchiveCompletion = z.infer<typeof ArchiveCompletionSchema>;
+
+export const ArchiveRewardSchema = RewardSchema.pick({
+  id: true,
+  name: true,
+  description: true,
+  pointsCost: true,
+  quantity: true,
+  active: true,
+  redemptionLimit: true,
+  availableFrom: true,
+  availableUntil: true,
+  availableDays: true,
+  restock: true,
+}).partial({
+  // Missing from archives exported before rewards had them
+  redemptionLimit: true,
+  availableFrom: true,
+  availableUntil: true,
+  availableDays: true,
+  restock: true,
+});
+
+export type ArchiveReward = z.infer<typeof ArchiveRewardSchema>;
+
+export const ArchiveRedemptionSchema = RewardRedemptionSchema.pick({
+  id: true,
+  rewardId: true,
+  childId: true,
+  pointsSpent: true,
+  status: true,
+  redeemedAt: true,
+  fulfilledAt: true,
+});
+
+export type ArchiveRedemption = z.infer<typeof ArchiveRedemptionSchema>;
+
+/**
+ * Archived points ledger entry, kept so balances survive the move
+ */
+export const ArchivePointsTransactionSchema = PointsTransactionSchema.pick({
+  id: true,
+  childId: true,
+  type: true,
+  amount: true,
+  balanceAfter: true,
+  reason: true,
+  taskCompletionId: true,
+  rewardRedemptionId: true,
+  createdAt: true,
+});
+
+export type ArchivePointsTransaction = z.infer<typeof ArchivePointsTransactionSchema>;
+
+/**
+ * Household Archive
+ * Produced by the export endpoint and accepted as-is by the import endpoint
+ */
+export const HouseholdArchiveSchema = z.object({
+  version: z.literal(HOUSEHOLD_ARCHIVE_VERSION),
+  exportedAt: z.string().datetime(),
+  household: z.object({
+    name: HouseholdSchema.shape.name,
+    timezone: TimezoneSchema,
+    requiresApproval: z.boolean(),
+    lateCompletionPolicy: LateCompletionPolicySchema.optional(),
+    latePointsPercent: LatePointsPercentSchema.optional(),
+  }),
+  members: z.array(ArchiveMemberSchema),
+  children: z.array(ArchiveChildSchema),
+  tasks: z.array(ArchiveTaskSchema),
+  assignments: z.array(ArchiveAssignmentSchema),
+  completions: z.array(ArchiveCompletionSchema),
+  rewards: z.array(ArchiveRewardSchema),
+  redemptions: z.array(ArchiveRedemptionSchema),
+  pointsTransactions: z.array(ArchivePointsTransactionSchema),
+});
+
+export type HouseholdArchive = z.infer<typeof HouseholdArchiveSchema>;
+
+/**
+ * Response Schemas
+ */
+
+/**
+ * A record that was skipped or changed on import
+ * id is the id in the archive (the email for members)
+ */
+export const ArchiveImportConflictSchema = z.object({
+  section: z.enum([
+    'members',
+    'children',
+    'tasks',
+    'assignments',
+    'completions',
+    'rewards',
+    'redemptions',
+    'pointsTransactions',
+  ]),
+  id: z.string(),
+  reason: z.string(),
+});
+
+export type ArchiveImportConflict = z.infer<typeof ArchiveImportConflictSchema>;
+
+/**
+ * Import Household Response
+ * The new household, how many records of each kind were created and what
+ * could not be imported as-is
+ */
+export const ImportHouseholdResponseSchema = z.object({
+  household: HouseholdSchema,
+  imported: z.object({
+    children: z.number().int().nonnegative(),
+    tasks: z.number().int().nonnegative(),
+    assignments: z.number().int().nonnegative(),
+    completions: z.number().int().nonnegative(),
+    rewards: z.number().int().nonnegative(),
+    redemptions: z.number().int().nonnegative(),
+    pointsTransactions: z.number().int().nonnegative(),
+  }),
+  conflicts: z.array(ArchiveImportConflictSchema),
+});
+
+export type ImportHouseholdResponse = z.infer<typeof ImportHouseholdResponseSchema>;
@@ -0,0 +1,62 @@
+/**
+ * Household Event Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { HouseholdEventSchema } from './household-event.schema.js';
+
+const householdId = '550e8400-e29b-41d4-a716-446655440000';
+const assignmentId = '550e8400-e29b-41d4-a716-446655440001';
+const taskId = '550e8400-e29b-41d4-a716-446655440002';
+const childId = '550e8400-e29b-41d4-a716-446655440003';
+
+describe('HouseholdEventSchema', () => {
+  it('validates an assignment completed event', () => {
+    const event = HouseholdEventSchema.parse({
+      type: 'assignment.completed',
+      householdId,
+      occurredAt: '2026-10-18T08:00:00.000Z',
+      data: {
+        assignmentId,
+        taskId,
+        childId,
+        status: 'pending_review',
+        completedAt: '2026-10-18T08:00:00.000Z',
+      },
+    });
+
+    expect(event.type).toBe('assignment.completed');
+  });
+
+  it('validates a redemption status change', () => {
+    expect(() =>
+      HouseholdEventSchema.parse({
+        type: 'redemption.status_changed',
+        householdId,
+        occurredAt: '2026-10-18T08:00:00.000Z',
+        data: { redemptionId: assignmentId, rewardId: taskId, childId, status: 'approved' },
+      }),
+    ).not.toThrow();
+  });
+
+  it('checks the data against the event type', () => {
+    expect(() =>
+      HouseholdEventSchema.parse({
+        type: 'assignment.reassigned',
+        householdId,
+        occurredAt: '2026-10-18T08:00:00.000Z',
+        data: { assignmentId, taskId, childId, date: '2026-10-18' },
+      }),
+    ).toThrow();
+  });
+
+  it('rejects unknown event types', () => {
+    expect(() =>
+      HouseholdEventSchema.parse({
+        type: 'task.deleted',
+        householdId,
+        occurredAt: '2026-10-18T08:00:00.000Z',
+        data: { taskId },
+      }),
+    ).toThrow();
+  });
+});
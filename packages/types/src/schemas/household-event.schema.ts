@@ -0,0 +1,118 @@
+/**
+ * Household Event Schema - real-time updates pushed to household members
+ *
+ * Events are sent over GET /api/households/:householdId/events (Server-Sent
+ * Events) once the change is committed. They carry ids and the fields that
+ * changed, so clients can patch the state they already loaded.
+ */
+import { z } from '../generators/openapi.generator.js';
+import { AssignmentStatusSchema } from './assignment.schema.js';
+import { RewardRedemptionStatusSchema } from './reward.schema.js';
+
+const HouseholdEventBaseSchema = z.object({
+  householdId: z.string().uuid(),
+  occurredAt: z.string().datetime(),
+});
+
+/**
+ * Assignment Created Event
+ * A parent assigned a task by hand (accepting a single task is its own event)
+ */
+export const AssignmentCreatedEventSchema = HouseholdEventBaseSchema.extend({
+  type: z.literal('assignment.created'),
+  data: z.object({
+    assignmentId: z.string().uuid(),
+    taskId: z.string().uuid(),
+    childId: z.string().uuid().nullable(),
+    date: z.string().date(),
+  }),
+});
+
+/**
+ * Assignment Completed Event
+ * Also sent for completions waiting for review (status pending_review) and
+ * when a parent approves one
+ */
+export const AssignmentCompletedEventSchema = HouseholdEventBaseSchema.extend({
+  type: z.literal('assignment.completed'),
+  data: z.object({
+    assignmentId: z.string().uuid(),
+    taskId: z.string().uuid(),
+    childId: z.string().uuid().nullable(),
+    status: AssignmentStatusSchema,
+    completedAt: z.string().datetime(),
+  }),
+});
+
+/**
+ * Assignment Reassigned Event
+ */
+export const AssignmentReassignedEventSchema = HouseholdEventBaseSchema.extend({
+  type: z.literal('assignment.reassigned'),
+  data: z.object({
+    assignmentId: z.string().uuid(),
+    previousChildId: z.string().uuid().nullable(),
+    childId: z.string().uuid(),
+    childName: z.string(),
+  }),
+});
+
+/**
+ * Single Task Accepted Event
+ * The task is no longer available to the other candidates
+ */
+export const SingleTaskAcceptedEventSchema = HouseholdEventBaseSchema.extend({
+  type: z.literal('single_task.accepted'),
+  data: z.object({
+    taskId: z.string().uuid(),
+    childId: z.string().uuid(),
+    assignmentId: z.string().uuid(),
+  }),
+});
+
+/**
+ * Single Task Declined Event
+ */
+export const SingleTaskDeclinedEventSchema = HouseholdEventBaseSchema.extend({
+  type: z.literal('single_task.declined'),
+  data: z.object({
+    taskId: z.string().uuid(),
+    childId: z.string().uuid(),
+  }),
+});
+
+/**
+ * Redemption Status Changed Event
+ * Sent when a child redeems a reward (pending) and when a parent approves,
+ * fulfills or rejects the redemption
+ */
+export const RedemptionStatusChangedEventSchema = HouseholdEventBaseSchema.extend({
+  type: z.literal('redemption.status_changed'),
+  data: z.object({
+    redemptionId: z.string().uuid(),
+    rewardId: z.string().uuid(),
+    childId: z.string().uuid(),
+    status: RewardRedemptionStatusSchema,
+  }),
+});
+
+/**
+ * Household Event
+ */
+export const HouseholdEventSchema = z.discriminatedUnion('type', [
+  AssignmentCreatedEventSchema,
+  AssignmentCompletedEventSchema,
+  AssignmentReassignedEventSchema,
+  SingleTaskAcceptedEventSchema,
+  SingleTaskDeclinedEventSchema,
+  RedemptionStatusChangedEventSchema,
+]);
+
+export type HouseholdEvent = z.infer<typeof HouseholdEventSchema>;
+
+export type HouseholdEventType = HouseholdEvent['type'];
+
+/**
+ * Household event of one type
+ */
+export type HouseholdEventOf<T extends HouseholdEventType> = Extract<HouseholdEvent, { type: T }>;
@@ -7,6 +7,7 @@ import {
   CreateHouseholdRequestSchema,
   UpdateHouseholdRequestSchema,
   InvitationSchema,
+  CreateInvitationRequestSchema,
 } from './household.schema.js';
 
 describe('HouseholdSchema', () => {
@@ -62,6 +63,14 @@ describe('CreateHouseholdRequestSchema', () => {
 
     expect(() => CreateHouseholdRequestSchema.parse(invalidRequest)).toThrow();
   });
+
+  it('accepts an optional timezone', () => {
+    const parsed = CreateHouseholdRequestSchema.parse({
+      name: 'My Family',
+      timezone: 'Europe/Oslo',
+    });
+    expect(parsed.timezone).toBe('Europe/Oslo');
+  });
 });
 
 describe('UpdateHouseholdRequestSchema', () => {
@@ -72,6 +81,40 @@ describe('UpdateHouseholdRequestSchema', () => {
 
     expect(() => UpdateHouseholdRequestSchema.parse(validRequest)).not.toThrow();
   });
+
+  it('accepts a timezone-only update', () => {
+    const parsed = UpdateHouseholdRequestSchema.parse({ timezone: 'Europe/Oslo' });
+    expect(parsed.timezone).toBe('Europe/Oslo');
+    expect(parsed.name).toBeUndefined();
+  });
+
+  it('rejects invalid timezones', () => {
+    expect(() => UpdateHouseholdRequestSchema.parse({ timezone: 'Europe/Atlantis' })).toThrow();
+  });
+
+  it('accepts an approval-only update', () => {
+    const parsed = UpdateHouseholdRequestSchema.parse({ requiresApproval: true });
+    expect(parsed.requiresApproval).toBe(true);
+  });
+
+  it('accepts a late completion policy update', () => {
+    const parsed = UpdateHouseholdRequestSchema.parse({
+      lateCompletionPolicy: 'reduced',
+      latePointsPercent: 50,
+    });
+    expect(parsed.lateCompletionPolicy).toBe('reduced');
+    expect(parsed.latePointsPercent).toBe(50);
+  });
+
+  it('rejects unknown policies and out-of-range percentages', () => {
+    expect(() => UpdateHouseholdRequestSchema.parse({ lateCompletionPolicy: 'never' })).toThrow();
+    expect(() => UpdateHouseholdRequestSchema.parse({ latePointsPercent: 101 })).toThrow();
+    expect(() => UpdateHouseholdRequestSchema.parse({ latePointsPercent: 12.5 })).toThrow();
+  });
+
+  it('rejects an empty update', () => {
+    expect(() => UpdateHouseholdRequestSchema.parse({})).toThrow();
+  });
 });
 
 describe('InvitationSchema', () => {
@@ -103,3 +146,47 @@ describe('InvitationSchema', () => {
     expect(() => InvitationSchema.parse(invalidInvitation)).toThrow();
   });
 });
+
+describe('CreateInvitationRequestSchema', () => {
+  it('accepts an email invitation', () => {
+    const result = CreateInvitationRequestSchema.parse({ email: 'invited@example.com' });
+
+    expect(result.role).toBe('parent');
+    expect(result.expiresInDays).toBe(7);
+  });
+
+  it('accepts a link without email', () => {
+    const result = CreateInvitationRequestSchema.parse({ role: 'parent', maxUses: 5 });
+
+    expect(result.email).toBeUndefined();
+    expect(result.maxUses).toBe(5);
+  });
+
+  it('accepts the caregiver role', () => {
+    expect(CreateInvitationRequestSchema.parse({ role: 'caregiver' }).role).toBe('caregiver');
+  });
+
+  it('requires childId for the child role', () => {
+    expect(() => CreateInvitationRequestSchema.parse({ role: 'child' })).toThrow();
+    expect(() =>
+      CreateInvitationRequestSchema.parse({
+        role: 'child',
+        childId: '123e4567-e89b-12d3-a456-426614174000',
+      }),
+    ).not.toThrow();
+  });
+
+  it('rejects childId for other roles', () => {
+    expect(() =>
+      CreateInvitationRequestSchema.parse({
+        role: 'parent',
+        childId: '123e4567-e89b-12d3-a456-426614174000',
+      }),
+    ).toThrow();
+  });
+
+  it('rejects out-of-range limits', () => {
+    expect(() => CreateInvitationRequestSchema.parse({ maxUses: 0 })).toThrow();
+    expect(() => CreateInvitationRequestSchema.parse({ expiresInDays: 31 })).toThrow();
+  });
+});
@@ -3,6 +3,41 @@
  */
 import { z } from '../generators/openapi.generator.js';
 
+/**
+ * IANA timezone name (e.g. "Europe/Oslo")
+ * Determines the household's local calendar day for assignments, streaks and deadlines
+ */
+export const TimezoneSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .refine(
+    (val) => {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: val });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Must be a valid IANA timezone (e.g. Europe/Oslo)' },
+  );
+
+/**
+ * Late Completion Policy
+ * What happens when a child completes an overdue assignment:
+ * 'full' awards the task's points, 'reduced' awards latePointsPercent of them
+ * and 'locked' does not allow completing it at all
+ */
+export const LateCompletionPolicySchema = z.enum(['full', 'reduced', 'locked']);
+
+export type LateCompletionPolicy = z.infer<typeof LateCompletionPolicySchema>;
+
+/**
+ * Share of the points awarded for a late completion under the 'reduced' policy
+ */
+export const LatePointsPercentSchema = z.number().int().min(0).max(100);
+
 /**
  * Base Household Schema
  * Represents a household (tenant) in the multi-tenant system
@@ -11,6 +46,10 @@ export const HouseholdSchema = z.object({
   id: z.string().uuid(),
   name: z.string().min(1).max(100),
   adminUserId: z.string().uuid().optional(),
+  timezone: z.string().optional(),
+  requiresApproval: z.boolean().optional(),
+  lateCompletionPolicy: LateCompletionPolicySchema.optional(),
+  latePointsPercent: LatePointsPercentSchema.optional(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
@@ -37,24 +76,35 @@ export const CreateHouseholdRequestSchema = z.object({
     .refine((val) => val.length > 0, {
       message: 'Name must not be empty after trimming whitespace',
     }),
+  timezone: TimezoneSchema.optional(),
 });
 
 export type CreateHouseholdRequest = z.infer<typeof CreateHouseholdRequestSchema>;
 
 /**
  * Update Household Request
- * Used for updating household details
+ * Used for updating household details (name, timezone, approval and late completion settings)
  */
-export const UpdateHouseholdRequestSchema = z.object({
-  name: z
-    .string()
-    .min(1)
-    .max(100)
-    .trim()
-    .refine((val) => val.length > 0, {
-      message: 'Name must not be empty after trimming whitespace',
-    }),
-});
+export const UpdateHouseholdRequestSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1)
+      .max(100)
+      .trim()
+      .refine((val) => val.length > 0, {
+        message: 'Name must not be empty after trimming whitespace',
+      })
+      .optional(),
+    timezone: TimezoneSchema.optional(),
+    requiresApproval: z.boolean().optional(),
+    lateCompletionPolicy: LateCompletionPolicySchema.optional(),
+    latePointsPercent: LatePointsPercentSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message:
+      'At least one of name, timezone, requiresApproval, lateCompletionPolicy or latePointsPercent must be provided',
+  });
 
 export type UpdateHouseholdRequest = z.infer<typeof UpdateHouseholdRequestSchema>;
 
@@ -84,7 +134,7 @@ export const HouseholdMemberResponseSchema = z.object({
   userId: z.string().uuid(),
   email: z.string().email().nullable(), // null for unlinked children
   displayName: z.string().nullable(),
-  role: z.enum(['admin', 'parent', 'child']),
+  role: z.enum(['admin', 'parent', 'caregiver', 'child']),
   joinedAt: z.string().datetime().nullable(), // null for unlinked children
   tasksCompleted: z.number().int().nonnegative(),
   totalTasks: z.number().int().nonnegative(),
@@ -110,7 +160,7 @@ export type HouseholdWithMembers = z.infer<typeof HouseholdWithMembersSchema>;
 export const InvitationSchema = z.object({
   id: z.string().uuid(),
   householdId: z.string().uuid(),
-  email: z.string().email(),
+  email: z.string().email().nullable(), // null for shareable links
   token: z.string(),
   invitedByUserId: z.string().uuid(),
   expiresAt: z.string().datetime(),
@@ -121,10 +171,21 @@ export type Invitation = z.infer<typeof InvitationSchema>;
 
 /**
  * Create Invitation Request
+ * Without email, the invitation is a link usable maxUses times (null = unlimited).
+ * Child invitations attach the accepting user to childId and are single-use.
  */
-export const CreateInvitationRequestSchema = z.object({
-  email: z.string().email(),
-});
+export const CreateInvitationRequestSchema = z
+  .object({
+    email: z.string().email().nullable().optional(),
+    role: z.enum(['admin', 'parent', 'caregiver', 'child']).default('parent'),
+    childId: z.string().uuid().optional(),
+    maxUses: z.number().int().min(1).max(100).nullable().default(null),
+    expiresInDays: z.number().int().min(1).max(30).default(7),
+  })
+  .refine((data) => (data.role === 'child') === (data.childId !== undefined), {
+    message: 'childId is required for the child role, and only allowed for it',
+    path: ['childId'],
+  });
 
 export type CreateInvitationRequest = z.infer<typeof CreateInvitationRequestSchema>;
 
@@ -16,17 +16,50 @@ export * from './household.schema.js';
 // Child schemas
 export * from './child.schema.js';
 
+// Child absence schemas
+export * from './child-absence.schema.js';
+
 // Task schemas
 export * from './task.schema.js';
 
+// Task template schemas
+export * from './task-template.schema.js';
+
 // Assignment schemas
 export * from './assignment.schema.js';
 
+// Assignment comment schemas
+export * from './assignment-comment.schema.js';
+
 // Reward schemas
 export * from './reward.schema.js';
 
+// Savings goal schemas
+export * from './savings-goal.schema.js';
+
+// Achievement schemas
+export * from './achievement.schema.js';
+
+// Household event schemas
+export * from './household-event.schema.js';
+
+// Points ledger schemas
+export * from './points.schema.js';
+
+// Calendar feed schemas
+export * from './calendar-feed.schema.js';
+
+// Audit log schemas
+export * from './audit.schema.js';
+
+// Household export/import schemas
+export * from './household-archive.schema.js';
+
 // Analytics schemas
 export * from './analytics.schema.js';
 
 // Pagination schemas
 export * from './pagination.schema.js';
+
+// Push notification schemas
+export * from './push.schema.js';
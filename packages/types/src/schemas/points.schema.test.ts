@@ -0,0 +1,65 @@
+/**
+ * Points Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import { CreatePointsAdjustmentRequestSchema, PointsHistoryQuerySchema } from './points.schema.js';
+
+describe('CreatePointsAdjustmentRequestSchema', () => {
+  it('defaults to an adjustment', () => {
+    const result = CreatePointsAdjustmentRequestSchema.parse({
+      amount: -5,
+      reason: 'Forgot to feed the cat',
+    });
+
+    expect(result.type).toBe('adjustment');
+    expect(result.amount).toBe(-5);
+  });
+
+  it('accepts a positive bonus', () => {
+    expect(() =>
+      CreatePointsAdjustmentRequestSchema.parse({ type: 'bonus', amount: 20, reason: 'Birthday' }),
+    ).not.toThrow();
+  });
+
+  it('rejects a negative bonus', () => {
+    expect(() =>
+      CreatePointsAdjustmentRequestSchema.parse({ type: 'bonus', amount: -20, reason: 'Oops' }),
+    ).toThrow();
+  });
+
+  it('rejects a zero amount', () => {
+    expect(() =>
+      CreatePointsAdjustmentRequestSchema.parse({ amount: 0, reason: 'Nothing' }),
+    ).toThrow();
+  });
+
+  it('requires a non-blank reason', () => {
+    expect(() => CreatePointsAdjustmentRequestSchema.parse({ amount: 10 })).toThrow();
+    expect(() =>
+      CreatePointsAdjustmentRequestSchema.parse({ amount: 10, reason: '   ' }),
+    ).toThrow();
+  });
+
+  it('rejects ledger-only types', () => {
+    expect(() =>
+      CreatePointsAdjustmentRequestSchema.parse({ type: 'refund', amount: 10, reason: 'Refund' }),
+    ).toThrow();
+  });
+});
+
+describe('PointsHistoryQuerySchema', () => {
+  it('applies defaults', () => {
+    expect(PointsHistoryQuerySchema.parse({})).toEqual({ limit: 50, offset: 0 });
+  });
+
+  it('coerces query string numbers', () => {
+    expect(PointsHistoryQuerySchema.parse({ limit: '10', offset: '20' })).toEqual({
+      limit: 10,
+      offset: 20,
+    });
+  });
+
+  it('caps the page size', () => {
+    expect(() => PointsHistoryQuerySchema.parse({ limit: '500' })).toThrow();
+  });
+});
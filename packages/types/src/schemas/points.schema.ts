@@ -0,0 +1,108 @@
+/**
+ * Points Schema - Points ledger (history and manual adjustments)
+ */
+import { z } from '../generators/openapi.generator.js';
+
+/**
+ * Points Transaction Type
+ * - task_completion: points credited for an approved completion
+ * - redemption: points spent on a reward
+ * - refund: points returned when a redemption is rejected
+ * - adjustment: manual correction or penalty by a parent (positive or negative)
+ * - bonus: extra points given by a parent
+ */
+export const PointsTransactionTypeSchema = z.enum([
+  'task_completion',
+  'redemption',
+  'refund',
+  'adjustment',
+  'bonus',
+]);
+
+export type PointsTransactionType = z.infer<typeof PointsTransactionTypeSchema>;
+
+/**
+ * Points Transaction Schema
+ * One ledger entry; balanceAfter is the child's balance including this entry
+ */
+export const PointsTransactionSchema = z.object({
+  id: z.string().uuid(),
+  householdId: z.string().uuid(),
+  childId: z.string().uuid(),
+  type: PointsTransactionTypeSchema,
+  amount: z.number().int(),
+  balanceAfter: z.number().int(),
+  reason: z.string().nullable(),
+  taskCompletionId: z.string().uuid().nullable(),
+  rewardRedemptionId: z.string().uuid().nullable(),
+  createdBy: z.string().uuid().nullable(),
+  createdAt: z.string().datetime(),
+  // Added by the history endpoint for display purposes
+  taskName: z.string().nullable().optional(),
+  rewardName: z.string().nullable().optional(),
+});
+
+export type PointsTransaction = z.infer<typeof PointsTransactionSchema>;
+
+/**
+ * Request Schemas
+ */
+
+/**
+ * Points History Query
+ * Newest entries first
+ */
+export const PointsHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type PointsHistoryQuery = z.infer<typeof PointsHistoryQuerySchema>;
+
+/**
+ * Create Points Adjustment Request
+ * Used by parents to correct a balance, give a penalty or a bonus
+ */
+export const CreatePointsAdjustmentRequestSchema = z
+  .object({
+    type: z.enum(['adjustment', 'bonus']).default('adjustment'),
+    amount: z
+      .number()
+      .int()
+      .min(-10000)
+      .max(10000)
+      .refine((amount) => amount !== 0, 'Amount cannot be zero'),
+    reason: z.string().trim().min(1, 'Reason is required').max(500),
+  })
+  .refine((data) => data.type !== 'bonus' || data.amount > 0, {
+    message: 'Bonus must be positive',
+    path: ['amount'],
+  });
+
+export type CreatePointsAdjustmentRequest = z.infer<typeof CreatePointsAdjustmentRequestSchema>;
+
+/**
+ * Response Schemas
+ */
+
+/**
+ * Points History Response
+ */
+export const PointsHistoryResponseSchema = z.object({
+  balance: z.number().int(),
+  transactions: z.array(PointsTransactionSchema),
+  total: z.number().int().min(0),
+});
+
+export type PointsHistoryResponse = z.infer<typeof PointsHistoryResponseSchema>;
+
+/**
+ * Points Adjustment Response
+ * Returns the new ledger entry and the resulting balance
+ */
+export const PointsAdjustmentResponseSchema = z.object({
+  transaction: PointsTransactionSchema,
+  balance: z.number().int(),
+});
+
+export type PointsAdjustmentResponse = z.infer<typeof PointsAdjustmentResponseSchema>;
@@ -0,0 +1,55 @@
+/**
+ * Push Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  CreatePushSubscriptionRequestSchema,
+  DeletePushSubscriptionRequestSchema,
+} from './push.schema.js';
+
+describe('CreatePushSubscriptionRequestSchema', () => {
+  const validSubscription = {
+    endpoint: 'https://fcm.googleapis.com/fcm/send/abc123',
+    expirationTime: null,
+    keys: {
+      p256dh:
+        'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM',
+      auth: 'tBHItJI5svbpez7KI4CCXg',
+    },
+  };
+
+  it('validates a browser PushSubscription', () => {
+    expect(() => CreatePushSubscriptionRequestSchema.parse(validSubscription)).not.toThrow();
+  });
+
+  it('allows expirationTime to be omitted', () => {
+    const { expirationTime: _expirationTime, ...withoutExpiration } = validSubscription;
+    expect(() => CreatePushSubscriptionRequestSchema.parse(withoutExpiration)).not.toThrow();
+  });
+
+  it('rejects a non-URL endpoint', () => {
+    expect(() =>
+      CreatePushSubscriptionRequestSchema.parse({ ...validSubscription, endpoint: 'not-a-url' }),
+    ).toThrow();
+  });
+
+  it('rejects missing keys', () => {
+    expect(() =>
+      CreatePushSubscriptionRequestSchema.parse({
+        ...validSubscription,
+        keys: { p256dh: validSubscription.keys.p256dh },
+      }),
+    ).toThrow();
+  });
+});
+
+describe('DeletePushSubscriptionRequestSchema', () => {
+  it('requires an endpoint', () => {
+    expect(() => DeletePushSubscriptionRequestSchema.parse({})).toThrow();
+    expect(() =>
+      DeletePushSubscriptionRequestSchema.parse({
+        endpoint: 'https://fcm.googleapis.com/fcm/send/abc123',
+      }),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Push Schema - Web Push (VAPID) notification subscriptions
+ */
+import { z } from '../generators/openapi.generator.js';
+
+/**
+ * Push Subscription Keys
+ * Browser-generated keys used to encrypt the payload for this subscription
+ */
+export const PushSubscriptionKeysSchema = z.object({
+  p256dh: z.string().min(1).max(255),
+  auth: z.string().min(1).max(255),
+});
+
+export type PushSubscriptionKeys = z.infer<typeof PushSubscriptionKeysSchema>;
+
+/**
+ * Create Push Subscription Request
+ * Mirrors the browser's PushSubscription.toJSON() shape. The backend
+ * additionally requires a public https endpoint.
+ */
+export const CreatePushSubscriptionRequestSchema = z.object({
+  endpoint: z.string().url().max(2048),
+  expirationTime: z.number().nullable().optional(),
+  keys: PushSubscriptionKeysSchema,
+});
+
+export type CreatePushSubscriptionRequest = z.infer<typeof CreatePushSubscriptionRequestSchema>;
+
+/**
+ * Delete Push Subscription Query
+ */
+export const DeletePushSubscriptionRequestSchema = z.object({
+  endpoint: z.string().url().max(2048),
+});
+
+export type DeletePushSubscriptionRequest = z.infer<typeof DeletePushSubscriptionRequestSchema>;
+
+/**
+ * Push Subscription Schema
+ * A stored subscription (keys are never returned)
+ */
+export const PushSubscriptionSchema = z.object({
+  id: z.string().uuid(),
+  endpoint: z.string(),
+  createdAt: z.string().datetime(),
+});
+
+export type PushSubscription = z.infer<typeof PushSubscriptionSchema>;
+
+/**
+ * VAPID Public Key Response
+ * The application server key the browser needs to subscribe
+ */
+export const VapidPublicKeyResponseSchema = z.object({
+  publicKey: z.string().nullable(),
+});
+
+export type VapidPublicKeyResponse = z.infer<typeof VapidPublicKeyResponseSchema>;
+
+/**
+ * Push Notification Type
+ */
+export const PushNotificationTypeSchema = z.enum([
+  'assignment_reminder',
+  'single_task_available',
+  'redemption_status',
+  'savings_goal_affordable',
+]);
+
+export type PushNotificationType = z.infer<typeof PushNotificationTypeSchema>;
@@ -0,0 +1,73 @@
+/**
+ * Reward Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  CreateRewardRequestSchema,
+  UpdateRewardRequestSchema,
+  RedemptionErrorCodeSchema,
+} from './reward.schema.js';
+
+describe('CreateRewardRequestSchema', () => {
+  it('accepts a limited, seasonal reward that restocks', () => {
+    const result = CreateRewardRequestSchema.parse({
+      name: 'Pizza night',
+      pointsCost: 200,
+      redemptionLimit: { count: 1, period: 'week' },
+      availableFrom: '2026-12-01',
+      availableUntil: '2026-12-31',
+      availableDays: [5, 6],
+      restock: { quantity: 2, period: 'week' },
+    });
+
+    expect(result.redemptionLimit).toEqual({ count: 1, period: 'week' });
+    expect(result.restock).toEqual({ quantity: 2, period: 'week' });
+  });
+
+  it('rejects a window that ends before it starts', () => {
+    expect(() =>
+      CreateRewardRequestSchema.parse({
+        name: 'Pizza night',
+        pointsCost: 200,
+        availableFrom: '2026-12-31',
+        availableUntil: '2026-12-01',
+      }),
+    ).toThrow();
+  });
+
+  it('rejects repeated or unknown days of the week', () => {
+    const reward = { name: 'Screen time', pointsCost: 30 };
+
+    expect(() => CreateRewardRequestSchema.parse({ ...reward, availableDays: [1, 1] })).toThrow();
+    expect(() => CreateRewardRequestSchema.parse({ ...reward, availableDays: [7] })).toThrow();
+  });
+
+  it('rejects an unknown limit period', () => {
+    expect(() =>
+      CreateRewardRequestSchema.parse({
+        name: 'Screen time',
+        pointsCost: 30,
+        redemptionLimit: { count: 2, period: 'year' },
+      }),
+    ).toThrow();
+  });
+});
+
+describe('UpdateRewardRequestSchema', () => {
+  it('clears rules with null', () => {
+    const result = UpdateRewardRequestSchema.parse({
+      redemptionLimit: null,
+      availableDays: null,
+      restock: null,
+    });
+
+    expect(result).toEqual({ redemptionLimit: null, availableDays: null, restock: null });
+  });
+});
+
+describe('RedemptionErrorCodeSchema', () => {
+  it('names every reason a redemption is refused', () => {
+    expect(RedemptionErrorCodeSchema.options).toContain('REDEMPTION_LIMIT_REACHED');
+    expect(RedemptionErrorCodeSchema.options).toContain('INSUFFICIENT_POINTS');
+  });
+});
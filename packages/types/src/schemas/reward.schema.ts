@@ -2,6 +2,7 @@
  * Reward Schema - Points redemption system
  */
 import { z } from '../generators/openapi.generator.js';
+import { SavingsGoalSchema } from './savings-goal.schema.js';
 
 /**
  * Reward Redemption Status
@@ -16,6 +17,60 @@ export const RewardRedemptionStatusSchema = z.enum([
 
 export type RewardRedemptionStatus = z.infer<typeof RewardRedemptionStatusSchema>;
 
+/**
+ * Reward Period
+ * Calendar period in the household's timezone; weeks start on Monday
+ */
+export const RewardPeriodSchema = z.enum(['day', 'week', 'month']);
+
+export type RewardPeriod = z.infer<typeof RewardPeriodSchema>;
+
+/**
+ * Redemption Limit
+ * At most `count` redemptions per child in each period (rejected ones don't count)
+ */
+export const RewardRedemptionLimitSchema = z.object({
+  count: z.number().int().min(1).max(100),
+  period: RewardPeriodSchema,
+});
+
+export type RewardRedemptionLimit = z.infer<typeof RewardRedemptionLimitSchema>;
+
+/**
+ * Restock
+ * The quantity is reset to `quantity` at the start of each period
+ */
+export const RewardRestockSchema = z.object({
+  quantity: z.number().int().min(1),
+  period: RewardPeriodSchema,
+});
+
+export type RewardRestock = z.infer<typeof RewardRestockSchema>;
+
+/**
+ * Days of the week a reward can be redeemed on (0=Sunday, 6=Saturday)
+ */
+export const RewardAvailableDaysSchema = z
+  .array(z.number().int().min(0).max(6))
+  .min(1)
+  .max(7)
+  .refine((days) => new Set(days).size === days.length, 'Days must be unique');
+
+/**
+ * Redemption Error Code
+ * `code` of a refused redemption, and why a reward can't be redeemed right now
+ */
+export const RedemptionErrorCodeSchema = z.enum([
+  'REWARD_NOT_STARTED',
+  'REWARD_ENDED',
+  'REWARD_NOT_AVAILABLE_TODAY',
+  'REWARD_OUT_OF_STOCK',
+  'REDEMPTION_LIMIT_REACHED',
+  'INSUFFICIENT_POINTS',
+]);
+
+export type RedemptionErrorCode = z.infer<typeof RedemptionErrorCodeSchema>;
+
 /**
  * Reward Schema
  * Represents a reward that children can redeem with points
@@ -28,6 +83,11 @@ export const RewardSchema = z.object({
   pointsCost: z.number().int().min(1),
   quantity: z.number().int().min(0).nullable(), // null = unlimited
   active: z.boolean(),
+  redemptionLimit: RewardRedemptionLimitSchema.nullable(), // null = no limit
+  availableFrom: z.string().date().nullable(), // inclusive
+  availableUntil: z.string().date().nullable(), // inclusive
+  availableDays: RewardAvailableDaysSchema.nullable(), // null = every day
+  restock: RewardRestockSchema.nullable(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
@@ -72,16 +132,39 @@ export type ChildPointsBalance = z.infer<typeof ChildPointsBalanceSchema>;
  * Request Schemas
  */
 
+/**
+ * Check that an availability window does not end before it starts
+ */
+function validateAvailableWindow(
+  data: { availableFrom?: string | null; availableUntil?: string | null },
+  ctx: z.RefinementCtx,
+): void {
+  if (data.availableFrom && data.availableUntil && data.availableFrom > data.availableUntil) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'availableUntil must not be before availableFrom',
+      path: ['availableUntil'],
+    });
+  }
+}
+
 /**
  * Create Reward Request
  * Used when creating a new reward
  */
-export const CreateRewardRequestSchema = z.object({
-  name: z.string().min(1).max(255).trim(),
-  description: z.string().optional(),
-  pointsCost: z.number().int().min(1),
-  quantity: z.number().int().min(0).nullable().optional(), // null or undefined = unlimited
-});
+export const CreateRewardRequestSchema = z
+  .object({
+    name: z.string().min(1).max(255).trim(),
+    description: z.string().optional(),
+    pointsCost: z.number().int().min(1),
+    quantity: z.number().int().min(0).nullable().optional(), // null or undefined = unlimited
+    redemptionLimit: RewardRedemptionLimitSchema.nullable().optional(),
+    availableFrom: z.string().date().nullable().optional(),
+    availableUntil: z.string().date().nullable().optional(),
+    availableDays: RewardAvailableDaysSchema.nullable().optional(),
+    restock: RewardRestockSchema.nullable().optional(), // starts at restock.quantity without quantity
+  })
+  .superRefine(validateAvailableWindow);
 
 export type CreateRewardRequest = z.infer<typeof CreateRewardRequestSchema>;
 
@@ -89,13 +172,20 @@ export type CreateRewardRequest = z.infer<typeof CreateRewardRequestSchema>;
  * Update Reward Request
  * Used for updating reward (partial update)
  */
-export const UpdateRewardRequestSchema = z.object({
-  name: z.string().min(1).max(255).trim().optional(),
-  description: z.string().nullable().optional(),
-  pointsCost: z.number().int().min(1).optional(),
-  quantity: z.number().int().min(0).nullable().optional(),
-  active: z.boolean().optional(),
-});
+export const UpdateRewardRequestSchema = z
+  .object({
+    name: z.string().min(1).max(255).trim().optional(),
+    description: z.string().nullable().optional(),
+    pointsCost: z.number().int().min(1).optional(),
+    quantity: z.number().int().min(0).nullable().optional(),
+    active: z.boolean().optional(),
+    redemptionLimit: RewardRedemptionLimitSchema.nullable().optional(),
+    availableFrom: z.string().date().nullable().optional(),
+    availableUntil: z.string().date().nullable().optional(),
+    availableDays: RewardAvailableDaysSchema.nullable().optional(),
+    restock: RewardRestockSchema.nullable().optional(),
+  })
+  .superRefine(validateAvailableWindow);
 
 export type UpdateRewardRequest = z.infer<typeof UpdateRewardRequestSchema>;
 
@@ -125,16 +215,21 @@ export type UpdateRedemptionStatusRequest = z.infer<typeof UpdateRedemptionStatu
 
 /**
  * Child Rewards Response
- * Returns available rewards and child's points balance
+ * Returns available rewards, child's points balance and savings goals
  */
 export const ChildRewardsResponseSchema = z.object({
   pointsBalance: z.number().int().min(0),
+  earmarkedPoints: z.number().int().min(0), // kept for the child's savings goals
+  availablePoints: z.number().int().min(0), // balance minus earmarked points
   rewards: z.array(
     RewardSchema.extend({
-      available: z.boolean(), // false if quantity = 0
-      canAfford: z.boolean(), // based on child's balance
+      available: z.boolean(), // false if it can't be redeemed right now, see unavailableReason
+      unavailableReason: RedemptionErrorCodeSchema.exclude(['INSUFFICIENT_POINTS']).nullable(),
+      redemptionsLeft: z.number().int().min(0).nullable(), // in the current period, null = no limit
+      canAfford: z.boolean(), // based on child's balance and earmarked points
     }),
   ),
+  goals: z.array(SavingsGoalSchema),
 });
 
 export type ChildRewardsResponse = z.infer<typeof ChildRewardsResponseSchema>;
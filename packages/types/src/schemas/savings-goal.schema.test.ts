@@ -0,0 +1,50 @@
+/**
+ * Savings Goal Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  SavingsGoalSchema,
+  CreateSavingsGoalRequestSchema,
+  UpdateSavingsGoalRequestSchema,
+} from './savings-goal.schema.js';
+
+const rewardId = '123e4567-e89b-12d3-a456-426614174002';
+
+describe('SavingsGoalSchema', () => {
+  it('accepts a goal without an estimate', () => {
+    expect(() =>
+      SavingsGoalSchema.parse({
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        householdId: '123e4567-e89b-12d3-a456-426614174001',
+        childId: '123e4567-e89b-12d3-a456-426614174003',
+        rewardId,
+        rewardName: 'Bike',
+        pointsCost: 500,
+        earmarkedPoints: 100,
+        progressPoints: 120,
+        progressPercent: 24,
+        remainingPoints: 380,
+        canAfford: false,
+        estimatedDays: null,
+        estimatedDate: null,
+        createdAt: '2026-10-18T10:00:00.000Z',
+      }),
+    ).not.toThrow();
+  });
+});
+
+describe('CreateSavingsGoalRequestSchema', () => {
+  it('accepts a goal without earmarked points', () => {
+    expect(CreateSavingsGoalRequestSchema.parse({ rewardId })).toEqual({ rewardId });
+  });
+
+  it('rejects negative earmarked points', () => {
+    expect(() => CreateSavingsGoalRequestSchema.parse({ rewardId, earmarkedPoints: -5 })).toThrow();
+  });
+});
+
+describe('UpdateSavingsGoalRequestSchema', () => {
+  it('requires whole points', () => {
+    expect(() => UpdateSavingsGoalRequestSchema.parse({ earmarkedPoints: 2.5 })).toThrow();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Savings Goal Schema - Rewards a child is saving up for
+ *
+ * A child pins rewards as goals and can earmark points for them. Earmarked
+ * points are kept for the goal: other rewards and goals cannot spend them.
+ */
+import { z } from '../generators/openapi.generator.js';
+
+/**
+ * Savings Goal
+ * Progress counts the child's points that are free for this goal: the
+ * balance minus what is earmarked for their other goals, up to the cost.
+ */
+export const SavingsGoalSchema = z.object({
+  id: z.string().uuid(),
+  householdId: z.string().uuid(),
+  childId: z.string().uuid(),
+  rewardId: z.string().uuid(),
+  rewardName: z.string(),
+  pointsCost: z.number().int().min(1),
+  earmarkedPoints: z.number().int().min(0),
+  progressPoints: z.number().int().min(0),
+  progressPercent: z.number().int().min(0).max(100),
+  remainingPoints: z.number().int().min(0),
+  canAfford: z.boolean(),
+  // Days until affordable at the recent earning rate; null without recent earnings
+  estimatedDays: z.number().int().min(0).nullable(),
+  estimatedDate: z.string().date().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export type SavingsGoal = z.infer<typeof SavingsGoalSchema>;
+
+/**
+ * Request Schemas
+ */
+
+/**
+ * Create Savings Goal Request
+ * Pin a reward as a goal, optionally earmarking points right away
+ */
+export const CreateSavingsGoalRequestSchema = z.object({
+  rewardId: z.string().uuid(),
+  earmarkedPoints: z.number().int().min(0).optional(),
+});
+
+export type CreateSavingsGoalRequest = z.infer<typeof CreateSavingsGoalRequestSchema>;
+
+/**
+ * Update Savings Goal Request
+ * Change how many points are earmarked for the goal
+ */
+export const UpdateSavingsGoalRequestSchema = z.object({
+  earmarkedPoints: z.number().int().min(0),
+});
+
+export type UpdateSavingsGoalRequest = z.infer<typeof UpdateSavingsGoalRequestSchema>;
@@ -0,0 +1,73 @@
+/**
+ * Task Template Schema Tests
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  TaskTemplateSchema,
+  SaveTaskTemplateRequestSchema,
+  CreateTaskFromTemplateRequestSchema,
+  TaskSuggestionsQuerySchema,
+} from './task-template.schema.js';
+
+const childId = '123e4567-e89b-12d3-a456-426614174001';
+const taskId = '123e4567-e89b-12d3-a456-426614174002';
+
+describe('TaskTemplateSchema', () => {
+  it('accepts a built-in template with a slug id', () => {
+    expect(() =>
+      TaskTemplateSchema.parse({
+        id: 'empty-dishwasher',
+        source: 'builtin',
+        name: 'Empty the dishwasher',
+        description: null,
+        points: 10,
+        ruleType: 'daily',
+        ruleConfig: null,
+        minAge: 8,
+        maxAge: null,
+      }),
+    ).not.toThrow();
+  });
+});
+
+describe('SaveTaskTemplateRequestSchema', () => {
+  it('accepts a task id with an age range', () => {
+    const result = SaveTaskTemplateRequestSchema.parse({ taskId, minAge: 6, maxAge: 12 });
+
+    expect(result).toEqual({ taskId, minAge: 6, maxAge: 12 });
+  });
+
+  it('rejects an age range that ends before it starts', () => {
+    expect(() => SaveTaskTemplateRequestSchema.parse({ taskId, minAge: 12, maxAge: 6 })).toThrow();
+  });
+});
+
+describe('CreateTaskFromTemplateRequestSchema', () => {
+  it('accepts a template with children and overrides', () => {
+    const result = CreateTaskFromTemplateRequestSchema.parse({
+      templateId: 'walk-dog',
+      assignedChildren: [childId],
+      name: '  Walk Rex ',
+      points: 20,
+    });
+
+    expect(result.name).toBe('Walk Rex');
+  });
+
+  it('requires at least one child', () => {
+    expect(() =>
+      CreateTaskFromTemplateRequestSchema.parse({ templateId: 'walk-dog', assignedChildren: [] }),
+    ).toThrow();
+  });
+});
+
+describe('TaskSuggestionsQuerySchema', () => {
+  it('defaults to five suggestions', () => {
+    expect(TaskSuggestionsQuerySchema.parse({})).toEqual({ limit: 5 });
+  });
+
+  it('coerces and caps the limit', () => {
+    expect(TaskSuggestionsQuerySchema.parse({ limit: '10' }).limit).toBe(10);
+    expect(() => TaskSuggestionsQuerySchema.parse({ limit: '50' })).toThrow();
+  });
+});
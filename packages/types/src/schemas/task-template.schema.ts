@@ -0,0 +1,126 @@
+/**
+ * Task Template Schema - Presets a task can be created from
+ */
+import { z } from '../generators/openapi.generator.js';
+import { TaskSchema, TaskRuleTypeSchema, TaskRuleConfigSchema } from './task.schema.js';
+
+/**
+ * Where a template comes from: the built-in catalogue or a household's own
+ */
+export const TaskTemplateSourceSchema = z.enum(['builtin', 'household']);
+
+export type TaskTemplateSource = z.infer<typeof TaskTemplateSourceSchema>;
+
+const TemplateAgeSchema = z.number().int().min(0).max(18);
+
+/**
+ * Task Template
+ * Built-in templates have a slug id and text in the caller's language;
+ * household templates have a uuid. ruleConfig never holds assignedChildren,
+ * those are picked when a task is created from the template.
+ */
+export const TaskTemplateSchema = z.object({
+  id: z.string().min(1),
+  source: TaskTemplateSourceSchema,
+  name: TaskSchema.shape.name,
+  description: z.string().nullable(),
+  points: TaskSchema.shape.points,
+  ruleType: TaskRuleTypeSchema,
+  ruleConfig: TaskRuleConfigSchema,
+  minAge: TemplateAgeSchema.nullable(),
+  maxAge: TemplateAgeSchema.nullable(),
+});
+
+export type TaskTemplate = z.infer<typeof TaskTemplateSchema>;
+
+/**
+ * Request Schemas
+ */
+
+/**
+ * Save Task Template Request
+ * Saves an existing task of the household as a template
+ */
+export const SaveTaskTemplateRequestSchema = z
+  .object({
+    taskId: z.string().uuid(),
+    minAge: TemplateAgeSchema.nullable().optional(),
+    maxAge: TemplateAgeSchema.nullable().optional(),
+  })
+  .refine((data) => data.minAge == null || data.maxAge == null || data.maxAge >= data.minAge, {
+    message: 'maxAge must not be below minAge',
+    path: ['maxAge'],
+  });
+
+export type SaveTaskTemplateRequest = z.infer<typeof SaveTaskTemplateRequestSchema>;
+
+/**
+ * Create Task From Template Request
+ * name and points override the template's suggestions
+ */
+export const CreateTaskFromTemplateRequestSchema = z.object({
+  templateId: z.string().min(1),
+  assignedChildren: z.array(z.string().uuid()).min(1),
+  name: z.string().min(1).max(255).trim().optional(),
+  points: TaskSchema.shape.points.optional(),
+});
+
+export type CreateTaskFromTemplateRequest = z.infer<typeof CreateTaskFromTemplateRequestSchema>;
+
+/**
+ * Response Schemas
+ */
+
+/**
+ * Task Template List Response
+ * Built-in templates first, then the household's own by name
+ */
+export const TaskTemplateListResponseSchema = z.object({
+  templates: z.array(TaskTemplateSchema),
+});
+
+export type TaskTemplateListResponse = z.infer<typeof TaskTemplateListResponseSchema>;
+
+/**
+ * Task Suggestions
+ */
+
+/**
+ * Why a template was suggested for a child
+ * - age_fit: the child's age is within the template's age range
+ * - completed_before: the child has completed a task like it
+ * - light_chore: a small chore for a child who completes few assignments
+ */
+export const TaskSuggestionReasonSchema = z.enum(['age_fit', 'completed_before', 'light_chore']);
+
+export type TaskSuggestionReason = z.infer<typeof TaskSuggestionReasonSchema>;
+
+export const TaskSuggestionSchema = z.object({
+  template: TaskTemplateSchema,
+  score: z.number().int(),
+  reasons: z.array(TaskSuggestionReasonSchema),
+});
+
+export type TaskSuggestion = z.infer<typeof TaskSuggestionSchema>;
+
+/**
+ * Task Suggestions Query
+ * Number of suggestions to return (default 5)
+ */
+export const TaskSuggestionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+export type TaskSuggestionsQuery = z.infer<typeof TaskSuggestionsQuerySchema>;
+
+/**
+ * Task Suggestions Response
+ * Best suggestion first; age is null when the child's birth year is unknown
+ */
+export const TaskSuggestionsResponseSchema = z.object({
+  childId: z.string().uuid(),
+  age: z.number().int().nullable(),
+  suggestions: z.array(TaskSuggestionSchema),
+});
+
+export type TaskSuggestionsResponse = z.infer<typeof TaskSuggestionsResponseSchema>;
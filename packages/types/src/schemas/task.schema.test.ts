@@ -7,6 +7,8 @@ import {
   TaskRuleTypeSchema,
   CreateTaskRequestSchema,
   UpdateTaskRequestSchema,
+  RotationPreviewQuerySchema,
+  TaskChecklistSchema,
 } from './task.schema.js';
 
 describe('TaskSchema', () => {
@@ -155,6 +157,39 @@ describe('CreateTaskRequestSchema', () => {
     expect(() => CreateTaskRequestSchema.parse(validRequest)).not.toThrow();
   });
 
+  it('accepts checklist items without ids', () => {
+    const parsed = CreateTaskRequestSchema.parse({
+      name: 'Tidy the kitchen',
+      ruleType: 'daily',
+      checklist: [{ label: ' Empty the dishwasher ' }, { id: 'wipe', label: 'Wipe the table' }],
+      partialPoints: true,
+    });
+
+    expect(parsed.checklist).toEqual([
+      { label: 'Empty the dishwasher' },
+      { id: 'wipe', label: 'Wipe the table' },
+    ]);
+  });
+
+  it('rejects duplicate checklist item ids and blank labels', () => {
+    const duplicate = CreateTaskRequestSchema.safeParse({
+      name: 'Tidy the kitchen',
+      ruleType: 'daily',
+      checklist: [
+        { id: 'wipe', label: 'Wipe the table' },
+        { id: 'wipe', label: 'Wipe the counter' },
+      ],
+    });
+    const blank = CreateTaskRequestSchema.safeParse({
+      name: 'Tidy the kitchen',
+      ruleType: 'daily',
+      checklist: [{ label: '   ' }],
+    });
+
+    expect(duplicate.success).toBe(false);
+    expect(blank.success).toBe(false);
+  });
+
   it('rejects empty name', () => {
     const invalidRequest = {
       name: '',
@@ -163,4 +198,121 @@ describe('CreateTaskRequestSchema', () => {
 
     expect(() => CreateTaskRequestSchema.parse(invalidRequest)).toThrow();
   });
+
+  it('validates an interval task every other week', () => {
+    const request = {
+      name: 'Clean the fridge',
+      ruleType: 'interval' as const,
+      ruleConfig: { interval: 2, intervalUnit: 'weeks' as const, startDate: '2026-10-18' },
+    };
+
+    expect(() => CreateTaskRequestSchema.parse(request)).not.toThrow();
+  });
+
+  it('requires interval and startDate for interval tasks', () => {
+    const result = CreateTaskRequestSchema.safeParse({
+      name: 'Change bedsheets',
+      ruleType: 'interval',
+      ruleConfig: { intervalUnit: 'days' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path.join('.'))).toEqual([
+      'ruleConfig.interval',
+      'ruleConfig.startDate',
+    ]);
+  });
+
+  it('validates monthly tasks by day or by nth weekday', () => {
+    expect(() =>
+      CreateTaskRequestSchema.parse({
+        name: 'Pay allowance',
+        ruleType: 'monthly',
+        ruleConfig: { dayOfMonth: 31 },
+      }),
+    ).not.toThrow();
+    expect(() =>
+      CreateTaskRequestSchema.parse({
+        name: 'Sort recycling',
+        ruleType: 'monthly',
+        ruleConfig: { weekOfMonth: 1, dayOfWeek: 6 },
+      }),
+    ).not.toThrow();
+    expect(() =>
+      CreateTaskRequestSchema.parse({
+        name: 'Water the plants',
+        ruleType: 'monthly',
+        ruleConfig: { weekOfMonth: -1, dayOfWeek: 0 },
+      }),
+    ).not.toThrow();
+  });
+
+  it('rejects monthly tasks with both, neither or half a weekday rule', () => {
+    const parse = (ruleConfig: Record<string, number>) =>
+      CreateTaskRequestSchema.safeParse({ name: 'Monthly', ruleType: 'monthly', ruleConfig });
+
+    expect(parse({ dayOfMonth: 1, weekOfMonth: 1, dayOfWeek: 6 }).success).toBe(false);
+    expect(parse({}).success).toBe(false);
+    expect(parse({ weekOfMonth: 2 }).success).toBe(false);
+    expect(parse({ weekOfMonth: 0, dayOfWeek: 1 }).success).toBe(false);
+  });
+});
+
+describe('UpdateTaskRequestSchema', () => {
+  it('allows renaming a monthly task without resending its rule', () => {
+    expect(() =>
+      UpdateTaskRequestSchema.parse({ name: 'Renamed', ruleType: 'monthly' }),
+    ).not.toThrow();
+  });
+
+  it('validates a replacement rule config', () => {
+    const result = UpdateTaskRequestSchema.safeParse({
+      ruleType: 'interval',
+      ruleConfig: { interval: 3 },
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('round-robin rotation', () => {
+  it('accepts a round-robin rotation with a period', () => {
+    const result = CreateTaskRequestSchema.safeParse({
+      name: 'Dishes',
+      ruleType: 'weekly_rotation',
+      ruleConfig: { rotationType: 'round_robin', rotationPeriod: 'occurrence' },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects an unknown rotation period', () => {
+    const result = CreateTaskRequestSchema.safeParse({
+      name: 'Dishes',
+      ruleType: 'weekly_rotation',
+      ruleConfig: { rotationType: 'round_robin', rotationPeriod: 'monthly' },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('coerces and bounds the preview weeks', () => {
+    expect(RotationPreviewQuerySchema.parse({})).toEqual({ weeks: 4 });
+    expect(RotationPreviewQuerySchema.parse({ weeks: '8' })).toEqual({ weeks: 8 });
+    expect(RotationPreviewQuerySchema.safeParse({ weeks: '13' }).success).toBe(false);
+  });
+});
+
+describe('TaskChecklistSchema', () => {
+  it('requires an id on every stored item', () => {
+    expect(TaskChecklistSchema.safeParse([{ label: 'Wipe the table' }]).success).toBe(false);
+    expect(TaskChecklistSchema.safeParse([{ id: 'wipe', label: 'Wipe the table' }]).success).toBe(
+      true,
+    );
+  });
+
+  it('allows at most 20 items', () => {
+    const items = Array.from({ length: 21 }, (_, i) => ({ id: `step-${i}`, label: `Step ${i}` }));
+    expect(TaskChecklistSchema.safeParse(items).success).toBe(false);
+  });
 });
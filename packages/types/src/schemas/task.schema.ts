@@ -7,7 +7,14 @@ import { z } from '../generators/openapi.generator.js';
  * Task Rule Types
  * Defines how tasks are assigned to children
  */
-export const TaskRuleTypeSchema = z.enum(['daily', 'repeating', 'weekly_rotation', 'single']);
+export const TaskRuleTypeSchema = z.enum([
+  'daily',
+  'repeating',
+  'weekly_rotation',
+  'single',
+  'interval',
+  'monthly',
+]);
 
 export type TaskRuleType = z.infer<typeof TaskRuleTypeSchema>;
 
@@ -17,8 +24,11 @@ export type TaskRuleType = z.infer<typeof TaskRuleTypeSchema>;
  */
 export const TaskRuleConfigSchema = z
   .object({
-    // For weekly_rotation: odd_even_week or alternating
-    rotationType: z.enum(['odd_even_week', 'alternating']).optional(),
+    // For weekly_rotation: odd_even_week, alternating or round_robin
+    rotationType: z.enum(['odd_even_week', 'alternating', 'round_robin']).optional(),
+
+    // For round_robin: how long each child's turn lasts (default weekly)
+    rotationPeriod: z.enum(['daily', 'weekly', 'occurrence']).optional(),
 
     // For repeating: days of week (0=Sunday, 6=Saturday)
     repeatDays: z.array(z.number().int().min(0).max(6)).optional(),
@@ -28,11 +38,116 @@ export const TaskRuleConfigSchema = z
 
     // For single tasks: optional deadline
     deadline: z.string().datetime().optional(),
+
+    // For interval: every `interval` days or weeks, counted from startDate
+    interval: z.number().int().min(1).max(365).optional(),
+    intervalUnit: z.enum(['days', 'weeks']).optional(),
+    startDate: z.string().date().optional(),
+
+    // For monthly: a day of the month (clamped to the last day in short months)...
+    dayOfMonth: z.number().int().min(1).max(31).optional(),
+
+    // ...or the nth weekday of the month (1-4, or -1 for the last one)
+    weekOfMonth: z
+      .number()
+      .int()
+      .min(-1)
+      .max(4)
+      .refine((week) => week !== 0, 'weekOfMonth must be 1-4 or -1')
+      .optional(),
+    dayOfWeek: z.number().int().min(0).max(6).optional(),
   })
   .nullable();
 
 export type TaskRuleConfig = z.infer<typeof TaskRuleConfigSchema>;
 
+/**
+ * Checklist Item
+ * One step of a task, e.g. "Empty the dishwasher"; ids stay the same when
+ * the checklist is edited so ticked items on assignments keep matching
+ */
+export const ChecklistItemSchema = z.object({
+  id: z.string().min(1).max(64),
+  label: z.string().trim().min(1).max(200),
+});
+
+export type ChecklistItem = z.infer<typeof ChecklistItemSchema>;
+
+/**
+ * Task Checklist
+ * Ordered steps of a task (empty when the task has no checklist)
+ */
+export const TaskChecklistSchema = z
+  .array(ChecklistItemSchema)
+  .max(20)
+  .refine(
+    (items) => new Set(items.map((item) => item.id)).size === items.length,
+    'Checklist item ids must be unique',
+  );
+
+export type TaskChecklist = z.infer<typeof TaskChecklistSchema>;
+
+/**
+ * Checklist Input
+ * Checklist as sent by clients; new items get their id from the backend
+ */
+export const ChecklistInputSchema = z
+  .array(ChecklistItemSchema.extend({ id: ChecklistItemSchema.shape.id.optional() }))
+  .max(20)
+  .refine((items) => {
+    const ids = items.flatMap((item) => (item.id ? [item.id] : []));
+    return new Set(ids).size === ids.length;
+  }, 'Checklist item ids must be unique');
+
+export type ChecklistInput = z.infer<typeof ChecklistInputSchema>;
+
+/**
+ * Check the rule config fields an interval or monthly rule needs
+ * Other rule types are validated by the backend
+ */
+function validateRecurrenceConfig(
+  data: { ruleType?: TaskRuleType; ruleConfig?: TaskRuleConfig },
+  ctx: z.RefinementCtx,
+): void {
+  const config = data.ruleConfig ?? {};
+
+  if (data.ruleType === 'interval') {
+    if (config.interval === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'interval is required for interval tasks',
+        path: ['ruleConfig', 'interval'],
+      });
+    }
+    if (!config.startDate) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'startDate is required for interval tasks',
+        path: ['ruleConfig', 'startDate'],
+      });
+    }
+  }
+
+  if (data.ruleType === 'monthly') {
+    const byDay = config.dayOfMonth !== undefined;
+    const byWeekday = config.weekOfMonth !== undefined || config.dayOfWeek !== undefined;
+
+    if (byDay === byWeekday) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Monthly tasks need either dayOfMonth or weekOfMonth with dayOfWeek',
+        path: ['ruleConfig'],
+      });
+    } else if (byWeekday && (config.weekOfMonth === undefined || config.dayOfWeek === undefined)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'weekOfMonth and dayOfWeek must be given together',
+        path: ['ruleConfig'],
+      });
+    }
+  }
+}
+
 /**
  * Base Task Schema
  * Represents a task template in a household
@@ -47,6 +162,11 @@ export const TaskSchema = z.object({
   ruleConfig: TaskRuleConfigSchema,
   deadline: z.string().datetime().nullable().optional(),
   active: z.boolean(),
+  requiresApproval: z.boolean().optional(),
+  requiresPhoto: z.boolean().optional(),
+  checklist: TaskChecklistSchema.optional(),
+  // Award points in proportion to the ticked checklist items
+  partialPoints: z.boolean().optional(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
@@ -64,13 +184,19 @@ export type Task = z.infer<typeof TaskSchema>;
  * Create Task Request
  * Used when creating a new task template
  */
-export const CreateTaskRequestSchema = z.object({
-  name: z.string().min(1).max(255).trim(),
-  description: z.string().optional(),
-  points: z.number().int().min(0).max(1000).default(10),
-  ruleType: TaskRuleTypeSchema,
-  ruleConfig: TaskRuleConfigSchema.optional(),
-});
+export const CreateTaskRequestSchema = z
+  .object({
+    name: z.string().min(1).max(255).trim(),
+    description: z.string().optional(),
+    points: z.number().int().min(0).max(1000).default(10),
+    ruleType: TaskRuleTypeSchema,
+    ruleConfig: TaskRuleConfigSchema.optional(),
+    requiresApproval: z.boolean().optional(),
+    requiresPhoto: z.boolean().optional(),
+    checklist: ChecklistInputSchema.optional(),
+    partialPoints: z.boolean().optional(),
+  })
+  .superRefine(validateRecurrenceConfig);
 
 export type CreateTaskRequest = z.infer<typeof CreateTaskRequestSchema>;
 
@@ -78,14 +204,25 @@ export type CreateTaskRequest = z.infer<typeof CreateTaskRequestSchema>;
  * Update Task Request
  * Used for updating task template (partial update)
  */
-export const UpdateTaskRequestSchema = z.object({
-  name: z.string().min(1).max(255).trim().optional(),
-  description: z.string().nullable().optional(),
-  points: z.number().int().min(0).max(1000).optional(),
-  ruleType: TaskRuleTypeSchema.optional(),
-  ruleConfig: TaskRuleConfigSchema.optional(),
-  active: z.boolean().optional(),
-});
+export const UpdateTaskRequestSchema = z
+  .object({
+    name: z.string().min(1).max(255).trim().optional(),
+    description: z.string().nullable().optional(),
+    points: z.number().int().min(0).max(1000).optional(),
+    ruleType: TaskRuleTypeSchema.optional(),
+    ruleConfig: TaskRuleConfigSchema.optional(),
+    active: z.boolean().optional(),
+    requiresApproval: z.boolean().optional(),
+    requiresPhoto: z.boolean().optional(),
+    checklist: ChecklistInputSchema.optional(),
+    partialPoints: z.boolean().optional(),
+  })
+  .superRefine((data, ctx) => {
+    // Without a new ruleConfig the stored one is kept, so only check a full replacement
+    if (data.ruleConfig !== undefined) {
+      validateRecurrenceConfig(data, ctx);
+    }
+  });
 
 export type UpdateTaskRequest = z.infer<typeof UpdateTaskRequestSchema>;
 
@@ -100,6 +237,41 @@ export const GenerateAssignmentsRequestSchema = z.object({
 
 export type GenerateAssignmentsRequest = z.infer<typeof GenerateAssignmentsRequestSchema>;
 
+/**
+ * Rotation Preview Query
+ * Number of weeks to preview (default 4)
+ */
+export const RotationPreviewQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(12).default(4),
+});
+
+export type RotationPreviewQuery = z.infer<typeof RotationPreviewQuerySchema>;
+
+/**
+ * Rotation Preview Entry
+ * Who does a round-robin task on a date; null when nobody is available
+ */
+export const RotationPreviewEntrySchema = z.object({
+  date: z.string().date(),
+  childId: z.string().uuid().nullable(),
+  childName: z.string().nullable(),
+  // Already generated, rather than predicted from the rotation
+  generated: z.boolean(),
+});
+
+export type RotationPreviewEntry = z.infer<typeof RotationPreviewEntrySchema>;
+
+/**
+ * Rotation Preview Response
+ */
+export const RotationPreviewResponseSchema = z.object({
+  taskId: z.string().uuid(),
+  rotationPeriod: z.enum(['daily', 'weekly', 'occurrence']),
+  entries: z.array(RotationPreviewEntrySchema),
+});
+
+export type RotationPreviewResponse = z.infer<typeof RotationPreviewResponseSchema>;
+
 /**
  * Task Candidate Schema
  * Represents a child who is eligible to accept a single task
@@ -9,6 +9,7 @@ import {
   LoginRequestSchema,
   GoogleOAuthRequestSchema,
   UserResponseSchema,
+  UserSessionSchema,
 } from './user.schema.js';
 
 describe('UserSchema', () => {
@@ -170,3 +171,24 @@ describe('UserResponseSchema', () => {
     expect(parsed.lastName).toBe('User');
   });
 });
+
+describe('UserSessionSchema', () => {
+  const session = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    userAgent: null,
+    ipAddress: null,
+    createdAt: '2026-10-18T08:00:00.000Z',
+    lastUsedAt: '2026-10-18T09:00:00.000Z',
+    expiresAt: '2026-10-25T09:00:00.000Z',
+    current: true,
+  };
+
+  it('accepts a session without client details', () => {
+    expect(() => UserSessionSchema.parse(session)).not.toThrow();
+  });
+
+  it('requires the current flag', () => {
+    const { current: _current, ...withoutCurrent } = session;
+    expect(() => UserSessionSchema.parse(withoutCurrent)).toThrow();
+  });
+});
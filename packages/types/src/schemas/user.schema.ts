@@ -150,3 +150,28 @@ export const ResetPasswordResponseSchema = z.object({
 });
 
 export type ResetPasswordResponse = z.infer<typeof ResetPasswordResponseSchema>;
+
+/**
+ * User Session Schema
+ * A signed-in device; `current` marks the session making the request
+ */
+export const UserSessionSchema = z.object({
+  id: z.string().uuid(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  lastUsedAt: z.string().datetime(),
+  expiresAt: z.string().datetime(),
+  current: z.boolean(),
+});
+
+export type UserSession = z.infer<typeof UserSessionSchema>;
+
+/**
+ * User Session List Response
+ */
+export const UserSessionListResponseSchema = z.object({
+  sessions: z.array(UserSessionSchema),
+});
+
+export type UserSessionListResponse = z.infer<typeof UserSessionListResponseSchema>;